@@ -37,7 +37,17 @@ const envSchema = z.object({
   SMTP_PORT: z.string().transform(Number).optional(),
   SMTP_USER: z.string().optional(),
   SMTP_PASS: z.string().optional(),
+  SMTP_SECURE: z.string().transform((v) => v === 'true').optional(),
   NOTIFICATION_EMAIL: z.string().default('notifications.portal@sgbsny.com'),
+
+  // Sales Inbox (shared mailbox)
+  IMAP_HOST: z.string().optional(),
+  IMAP_PORT: z.string().transform(Number).default('993'),
+  IMAP_SECURE: z.string().transform((v) => v !== 'false').default('true'),
+  IMAP_USER: z.string().optional(),
+  IMAP_PASS: z.string().optional(),
+  IMAP_MAILBOX: z.string().default('INBOX'),
+  SALES_INBOX_ADDRESS: z.string().optional(),
 });
 
 const parsed = envSchema.safeParse(process.env);
@@ -0,0 +1,121 @@
+-- S&G Portal V3 - Companies & Contacts
+-- Replaces the flat clients table with the companies/contacts model used by the
+-- Customers panel. The clients table is renamed (not recreated) so existing
+-- client_id foreign keys on projects, estimates and invoices keep working.
+
+-- Rename clients -> companies
+ALTER TABLE clients RENAME TO companies;
+ALTER TABLE companies RENAME COLUMN company_name TO name;
+ALTER INDEX idx_clients_company_name RENAME TO idx_companies_name;
+ALTER INDEX idx_clients_is_active RENAME TO idx_companies_is_active;
+ALTER TRIGGER update_clients_timestamp ON companies RENAME TO update_companies_timestamp;
+
+ALTER TABLE companies
+    ADD COLUMN slug VARCHAR(255),
+    ADD COLUMN website VARCHAR(255),
+    ADD COLUMN sales_rep_ids TEXT[] DEFAULT '{}',
+    ADD COLUMN sales_reps_by_location BOOLEAN DEFAULT false,
+    ADD COLUMN legacy_id VARCHAR(100);
+
+CREATE UNIQUE INDEX idx_companies_slug ON companies(slug);
+CREATE UNIQUE INDEX idx_companies_legacy_id ON companies(legacy_id);
+
+-- Company addresses (main office + additional locations)
+CREATE TABLE company_addresses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    label VARCHAR(100) NOT NULL DEFAULT 'Main Office',
+    street TEXT NOT NULL DEFAULT '',
+    suite VARCHAR(100),
+    city VARCHAR(100) NOT NULL DEFAULT '',
+    state VARCHAR(50) NOT NULL DEFAULT '',
+    zip VARCHAR(20) NOT NULL DEFAULT '',
+    is_main BOOLEAN DEFAULT false,
+    sales_rep_ids TEXT[] DEFAULT '{}',
+    sort_order INTEGER DEFAULT 0,
+    legacy_id VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_company_addresses_company_id ON company_addresses(company_id);
+CREATE UNIQUE INDEX idx_company_addresses_main ON company_addresses(company_id) WHERE is_main;
+
+-- Contacts (people at a company)
+CREATE TABLE contacts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    slug VARCHAR(255),
+    first_name VARCHAR(100) NOT NULL,
+    last_name VARCHAR(100) NOT NULL DEFAULT '',
+    email VARCHAR(255),
+    phone_office VARCHAR(50),
+    phone_mobile VARCHAR(50),
+    role VARCHAR(100),
+    notes TEXT,
+    office_address_id UUID REFERENCES company_addresses(id) ON DELETE SET NULL,
+    legacy_id VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_contacts_company_id ON contacts(company_id);
+CREATE INDEX idx_contacts_email ON contacts(LOWER(email));
+CREATE UNIQUE INDEX idx_contacts_slug ON contacts(slug);
+CREATE UNIQUE INDEX idx_contacts_legacy_id ON contacts(legacy_id);
+
+-- Additional contact methods (extra phones, faxes, emails)
+CREATE TABLE contact_methods (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('phone', 'fax', 'email')),
+    label VARCHAR(100),
+    value VARCHAR(255) NOT NULL,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_contact_methods_contact_id ON contact_methods(contact_id);
+CREATE INDEX idx_contact_methods_email ON contact_methods(LOWER(value)) WHERE type = 'email';
+
+-- Move flat client addresses into company_addresses
+INSERT INTO company_addresses (company_id, label, street, city, state, zip, is_main)
+SELECT id, 'Main Office', COALESCE(address, ''), COALESCE(city, ''), COALESCE(state, ''), COALESCE(zip, ''), true
+FROM companies
+WHERE address IS NOT NULL OR city IS NOT NULL OR state IS NOT NULL OR zip IS NOT NULL;
+
+-- Move flat client contact info into contacts
+INSERT INTO contacts (company_id, first_name, last_name, email, phone_office)
+SELECT
+    id,
+    split_part(COALESCE(NULLIF(contact_name, ''), email), ' ', 1),
+    COALESCE(NULLIF(substr(contact_name, length(split_part(contact_name, ' ', 1)) + 2), ''), ''),
+    email,
+    phone
+FROM companies
+WHERE NULLIF(contact_name, '') IS NOT NULL OR NULLIF(email, '') IS NOT NULL;
+
+-- Generate slugs for existing companies (id suffix keeps them unique)
+UPDATE companies
+SET slug = trim(both '-' from regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g')) || '-' || left(id::text, 8)
+WHERE slug IS NULL;
+
+UPDATE contacts
+SET slug = trim(both '-' from regexp_replace(lower(first_name || ' ' || last_name), '[^a-z0-9]+', '-', 'g')) || '-' || left(id::text, 8)
+WHERE slug IS NULL;
+
+-- Flat columns now live on company_addresses / contacts
+ALTER TABLE companies
+    DROP COLUMN contact_name,
+    DROP COLUMN email,
+    DROP COLUMN address,
+    DROP COLUMN city,
+    DROP COLUMN state,
+    DROP COLUMN zip;
+
+-- Timestamp triggers
+CREATE TRIGGER update_company_addresses_timestamp BEFORE UPDATE ON company_addresses
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_contacts_timestamp BEFORE UPDATE ON contacts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,89 @@
+-- S&G Portal V3 - Sales Pipeline (Leads & Deals)
+-- Server-side storage for the Sales panel pipeline. Stages, labels and sources are
+-- managed in the frontend fields store, so they are stored as plain strings.
+-- Owners are portal users from the users store and are stored by id + name.
+
+CREATE TYPE deal_status AS ENUM ('active', 'won', 'lost');
+
+-- Leads table
+CREATE TABLE leads (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    slug VARCHAR(255) UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+    company_name VARCHAR(255),
+    contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+    contact_name VARCHAR(255),
+    stage VARCHAR(100) NOT NULL,
+    label VARCHAR(100),
+    source VARCHAR(100),
+    notes TEXT,
+    owner_id VARCHAR(100) NOT NULL,
+    owner_name VARCHAR(255) NOT NULL DEFAULT '',
+    jobsite_address JSONB,
+    value DECIMAL(12, 2),
+    converted_to_deal_id UUID,
+    converted_at TIMESTAMP WITH TIME ZONE,
+    legacy_id VARCHAR(100) UNIQUE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_leads_stage ON leads(stage);
+CREATE INDEX idx_leads_owner_id ON leads(owner_id);
+CREATE INDEX idx_leads_company_id ON leads(company_id);
+CREATE INDEX idx_leads_contact_id ON leads(contact_id);
+
+-- Deals table
+CREATE TABLE deals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    slug VARCHAR(255) UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+    company_name VARCHAR(255),
+    contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+    contact_name VARCHAR(255),
+    stage VARCHAR(100) NOT NULL,
+    status deal_status DEFAULT 'active',
+    label VARCHAR(100),
+    source VARCHAR(100),
+    notes TEXT,
+    owner_id VARCHAR(100) NOT NULL,
+    owner_name VARCHAR(255) NOT NULL DEFAULT '',
+    jobsite_address JSONB,
+    value DECIMAL(12, 2),
+    commission DECIMAL(12, 2),
+    units INTEGER,
+    converted_from_lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+    won_at TIMESTAMP WITH TIME ZONE,
+    lost_at TIMESTAMP WITH TIME ZONE,
+    lost_reason TEXT,
+    deleted_at TIMESTAMP WITH TIME ZONE,
+    legacy_id VARCHAR(100) UNIQUE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_deals_stage ON deals(stage);
+CREATE INDEX idx_deals_status ON deals(status);
+CREATE INDEX idx_deals_owner_id ON deals(owner_id);
+CREATE INDEX idx_deals_company_id ON deals(company_id);
+CREATE INDEX idx_deals_contact_id ON deals(contact_id);
+CREATE INDEX idx_deals_deleted_at ON deals(deleted_at) WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE leads
+    ADD CONSTRAINT fk_leads_converted_to_deal
+    FOREIGN KEY (converted_to_deal_id) REFERENCES deals(id) ON DELETE SET NULL;
+
+-- Timestamp triggers
+CREATE TRIGGER update_leads_timestamp BEFORE UPDATE ON leads
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_deals_timestamp BEFORE UPDATE ON deals
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Sales settings
+INSERT INTO settings (key, value, description) VALUES
+    ('sales', '{"deletedDealRetentionDays": 30}', 'Sales pipeline settings');
@@ -0,0 +1,57 @@
+-- S&G Portal V3 - Tasks
+-- Extends the project-only tasks table to the full task shape used by the Tasks
+-- panel: a type, due time, free-form notes and links to a contact and an item
+-- (company, project, estimate, invoice, lead or deal).
+-- Assignees are portal users from the users store and are stored by id + name,
+-- like lead/deal owners.
+
+ALTER TYPE task_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+ALTER TABLE tasks
+    ADD COLUMN type VARCHAR(100),
+    ADD COLUMN due_time TIME,
+    ADD COLUMN notes TEXT,
+    ADD COLUMN assigned_user_id VARCHAR(100),
+    ADD COLUMN assigned_user_name VARCHAR(255) NOT NULL DEFAULT '',
+    ADD COLUMN created_by_id VARCHAR(100),
+    ADD COLUMN created_by_name VARCHAR(255) NOT NULL DEFAULT '',
+    -- Linked contact (contact or company)
+    ADD COLUMN linked_contact_type VARCHAR(20),
+    ADD COLUMN linked_contact_id VARCHAR(100),
+    ADD COLUMN linked_contact_name VARCHAR(255),
+    -- Linked item (project, estimate, invoice, lead, deal, ...)
+    ADD COLUMN linked_item_type VARCHAR(20),
+    ADD COLUMN linked_item_id VARCHAR(100),
+    ADD COLUMN linked_item_name VARCHAR(255),
+    ADD COLUMN legacy_id VARCHAR(100) UNIQUE;
+
+ALTER TABLE tasks
+    ADD CONSTRAINT chk_tasks_linked_contact_type CHECK (linked_contact_type IN
+        ('contact', 'company', 'project', 'estimate', 'invoice', 'lead', 'deal')),
+    ADD CONSTRAINT chk_tasks_linked_item_type CHECK (linked_item_type IN
+        ('contact', 'company', 'project', 'estimate', 'invoice', 'lead', 'deal'));
+
+-- Carry existing assignees and project links over to the new columns
+UPDATE tasks t SET
+    assigned_user_id = t.assignee_id::text,
+    assigned_user_name = COALESCE(u.name, '')
+FROM users u
+WHERE u.id = t.assignee_id;
+
+UPDATE tasks t SET
+    linked_item_type = 'project',
+    linked_item_id = t.project_id::text,
+    linked_item_name = p.name
+FROM projects p
+WHERE p.id = t.project_id;
+
+UPDATE tasks SET assigned_user_id = '' WHERE assigned_user_id IS NULL;
+
+DROP INDEX idx_tasks_assignee_id;
+ALTER TABLE tasks DROP COLUMN assignee_id;
+ALTER TABLE tasks ALTER COLUMN assigned_user_id SET NOT NULL;
+
+CREATE INDEX idx_tasks_assigned_user_id ON tasks(assigned_user_id);
+CREATE INDEX idx_tasks_due_date ON tasks(due_date);
+CREATE INDEX idx_tasks_linked_contact ON tasks(linked_contact_type, linked_contact_id);
+CREATE INDEX idx_tasks_linked_item ON tasks(linked_item_type, linked_item_id);
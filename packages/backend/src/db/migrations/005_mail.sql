@@ -0,0 +1,69 @@
+-- S&G Portal V3 - Sales Inbox
+-- A shared mailbox synced over IMAP and sent from over SMTP. Messages are grouped
+-- into threads by their Message-ID / In-Reply-To / References headers. Threads
+-- are linked to a contact (by email address, including extra email contact
+-- methods) and to an open lead or deal; a manual link is never overwritten.
+
+CREATE TYPE mail_direction AS ENUM ('inbound', 'outbound');
+
+CREATE TABLE mail_threads (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subject TEXT NOT NULL DEFAULT '',
+    snippet TEXT NOT NULL DEFAULT '',
+    -- External participants (everyone except the shared mailbox), lower-cased
+    participants TEXT[] NOT NULL DEFAULT '{}',
+    message_count INTEGER NOT NULL DEFAULT 0,
+    unread_count INTEGER NOT NULL DEFAULT 0,
+    last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+    lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+    deal_id UUID REFERENCES deals(id) ON DELETE SET NULL,
+    -- Set when a user attaches the thread themselves; auto-linking then leaves it alone
+    linked_manually BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_mail_threads_last_message_at ON mail_threads(last_message_at DESC);
+CREATE INDEX idx_mail_threads_contact_id ON mail_threads(contact_id);
+CREATE INDEX idx_mail_threads_lead_id ON mail_threads(lead_id);
+CREATE INDEX idx_mail_threads_deal_id ON mail_threads(deal_id);
+CREATE INDEX idx_mail_threads_participants ON mail_threads USING GIN (participants);
+
+CREATE TABLE mail_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    thread_id UUID NOT NULL REFERENCES mail_threads(id) ON DELETE CASCADE,
+    -- RFC 5322 Message-ID (with angle brackets)
+    message_id VARCHAR(998) NOT NULL UNIQUE,
+    in_reply_to VARCHAR(998),
+    "references" TEXT[] NOT NULL DEFAULT '{}',
+    direction mail_direction NOT NULL,
+    from_address VARCHAR(255) NOT NULL,
+    from_name VARCHAR(255),
+    to_addresses TEXT[] NOT NULL DEFAULT '{}',
+    cc_addresses TEXT[] NOT NULL DEFAULT '{}',
+    subject TEXT NOT NULL DEFAULT '',
+    text_body TEXT,
+    html_body TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    is_read BOOLEAN NOT NULL DEFAULT false,
+    -- IMAP UID in the synced mailbox (inbound only)
+    imap_uid BIGINT,
+    -- Portal user who sent it (outbound only)
+    sent_by_id VARCHAR(100),
+    sent_by_name VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_mail_messages_thread_id ON mail_messages(thread_id, sent_at);
+
+-- IMAP sync position per mailbox; a UIDVALIDITY change means UIDs were reset
+CREATE TABLE mail_sync_state (
+    mailbox VARCHAR(255) PRIMARY KEY,
+    uid_validity BIGINT NOT NULL,
+    last_uid BIGINT NOT NULL DEFAULT 0,
+    last_synced_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_mail_threads_timestamp BEFORE UPDATE ON mail_threads
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
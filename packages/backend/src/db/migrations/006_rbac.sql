@@ -0,0 +1,83 @@
+-- S&G Portal V3 - Role-based access control
+-- Roles carry a set of permission ids (the same ids as the frontend rolesStore).
+-- Each user is assigned one role and may have per-permission overrides that
+-- grant or revoke a single permission on top of it.
+--
+-- Assignments and overrides are keyed by lower-cased email rather than users.id:
+-- portal users are set up in the admin panel before they ever sign in, and the
+-- users row is only created on their first Azure AD login.
+
+CREATE TABLE roles (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    -- System roles can be edited but not deleted
+    is_system BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE user_role_assignments (
+    email VARCHAR(255) PRIMARY KEY,
+    role_id VARCHAR(50) NOT NULL REFERENCES roles(id),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_user_role_assignments_role_id ON user_role_assignments(role_id);
+
+CREATE TABLE user_permission_overrides (
+    email VARCHAR(255) NOT NULL,
+    permission VARCHAR(100) NOT NULL,
+    -- true grants the permission, false revokes it
+    granted BOOLEAN NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (email, permission)
+);
+
+CREATE TRIGGER update_roles_timestamp BEFORE UPDATE ON roles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_user_role_assignments_timestamp BEFORE UPDATE ON user_role_assignments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Default roles (match defaultRoles in the frontend rolesStore)
+INSERT INTO roles (id, name, description, permissions, is_system) VALUES
+    ('role-admin', 'Administrator', 'Full system access', ARRAY[
+        'dashboard:view',
+        'customers:view', 'customers:create', 'customers:edit', 'customers:delete',
+        'sales:view', 'sales:create', 'sales:edit', 'sales:delete',
+        'projects:view', 'projects:create', 'projects:edit', 'projects:delete',
+        'estimating:view', 'estimating:create', 'estimating:edit', 'estimating:delete', 'estimating:approve',
+        'accounting:view', 'accounting:create', 'accounting:edit', 'accounting:delete', 'accounting:payments',
+        'admin:view', 'admin:users', 'admin:roles', 'admin:departments', 'admin:company',
+        'developer:view'
+    ], true),
+    ('role-manager', 'Manager', 'Department manager with broad access', ARRAY[
+        'dashboard:view',
+        'customers:view', 'customers:create', 'customers:edit',
+        'sales:view', 'sales:create', 'sales:edit', 'sales:delete',
+        'projects:view', 'projects:create', 'projects:edit',
+        'estimating:view', 'estimating:create', 'estimating:edit', 'estimating:approve',
+        'accounting:view'
+    ], true),
+    ('role-staff', 'Staff', 'Standard employee access', ARRAY[
+        'dashboard:view',
+        'customers:view',
+        'sales:view', 'sales:create', 'sales:edit',
+        'projects:view', 'projects:create', 'projects:edit',
+        'estimating:view', 'estimating:create', 'estimating:edit'
+    ], false),
+    ('role-viewer', 'Viewer', 'Read-only access', ARRAY[
+        'dashboard:view',
+        'customers:view',
+        'sales:view',
+        'projects:view',
+        'estimating:view',
+        'accounting:view'
+    ], false);
+
+-- Existing admins keep full access
+INSERT INTO user_role_assignments (email, role_id)
+SELECT LOWER(email), 'role-admin' FROM users WHERE role = 'admin'
+ON CONFLICT (email) DO NOTHING;
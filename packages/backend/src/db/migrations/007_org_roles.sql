@@ -0,0 +1,32 @@
+-- S&G Portal V3 - Position and department roles
+-- Positions and departments (defined in Admin > Fields) can carry a role.
+-- A user's effective permissions are the union of their assigned role, their
+-- position's role and their department's default role, with per-user
+-- overrides applied last.
+--
+-- Department and position ids are the frontend fieldsStore ids. Placements
+-- are keyed by lower-cased email like user_role_assignments.
+
+CREATE TABLE org_unit_roles (
+    unit_type VARCHAR(20) NOT NULL CHECK (unit_type IN ('department', 'position')),
+    unit_id VARCHAR(100) NOT NULL,
+    role_id VARCHAR(50) NOT NULL REFERENCES roles(id),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (unit_type, unit_id)
+);
+
+CREATE INDEX idx_org_unit_roles_role_id ON org_unit_roles(role_id);
+
+-- Where each user sits in the org chart
+CREATE TABLE user_org_placements (
+    email VARCHAR(255) PRIMARY KEY,
+    department_id VARCHAR(100),
+    position_id VARCHAR(100),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_org_unit_roles_timestamp BEFORE UPDATE ON org_unit_roles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_user_org_placements_timestamp BEFORE UPDATE ON user_org_placements
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
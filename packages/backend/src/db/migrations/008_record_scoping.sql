@@ -0,0 +1,32 @@
+-- S&G Portal V3 - Record-level visibility
+-- Each role sets how much of the customer and sales data its holders can see:
+--   own    - companies they are a sales rep on (company or any location) and
+--            leads/deals they own
+--   team   - own, plus their direct reports' records
+--   office - records of everyone in their office
+--   all    - everything (the previous behaviour)
+-- A user with several roles gets the widest scope among them.
+--
+-- Ownership is stored as portal user ids (the Admin > Users ids used for
+-- sales_rep_ids and owner_id), so each user's placement also records that id,
+-- their office and who they report to.
+
+ALTER TABLE roles
+    ADD COLUMN record_scope VARCHAR(20) NOT NULL DEFAULT 'all'
+        CHECK (record_scope IN ('own', 'team', 'office', 'all'));
+
+ALTER TABLE user_org_placements
+    ADD COLUMN portal_user_id VARCHAR(100),
+    ADD COLUMN office_id VARCHAR(100),
+    -- The position the user's position reports to (null when that default
+    -- supervisor is disabled for the user)
+    ADD COLUMN reports_to_position_id VARCHAR(100),
+    -- Additional supervisors (portal user ids)
+    ADD COLUMN supervisor_ids TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_user_org_placements_portal_user_id ON user_org_placements(portal_user_id);
+CREATE INDEX idx_user_org_placements_office_id ON user_org_placements(office_id);
+
+-- Lookups for the company visibility check
+CREATE INDEX idx_companies_sales_rep_ids ON companies USING GIN (sales_rep_ids);
+CREATE INDEX idx_company_addresses_sales_rep_ids ON company_addresses USING GIN (sales_rep_ids);
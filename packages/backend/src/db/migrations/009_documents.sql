@@ -0,0 +1,27 @@
+-- S&G Portal V3 - Estimate and invoice documents
+-- Company profile (settings key 'company') and letterhead templates move to
+-- the server so PDFs can be rendered there. Each estimate and invoice can
+-- choose its letterhead; without one the company default is used.
+--
+-- Letterhead ids are the ids Company Settings already gave them in the
+-- browser ('letterhead-<timestamp>'), so existing templates import unchanged.
+
+CREATE TABLE letterheads (
+    id VARCHAR(100) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    -- Base64 data URL: PNG, JPEG or a one-page PDF
+    data TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_letterheads_timestamp BEFORE UPDATE ON letterheads
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE estimates
+    ADD COLUMN letterhead_id VARCHAR(100) REFERENCES letterheads(id) ON DELETE SET NULL,
+    ADD COLUMN terms TEXT;
+
+ALTER TABLE invoices
+    ADD COLUMN letterhead_id VARCHAR(100) REFERENCES letterheads(id) ON DELETE SET NULL,
+    ADD COLUMN terms TEXT;
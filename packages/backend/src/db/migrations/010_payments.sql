@@ -0,0 +1,49 @@
+-- S&G Portal V3 - Invoice payments and client credits
+-- An invoice can take any number of payments; what it has been paid and what
+-- is still due are derived from them. A payment larger than the balance
+-- settles the invoice and leaves the rest as a credit for the client, which
+-- can be applied to their later invoices.
+
+ALTER TYPE invoice_status ADD VALUE IF NOT EXISTS 'partially_paid' AFTER 'sent';
+
+CREATE TABLE payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES companies(id),
+    -- Applied to the invoice
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+    -- Received beyond the balance and credited to the client
+    overpayment DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (overpayment >= 0),
+    -- 'credit' payments draw on the client's credit balance
+    method VARCHAR(20) NOT NULL CHECK (method IN ('check', 'ach', 'card', 'cash', 'other', 'credit')),
+    reference VARCHAR(100),
+    payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    notes TEXT,
+    recorded_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_payments_invoice_id ON payments(invoice_id);
+CREATE INDEX idx_payments_client_id ON payments(client_id);
+CREATE INDEX idx_payments_payment_date ON payments(payment_date);
+
+-- Client credit ledger: overpayments add to it, credit payments draw on it.
+-- A client's available credit is the sum of their entries.
+CREATE TABLE client_credits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES companies(id),
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount <> 0),
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_client_credits_client_id ON client_credits(client_id);
+CREATE INDEX idx_client_credits_payment_id ON client_credits(payment_id);
+
+-- Invoices marked paid before payments were recorded get one payment for the
+-- full amount, so their balance stays settled
+INSERT INTO payments (invoice_id, client_id, amount, method, reference, payment_date, notes, recorded_by)
+SELECT id, client_id, total, 'other', NULL, COALESCE(paid_date, CURRENT_DATE), 'Recorded before payment tracking', created_by
+FROM invoices
+WHERE status = 'paid' AND total > 0;
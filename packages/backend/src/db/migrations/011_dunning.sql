@@ -0,0 +1,37 @@
+-- S&G Portal V3 - Overdue detection and dunning reminders
+-- A scheduler job moves open invoices past their due date to 'overdue' and
+-- queues payment reminders on the cadence in settings key 'dunning' (days
+-- after the due date). Reminders stop once the invoice is paid or its
+-- reminders are paused.
+
+ALTER TABLE invoices
+    ADD COLUMN reminders_paused BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE invoice_reminders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    -- Cadence step that queued it: days after the due date
+    step_days INTEGER NOT NULL,
+    -- Matches the AI reminder drafts
+    level VARCHAR(10) NOT NULL CHECK (level IN ('gentle', 'firm', 'final')),
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'skipped', 'cancelled')),
+    recipient VARCHAR(255),
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    -- Why it was skipped, or the last delivery failure
+    error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    sent_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (invoice_id, step_days)
+);
+
+CREATE INDEX idx_invoice_reminders_status ON invoice_reminders(status);
+
+CREATE TRIGGER update_invoice_reminders_timestamp BEFORE UPDATE ON invoice_reminders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+INSERT INTO settings (key, value, description) VALUES
+    ('dunning', '{"enabled": true, "autoSend": false, "steps": [{"days": 3, "level": "gentle"}, {"days": 14, "level": "firm"}, {"days": 30, "level": "final"}]}', 'Invoice reminder cadence')
+ON CONFLICT (key) DO NOTHING;
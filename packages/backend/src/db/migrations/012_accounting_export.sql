@@ -0,0 +1,43 @@
+-- S&G Portal V3 - Accounting export
+-- Invoices and payments go to the books as journal entries, exported as a
+-- QuickBooks IIF file or a double-entry journal CSV. Every export is recorded
+-- as a batch and each invoice or payment can sit in one batch only, so
+-- nothing is exported twice. Voiding a batch releases its entries for the
+-- next export.
+
+-- Revenue account mapping is by line item category
+ALTER TABLE invoice_line_items ADD COLUMN IF NOT EXISTS category VARCHAR(100);
+
+CREATE TABLE accounting_export_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    format VARCHAR(10) NOT NULL CHECK (format IN ('iif', 'csv')),
+    from_date DATE NOT NULL,
+    to_date DATE NOT NULL,
+    invoice_count INTEGER NOT NULL DEFAULT 0,
+    payment_count INTEGER NOT NULL DEFAULT 0,
+    -- Sum of the debits across all entries
+    total_amount DECIMAL(14, 2) NOT NULL DEFAULT 0,
+    -- The file as generated, so it can be downloaded again unchanged
+    filename VARCHAR(255) NOT NULL,
+    content TEXT NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    voided_at TIMESTAMP WITH TIME ZONE,
+    voided_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_accounting_export_batches_created_at ON accounting_export_batches(created_at);
+
+-- What each batch exported; the primary key keeps an entry in one batch
+CREATE TABLE accounting_export_entries (
+    entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('invoice', 'payment')),
+    entity_id UUID NOT NULL,
+    batch_id UUID NOT NULL REFERENCES accounting_export_batches(id) ON DELETE CASCADE,
+    PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX idx_accounting_export_entries_batch_id ON accounting_export_entries(batch_id);
+
+INSERT INTO settings (key, value, description) VALUES
+    ('accounting_export', '{"accountsReceivable": "Accounts Receivable", "undepositedFunds": "Undeposited Funds", "salesTaxPayable": "Sales Tax Payable", "clientCredits": "Customer Credits", "defaultRevenue": "Construction Income", "revenueByCategory": []}', 'Chart of accounts mapping for accounting exports')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,90 @@
+-- S&G Portal V3 - Estimate revisions and client approval links
+-- The estimate row stays the working copy. Sending it snapshots the working
+-- copy as the next revision (A, B, C, ...), which never changes afterwards, so
+-- there is always a record of exactly what the client was shown. A sent
+-- revision gets an approval link: a public URL where the client can view it
+-- and approve or reject it with a typed signature.
+
+CREATE TABLE estimate_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    estimate_id UUID NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+    -- 1 = rev A, 2 = rev B, ...
+    revision INTEGER NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    tax_rate DECIMAL(5, 4),
+    tax_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    valid_until DATE,
+    terms TEXT,
+    -- No foreign key: a deleted letterhead falls back to the default when rendering
+    letterhead_id VARCHAR(100),
+    -- [{description, quantity, unitPrice, total}] in display order
+    line_items JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (estimate_id, revision)
+);
+
+-- Revisions are the record of what was sent
+CREATE OR REPLACE FUNCTION prevent_estimate_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Estimate revisions cannot be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER estimate_revisions_immutable BEFORE UPDATE ON estimate_revisions
+    FOR EACH ROW EXECUTE FUNCTION prevent_estimate_revision_update();
+
+ALTER TABLE estimates
+    -- The revision the client currently has
+    ADD COLUMN sent_revision_id UUID REFERENCES estimate_revisions(id) ON DELETE SET NULL,
+    -- The revision the client approved; invoices are made from it
+    ADD COLUMN approved_revision_id UUID REFERENCES estimate_revisions(id) ON DELETE SET NULL;
+
+CREATE TABLE estimate_approval_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    estimate_id UUID NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+    revision_id UUID NOT NULL REFERENCES estimate_revisions(id) ON DELETE CASCADE,
+    -- SHA-256 of the URL token; the token itself is only shown when created
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'approved', 'rejected', 'revoked')),
+    first_viewed_at TIMESTAMP WITH TIME ZONE,
+    -- The client's decision
+    signature_name VARCHAR(255),
+    decision_note TEXT,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decided_ip VARCHAR(64),
+    decided_user_agent TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_estimate_approval_links_estimate_id ON estimate_approval_links(estimate_id);
+
+-- Estimates already out with clients start at rev A as they stand now
+INSERT INTO estimate_revisions
+    (estimate_id, revision, title, description, subtotal, tax_rate, tax_amount, total, valid_until, terms, letterhead_id, line_items, created_by, created_at)
+SELECT e.id, 1, e.title, e.description, COALESCE(e.subtotal, 0), e.tax_rate, COALESCE(e.tax_amount, 0), COALESCE(e.total, 0),
+       e.valid_until, e.terms, e.letterhead_id,
+       COALESCE((
+           SELECT json_agg(json_build_object(
+               'description', li.description,
+               'quantity', li.quantity,
+               'unitPrice', li.unit_price,
+               'total', li.total
+           ) ORDER BY li.sort_order)
+           FROM estimate_line_items li WHERE li.estimate_id = e.id
+       ), '[]')::jsonb,
+       e.created_by, e.updated_at
+FROM estimates e
+WHERE e.status <> 'draft';
+
+UPDATE estimates e SET
+    sent_revision_id = r.id,
+    approved_revision_id = CASE WHEN e.status = 'approved' THEN r.id END
+FROM estimate_revisions r
+WHERE r.estimate_id = e.id AND r.revision = 1;
@@ -0,0 +1,57 @@
+-- S&G Portal V3 - Line item catalog and estimate templates
+-- The catalog holds the products and services estimators price from; a
+-- template is a saved bundle of catalog items with quantities. Picking an
+-- item copies its description, unit and price onto the estimate line, so
+-- later catalog price changes never reach existing estimates.
+
+CREATE TABLE catalog_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sku VARCHAR(50) UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    -- Printed on the estimate line; the name is used when empty
+    description TEXT,
+    -- Unit of measure, e.g. ea, hr, sq ft, lf
+    unit VARCHAR(20) NOT NULL DEFAULT 'ea',
+    unit_price DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+    unit_cost DECIMAL(12, 2) CHECK (unit_cost >= 0),
+    category VARCHAR(100),
+    -- Archived items stay on old templates but are not offered for new lines
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_catalog_items_category ON catalog_items(category);
+
+CREATE TRIGGER update_catalog_items_timestamp BEFORE UPDATE ON catalog_items
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE estimate_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL UNIQUE,
+    description TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_estimate_templates_timestamp BEFORE UPDATE ON estimate_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Templates hold quantities only; prices come from the catalog when applied
+CREATE TABLE estimate_template_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template_id UUID NOT NULL REFERENCES estimate_templates(id) ON DELETE CASCADE,
+    catalog_item_id UUID NOT NULL REFERENCES catalog_items(id),
+    quantity DECIMAL(10, 2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX idx_estimate_template_items_template_id ON estimate_template_items(template_id);
+
+-- Where an estimate line came from; the line keeps its own copy of the values
+ALTER TABLE estimate_line_items
+    ADD COLUMN catalog_item_id UUID REFERENCES catalog_items(id) ON DELETE SET NULL,
+    ADD COLUMN sku VARCHAR(50),
+    ADD COLUMN unit VARCHAR(20);
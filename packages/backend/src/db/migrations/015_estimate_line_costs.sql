@@ -0,0 +1,14 @@
+-- S&G Portal V3 - Cost, markup and margin on estimate line items
+-- Lines record what the work costs us alongside what we charge, so margin can
+-- be computed per line and per estimate. Cost and markup are internal: they
+-- never reach revisions, PDFs or the client approval page.
+
+ALTER TABLE estimate_line_items
+    ADD COLUMN unit_cost DECIMAL(12, 2) CHECK (unit_cost >= 0),
+    -- Markup over unit cost the price was set from, e.g. 25.00 for 25%
+    ADD COLUMN markup_percent DECIMAL(7, 2),
+    ADD COLUMN cost_type VARCHAR(20) CHECK (cost_type IN ('labor', 'material'));
+
+-- Costs are visible to administrators and managers by default
+UPDATE roles SET permissions = array_append(permissions, 'estimating:costs')
+WHERE id IN ('role-admin', 'role-manager') AND NOT ('estimating:costs' = ANY(permissions));
@@ -0,0 +1,88 @@
+-- S&G Portal V3 - Sales tax jurisdictions, per-line taxability and exemptions
+-- A jurisdiction is a set of named component rates (state, county, transit
+-- district, ...) that apply together. Estimates and invoices take the
+-- jurisdiction of the jobsite, or the client's main address when the project
+-- has no jobsite. Only lines marked taxable are taxed, so taxable materials
+-- and non-taxable capital improvement labor can share one document, and a
+-- client with a current exemption certificate is not taxed at all.
+
+CREATE TABLE tax_jurisdictions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL UNIQUE,
+    -- Two-letter state the jurisdiction is in
+    state VARCHAR(50) NOT NULL,
+    -- ZIP codes it covers; an empty list covers the rest of the state
+    zip_codes TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_tax_jurisdictions_state ON tax_jurisdictions(UPPER(state));
+
+CREATE TRIGGER update_tax_jurisdictions_timestamp BEFORE UPDATE ON tax_jurisdictions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE tax_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    jurisdiction_id UUID NOT NULL REFERENCES tax_jurisdictions(id) ON DELETE CASCADE,
+    -- Shown on the tax breakdown, e.g. New York State, Suffolk County, MCTD
+    name VARCHAR(100) NOT NULL,
+    -- Fraction, e.g. 0.04 for 4%
+    rate DECIMAL(7, 6) NOT NULL CHECK (rate >= 0 AND rate < 1),
+    sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX idx_tax_rates_jurisdiction_id ON tax_rates(jurisdiction_id);
+
+CREATE TABLE tax_exemption_certificates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    -- e.g. ST-120 resale, ST-119.1 exempt organization, ST-124 capital improvement
+    certificate_type VARCHAR(50) NOT NULL,
+    certificate_number VARCHAR(100),
+    -- Null covers every jurisdiction
+    jurisdiction_id UUID REFERENCES tax_jurisdictions(id) ON DELETE CASCADE,
+    effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    -- Null never expires
+    expires_on DATE,
+    notes TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_tax_exemption_certificates_company_id ON tax_exemption_certificates(company_id);
+
+CREATE TRIGGER update_tax_exemption_certificates_timestamp BEFORE UPDATE ON tax_exemption_certificates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- {street, suite, city, state, zip}, as on leads and deals
+ALTER TABLE projects ADD COLUMN jobsite_address JSONB;
+
+ALTER TABLE estimate_line_items ADD COLUMN taxable BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE invoice_line_items ADD COLUMN taxable BOOLEAN NOT NULL DEFAULT true;
+
+-- Combined rates such as 8.625% need more than four decimals
+ALTER TABLE estimates ALTER COLUMN tax_rate TYPE DECIMAL(7, 6);
+ALTER TABLE invoices ALTER COLUMN tax_rate TYPE DECIMAL(7, 6);
+ALTER TABLE estimate_revisions ALTER COLUMN tax_rate TYPE DECIMAL(7, 6);
+
+-- tax_breakdown is [{name, rate, taxableAmount, amount}]; null on documents
+-- from before jurisdictions, which were taxed at one rate on the subtotal
+ALTER TABLE estimates
+    ADD COLUMN tax_jurisdiction_id UUID REFERENCES tax_jurisdictions(id) ON DELETE SET NULL,
+    ADD COLUMN tax_exemption_id UUID REFERENCES tax_exemption_certificates(id) ON DELETE SET NULL,
+    ADD COLUMN taxable_subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN tax_breakdown JSONB;
+
+ALTER TABLE invoices
+    ADD COLUMN tax_jurisdiction_id UUID REFERENCES tax_jurisdictions(id) ON DELETE SET NULL,
+    ADD COLUMN tax_exemption_id UUID REFERENCES tax_exemption_certificates(id) ON DELETE SET NULL,
+    ADD COLUMN taxable_subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN tax_breakdown JSONB;
+
+ALTER TABLE estimate_revisions ADD COLUMN tax_breakdown JSONB;
+
+UPDATE estimates SET taxable_subtotal = subtotal WHERE COALESCE(tax_amount, 0) > 0;
+UPDATE invoices SET taxable_subtotal = subtotal WHERE COALESCE(tax_amount, 0) > 0;
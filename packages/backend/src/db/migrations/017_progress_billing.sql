@@ -0,0 +1,75 @@
+-- S&G Portal V3 - Progress billing (AIA G702/G703-style pay applications)
+-- An approved estimate can be billed monthly by percent complete instead of
+-- converted to one invoice. Its schedule of values lists the contract split
+-- into lines; each pay application records the work done on each line this
+-- period and the materials stored on site, holds back retainage, and is
+-- invoiced for the amount earned since the previous one.
+
+CREATE TABLE schedules_of_values (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- One schedule per estimate; the estimate gives the client, project and tax
+    estimate_id UUID NOT NULL UNIQUE REFERENCES estimates(id) ON DELETE CASCADE,
+    -- The approved revision the lines were taken from
+    revision_id UUID REFERENCES estimate_revisions(id) ON DELETE SET NULL,
+    -- Sum of the lines when the schedule was set up (G702 line 1)
+    original_contract_sum DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    -- Default for new pay applications, e.g. 10.00 for 10%
+    retainage_percent DECIMAL(5, 2) NOT NULL DEFAULT 10 CHECK (retainage_percent >= 0 AND retainage_percent <= 100),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_schedules_of_values_timestamp BEFORE UPDATE ON schedules_of_values
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE schedule_of_values_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    schedule_id UUID NOT NULL REFERENCES schedules_of_values(id) ON DELETE CASCADE,
+    -- G703 column A
+    item_number VARCHAR(20) NOT NULL,
+    description TEXT NOT NULL,
+    scheduled_value DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    taxable BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX idx_schedule_of_values_lines_schedule_id ON schedule_of_values_lines(schedule_id);
+
+CREATE TABLE pay_applications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    schedule_id UUID NOT NULL REFERENCES schedules_of_values(id) ON DELETE CASCADE,
+    application_number INTEGER NOT NULL,
+    application_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    period_to DATE NOT NULL,
+    retainage_percent DECIMAL(5, 2) NOT NULL CHECK (retainage_percent >= 0 AND retainage_percent <= 100),
+    -- Drafts are edited; invoiced applications are fixed, since every later
+    -- application is worked out from them
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'invoiced')),
+    -- Cleared if the invoice is deleted, so it can be generated again
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    -- Current payment due (G702 line 8), recorded when invoiced
+    amount_due DECIMAL(12, 2),
+    notes TEXT,
+    invoiced_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (schedule_id, application_number)
+);
+
+CREATE INDEX idx_pay_applications_invoice_id ON pay_applications(invoice_id);
+
+CREATE TRIGGER update_pay_applications_timestamp BEFORE UPDATE ON pay_applications
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE pay_application_lines (
+    pay_application_id UUID NOT NULL REFERENCES pay_applications(id) ON DELETE CASCADE,
+    line_id UUID NOT NULL REFERENCES schedule_of_values_lines(id) ON DELETE CASCADE,
+    -- G703 column E: work completed this period
+    work_this_period DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    -- G703 column F: materials presently stored and not yet installed. A
+    -- balance, not an increment: it drops as stored materials are installed
+    stored_materials DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (stored_materials >= 0),
+    PRIMARY KEY (pay_application_id, line_id)
+);
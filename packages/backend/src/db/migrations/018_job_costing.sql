@@ -0,0 +1,109 @@
+-- S&G Portal V3 - Job costing
+-- Each project tracks what the work costs against its budget, by cost code:
+-- the budget (usually seeded from the approved estimate), commitments made
+-- to subcontractors and suppliers, and the actual costs recorded. Invoice
+-- lines can carry a cost code so billing is compared per code as well.
+-- A project's spent total is now the sum of its cost entries.
+
+CREATE TABLE cost_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(20) NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    -- The kind of cost usually booked to the code; estimate lines of this
+    -- type land on it when a budget is seeded
+    cost_type VARCHAR(20) NOT NULL DEFAULT 'other'
+        CHECK (cost_type IN ('labor', 'material', 'equipment', 'subcontractor', 'other')),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_cost_codes_timestamp BEFORE UPDATE ON cost_codes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+INSERT INTO cost_codes (code, name, cost_type) VALUES
+    ('01-000', 'General Conditions', 'other'),
+    ('01-100', 'Labor', 'labor'),
+    ('01-200', 'Materials', 'material'),
+    ('01-300', 'Equipment', 'equipment'),
+    ('01-400', 'Subcontracts', 'subcontractor');
+
+CREATE TABLE project_budget_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    cost_code_id UUID NOT NULL REFERENCES cost_codes(id),
+    description TEXT NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    -- The estimate the line was seeded from, if any
+    estimate_id UUID REFERENCES estimates(id) ON DELETE SET NULL,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_project_budget_lines_project_id ON project_budget_lines(project_id);
+
+CREATE TRIGGER update_project_budget_lines_timestamp BEFORE UPDATE ON project_budget_lines
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Subcontracts and purchase orders: cost the project is bound to pay
+CREATE TABLE job_cost_commitments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    cost_code_id UUID NOT NULL REFERENCES cost_codes(id),
+    commitment_type VARCHAR(20) NOT NULL CHECK (commitment_type IN ('subcontract', 'purchase_order')),
+    -- Subcontract or PO number
+    reference VARCHAR(50),
+    vendor_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+    description TEXT NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
+    -- Closed commitments count what was spent against them, not their amount
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'void')),
+    issued_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_job_cost_commitments_project_id ON job_cost_commitments(project_id);
+
+CREATE TRIGGER update_job_cost_commitments_timestamp BEFORE UPDATE ON job_cost_commitments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Actual costs: payroll, supplier and subcontractor bills, equipment
+CREATE TABLE job_cost_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    cost_code_id UUID NOT NULL REFERENCES cost_codes(id),
+    cost_type VARCHAR(20) NOT NULL
+        CHECK (cost_type IN ('labor', 'material', 'equipment', 'subcontractor', 'other')),
+    entry_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    description TEXT NOT NULL,
+    -- Negative for credits and returns
+    amount DECIMAL(12, 2) NOT NULL,
+    vendor_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+    -- Set when the cost is billed against a subcontract or PO
+    commitment_id UUID REFERENCES job_cost_commitments(id) ON DELETE SET NULL,
+    -- Vendor invoice or timesheet reference
+    reference VARCHAR(100),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_job_cost_entries_project_id ON job_cost_entries(project_id);
+CREATE INDEX idx_job_cost_entries_commitment_id ON job_cost_entries(commitment_id);
+
+CREATE TRIGGER update_job_cost_entries_timestamp BEFORE UPDATE ON job_cost_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE invoice_line_items
+    ADD COLUMN cost_code_id UUID REFERENCES cost_codes(id) ON DELETE SET NULL;
+
+-- Spent was the total of paid invoices, which is revenue rather than cost.
+-- It is summed from job_cost_entries when projects are read.
+ALTER TABLE projects DROP COLUMN spent;
+
+-- Job costs are visible to administrators and managers by default
+UPDATE roles SET permissions = array_append(permissions, 'projects:costs')
+WHERE id IN ('role-admin', 'role-manager') AND NOT ('projects:costs' = ANY(permissions));
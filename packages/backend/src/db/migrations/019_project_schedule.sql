@@ -0,0 +1,36 @@
+-- S&G Portal V3 - Project schedules
+-- A project's schedule is a list of phases (spans of work) and milestones
+-- (single dates), with finish-to-start dependencies between them. The
+-- critical path is worked out from the dates when the schedule is read.
+
+CREATE TABLE project_phases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    is_milestone BOOLEAN NOT NULL DEFAULT false,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    percent_complete INTEGER NOT NULL DEFAULT 0 CHECK (percent_complete BETWEEN 0 AND 100),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_date >= start_date),
+    -- A milestone falls on a single day
+    CHECK (NOT is_milestone OR end_date = start_date)
+);
+
+CREATE INDEX idx_project_phases_project_id ON project_phases(project_id);
+
+CREATE TRIGGER update_project_phases_timestamp BEFORE UPDATE ON project_phases
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- The successor can't start until the predecessor has finished
+CREATE TABLE project_phase_dependencies (
+    predecessor_id UUID NOT NULL REFERENCES project_phases(id) ON DELETE CASCADE,
+    successor_id UUID NOT NULL REFERENCES project_phases(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (predecessor_id, successor_id),
+    CHECK (predecessor_id <> successor_id)
+);
+
+CREATE INDEX idx_project_phase_dependencies_successor_id ON project_phase_dependencies(successor_id);
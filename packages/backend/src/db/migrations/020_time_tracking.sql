@@ -0,0 +1,64 @@
+-- S&G Portal V3 - Time tracking
+-- Hours are recorded against a project (and optionally one of its tasks),
+-- either by starting and stopping a timer or entered by hand. Each user's
+-- entries are grouped into weekly timesheets (weeks start on Monday) that
+-- they submit for approval; the approver is a supervisor from their org
+-- placement - someone in the position theirs reports to, or one of their
+-- additional supervisors. Approved billable hours can be invoiced once.
+
+CREATE TABLE timesheets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    week_start DATE NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+    status VARCHAR(20) NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'submitted', 'approved', 'rejected')),
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    rejection_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, week_start)
+);
+
+CREATE INDEX idx_timesheets_status ON timesheets(status);
+
+CREATE TRIGGER update_timesheets_timestamp BEFORE UPDATE ON timesheets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE time_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    timesheet_id UUID NOT NULL REFERENCES timesheets(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+    entry_date DATE NOT NULL,
+    -- Set for timed entries; hours stay null while the timer is running
+    started_at TIMESTAMP WITH TIME ZONE,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    hours DECIMAL(5, 2) CHECK (hours >= 0 AND hours <= 24),
+    description TEXT,
+    billable BOOLEAN NOT NULL DEFAULT true,
+    -- Set once the hours have been billed
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (hours IS NOT NULL OR (started_at IS NOT NULL AND ended_at IS NULL))
+);
+
+CREATE INDEX idx_time_entries_timesheet_id ON time_entries(timesheet_id);
+CREATE INDEX idx_time_entries_project_id ON time_entries(project_id);
+CREATE INDEX idx_time_entries_invoice_id ON time_entries(invoice_id);
+
+-- One running timer per user
+CREATE UNIQUE INDEX idx_time_entries_running ON time_entries(user_id) WHERE hours IS NULL;
+
+CREATE TRIGGER update_time_entries_timestamp BEFORE UPDATE ON time_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Everyone but viewers tracks time; administrators and managers approve it
+UPDATE roles SET permissions = array_append(permissions, 'projects:time')
+WHERE id IN ('role-admin', 'role-manager', 'role-staff') AND NOT ('projects:time' = ANY(permissions));
+
+UPDATE roles SET permissions = array_append(permissions, 'projects:timesheets')
+WHERE id IN ('role-admin', 'role-manager') AND NOT ('projects:timesheets' = ANY(permissions));
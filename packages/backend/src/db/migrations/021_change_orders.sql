@@ -0,0 +1,71 @@
+-- S&G Portal V3 - Change orders
+-- A change order amends a project's contract: it belongs to the project and
+-- the approved estimate it changes, is numbered per project (CO-001, ...),
+-- and lists the added or deducted work with its price and cost, plus the
+-- days it adds to the schedule. Approval is final and takes effect at once:
+-- the cost goes onto the project's budget, and the price is billed either
+-- on the estimate's schedule of values (when it is billed by pay
+-- application) or on an invoice of its own.
+
+CREATE TABLE change_orders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    estimate_id UUID NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+    number INTEGER NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'pending', 'approved', 'rejected')),
+    -- Sums of the lines: price to the client and cost to us (negative for deducts)
+    amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    cost_impact DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    -- Calendar days added to the schedule (negative if it shortens)
+    schedule_impact_days INTEGER NOT NULL DEFAULT 0,
+    decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    rejection_reason TEXT,
+    -- Set when billed on an invoice of its own; cleared if the invoice is deleted
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (project_id, number)
+);
+
+CREATE INDEX idx_change_orders_estimate_id ON change_orders(estimate_id);
+CREATE INDEX idx_change_orders_status ON change_orders(status);
+CREATE INDEX idx_change_orders_invoice_id ON change_orders(invoice_id);
+
+CREATE TRIGGER update_change_orders_timestamp BEFORE UPDATE ON change_orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE change_order_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    change_order_id UUID NOT NULL REFERENCES change_orders(id) ON DELETE CASCADE,
+    description TEXT NOT NULL,
+    quantity DECIMAL(12, 2) NOT NULL DEFAULT 1,
+    unit_price DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    -- Budgeted at the price when there is no cost
+    unit_cost DECIMAL(12, 2),
+    -- Where the cost lands on the budget; the first 'other' code if unset
+    cost_code_id UUID REFERENCES cost_codes(id),
+    taxable BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX idx_change_order_lines_change_order_id ON change_order_lines(change_order_id);
+
+-- Budget lines and schedule of values lines added by an approved change order
+ALTER TABLE project_budget_lines
+    ADD COLUMN change_order_id UUID REFERENCES change_orders(id) ON DELETE CASCADE;
+
+-- Change order lines only appear on pay applications that were not yet
+-- invoiced when the line was added, so invoiced applications keep the
+-- contract sum they were certified with
+ALTER TABLE schedule_of_values_lines
+    ADD COLUMN change_order_id UUID REFERENCES change_orders(id) ON DELETE CASCADE,
+    ADD COLUMN created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+-- Administrators and managers approve change orders
+UPDATE roles SET permissions = array_append(permissions, 'projects:change_orders')
+WHERE id IN ('role-admin', 'role-manager') AND NOT ('projects:change_orders' = ANY(permissions));
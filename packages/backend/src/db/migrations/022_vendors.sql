@@ -0,0 +1,75 @@
+-- S&G Portal V3 - Subcontractors and vendors
+-- Companies are no longer only customers: a company can be a customer, a
+-- subcontractor, a supplier, or any mix, and is classified by the trades it
+-- works in. Subcontractors and suppliers keep their W-9 and certificates of
+-- insurance on file, work through a prequalification checklist, and are
+-- assigned to the projects they work on. A sub whose insurance is about to
+-- lapse is flagged once per certificate by the insurance compliance job.
+
+-- Existing companies were all customers
+ALTER TABLE companies
+    ADD COLUMN is_customer BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN is_subcontractor BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN is_supplier BOOLEAN NOT NULL DEFAULT false,
+    -- Names from the trade list in Field Settings (Electrical, Plumbing, ...)
+    ADD COLUMN trades TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_companies_is_subcontractor ON companies(is_subcontractor) WHERE is_subcontractor;
+
+CREATE TABLE company_compliance_documents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    document_type VARCHAR(10) NOT NULL CHECK (document_type IN ('w9', 'coi')),
+    -- Certificates of insurance only
+    coverage_type VARCHAR(30)
+        CHECK (coverage_type IN ('general_liability', 'workers_comp', 'auto', 'umbrella', 'professional')),
+    carrier VARCHAR(255),
+    policy_number VARCHAR(100),
+    coverage_amount DECIMAL(14, 2),
+    -- W-9s are dated when signed and do not expire
+    effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    expiry_date DATE,
+    notes TEXT,
+    -- When the insurance compliance job flagged the certificate as about to
+    -- lapse; cleared when its expiry date changes
+    expiry_alerted_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (document_type <> 'coi' OR (coverage_type IS NOT NULL AND expiry_date IS NOT NULL)),
+    CHECK (expiry_date IS NULL OR expiry_date >= effective_date)
+);
+
+CREATE INDEX idx_company_compliance_documents_company_id ON company_compliance_documents(company_id);
+CREATE INDEX idx_company_compliance_documents_expiry_date ON company_compliance_documents(expiry_date);
+
+CREATE TRIGGER update_company_compliance_documents_timestamp BEFORE UPDATE ON company_compliance_documents
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Completed prequalification checklist items; an item without a row is open
+CREATE TABLE company_prequalification_items (
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    item VARCHAR(50) NOT NULL,
+    completed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    completed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    notes TEXT,
+    PRIMARY KEY (company_id, item)
+);
+
+CREATE TABLE project_subcontractors (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    -- The trade the sub was brought on for
+    trade VARCHAR(100),
+    scope TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (project_id, company_id)
+);
+
+CREATE INDEX idx_project_subcontractors_company_id ON project_subcontractors(company_id);
+
+CREATE TRIGGER update_project_subcontractors_timestamp BEFORE UPDATE ON project_subcontractors
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,13 @@
+-- S&G Portal V3 - Task permissions
+-- Tasks were open to every signed-in user. They now need tasks:view, and
+-- tasks:create/edit/delete to change them. The default roles keep the
+-- access they had; custom roles get it from the permission matrix.
+
+UPDATE roles SET permissions = permissions || ARRAY['tasks:view', 'tasks:create', 'tasks:edit', 'tasks:delete']
+WHERE id IN ('role-admin', 'role-manager') AND NOT ('tasks:view' = ANY(permissions));
+
+UPDATE roles SET permissions = permissions || ARRAY['tasks:view', 'tasks:create', 'tasks:edit']
+WHERE id = 'role-staff' AND NOT ('tasks:view' = ANY(permissions));
+
+UPDATE roles SET permissions = array_append(permissions, 'tasks:view')
+WHERE id = 'role-viewer' AND NOT ('tasks:view' = ANY(permissions));
@@ -7,6 +7,8 @@ import logger from './config/logger.js';
 import { testConnection, closePool } from './config/database.js';
 import routes from './routes/index.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
+import { startScheduler, stopScheduler } from './services/scheduler.js';
+import './jobs/index.js';
 
 // Create Express app
 const app: Express = express();
@@ -102,9 +104,15 @@ async function startServer() {
       logger.info(`   CORS Origin: ${env.CORS_ORIGIN}`);
     });
 
+    // Background jobs (deleted deal purge, etc.) need the database
+    if (dbConnected) {
+      startScheduler();
+    }
+
     // Graceful shutdown
     const shutdown = async (signal: string) => {
       logger.info(`${signal} received, shutting down gracefully`);
+      stopScheduler();
       
       server.close(async () => {
         logger.info('HTTP server closed');
@@ -0,0 +1,5 @@
+// Importing a job module registers it with the scheduler
+import './purgeDeletedDeals.js';
+import './syncMailbox.js';
+import './invoiceDunning.js';
+import './insuranceCompliance.js';
@@ -0,0 +1,58 @@
+import { query } from '../config/database.js';
+import { logger } from '../config/logger.js';
+import { registerJob } from '../services/scheduler.js';
+import { COI_ALERT_DAYS, COVERAGE_LABELS } from '../services/vendorCompliance.js';
+import { DBCoverageType } from '../types/index.js';
+
+// Flag subcontractors whose insurance is about to lapse. Each certificate is
+// flagged once, on the company's activity feed, when it comes within
+// COI_ALERT_DAYS of expiring and no later certificate of the same coverage
+// is on file. The header's compliance alerts list the same certificates
+// until they are renewed.
+
+export async function flagExpiringCertificates(): Promise<number> {
+  const flagged = await query<{
+    company_id: string;
+    company_name: string;
+    coverage_type: DBCoverageType;
+    expiry_date: string;
+  }>(
+    `UPDATE company_compliance_documents d SET expiry_alerted_at = NOW()
+     FROM companies c
+     WHERE c.id = d.company_id AND c.is_subcontractor AND c.is_active
+       AND d.document_type = 'coi'
+       AND d.expiry_alerted_at IS NULL
+       AND d.expiry_date BETWEEN CURRENT_DATE AND CURRENT_DATE + $1::int
+       AND NOT EXISTS (
+         SELECT 1 FROM company_compliance_documents r
+         WHERE r.company_id = d.company_id AND r.document_type = 'coi'
+           AND r.coverage_type = d.coverage_type AND r.expiry_date > d.expiry_date
+       )
+     RETURNING d.company_id, c.name AS company_name, d.coverage_type, to_char(d.expiry_date, 'YYYY-MM-DD') AS expiry_date`,
+    [COI_ALERT_DAYS]
+  );
+
+  for (const certificate of flagged) {
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES (NULL, 'company', $1, 'compliance_alert', $2)`,
+      [
+        certificate.company_id,
+        `${COVERAGE_LABELS[certificate.coverage_type]} insurance for ${certificate.company_name} expires on ${certificate.expiry_date}`,
+      ]
+    );
+  }
+
+  if (flagged.length > 0) {
+    logger.info(`Flagged ${flagged.length} expiring insurance certificate(s)`);
+  }
+  return flagged.length;
+}
+
+registerJob({
+  name: 'insurance-compliance',
+  intervalMs: 6 * 60 * 60 * 1000, // Every 6 hours
+  run: async () => {
+    await flagExpiringCertificates();
+  },
+});
@@ -0,0 +1,267 @@
+import { query } from '../config/database.js';
+import { logger } from '../config/logger.js';
+import { errors } from '../middleware/errorHandler.js';
+import { registerJob } from '../services/scheduler.js';
+import { isSmtpConfigured, sendMail } from '../services/mail.js';
+import { getCompanyProfile } from '../services/pdf.js';
+import { DBInvoiceReminder } from '../types/index.js';
+
+// Overdue detection and payment reminders. Open invoices past their due date
+// become 'overdue', and each cadence step (days after the due date) queues one
+// reminder. Queued reminders go out by email when auto-send is on, or from the
+// invoice's payments panel.
+
+export const DUNNING_LEVELS = ['gentle', 'firm', 'final'] as const;
+export type DunningLevel = (typeof DUNNING_LEVELS)[number];
+
+export interface DunningStep {
+  days: number;
+  level: DunningLevel;
+}
+
+export interface DunningSettings {
+  enabled: boolean;
+  // Email queued reminders as soon as they are queued (needs SMTP)
+  autoSend: boolean;
+  steps: DunningStep[];
+}
+
+export const DEFAULT_DUNNING_SETTINGS: DunningSettings = {
+  enabled: true,
+  autoSend: false,
+  steps: [
+    { days: 3, level: 'gentle' },
+    { days: 14, level: 'firm' },
+    { days: 30, level: 'final' },
+  ],
+};
+
+// Invoices that are still owed money
+const OPEN_STATUSES = "('sent', 'partially_paid', 'overdue')";
+
+export async function getDunningSettings(): Promise<DunningSettings> {
+  const rows = await query<{ value: Partial<DunningSettings> }>(
+    "SELECT value FROM settings WHERE key = 'dunning'"
+  );
+  return { ...DEFAULT_DUNNING_SETTINGS, ...rows[0]?.value };
+}
+
+interface ReminderCandidate {
+  id: string;
+  invoice_number: string;
+  due_date: string;
+  days_overdue: number;
+  balance_due: string;
+  client_name: string | null;
+  client_email: string | null;
+  last_step: number | null;
+}
+
+export interface ReminderRow extends DBInvoiceReminder {
+  invoice_number: string;
+}
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Reminder wording by level, in the spirit of the AI reminder drafts
+function reminderText(level: DunningLevel, invoice: ReminderCandidate, companyName: string) {
+  const balance = money(parseFloat(invoice.balance_due));
+  const greeting = invoice.client_name ? `Hello ${invoice.client_name},` : 'Hello,';
+  const signOff = `Thank you,\n${companyName || 'Accounts Receivable'}`;
+
+  switch (level) {
+    case 'gentle':
+      return {
+        subject: `Payment reminder: invoice ${invoice.invoice_number}`,
+        body: `${greeting}\n\nThis is a friendly reminder that invoice ${invoice.invoice_number} was due on ${invoice.due_date} and has a balance of ${balance}. If payment is already on its way, please disregard this note.\n\n${signOff}`,
+      };
+    case 'firm':
+      return {
+        subject: `Overdue invoice ${invoice.invoice_number}`,
+        body: `${greeting}\n\nInvoice ${invoice.invoice_number} is now ${invoice.days_overdue} days past due with a balance of ${balance}. Please arrange payment at your earliest convenience, or let us know if there is a problem with the invoice.\n\n${signOff}`,
+      };
+    case 'final':
+      return {
+        subject: `Final notice: invoice ${invoice.invoice_number}`,
+        body: `${greeting}\n\nDespite earlier reminders, invoice ${invoice.invoice_number} remains unpaid ${invoice.days_overdue} days after its due date, with a balance of ${balance}. Please remit payment within 7 days or contact us to discuss it before we take further action.\n\n${signOff}`,
+      };
+  }
+}
+
+async function logReminder(invoiceId: string, userId: string | null, action: string, description: string) {
+  await query(
+    `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+     VALUES ($1, 'invoice', $2, $3, $4)`,
+    [userId, invoiceId, action, description]
+  );
+}
+
+// Flip open invoices past their due date to overdue
+export async function markOverdueInvoices(): Promise<number> {
+  const flipped = await query<{ id: string; invoice_number: string }>(
+    `UPDATE invoices SET status = 'overdue'
+     WHERE status IN ('sent', 'partially_paid') AND due_date < CURRENT_DATE
+     RETURNING id, invoice_number`
+  );
+
+  for (const invoice of flipped) {
+    await logReminder(invoice.id, null, 'overdue', `Invoice ${invoice.invoice_number} is past due`);
+  }
+  return flipped.length;
+}
+
+/**
+ * Queue the latest cadence step each overdue invoice has reached. Steps it
+ * has already passed are not queued retroactively, so an invoice found 40
+ * days late gets one final notice rather than three reminders at once.
+ */
+export async function queueReminders(settings: DunningSettings): Promise<number> {
+  const steps = [...settings.steps].sort((a, b) => a.days - b.days);
+  if (steps.length === 0) return 0;
+
+  const candidates = await query<ReminderCandidate>(
+    `SELECT i.id, i.invoice_number, to_char(i.due_date, 'YYYY-MM-DD') AS due_date,
+            (CURRENT_DATE - i.due_date) AS days_overdue,
+            i.total - COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.invoice_id = i.id), 0) AS balance_due,
+            c.name AS client_name,
+            (SELECT ct.email FROM contacts ct
+             WHERE ct.company_id = c.id AND ct.email IS NOT NULL
+             ORDER BY ct.created_at LIMIT 1) AS client_email,
+            (SELECT MAX(r.step_days) FROM invoice_reminders r WHERE r.invoice_id = i.id) AS last_step
+     FROM invoices i
+     LEFT JOIN companies c ON i.client_id = c.id
+     WHERE i.status IN ${OPEN_STATUSES}
+       AND NOT i.reminders_paused
+       AND i.due_date < CURRENT_DATE`
+  );
+
+  const company = await getCompanyProfile();
+  let queued = 0;
+
+  for (const invoice of candidates) {
+    if (parseFloat(invoice.balance_due) <= 0) continue;
+
+    const step = steps.filter((s) => s.days <= invoice.days_overdue).pop();
+    if (!step || (invoice.last_step !== null && step.days <= invoice.last_step)) continue;
+
+    const { subject, body } = reminderText(step.level, invoice, company.name);
+    const inserted = await query(
+      `INSERT INTO invoice_reminders (invoice_id, step_days, level, recipient, subject, body)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (invoice_id, step_days) DO NOTHING
+       RETURNING id`,
+      [invoice.id, step.days, step.level, invoice.client_email, subject, body]
+    );
+    if (inserted.length === 0) continue;
+
+    queued++;
+    await logReminder(
+      invoice.id,
+      null,
+      'reminder_queued',
+      `Queued ${step.level} reminder for invoice ${invoice.invoice_number} (${invoice.days_overdue} days overdue)`
+    );
+  }
+
+  return queued;
+}
+
+// Queued reminders for invoices that were paid, cancelled or paused since
+export async function cancelStaleReminders(): Promise<number> {
+  const cancelled = await query(
+    `UPDATE invoice_reminders r SET status = 'cancelled'
+     FROM invoices i
+     WHERE r.invoice_id = i.id AND r.status = 'queued'
+       AND (i.status NOT IN ${OPEN_STATUSES} OR i.reminders_paused)
+     RETURNING r.id`
+  );
+  return cancelled.length;
+}
+
+/**
+ * Email a queued reminder. Throws if it can't be sent; a reminder without a
+ * recipient is marked skipped first so the job stops retrying it.
+ */
+export async function sendReminder(
+  reminder: ReminderRow,
+  sender: { id?: string; name?: string }
+): Promise<void> {
+  if (!reminder.recipient) {
+    await query(
+      "UPDATE invoice_reminders SET status = 'skipped', error = $2 WHERE id = $1",
+      [reminder.id, 'The client has no contact with an email address']
+    );
+    throw errors.badRequest('The client has no contact with an email address');
+  }
+
+  try {
+    await sendMail({ to: [reminder.recipient], subject: reminder.subject, text: reminder.body }, sender);
+  } catch (error) {
+    await query('UPDATE invoice_reminders SET error = $2 WHERE id = $1', [
+      reminder.id,
+      error instanceof Error ? error.message : String(error),
+    ]);
+    throw error;
+  }
+
+  await query(
+    `UPDATE invoice_reminders
+     SET status = 'sent', sent_at = CURRENT_TIMESTAMP, sent_by = $2, error = NULL
+     WHERE id = $1`,
+    [reminder.id, sender.id ?? null]
+  );
+  await logReminder(
+    reminder.invoice_id,
+    sender.id ?? null,
+    'reminder_sent',
+    `Sent ${reminder.level} reminder for invoice ${reminder.invoice_number} to ${reminder.recipient}`
+  );
+}
+
+// Queued reminders on invoices that are still open and not paused
+export async function getSendableReminders(invoiceId?: string): Promise<ReminderRow[]> {
+  return query<ReminderRow>(
+    `SELECT r.*, i.invoice_number
+     FROM invoice_reminders r
+     JOIN invoices i ON r.invoice_id = i.id
+     WHERE r.status = 'queued'
+       AND i.status IN ${OPEN_STATUSES}
+       AND NOT i.reminders_paused
+       AND ($1::uuid IS NULL OR r.invoice_id = $1)
+     ORDER BY r.created_at`,
+    [invoiceId ?? null]
+  );
+}
+
+export async function runDunning(): Promise<void> {
+  const overdue = await markOverdueInvoices();
+  const settings = await getDunningSettings();
+  await cancelStaleReminders();
+
+  if (!settings.enabled) return;
+  const queued = await queueReminders(settings);
+
+  let sent = 0;
+  if (settings.autoSend && isSmtpConfigured()) {
+    for (const reminder of await getSendableReminders()) {
+      try {
+        await sendReminder(reminder, {});
+        sent++;
+      } catch (error) {
+        logger.warn(`Invoice reminder ${reminder.id} not sent`, { error });
+      }
+    }
+  }
+
+  if (overdue + queued + sent > 0) {
+    logger.info(`Dunning: ${overdue} invoice(s) now overdue, ${queued} reminder(s) queued, ${sent} sent`);
+  }
+}
+
+registerJob({
+  name: 'invoice-dunning',
+  intervalMs: 60 * 60 * 1000, // Every hour
+  run: runDunning,
+});
@@ -0,0 +1,47 @@
+import { query } from '../config/database.js';
+import { logger } from '../config/logger.js';
+import { registerJob } from '../services/scheduler.js';
+
+// Deals stay in "Recently deleted" for this many days unless overridden in settings
+export const DEFAULT_DELETED_DEAL_RETENTION_DAYS = 30;
+
+export async function getDeletedDealRetentionDays(): Promise<number> {
+  const rows = await query<{ value: { deletedDealRetentionDays?: number } }>(
+    "SELECT value FROM settings WHERE key = 'sales'"
+  );
+  return rows[0]?.value?.deletedDealRetentionDays ?? DEFAULT_DELETED_DEAL_RETENTION_DAYS;
+}
+
+// Permanently remove soft-deleted deals past the retention window
+export async function purgeDeletedDeals(): Promise<number> {
+  const retentionDays = await getDeletedDealRetentionDays();
+
+  const purged = await query<{ id: string; name: string }>(
+    `DELETE FROM deals
+     WHERE deleted_at IS NOT NULL
+       AND deleted_at < CURRENT_TIMESTAMP - make_interval(days => $1)
+     RETURNING id, name`,
+    [retentionDays]
+  );
+
+  for (const deal of purged) {
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES (NULL, 'deal', $1, 'purged', $2)`,
+      [deal.id, `Permanently deleted deal after ${retentionDays} days: ${deal.name}`]
+    );
+  }
+
+  if (purged.length > 0) {
+    logger.info(`Purged ${purged.length} deleted deal(s)`);
+  }
+  return purged.length;
+}
+
+registerJob({
+  name: 'purge-deleted-deals',
+  intervalMs: 6 * 60 * 60 * 1000, // Every 6 hours
+  run: async () => {
+    await purgeDeletedDeals();
+  },
+});
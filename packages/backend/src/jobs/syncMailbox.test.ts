@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { query, withTransaction } from '../config/database.js';
+import { env } from '../config/env.js';
+import { createMailDatabase, LocalServer, MailDatabase, rawMessage, startImapServer } from '../test/mail.js';
+import { syncMailbox } from './syncMailbox.js';
+
+vi.mock('../config/database.js', () => ({ query: vi.fn(), withTransaction: vi.fn() }));
+
+const INBOX = 'sales@sgbuilders.example';
+
+const QUOTE = {
+  raw: rawMessage(
+    { 'Message-ID': '<quote@harborpoint.example>', From: 'dana@harborpoint.example', To: INBOX, Subject: 'Quote', Date: 'Mon, 02 Mar 2026 14:00:00 +0000' },
+    'Can you quote the lobby?'
+  ),
+};
+const REPLY = {
+  raw: rawMessage(
+    {
+      'Message-ID': '<reply@sgbuilders.example>',
+      'In-Reply-To': '<quote@harborpoint.example>',
+      From: INBOX,
+      To: 'dana@harborpoint.example',
+      Subject: 'Re: Quote',
+      Date: 'Tue, 03 Mar 2026 09:00:00 +0000',
+    },
+    'Quote attached.'
+  ),
+  flags: ['\\Seen'],
+};
+const FOLLOW_UP = {
+  raw: rawMessage(
+    {
+      'Message-ID': '<follow-up@harborpoint.example>',
+      'In-Reply-To': '<reply@sgbuilders.example>',
+      References: '<quote@harborpoint.example> <reply@sgbuilders.example>',
+      From: 'dana@harborpoint.example',
+      To: INBOX,
+      Subject: 'Re: Quote',
+      Date: 'Wed, 04 Mar 2026 10:00:00 +0000',
+    },
+    'Approved.'
+  ),
+};
+
+let db: MailDatabase;
+let imap: LocalServer | null;
+
+// Serve the mailbox; a later call replaces the server, as a mail host migration would
+async function serveMailbox(uidValidity: number, messages: Array<{ raw: string; flags?: string[] }>) {
+  await imap?.close();
+  imap = await startImapServer(uidValidity, messages.map((m) => ({ ...m })));
+  env.IMAP_PORT = imap.port;
+}
+
+beforeEach(() => {
+  Object.assign(env, { SALES_INBOX_ADDRESS: INBOX, IMAP_HOST: '127.0.0.1', IMAP_SECURE: false, IMAP_USER: 'testuser', IMAP_PASS: 'testpass', IMAP_MAILBOX: 'INBOX' });
+  db = createMailDatabase();
+  imap = null;
+  vi.mocked(query).mockReset().mockImplementation(db.query);
+  vi.mocked(withTransaction).mockImplementation((fn) => fn(db.client));
+});
+
+afterEach(async () => {
+  await imap?.close();
+});
+
+describe('syncMailbox', () => {
+  it('does nothing when IMAP is not configured', async () => {
+    env.IMAP_HOST = undefined;
+
+    expect(await syncMailbox()).toBe(0);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('stores the mailbox into threads and remembers where it stopped', async () => {
+    await serveMailbox(7, [QUOTE, REPLY]);
+
+    expect(await syncMailbox()).toBe(2);
+    expect(db.threads).toHaveLength(1);
+    expect(db.threads[0]).toMatchObject({ message_count: 2, unread_count: 1, participants: ['dana@harborpoint.example'] });
+    expect(db.messages.map((m) => [m.message_id, m.direction, m.imap_uid])).toEqual([
+      ['<quote@harborpoint.example>', 'inbound', 1],
+      ['<reply@sgbuilders.example>', 'outbound', 2],
+    ]);
+    expect(db.syncState).toEqual([{ mailbox: 'INBOX', uid_validity: '7', last_uid: '2' }]);
+  });
+
+  it('picks up only new messages on the next run', async () => {
+    await serveMailbox(7, [QUOTE, REPLY]);
+    await syncMailbox();
+
+    expect(await syncMailbox()).toBe(0);
+    expect(db.syncState[0].last_uid).toBe('2');
+
+    await serveMailbox(7, [QUOTE, REPLY, FOLLOW_UP]);
+    expect(await syncMailbox()).toBe(1);
+    expect(db.threads).toHaveLength(1);
+    expect(db.threads[0]).toMatchObject({ message_count: 3, snippet: 'Approved.' });
+    expect(db.syncState[0].last_uid).toBe('3');
+  });
+
+  it('re-reads the mailbox after a UIDVALIDITY reset without storing anything twice', async () => {
+    await serveMailbox(7, [QUOTE, REPLY]);
+    await syncMailbox();
+
+    // Same messages under new UIDs, plus one that arrived since
+    await serveMailbox(8, [QUOTE, REPLY, FOLLOW_UP]);
+
+    expect(await syncMailbox()).toBe(1);
+    expect(db.messages.map((m) => m.message_id)).toEqual([
+      '<quote@harborpoint.example>',
+      '<reply@sgbuilders.example>',
+      '<follow-up@harborpoint.example>',
+    ]);
+    expect(db.threads).toHaveLength(1);
+    expect(db.threads[0].message_count).toBe(3);
+    expect(db.syncState).toEqual([{ mailbox: 'INBOX', uid_validity: '8', last_uid: '3' }]);
+  });
+});
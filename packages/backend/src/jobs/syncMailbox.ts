@@ -0,0 +1,52 @@
+import { query } from '../config/database.js';
+import { env } from '../config/env.js';
+import { logger } from '../config/logger.js';
+import { registerJob } from '../services/scheduler.js';
+import { isImapConfigured, fetchNewMessages, recordMessage } from '../services/mail.js';
+
+// Pull new messages from the shared Sales Inbox mailbox into mail_threads.
+// Resumes from the last UID seen; returns how many new messages were stored.
+export async function syncMailbox(): Promise<number> {
+  if (!isImapConfigured()) return 0;
+
+  const mailbox = env.IMAP_MAILBOX;
+  const state = await query<{ uid_validity: string; last_uid: string }>(
+    'SELECT uid_validity, last_uid FROM mail_sync_state WHERE mailbox = $1',
+    [mailbox]
+  );
+
+  let imported = 0;
+  const result = await fetchNewMessages(
+    mailbox,
+    {
+      uidValidity: state[0] ? BigInt(state[0].uid_validity) : undefined,
+      lastUid: state[0] ? parseInt(state[0].last_uid) : 0,
+    },
+    async (message) => {
+      if (await recordMessage(message)) imported++;
+    }
+  );
+
+  await query(
+    `INSERT INTO mail_sync_state (mailbox, uid_validity, last_uid, last_synced_at)
+     VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+     ON CONFLICT (mailbox) DO UPDATE SET
+       uid_validity = EXCLUDED.uid_validity,
+       last_uid = EXCLUDED.last_uid,
+       last_synced_at = EXCLUDED.last_synced_at`,
+    [mailbox, result.uidValidity.toString(), result.lastUid]
+  );
+
+  if (imported > 0) {
+    logger.info(`Synced ${imported} new message(s) from ${mailbox}`);
+  }
+  return imported;
+}
+
+registerJob({
+  name: 'sync-mailbox',
+  intervalMs: 5 * 60 * 1000, // Every 5 minutes
+  run: async () => {
+    await syncMailbox();
+  },
+});
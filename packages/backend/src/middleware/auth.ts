@@ -4,6 +4,7 @@ import jwksClient from 'jwks-rsa';
 import { AuthenticatedRequest, AzureTokenPayload, JWTPayload } from '../types/index.js';
 import env from '../config/env.js';
 import logger from '../config/logger.js';
+import { resolveAccess } from '../services/permissions.js';
 
 // JWKS client for Azure AD public keys
 const client = jwksClient({
@@ -63,6 +64,21 @@ async function verifyAzureToken(token: string): Promise<AzureTokenPayload> {
   });
 }
 
+// Replace the token's permissions with the user's current role and overrides so
+// changes apply without signing in again. Keeps the token's permissions if the
+// database can't be reached.
+async function attachPermissions(user: JWTPayload): Promise<void> {
+  if (!user.email) return;
+  try {
+    const access = await resolveAccess(user.email, user.roles);
+    user.permissions = access.permissions;
+    user.roleId = access.roleId;
+    user.recordScope = access.recordScope;
+  } catch (error) {
+    logger.error('Failed to resolve permissions', { error, userId: user.sub });
+  }
+}
+
 // Main authentication middleware
 export async function authenticate(
   req: AuthenticatedRequest,
@@ -95,11 +111,12 @@ export async function authenticate(
         email: azurePayload.preferred_username || azurePayload.email || '',
         name: azurePayload.name,
         roles: azurePayload.roles || ['viewer'],
-        permissions: [], // Will be populated from database
+        permissions: [],
         iat: azurePayload.iat,
         exp: azurePayload.exp,
       };
       req.azureToken = token;
+      await attachPermissions(req.user);
       
       logger.debug('Azure token verified', { userId: req.user.sub });
       next();
@@ -112,6 +129,7 @@ export async function authenticate(
     try {
       const decoded = jwt.verify(token, env.JWT_SECRET) as JWTPayload;
       req.user = decoded;
+      await attachPermissions(req.user);
       next();
       return;
     } catch (jwtError) {
@@ -137,6 +155,17 @@ export async function authenticate(
   }
 }
 
+// Whether the user holds a permission, for responses that vary by permission
+// rather than being refused outright
+export function hasPermission(user: JWTPayload, permission: string): boolean {
+  // Admins have all permissions
+  return (
+    user.roles.includes('admin') ||
+    user.permissions.includes(permission) ||
+    user.permissions.includes(permission.split(':')[0] + ':*')
+  );
+}
+
 // Permission checking middleware
 export function requirePermission(...permissions: string[]) {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -151,19 +180,7 @@ export function requirePermission(...permissions: string[]) {
       return;
     }
 
-    // Admins have all permissions
-    if (req.user.roles.includes('admin')) {
-      next();
-      return;
-    }
-
-    const hasPermission = permissions.some(
-      (perm) =>
-        req.user!.permissions.includes(perm) ||
-        req.user!.permissions.includes(perm.split(':')[0] + ':*')
-    );
-
-    if (!hasPermission) {
+    if (!permissions.some((perm) => hasPermission(req.user!, perm))) {
       res.status(403).json({
         success: false,
         error: {
@@ -42,6 +42,9 @@ export const errors = {
 
   rateLimit: () =>
     new AppError(429, 'RATE_LIMIT', 'Too many requests, please try again later'),
+
+  serviceUnavailable: (message: string) =>
+    new AppError(503, 'SERVICE_UNAVAILABLE', message),
 };
 
 // Error handler middleware
@@ -0,0 +1,151 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import {
+  EXPORT_FORMATS,
+  previewExport,
+  createExportBatch,
+  voidExportBatch,
+} from '../services/accountingExport.js';
+import { sendCsv } from '../utils/csv.js';
+import { AuthenticatedRequest, DBAccountingExportBatch, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const rangeSchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+}).refine((range) => range.from <= range.to, 'The start date must be on or before the end date');
+
+const createBatchSchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  format: z.enum(EXPORT_FORMATS),
+}).refine((range) => range.from <= range.to, 'The start date must be on or before the end date');
+
+interface BatchRow extends Omit<DBAccountingExportBatch, 'content' | 'from_date' | 'to_date'> {
+  from_date: string;
+  to_date: string;
+  created_by_name: string | null;
+  voided_by_name: string | null;
+}
+
+function mapBatch(b: BatchRow) {
+  return {
+    id: b.id,
+    format: b.format,
+    from: b.from_date,
+    to: b.to_date,
+    invoiceCount: b.invoice_count,
+    paymentCount: b.payment_count,
+    totalAmount: parseFloat(String(b.total_amount)),
+    filename: b.filename,
+    createdBy: b.created_by,
+    createdByName: b.created_by_name,
+    createdAt: b.created_at,
+    voidedAt: b.voided_at,
+    voidedByName: b.voided_by_name,
+  };
+}
+
+const BATCH_SELECT = `
+  SELECT b.id, b.format, to_char(b.from_date, 'YYYY-MM-DD') AS from_date, to_char(b.to_date, 'YYYY-MM-DD') AS to_date,
+         b.invoice_count, b.payment_count, b.total_amount, b.filename, b.created_by, b.created_at,
+         b.voided_at, b.voided_by, cu.name AS created_by_name, vu.name AS voided_by_name
+  FROM accounting_export_batches b
+  LEFT JOIN users cu ON b.created_by = cu.id
+  LEFT JOIN users vu ON b.voided_by = vu.id`;
+
+// Past exports, newest first
+router.get(
+  '/',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const batches = await query<BatchRow>(`${BATCH_SELECT} ORDER BY b.created_at DESC LIMIT 100`);
+
+    res.json({
+      success: true,
+      data: batches.map(mapBatch),
+    });
+  })
+);
+
+// What exporting the range would include right now
+router.get(
+  '/preview',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { from, to } = rangeSchema.parse(req.query);
+
+    res.json({
+      success: true,
+      data: await previewExport(from, to),
+    });
+  })
+);
+
+// Export everything not yet exported in the range
+router.post(
+  '/',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { from, to, format } = createBatchSchema.parse(req.body);
+    const batch = await createExportBatch(from, to, format, req.user!.sub);
+    const rows = await query<BatchRow>(`${BATCH_SELECT} WHERE b.id = $1`, [batch.id]);
+
+    res.status(201).json({
+      success: true,
+      data: mapBatch(rows[0]),
+    });
+  })
+);
+
+// The batch's file, exactly as it was generated
+router.get(
+  '/:id/download',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const batches = await query<DBAccountingExportBatch>(
+      'SELECT format, filename, content FROM accounting_export_batches WHERE id = $1',
+      [req.params.id]
+    );
+    if (batches.length === 0) {
+      throw errors.notFound('Export batch');
+    }
+
+    const batch = batches[0];
+    if (batch.format === 'csv') {
+      sendCsv(res, batch.content, batch.filename);
+      return;
+    }
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${batch.filename}"`);
+    res.send(batch.content);
+  })
+);
+
+// Release a batch's entries so they can be exported again
+router.post(
+  '/:id/void',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    await voidExportBatch(req.params.id, req.user!.sub);
+    const rows = await query<BatchRow>(`${BATCH_SELECT} WHERE b.id = $1`, [req.params.id]);
+
+    res.json({
+      success: true,
+      data: mapBatch(rows[0]),
+    });
+  })
+);
+
+export default router;
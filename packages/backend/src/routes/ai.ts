@@ -1,10 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { asyncHandler } from '../middleware/errorHandler.js';
-import authenticate from '../middleware/auth.js';
+import authenticate, { hasPermission } from '../middleware/auth.js';
 import { aiService, AIMessage, AIContext } from '../services/ai.js';
+import { getEstimateMargin } from '../services/estimateMargins.js';
 import { query } from '../config/database.js';
 import { logger } from '../config/logger.js';
+import { AuthenticatedRequest } from '../types/index.js';
 
 const router = Router();
 
@@ -64,37 +66,45 @@ async function getContextData(type: string, entityId?: string): Promise<Record<s
             (SELECT COUNT(*) FROM projects WHERE client_id = c.id) as project_count,
             (SELECT COUNT(*) FROM estimates WHERE client_id = c.id) as estimate_count,
             (SELECT COUNT(*) FROM invoices WHERE client_id = c.id) as invoice_count,
-            (SELECT COALESCE(SUM(total), 0) FROM invoices WHERE client_id = c.id AND status = 'paid') as total_paid
-          FROM clients c WHERE c.id = $1
+            (SELECT COALESCE(SUM(amount), 0) FROM payments WHERE client_id = c.id) as total_paid
+          FROM companies c WHERE c.id = $1
         `, [entityId]);
         return rows[0];
       }
       case 'project': {
         const rows = await query(`
-          SELECT p.*, c.company_name as client_name,
+          SELECT p.*, c.name as client_name,
             (SELECT json_agg(t.*) FROM tasks t WHERE t.project_id = p.id) as tasks
           FROM projects p
-          LEFT JOIN clients c ON p.client_id = c.id
+          LEFT JOIN companies c ON p.client_id = c.id
           WHERE p.id = $1
         `, [entityId]);
         return rows[0];
       }
       case 'estimate': {
+        // Line costs stay out; /estimate/:id/improve adds margins for those allowed to see them
         const rows = await query(`
-          SELECT e.*, c.company_name as client_name,
-            (SELECT json_agg(li.*) FROM estimate_line_items li WHERE li.estimate_id = e.id) as line_items
+          SELECT e.*, c.name as client_name,
+            (SELECT json_agg(json_build_object(
+               'description', li.description, 'quantity', li.quantity,
+               'unit', li.unit, 'unit_price', li.unit_price, 'total', li.total
+             ) ORDER BY li.sort_order)
+             FROM estimate_line_items li WHERE li.estimate_id = e.id) as line_items
           FROM estimates e
-          LEFT JOIN clients c ON e.client_id = c.id
+          LEFT JOIN companies c ON e.client_id = c.id
           WHERE e.id = $1
         `, [entityId]);
         return rows[0];
       }
       case 'invoice': {
         const rows = await query(`
-          SELECT i.*, c.company_name as client_name, c.contact_email,
+          SELECT i.*, c.name as client_name,
+            (SELECT ct.email FROM contacts ct
+             WHERE ct.company_id = c.id AND ct.email IS NOT NULL
+             ORDER BY ct.created_at LIMIT 1) as contact_email,
             (SELECT json_agg(li.*) FROM invoice_line_items li WHERE li.invoice_id = i.id) as line_items
           FROM invoices i
-          LEFT JOIN clients c ON i.client_id = c.id
+          LEFT JOIN companies c ON i.client_id = c.id
           WHERE i.id = $1
         `, [entityId]);
         return rows[0];
@@ -273,23 +283,28 @@ router.post('/invoice/:id/draft-reminder', asyncHandler(async (req: Request, res
   res.json({ email });
 }));
 
-router.post('/estimate/:id/improve', asyncHandler(async (req: Request, res: Response) => {
+router.post('/estimate/:id/improve', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
   
   const contextData = await getContextData('estimate', id);
   if (!contextData) {
     return res.status(404).json({ error: 'Estimate not found' });
   }
+
+  // Costs and margins, when the estimate has them and the user may see them
+  const margin = hasPermission(req.user!, 'estimating:costs') ? await getEstimateMargin(id) : null;
   
   const aiContext: AIContext = {
     type: 'estimate',
-    data: contextData,
+    data: margin ? { ...contextData, margin } : contextData,
   };
   
   const messages: AIMessage[] = [
     {
       role: 'user',
-      content: 'Review this estimate and suggest improvements. Consider: pricing competitiveness, description clarity, missing line items, and overall presentation. Provide specific, actionable suggestions.',
+      content: 'Review this estimate and suggest improvements. Consider: pricing competitiveness, '
+        + (margin ? 'gross margin overall and by line (lines priced below cost or well under the estimate margin, and the labor/material cost mix), ' : '')
+        + 'description clarity, missing line items, and overall presentation. Provide specific, actionable suggestions.',
     },
   ];
   
@@ -2,6 +2,8 @@ import { Router, Response } from 'express';
 import { query } from '../config/database.js';
 import { authenticate, generateToken } from '../middleware/auth.js';
 import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { resolveAccess } from '../services/permissions.js';
+import { resolveVisibleRepIds } from '../services/scoping.js';
 import { AuthenticatedRequest, DBUser, ApiResponse } from '../types/index.js';
 import logger from '../config/logger.js';
 
@@ -71,13 +73,16 @@ router.post(
       user = updated[0];
     }
 
+    const access = await resolveAccess(user.email, [user.role]);
+
     // Generate internal JWT for API calls
     const token = generateToken({
       sub: user.id,
       email: user.email,
       name: user.name,
       roles: [user.role],
-      permissions: user.permissions,
+      permissions: access.permissions,
+      roleId: access.roleId,
     });
 
     res.json({
@@ -89,7 +94,8 @@ router.post(
           name: user.name,
           avatarUrl: user.avatar_url,
           role: user.role,
-          permissions: user.permissions,
+          roleId: access.roleId,
+          permissions: access.permissions,
         },
         token,
       },
@@ -113,6 +119,7 @@ router.get(
     if (!user) {
       throw errors.notFound('User');
     }
+    const access = await resolveAccess(user.email, [user.role]);
 
     res.json({
       success: true,
@@ -122,7 +129,10 @@ router.get(
         name: user.name,
         avatarUrl: user.avatar_url,
         role: user.role,
-        permissions: user.permissions,
+        roleId: access.roleId,
+        permissions: access.permissions,
+        recordScope: access.recordScope,
+        visibleRepIds: await resolveVisibleRepIds(req.user!),
         lastLoginAt: user.last_login_at,
         createdAt: user.created_at,
       },
@@ -0,0 +1,416 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, requirePermission, hasPermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { AuthenticatedRequest, DBCatalogItem, DBEstimateTemplate, ApiResponse } from '../types/index.js';
+
+// Line item catalog and estimate templates. Estimate lines copy what they
+// take from here, so editing a catalog price only affects new lines.
+
+const router = Router();
+
+// Validation schemas
+const catalogItemSchema = z.object({
+  sku: z.string().trim().max(50).nullable().optional(),
+  name: z.string().trim().min(1).max(255),
+  description: z.string().nullable().optional(),
+  unit: z.string().trim().min(1).max(20).default('ea'),
+  unitPrice: z.number().min(0),
+  unitCost: z.number().min(0).nullable().optional(),
+  category: z.string().trim().max(100).nullable().optional(),
+});
+
+const updateCatalogItemSchema = catalogItemSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().nullable().optional(),
+  items: z.array(z.object({
+    catalogItemId: z.string().uuid(),
+    quantity: z.number().positive().default(1),
+  })).min(1),
+});
+
+const updateTemplateSchema = templateSchema.partial();
+
+// Helper to map DB catalog item to API response. Unit cost is left out for
+// users without estimating:costs.
+function mapCatalogItem(item: DBCatalogItem, showCost: boolean) {
+  return {
+    id: item.id,
+    sku: item.sku,
+    name: item.name,
+    description: item.description,
+    unit: item.unit,
+    unitPrice: parseFloat(String(item.unit_price)),
+    unitCost: !showCost || item.unit_cost === null ? null : parseFloat(String(item.unit_cost)),
+    category: item.category,
+    isActive: item.is_active,
+    createdAt: item.created_at,
+    updatedAt: item.updated_at,
+  };
+}
+
+// Empty strings from the form clear the field
+function blankToNull(value: string | null | undefined): string | null | undefined {
+  return value === '' ? null : value;
+}
+
+async function loadCatalogItem(id: string): Promise<DBCatalogItem> {
+  const items = await query<DBCatalogItem>('SELECT * FROM catalog_items WHERE id = $1', [id]);
+  if (items.length === 0) {
+    throw errors.notFound('Catalog item');
+  }
+  return items[0];
+}
+
+// Template with its items at today's catalog prices
+async function loadTemplate(id: string, showCost: boolean) {
+  const templates = await query<DBEstimateTemplate>('SELECT * FROM estimate_templates WHERE id = $1', [id]);
+  if (templates.length === 0) {
+    throw errors.notFound('Template');
+  }
+  const template = templates[0];
+
+  const items = await query<DBCatalogItem & { quantity: string; catalog_item_id: string }>(
+    `SELECT ci.*, ti.catalog_item_id, ti.quantity
+     FROM estimate_template_items ti
+     JOIN catalog_items ci ON ti.catalog_item_id = ci.id
+     WHERE ti.template_id = $1
+     ORDER BY ti.sort_order`,
+    [id]
+  );
+
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    items: items.map((item) => ({
+      catalogItem: mapCatalogItem(item, showCost),
+      quantity: parseFloat(item.quantity),
+    })),
+    createdAt: template.created_at,
+    updatedAt: template.updated_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Catalog items
+// ---------------------------------------------------------------------------
+
+// List or search catalog items (type-ahead in the estimate editor)
+router.get(
+  '/items',
+  authenticate,
+  requirePermission('estimating:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { search, category, includeArchived, limit = '200' } = req.query;
+
+    let whereClause = 'WHERE 1=1';
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    if (includeArchived !== 'true') {
+      whereClause += ' AND is_active';
+    }
+    if (search) {
+      whereClause += ` AND (name ILIKE $${paramIndex} OR sku ILIKE $${paramIndex} OR description ILIKE $${paramIndex})`;
+      params.push(`%${search}%`);
+      paramIndex++;
+    }
+    if (category) {
+      whereClause += ` AND category = $${paramIndex}`;
+      params.push(category);
+      paramIndex++;
+    }
+
+    // Matches at the start of the SKU or name come first
+    let orderBy = 'category NULLS LAST, name';
+    if (search) {
+      orderBy = `(sku ILIKE $${paramIndex} OR name ILIKE $${paramIndex}) DESC, name`;
+      params.push(`${search}%`);
+      paramIndex++;
+    }
+
+    params.push(Math.min(parseInt(limit as string) || 200, 500));
+
+    const items = await query<DBCatalogItem>(
+      `SELECT * FROM catalog_items ${whereClause}
+       ORDER BY ${orderBy}
+       LIMIT $${paramIndex}`,
+      params
+    );
+
+    res.json({
+      success: true,
+      data: items.map((item) => mapCatalogItem(item, hasPermission(req.user!, 'estimating:costs'))),
+    });
+  })
+);
+
+// Categories in use, for filters and suggestions
+router.get(
+  '/categories',
+  authenticate,
+  requirePermission('estimating:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const rows = await query<{ category: string }>(
+      'SELECT DISTINCT category FROM catalog_items WHERE category IS NOT NULL ORDER BY category'
+    );
+
+    res.json({
+      success: true,
+      data: rows.map((r) => r.category),
+    });
+  })
+);
+
+router.post(
+  '/items',
+  authenticate,
+  requirePermission('estimating:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = catalogItemSchema.parse(req.body);
+    const canSeeCosts = hasPermission(req.user!, 'estimating:costs');
+
+    const items = await query<DBCatalogItem>(
+      `INSERT INTO catalog_items (sku, name, description, unit, unit_price, unit_cost, category, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        blankToNull(data.sku) ?? null,
+        data.name,
+        blankToNull(data.description) ?? null,
+        data.unit,
+        data.unitPrice,
+        canSeeCosts ? data.unitCost ?? null : null,
+        blankToNull(data.category) ?? null,
+        req.user!.sub,
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mapCatalogItem(items[0], canSeeCosts),
+    });
+  })
+);
+
+// Update a catalog item. Lines already on estimates keep their own prices.
+router.patch(
+  '/items/:id',
+  authenticate,
+  requirePermission('estimating:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = updateCatalogItemSchema.parse(req.body);
+    // Cost can only be changed by those who can see it
+    const canSeeCosts = hasPermission(req.user!, 'estimating:costs');
+
+    const items = await query<DBCatalogItem>(
+      `UPDATE catalog_items SET
+         sku = CASE WHEN $2 THEN $3 ELSE sku END,
+         name = COALESCE($4, name),
+         description = CASE WHEN $5 THEN $6 ELSE description END,
+         unit = COALESCE($7, unit),
+         unit_price = COALESCE($8, unit_price),
+         unit_cost = CASE WHEN $9 THEN $10 ELSE unit_cost END,
+         category = CASE WHEN $11 THEN $12 ELSE category END,
+         is_active = COALESCE($13, is_active)
+       WHERE id = $1
+       RETURNING *`,
+      [
+        id,
+        data.sku !== undefined,
+        blankToNull(data.sku) ?? null,
+        data.name,
+        data.description !== undefined,
+        blankToNull(data.description) ?? null,
+        data.unit,
+        data.unitPrice,
+        canSeeCosts && data.unitCost !== undefined,
+        data.unitCost ?? null,
+        data.category !== undefined,
+        blankToNull(data.category) ?? null,
+        data.isActive,
+      ]
+    );
+
+    if (items.length === 0) {
+      throw errors.notFound('Catalog item');
+    }
+
+    res.json({
+      success: true,
+      data: mapCatalogItem(items[0], canSeeCosts),
+    });
+  })
+);
+
+// Remove a catalog item. Items still used by a template are archived instead.
+router.delete(
+  '/items/:id',
+  authenticate,
+  requirePermission('estimating:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const item = await loadCatalogItem(req.params.id);
+
+    const used = await query('SELECT 1 FROM estimate_template_items WHERE catalog_item_id = $1 LIMIT 1', [item.id]);
+    if (used.length > 0) {
+      await query('UPDATE catalog_items SET is_active = false WHERE id = $1', [item.id]);
+    } else {
+      await query('DELETE FROM catalog_items WHERE id = $1', [item.id]);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        archived: used.length > 0,
+        message: used.length > 0
+          ? 'Catalog item is used by a template and was archived'
+          : 'Catalog item deleted successfully',
+      },
+    });
+  })
+);
+
+// ---------------------------------------------------------------------------
+// Estimate templates
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/templates',
+  authenticate,
+  requirePermission('estimating:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const templates = await query<DBEstimateTemplate & { item_count: string; total: string }>(
+      `SELECT t.*,
+              COUNT(ti.id) AS item_count,
+              COALESCE(SUM(ti.quantity * ci.unit_price), 0) AS total
+       FROM estimate_templates t
+       LEFT JOIN estimate_template_items ti ON ti.template_id = t.id
+       LEFT JOIN catalog_items ci ON ti.catalog_item_id = ci.id
+       GROUP BY t.id
+       ORDER BY t.name`
+    );
+
+    res.json({
+      success: true,
+      data: templates.map((t) => ({
+        id: t.id,
+        name: t.name,
+        description: t.description,
+        itemCount: parseInt(t.item_count),
+        // At today's catalog prices
+        total: parseFloat(t.total),
+        createdAt: t.created_at,
+        updatedAt: t.updated_at,
+      })),
+    });
+  })
+);
+
+router.get(
+  '/templates/:id',
+  authenticate,
+  requirePermission('estimating:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    res.json({
+      success: true,
+      data: await loadTemplate(req.params.id, hasPermission(req.user!, 'estimating:costs')),
+    });
+  })
+);
+
+router.post(
+  '/templates',
+  authenticate,
+  requirePermission('estimating:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = templateSchema.parse(req.body);
+
+    const id = await withTransaction(async (db) => {
+      const templates = await db.query<DBEstimateTemplate>(
+        `INSERT INTO estimate_templates (name, description, created_by)
+         VALUES ($1, $2, $3)
+         RETURNING id`,
+        [data.name, blankToNull(data.description) ?? null, req.user!.sub]
+      );
+      const templateId = templates.rows[0].id;
+
+      await db.query(
+        `INSERT INTO estimate_template_items (template_id, catalog_item_id, quantity, sort_order)
+         SELECT $1, item_id, quantity, ord - 1
+         FROM unnest($2::uuid[], $3::numeric[]) WITH ORDINALITY AS t(item_id, quantity, ord)`,
+        [templateId, data.items.map((i) => i.catalogItemId), data.items.map((i) => i.quantity)]
+      );
+      return templateId;
+    });
+
+    res.status(201).json({
+      success: true,
+      data: await loadTemplate(id, hasPermission(req.user!, 'estimating:costs')),
+    });
+  })
+);
+
+router.patch(
+  '/templates/:id',
+  authenticate,
+  requirePermission('estimating:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = updateTemplateSchema.parse(req.body);
+
+    await withTransaction(async (db) => {
+      const updated = await db.query(
+        `UPDATE estimate_templates SET
+           name = COALESCE($2, name),
+           description = CASE WHEN $3 THEN $4 ELSE description END
+         WHERE id = $1
+         RETURNING id`,
+        [id, data.name, data.description !== undefined, blankToNull(data.description) ?? null]
+      );
+      if (updated.rows.length === 0) {
+        throw errors.notFound('Template');
+      }
+
+      if (data.items) {
+        await db.query('DELETE FROM estimate_template_items WHERE template_id = $1', [id]);
+        await db.query(
+          `INSERT INTO estimate_template_items (template_id, catalog_item_id, quantity, sort_order)
+           SELECT $1, item_id, quantity, ord - 1
+           FROM unnest($2::uuid[], $3::numeric[]) WITH ORDINALITY AS t(item_id, quantity, ord)`,
+          [id, data.items.map((i) => i.catalogItemId), data.items.map((i) => i.quantity)]
+        );
+      }
+    });
+
+    res.json({
+      success: true,
+      data: await loadTemplate(id, hasPermission(req.user!, 'estimating:costs')),
+    });
+  })
+);
+
+router.delete(
+  '/templates/:id',
+  authenticate,
+  requirePermission('estimating:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const deleted = await query('DELETE FROM estimate_templates WHERE id = $1 RETURNING id', [req.params.id]);
+    if (deleted.length === 0) {
+      throw errors.notFound('Template');
+    }
+
+    res.json({
+      success: true,
+      data: { message: 'Template deleted successfully' },
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,355 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { loadProject } from '../services/jobCosting.js';
+import {
+  CHANGE_ORDER_SELECT,
+  ChangeOrderRow,
+  approveChangeOrder,
+  assertEstimateOfProject,
+  changeOrderNumber,
+  invoiceChangeOrder,
+  loadChangeOrder,
+  lockChangeOrder,
+  writeLines,
+} from '../services/changeOrders.js';
+import { AuthenticatedRequest, DBChangeOrderLine, ApiResponse } from '../types/index.js';
+
+// Change orders (/api/change-orders): drafting and revising them, the
+// approval flow, and invoicing approved ones that are not billed by pay
+// application.
+
+const router = Router();
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+// Validation schemas
+const lineSchema = z.object({
+  description: z.string().trim().min(1),
+  quantity: z.number().positive(),
+  // Negative for work taken out of the contract
+  unitPrice: z.number(),
+  unitCost: z.number().nullable().optional(),
+  costCodeId: z.string().uuid().nullable().optional(),
+  taxable: z.boolean().default(true),
+});
+
+const createChangeOrderSchema = z.object({
+  projectId: z.string().uuid(),
+  estimateId: z.string().uuid(),
+  title: z.string().trim().min(1).max(255),
+  description: z.string().trim().max(5000).nullable().optional(),
+  scheduleImpactDays: z.number().int().default(0),
+  lines: z.array(lineSchema).default([]),
+});
+
+const updateChangeOrderSchema = createChangeOrderSchema.omit({ projectId: true }).partial();
+
+const listFiltersSchema = z.object({
+  projectId: z.string().uuid().optional(),
+  status: z.enum(['draft', 'pending', 'approved', 'rejected']).optional(),
+});
+
+const rejectSchema = z.object({
+  reason: z.string().trim().min(1, 'Say why the change order is being rejected').max(2000),
+});
+
+const invoiceSchema = z.object({
+  dueDate: dateSchema.optional(),
+});
+
+function mapChangeOrder(co: ChangeOrderRow) {
+  return {
+    id: co.id,
+    projectId: co.project_id,
+    projectName: co.project_name,
+    estimateId: co.estimate_id,
+    estimateNumber: co.estimate_number,
+    number: co.number,
+    changeOrderNumber: changeOrderNumber(co.number),
+    title: co.title,
+    description: co.description,
+    status: co.status,
+    amount: parseFloat(String(co.amount)),
+    costImpact: parseFloat(String(co.cost_impact)),
+    scheduleImpactDays: co.schedule_impact_days,
+    decidedBy: co.decided_by,
+    decidedByName: co.decided_by_name,
+    decidedAt: co.decided_at,
+    rejectionReason: co.rejection_reason,
+    onScheduleOfValues: co.on_schedule_of_values,
+    invoiceId: co.invoice_id,
+    invoiceNumber: co.invoice_number,
+    createdBy: co.created_by,
+    createdByName: co.created_by_name,
+    createdAt: co.created_at,
+    updatedAt: co.updated_at,
+  };
+}
+
+function mapLine(line: DBChangeOrderLine) {
+  const quantity = parseFloat(String(line.quantity));
+  const unitPrice = parseFloat(String(line.unit_price));
+  return {
+    id: line.id,
+    description: line.description,
+    quantity,
+    unitPrice,
+    unitCost: line.unit_cost === null ? null : parseFloat(String(line.unit_cost)),
+    costCodeId: line.cost_code_id,
+    taxable: line.taxable,
+    total: Math.round(quantity * unitPrice * 100) / 100,
+  };
+}
+
+async function loadMappedChangeOrder(id: string) {
+  const { changeOrder, lines } = await loadChangeOrder(id);
+  return { ...mapChangeOrder(changeOrder), lines: lines.map(mapLine) };
+}
+
+// Change orders, newest first
+router.get(
+  '/',
+  authenticate,
+  requirePermission('projects:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const filters = listFiltersSchema.parse(req.query);
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filters.projectId) {
+      params.push(filters.projectId);
+      conditions.push(`co.project_id = $${params.length}`);
+    }
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`co.status = $${params.length}`);
+    }
+
+    const rows = await query<ChangeOrderRow>(
+      `${CHANGE_ORDER_SELECT}
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY co.created_at DESC`,
+      params
+    );
+
+    res.json({
+      success: true,
+      data: rows.map(mapChangeOrder),
+    });
+  })
+);
+
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('projects:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    res.json({
+      success: true,
+      data: await loadMappedChangeOrder(req.params.id),
+    });
+  })
+);
+
+router.post(
+  '/',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = createChangeOrderSchema.parse(req.body);
+    const project = await loadProject(data.projectId);
+    await assertEstimateOfProject(data.estimateId, project.id);
+
+    const id = await withTransaction(async (db) => {
+      // Lock the project so two change orders cannot take the same number
+      await db.query('SELECT id FROM projects WHERE id = $1 FOR UPDATE', [project.id]);
+      const inserted = await db.query<{ id: string; number: number }>(
+        `INSERT INTO change_orders (project_id, estimate_id, number, title, description, schedule_impact_days, created_by)
+         VALUES ($1, $2, (SELECT COALESCE(MAX(number), 0) + 1 FROM change_orders WHERE project_id = $1), $3, $4, $5, $6)
+         RETURNING id, number`,
+        [project.id, data.estimateId, data.title, data.description ?? null, data.scheduleImpactDays, req.user!.sub]
+      );
+      const { id, number } = inserted.rows[0];
+      await writeLines(db, id, data.lines);
+
+      await db.query(
+        `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+         VALUES ($1, 'project', $2, 'updated', $3)`,
+        [req.user!.sub, project.id, `Drafted change order ${changeOrderNumber(number)}: ${data.title}`]
+      );
+      return id;
+    });
+
+    res.status(201).json({
+      success: true,
+      data: await loadMappedChangeOrder(id),
+    });
+  })
+);
+
+// Drafts and rejected change orders can be revised; a rejected one goes back to draft
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = updateChangeOrderSchema.parse(req.body);
+
+    await withTransaction(async (db) => {
+      const changeOrder = await lockChangeOrder(db, req.params.id);
+      if (changeOrder.status !== 'draft' && changeOrder.status !== 'rejected') {
+        throw errors.badRequest('Only draft or rejected change orders can be changed');
+      }
+      if (data.estimateId && data.estimateId !== changeOrder.estimate_id) {
+        await assertEstimateOfProject(data.estimateId, changeOrder.project_id);
+      }
+
+      await db.query(
+        `UPDATE change_orders SET
+           estimate_id = COALESCE($2, estimate_id),
+           title = COALESCE($3, title),
+           description = CASE WHEN $4 THEN $5 ELSE description END,
+           schedule_impact_days = COALESCE($6, schedule_impact_days),
+           status = 'draft', decided_by = NULL, decided_at = NULL, rejection_reason = NULL
+         WHERE id = $1`,
+        [
+          changeOrder.id,
+          data.estimateId,
+          data.title,
+          data.description !== undefined,
+          data.description ?? null,
+          data.scheduleImpactDays,
+        ]
+      );
+      if (data.lines) {
+        await writeLines(db, changeOrder.id, data.lines);
+      }
+    });
+
+    res.json({
+      success: true,
+      data: await loadMappedChangeOrder(req.params.id),
+    });
+  })
+);
+
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { changeOrder } = await loadChangeOrder(req.params.id);
+    const deleted = await query(
+      "DELETE FROM change_orders WHERE id = $1 AND status <> 'approved' RETURNING id",
+      [changeOrder.id]
+    );
+    if (deleted.length === 0) {
+      throw errors.badRequest('Approved change orders cannot be deleted');
+    }
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'project', $2, 'updated', $3)`,
+      [req.user!.sub, changeOrder.project_id, `Deleted change order ${changeOrderNumber(changeOrder.number)}: ${changeOrder.title}`]
+    );
+
+    res.json({
+      success: true,
+      data: { message: 'Change order deleted successfully' },
+    });
+  })
+);
+
+// Send a draft for approval
+router.post(
+  '/:id/submit',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { changeOrder, lines } = await loadChangeOrder(req.params.id);
+    if (lines.length === 0) {
+      throw errors.badRequest('Add at least one line before sending the change order for approval');
+    }
+
+    const updated = await query(
+      "UPDATE change_orders SET status = 'pending' WHERE id = $1 AND status = 'draft' RETURNING id",
+      [changeOrder.id]
+    );
+    if (updated.length === 0) {
+      throw errors.badRequest('Only draft change orders can be sent for approval');
+    }
+
+    res.json({
+      success: true,
+      data: await loadMappedChangeOrder(changeOrder.id),
+    });
+  })
+);
+
+router.post(
+  '/:id/approve',
+  authenticate,
+  requirePermission('projects:change_orders'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    await approveChangeOrder(req.params.id, req.user!.sub);
+
+    res.json({
+      success: true,
+      data: await loadMappedChangeOrder(req.params.id),
+    });
+  })
+);
+
+router.post(
+  '/:id/reject',
+  authenticate,
+  requirePermission('projects:change_orders'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { reason } = rejectSchema.parse(req.body);
+    const { changeOrder } = await loadChangeOrder(req.params.id);
+
+    const updated = await query(
+      `UPDATE change_orders SET status = 'rejected', decided_by = $2, decided_at = NOW(), rejection_reason = $3
+       WHERE id = $1 AND status = 'pending'
+       RETURNING id`,
+      [changeOrder.id, req.user!.sub, reason]
+    );
+    if (updated.length === 0) {
+      throw errors.badRequest('Only change orders awaiting approval can be rejected');
+    }
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'project', $2, 'updated', $3)`,
+      [req.user!.sub, changeOrder.project_id, `Rejected change order ${changeOrderNumber(changeOrder.number)}: ${reason}`]
+    );
+
+    res.json({
+      success: true,
+      data: await loadMappedChangeOrder(changeOrder.id),
+    });
+  })
+);
+
+// Draft an invoice for an approved change order
+router.post(
+  '/:id/invoice',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = invoiceSchema.parse(req.body);
+    const result = await invoiceChangeOrder(req.params.id, data, req.user!.sub);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...result,
+        message: `Invoice ${result.invoiceNumber} was drafted`,
+      },
+    });
+  })
+);
+
+export default router;
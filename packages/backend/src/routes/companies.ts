@@ -0,0 +1,1368 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import {
+  AuthenticatedRequest,
+  DBCompany,
+  DBCompanyAddress,
+  DBComplianceDocument,
+  DBContact,
+  DBPrequalificationItem,
+  DBTaxExemptionCertificate,
+  ApiResponse,
+} from '../types/index.js';
+import { resolveVisibleRepIds, companyScopeCondition, assertCompanyVisible } from '../services/scoping.js';
+import {
+  COI_ALERT_DAYS,
+  COVERAGE_LABELS,
+  COVERAGE_TYPES,
+  PREQUALIFICATION_ITEMS,
+  loadComplianceAlerts,
+  loadComplianceSummaries,
+} from '../services/vendorCompliance.js';
+import { slugify, uniqueSlug } from '../utils/slug.js';
+import { mapContact, loadContactMethods, MAIN_OFFICE_ID } from './contacts.js';
+
+const router = Router();
+
+// Validation schemas
+const salesRepIdsSchema = z.array(z.string()).optional();
+
+const mainAddressSchema = z.object({
+  street: z.string().default(''),
+  suite: z.string().max(100).optional(),
+  city: z.string().max(100).default(''),
+  state: z.string().max(50).default(''),
+  zip: z.string().max(20).default(''),
+  salesRepIds: salesRepIdsSchema,
+});
+
+const addressSchema = mainAddressSchema.extend({
+  id: z.string().uuid().optional(),
+  label: z.string().min(1).max(100),
+});
+
+const createCompanySchema = z.object({
+  id: z.string().uuid().optional(),
+  slug: z.string().max(255).optional(),
+  name: z.string().min(1).max(255),
+  phone: z.string().max(50).optional(),
+  website: z.string().max(255).optional(),
+  notes: z.string().optional(),
+  salesRepIds: salesRepIdsSchema,
+  salesRepsByLocation: z.boolean().optional(),
+  address: mainAddressSchema.optional(),
+  addresses: z.array(addressSchema).optional(),
+  isCustomer: z.boolean().optional(),
+  isSubcontractor: z.boolean().optional(),
+  isSupplier: z.boolean().optional(),
+  trades: z.array(z.string().trim().min(1).max(100)).optional(),
+});
+
+const updateCompanySchema = createCompanySchema.omit({ id: true }).partial().extend({
+  // null clears the main office address
+  address: mainAddressSchema.nullable().optional(),
+});
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+// Sales tax exemption certificate the client has given us
+const taxExemptionSchema = z.object({
+  certificateType: z.string().trim().min(1).max(50),
+  certificateNumber: z.string().trim().max(100).nullable().optional(),
+  // null covers every jurisdiction
+  jurisdictionId: z.string().uuid().nullable().optional(),
+  effectiveDate: dateSchema.optional(),
+  expiresOn: dateSchema.nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+// W-9 or certificate of insurance on file for a subcontractor or supplier
+const complianceDocumentSchema = z
+  .object({
+    documentType: z.enum(['w9', 'coi']),
+    coverageType: z.enum(COVERAGE_TYPES).nullable().optional(),
+    carrier: z.string().trim().max(255).nullable().optional(),
+    policyNumber: z.string().trim().max(100).nullable().optional(),
+    coverageAmount: z.number().nonnegative().nullable().optional(),
+    effectiveDate: dateSchema.optional(),
+    expiryDate: dateSchema.nullable().optional(),
+    notes: z.string().nullable().optional(),
+  })
+  .refine((d) => d.documentType !== 'coi' || (d.coverageType && d.expiryDate), {
+    message: 'A certificate of insurance needs its coverage and expiry date',
+  });
+
+const updateComplianceDocumentSchema = z.object({
+  coverageType: z.enum(COVERAGE_TYPES).optional(),
+  carrier: z.string().trim().max(255).nullable().optional(),
+  policyNumber: z.string().trim().max(100).nullable().optional(),
+  coverageAmount: z.number().nonnegative().nullable().optional(),
+  effectiveDate: dateSchema.optional(),
+  expiryDate: dateSchema.nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+const prequalificationItemSchema = z.object({
+  completed: z.boolean(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+});
+
+const complianceAlertsSchema = z.object({
+  withinDays: z.coerce.number().int().min(0).max(365).default(COI_ALERT_DAYS),
+});
+
+// Legacy localStorage payload - ids are whatever the browser generated
+const importSchema = z.object({
+  companies: z.array(
+    z.object({
+      id: z.string(),
+      slug: z.string().optional(),
+      name: z.string().min(1),
+      phone: z.string().optional(),
+      website: z.string().optional(),
+      notes: z.string().optional(),
+      salesRepId: z.string().optional(),
+      salesRepIds: salesRepIdsSchema,
+      salesRepsByLocation: z.boolean().optional(),
+      address: mainAddressSchema.extend({ salesRepId: z.string().optional() }).optional(),
+      addresses: z
+        .array(
+          mainAddressSchema.extend({
+            id: z.string(),
+            label: z.string().default('Office'),
+            salesRepId: z.string().optional(),
+          })
+        )
+        .optional(),
+    })
+  ),
+  contacts: z.array(
+    z.object({
+      id: z.string(),
+      slug: z.string().optional(),
+      companyId: z.string(),
+      firstName: z.string().default(''),
+      lastName: z.string().default(''),
+      email: z.string().optional(),
+      phoneOffice: z.string().optional(),
+      phoneMobile: z.string().optional(),
+      role: z.string().optional(),
+      notes: z.string().optional(),
+      officeAddressId: z.string().optional(),
+      additionalContacts: z
+        .array(
+          z.object({
+            id: z.string(),
+            type: z.enum(['phone', 'fax', 'email']),
+            label: z.string().optional(),
+            value: z.string(),
+          })
+        )
+        .optional(),
+    })
+  ),
+});
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+// Helper to map DB company (plus its addresses) to API response
+export function mapCompany(c: DBCompany, addresses: DBCompanyAddress[] = []) {
+  const main = addresses.find((a) => a.is_main);
+  return {
+    id: c.id,
+    slug: c.slug,
+    name: c.name,
+    phone: c.phone,
+    website: c.website,
+    address: main
+      ? {
+          street: main.street,
+          suite: main.suite ?? undefined,
+          city: main.city,
+          state: main.state,
+          zip: main.zip,
+          salesRepIds: main.sales_rep_ids || [],
+        }
+      : undefined,
+    addresses: addresses.filter((a) => !a.is_main).map(mapAddress),
+    notes: c.notes,
+    salesRepIds: c.sales_rep_ids || [],
+    salesRepsByLocation: c.sales_reps_by_location,
+    isCustomer: c.is_customer,
+    isSubcontractor: c.is_subcontractor,
+    isSupplier: c.is_supplier,
+    trades: c.trades || [],
+    isActive: c.is_active,
+    createdAt: c.created_at,
+    updatedAt: c.updated_at,
+  };
+}
+
+function mapAddress(a: DBCompanyAddress) {
+  return {
+    id: a.id,
+    label: a.label,
+    street: a.street,
+    suite: a.suite ?? undefined,
+    city: a.city,
+    state: a.state,
+    zip: a.zip,
+    salesRepIds: a.sales_rep_ids || [],
+  };
+}
+
+// Exemption certificates come back with their dates as YYYY-MM-DD (alias x)
+const TAX_EXEMPTION_SELECT = `
+  SELECT x.*, to_char(x.effective_date, 'YYYY-MM-DD') AS effective_date,
+         to_char(x.expires_on, 'YYYY-MM-DD') AS expires_on, tj.name AS jurisdiction_name,
+         x.effective_date <= CURRENT_DATE AND (x.expires_on IS NULL OR x.expires_on >= CURRENT_DATE) AS is_current
+  FROM tax_exemption_certificates x
+  LEFT JOIN tax_jurisdictions tj ON x.jurisdiction_id = tj.id`;
+
+function mapTaxExemption(x: DBTaxExemptionCertificate & { jurisdiction_name: string | null; is_current: boolean }) {
+  return {
+    id: x.id,
+    companyId: x.company_id,
+    certificateType: x.certificate_type,
+    certificateNumber: x.certificate_number,
+    jurisdictionId: x.jurisdiction_id,
+    jurisdictionName: x.jurisdiction_name,
+    effectiveDate: x.effective_date,
+    expiresOn: x.expires_on,
+    notes: x.notes,
+    // In force today
+    isCurrent: x.is_current,
+    createdAt: x.created_at,
+    updatedAt: x.updated_at,
+  };
+}
+
+async function loadTaxExemption(companyId: string, exemptionId: string) {
+  const rows = await query<DBTaxExemptionCertificate & { jurisdiction_name: string | null; is_current: boolean }>(
+    `${TAX_EXEMPTION_SELECT} WHERE x.id = $1 AND x.company_id = $2`,
+    [exemptionId, companyId]
+  );
+  if (rows.length === 0) {
+    throw errors.notFound('Exemption certificate');
+  }
+  return mapTaxExemption(rows[0]);
+}
+
+// Compliance documents come back with their dates as YYYY-MM-DD (alias d)
+const COMPLIANCE_DOCUMENT_SELECT = `
+  SELECT d.*, to_char(d.effective_date, 'YYYY-MM-DD') AS effective_date,
+         to_char(d.expiry_date, 'YYYY-MM-DD') AS expiry_date
+  FROM company_compliance_documents d`;
+
+function mapComplianceDocument(d: DBComplianceDocument) {
+  return {
+    id: d.id,
+    companyId: d.company_id,
+    documentType: d.document_type,
+    coverageType: d.coverage_type,
+    carrier: d.carrier,
+    policyNumber: d.policy_number,
+    coverageAmount: d.coverage_amount === null ? null : parseFloat(String(d.coverage_amount)),
+    effectiveDate: d.effective_date,
+    expiryDate: d.expiry_date,
+    notes: d.notes,
+    createdAt: d.created_at,
+    updatedAt: d.updated_at,
+  };
+}
+
+async function loadComplianceDocument(companyId: string, documentId: string) {
+  const rows = await query<DBComplianceDocument>(
+    `${COMPLIANCE_DOCUMENT_SELECT} WHERE d.id = $1 AND d.company_id = $2`,
+    [documentId, companyId]
+  );
+  if (rows.length === 0) {
+    throw errors.notFound('Compliance document');
+  }
+  return mapComplianceDocument(rows[0]);
+}
+
+function describeComplianceDocument(documentType: string, coverageType?: string | null) {
+  if (documentType === 'w9') return 'W-9';
+  const label = coverageType ? COVERAGE_LABELS[coverageType as keyof typeof COVERAGE_LABELS] : undefined;
+  return `${label ?? 'Insurance'} certificate`;
+}
+
+// Load addresses for a set of companies, grouped by company id
+async function loadAddresses(companyIds: string[]): Promise<Map<string, DBCompanyAddress[]>> {
+  const grouped = new Map<string, DBCompanyAddress[]>();
+  if (companyIds.length === 0) return grouped;
+
+  const rows = await query<DBCompanyAddress>(
+    `SELECT * FROM company_addresses
+     WHERE company_id = ANY($1)
+     ORDER BY is_main DESC, sort_order ASC, created_at ASC`,
+    [companyIds]
+  );
+
+  for (const row of rows) {
+    const list = grouped.get(row.company_id) || [];
+    list.push(row);
+    grouped.set(row.company_id, list);
+  }
+  return grouped;
+}
+
+async function upsertMainAddress(
+  db: Queryable,
+  companyId: string,
+  address: z.infer<typeof mainAddressSchema> | null
+) {
+  if (address === null) {
+    await db.query('DELETE FROM company_addresses WHERE company_id = $1 AND is_main', [companyId]);
+    return;
+  }
+
+  await db.query(
+    `INSERT INTO company_addresses (company_id, label, street, suite, city, state, zip, is_main, sales_rep_ids)
+     VALUES ($1, 'Main Office', $2, $3, $4, $5, $6, true, $7)
+     ON CONFLICT (company_id) WHERE is_main DO UPDATE SET
+       street = EXCLUDED.street,
+       suite = EXCLUDED.suite,
+       city = EXCLUDED.city,
+       state = EXCLUDED.state,
+       zip = EXCLUDED.zip,
+       sales_rep_ids = EXCLUDED.sales_rep_ids`,
+    [companyId, address.street, address.suite || null, address.city, address.state, address.zip, address.salesRepIds || []]
+  );
+}
+
+// Replace the full set of additional (non-main) addresses, preserving ids
+async function replaceAddresses(
+  db: Queryable,
+  companyId: string,
+  addresses: z.infer<typeof addressSchema>[]
+) {
+  const keepIds = addresses.map((a) => a.id).filter((id): id is string => !!id);
+  await db.query(
+    'DELETE FROM company_addresses WHERE company_id = $1 AND NOT is_main AND NOT (id = ANY($2::uuid[]))',
+    [companyId, keepIds]
+  );
+
+  for (const [index, addr] of addresses.entries()) {
+    await db.query(
+      `INSERT INTO company_addresses (id, company_id, label, street, suite, city, state, zip, sales_rep_ids, sort_order)
+       VALUES (COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (id) DO UPDATE SET
+         label = EXCLUDED.label,
+         street = EXCLUDED.street,
+         suite = EXCLUDED.suite,
+         city = EXCLUDED.city,
+         state = EXCLUDED.state,
+         zip = EXCLUDED.zip,
+         sales_rep_ids = EXCLUDED.sales_rep_ids,
+         sort_order = EXCLUDED.sort_order`,
+      [
+        addr.id || null,
+        companyId,
+        addr.label,
+        addr.street,
+        addr.suite || null,
+        addr.city,
+        addr.state,
+        addr.zip,
+        addr.salesRepIds || [],
+        index,
+      ]
+    );
+  }
+}
+
+async function getCompanyResponse(id: string) {
+  const companies = await query<DBCompany>('SELECT * FROM companies WHERE id = $1', [id]);
+  const company = companies[0];
+  if (!company) {
+    throw errors.notFound('Company');
+  }
+  const addresses = await loadAddresses([id]);
+  return mapCompany(company, addresses.get(id));
+}
+
+// List all companies
+router.get(
+  '/',
+  authenticate,
+  requirePermission('customers:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { search, salesRepId, type, trade, isActive = 'true', page = '1', limit = '50' } = req.query;
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (isActive !== undefined && isActive !== 'all') {
+      whereClause += ` AND c.is_active = $${paramIndex}`;
+      params.push(isActive === 'true');
+      paramIndex++;
+    }
+
+    if (search) {
+      whereClause += ` AND (c.name ILIKE $${paramIndex} OR c.phone ILIKE $${paramIndex} OR c.website ILIKE $${paramIndex})`;
+      params.push(`%${search}%`);
+      paramIndex++;
+    }
+
+    // customer, subcontractor or supplier
+    if (type === 'customer' || type === 'subcontractor' || type === 'supplier') {
+      whereClause += ` AND c.is_${type} = true`;
+    }
+
+    if (trade) {
+      whereClause += ` AND $${paramIndex} = ANY(c.trades)`;
+      params.push(trade);
+      paramIndex++;
+    }
+
+    // Matches company-level reps as well as reps assigned to any location
+    if (salesRepId) {
+      whereClause += ` AND ($${paramIndex} = ANY(c.sales_rep_ids) OR EXISTS (
+        SELECT 1 FROM company_addresses ca WHERE ca.company_id = c.id AND $${paramIndex} = ANY(ca.sales_rep_ids)
+      ))`;
+      params.push(salesRepId);
+      paramIndex++;
+    }
+
+    // Record scope: only companies the user or their visible reps are assigned to
+    const visibleRepIds = await resolveVisibleRepIds(req.user!);
+    if (visibleRepIds) {
+      whereClause += ` AND ${companyScopeCondition('c', `$${paramIndex}`)}`;
+      params.push(visibleRepIds);
+      paramIndex++;
+    }
+
+    const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    // Get total count
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM companies c ${whereClause}`,
+      params
+    );
+    const countRow = countResult[0];
+    const total = countRow ? parseInt(countRow.count) : 0;
+
+    // Get paginated companies
+    const companies = await query<DBCompany>(
+      `SELECT c.* FROM companies c ${whereClause}
+       ORDER BY c.name ASC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...params, parseInt(limit as string), offset]
+    );
+
+    const addresses = await loadAddresses(companies.map((c) => c.id));
+
+    res.json({
+      success: true,
+      data: companies.map((c) => mapCompany(c, addresses.get(c.id))),
+      meta: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        totalPages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  })
+);
+
+// Import companies/contacts saved in the browser before server persistence.
+// Idempotent: records already imported (matched on legacy_id) are reused.
+router.post(
+  '/import',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = importSchema.parse(req.body);
+
+    const idMap = {
+      companies: {} as Record<string, string>,
+      addresses: {} as Record<string, string>,
+      contacts: {} as Record<string, string>,
+      contactMethods: {} as Record<string, string>,
+    };
+
+    const counts = await withTransaction(async (db) => {
+      const createdCompanyIds: string[] = [];
+      let contactsCreated = 0;
+      const mainAddressIds: Record<string, string> = {};
+
+      for (const c of data.companies) {
+        const existing = await db.query<{ id: string }>(
+          'SELECT id FROM companies WHERE legacy_id = $1',
+          [c.id]
+        );
+        let companyId = existing.rows[0]?.id;
+
+        if (!companyId) {
+          const salesRepIds = c.salesRepIds?.length ? c.salesRepIds : c.salesRepId ? [c.salesRepId] : [];
+          const slug = await uniqueSlug('companies', c.slug || c.name, { db, fallback: 'company' });
+          const inserted = await db.query<{ id: string }>(
+            `INSERT INTO companies (name, slug, phone, website, notes, sales_rep_ids, sales_reps_by_location, legacy_id)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+             RETURNING id`,
+            [c.name, slug, c.phone, c.website, c.notes, salesRepIds, c.salesRepsByLocation ?? false, c.id]
+          );
+          companyId = inserted.rows[0]!.id;
+          createdCompanyIds.push(companyId);
+
+          if (c.address) {
+            const reps = c.address.salesRepIds?.length
+              ? c.address.salesRepIds
+              : c.address.salesRepId ? [c.address.salesRepId] : [];
+            await upsertMainAddress(db, companyId, { ...c.address, salesRepIds: reps });
+          }
+
+          for (const [index, addr] of (c.addresses || []).entries()) {
+            const reps = addr.salesRepIds?.length ? addr.salesRepIds : addr.salesRepId ? [addr.salesRepId] : [];
+            await db.query(
+              `INSERT INTO company_addresses (company_id, label, street, suite, city, state, zip, sales_rep_ids, sort_order, legacy_id)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+              [companyId, addr.label, addr.street, addr.suite || null, addr.city, addr.state, addr.zip, reps, index, addr.id]
+            );
+          }
+        }
+
+        idMap.companies[c.id] = companyId;
+
+        const addressRows = await db.query<{ id: string; legacy_id: string | null; is_main: boolean }>(
+          'SELECT id, legacy_id, is_main FROM company_addresses WHERE company_id = $1',
+          [companyId]
+        );
+        for (const row of addressRows.rows) {
+          if (row.is_main) mainAddressIds[companyId] = row.id;
+          if (row.legacy_id) idMap.addresses[row.legacy_id] = row.id;
+        }
+      }
+
+      for (const ct of data.contacts) {
+        const companyId = idMap.companies[ct.companyId];
+        if (!companyId) continue; // Orphaned contact - its company was deleted locally
+
+        const existing = await db.query<{ id: string }>(
+          'SELECT id FROM contacts WHERE legacy_id = $1',
+          [ct.id]
+        );
+        let contactId = existing.rows[0]?.id;
+
+        if (!contactId) {
+          const officeAddressId =
+            ct.officeAddressId === MAIN_OFFICE_ID
+              ? mainAddressIds[companyId] ?? null
+              : ct.officeAddressId
+                ? idMap.addresses[ct.officeAddressId] ?? null
+                : null;
+
+          const inserted = await db.query<{ id: string }>(
+            `INSERT INTO contacts (company_id, first_name, last_name, email, phone_office, phone_mobile, role, notes, office_address_id, legacy_id)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+             RETURNING id`,
+            [
+              companyId,
+              ct.firstName,
+              ct.lastName,
+              ct.email || null,
+              ct.phoneOffice,
+              ct.phoneMobile,
+              ct.role,
+              ct.notes,
+              officeAddressId,
+              ct.id,
+            ]
+          );
+          contactId = inserted.rows[0]!.id;
+          contactsCreated++;
+
+          // Keep the browser's slug so bookmarked URLs still work, unless another contact has it
+          const baseSlug = ct.slug || `${ct.firstName}-${ct.lastName}`;
+          await db.query(
+            `UPDATE contacts SET slug = CASE
+               WHEN EXISTS (SELECT 1 FROM contacts WHERE slug = $2) THEN $2 || '-' || left(id::text, 8)
+               ELSE $2
+             END
+             WHERE id = $1`,
+            [contactId, slugify(baseSlug) || 'contact']
+          );
+
+          for (const [index, method] of (ct.additionalContacts || []).entries()) {
+            const insertedMethod = await db.query<{ id: string }>(
+              `INSERT INTO contact_methods (contact_id, type, label, value, sort_order)
+               VALUES ($1, $2, $3, $4, $5)
+               RETURNING id`,
+              [contactId, method.type, method.label, method.value, index]
+            );
+            idMap.contactMethods[method.id] = insertedMethod.rows[0]!.id;
+          }
+        }
+
+        idMap.contacts[ct.id] = contactId;
+      }
+
+      return { createdCompanyIds, contactsCreated };
+    });
+
+    // Log activity
+    for (const companyId of counts.createdCompanyIds) {
+      await query(
+        `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+         VALUES ($1, 'company', $2, 'imported', 'Imported company from local storage')`,
+        [req.user!.sub, companyId]
+      );
+    }
+
+    res.json({
+      success: true,
+      data: {
+        companiesCreated: counts.createdCompanyIds.length,
+        contactsCreated: counts.contactsCreated,
+        idMap,
+      },
+    });
+  })
+);
+
+// Subcontractors whose W-9 or required insurance is missing, lapsed, or
+// lapses within withinDays (default COI_ALERT_DAYS)
+router.get(
+  '/compliance-alerts',
+  authenticate,
+  requirePermission('customers:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { withinDays } = complianceAlertsSchema.parse(req.query);
+
+    res.json({
+      success: true,
+      data: await loadComplianceAlerts(withinDays),
+    });
+  })
+);
+
+// Get single company
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('customers:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const company = await getCompanyResponse(id);
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+
+    // Get related stats
+    const stats = await query<{
+      project_count: string;
+      estimate_count: string;
+      invoice_count: string;
+      total_paid: string;
+    }>(
+      `SELECT
+         (SELECT COUNT(*) FROM projects WHERE client_id = $1) as project_count,
+         (SELECT COUNT(*) FROM estimates WHERE client_id = $1) as estimate_count,
+         (SELECT COUNT(*) FROM invoices WHERE client_id = $1) as invoice_count,
+         (SELECT COALESCE(SUM(amount), 0) FROM payments WHERE client_id = $1) as total_paid`,
+      [id]
+    );
+
+    const statsRow = stats[0];
+
+    res.json({
+      success: true,
+      data: {
+        ...company,
+        stats: {
+          projectCount: statsRow ? parseInt(statsRow.project_count) : 0,
+          estimateCount: statsRow ? parseInt(statsRow.estimate_count) : 0,
+          invoiceCount: statsRow ? parseInt(statsRow.invoice_count) : 0,
+          totalPaid: statsRow ? parseFloat(statsRow.total_paid) : 0,
+        },
+      },
+    });
+  })
+);
+
+// Get contacts for a company
+router.get(
+  '/:id/contacts',
+  authenticate,
+  requirePermission('customers:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+
+    const contacts = await query<DBContact & { office_is_main: boolean | null }>(
+      `SELECT ct.*, ca.is_main as office_is_main
+       FROM contacts ct
+       LEFT JOIN company_addresses ca ON ct.office_address_id = ca.id
+       WHERE ct.company_id = $1
+       ORDER BY ct.last_name ASC, ct.first_name ASC`,
+      [id]
+    );
+    const methods = await loadContactMethods(contacts.map((c) => c.id));
+
+    res.json({
+      success: true,
+      data: contacts.map((c) => mapContact(c, methods.get(c.id))),
+    });
+  })
+);
+
+// Create company
+router.post(
+  '/',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = createCompanySchema.parse(req.body);
+
+    const company = await withTransaction(async (db) => {
+      const slug = await uniqueSlug('companies', data.slug || data.name, { db, fallback: 'company' });
+      const inserted = await db.query<DBCompany>(
+        `INSERT INTO companies (id, name, slug, phone, website, notes, sales_rep_ids, sales_reps_by_location,
+                                is_customer, is_subcontractor, is_supplier, trades)
+         VALUES (COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+         RETURNING *`,
+        [
+          data.id || null,
+          data.name,
+          slug,
+          data.phone,
+          data.website,
+          data.notes,
+          data.salesRepIds || [],
+          data.salesRepsByLocation ?? false,
+          // A company added without a type is a customer, as they all used to be
+          data.isCustomer ?? !(data.isSubcontractor || data.isSupplier),
+          data.isSubcontractor ?? false,
+          data.isSupplier ?? false,
+          data.trades || [],
+        ]
+      );
+      const row = inserted.rows[0];
+      if (!row) {
+        throw new Error('Failed to create company');
+      }
+
+      if (data.address) {
+        await upsertMainAddress(db, row.id, data.address);
+      }
+      if (data.addresses) {
+        await replaceAddresses(db, row.id, data.addresses);
+      }
+      return row;
+    });
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'company', $2, 'created', $3)`,
+      [req.user!.sub, company.id, `Created company: ${company.name}`]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: await getCompanyResponse(company.id),
+    });
+  })
+);
+
+// Update company
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+    // Empty strings clear optional fields; omitted fields are left unchanged
+    const data = updateCompanySchema.parse(req.body);
+
+    const company = await withTransaction(async (db) => {
+      const slug = data.name !== undefined
+        ? await uniqueSlug('companies', data.slug || data.name, { db, excludeId: id, fallback: 'company' })
+        : undefined;
+
+      const updated = await db.query<DBCompany>(
+        `UPDATE companies SET
+           name = COALESCE($2, name),
+           slug = COALESCE($3, slug),
+           phone = CASE WHEN $4::text IS NULL THEN phone ELSE NULLIF($4, '') END,
+           website = CASE WHEN $5::text IS NULL THEN website ELSE NULLIF($5, '') END,
+           notes = CASE WHEN $6::text IS NULL THEN notes ELSE NULLIF($6, '') END,
+           sales_rep_ids = COALESCE($7, sales_rep_ids),
+           sales_reps_by_location = COALESCE($8, sales_reps_by_location),
+           is_customer = COALESCE($9, is_customer),
+           is_subcontractor = COALESCE($10, is_subcontractor),
+           is_supplier = COALESCE($11, is_supplier),
+           trades = COALESCE($12, trades)
+         WHERE id = $1
+         RETURNING *`,
+        [
+          id,
+          data.name,
+          slug,
+          data.phone,
+          data.website,
+          data.notes,
+          data.salesRepIds,
+          data.salesRepsByLocation,
+          data.isCustomer,
+          data.isSubcontractor,
+          data.isSupplier,
+          data.trades,
+        ]
+      );
+      const row = updated.rows[0];
+      if (!row) {
+        throw errors.notFound('Company');
+      }
+
+      if (data.address !== undefined) {
+        await upsertMainAddress(db, id, data.address);
+      }
+      if (data.addresses) {
+        await replaceAddresses(db, id, data.addresses);
+      }
+      return row;
+    });
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'company', $2, 'updated', $3)`,
+      [req.user!.sub, id, `Updated company: ${company.name}`]
+    );
+
+    res.json({
+      success: true,
+      data: await getCompanyResponse(id),
+    });
+  })
+);
+
+// Delete company (contacts and addresses cascade)
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+
+    // Companies referenced by projects/estimates/invoices, or working on a
+    // project as a subcontractor, are deactivated instead
+    const refs = await query<{ count: string }>(
+      `SELECT (
+         (SELECT COUNT(*) FROM projects WHERE client_id = $1) +
+         (SELECT COUNT(*) FROM estimates WHERE client_id = $1) +
+         (SELECT COUNT(*) FROM invoices WHERE client_id = $1) +
+         (SELECT COUNT(*) FROM project_subcontractors WHERE company_id = $1)
+       ) as count`,
+      [id]
+    );
+    const inUse = parseInt(refs[0]?.count || '0') > 0;
+
+    const companies = await query<Pick<DBCompany, 'name'>>(
+      inUse
+        ? 'UPDATE companies SET is_active = false WHERE id = $1 RETURNING name'
+        : 'DELETE FROM companies WHERE id = $1 RETURNING name',
+      [id]
+    );
+
+    const company = companies[0];
+    if (!company) {
+      throw errors.notFound('Company');
+    }
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'company', $2, $3, $4)`,
+      [
+        req.user!.sub,
+        id,
+        inUse ? 'deactivated' : 'deleted',
+        `${inUse ? 'Deactivated' : 'Deleted'} company: ${company.name}`,
+      ]
+    );
+
+    res.json({
+      success: true,
+      data: { message: inUse ? 'Company deactivated successfully' : 'Company deleted successfully' },
+    });
+  })
+);
+
+// Add an additional address
+router.post(
+  '/:id/addresses',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+    const data = addressSchema.parse(req.body);
+
+    const addresses = await query<DBCompanyAddress>(
+      `INSERT INTO company_addresses (id, company_id, label, street, suite, city, state, zip, sales_rep_ids, sort_order)
+       SELECT COALESCE($1::uuid, uuid_generate_v4()), c.id, $3, $4, $5, $6, $7, $8, $9,
+              (SELECT COALESCE(MAX(sort_order) + 1, 0) FROM company_addresses WHERE company_id = c.id)
+       FROM companies c WHERE c.id = $2
+       RETURNING *`,
+      [
+        data.id || null,
+        id,
+        data.label,
+        data.street,
+        data.suite || null,
+        data.city,
+        data.state,
+        data.zip,
+        data.salesRepIds || [],
+      ]
+    );
+
+    const address = addresses[0];
+    if (!address) {
+      throw errors.notFound('Company');
+    }
+
+    res.status(201).json({
+      success: true,
+      data: mapAddress(address),
+    });
+  })
+);
+
+// Update an additional address
+router.patch(
+  '/:id/addresses/:addressId',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, addressId } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+    const data = addressSchema.omit({ id: true }).partial().parse(req.body);
+
+    const addresses = await query<DBCompanyAddress>(
+      `UPDATE company_addresses SET
+         label = COALESCE($3, label),
+         street = COALESCE($4, street),
+         suite = COALESCE($5, suite),
+         city = COALESCE($6, city),
+         state = COALESCE($7, state),
+         zip = COALESCE($8, zip),
+         sales_rep_ids = COALESCE($9, sales_rep_ids)
+       WHERE id = $1 AND company_id = $2
+       RETURNING *`,
+      [addressId, id, data.label, data.street, data.suite, data.city, data.state, data.zip, data.salesRepIds]
+    );
+
+    const address = addresses[0];
+    if (!address) {
+      throw errors.notFound('Address');
+    }
+
+    res.json({
+      success: true,
+      data: mapAddress(address),
+    });
+  })
+);
+
+// Delete an additional address
+router.delete(
+  '/:id/addresses/:addressId',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, addressId } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+
+    const addresses = await query<{ id: string }>(
+      'DELETE FROM company_addresses WHERE id = $1 AND company_id = $2 AND NOT is_main RETURNING id',
+      [addressId, id]
+    );
+
+    if (!addresses[0]) {
+      throw errors.notFound('Address');
+    }
+
+    res.json({
+      success: true,
+      data: { message: 'Address deleted successfully' },
+    });
+  })
+);
+
+// Sales tax exemption certificates, newest first. Estimates and invoices for
+// the company are not taxed while one is in force.
+router.get(
+  '/:id/tax-exemptions',
+  authenticate,
+  requirePermission('customers:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+
+    const rows = await query<DBTaxExemptionCertificate & { jurisdiction_name: string | null; is_current: boolean }>(
+      `${TAX_EXEMPTION_SELECT} WHERE x.company_id = $1 ORDER BY x.effective_date DESC, x.created_at DESC`,
+      [id]
+    );
+
+    res.json({
+      success: true,
+      data: rows.map(mapTaxExemption),
+    });
+  })
+);
+
+router.post(
+  '/:id/tax-exemptions',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+    const data = taxExemptionSchema.parse(req.body);
+
+    const companies = await query<{ name: string }>('SELECT name FROM companies WHERE id = $1', [id]);
+    if (companies.length === 0) {
+      throw errors.notFound('Company');
+    }
+
+    const inserted = await query<DBTaxExemptionCertificate>(
+      `INSERT INTO tax_exemption_certificates
+         (company_id, certificate_type, certificate_number, jurisdiction_id, effective_date, expires_on, notes, created_by)
+       VALUES ($1, $2, $3, $4, COALESCE($5::date, CURRENT_DATE), $6, $7, $8)
+       RETURNING id`,
+      [
+        id,
+        data.certificateType,
+        data.certificateNumber || null,
+        data.jurisdictionId ?? null,
+        data.effectiveDate,
+        data.expiresOn ?? null,
+        data.notes || null,
+        req.user!.sub,
+      ]
+    );
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'company', $2, 'updated', $3)`,
+      [req.user!.sub, id, `Added ${data.certificateType} tax exemption certificate for ${companies[0].name}`]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: await loadTaxExemption(id, inserted[0].id),
+    });
+  })
+);
+
+router.patch(
+  '/:id/tax-exemptions/:exemptionId',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, exemptionId } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+    const data = taxExemptionSchema.partial().parse(req.body);
+
+    const updated = await query<{ id: string }>(
+      `UPDATE tax_exemption_certificates SET
+         certificate_type = COALESCE($3, certificate_type),
+         certificate_number = CASE WHEN $4 THEN $5 ELSE certificate_number END,
+         jurisdiction_id = CASE WHEN $6 THEN $7::uuid ELSE jurisdiction_id END,
+         effective_date = COALESCE($8::date, effective_date),
+         expires_on = CASE WHEN $9 THEN $10::date ELSE expires_on END,
+         notes = CASE WHEN $11 THEN $12 ELSE notes END
+       WHERE id = $1 AND company_id = $2
+       RETURNING id`,
+      [
+        exemptionId,
+        id,
+        data.certificateType,
+        data.certificateNumber !== undefined,
+        data.certificateNumber || null,
+        data.jurisdictionId !== undefined,
+        data.jurisdictionId ?? null,
+        data.effectiveDate,
+        data.expiresOn !== undefined,
+        data.expiresOn ?? null,
+        data.notes !== undefined,
+        data.notes || null,
+      ]
+    );
+
+    if (updated.length === 0) {
+      throw errors.notFound('Exemption certificate');
+    }
+
+    res.json({
+      success: true,
+      data: await loadTaxExemption(id, exemptionId),
+    });
+  })
+);
+
+// Documents already taxed under the certificate keep their totals
+router.delete(
+  '/:id/tax-exemptions/:exemptionId',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, exemptionId } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+
+    const deleted = await query<{ id: string }>(
+      'DELETE FROM tax_exemption_certificates WHERE id = $1 AND company_id = $2 RETURNING id',
+      [exemptionId, id]
+    );
+
+    if (deleted.length === 0) {
+      throw errors.notFound('Exemption certificate');
+    }
+
+    res.json({
+      success: true,
+      data: { message: 'Exemption certificate deleted successfully' },
+    });
+  })
+);
+
+// Vendor compliance: W-9 and insurance certificates on file, the
+// prequalification checklist, and where the company stands on both
+router.get(
+  '/:id/compliance',
+  authenticate,
+  requirePermission('customers:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+
+    const [summaries, documents, items] = await Promise.all([
+      loadComplianceSummaries([id]),
+      query<DBComplianceDocument>(
+        `${COMPLIANCE_DOCUMENT_SELECT} WHERE d.company_id = $1
+         ORDER BY d.document_type DESC, d.coverage_type, d.expiry_date DESC NULLS LAST, d.created_at DESC`,
+        [id]
+      ),
+      query<DBPrequalificationItem & { completed_by_name: string | null }>(
+        `SELECT p.*, u.name AS completed_by_name
+         FROM company_prequalification_items p
+         LEFT JOIN users u ON p.completed_by = u.id
+         WHERE p.company_id = $1`,
+        [id]
+      ),
+    ]);
+
+    const summary = summaries.get(id);
+    if (!summary) {
+      throw errors.notFound('Company');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        summary,
+        documents: documents.map(mapComplianceDocument),
+        checklist: PREQUALIFICATION_ITEMS.map((item) => {
+          const done = items.find((i) => i.item === item);
+          return {
+            item,
+            completed: !!done,
+            completedAt: done?.completed_at ?? null,
+            completedBy: done?.completed_by ?? null,
+            completedByName: done?.completed_by_name ?? null,
+            notes: done?.notes ?? null,
+          };
+        }),
+      },
+    });
+  })
+);
+
+router.post(
+  '/:id/compliance-documents',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+    const data = complianceDocumentSchema.parse(req.body);
+
+    const companies = await query<{ name: string }>('SELECT name FROM companies WHERE id = $1', [id]);
+    if (companies.length === 0) {
+      throw errors.notFound('Company');
+    }
+    if (data.expiryDate && data.effectiveDate && data.expiryDate < data.effectiveDate) {
+      throw errors.badRequest('The expiry date cannot be before the effective date');
+    }
+
+    const inserted = await query<{ id: string }>(
+      `INSERT INTO company_compliance_documents
+         (company_id, document_type, coverage_type, carrier, policy_number, coverage_amount,
+          effective_date, expiry_date, notes, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7::date, CURRENT_DATE), $8, $9, $10)
+       RETURNING id`,
+      [
+        id,
+        data.documentType,
+        data.documentType === 'coi' ? data.coverageType : null,
+        data.carrier || null,
+        data.policyNumber || null,
+        data.coverageAmount ?? null,
+        data.effectiveDate,
+        data.expiryDate ?? null,
+        data.notes || null,
+        req.user!.sub,
+      ]
+    );
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'company', $2, 'updated', $3)`,
+      [
+        req.user!.sub,
+        id,
+        `Added ${describeComplianceDocument(data.documentType, data.coverageType)} for ${companies[0].name}`,
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: await loadComplianceDocument(id, inserted[0].id),
+    });
+  })
+);
+
+// A new expiry date lets the insurance compliance job flag the certificate again
+router.patch(
+  '/:id/compliance-documents/:documentId',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, documentId } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+    const data = updateComplianceDocumentSchema.parse(req.body);
+    const current = await loadComplianceDocument(id, documentId);
+
+    const expiryDate = data.expiryDate !== undefined ? data.expiryDate : current.expiryDate;
+    if (current.documentType === 'coi' && !expiryDate) {
+      throw errors.badRequest('A certificate of insurance needs its expiry date');
+    }
+    if (expiryDate && expiryDate < (data.effectiveDate ?? current.effectiveDate)) {
+      throw errors.badRequest('The expiry date cannot be before the effective date');
+    }
+
+    await query(
+      `UPDATE company_compliance_documents SET
+         coverage_type = CASE WHEN document_type = 'coi' THEN COALESCE($3, coverage_type) ELSE NULL END,
+         carrier = CASE WHEN $4 THEN $5 ELSE carrier END,
+         policy_number = CASE WHEN $6 THEN $7 ELSE policy_number END,
+         coverage_amount = CASE WHEN $8 THEN $9::numeric ELSE coverage_amount END,
+         effective_date = COALESCE($10::date, effective_date),
+         expiry_date = $11::date,
+         expiry_alerted_at = CASE WHEN expiry_date IS DISTINCT FROM $11::date THEN NULL ELSE expiry_alerted_at END,
+         notes = CASE WHEN $12 THEN $13 ELSE notes END
+       WHERE id = $1 AND company_id = $2`,
+      [
+        documentId,
+        id,
+        data.coverageType,
+        data.carrier !== undefined,
+        data.carrier || null,
+        data.policyNumber !== undefined,
+        data.policyNumber || null,
+        data.coverageAmount !== undefined,
+        data.coverageAmount ?? null,
+        data.effectiveDate,
+        expiryDate,
+        data.notes !== undefined,
+        data.notes || null,
+      ]
+    );
+
+    res.json({
+      success: true,
+      data: await loadComplianceDocument(id, documentId),
+    });
+  })
+);
+
+router.delete(
+  '/:id/compliance-documents/:documentId',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, documentId } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+
+    const deleted = await query<Pick<DBComplianceDocument, 'document_type' | 'coverage_type'>>(
+      'DELETE FROM company_compliance_documents WHERE id = $1 AND company_id = $2 RETURNING document_type, coverage_type',
+      [documentId, id]
+    );
+
+    if (deleted.length === 0) {
+      throw errors.notFound('Compliance document');
+    }
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'company', $2, 'updated', $3)`,
+      [req.user!.sub, id, `Removed ${describeComplianceDocument(deleted[0].document_type, deleted[0].coverage_type)}`]
+    );
+
+    res.json({
+      success: true,
+      data: { message: 'Compliance document deleted successfully' },
+    });
+  })
+);
+
+// Tick off or reopen a prequalification checklist item
+router.put(
+  '/:id/prequalification/:item',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, item } = req.params;
+    await assertCompanyVisible(id, await resolveVisibleRepIds(req.user!));
+    const data = prequalificationItemSchema.parse(req.body);
+    if (!(PREQUALIFICATION_ITEMS as readonly string[]).includes(item)) {
+      throw errors.notFound('Checklist item');
+    }
+
+    const companies = await query<{ id: string }>('SELECT id FROM companies WHERE id = $1', [id]);
+    if (companies.length === 0) {
+      throw errors.notFound('Company');
+    }
+
+    if (data.completed) {
+      await query(
+        `INSERT INTO company_prequalification_items (company_id, item, completed_by, notes)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (company_id, item) DO UPDATE SET notes = EXCLUDED.notes`,
+        [id, item, req.user!.sub, data.notes || null]
+      );
+    } else {
+      await query('DELETE FROM company_prequalification_items WHERE company_id = $1 AND item = $2', [id, item]);
+    }
+
+    const summaries = await loadComplianceSummaries([id]);
+
+    res.json({
+      success: true,
+      data: { item, completed: data.completed, summary: summaries.get(id) },
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,492 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { resolveVisibleRepIds, companyScopeCondition, assertCompanyVisible } from '../services/scoping.js';
+import { uniqueSlug } from '../utils/slug.js';
+import { AuthenticatedRequest, DBContact, DBContactMethod, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+// The frontend refers to a company's main address by this sentinel id
+export const MAIN_OFFICE_ID = 'main-office';
+
+// Validation schemas
+const contactMethodSchema = z.object({
+  id: z.string().uuid().optional(),
+  type: z.enum(['phone', 'fax', 'email']),
+  label: z.string().max(100).optional(),
+  value: z.string().min(1).max(255),
+});
+
+const createContactSchema = z.object({
+  id: z.string().uuid().optional(),
+  slug: z.string().max(255).optional(),
+  companyId: z.string().uuid(),
+  firstName: z.string().min(1).max(100),
+  lastName: z.string().max(100).default(''),
+  email: z.string().email().optional().or(z.literal('')),
+  phoneOffice: z.string().max(50).optional(),
+  phoneMobile: z.string().max(50).optional(),
+  role: z.string().max(100).optional(),
+  notes: z.string().optional(),
+  officeAddressId: z.string().optional(),
+  additionalContacts: z.array(contactMethodSchema).optional(),
+});
+
+const updateContactSchema = createContactSchema.omit({ id: true, additionalContacts: true }).partial().extend({
+  // null unlinks the contact from any office
+  officeAddressId: z.string().nullable().optional(),
+});
+
+type DBContactRow = DBContact & { office_is_main?: boolean | null };
+
+const CONTACT_SELECT = `
+  SELECT ct.*, ca.is_main as office_is_main
+  FROM contacts ct
+  LEFT JOIN company_addresses ca ON ct.office_address_id = ca.id`;
+
+// Helper to map DB contact (plus its extra methods) to API response
+export function mapContact(c: DBContactRow, methods: DBContactMethod[] = []) {
+  return {
+    id: c.id,
+    slug: c.slug,
+    companyId: c.company_id,
+    firstName: c.first_name,
+    lastName: c.last_name,
+    email: c.email ?? undefined,
+    phoneOffice: c.phone_office ?? undefined,
+    phoneMobile: c.phone_mobile ?? undefined,
+    role: c.role ?? undefined,
+    notes: c.notes ?? undefined,
+    officeAddressId: c.office_is_main ? MAIN_OFFICE_ID : c.office_address_id ?? undefined,
+    additionalContacts: methods.map(mapContactMethod),
+    createdAt: c.created_at,
+    updatedAt: c.updated_at,
+  };
+}
+
+function mapContactMethod(m: DBContactMethod) {
+  return {
+    id: m.id,
+    type: m.type,
+    label: m.label ?? undefined,
+    value: m.value,
+  };
+}
+
+// Load extra contact methods for a set of contacts, grouped by contact id
+export async function loadContactMethods(contactIds: string[]): Promise<Map<string, DBContactMethod[]>> {
+  const grouped = new Map<string, DBContactMethod[]>();
+  if (contactIds.length === 0) return grouped;
+
+  const rows = await query<DBContactMethod>(
+    `SELECT * FROM contact_methods
+     WHERE contact_id = ANY($1)
+     ORDER BY sort_order ASC, created_at ASC`,
+    [contactIds]
+  );
+
+  for (const row of rows) {
+    const list = grouped.get(row.contact_id) || [];
+    list.push(row);
+    grouped.set(row.contact_id, list);
+  }
+  return grouped;
+}
+
+// Resolve the frontend's office reference to a company_addresses id
+async function resolveOfficeAddressId(
+  companyId: string,
+  officeAddressId: string | null | undefined
+): Promise<string | null | undefined> {
+  if (officeAddressId === undefined || officeAddressId === null || officeAddressId === '') {
+    return officeAddressId === undefined ? undefined : null;
+  }
+
+  const rows = await query<{ id: string }>(
+    officeAddressId === MAIN_OFFICE_ID
+      ? 'SELECT id FROM company_addresses WHERE company_id = $1 AND is_main'
+      : 'SELECT id FROM company_addresses WHERE company_id = $1 AND id::text = $2',
+    officeAddressId === MAIN_OFFICE_ID ? [companyId] : [companyId, officeAddressId]
+  );
+
+  const row = rows[0];
+  if (!row) {
+    throw errors.badRequest('Office address does not belong to this company');
+  }
+  return row.id;
+}
+
+// Not found unless the contact's company is within the user's record scope
+async function assertContactVisible(id: string, visibleRepIds: string[] | null): Promise<void> {
+  const contacts = await query<Pick<DBContact, 'company_id'>>('SELECT company_id FROM contacts WHERE id = $1', [id]);
+  const contact = contacts[0];
+  if (!contact) {
+    throw errors.notFound('Contact');
+  }
+  await assertCompanyVisible(contact.company_id, visibleRepIds, 'Contact');
+}
+
+async function getContactResponse(id: string) {
+  const contacts = await query<DBContactRow>(`${CONTACT_SELECT} WHERE ct.id = $1`, [id]);
+  const contact = contacts[0];
+  if (!contact) {
+    throw errors.notFound('Contact');
+  }
+  const methods = await loadContactMethods([id]);
+  return mapContact(contact, methods.get(id));
+}
+
+// List all contacts
+router.get(
+  '/',
+  authenticate,
+  requirePermission('customers:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { search, companyId, email, page = '1', limit = '50' } = req.query;
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (companyId) {
+      whereClause += ` AND ct.company_id = $${paramIndex}`;
+      params.push(companyId);
+      paramIndex++;
+    }
+
+    if (search) {
+      whereClause += ` AND (ct.first_name ILIKE $${paramIndex} OR ct.last_name ILIKE $${paramIndex} OR ct.email ILIKE $${paramIndex})`;
+      params.push(`%${search}%`);
+      paramIndex++;
+    }
+
+    // Exact email lookup - matches the primary email or any extra email method
+    if (email) {
+      whereClause += ` AND (LOWER(ct.email) = LOWER($${paramIndex}) OR EXISTS (
+        SELECT 1 FROM contact_methods cm
+        WHERE cm.contact_id = ct.id AND cm.type = 'email' AND LOWER(cm.value) = LOWER($${paramIndex})
+      ))`;
+      params.push(email);
+      paramIndex++;
+    }
+
+    // Record scope: contacts follow their company's visibility
+    const visibleRepIds = await resolveVisibleRepIds(req.user!);
+    if (visibleRepIds) {
+      whereClause += ` AND EXISTS (SELECT 1 FROM companies c
+                                   WHERE c.id = ct.company_id AND ${companyScopeCondition('c', `$${paramIndex}`)})`;
+      params.push(visibleRepIds);
+      paramIndex++;
+    }
+
+    const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    // Get total count
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM contacts ct ${whereClause}`,
+      params
+    );
+    const countRow = countResult[0];
+    const total = countRow ? parseInt(countRow.count) : 0;
+
+    // Get paginated contacts
+    const contacts = await query<DBContactRow>(
+      `${CONTACT_SELECT} ${whereClause}
+       ORDER BY ct.last_name ASC, ct.first_name ASC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...params, parseInt(limit as string), offset]
+    );
+
+    const methods = await loadContactMethods(contacts.map((c) => c.id));
+
+    res.json({
+      success: true,
+      data: contacts.map((c) => mapContact(c, methods.get(c.id))),
+      meta: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        totalPages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  })
+);
+
+// Get single contact
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('customers:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const contact = await getContactResponse(id);
+    await assertCompanyVisible(contact.companyId, await resolveVisibleRepIds(req.user!), 'Contact');
+
+    res.json({
+      success: true,
+      data: contact,
+    });
+  })
+);
+
+// Create contact
+router.post(
+  '/',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = createContactSchema.parse(req.body);
+    await assertCompanyVisible(data.companyId, await resolveVisibleRepIds(req.user!));
+
+    const officeAddressId = await resolveOfficeAddressId(data.companyId, data.officeAddressId);
+    const slug = await uniqueSlug('contacts', data.slug || `${data.firstName} ${data.lastName}`, { fallback: 'contact' });
+
+    const contacts = await query<DBContact>(
+      `INSERT INTO contacts (id, company_id, slug, first_name, last_name, email, phone_office, phone_mobile, role, notes, office_address_id)
+       VALUES (COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        data.id || null,
+        data.companyId,
+        slug,
+        data.firstName,
+        data.lastName,
+        data.email || null,
+        data.phoneOffice,
+        data.phoneMobile,
+        data.role,
+        data.notes,
+        officeAddressId ?? null,
+      ]
+    );
+
+    const contact = contacts[0];
+    if (!contact) {
+      throw new Error('Failed to create contact');
+    }
+
+    for (const [index, method] of (data.additionalContacts || []).entries()) {
+      await query(
+        `INSERT INTO contact_methods (id, contact_id, type, label, value, sort_order)
+         VALUES (COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6)`,
+        [method.id || null, contact.id, method.type, method.label, method.value, index]
+      );
+    }
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'contact', $2, 'created', $3)`,
+      [req.user!.sub, contact.id, `Created contact: ${contact.first_name} ${contact.last_name}`.trim()]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: await getContactResponse(contact.id),
+    });
+  })
+);
+
+// Update contact
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    // Empty strings clear optional fields; omitted fields are left unchanged
+    const data = updateContactSchema.parse(req.body);
+
+    const existing = await query<DBContact>('SELECT * FROM contacts WHERE id = $1', [id]);
+    const current = existing[0];
+    if (!current) {
+      throw errors.notFound('Contact');
+    }
+    const visibleRepIds = await resolveVisibleRepIds(req.user!);
+    await assertCompanyVisible(current.company_id, visibleRepIds, 'Contact');
+
+    const companyId = data.companyId ?? current.company_id;
+    if (companyId !== current.company_id) {
+      await assertCompanyVisible(companyId, visibleRepIds);
+    }
+    const officeAddressId = await resolveOfficeAddressId(companyId, data.officeAddressId);
+    const slug = data.firstName !== undefined || data.lastName !== undefined
+      ? await uniqueSlug(
+          'contacts',
+          data.slug || `${data.firstName ?? current.first_name} ${data.lastName ?? current.last_name}`,
+          { excludeId: id, fallback: 'contact' }
+        )
+      : undefined;
+
+    const contacts = await query<DBContact>(
+      `UPDATE contacts SET
+         company_id = COALESCE($2, company_id),
+         slug = COALESCE($3, slug),
+         first_name = COALESCE($4, first_name),
+         last_name = COALESCE($5, last_name),
+         email = CASE WHEN $6::text IS NULL THEN email ELSE NULLIF($6, '') END,
+         phone_office = CASE WHEN $7::text IS NULL THEN phone_office ELSE NULLIF($7, '') END,
+         phone_mobile = CASE WHEN $8::text IS NULL THEN phone_mobile ELSE NULLIF($8, '') END,
+         role = CASE WHEN $9::text IS NULL THEN role ELSE NULLIF($9, '') END,
+         notes = CASE WHEN $10::text IS NULL THEN notes ELSE NULLIF($10, '') END,
+         office_address_id = CASE WHEN $11 THEN $12::uuid ELSE office_address_id END
+       WHERE id = $1
+       RETURNING *`,
+      [
+        id,
+        data.companyId,
+        slug,
+        data.firstName,
+        data.lastName,
+        data.email,
+        data.phoneOffice,
+        data.phoneMobile,
+        data.role,
+        data.notes,
+        officeAddressId !== undefined,
+        officeAddressId ?? null,
+      ]
+    );
+
+    const contact = contacts[0]!;
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'contact', $2, 'updated', $3)`,
+      [req.user!.sub, id, `Updated contact: ${contact.first_name} ${contact.last_name}`.trim()]
+    );
+
+    res.json({
+      success: true,
+      data: await getContactResponse(id),
+    });
+  })
+);
+
+// Delete contact
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertContactVisible(id, await resolveVisibleRepIds(req.user!));
+
+    const contacts = await query<Pick<DBContact, 'first_name' | 'last_name'>>(
+      'DELETE FROM contacts WHERE id = $1 RETURNING first_name, last_name',
+      [id]
+    );
+
+    const contact = contacts[0];
+    if (!contact) {
+      throw errors.notFound('Contact');
+    }
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'contact', $2, 'deleted', $3)`,
+      [req.user!.sub, id, `Deleted contact: ${contact.first_name} ${contact.last_name}`.trim()]
+    );
+
+    res.json({
+      success: true,
+      data: { message: 'Contact deleted successfully' },
+    });
+  })
+);
+
+// Add a contact method
+router.post(
+  '/:id/methods',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = contactMethodSchema.parse(req.body);
+    await assertContactVisible(id, await resolveVisibleRepIds(req.user!));
+
+    const methods = await query<DBContactMethod>(
+      `INSERT INTO contact_methods (id, contact_id, type, label, value, sort_order)
+       SELECT COALESCE($1::uuid, uuid_generate_v4()), ct.id, $3, $4, $5,
+              (SELECT COALESCE(MAX(sort_order) + 1, 0) FROM contact_methods WHERE contact_id = ct.id)
+       FROM contacts ct WHERE ct.id = $2
+       RETURNING *`,
+      [data.id || null, id, data.type, data.label, data.value]
+    );
+
+    const method = methods[0];
+    if (!method) {
+      throw errors.notFound('Contact');
+    }
+
+    res.status(201).json({
+      success: true,
+      data: mapContactMethod(method),
+    });
+  })
+);
+
+// Update a contact method
+router.patch(
+  '/:id/methods/:methodId',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, methodId } = req.params;
+    const data = contactMethodSchema.omit({ id: true }).partial().parse(req.body);
+    await assertContactVisible(id, await resolveVisibleRepIds(req.user!));
+
+    const methods = await query<DBContactMethod>(
+      `UPDATE contact_methods SET
+         type = COALESCE($3, type),
+         label = COALESCE($4, label),
+         value = COALESCE($5, value)
+       WHERE id = $1 AND contact_id = $2
+       RETURNING *`,
+      [methodId, id, data.type, data.label, data.value]
+    );
+
+    const method = methods[0];
+    if (!method) {
+      throw errors.notFound('Contact method');
+    }
+
+    res.json({
+      success: true,
+      data: mapContactMethod(method),
+    });
+  })
+);
+
+// Delete a contact method
+router.delete(
+  '/:id/methods/:methodId',
+  authenticate,
+  requirePermission('customers:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, methodId } = req.params;
+    await assertContactVisible(id, await resolveVisibleRepIds(req.user!));
+
+    const methods = await query<{ id: string }>(
+      'DELETE FROM contact_methods WHERE id = $1 AND contact_id = $2 RETURNING id',
+      [methodId, id]
+    );
+
+    if (!methods[0]) {
+      throw errors.notFound('Contact method');
+    }
+
+    res.json({
+      success: true,
+      data: { message: 'Contact method deleted successfully' },
+    });
+  })
+);
+
+export default router;
@@ -2,6 +2,7 @@ import { Router, Response } from 'express';
 import { query } from '../config/database.js';
 import { authenticate, requirePermission } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
+import { resolvePortalUserId } from '../services/permissions.js';
 import { AuthenticatedRequest, ApiResponse, DashboardStats } from '../types/index.js';
 
 const router = Router();
@@ -12,14 +13,13 @@ router.get(
   authenticate,
   requirePermission('dashboard:view'),
   asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse<DashboardStats>>) => {
-    // Revenue stats (from paid invoices)
+    // Revenue stats (from payments received, including partial payments)
     const revenueStats = await query<any>(`
       SELECT 
-        COALESCE(SUM(total), 0) as total_revenue,
-        COALESCE(SUM(CASE WHEN paid_date >= CURRENT_DATE - INTERVAL '30 days' THEN total ELSE 0 END), 0) as this_month,
-        COALESCE(SUM(CASE WHEN paid_date >= CURRENT_DATE - INTERVAL '60 days' AND paid_date < CURRENT_DATE - INTERVAL '30 days' THEN total ELSE 0 END), 0) as last_month
-      FROM invoices
-      WHERE status = 'paid'
+        COALESCE(SUM(amount), 0) as total_revenue,
+        COALESCE(SUM(CASE WHEN payment_date >= CURRENT_DATE - INTERVAL '30 days' THEN amount ELSE 0 END), 0) as this_month,
+        COALESCE(SUM(CASE WHEN payment_date >= CURRENT_DATE - INTERVAL '60 days' AND payment_date < CURRENT_DATE - INTERVAL '30 days' THEN amount ELSE 0 END), 0) as last_month
+      FROM payments
     `);
 
     const revenue = revenueStats[0];
@@ -50,15 +50,35 @@ router.get(
       ? (parseInt(estimates.approved) / parseInt(estimates.total)) * 100 
       : 0;
 
-    // Invoice stats
+    // Invoice stats (outstanding and overdue are balances still due)
     const invoiceStats = await query<any>(`
       SELECT 
-        COALESCE(SUM(CASE WHEN status IN ('sent', 'overdue') THEN total ELSE 0 END), 0) as outstanding,
-        COALESCE(SUM(CASE WHEN status = 'overdue' THEN total ELSE 0 END), 0) as overdue,
-        COALESCE(SUM(CASE WHEN status = 'paid' THEN total ELSE 0 END), 0) as collected
-      FROM invoices
+        COALESCE(SUM(CASE WHEN i.status IN ('sent', 'partially_paid', 'overdue') THEN i.total - p.paid ELSE 0 END), 0) as outstanding,
+        COALESCE(SUM(CASE WHEN i.status = 'overdue' THEN i.total - p.paid ELSE 0 END), 0) as overdue,
+        COALESCE(SUM(p.paid), 0) as collected
+      FROM invoices i
+      CROSS JOIN LATERAL (
+        SELECT COALESCE(SUM(amount), 0) as paid FROM payments WHERE invoice_id = i.id
+      ) p
     `);
 
+    // Contract values of live projects: approved estimates revised by approved change orders
+    const contractStats = await query<any>(`
+      SELECT 
+        (SELECT COALESCE(SUM(e.subtotal), 0) FROM estimates e
+         JOIN projects p ON e.project_id = p.id
+         WHERE e.status = 'approved' AND p.status <> 'cancelled') as original,
+        COALESCE(SUM(co.amount) FILTER (WHERE co.status = 'approved'), 0) as approved_change_orders,
+        COALESCE(SUM(co.amount) FILTER (WHERE co.status = 'pending'), 0) as pending_change_orders
+      FROM change_orders co
+      JOIN projects p ON co.project_id = p.id
+      WHERE p.status <> 'cancelled'
+    `);
+
+    const contracts = contractStats[0];
+    const originalContracts = parseFloat(contracts.original);
+    const approvedChangeOrders = parseFloat(contracts.approved_change_orders);
+
     res.json({
       success: true,
       data: {
@@ -82,6 +102,12 @@ router.get(
           overdue: parseFloat(invoiceStats[0].overdue),
           collected: parseFloat(invoiceStats[0].collected),
         },
+        contracts: {
+          original: originalContracts,
+          approvedChangeOrders,
+          pendingChangeOrders: parseFloat(contracts.pending_change_orders),
+          revised: Math.round((originalContracts + approvedChangeOrders) * 100) / 100,
+        },
       },
     });
   })
@@ -122,20 +148,23 @@ router.get(
   })
 );
 
-// Get upcoming tasks
+// Get the signed-in user's upcoming tasks
 router.get(
   '/tasks',
   authenticate,
   requirePermission('dashboard:view'),
+  requirePermission('tasks:view'),
   asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
-    const userId = req.user!.sub;
+    // Tasks are assigned to portal user ids; older ones may still carry the sign-in id
+    const portalUserId = await resolvePortalUserId(req.user!.email);
+    const assigneeIds = [req.user!.sub, ...(portalUserId ? [portalUserId] : [])];
     const { limit = '10' } = req.query;
 
     const tasks = await query<any>(
-      `SELECT t.*, p.name as project_name
+      `SELECT t.*, to_char(t.due_date, 'YYYY-MM-DD') as due_date, p.name as project_name
        FROM tasks t
        LEFT JOIN projects p ON t.project_id = p.id
-       WHERE t.assignee_id = $1 AND t.status != 'completed'
+       WHERE t.assigned_user_id = ANY($1) AND t.status NOT IN ('completed', 'cancelled')
        ORDER BY 
          CASE WHEN t.due_date IS NULL THEN 1 ELSE 0 END,
          t.due_date ASC,
@@ -146,7 +175,7 @@ router.get(
            ELSE 3 
          END
        LIMIT $2`,
-      [userId, parseInt(limit as string)]
+      [assigneeIds, parseInt(limit as string)]
     );
 
     res.json({
@@ -174,7 +203,7 @@ router.get(
   asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
     // Client count
     const clientCount = await query<{ count: string }>(
-      'SELECT COUNT(*) as count FROM clients WHERE is_active = true'
+      'SELECT COUNT(*) as count FROM companies WHERE is_active = true'
     );
 
     // Pending estimates value
@@ -186,7 +215,8 @@ router.get(
 
     // Overdue invoices
     const overdueInvoices = await query<any>(
-      `SELECT COUNT(*) as count, COALESCE(SUM(total), 0) as total
+      `SELECT COUNT(*) as count,
+         COALESCE(SUM(total - (SELECT COALESCE(SUM(amount), 0) FROM payments p WHERE p.invoice_id = invoices.id)), 0) as total
        FROM invoices 
        WHERE status = 'overdue'`
     );
@@ -0,0 +1,593 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { resolveVisibleRepIds, isOwnerVisible, assertOwnerVisible } from '../services/scoping.js';
+import { uniqueSlug } from '../utils/slug.js';
+import { buildSetClause } from '../utils/sql.js';
+import {
+  dealInputSchema,
+  salesEntityUpdateSchema,
+  reassignOwnerSchema,
+  SALES_ENTITY_COLUMNS,
+  mapDeal,
+} from '../utils/sales.js';
+import { getDeletedDealRetentionDays } from '../jobs/purgeDeletedDeals.js';
+import { AuthenticatedRequest, DBDeal, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+// Validation schemas (mirror DealInput in the frontend salesStore)
+const createDealSchema = dealInputSchema.extend({
+  id: z.string().uuid().optional(),
+});
+
+const updateDealSchema = salesEntityUpdateSchema.extend({
+  commission: z.number().min(0).nullable().optional(),
+  units: z.number().int().min(0).nullable().optional(),
+});
+
+const DEAL_COLUMNS = {
+  ...SALES_ENTITY_COLUMNS,
+  commission: 'commission',
+  units: 'units',
+  slug: 'slug',
+};
+
+const lostSchema = z.object({
+  reason: z.string().trim().min(1, 'A lost reason is required'),
+});
+
+// Legacy localStorage payload - ids are whatever the browser generated
+const importDealsSchema = z.object({
+  deals: z.array(
+    dealInputSchema.extend({
+      id: z.string(),
+      slug: z.string().optional(),
+      companyId: z.string().optional(),
+      contactId: z.string().optional(),
+      status: z.enum(['active', 'won', 'lost']).default('active'),
+      convertedFromLeadId: z.string().optional(),
+      wonAt: z.string().optional(),
+      lostAt: z.string().optional(),
+      lostReason: z.string().optional(),
+      deletedAt: z.string().optional(),
+      createdAt: z.string().optional(),
+    })
+  ),
+});
+
+// Load a deal and log an activity for a status transition
+async function transitionDeal(
+  req: AuthenticatedRequest,
+  id: string,
+  sql: string,
+  params: unknown[],
+  action: string,
+  describe: (deal: DBDeal) => string
+) {
+  await assertOwnerVisible('deals', id, await resolveVisibleRepIds(req.user!), 'Deal');
+  const deals = await query<DBDeal>(sql, [id, ...params]);
+
+  const deal = deals[0];
+  if (!deal) {
+    throw errors.notFound('Deal');
+  }
+
+  await query(
+    `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+     VALUES ($1, 'deal', $2, $3, $4)`,
+    [req.user!.sub, id, action, describe(deal)]
+  );
+
+  return deal;
+}
+
+// List deals
+router.get(
+  '/',
+  authenticate,
+  requirePermission('sales:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const {
+      status,
+      stage,
+      ownerId,
+      companyId,
+      contactId,
+      search,
+      deleted = 'exclude',
+      page = '1',
+      limit = '50',
+    } = req.query;
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    // deleted: exclude (default) | only | include
+    if (deleted === 'only') {
+      whereClause += ' AND deleted_at IS NOT NULL';
+    } else if (deleted !== 'include') {
+      whereClause += ' AND deleted_at IS NULL';
+    }
+
+    if (status) {
+      whereClause += ` AND status = $${paramIndex}`;
+      params.push(status);
+      paramIndex++;
+    }
+
+    if (stage) {
+      whereClause += ` AND stage = $${paramIndex}`;
+      params.push(stage);
+      paramIndex++;
+    }
+
+    if (ownerId) {
+      whereClause += ` AND owner_id = $${paramIndex}`;
+      params.push(ownerId);
+      paramIndex++;
+    }
+
+    if (companyId) {
+      whereClause += ` AND company_id = $${paramIndex}`;
+      params.push(companyId);
+      paramIndex++;
+    }
+
+    if (contactId) {
+      whereClause += ` AND contact_id = $${paramIndex}`;
+      params.push(contactId);
+      paramIndex++;
+    }
+
+    if (search) {
+      whereClause += ` AND (name ILIKE $${paramIndex} OR company_name ILIKE $${paramIndex} OR contact_name ILIKE $${paramIndex})`;
+      params.push(`%${search}%`);
+      paramIndex++;
+    }
+
+    // Record scope: only deals owned by reps the user can see
+    const visibleRepIds = await resolveVisibleRepIds(req.user!);
+    if (visibleRepIds) {
+      whereClause += ` AND owner_id = ANY($${paramIndex})`;
+      params.push(visibleRepIds);
+      paramIndex++;
+    }
+
+    const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM deals ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult[0]?.count || '0');
+
+    const deals = await query<DBDeal>(
+      `SELECT * FROM deals ${whereClause}
+       ORDER BY created_at DESC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...params, parseInt(limit as string), offset]
+    );
+
+    res.json({
+      success: true,
+      data: deals.map(mapDeal),
+      meta: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        totalPages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  })
+);
+
+// Retention window for soft-deleted deals (drives the "Recently deleted" countdown)
+router.get(
+  '/retention',
+  authenticate,
+  requirePermission('sales:view'),
+  asyncHandler(async (_req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    res.json({
+      success: true,
+      data: { retentionDays: await getDeletedDealRetentionDays() },
+    });
+  })
+);
+
+// Import deals saved in the browser before server persistence.
+// Run after /leads/import so convertedFromLeadId can be matched to imported leads.
+router.post(
+  '/import',
+  authenticate,
+  requirePermission('sales:create'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = importDealsSchema.parse(req.body);
+    const idMap: Record<string, string> = {};
+    const createdIds: string[] = [];
+
+    await withTransaction(async (db) => {
+      for (const deal of data.deals) {
+        const existing = await db.query<{ id: string }>(
+          'SELECT id FROM deals WHERE legacy_id = $1',
+          [deal.id]
+        );
+        if (existing.rows[0]) {
+          idMap[deal.id] = existing.rows[0].id;
+          continue;
+        }
+
+        const slug = await uniqueSlug('deals', deal.slug || deal.name, { db, fallback: 'deal' });
+        // Company/contact/lead links are dropped if they don't exist on the server
+        const inserted = await db.query<{ id: string }>(
+          `INSERT INTO deals (slug, name, company_id, company_name, contact_id, contact_name, stage, status, label,
+                              source, notes, owner_id, owner_name, jobsite_address, value, commission, units,
+                              converted_from_lead_id, won_at, lost_at, lost_reason, deleted_at, legacy_id,
+                              created_by, created_at)
+           VALUES ($1, $2,
+                   (SELECT id FROM companies WHERE id::text = $3), $4,
+                   (SELECT id FROM contacts WHERE id::text = $5), $6,
+                   $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17,
+                   (SELECT id FROM leads WHERE legacy_id = $18 OR id::text = $18),
+                   $19, $20, $21, $22, $23, $24, COALESCE($25::timestamptz, CURRENT_TIMESTAMP))
+           RETURNING id`,
+          [
+            slug,
+            deal.name,
+            deal.companyId ?? null,
+            deal.companyName,
+            deal.contactId ?? null,
+            deal.contactName,
+            deal.stage,
+            deal.status,
+            deal.label,
+            deal.source,
+            deal.notes,
+            deal.ownerId,
+            deal.ownerName || '',
+            deal.jobsiteAddress ? JSON.stringify(deal.jobsiteAddress) : null,
+            deal.value,
+            deal.commission,
+            deal.units,
+            deal.convertedFromLeadId ?? null,
+            deal.wonAt ?? null,
+            deal.lostAt ?? null,
+            deal.lostReason,
+            deal.deletedAt ?? null,
+            deal.id,
+            req.user!.sub,
+            deal.createdAt ?? null,
+          ]
+        );
+        idMap[deal.id] = inserted.rows[0]!.id;
+        createdIds.push(inserted.rows[0]!.id);
+      }
+    });
+
+    // Log activity
+    for (const id of createdIds) {
+      await query(
+        `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+         VALUES ($1, 'deal', $2, 'imported', 'Imported deal from local storage')`,
+        [req.user!.sub, id]
+      );
+    }
+
+    res.json({
+      success: true,
+      data: { dealsCreated: createdIds.length, idMap },
+    });
+  })
+);
+
+// Reassign all open deals from one owner to another
+router.post(
+  '/reassign',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = reassignOwnerSchema.parse(req.body);
+    if (!isOwnerVisible(data.fromOwnerId, await resolveVisibleRepIds(req.user!))) {
+      throw errors.forbidden('Cannot reassign deals outside your record scope');
+    }
+
+    const deals = await query<{ id: string }>(
+      `UPDATE deals SET owner_id = $2, owner_name = $3
+       WHERE owner_id = $1 AND deleted_at IS NULL
+       RETURNING id`,
+      [data.fromOwnerId, data.toOwnerId, data.toOwnerName]
+    );
+
+    res.json({
+      success: true,
+      data: { reassigned: deals.length },
+    });
+  })
+);
+
+// Get single deal (by id or slug)
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('sales:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const deals = await query<DBDeal>(
+      'SELECT * FROM deals WHERE id::text = $1 OR slug = $1',
+      [id]
+    );
+
+    const deal = deals[0];
+    if (!deal || !isOwnerVisible(deal.owner_id, await resolveVisibleRepIds(req.user!))) {
+      throw errors.notFound('Deal');
+    }
+
+    res.json({
+      success: true,
+      data: mapDeal(deal),
+    });
+  })
+);
+
+// Create deal
+router.post(
+  '/',
+  authenticate,
+  requirePermission('sales:create'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = createDealSchema.parse(req.body);
+    const slug = await uniqueSlug('deals', data.name, { fallback: 'deal' });
+
+    const deals = await query<DBDeal>(
+      `INSERT INTO deals (id, slug, name, company_id, company_name, contact_id, contact_name, stage, label, source,
+                          notes, owner_id, owner_name, jobsite_address, value, commission, units, created_by)
+       VALUES (COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+               $16, $17, $18)
+       RETURNING *`,
+      [
+        data.id || null,
+        slug,
+        data.name,
+        data.companyId,
+        data.companyName,
+        data.contactId,
+        data.contactName,
+        data.stage,
+        data.label,
+        data.source,
+        data.notes,
+        data.ownerId,
+        data.ownerName || '',
+        data.jobsiteAddress ? JSON.stringify(data.jobsiteAddress) : null,
+        data.value,
+        data.commission,
+        data.units,
+        req.user!.sub,
+      ]
+    );
+
+    const deal = deals[0];
+    if (!deal) {
+      throw new Error('Failed to create deal');
+    }
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'deal', $2, 'created', $3)`,
+      [req.user!.sub, deal.id, `Created deal: ${deal.name}`]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mapDeal(deal),
+    });
+  })
+);
+
+// Update deal
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = updateDealSchema.parse(req.body);
+    await assertOwnerVisible('deals', id, await resolveVisibleRepIds(req.user!), 'Deal');
+
+    // Regenerate slug when the name changes
+    const slug = data.name
+      ? await uniqueSlug('deals', data.name, { excludeId: id, fallback: 'deal' })
+      : undefined;
+
+    const { setClause, params } = buildSetClause({ ...data, slug }, DEAL_COLUMNS);
+    if (!setClause) {
+      throw errors.badRequest('No fields to update');
+    }
+
+    const deals = await query<DBDeal>(
+      `UPDATE deals SET ${setClause}
+       WHERE id = $1 AND deleted_at IS NULL
+       RETURNING *`,
+      [id, ...params]
+    );
+
+    const deal = deals[0];
+    if (!deal) {
+      throw errors.notFound('Deal');
+    }
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'deal', $2, 'updated', $3)`,
+      [req.user!.sub, id, data.stage ? `Moved deal ${deal.name} to ${deal.stage}` : `Updated deal: ${deal.name}`]
+    );
+
+    res.json({
+      success: true,
+      data: mapDeal(deal),
+    });
+  })
+);
+
+// Mark deal won
+router.post(
+  '/:id/won',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const deal = await transitionDeal(
+      req,
+      req.params.id,
+      `UPDATE deals SET status = 'won', won_at = CURRENT_TIMESTAMP, lost_at = NULL, lost_reason = NULL
+       WHERE id = $1 AND deleted_at IS NULL
+       RETURNING *`,
+      [],
+      'won',
+      (d) => `Marked deal won: ${d.name}`
+    );
+
+    res.json({
+      success: true,
+      data: mapDeal(deal),
+    });
+  })
+);
+
+// Mark deal lost (reason required)
+router.post(
+  '/:id/lost',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { reason } = lostSchema.parse(req.body);
+
+    const deal = await transitionDeal(
+      req,
+      req.params.id,
+      `UPDATE deals SET status = 'lost', lost_at = CURRENT_TIMESTAMP, lost_reason = $2, won_at = NULL
+       WHERE id = $1 AND deleted_at IS NULL
+       RETURNING *`,
+      [reason],
+      'lost',
+      (d) => `Marked deal lost: ${d.name} (${reason})`
+    );
+
+    res.json({
+      success: true,
+      data: mapDeal(deal),
+    });
+  })
+);
+
+// Reopen a won/lost deal
+router.post(
+  '/:id/reopen',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const deal = await transitionDeal(
+      req,
+      req.params.id,
+      `UPDATE deals SET status = 'active', won_at = NULL, lost_at = NULL, lost_reason = NULL
+       WHERE id = $1 AND deleted_at IS NULL
+       RETURNING *`,
+      [],
+      'reopened',
+      (d) => `Reopened deal: ${d.name}`
+    );
+
+    res.json({
+      success: true,
+      data: mapDeal(deal),
+    });
+  })
+);
+
+// Soft delete deal (purged by the scheduler after the retention window)
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('sales:delete'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const deal = await transitionDeal(
+      req,
+      req.params.id,
+      `UPDATE deals SET deleted_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND deleted_at IS NULL
+       RETURNING *`,
+      [],
+      'deleted',
+      (d) => `Deleted deal: ${d.name}`
+    );
+
+    res.json({
+      success: true,
+      data: mapDeal(deal),
+    });
+  })
+);
+
+// Restore a soft-deleted deal
+router.post(
+  '/:id/restore',
+  authenticate,
+  requirePermission('sales:delete'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const deal = await transitionDeal(
+      req,
+      req.params.id,
+      `UPDATE deals SET deleted_at = NULL
+       WHERE id = $1 AND deleted_at IS NOT NULL
+       RETURNING *`,
+      [],
+      'restored',
+      (d) => `Restored deal: ${d.name}`
+    );
+
+    res.json({
+      success: true,
+      data: mapDeal(deal),
+    });
+  })
+);
+
+// Permanently delete a deal that is already in "Recently deleted"
+router.delete(
+  '/:id/permanent',
+  authenticate,
+  requirePermission('sales:delete'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertOwnerVisible('deals', id, await resolveVisibleRepIds(req.user!), 'Deal');
+
+    const deals = await query<Pick<DBDeal, 'name'>>(
+      'DELETE FROM deals WHERE id = $1 AND deleted_at IS NOT NULL RETURNING name',
+      [id]
+    );
+
+    const deal = deals[0];
+    if (!deal) {
+      throw errors.notFound('Deal');
+    }
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'deal', $2, 'purged', $3)`,
+      [req.user!.sub, id, `Permanently deleted deal: ${deal.name}`]
+    );
+
+    res.json({
+      success: true,
+      data: { message: 'Deal permanently deleted' },
+    });
+  })
+);
+
+export default router;
@@ -1,27 +1,77 @@
 import { Router, Response } from 'express';
 import { z } from 'zod';
-import { query } from '../config/database.js';
-import { authenticate, requirePermission } from '../middleware/auth.js';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, requirePermission, hasPermission } from '../middleware/auth.js';
 import { asyncHandler, errors } from '../middleware/errorHandler.js';
-import { AuthenticatedRequest, DBEstimate, ApiResponse } from '../types/index.js';
+import { getCompanyProfile, resolveLetterhead, renderDocumentPdf, sendPdf } from '../services/pdf.js';
+import {
+  revisionLabel,
+  revisionNumber,
+  contentOfRevision,
+  diffLineItems,
+  getWorkingCopy,
+  getRevisions,
+  getRevision,
+  getApprovalLinks,
+  recordSentRevision,
+  reconcileWorkingCopy,
+  revokeApprovalLink,
+  sendForApproval,
+  renderRevisionPdf,
+  RevisionContent,
+} from '../services/estimateRevisions.js';
+import { COST_TYPES, lineMargin, markupFor, summarizeMargin } from '../services/estimateMargins.js';
+import {
+  calculateTotals,
+  exemptionLabel,
+  mapDocumentTax,
+  resolveTax,
+  taxableLines,
+  taxJoins,
+  TAX_COLUMNS,
+} from '../services/tax.js';
+import {
+  AuthenticatedRequest,
+  DBEstimate,
+  DBEstimateLineItem,
+  DBEstimateRevision,
+  ApiResponse,
+} from '../types/index.js';
 
 const router = Router();
 
 // Validation schemas
+// Lines picked from the catalog carry its id, SKU and unit; the description
+// and price are the line's own copy. id is the saved line being resubmitted.
 const lineItemSchema = z.object({
+  id: z.string().uuid().optional(),
   description: z.string().min(1),
   quantity: z.number().positive().default(1),
   unitPrice: z.number().min(0),
+  catalogItemId: z.string().uuid().nullable().optional(),
+  sku: z.string().max(50).nullable().optional(),
+  unit: z.string().max(20).nullable().optional(),
+  unitCost: z.number().min(0).nullable().optional(),
+  markupPercent: z.number().min(-100).max(10000).nullable().optional(),
+  costType: z.enum(COST_TYPES).nullable().optional(),
+  taxable: z.boolean().default(true),
 });
 
+type LineItemInput = z.infer<typeof lineItemSchema>;
+
 const createEstimateSchema = z.object({
   clientId: z.string().uuid(),
   projectId: z.string().uuid().optional(),
   title: z.string().min(1).max(255),
   description: z.string().optional(),
   lineItems: z.array(lineItemSchema).min(1),
+  // Left out, the jurisdiction is found from the jobsite or client address;
+  // null taxes at the custom taxRate instead
+  taxJurisdictionId: z.string().uuid().nullable().optional(),
   taxRate: z.number().min(0).max(1).optional(),
   validUntil: z.string().optional(),
+  terms: z.string().optional(),
+  letterheadId: z.string().max(100).nullable().optional(),
 });
 
 const updateEstimateSchema = z.object({
@@ -29,8 +79,12 @@ const updateEstimateSchema = z.object({
   description: z.string().optional(),
   status: z.enum(['draft', 'sent', 'approved', 'rejected', 'expired']).optional(),
   lineItems: z.array(lineItemSchema).optional(),
+  taxJurisdictionId: z.string().uuid().nullable().optional(),
   taxRate: z.number().min(0).max(1).optional(),
   validUntil: z.string().optional(),
+  terms: z.string().optional(),
+  // null goes back to the company default letterhead
+  letterheadId: z.string().max(100).nullable().optional(),
 });
 
 // Generate estimate number
@@ -41,15 +95,110 @@ async function generateEstimateNumber(): Promise<string> {
   return `EST-${result[0].nextval}`;
 }
 
-// Calculate totals
-function calculateTotals(lineItems: Array<{ quantity: number; unitPrice: number }>, taxRate?: number) {
-  const subtotal = lineItems.reduce(
-    (sum, item) => sum + item.quantity * item.unitPrice,
-    0
-  );
-  const taxAmount = taxRate ? subtotal * taxRate : 0;
-  const total = subtotal + taxAmount;
-  return { subtotal, taxAmount, total };
+function formatRevision(revision: DBEstimateRevision & { created_by_name?: string | null }) {
+  const content = contentOfRevision(revision);
+  return {
+    id: revision.id,
+    revision: revision.revision,
+    label: revisionLabel(revision.revision),
+    ...content,
+    createdBy: revision.created_by,
+    createdByName: revision.created_by_name ?? null,
+    createdAt: revision.created_at,
+  };
+}
+
+// ?from= / ?to= name a revision by letter or number; 'current' is the working copy
+async function loadDiffSide(estimateId: string, ref: string): Promise<{ label: string; content: RevisionContent }> {
+  if (ref === 'current') {
+    return { label: 'Current', content: await getWorkingCopy(estimateId) };
+  }
+  const number = /^\d+$/.test(ref) ? parseInt(ref, 10) : revisionNumber(ref);
+  if (!number) {
+    throw errors.badRequest(`Unknown revision: ${ref}`);
+  }
+  const revision = await getRevision(estimateId, number);
+  return { label: `Rev ${revisionLabel(revision.revision)}`, content: contentOfRevision(revision) };
+}
+
+function mapLineItem(li: DBEstimateLineItem, showCosts: boolean) {
+  return {
+    id: li.id,
+    description: li.description,
+    quantity: parseFloat(String(li.quantity)),
+    unitPrice: parseFloat(String(li.unit_price)),
+    total: parseFloat(String(li.total)),
+    catalogItemId: li.catalog_item_id,
+    sku: li.sku,
+    unit: li.unit,
+    taxable: li.taxable,
+    costType: li.cost_type,
+    unitCost: showCosts && li.unit_cost !== null ? parseFloat(String(li.unit_cost)) : null,
+    markupPercent: showCosts && li.markup_percent !== null ? parseFloat(String(li.markup_percent)) : null,
+    margin: showCosts ? lineMargin(li) : null,
+  };
+}
+
+/**
+ * Replace an estimate's line items in one transaction, so a failed insert
+ * leaves the old lines in place. Editors without estimating:costs never
+ * see cost or markup, so their lines keep the cost already saved on the line
+ * they resubmit, or take the catalog item's cost for a newly picked item.
+ */
+async function saveLineItems(estimateId: string, items: LineItemInput[], canSeeCosts: boolean): Promise<void> {
+  await withTransaction(async (db) => {
+    // Serialize saves of the same estimate
+    await db.query('SELECT id FROM estimates WHERE id = $1 FOR UPDATE', [estimateId]);
+
+    let costs = items.map((item) => ({
+      unitCost: item.unitCost ?? null,
+      markupPercent: item.markupPercent ?? markupFor(item.unitPrice, item.unitCost ?? null),
+    }));
+
+    if (!canSeeCosts) {
+      const existing = (await db.query<DBEstimateLineItem>(
+        'SELECT * FROM estimate_line_items WHERE estimate_id = $1',
+        [estimateId]
+      )).rows;
+      const catalogIds = items.flatMap((item) => (item.catalogItemId ? [item.catalogItemId] : []));
+      const catalog = catalogIds.length > 0
+        ? (await db.query<{ id: string; unit_cost: string | null }>(
+            'SELECT id, unit_cost FROM catalog_items WHERE id = ANY($1)',
+            [catalogIds]
+          )).rows
+        : [];
+
+      costs = items.map((item) => {
+        const saved = existing.find((line) => line.id === item.id && line.unit_cost !== null);
+        if (saved) {
+          const unitCost = parseFloat(String(saved.unit_cost));
+          // A price change moves the markup; the cost stays
+          const priceChanged = parseFloat(String(saved.unit_price)) !== item.unitPrice;
+          return {
+            unitCost,
+            markupPercent: priceChanged ? markupFor(item.unitPrice, unitCost) : saved.markup_percent,
+          };
+        }
+        const catalogCost = catalog.find((c) => c.id === item.catalogItemId)?.unit_cost;
+        const unitCost = catalogCost != null ? parseFloat(catalogCost) : null;
+        return { unitCost, markupPercent: markupFor(item.unitPrice, unitCost) };
+      });
+    }
+
+    await db.query('DELETE FROM estimate_line_items WHERE estimate_id = $1', [estimateId]);
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      await db.query(
+        `INSERT INTO estimate_line_items (estimate_id, description, quantity, unit_price, total, sort_order,
+                                          catalog_item_id, sku, unit, unit_cost, markup_percent, cost_type, taxable)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+        [estimateId, item.description, item.quantity, item.unitPrice, item.quantity * item.unitPrice, i,
+         item.catalogItemId ?? null, item.sku ?? null, item.unit ?? null,
+         costs[i].unitCost, costs[i].markupPercent, item.costType ?? null, item.taxable]
+      );
+    }
+  });
 }
 
 // List all estimates
@@ -58,7 +207,7 @@ router.get(
   authenticate,
   requirePermission('estimating:view'),
   asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
-    const { status, clientId, search, page = '1', limit = '50' } = req.query;
+    const { status, clientId, projectId, search, page = '1', limit = '50' } = req.query;
 
     let whereClause = 'WHERE 1=1';
     const params: any[] = [];
@@ -76,6 +225,12 @@ router.get(
       paramIndex++;
     }
 
+    if (projectId) {
+      whereClause += ` AND e.project_id = $${paramIndex}`;
+      params.push(projectId);
+      paramIndex++;
+    }
+
     if (search) {
       whereClause += ` AND (e.estimate_number ILIKE $${paramIndex} OR e.title ILIKE $${paramIndex})`;
       params.push(`%${search}%`);
@@ -91,10 +246,12 @@ router.get(
     const total = parseInt(countResult[0].count);
 
     const estimates = await query<any>(
-      `SELECT e.*, c.company_name as client_name, u.name as created_by_name
+      `SELECT e.*, c.name as client_name, u.name as created_by_name, ${TAX_COLUMNS},
+              (SELECT s.id FROM schedules_of_values s WHERE s.estimate_id = e.id) as schedule_of_values_id
        FROM estimates e
-       LEFT JOIN clients c ON e.client_id = c.id
+       LEFT JOIN companies c ON e.client_id = c.id
        LEFT JOIN users u ON e.created_by = u.id
+       ${taxJoins('e')}
        ${whereClause}
        ORDER BY e.created_at DESC
        LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
@@ -114,8 +271,12 @@ router.get(
         subtotal: parseFloat(e.subtotal),
         taxRate: e.tax_rate ? parseFloat(e.tax_rate) : null,
         taxAmount: parseFloat(e.tax_amount),
+        ...mapDocumentTax(e),
         total: parseFloat(e.total),
         validUntil: e.valid_until,
+        terms: e.terms,
+        letterheadId: e.letterhead_id,
+        scheduleOfValuesId: e.schedule_of_values_id,
         createdBy: e.created_by,
         createdByName: e.created_by_name,
         createdAt: e.created_at,
@@ -139,12 +300,17 @@ router.get(
     const { id } = req.params;
 
     const estimates = await query<any>(
-      `SELECT e.*, c.company_name as client_name, c.email as client_email,
-              p.name as project_name, u.name as created_by_name
+      `SELECT e.*, c.name as client_name,
+              (SELECT ct.email FROM contacts ct
+               WHERE ct.company_id = c.id AND ct.email IS NOT NULL
+               ORDER BY ct.created_at LIMIT 1) as client_email,
+              p.name as project_name, u.name as created_by_name, ${TAX_COLUMNS},
+              (SELECT s.id FROM schedules_of_values s WHERE s.estimate_id = e.id) as schedule_of_values_id
        FROM estimates e
-       LEFT JOIN clients c ON e.client_id = c.id
+       LEFT JOIN companies c ON e.client_id = c.id
        LEFT JOIN projects p ON e.project_id = p.id
        LEFT JOIN users u ON e.created_by = u.id
+       ${taxJoins('e')}
        WHERE e.id = $1`,
       [id]
     );
@@ -154,9 +320,10 @@ router.get(
     }
 
     const estimate = estimates[0];
+    const showCosts = hasPermission(req.user!, 'estimating:costs');
 
     // Get line items
-    const lineItems = await query<any>(
+    const lineItems = await query<DBEstimateLineItem>(
       'SELECT * FROM estimate_line_items WHERE estimate_id = $1 ORDER BY sort_order',
       [id]
     );
@@ -177,24 +344,236 @@ router.get(
         subtotal: parseFloat(estimate.subtotal),
         taxRate: estimate.tax_rate ? parseFloat(estimate.tax_rate) : null,
         taxAmount: parseFloat(estimate.tax_amount),
+        ...mapDocumentTax(estimate),
         total: parseFloat(estimate.total),
         validUntil: estimate.valid_until,
+        terms: estimate.terms,
+        letterheadId: estimate.letterhead_id,
+        // Set when the estimate is billed by pay application
+        scheduleOfValuesId: estimate.schedule_of_values_id,
         createdBy: estimate.created_by,
         createdByName: estimate.created_by_name,
         createdAt: estimate.created_at,
         updatedAt: estimate.updated_at,
+        lineItems: lineItems.map((li) => mapLineItem(li, showCosts)),
+        // Gross margin; null for users without estimating:costs
+        margin: showCosts ? summarizeMargin(lineItems) : null,
+      },
+    });
+  })
+);
+
+// Render an estimate as PDF. ?letterheadId= previews another template
+// ('none' for plain paper) without changing the estimate's choice.
+router.get(
+  '/:id/pdf',
+  authenticate,
+  requirePermission('estimating:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    const estimates = await query<any>(
+      `SELECT e.*, c.name as client_name,
+              ca.street as client_street, ca.suite as client_suite, ca.city as client_city,
+              ca.state as client_state, ca.zip as client_zip,
+              p.name as project_name, ${TAX_COLUMNS}
+       FROM estimates e
+       LEFT JOIN companies c ON e.client_id = c.id
+       LEFT JOIN company_addresses ca ON ca.company_id = c.id AND ca.is_main
+       LEFT JOIN projects p ON e.project_id = p.id
+       ${taxJoins('e')}
+       WHERE e.id = $1`,
+      [id]
+    );
+
+    if (estimates.length === 0) {
+      throw errors.notFound('Estimate');
+    }
+
+    const estimate = estimates[0];
+    const lineItems = await query<any>(
+      'SELECT * FROM estimate_line_items WHERE estimate_id = $1 ORDER BY sort_order',
+      [id]
+    );
+
+    const company = await getCompanyProfile();
+    const requested = typeof req.query.letterheadId === 'string' ? req.query.letterheadId : undefined;
+    const letterhead = await resolveLetterhead(company, requested ?? estimate.letterhead_id);
+
+    const pdf = await renderDocumentPdf(
+      {
+        kind: 'estimate',
+        number: estimate.estimate_number,
+        title: estimate.title,
+        description: estimate.description,
+        client: {
+          name: estimate.client_name || '',
+          street: estimate.client_street,
+          suite: estimate.client_suite,
+          city: estimate.client_city,
+          state: estimate.client_state,
+          zip: estimate.client_zip,
+        },
+        projectName: estimate.project_name,
+        dates: [
+          ['Date', estimate.created_at],
+          ['Valid Until', estimate.valid_until],
+        ],
         lineItems: lineItems.map((li: any) => ({
-          id: li.id,
           description: li.description,
           quantity: parseFloat(li.quantity),
           unitPrice: parseFloat(li.unit_price),
           total: parseFloat(li.total),
         })),
+        subtotal: parseFloat(estimate.subtotal),
+        taxRate: estimate.tax_rate ? parseFloat(estimate.tax_rate) : null,
+        taxAmount: parseFloat(estimate.tax_amount),
+        taxBreakdown: mapDocumentTax(estimate).taxBreakdown,
+        taxExemption: exemptionLabel(estimate),
+        total: parseFloat(estimate.total),
+        terms: estimate.terms,
+        updatedAt: estimate.updated_at,
+      },
+      company,
+      letterhead
+    );
+
+    sendPdf(res, pdf, `${estimate.estimate_number}.pdf`);
+  })
+);
+
+// Revisions sent to the client, oldest first, with the approval links issued for them
+router.get(
+  '/:id/revisions',
+  authenticate,
+  requirePermission('estimating:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const estimates = await query<DBEstimate>('SELECT * FROM estimates WHERE id = $1', [id]);
+    if (estimates.length === 0) {
+      throw errors.notFound('Estimate');
+    }
+    const estimate = estimates[0];
+
+    const [revisions, links] = await Promise.all([getRevisions(id), getApprovalLinks(id)]);
+    const labels = new Map(revisions.map((r) => [r.id, revisionLabel(r.revision)]));
+
+    res.json({
+      success: true,
+      data: {
+        sentRevisionId: estimate.sent_revision_id ?? null,
+        approvedRevisionId: estimate.approved_revision_id ?? null,
+        revisions: revisions.map(formatRevision),
+        approvalLinks: links.map((link) => ({
+          id: link.id,
+          revisionId: link.revision_id,
+          revisionLabel: labels.get(link.revision_id) ?? null,
+          status: link.status,
+          expiresAt: link.expires_at,
+          firstViewedAt: link.first_viewed_at,
+          signatureName: link.signature_name,
+          decisionNote: link.decision_note,
+          decidedAt: link.decided_at,
+          decidedIp: link.decided_ip,
+          createdAt: link.created_at,
+        })),
       },
     });
   })
 );
 
+// Line item changes between two revisions (?from=A&to=B, or to=current)
+router.get(
+  '/:id/revisions/diff',
+  authenticate,
+  requirePermission('estimating:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const { from, to = 'current' } = req.query;
+
+    if (typeof from !== 'string' || typeof to !== 'string') {
+      throw errors.badRequest('from and to are required');
+    }
+
+    const before = await loadDiffSide(id, from);
+    const after = await loadDiffSide(id, to);
+
+    res.json({
+      success: true,
+      data: {
+        from: before.label,
+        to: after.label,
+        lineItems: diffLineItems(before.content.lineItems, after.content.lineItems),
+        totals: {
+          before: { subtotal: before.content.subtotal, taxAmount: before.content.taxAmount, total: before.content.total },
+          after: { subtotal: after.content.subtotal, taxAmount: after.content.taxAmount, total: after.content.total },
+        },
+      },
+    });
+  })
+);
+
+// A revision exactly as it was sent
+router.get(
+  '/:id/revisions/:revision/pdf',
+  authenticate,
+  requirePermission('estimating:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const number = revisionNumber(req.params.revision) ?? parseInt(req.params.revision, 10);
+
+    const estimates = await query<DBEstimate>('SELECT * FROM estimates WHERE id = $1', [id]);
+    if (estimates.length === 0) {
+      throw errors.notFound('Estimate');
+    }
+
+    const revision = await getRevision(id, number);
+    const pdf = await renderRevisionPdf(estimates[0], revision);
+    sendPdf(res, pdf, `${estimates[0].estimate_number}-rev-${revisionLabel(revision.revision)}.pdf`);
+  })
+);
+
+// Send for approval: snapshot the next revision and issue a client link.
+// The token is only returned here.
+router.post(
+  '/:id/send',
+  authenticate,
+  requirePermission('estimating:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const { estimate, revision, created, link, token } = await sendForApproval(id, req.user!.sub);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        estimateId: estimate.id,
+        status: estimate.status,
+        revision: formatRevision(revision),
+        newRevision: created,
+        linkId: link.id,
+        token,
+        expiresAt: link.expires_at,
+      },
+    });
+  })
+);
+
+router.post(
+  '/:id/approval-links/:linkId/revoke',
+  authenticate,
+  requirePermission('estimating:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    await revokeApprovalLink(req.params.id, req.params.linkId, req.user!.sub);
+
+    res.json({
+      success: true,
+      data: { message: 'Approval link revoked' },
+    });
+  })
+);
+
 // Create estimate
 router.post(
   '/',
@@ -203,12 +582,19 @@ router.post(
   asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
     const data = createEstimateSchema.parse(req.body);
     const estimateNumber = await generateEstimateNumber();
-    const { subtotal, taxAmount, total } = calculateTotals(data.lineItems, data.taxRate);
+    const tax = await resolveTax({
+      clientId: data.clientId,
+      projectId: data.projectId,
+      jurisdictionId: data.taxJurisdictionId,
+      taxRate: data.taxRate,
+    });
+    const totals = calculateTotals(data.lineItems, tax.rates, !!tax.exemption);
 
     // Create estimate
     const estimates = await query<DBEstimate>(
-      `INSERT INTO estimates (estimate_number, client_id, project_id, title, description, status, subtotal, tax_rate, tax_amount, total, valid_until, created_by)
-       VALUES ($1, $2, $3, $4, $5, 'draft', $6, $7, $8, $9, $10, $11)
+      `INSERT INTO estimates (estimate_number, client_id, project_id, title, description, status, subtotal, tax_rate, tax_amount, total,
+                              tax_jurisdiction_id, tax_exemption_id, taxable_subtotal, tax_breakdown, valid_until, terms, letterhead_id, created_by)
+       VALUES ($1, $2, $3, $4, $5, 'draft', $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
        RETURNING *`,
       [
         estimateNumber,
@@ -216,11 +602,17 @@ router.post(
         data.projectId,
         data.title,
         data.description,
-        subtotal,
-        data.taxRate,
-        taxAmount,
-        total,
+        totals.subtotal,
+        totals.taxRate,
+        totals.taxAmount,
+        totals.total,
+        tax.jurisdiction?.id ?? null,
+        tax.exemption?.id ?? null,
+        totals.taxableSubtotal,
+        JSON.stringify(totals.taxBreakdown),
         data.validUntil,
+        data.terms,
+        data.letterheadId,
         req.user!.sub,
       ]
     );
@@ -228,14 +620,7 @@ router.post(
     const estimate = estimates[0];
 
     // Create line items
-    for (let i = 0; i < data.lineItems.length; i++) {
-      const item = data.lineItems[i];
-      await query(
-        `INSERT INTO estimate_line_items (estimate_id, description, quantity, unit_price, total, sort_order)
-         VALUES ($1, $2, $3, $4, $5, $6)`,
-        [estimate.id, item.description, item.quantity, item.unitPrice, item.quantity * item.unitPrice, i]
-      );
-    }
+    await saveLineItems(estimate.id, data.lineItems, hasPermission(req.user!, 'estimating:costs'));
 
     // Log activity
     await query(
@@ -287,26 +672,27 @@ router.patch(
 
     // Update line items if provided
     if (data.lineItems) {
-      // Delete existing line items
-      await query('DELETE FROM estimate_line_items WHERE estimate_id = $1', [id]);
-
-      // Insert new line items
-      for (let i = 0; i < data.lineItems.length; i++) {
-        const item = data.lineItems[i];
-        await query(
-          `INSERT INTO estimate_line_items (estimate_id, description, quantity, unit_price, total, sort_order)
-           VALUES ($1, $2, $3, $4, $5, $6)`,
-          [id, item.description, item.quantity, item.unitPrice, item.quantity * item.unitPrice, i]
-        );
-      }
+      await saveLineItems(id, data.lineItems, hasPermission(req.user!, 'estimating:costs'));
+    }
 
-      // Recalculate totals
-      const taxRate = data.taxRate ?? (existing[0].tax_rate ? parseFloat(String(existing[0].tax_rate)) : undefined);
-      const { subtotal, taxAmount, total } = calculateTotals(data.lineItems, taxRate);
+    // Recalculate totals when the lines or the tax change
+    if (data.lineItems || data.taxRate !== undefined || data.taxJurisdictionId !== undefined) {
+      const current = existing[0];
+      const lines = await query<DBEstimateLineItem>('SELECT * FROM estimate_line_items WHERE estimate_id = $1', [id]);
+      const tax = await resolveTax({
+        clientId: current.client_id,
+        projectId: current.project_id,
+        jurisdictionId: data.taxJurisdictionId !== undefined ? data.taxJurisdictionId : current.tax_jurisdiction_id,
+        taxRate: data.taxRate ?? (current.tax_rate ? parseFloat(String(current.tax_rate)) : null),
+      });
+      const totals = calculateTotals(taxableLines(lines), tax.rates, !!tax.exemption);
 
       await query(
-        `UPDATE estimates SET subtotal = $2, tax_rate = $3, tax_amount = $4, total = $5 WHERE id = $1`,
-        [id, subtotal, taxRate, taxAmount, total]
+        `UPDATE estimates SET subtotal = $2, tax_rate = $3, tax_amount = $4, total = $5,
+           tax_jurisdiction_id = $6, tax_exemption_id = $7, taxable_subtotal = $8, tax_breakdown = $9
+         WHERE id = $1`,
+        [id, totals.subtotal, totals.taxRate, totals.taxAmount, totals.total,
+         tax.jurisdiction?.id ?? null, tax.exemption?.id ?? null, totals.taxableSubtotal, JSON.stringify(totals.taxBreakdown)]
       );
     }
 
@@ -316,14 +702,30 @@ router.patch(
          title = COALESCE($2, title),
          description = COALESCE($3, description),
          status = COALESCE($4, status),
-         tax_rate = COALESCE($5, tax_rate),
-         valid_until = COALESCE($6, valid_until)
+         valid_until = COALESCE($5, valid_until),
+         terms = COALESCE($6, terms),
+         letterhead_id = CASE WHEN $7 THEN $8 ELSE letterhead_id END,
+         -- Approving by hand approves what the client was sent
+         approved_revision_id = CASE
+           WHEN $4 = 'approved' THEN CASE WHEN status = 'sent' THEN sent_revision_id END
+           WHEN $4 IS NOT NULL THEN NULL
+           ELSE approved_revision_id
+         END
        WHERE id = $1
        RETURNING *`,
-      [id, data.title, data.description, data.status, data.taxRate, data.validUntil]
+      [
+        id,
+        data.title,
+        data.description,
+        data.status,
+        data.validUntil,
+        data.terms,
+        data.letterheadId !== undefined,
+        data.letterheadId ?? null,
+      ]
     );
 
-    const estimate = estimates[0];
+    let estimate = estimates[0];
 
     // Log activity
     await query(
@@ -332,6 +734,13 @@ router.patch(
       [req.user!.sub, id, `Updated estimate: ${estimate.estimate_number}`]
     );
 
+    // Marking it sent records what was sent; changing what was sent takes it back to draft
+    if (data.status === 'sent') {
+      estimate = (await withTransaction((db) => recordSentRevision(db, id, req.user!.sub))).estimate;
+    } else if (!data.status && (await reconcileWorkingCopy(id, req.user!.sub))) {
+      estimate = (await query<DBEstimate>('SELECT * FROM estimates WHERE id = $1', [id]))[0];
+    }
+
     res.json({
       success: true,
       data: {
@@ -401,6 +810,28 @@ router.post(
       throw errors.badRequest('Only approved estimates can be converted to invoices');
     }
 
+    const schedules = await query('SELECT 1 FROM schedules_of_values WHERE estimate_id = $1', [id]);
+    if (schedules.length > 0) {
+      throw errors.badRequest('This estimate is billed by pay application');
+    }
+
+    // Bill what the client approved, not later edits to the working copy
+    const approved = estimate.approved_revision_id
+      ? (await query<DBEstimateRevision>('SELECT * FROM estimate_revisions WHERE id = $1', [estimate.approved_revision_id]))[0]
+      : undefined;
+    const billed = approved
+      ? {
+          subtotal: approved.subtotal,
+          tax_rate: approved.tax_rate,
+          tax_amount: approved.tax_amount,
+          taxable_subtotal: calculateTotals(approved.line_items, []).taxableSubtotal,
+          tax_breakdown: approved.tax_breakdown,
+          total: approved.total,
+          terms: approved.terms,
+          letterhead_id: approved.letterhead_id,
+        }
+      : estimate;
+
     // Generate invoice number
     const invoiceNumResult = await query<{ nextval: string }>(
       "SELECT nextval('invoice_number_seq')"
@@ -409,18 +840,25 @@ router.post(
 
     // Create invoice
     const invoices = await query<any>(
-      `INSERT INTO invoices (invoice_number, client_id, project_id, estimate_id, status, due_date, subtotal, tax_rate, tax_amount, total, created_by)
-       VALUES ($1, $2, $3, $4, 'draft', CURRENT_DATE + INTERVAL '30 days', $5, $6, $7, $8, $9)
+      `INSERT INTO invoices (invoice_number, client_id, project_id, estimate_id, status, due_date, subtotal, tax_rate, tax_amount, total,
+                             tax_jurisdiction_id, tax_exemption_id, taxable_subtotal, tax_breakdown, terms, letterhead_id, created_by)
+       VALUES ($1, $2, $3, $4, 'draft', CURRENT_DATE + INTERVAL '30 days', $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
        RETURNING *`,
       [
         invoiceNumber,
         estimate.client_id,
         estimate.project_id,
         estimate.id,
-        estimate.subtotal,
-        estimate.tax_rate,
-        estimate.tax_amount,
-        estimate.total,
+        billed.subtotal,
+        billed.tax_rate,
+        billed.tax_amount,
+        billed.total,
+        estimate.tax_jurisdiction_id,
+        estimate.tax_exemption_id,
+        billed.taxable_subtotal,
+        billed.tax_breakdown ? JSON.stringify(billed.tax_breakdown) : null,
+        billed.terms,
+        billed.letterhead_id,
         req.user!.sub,
       ]
     );
@@ -428,16 +866,25 @@ router.post(
     const invoice = invoices[0];
 
     // Copy line items
-    const lineItems = await query<any>(
-      'SELECT * FROM estimate_line_items WHERE estimate_id = $1',
-      [id]
-    );
+    const lineItems = approved
+      ? approved.line_items.map((li, i) => ({
+          description: li.description,
+          quantity: li.quantity,
+          unit_price: li.unitPrice,
+          total: li.total,
+          taxable: li.taxable ?? true,
+          sort_order: i,
+        }))
+      : await query<any>(
+          'SELECT * FROM estimate_line_items WHERE estimate_id = $1',
+          [id]
+        );
 
     for (const item of lineItems) {
       await query(
-        `INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, total, sort_order)
-         VALUES ($1, $2, $3, $4, $5, $6)`,
-        [invoice.id, item.description, item.quantity, item.unit_price, item.total, item.sort_order]
+        `INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, total, taxable, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [invoice.id, item.description, item.quantity, item.unit_price, item.total, item.taxable, item.sort_order]
       );
     }
 
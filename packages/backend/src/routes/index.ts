@@ -1,24 +1,59 @@
 import { Router } from 'express';
 import authRoutes from './auth.js';
 import userRoutes from './users.js';
-import clientRoutes from './clients.js';
+import roleRoutes from './roles.js';
+import companyRoutes from './companies.js';
+import contactRoutes from './contacts.js';
+import leadRoutes from './leads.js';
+import dealRoutes from './deals.js';
+import taskRoutes from './tasks.js';
+import mailRoutes from './mail.js';
 import projectRoutes from './projects.js';
+import jobCostingRoutes from './jobCosting.js';
+import timeTrackingRoutes from './timeTracking.js';
+import changeOrderRoutes from './changeOrders.js';
 import estimateRoutes from './estimates.js';
+import publicEstimateRoutes from './publicEstimates.js';
+import catalogRoutes from './catalog.js';
 import invoiceRoutes from './invoices.js';
+import progressBillingRoutes from './progressBilling.js';
+import taxRoutes from './tax.js';
 import dashboardRoutes from './dashboard.js';
+import reportRoutes from './reports.js';
+import accountingExportRoutes from './accountingExports.js';
 import aiRoutes from './ai.js';
+import settingsRoutes from './settings.js';
 
 const router = Router();
 
 // Mount routes
 router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
-router.use('/clients', clientRoutes);
+router.use('/roles', roleRoutes);
+router.use('/companies', companyRoutes);
+router.use('/contacts', contactRoutes);
+// Legacy alias - the flat clients API was replaced by companies
+router.use('/clients', companyRoutes);
+router.use('/leads', leadRoutes);
+router.use('/deals', dealRoutes);
+router.use('/tasks', taskRoutes);
+router.use('/mail', mailRoutes);
 router.use('/projects', projectRoutes);
+router.use('/job-costing', jobCostingRoutes);
+router.use('/time', timeTrackingRoutes);
+router.use('/change-orders', changeOrderRoutes);
 router.use('/estimates', estimateRoutes);
+// Client approval links - no login
+router.use('/public/estimates', publicEstimateRoutes);
+router.use('/catalog', catalogRoutes);
 router.use('/invoices', invoiceRoutes);
+router.use('/progress-billing', progressBillingRoutes);
+router.use('/tax', taxRoutes);
 router.use('/dashboard', dashboardRoutes);
+router.use('/reports', reportRoutes);
+router.use('/accounting/exports', accountingExportRoutes);
 router.use('/ai', aiRoutes);
+router.use('/settings', settingsRoutes);
 
 // Health check
 router.get('/health', (req, res) => {
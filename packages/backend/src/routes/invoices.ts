@@ -1,9 +1,30 @@
 import { Router, Response } from 'express';
 import { z } from 'zod';
-import { query } from '../config/database.js';
+import { query, withTransaction } from '../config/database.js';
 import { authenticate, requirePermission } from '../middleware/auth.js';
 import { asyncHandler, errors } from '../middleware/errorHandler.js';
-import { AuthenticatedRequest, DBInvoice, ApiResponse } from '../types/index.js';
+import { getCompanyProfile, resolveLetterhead, renderDocumentPdf, sendPdf } from '../services/pdf.js';
+import {
+  PAYMENT_METHODS,
+  recordPayment,
+  applyClientCredit,
+  voidPayment,
+  getBalanceDue,
+  getClientCredit,
+} from '../services/payments.js';
+import { assertNotExported } from '../services/accountingExport.js';
+import {
+  calculateTotals,
+  exemptionLabel,
+  mapDocumentTax,
+  resolveTax,
+  taxableLines,
+  taxJoins,
+  TAX_COLUMNS,
+} from '../services/tax.js';
+import { getSendableReminders, sendReminder } from '../jobs/invoiceDunning.js';
+import { isSmtpConfigured } from '../services/mail.js';
+import { AuthenticatedRequest, DBInvoice, DBPayment, DBInvoiceReminder, ApiResponse } from '../types/index.js';
 
 const router = Router();
 
@@ -12,26 +33,103 @@ const lineItemSchema = z.object({
   description: z.string().min(1),
   quantity: z.number().positive().default(1),
   unitPrice: z.number().min(0),
+  // Picks the revenue account in accounting exports
+  category: z.string().trim().max(100).optional(),
+  taxable: z.boolean().default(true),
+  // Compares billing with cost per cost code in job costing
+  costCodeId: z.string().uuid().nullable().optional(),
 });
 
 const createInvoiceSchema = z.object({
   clientId: z.string().uuid(),
   projectId: z.string().uuid().optional(),
   lineItems: z.array(lineItemSchema).min(1),
+  // Left out, the jurisdiction is found from the jobsite or client address;
+  // null taxes at the custom taxRate instead
+  taxJurisdictionId: z.string().uuid().nullable().optional(),
   taxRate: z.number().min(0).max(1).optional(),
   dueDate: z.string(),
   notes: z.string().optional(),
+  terms: z.string().optional(),
+  letterheadId: z.string().max(100).nullable().optional(),
 });
 
+// paid and partially_paid follow from recorded payments
 const updateInvoiceSchema = z.object({
-  status: z.enum(['draft', 'sent', 'paid', 'overdue', 'cancelled']).optional(),
+  status: z.enum(['draft', 'sent', 'overdue', 'cancelled']).optional(),
   lineItems: z.array(lineItemSchema).optional(),
+  taxJurisdictionId: z.string().uuid().nullable().optional(),
   taxRate: z.number().min(0).max(1).optional(),
   dueDate: z.string().optional(),
   notes: z.string().optional(),
+  terms: z.string().optional(),
+  // null goes back to the company default letterhead
+  letterheadId: z.string().max(100).nullable().optional(),
+});
+
+const paymentMethodSchema = z.enum(PAYMENT_METHODS).exclude(['credit']);
+
+const recordPaymentSchema = z.object({
+  amount: z.number().positive(),
+  method: paymentMethodSchema,
+  reference: z.string().max(100).optional(),
+  paymentDate: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const applyCreditSchema = z.object({
+  amount: z.number().positive().optional(),
+});
+
+// Settle the remaining balance in one payment
+const markPaidSchema = z.object({
   paidDate: z.string().optional(),
+  method: paymentMethodSchema.default('other'),
+  reference: z.string().max(100).optional(),
 });
 
+// Amount paid so far, from the payments ledger (invoice alias i)
+const AMOUNT_PAID_SELECT =
+  'COALESCE((SELECT SUM(pay.amount) FROM payments pay WHERE pay.invoice_id = i.id), 0) as amount_paid';
+
+// Helper to map a payment to API response
+function mapPayment(p: DBPayment & { recorded_by_name?: string }) {
+  return {
+    id: p.id,
+    invoiceId: p.invoice_id,
+    amount: parseFloat(String(p.amount)),
+    overpayment: parseFloat(String(p.overpayment)),
+    method: p.method,
+    reference: p.reference,
+    paymentDate: p.payment_date,
+    notes: p.notes,
+    recordedBy: p.recorded_by,
+    recordedByName: p.recorded_by_name,
+    createdAt: p.created_at,
+  };
+}
+
+const pauseRemindersSchema = z.object({
+  paused: z.boolean(),
+});
+
+// Helper to map a dunning reminder to API response
+function mapReminder(r: DBInvoiceReminder & { sent_by_name?: string }) {
+  return {
+    id: r.id,
+    stepDays: r.step_days,
+    level: r.level,
+    status: r.status,
+    recipient: r.recipient,
+    subject: r.subject,
+    body: r.body,
+    error: r.error,
+    sentAt: r.sent_at,
+    sentByName: r.sent_by_name,
+    createdAt: r.created_at,
+  };
+}
+
 // Generate invoice number
 async function generateInvoiceNumber(): Promise<string> {
   const result = await query<{ nextval: string }>(
@@ -40,24 +138,13 @@ async function generateInvoiceNumber(): Promise<string> {
   return `INV-${result[0].nextval}`;
 }
 
-// Calculate totals
-function calculateTotals(lineItems: Array<{ quantity: number; unitPrice: number }>, taxRate?: number) {
-  const subtotal = lineItems.reduce(
-    (sum, item) => sum + item.quantity * item.unitPrice,
-    0
-  );
-  const taxAmount = taxRate ? subtotal * taxRate : 0;
-  const total = subtotal + taxAmount;
-  return { subtotal, taxAmount, total };
-}
-
 // List all invoices
 router.get(
   '/',
   authenticate,
   requirePermission('accounting:view'),
   asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
-    const { status, clientId, search, page = '1', limit = '50' } = req.query;
+    const { status, clientId, projectId, search, page = '1', limit = '50' } = req.query;
 
     let whereClause = 'WHERE 1=1';
     const params: any[] = [];
@@ -75,6 +162,12 @@ router.get(
       paramIndex++;
     }
 
+    if (projectId) {
+      whereClause += ` AND i.project_id = $${paramIndex}`;
+      params.push(projectId);
+      paramIndex++;
+    }
+
     if (search) {
       whereClause += ` AND (i.invoice_number ILIKE $${paramIndex})`;
       params.push(`%${search}%`);
@@ -90,10 +183,11 @@ router.get(
     const total = parseInt(countResult[0].count);
 
     const invoices = await query<any>(
-      `SELECT i.*, c.company_name as client_name, u.name as created_by_name
+      `SELECT i.*, c.name as client_name, u.name as created_by_name, ${AMOUNT_PAID_SELECT}, ${TAX_COLUMNS}
        FROM invoices i
-       LEFT JOIN clients c ON i.client_id = c.id
+       LEFT JOIN companies c ON i.client_id = c.id
        LEFT JOIN users u ON i.created_by = u.id
+       ${taxJoins('i')}
        ${whereClause}
        ORDER BY i.created_at DESC
        LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
@@ -115,7 +209,14 @@ router.get(
         subtotal: parseFloat(inv.subtotal),
         taxRate: inv.tax_rate ? parseFloat(inv.tax_rate) : null,
         taxAmount: parseFloat(inv.tax_amount),
+        ...mapDocumentTax(inv),
         total: parseFloat(inv.total),
+        amountPaid: parseFloat(inv.amount_paid),
+        balanceDue: Math.round((parseFloat(inv.total) - parseFloat(inv.amount_paid)) * 100) / 100,
+        notes: inv.notes,
+        terms: inv.terms,
+        letterheadId: inv.letterhead_id,
+        remindersPaused: inv.reminders_paused,
         createdBy: inv.created_by,
         createdByName: inv.created_by_name,
         createdAt: inv.created_at,
@@ -139,14 +240,19 @@ router.get(
     const { id } = req.params;
 
     const invoices = await query<any>(
-      `SELECT i.*, c.company_name as client_name, c.email as client_email,
-              c.address as client_address, c.city as client_city, 
-              c.state as client_state, c.zip as client_zip,
-              p.name as project_name, u.name as created_by_name
+      `SELECT i.*, c.name as client_name,
+              (SELECT ct.email FROM contacts ct
+               WHERE ct.company_id = c.id AND ct.email IS NOT NULL
+               ORDER BY ct.created_at LIMIT 1) as client_email,
+              ca.street as client_address, ca.city as client_city,
+              ca.state as client_state, ca.zip as client_zip,
+              p.name as project_name, u.name as created_by_name, ${AMOUNT_PAID_SELECT}, ${TAX_COLUMNS}
        FROM invoices i
-       LEFT JOIN clients c ON i.client_id = c.id
+       LEFT JOIN companies c ON i.client_id = c.id
+       LEFT JOIN company_addresses ca ON ca.company_id = c.id AND ca.is_main
        LEFT JOIN projects p ON i.project_id = p.id
        LEFT JOIN users u ON i.created_by = u.id
+       ${taxJoins('i')}
        WHERE i.id = $1`,
       [id]
     );
@@ -185,8 +291,14 @@ router.get(
         subtotal: parseFloat(invoice.subtotal),
         taxRate: invoice.tax_rate ? parseFloat(invoice.tax_rate) : null,
         taxAmount: parseFloat(invoice.tax_amount),
+        ...mapDocumentTax(invoice),
         total: parseFloat(invoice.total),
+        amountPaid: parseFloat(invoice.amount_paid),
+        balanceDue: Math.round((parseFloat(invoice.total) - parseFloat(invoice.amount_paid)) * 100) / 100,
         notes: invoice.notes,
+        terms: invoice.terms,
+        letterheadId: invoice.letterhead_id,
+        remindersPaused: invoice.reminders_paused,
         createdBy: invoice.created_by,
         createdByName: invoice.created_by_name,
         createdAt: invoice.created_at,
@@ -197,12 +309,95 @@ router.get(
           quantity: parseFloat(li.quantity),
           unitPrice: parseFloat(li.unit_price),
           total: parseFloat(li.total),
+          category: li.category,
+          taxable: li.taxable,
+          costCodeId: li.cost_code_id,
         })),
       },
     });
   })
 );
 
+// Render an invoice as PDF. ?letterheadId= previews another template
+// ('none' for plain paper) without changing the invoice's choice.
+router.get(
+  '/:id/pdf',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    const invoices = await query<any>(
+      `SELECT i.*, c.name as client_name,
+              ca.street as client_street, ca.suite as client_suite, ca.city as client_city,
+              ca.state as client_state, ca.zip as client_zip,
+              p.name as project_name, ${TAX_COLUMNS}
+       FROM invoices i
+       LEFT JOIN companies c ON i.client_id = c.id
+       LEFT JOIN company_addresses ca ON ca.company_id = c.id AND ca.is_main
+       LEFT JOIN projects p ON i.project_id = p.id
+       ${taxJoins('i')}
+       WHERE i.id = $1`,
+      [id]
+    );
+
+    if (invoices.length === 0) {
+      throw errors.notFound('Invoice');
+    }
+
+    const invoice = invoices[0];
+    const lineItems = await query<any>(
+      'SELECT * FROM invoice_line_items WHERE invoice_id = $1 ORDER BY sort_order',
+      [id]
+    );
+
+    const company = await getCompanyProfile();
+    const requested = typeof req.query.letterheadId === 'string' ? req.query.letterheadId : undefined;
+    const letterhead = await resolveLetterhead(company, requested ?? invoice.letterhead_id);
+
+    const pdf = await renderDocumentPdf(
+      {
+        kind: 'invoice',
+        number: invoice.invoice_number,
+        client: {
+          name: invoice.client_name || '',
+          street: invoice.client_street,
+          suite: invoice.client_suite,
+          city: invoice.client_city,
+          state: invoice.client_state,
+          zip: invoice.client_zip,
+        },
+        projectName: invoice.project_name,
+        dates: [
+          ['Issue Date', invoice.issue_date],
+          ['Due Date', invoice.due_date],
+          ['Paid', invoice.paid_date],
+        ],
+        lineItems: lineItems.map((li: any) => ({
+          description: li.description,
+          quantity: parseFloat(li.quantity),
+          unitPrice: parseFloat(li.unit_price),
+          total: parseFloat(li.total),
+          category: li.category,
+        })),
+        subtotal: parseFloat(invoice.subtotal),
+        taxRate: invoice.tax_rate ? parseFloat(invoice.tax_rate) : null,
+        taxAmount: parseFloat(invoice.tax_amount),
+        taxBreakdown: mapDocumentTax(invoice).taxBreakdown,
+        taxExemption: exemptionLabel(invoice),
+        total: parseFloat(invoice.total),
+        notes: invoice.notes,
+        terms: invoice.terms,
+        updatedAt: invoice.updated_at,
+      },
+      company,
+      letterhead
+    );
+
+    sendPdf(res, pdf, `${invoice.invoice_number}.pdf`);
+  })
+);
+
 // Create invoice
 router.post(
   '/',
@@ -211,22 +406,35 @@ router.post(
   asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
     const data = createInvoiceSchema.parse(req.body);
     const invoiceNumber = await generateInvoiceNumber();
-    const { subtotal, taxAmount, total } = calculateTotals(data.lineItems, data.taxRate);
+    const tax = await resolveTax({
+      clientId: data.clientId,
+      projectId: data.projectId,
+      jurisdictionId: data.taxJurisdictionId,
+      taxRate: data.taxRate,
+    });
+    const totals = calculateTotals(data.lineItems, tax.rates, !!tax.exemption);
 
     const invoices = await query<DBInvoice>(
-      `INSERT INTO invoices (invoice_number, client_id, project_id, status, due_date, subtotal, tax_rate, tax_amount, total, notes, created_by)
-       VALUES ($1, $2, $3, 'draft', $4, $5, $6, $7, $8, $9, $10)
+      `INSERT INTO invoices (invoice_number, client_id, project_id, status, due_date, subtotal, tax_rate, tax_amount, total,
+                             tax_jurisdiction_id, tax_exemption_id, taxable_subtotal, tax_breakdown, notes, terms, letterhead_id, created_by)
+       VALUES ($1, $2, $3, 'draft', $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
        RETURNING *`,
       [
         invoiceNumber,
         data.clientId,
         data.projectId,
         data.dueDate,
-        subtotal,
-        data.taxRate,
-        taxAmount,
-        total,
+        totals.subtotal,
+        totals.taxRate,
+        totals.taxAmount,
+        totals.total,
+        tax.jurisdiction?.id ?? null,
+        tax.exemption?.id ?? null,
+        totals.taxableSubtotal,
+        JSON.stringify(totals.taxBreakdown),
         data.notes,
+        data.terms,
+        data.letterheadId,
         req.user!.sub,
       ]
     );
@@ -237,9 +445,9 @@ router.post(
     for (let i = 0; i < data.lineItems.length; i++) {
       const item = data.lineItems[i];
       await query(
-        `INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, total, sort_order)
-         VALUES ($1, $2, $3, $4, $5, $6)`,
-        [invoice.id, item.description, item.quantity, item.unitPrice, item.quantity * item.unitPrice, i]
+        `INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, total, sort_order, category, taxable, cost_code_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [invoice.id, item.description, item.quantity, item.unitPrice, item.quantity * item.unitPrice, i, item.category || null, item.taxable, item.costCodeId ?? null]
       );
     }
 
@@ -285,48 +493,84 @@ router.patch(
     }
 
     // Only allow editing draft/sent invoices (unless just changing status)
-    if (!['draft', 'sent'].includes(existing[0].status) && !data.status && !data.paidDate) {
+    if (!['draft', 'sent'].includes(existing[0].status) && !data.status) {
       throw errors.badRequest('Cannot edit paid/cancelled invoices');
     }
 
-    // Update line items if provided
-    if (data.lineItems) {
-      await query('DELETE FROM invoice_line_items WHERE invoice_id = $1', [id]);
-
-      for (let i = 0; i < data.lineItems.length; i++) {
-        const item = data.lineItems[i];
-        await query(
-          `INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, total, sort_order)
-           VALUES ($1, $2, $3, $4, $5, $6)`,
-          [id, item.description, item.quantity, item.unitPrice, item.quantity * item.unitPrice, i]
-        );
+    // An invoice with payments stays paid/partially paid until they are voided
+    if (data.status && data.status !== 'overdue') {
+      const payments = await query('SELECT 1 FROM payments WHERE invoice_id = $1 LIMIT 1', [id]);
+      if (payments.length > 0) {
+        throw errors.badRequest('Void the payments on this invoice before changing its status');
       }
+    }
 
-      const taxRate = data.taxRate ?? (existing[0].tax_rate ? parseFloat(String(existing[0].tax_rate)) : undefined);
-      const { subtotal, taxAmount, total } = calculateTotals(data.lineItems, taxRate);
+    // An exported invoice keeps its amounts and status until the export is voided
+    if (data.status && data.status !== 'overdue' && data.status !== existing[0].status) {
+      await assertNotExported('invoice', id);
+    }
 
-      await query(
-        `UPDATE invoices SET subtotal = $2, tax_rate = $3, tax_amount = $4, total = $5 WHERE id = $1`,
-        [id, subtotal, taxRate, taxAmount, total]
+    // Recalculate totals when the lines or the tax change
+    if (data.lineItems || data.taxRate !== undefined || data.taxJurisdictionId !== undefined) {
+      const current = existing[0];
+      const lines = data.lineItems ?? taxableLines(
+        await query<any>('SELECT * FROM invoice_line_items WHERE invoice_id = $1', [id])
       );
-    }
+      const tax = await resolveTax({
+        clientId: current.client_id,
+        projectId: current.project_id,
+        jurisdictionId: data.taxJurisdictionId !== undefined ? data.taxJurisdictionId : current.tax_jurisdiction_id,
+        taxRate: data.taxRate ?? (current.tax_rate ? parseFloat(String(current.tax_rate)) : null),
+      });
+      const totals = calculateTotals(lines, tax.rates, !!tax.exemption);
+
+      if (
+        Math.abs(totals.total - parseFloat(String(current.total))) >= 0.005 ||
+        Math.abs(totals.taxAmount - parseFloat(String(current.tax_amount))) >= 0.005
+      ) {
+        await assertNotExported('invoice', id);
+      }
 
-    // Handle status change to paid
-    let paidDate = data.paidDate;
-    if (data.status === 'paid' && !paidDate) {
-      paidDate = new Date().toISOString().split('T')[0];
+      if (data.lineItems) {
+        await query('DELETE FROM invoice_line_items WHERE invoice_id = $1', [id]);
+
+        for (let i = 0; i < data.lineItems.length; i++) {
+          const item = data.lineItems[i];
+          await query(
+            `INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, total, sort_order, category, taxable, cost_code_id)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+            [id, item.description, item.quantity, item.unitPrice, item.quantity * item.unitPrice, i, item.category || null, item.taxable, item.costCodeId ?? null]
+          );
+        }
+      }
+
+      await query(
+        `UPDATE invoices SET subtotal = $2, tax_rate = $3, tax_amount = $4, total = $5,
+           tax_jurisdiction_id = $6, tax_exemption_id = $7, taxable_subtotal = $8, tax_breakdown = $9
+         WHERE id = $1`,
+        [id, totals.subtotal, totals.taxRate, totals.taxAmount, totals.total,
+         tax.jurisdiction?.id ?? null, tax.exemption?.id ?? null, totals.taxableSubtotal, JSON.stringify(totals.taxBreakdown)]
+      );
     }
 
     const invoices = await query<DBInvoice>(
       `UPDATE invoices SET
          status = COALESCE($2, status),
-         tax_rate = COALESCE($3, tax_rate),
-         due_date = COALESCE($4, due_date),
-         notes = COALESCE($5, notes),
-         paid_date = COALESCE($6, paid_date)
+         due_date = COALESCE($3, due_date),
+         notes = COALESCE($4, notes),
+         terms = COALESCE($5, terms),
+         letterhead_id = CASE WHEN $6 THEN $7 ELSE letterhead_id END
        WHERE id = $1
        RETURNING *`,
-      [id, data.status, data.taxRate, data.dueDate, data.notes, paidDate]
+      [
+        id,
+        data.status,
+        data.dueDate,
+        data.notes,
+        data.terms,
+        data.letterheadId !== undefined,
+        data.letterheadId ?? null,
+      ]
     );
 
     const invoice = invoices[0];
@@ -354,54 +598,243 @@ router.patch(
   })
 );
 
-// Mark invoice as paid
+// Mark invoice as paid: records one payment for the remaining balance
 router.post(
   '/:id/mark-paid',
   authenticate,
-  requirePermission('accounting:approve'),
+  requirePermission('accounting:payments'),
   asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
     const { id } = req.params;
-    const { paidDate } = req.body;
+    const data = markPaidSchema.parse(req.body);
+
+    const { invoice } = await withTransaction(async (db) => {
+      const balance = await getBalanceDue(db, id);
+      return recordPayment(
+        db,
+        id,
+        { amount: balance, method: data.method, reference: data.reference, paymentDate: data.paidDate },
+        req.user!.sub
+      );
+    });
 
-    const invoices = await query<DBInvoice>(
-      `UPDATE invoices 
-       SET status = 'paid', paid_date = COALESCE($2, CURRENT_DATE)
-       WHERE id = $1 AND status IN ('sent', 'overdue')
-       RETURNING *`,
-      [id, paidDate]
+    res.json({
+      success: true,
+      data: {
+        id: invoice.id,
+        invoiceNumber: invoice.invoice_number,
+        status: invoice.status,
+        paidDate: invoice.paid_date,
+        message: 'Invoice marked as paid',
+      },
+    });
+  })
+);
+
+// Payment history, with the client's available credit
+router.get(
+  '/:id/payments',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const invoices = await query<DBInvoice>('SELECT * FROM invoices WHERE id = $1', [id]);
+    if (invoices.length === 0) {
+      throw errors.notFound('Invoice');
+    }
+    const invoice = invoices[0];
+
+    const [payments, availableCredit] = await Promise.all([
+      query<DBPayment & { recorded_by_name?: string }>(
+        `SELECT p.*, to_char(p.payment_date, 'YYYY-MM-DD') AS payment_date, u.name as recorded_by_name
+         FROM payments p
+         LEFT JOIN users u ON p.recorded_by = u.id
+         WHERE p.invoice_id = $1
+         ORDER BY p.payment_date, p.created_at`,
+        [id]
+      ),
+      getClientCredit(invoice.client_id),
+    ]);
+
+    const total = parseFloat(String(invoice.total));
+    const amountPaid = payments.reduce((sum, p) => sum + parseFloat(String(p.amount)), 0);
+
+    res.json({
+      success: true,
+      data: {
+        payments: payments.map(mapPayment),
+        status: invoice.status,
+        total,
+        amountPaid,
+        balanceDue: Math.round((total - amountPaid) * 100) / 100,
+        availableCredit,
+      },
+    });
+  })
+);
+
+// Record a payment
+router.post(
+  '/:id/payments',
+  authenticate,
+  requirePermission('accounting:payments'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = recordPaymentSchema.parse(req.body);
+
+    const { payment, invoice } = await withTransaction((db) =>
+      recordPayment(db, req.params.id, data, req.user!.sub)
+    );
+
+    res.status(201).json({
+      success: true,
+      data: {
+        payment: mapPayment(payment),
+        status: invoice.status,
+        paidDate: invoice.paid_date,
+      },
+    });
+  })
+);
+
+// Pay from the client's credit balance
+router.post(
+  '/:id/apply-credit',
+  authenticate,
+  requirePermission('accounting:payments'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = applyCreditSchema.parse(req.body);
+
+    const { payment, invoice } = await withTransaction((db) =>
+      applyClientCredit(db, req.params.id, data.amount, req.user!.sub)
     );
 
+    res.status(201).json({
+      success: true,
+      data: {
+        payment: mapPayment(payment),
+        status: invoice.status,
+        paidDate: invoice.paid_date,
+      },
+    });
+  })
+);
+
+// Void a payment
+router.delete(
+  '/:id/payments/:paymentId',
+  authenticate,
+  requirePermission('accounting:payments'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const invoice = await withTransaction((db) =>
+      voidPayment(db, req.params.id, req.params.paymentId, req.user!.sub)
+    );
+
+    res.json({
+      success: true,
+      data: {
+        status: invoice.status,
+        paidDate: invoice.paid_date,
+        message: 'Payment voided',
+      },
+    });
+  })
+);
+
+// Dunning reminders queued for this invoice, and whether they are paused
+router.get(
+  '/:id/reminders',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const invoices = await query<DBInvoice>('SELECT reminders_paused FROM invoices WHERE id = $1', [id]);
     if (invoices.length === 0) {
-      throw errors.badRequest('Invoice cannot be marked as paid');
+      throw errors.notFound('Invoice');
     }
 
-    const invoice = invoices[0];
+    const reminders = await query<DBInvoiceReminder & { sent_by_name?: string }>(
+      `SELECT r.*, u.name as sent_by_name
+       FROM invoice_reminders r
+       LEFT JOIN users u ON r.sent_by = u.id
+       WHERE r.invoice_id = $1
+       ORDER BY r.step_days`,
+      [id]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        paused: invoices[0].reminders_paused,
+        reminders: reminders.map(mapReminder),
+      },
+    });
+  })
+);
+
+// Pause or resume reminders; pausing cancels any still queued
+router.put(
+  '/:id/reminders',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const { paused } = pauseRemindersSchema.parse(req.body);
+
+    const updated = await query<DBInvoice>(
+      'UPDATE invoices SET reminders_paused = $2 WHERE id = $1 RETURNING invoice_number',
+      [id, paused]
+    );
+    if (updated.length === 0) {
+      throw errors.notFound('Invoice');
+    }
 
-    // Update project spent if linked
-    if (invoice.project_id) {
+    if (paused) {
       await query(
-        `UPDATE projects 
-         SET spent = spent + $2
-         WHERE id = $1`,
-        [invoice.project_id, invoice.total]
+        "UPDATE invoice_reminders SET status = 'cancelled' WHERE invoice_id = $1 AND status = 'queued'",
+        [id]
       );
     }
 
     await query(
       `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
-       VALUES ($1, 'invoice', $2, 'paid', $3)`,
-      [req.user!.sub, id, `Marked invoice ${invoice.invoice_number} as paid`]
+       VALUES ($1, 'invoice', $2, $3, $4)`,
+      [
+        req.user!.sub,
+        id,
+        paused ? 'reminders_paused' : 'reminders_resumed',
+        `${paused ? 'Paused' : 'Resumed'} payment reminders for invoice ${updated[0].invoice_number}`,
+      ]
     );
 
     res.json({
       success: true,
-      data: {
-        id: invoice.id,
-        invoiceNumber: invoice.invoice_number,
-        status: invoice.status,
-        paidDate: invoice.paid_date,
-        message: 'Invoice marked as paid',
-      },
+      data: { paused },
+    });
+  })
+);
+
+// Email a queued reminder now
+router.post(
+  '/:id/reminders/:reminderId/send',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    if (!isSmtpConfigured()) {
+      throw errors.serviceUnavailable('Outgoing mail is not configured (SMTP_HOST / SMTP_PORT)');
+    }
+
+    const reminder = (await getSendableReminders(req.params.id))
+      .find((r) => r.id === req.params.reminderId);
+    if (!reminder) {
+      throw errors.notFound('Queued reminder');
+    }
+
+    await sendReminder(reminder, { id: req.user!.sub, name: req.user!.name });
+
+    res.json({
+      success: true,
+      data: { message: `Reminder sent to ${reminder.recipient}` },
     });
   })
 );
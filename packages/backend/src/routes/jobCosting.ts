@@ -0,0 +1,739 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { sendCsv } from '../utils/csv.js';
+import {
+  buildJobCostReport,
+  jobCostReportCsv,
+  loadCostCode,
+  loadProject,
+  seedBudgetFromEstimate,
+} from '../services/jobCosting.js';
+import { AuthenticatedRequest, DBCostCode, ApiResponse } from '../types/index.js';
+
+// Job costing: cost codes, and per project the budget, commitments
+// (subcontracts and POs) and actual cost entries, with the budget vs.
+// committed vs. actual vs. billed report.
+
+const router = Router();
+
+const COST_TYPES = ['labor', 'material', 'equipment', 'subcontractor', 'other'] as const;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+// Validation schemas
+const costCodeSchema = z.object({
+  code: z.string().trim().min(1).max(20),
+  name: z.string().trim().min(1).max(255),
+  costType: z.enum(COST_TYPES).default('other'),
+});
+
+const updateCostCodeSchema = costCodeSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const budgetLineSchema = z.object({
+  costCodeId: z.string().uuid(),
+  description: z.string().trim().min(1),
+  amount: z.number(),
+});
+
+const seedBudgetSchema = z.object({
+  // Left out, the project's latest approved estimate
+  estimateId: z.string().uuid().optional(),
+  // Required when the project already has budget lines
+  replace: z.boolean().default(false),
+});
+
+const commitmentSchema = z.object({
+  costCodeId: z.string().uuid(),
+  commitmentType: z.enum(['subcontract', 'purchase_order']),
+  reference: z.string().trim().max(50).nullable().optional(),
+  vendorId: z.string().uuid().nullable().optional(),
+  description: z.string().trim().min(1),
+  amount: z.number().min(0),
+  issuedDate: dateSchema.optional(),
+});
+
+const updateCommitmentSchema = commitmentSchema.partial().extend({
+  status: z.enum(['open', 'closed', 'void']).optional(),
+});
+
+const costEntrySchema = z.object({
+  costCodeId: z.string().uuid(),
+  costType: z.enum(COST_TYPES),
+  entryDate: dateSchema.optional(),
+  description: z.string().trim().min(1),
+  amount: z.number(),
+  vendorId: z.string().uuid().nullable().optional(),
+  commitmentId: z.string().uuid().nullable().optional(),
+  reference: z.string().trim().max(100).nullable().optional(),
+});
+
+const updateCostEntrySchema = costEntrySchema.partial();
+
+const costFiltersSchema = z.object({
+  costCodeId: z.string().uuid().optional(),
+  costType: z.enum(COST_TYPES).optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+});
+
+function mapCostCode(code: DBCostCode) {
+  return {
+    id: code.id,
+    code: code.code,
+    name: code.name,
+    costType: code.cost_type,
+    isActive: code.is_active,
+    createdAt: code.created_at,
+    updatedAt: code.updated_at,
+  };
+}
+
+function mapBudgetLine(line: any) {
+  return {
+    id: line.id,
+    costCodeId: line.cost_code_id,
+    costCode: line.cost_code,
+    costCodeName: line.cost_code_name,
+    description: line.description,
+    amount: parseFloat(line.amount),
+    estimateId: line.estimate_id,
+    estimateNumber: line.estimate_number,
+    changeOrderId: line.change_order_id,
+    createdAt: line.created_at,
+    updatedAt: line.updated_at,
+  };
+}
+
+function mapCommitment(c: any) {
+  return {
+    id: c.id,
+    costCodeId: c.cost_code_id,
+    costCode: c.cost_code,
+    costCodeName: c.cost_code_name,
+    commitmentType: c.commitment_type,
+    reference: c.reference,
+    vendorId: c.vendor_id,
+    vendorName: c.vendor_name,
+    description: c.description,
+    amount: parseFloat(c.amount),
+    // Actual cost entered against it so far
+    spent: parseFloat(c.spent),
+    status: c.status,
+    issuedDate: c.issued_date,
+    createdByName: c.created_by_name,
+    createdAt: c.created_at,
+    updatedAt: c.updated_at,
+  };
+}
+
+function mapCostEntry(e: any) {
+  return {
+    id: e.id,
+    costCodeId: e.cost_code_id,
+    costCode: e.cost_code,
+    costCodeName: e.cost_code_name,
+    costType: e.cost_type,
+    entryDate: e.entry_date,
+    description: e.description,
+    amount: parseFloat(e.amount),
+    vendorId: e.vendor_id,
+    vendorName: e.vendor_name,
+    commitmentId: e.commitment_id,
+    commitmentReference: e.commitment_reference,
+    reference: e.reference,
+    createdByName: e.created_by_name,
+    createdAt: e.created_at,
+    updatedAt: e.updated_at,
+  };
+}
+
+const BUDGET_SELECT = `
+  SELECT b.*, cc.code AS cost_code, cc.name AS cost_code_name, e.estimate_number
+  FROM project_budget_lines b
+  JOIN cost_codes cc ON b.cost_code_id = cc.id
+  LEFT JOIN estimates e ON b.estimate_id = e.id`;
+
+const COMMITMENT_SELECT = `
+  SELECT c.*, to_char(c.issued_date, 'YYYY-MM-DD') AS issued_date,
+         cc.code AS cost_code, cc.name AS cost_code_name, v.name AS vendor_name, u.name AS created_by_name,
+         COALESCE((SELECT SUM(e.amount) FROM job_cost_entries e WHERE e.commitment_id = c.id), 0) AS spent
+  FROM job_cost_commitments c
+  JOIN cost_codes cc ON c.cost_code_id = cc.id
+  LEFT JOIN companies v ON c.vendor_id = v.id
+  LEFT JOIN users u ON c.created_by = u.id`;
+
+const ENTRY_SELECT = `
+  SELECT e.*, to_char(e.entry_date, 'YYYY-MM-DD') AS entry_date,
+         cc.code AS cost_code, cc.name AS cost_code_name, v.name AS vendor_name,
+         c.reference AS commitment_reference, u.name AS created_by_name
+  FROM job_cost_entries e
+  JOIN cost_codes cc ON e.cost_code_id = cc.id
+  LEFT JOIN companies v ON e.vendor_id = v.id
+  LEFT JOIN job_cost_commitments c ON e.commitment_id = c.id
+  LEFT JOIN users u ON e.created_by = u.id`;
+
+async function loadOne(sql: string, id: string, entity: string) {
+  const rows = await query<any>(sql, [id]);
+  if (rows.length === 0) {
+    throw errors.notFound(entity);
+  }
+  return rows[0];
+}
+
+// A new cost code has to be active; one already on a record may stay
+async function assertCostCode(id: string, current?: string) {
+  const code = await loadCostCode(id);
+  if (!code.is_active && code.id !== current) {
+    throw errors.badRequest(`Cost code ${code.code} is inactive`);
+  }
+}
+
+async function assertCommitment(id: string, projectId: string) {
+  const rows = await query<{ project_id: string; status: string }>(
+    'SELECT project_id, status FROM job_cost_commitments WHERE id = $1',
+    [id]
+  );
+  const commitment = rows[0];
+  if (!commitment || commitment.project_id !== projectId) {
+    throw errors.badRequest('The commitment must belong to this project');
+  }
+  if (commitment.status === 'void') {
+    throw errors.badRequest('The commitment is void');
+  }
+}
+
+async function logProjectActivity(userId: string, projectId: string, description: string) {
+  await query(
+    `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+     VALUES ($1, 'project', $2, 'updated', $3)`,
+    [userId, projectId, description]
+  );
+}
+
+// ============================================================================
+// Cost codes
+// ============================================================================
+
+// Invoice lines are coded too, so accounting users can read the list
+router.get(
+  '/cost-codes',
+  authenticate,
+  requirePermission('projects:costs', 'accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const includeInactive = req.query.includeInactive === 'true';
+    const codes = await query<DBCostCode>(
+      `SELECT * FROM cost_codes ${includeInactive ? '' : 'WHERE is_active'} ORDER BY code`
+    );
+
+    res.json({
+      success: true,
+      data: codes.map(mapCostCode),
+    });
+  })
+);
+
+router.post(
+  '/cost-codes',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = costCodeSchema.parse(req.body);
+
+    const existing = await query('SELECT 1 FROM cost_codes WHERE LOWER(code) = LOWER($1)', [data.code]);
+    if (existing.length > 0) {
+      throw errors.conflict(`Cost code ${data.code} already exists`);
+    }
+
+    const codes = await query<DBCostCode>(
+      'INSERT INTO cost_codes (code, name, cost_type) VALUES ($1, $2, $3) RETURNING *',
+      [data.code, data.name, data.costType]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mapCostCode(codes[0]),
+    });
+  })
+);
+
+router.patch(
+  '/cost-codes/:id',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = updateCostCodeSchema.parse(req.body);
+    const code = await loadCostCode(req.params.id);
+
+    if (data.code && data.code.toLowerCase() !== code.code.toLowerCase()) {
+      const existing = await query('SELECT 1 FROM cost_codes WHERE LOWER(code) = LOWER($1)', [data.code]);
+      if (existing.length > 0) {
+        throw errors.conflict(`Cost code ${data.code} already exists`);
+      }
+    }
+
+    const codes = await query<DBCostCode>(
+      `UPDATE cost_codes SET
+         code = COALESCE($2, code),
+         name = COALESCE($3, name),
+         cost_type = COALESCE($4, cost_type),
+         is_active = COALESCE($5, is_active)
+       WHERE id = $1
+       RETURNING *`,
+      [code.id, data.code, data.name, data.costType, data.isActive]
+    );
+
+    res.json({
+      success: true,
+      data: mapCostCode(codes[0]),
+    });
+  })
+);
+
+// Codes already used are deactivated instead, so the records keep them
+router.delete(
+  '/cost-codes/:id',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const code = await loadCostCode(req.params.id);
+
+    const used = await query(
+      `SELECT 1 FROM project_budget_lines WHERE cost_code_id = $1
+       UNION ALL
+       SELECT 1 FROM job_cost_commitments WHERE cost_code_id = $1
+       UNION ALL
+       SELECT 1 FROM job_cost_entries WHERE cost_code_id = $1
+       UNION ALL
+       SELECT 1 FROM invoice_line_items WHERE cost_code_id = $1
+       LIMIT 1`,
+      [code.id]
+    );
+    if (used.length > 0) {
+      await query('UPDATE cost_codes SET is_active = false WHERE id = $1', [code.id]);
+    } else {
+      await query('DELETE FROM cost_codes WHERE id = $1', [code.id]);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        archived: used.length > 0,
+        message: used.length > 0
+          ? 'Cost code is in use and was deactivated'
+          : 'Cost code deleted successfully',
+      },
+    });
+  })
+);
+
+// ============================================================================
+// Report
+// ============================================================================
+
+// Budget vs. committed vs. actual vs. billed by cost code; ?format=csv downloads it
+router.get(
+  '/projects/:projectId/report',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const project = await loadProject(req.params.projectId);
+    const report = await buildJobCostReport(project.id);
+
+    if (req.query.format === 'csv') {
+      sendCsv(res, jobCostReportCsv(report), `${project.name.replace(/[^\w-]+/g, '_')}_job_cost.csv`);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  })
+);
+
+// ============================================================================
+// Budget
+// ============================================================================
+
+router.get(
+  '/projects/:projectId/budget',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const project = await loadProject(req.params.projectId);
+    const lines = await query<any>(
+      `${BUDGET_SELECT} WHERE b.project_id = $1 ORDER BY b.sort_order, b.created_at`,
+      [project.id]
+    );
+
+    res.json({
+      success: true,
+      data: lines.map(mapBudgetLine),
+    });
+  })
+);
+
+router.post(
+  '/projects/:projectId/budget',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const project = await loadProject(req.params.projectId);
+    const data = budgetLineSchema.parse(req.body);
+    await assertCostCode(data.costCodeId);
+
+    const rows = await query<{ id: string }>(
+      `INSERT INTO project_budget_lines (project_id, cost_code_id, description, amount, sort_order)
+       VALUES ($1, $2, $3, $4,
+         (SELECT COALESCE(MAX(sort_order) + 1, 0) FROM project_budget_lines WHERE project_id = $1))
+       RETURNING id`,
+      [project.id, data.costCodeId, data.description, data.amount]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mapBudgetLine(await loadOne(`${BUDGET_SELECT} WHERE b.id = $1`, rows[0].id, 'Budget line')),
+    });
+  })
+);
+
+// Replace the budget with the lines of an approved estimate
+router.post(
+  '/projects/:projectId/budget/seed',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = seedBudgetSchema.parse(req.body);
+    const result = await seedBudgetFromEstimate(req.params.projectId, data.estimateId, data.replace, req.user!.sub);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...result,
+        message: `Budget seeded from estimate ${result.estimateNumber} (${result.lineCount} lines)`,
+      },
+    });
+  })
+);
+
+router.patch(
+  '/budget/:id',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = budgetLineSchema.partial().parse(req.body);
+    const line = await loadOne(`${BUDGET_SELECT} WHERE b.id = $1`, req.params.id, 'Budget line');
+    if (data.costCodeId) {
+      await assertCostCode(data.costCodeId, line.cost_code_id);
+    }
+
+    await query(
+      `UPDATE project_budget_lines SET
+         cost_code_id = COALESCE($2, cost_code_id),
+         description = COALESCE($3, description),
+         amount = COALESCE($4, amount)
+       WHERE id = $1`,
+      [line.id, data.costCodeId, data.description, data.amount]
+    );
+
+    res.json({
+      success: true,
+      data: mapBudgetLine(await loadOne(`${BUDGET_SELECT} WHERE b.id = $1`, line.id, 'Budget line')),
+    });
+  })
+);
+
+router.delete(
+  '/budget/:id',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const rows = await query('DELETE FROM project_budget_lines WHERE id = $1 RETURNING id', [req.params.id]);
+    if (rows.length === 0) {
+      throw errors.notFound('Budget line');
+    }
+
+    res.json({
+      success: true,
+      data: { message: 'Budget line deleted successfully' },
+    });
+  })
+);
+
+// ============================================================================
+// Commitments
+// ============================================================================
+
+router.get(
+  '/projects/:projectId/commitments',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const project = await loadProject(req.params.projectId);
+    const commitments = await query<any>(
+      `${COMMITMENT_SELECT} WHERE c.project_id = $1 ORDER BY c.issued_date DESC, c.created_at DESC`,
+      [project.id]
+    );
+
+    res.json({
+      success: true,
+      data: commitments.map(mapCommitment),
+    });
+  })
+);
+
+router.post(
+  '/projects/:projectId/commitments',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const project = await loadProject(req.params.projectId);
+    const data = commitmentSchema.parse(req.body);
+    await assertCostCode(data.costCodeId);
+
+    const rows = await query<{ id: string }>(
+      `INSERT INTO job_cost_commitments
+         (project_id, cost_code_id, commitment_type, reference, vendor_id, description, amount, issued_date, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8::date, CURRENT_DATE), $9)
+       RETURNING id`,
+      [
+        project.id,
+        data.costCodeId,
+        data.commitmentType,
+        data.reference || null,
+        data.vendorId ?? null,
+        data.description,
+        data.amount,
+        data.issuedDate,
+        req.user!.sub,
+      ]
+    );
+
+    const label = data.commitmentType === 'subcontract' ? 'subcontract' : 'purchase order';
+    await logProjectActivity(
+      req.user!.sub,
+      project.id,
+      `Added ${label}${data.reference ? ` ${data.reference}` : ''} for $${data.amount.toFixed(2)}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mapCommitment(await loadOne(`${COMMITMENT_SELECT} WHERE c.id = $1`, rows[0].id, 'Commitment')),
+    });
+  })
+);
+
+router.patch(
+  '/commitments/:id',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = updateCommitmentSchema.parse(req.body);
+    const commitment = await loadOne(`${COMMITMENT_SELECT} WHERE c.id = $1`, req.params.id, 'Commitment');
+    if (data.costCodeId) {
+      await assertCostCode(data.costCodeId, commitment.cost_code_id);
+    }
+
+    await query(
+      `UPDATE job_cost_commitments SET
+         cost_code_id = COALESCE($2, cost_code_id),
+         commitment_type = COALESCE($3, commitment_type),
+         reference = CASE WHEN $4 THEN $5 ELSE reference END,
+         vendor_id = CASE WHEN $6 THEN $7::uuid ELSE vendor_id END,
+         description = COALESCE($8, description),
+         amount = COALESCE($9, amount),
+         issued_date = COALESCE($10::date, issued_date),
+         status = COALESCE($11, status)
+       WHERE id = $1`,
+      [
+        commitment.id,
+        data.costCodeId,
+        data.commitmentType,
+        data.reference !== undefined,
+        data.reference || null,
+        data.vendorId !== undefined,
+        data.vendorId ?? null,
+        data.description,
+        data.amount,
+        data.issuedDate,
+        data.status,
+      ]
+    );
+
+    res.json({
+      success: true,
+      data: mapCommitment(await loadOne(`${COMMITMENT_SELECT} WHERE c.id = $1`, commitment.id, 'Commitment')),
+    });
+  })
+);
+
+// Costs entered against it stay, unlinked
+router.delete(
+  '/commitments/:id',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const rows = await query('DELETE FROM job_cost_commitments WHERE id = $1 RETURNING id', [req.params.id]);
+    if (rows.length === 0) {
+      throw errors.notFound('Commitment');
+    }
+
+    res.json({
+      success: true,
+      data: { message: 'Commitment deleted successfully' },
+    });
+  })
+);
+
+// ============================================================================
+// Cost entries
+// ============================================================================
+
+router.get(
+  '/projects/:projectId/costs',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const project = await loadProject(req.params.projectId);
+    const filters = costFiltersSchema.parse(req.query);
+
+    const conditions = ['e.project_id = $1'];
+    const params: unknown[] = [project.id];
+    if (filters.costCodeId) {
+      params.push(filters.costCodeId);
+      conditions.push(`e.cost_code_id = $${params.length}`);
+    }
+    if (filters.costType) {
+      params.push(filters.costType);
+      conditions.push(`e.cost_type = $${params.length}`);
+    }
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`e.entry_date >= $${params.length}`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`e.entry_date <= $${params.length}`);
+    }
+
+    const entries = await query<any>(
+      `${ENTRY_SELECT} WHERE ${conditions.join(' AND ')} ORDER BY e.entry_date DESC, e.created_at DESC`,
+      params
+    );
+
+    res.json({
+      success: true,
+      data: entries.map(mapCostEntry),
+    });
+  })
+);
+
+router.post(
+  '/projects/:projectId/costs',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const project = await loadProject(req.params.projectId);
+    const data = costEntrySchema.parse(req.body);
+    await assertCostCode(data.costCodeId);
+    if (data.commitmentId) {
+      await assertCommitment(data.commitmentId, project.id);
+    }
+
+    const rows = await query<{ id: string }>(
+      `INSERT INTO job_cost_entries
+         (project_id, cost_code_id, cost_type, entry_date, description, amount, vendor_id, commitment_id, reference, created_by)
+       VALUES ($1, $2, $3, COALESCE($4::date, CURRENT_DATE), $5, $6, $7, $8, $9, $10)
+       RETURNING id`,
+      [
+        project.id,
+        data.costCodeId,
+        data.costType,
+        data.entryDate,
+        data.description,
+        data.amount,
+        data.vendorId ?? null,
+        data.commitmentId ?? null,
+        data.reference || null,
+        req.user!.sub,
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mapCostEntry(await loadOne(`${ENTRY_SELECT} WHERE e.id = $1`, rows[0].id, 'Cost entry')),
+    });
+  })
+);
+
+router.patch(
+  '/costs/:id',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = updateCostEntrySchema.parse(req.body);
+    const entry = await loadOne(`${ENTRY_SELECT} WHERE e.id = $1`, req.params.id, 'Cost entry');
+    if (data.costCodeId) {
+      await assertCostCode(data.costCodeId, entry.cost_code_id);
+    }
+    if (data.commitmentId && data.commitmentId !== entry.commitment_id) {
+      await assertCommitment(data.commitmentId, entry.project_id);
+    }
+
+    await query(
+      `UPDATE job_cost_entries SET
+         cost_code_id = COALESCE($2, cost_code_id),
+         cost_type = COALESCE($3, cost_type),
+         entry_date = COALESCE($4::date, entry_date),
+         description = COALESCE($5, description),
+         amount = COALESCE($6, amount),
+         vendor_id = CASE WHEN $7 THEN $8::uuid ELSE vendor_id END,
+         commitment_id = CASE WHEN $9 THEN $10::uuid ELSE commitment_id END,
+         reference = CASE WHEN $11 THEN $12 ELSE reference END
+       WHERE id = $1`,
+      [
+        entry.id,
+        data.costCodeId,
+        data.costType,
+        data.entryDate,
+        data.description,
+        data.amount,
+        data.vendorId !== undefined,
+        data.vendorId ?? null,
+        data.commitmentId !== undefined,
+        data.commitmentId ?? null,
+        data.reference !== undefined,
+        data.reference || null,
+      ]
+    );
+
+    res.json({
+      success: true,
+      data: mapCostEntry(await loadOne(`${ENTRY_SELECT} WHERE e.id = $1`, entry.id, 'Cost entry')),
+    });
+  })
+);
+
+router.delete(
+  '/costs/:id',
+  authenticate,
+  requirePermission('projects:costs'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const rows = await query('DELETE FROM job_cost_entries WHERE id = $1 RETURNING id', [req.params.id]);
+    if (rows.length === 0) {
+      throw errors.notFound('Cost entry');
+    }
+
+    res.json({
+      success: true,
+      data: { message: 'Cost entry deleted successfully' },
+    });
+  })
+);
+
+export default router;
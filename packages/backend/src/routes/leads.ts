@@ -0,0 +1,481 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { resolveVisibleRepIds, isOwnerVisible, assertOwnerVisible } from '../services/scoping.js';
+import { uniqueSlug } from '../utils/slug.js';
+import { buildSetClause } from '../utils/sql.js';
+import {
+  salesEntitySchema,
+  salesEntityUpdateSchema,
+  dealInputSchema,
+  reassignOwnerSchema,
+  SALES_ENTITY_COLUMNS,
+  DEFAULT_DEAL_STAGE,
+  mapLead,
+  mapDeal,
+} from '../utils/sales.js';
+import { AuthenticatedRequest, DBLead, DBDeal, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+// Validation schemas (mirror LeadInput in the frontend salesStore)
+const createLeadSchema = salesEntitySchema.extend({
+  id: z.string().uuid().optional(),
+});
+
+const updateLeadSchema = salesEntityUpdateSchema;
+
+const convertLeadSchema = dealInputSchema.partial().extend({
+  dealId: z.string().uuid().optional(),
+});
+
+// Legacy localStorage payload - ids are whatever the browser generated
+const importLeadsSchema = z.object({
+  leads: z.array(
+    salesEntitySchema.extend({
+      id: z.string(),
+      slug: z.string().optional(),
+      companyId: z.string().optional(),
+      contactId: z.string().optional(),
+      createdAt: z.string().optional(),
+    })
+  ),
+});
+
+// List leads
+router.get(
+  '/',
+  authenticate,
+  requirePermission('sales:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const {
+      stage,
+      ownerId,
+      companyId,
+      contactId,
+      search,
+      includeConverted = 'false',
+      page = '1',
+      limit = '50',
+    } = req.query;
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    // Converted leads are kept for history but hidden from the pipeline
+    if (includeConverted !== 'true') {
+      whereClause += ' AND converted_at IS NULL';
+    }
+
+    if (stage) {
+      whereClause += ` AND stage = $${paramIndex}`;
+      params.push(stage);
+      paramIndex++;
+    }
+
+    if (ownerId) {
+      whereClause += ` AND owner_id = $${paramIndex}`;
+      params.push(ownerId);
+      paramIndex++;
+    }
+
+    if (companyId) {
+      whereClause += ` AND company_id = $${paramIndex}`;
+      params.push(companyId);
+      paramIndex++;
+    }
+
+    if (contactId) {
+      whereClause += ` AND contact_id = $${paramIndex}`;
+      params.push(contactId);
+      paramIndex++;
+    }
+
+    if (search) {
+      whereClause += ` AND (name ILIKE $${paramIndex} OR company_name ILIKE $${paramIndex} OR contact_name ILIKE $${paramIndex})`;
+      params.push(`%${search}%`);
+      paramIndex++;
+    }
+
+    // Record scope: only leads owned by reps the user can see
+    const visibleRepIds = await resolveVisibleRepIds(req.user!);
+    if (visibleRepIds) {
+      whereClause += ` AND owner_id = ANY($${paramIndex})`;
+      params.push(visibleRepIds);
+      paramIndex++;
+    }
+
+    const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM leads ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult[0]?.count || '0');
+
+    const leads = await query<DBLead>(
+      `SELECT * FROM leads ${whereClause}
+       ORDER BY created_at DESC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...params, parseInt(limit as string), offset]
+    );
+
+    res.json({
+      success: true,
+      data: leads.map(mapLead),
+      meta: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        totalPages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  })
+);
+
+// Import leads saved in the browser before server persistence.
+// Idempotent: leads already imported (matched on legacy_id) are reused.
+router.post(
+  '/import',
+  authenticate,
+  requirePermission('sales:create'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = importLeadsSchema.parse(req.body);
+    const idMap: Record<string, string> = {};
+    const createdIds: string[] = [];
+
+    await withTransaction(async (db) => {
+      for (const lead of data.leads) {
+        const existing = await db.query<{ id: string }>(
+          'SELECT id FROM leads WHERE legacy_id = $1',
+          [lead.id]
+        );
+        if (existing.rows[0]) {
+          idMap[lead.id] = existing.rows[0].id;
+          continue;
+        }
+
+        const slug = await uniqueSlug('leads', lead.slug || lead.name, { db, fallback: 'lead' });
+        // Company/contact links are dropped if they don't exist on the server
+        const inserted = await db.query<{ id: string }>(
+          `INSERT INTO leads (slug, name, company_id, company_name, contact_id, contact_name, stage, label, source,
+                              notes, owner_id, owner_name, jobsite_address, value, legacy_id, created_by, created_at)
+           VALUES ($1, $2,
+                   (SELECT id FROM companies WHERE id::text = $3), $4,
+                   (SELECT id FROM contacts WHERE id::text = $5), $6,
+                   $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, COALESCE($17::timestamptz, CURRENT_TIMESTAMP))
+           RETURNING id`,
+          [
+            slug,
+            lead.name,
+            lead.companyId ?? null,
+            lead.companyName,
+            lead.contactId ?? null,
+            lead.contactName,
+            lead.stage,
+            lead.label,
+            lead.source,
+            lead.notes,
+            lead.ownerId,
+            lead.ownerName || '',
+            lead.jobsiteAddress ? JSON.stringify(lead.jobsiteAddress) : null,
+            lead.value,
+            lead.id,
+            req.user!.sub,
+            lead.createdAt ?? null,
+          ]
+        );
+        idMap[lead.id] = inserted.rows[0]!.id;
+        createdIds.push(inserted.rows[0]!.id);
+      }
+    });
+
+    // Log activity
+    for (const id of createdIds) {
+      await query(
+        `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+         VALUES ($1, 'lead', $2, 'imported', 'Imported lead from local storage')`,
+        [req.user!.sub, id]
+      );
+    }
+
+    res.json({
+      success: true,
+      data: { leadsCreated: createdIds.length, idMap },
+    });
+  })
+);
+
+// Reassign all leads from one owner to another
+router.post(
+  '/reassign',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = reassignOwnerSchema.parse(req.body);
+    if (!isOwnerVisible(data.fromOwnerId, await resolveVisibleRepIds(req.user!))) {
+      throw errors.forbidden('Cannot reassign leads outside your record scope');
+    }
+
+    const leads = await query<{ id: string }>(
+      `UPDATE leads SET owner_id = $2, owner_name = $3
+       WHERE owner_id = $1 AND converted_at IS NULL
+       RETURNING id`,
+      [data.fromOwnerId, data.toOwnerId, data.toOwnerName]
+    );
+
+    res.json({
+      success: true,
+      data: { reassigned: leads.length },
+    });
+  })
+);
+
+// Get single lead (by id or slug)
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('sales:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const leads = await query<DBLead>(
+      'SELECT * FROM leads WHERE id::text = $1 OR slug = $1',
+      [id]
+    );
+
+    const lead = leads[0];
+    if (!lead || !isOwnerVisible(lead.owner_id, await resolveVisibleRepIds(req.user!))) {
+      throw errors.notFound('Lead');
+    }
+
+    res.json({
+      success: true,
+      data: mapLead(lead),
+    });
+  })
+);
+
+// Create lead
+router.post(
+  '/',
+  authenticate,
+  requirePermission('sales:create'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = createLeadSchema.parse(req.body);
+    const slug = await uniqueSlug('leads', data.name, { fallback: 'lead' });
+
+    const leads = await query<DBLead>(
+      `INSERT INTO leads (id, slug, name, company_id, company_name, contact_id, contact_name, stage, label, source,
+                          notes, owner_id, owner_name, jobsite_address, value, created_by)
+       VALUES (COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+       RETURNING *`,
+      [
+        data.id || null,
+        slug,
+        data.name,
+        data.companyId,
+        data.companyName,
+        data.contactId,
+        data.contactName,
+        data.stage,
+        data.label,
+        data.source,
+        data.notes,
+        data.ownerId,
+        data.ownerName || '',
+        data.jobsiteAddress ? JSON.stringify(data.jobsiteAddress) : null,
+        data.value,
+        req.user!.sub,
+      ]
+    );
+
+    const lead = leads[0];
+    if (!lead) {
+      throw new Error('Failed to create lead');
+    }
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'lead', $2, 'created', $3)`,
+      [req.user!.sub, lead.id, `Created lead: ${lead.name}`]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mapLead(lead),
+    });
+  })
+);
+
+// Update lead
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = updateLeadSchema.parse(req.body);
+    await assertOwnerVisible('leads', id, await resolveVisibleRepIds(req.user!), 'Lead');
+
+    // Regenerate slug when the name changes
+    const slug = data.name
+      ? await uniqueSlug('leads', data.name, { excludeId: id, fallback: 'lead' })
+      : undefined;
+
+    const { setClause, params } = buildSetClause({ ...data, slug }, { ...SALES_ENTITY_COLUMNS, slug: 'slug' });
+    if (!setClause) {
+      throw errors.badRequest('No fields to update');
+    }
+
+    const leads = await query<DBLead>(
+      `UPDATE leads SET ${setClause}
+       WHERE id = $1
+       RETURNING *`,
+      [id, ...params]
+    );
+
+    const lead = leads[0];
+    if (!lead) {
+      throw errors.notFound('Lead');
+    }
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'lead', $2, 'updated', $3)`,
+      [req.user!.sub, id, data.stage ? `Moved lead ${lead.name} to ${lead.stage}` : `Updated lead: ${lead.name}`]
+    );
+
+    res.json({
+      success: true,
+      data: mapLead(lead),
+    });
+  })
+);
+
+// Delete lead
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('sales:delete'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertOwnerVisible('leads', id, await resolveVisibleRepIds(req.user!), 'Lead');
+
+    const leads = await query<Pick<DBLead, 'name'>>(
+      'DELETE FROM leads WHERE id = $1 RETURNING name',
+      [id]
+    );
+
+    const lead = leads[0];
+    if (!lead) {
+      throw errors.notFound('Lead');
+    }
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'lead', $2, 'deleted', $3)`,
+      [req.user!.sub, id, `Deleted lead: ${lead.name}`]
+    );
+
+    res.json({
+      success: true,
+      data: { message: 'Lead deleted successfully' },
+    });
+  })
+);
+
+// Convert lead to deal
+router.post(
+  '/:id/convert',
+  authenticate,
+  requirePermission('sales:create'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = convertLeadSchema.parse(req.body);
+    const visibleRepIds = await resolveVisibleRepIds(req.user!);
+
+    const { lead, deal } = await withTransaction(async (db) => {
+      const leads = await db.query<DBLead>('SELECT * FROM leads WHERE id = $1 FOR UPDATE', [id]);
+      const lead = leads.rows[0];
+      if (!lead || !isOwnerVisible(lead.owner_id, visibleRepIds)) {
+        throw errors.notFound('Lead');
+      }
+      if (lead.converted_to_deal_id) {
+        throw errors.conflict('Lead has already been converted to a deal');
+      }
+
+      const name = data.name || lead.name;
+      const slug = await uniqueSlug('deals', name, { db, fallback: 'deal' });
+
+      // Deal fields fall back to the lead's values
+      const deals = await db.query<DBDeal>(
+        `INSERT INTO deals (id, slug, name, company_id, company_name, contact_id, contact_name, stage, label, source,
+                            notes, owner_id, owner_name, jobsite_address, value, commission, units,
+                            converted_from_lead_id, created_by)
+         VALUES (COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+                 $16, $17, $18, $19)
+         RETURNING *`,
+        [
+          data.dealId || null,
+          slug,
+          name,
+          data.companyId ?? lead.company_id,
+          data.companyName ?? lead.company_name,
+          data.contactId ?? lead.contact_id,
+          data.contactName ?? lead.contact_name,
+          data.stage || DEFAULT_DEAL_STAGE,
+          data.label ?? lead.label,
+          data.source ?? lead.source,
+          data.notes ?? lead.notes,
+          data.ownerId ?? lead.owner_id,
+          data.ownerName ?? lead.owner_name,
+          data.jobsiteAddress
+            ? JSON.stringify(data.jobsiteAddress)
+            : lead.jobsite_address ? JSON.stringify(lead.jobsite_address) : null,
+          data.value ?? lead.value,
+          data.commission,
+          data.units,
+          lead.id,
+          req.user!.sub,
+        ]
+      );
+      const deal = deals.rows[0]!;
+
+      const updated = await db.query<DBLead>(
+        `UPDATE leads SET converted_to_deal_id = $2, converted_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [lead.id, deal.id]
+      );
+
+      return { lead: updated.rows[0]!, deal };
+    });
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'lead', $2, 'converted', $3), ($1, 'deal', $4, 'created', $5)`,
+      [
+        req.user!.sub,
+        lead.id,
+        `Converted lead ${lead.name} to deal`,
+        deal.id,
+        `Created deal from lead: ${deal.name}`,
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { lead: mapLead(lead), deal: mapDeal(deal) },
+    });
+  })
+);
+
+export default router;
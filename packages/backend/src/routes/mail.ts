@@ -0,0 +1,468 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query } from '../config/database.js';
+import { env } from '../config/env.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import {
+  isImapConfigured,
+  isSmtpConfigured,
+  getInboxAddress,
+  sendMail,
+  recordMessage,
+} from '../services/mail.js';
+import { syncMailbox } from '../jobs/syncMailbox.js';
+import {
+  resolveVisibleRepIds,
+  companyScopeCondition,
+  assertCompanyVisible,
+  assertOwnerVisible,
+} from '../services/scoping.js';
+import { AuthenticatedRequest, DBContact, DBMailThread, DBMailMessage, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+// Validation schemas
+const replySchema = z.object({
+  text: z.string().min(1),
+  // Reply to everyone on the thread instead of just the last sender
+  replyAll: z.boolean().default(false),
+  cc: z.array(z.string().email()).optional(),
+});
+
+const sendSchema = z.object({
+  to: z.array(z.string().email()).min(1),
+  cc: z.array(z.string().email()).optional(),
+  subject: z.string().min(1),
+  text: z.string().min(1),
+  contactId: z.string().uuid().optional(),
+  leadId: z.string().uuid().optional(),
+  dealId: z.string().uuid().optional(),
+});
+
+// null clears a link; omitted fields are left as they are
+const linkSchema = z.object({
+  contactId: z.string().uuid().nullable().optional(),
+  leadId: z.string().uuid().nullable().optional(),
+  dealId: z.string().uuid().nullable().optional(),
+});
+
+const THREAD_SELECT = `
+  SELECT t.*,
+    TRIM(c.first_name || ' ' || c.last_name) AS contact_name,
+    l.name AS lead_name,
+    d.name AS deal_name
+  FROM mail_threads t
+  LEFT JOIN contacts c ON c.id = t.contact_id
+  LEFT JOIN leads l ON l.id = t.lead_id
+  LEFT JOIN deals d ON d.id = t.deal_id`;
+
+// WHERE fragment limiting threads to those whose deal, lead and contact are all
+// within the visible reps in `param`, by the same rules as the deals, leads and
+// contacts lists. Unlinked threads belong to the shared inbox and stay visible.
+function threadScopeCondition(param: string): string {
+  return `(t.deal_id IS NULL OR EXISTS (SELECT 1 FROM deals sd WHERE sd.id = t.deal_id AND sd.owner_id = ANY(${param})))
+    AND (t.lead_id IS NULL OR EXISTS (SELECT 1 FROM leads sl WHERE sl.id = t.lead_id AND sl.owner_id = ANY(${param})))
+    AND (t.contact_id IS NULL OR EXISTS (SELECT 1 FROM contacts sct JOIN companies sc ON sc.id = sct.company_id
+                                         WHERE sct.id = t.contact_id AND ${companyScopeCondition('sc', param)}))`;
+}
+
+// Helpers to map DB rows to API responses
+function mapThread(t: DBMailThread) {
+  return {
+    id: t.id,
+    subject: t.subject,
+    snippet: t.snippet,
+    participants: t.participants,
+    messageCount: t.message_count,
+    unreadCount: t.unread_count,
+    lastMessageAt: t.last_message_at,
+    contactId: t.contact_id ?? undefined,
+    contactName: t.contact_name ?? undefined,
+    leadId: t.lead_id ?? undefined,
+    leadName: t.lead_name ?? undefined,
+    dealId: t.deal_id ?? undefined,
+    dealName: t.deal_name ?? undefined,
+    linkedManually: t.linked_manually,
+    createdAt: t.created_at,
+    updatedAt: t.updated_at,
+  };
+}
+
+function mapMessage(m: DBMailMessage) {
+  return {
+    id: m.id,
+    threadId: m.thread_id,
+    messageId: m.message_id,
+    direction: m.direction,
+    fromAddress: m.from_address,
+    fromName: m.from_name ?? undefined,
+    to: m.to_addresses,
+    cc: m.cc_addresses,
+    subject: m.subject,
+    text: m.text_body ?? '',
+    sentAt: m.sent_at,
+    isRead: m.is_read,
+    sentById: m.sent_by_id ?? undefined,
+    sentByName: m.sent_by_name ?? undefined,
+  };
+}
+
+// Load a thread, not found when it's linked to a record outside the user's scope
+async function getThread(id: string, visibleRepIds: string[] | null = null): Promise<DBMailThread> {
+  const threads = visibleRepIds
+    ? await query<DBMailThread>(`${THREAD_SELECT} WHERE t.id = $1 AND ${threadScopeCondition('$2')}`, [id, visibleRepIds])
+    : await query<DBMailThread>(`${THREAD_SELECT} WHERE t.id = $1`, [id]);
+  if (threads.length === 0) {
+    throw errors.notFound('Thread');
+  }
+  return threads[0];
+}
+
+// Not found unless the contact exists and its company is within the visible reps
+async function assertContactVisible(id: string, visibleRepIds: string[] | null): Promise<void> {
+  const contacts = await query<Pick<DBContact, 'company_id'>>('SELECT company_id FROM contacts WHERE id = $1', [id]);
+  if (contacts.length === 0) {
+    throw errors.notFound('Contact');
+  }
+  await assertCompanyVisible(contacts[0].company_id, visibleRepIds, 'Contact');
+}
+
+// Log against the deal or lead the thread belongs to
+async function logThreadActivity(thread: DBMailThread, userId: string, action: string, description: string) {
+  const entity = thread.deal_id
+    ? { type: 'deal', id: thread.deal_id }
+    : thread.lead_id ? { type: 'lead', id: thread.lead_id } : null;
+  if (!entity) return;
+
+  await query(
+    `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [userId, entity.type, entity.id, action, description]
+  );
+}
+
+function requireSmtp() {
+  if (!isSmtpConfigured()) {
+    throw errors.serviceUnavailable('Outgoing mail is not configured (SMTP_HOST / SMTP_PORT)');
+  }
+}
+
+// Mailbox connection status
+router.get(
+  '/status',
+  authenticate,
+  requirePermission('sales:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const state = await query<{ last_synced_at: Date }>(
+      'SELECT last_synced_at FROM mail_sync_state WHERE mailbox = $1',
+      [env.IMAP_MAILBOX]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        address: getInboxAddress(),
+        canReceive: isImapConfigured(),
+        canSend: isSmtpConfigured(),
+        lastSyncedAt: state[0]?.last_synced_at ?? null,
+      },
+    });
+  })
+);
+
+// Pull new messages now instead of waiting for the scheduled sync
+router.post(
+  '/sync',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    if (!isImapConfigured()) {
+      throw errors.serviceUnavailable('Incoming mail is not configured (IMAP_HOST / IMAP_USER / IMAP_PASS)');
+    }
+
+    const imported = await syncMailbox();
+
+    res.json({
+      success: true,
+      data: { imported },
+    });
+  })
+);
+
+// List threads
+router.get(
+  '/threads',
+  authenticate,
+  requirePermission('sales:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const {
+      search,
+      filter,
+      contactId,
+      leadId,
+      dealId,
+      page = '1',
+      limit = '50',
+    } = req.query;
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filter === 'unread') {
+      whereClause += ' AND t.unread_count > 0';
+    } else if (filter === 'linked') {
+      whereClause += ' AND (t.deal_id IS NOT NULL OR t.lead_id IS NOT NULL)';
+    } else if (filter === 'unlinked') {
+      whereClause += ' AND t.deal_id IS NULL AND t.lead_id IS NULL';
+    }
+
+    if (contactId) {
+      whereClause += ` AND t.contact_id = $${paramIndex}`;
+      params.push(contactId);
+      paramIndex++;
+    }
+
+    if (leadId) {
+      whereClause += ` AND t.lead_id = $${paramIndex}`;
+      params.push(leadId);
+      paramIndex++;
+    }
+
+    if (dealId) {
+      whereClause += ` AND t.deal_id = $${paramIndex}`;
+      params.push(dealId);
+      paramIndex++;
+    }
+
+    if (search) {
+      whereClause += ` AND (t.subject ILIKE $${paramIndex} OR t.snippet ILIKE $${paramIndex}
+        OR array_to_string(t.participants, ' ') ILIKE $${paramIndex})`;
+      params.push(`%${search}%`);
+      paramIndex++;
+    }
+
+    // Record scope: no threads on deals, leads or contacts the user can't see
+    const visibleRepIds = await resolveVisibleRepIds(req.user!);
+    if (visibleRepIds) {
+      whereClause += ` AND ${threadScopeCondition(`$${paramIndex}`)}`;
+      params.push(visibleRepIds);
+      paramIndex++;
+    }
+
+    const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM mail_threads t ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult[0]?.count || '0');
+
+    const threads = await query<DBMailThread>(
+      `${THREAD_SELECT} ${whereClause}
+       ORDER BY t.last_message_at DESC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...params, parseInt(limit as string), offset]
+    );
+
+    res.json({
+      success: true,
+      data: threads.map(mapThread),
+      meta: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        totalPages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  })
+);
+
+// Get thread with its messages
+router.get(
+  '/threads/:id',
+  authenticate,
+  requirePermission('sales:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const thread = await getThread(req.params.id, await resolveVisibleRepIds(req.user!));
+    const messages = await query<DBMailMessage>(
+      'SELECT * FROM mail_messages WHERE thread_id = $1 ORDER BY sent_at',
+      [thread.id]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        ...mapThread(thread),
+        messages: messages.map(mapMessage),
+      },
+    });
+  })
+);
+
+// Mark every message in a thread read
+router.post(
+  '/threads/:id/read',
+  authenticate,
+  requirePermission('sales:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await getThread(id, await resolveVisibleRepIds(req.user!));
+
+    await query('UPDATE mail_messages SET is_read = true WHERE thread_id = $1 AND NOT is_read', [id]);
+    await query('UPDATE mail_threads SET unread_count = 0 WHERE id = $1', [id]);
+
+    res.json({
+      success: true,
+      data: mapThread(await getThread(id)),
+    });
+  })
+);
+
+// Reply to a thread from the shared mailbox
+router.post(
+  '/threads/:id/reply',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    requireSmtp();
+    const data = replySchema.parse(req.body);
+    const thread = await getThread(req.params.id, await resolveVisibleRepIds(req.user!));
+
+    const messages = await query<DBMailMessage>(
+      'SELECT * FROM mail_messages WHERE thread_id = $1 ORDER BY sent_at DESC',
+      [thread.id]
+    );
+    const last = messages[0];
+    if (!last) {
+      throw errors.badRequest('Thread has no messages to reply to');
+    }
+
+    // Reply to the last external sender, or everyone on the thread
+    const inbox = getInboxAddress();
+    const lastInbound = messages.find((m) => m.direction === 'inbound');
+    const to = data.replyAll
+      ? thread.participants
+      : [lastInbound?.from_address ?? last.to_addresses.find((a) => a !== inbox)].filter((a): a is string => !!a);
+    if (to.length === 0) {
+      throw errors.badRequest('No recipient to reply to');
+    }
+
+    const subject = /^re:/i.test(thread.subject) ? thread.subject : `Re: ${thread.subject}`;
+    const sent = await sendMail(
+      {
+        to,
+        cc: data.cc,
+        subject,
+        text: data.text,
+        inReplyTo: last.message_id,
+        references: [...last.references, last.message_id],
+      },
+      { id: req.user!.sub, name: req.user!.name }
+    );
+    await recordMessage(sent);
+
+    await logThreadActivity(thread, req.user!.sub, 'email_sent', `Replied to email: ${thread.subject}`);
+
+    res.json({
+      success: true,
+      data: mapThread(await getThread(thread.id)),
+    });
+  })
+);
+
+// Start a new thread, optionally attached to a contact / lead / deal
+router.post(
+  '/send',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    requireSmtp();
+    const data = sendSchema.parse(req.body);
+
+    const visibleRepIds = await resolveVisibleRepIds(req.user!);
+    if (data.dealId) await assertOwnerVisible('deals', data.dealId, visibleRepIds, 'Deal');
+    if (data.leadId) await assertOwnerVisible('leads', data.leadId, visibleRepIds, 'Lead');
+    if (data.contactId) await assertContactVisible(data.contactId, visibleRepIds);
+
+    const sent = await sendMail(
+      { to: data.to, cc: data.cc, subject: data.subject, text: data.text },
+      { id: req.user!.sub, name: req.user!.name }
+    );
+    const threadId = await recordMessage(sent, {
+      contactId: data.contactId,
+      leadId: data.leadId,
+      dealId: data.dealId,
+    });
+    const thread = await getThread(threadId!);
+
+    await logThreadActivity(thread, req.user!.sub, 'email_sent', `Sent email: ${data.subject}`);
+
+    res.status(201).json({
+      success: true,
+      data: mapThread(thread),
+    });
+  })
+);
+
+// Attach a thread to a contact / lead / deal (or detach it).
+// Manual links are kept - auto-linking won't change them afterwards.
+router.patch(
+  '/threads/:id/link',
+  authenticate,
+  requirePermission('sales:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = linkSchema.parse(req.body);
+    const visibleRepIds = await resolveVisibleRepIds(req.user!);
+    const thread = await getThread(id, visibleRepIds);
+
+    let contactId = data.contactId !== undefined ? data.contactId : thread.contact_id ?? null;
+    const leadId = data.leadId !== undefined ? data.leadId : thread.lead_id ?? null;
+    const dealId = data.dealId !== undefined ? data.dealId : thread.deal_id ?? null;
+
+    if (dealId) {
+      const deals = await query<{ contact_id: string | null }>(
+        'SELECT contact_id FROM deals WHERE id = $1 AND deleted_at IS NULL',
+        [dealId]
+      );
+      if (deals.length === 0) {
+        throw errors.notFound('Deal');
+      }
+      await assertOwnerVisible('deals', dealId, visibleRepIds, 'Deal');
+      // Attaching to a deal picks up its contact unless one was given
+      if (data.contactId === undefined && !contactId) contactId = deals[0].contact_id;
+    }
+
+    if (leadId) {
+      const leads = await query<{ id: string }>('SELECT id FROM leads WHERE id = $1', [leadId]);
+      if (leads.length === 0) {
+        throw errors.notFound('Lead');
+      }
+      await assertOwnerVisible('leads', leadId, visibleRepIds, 'Lead');
+    }
+
+    if (contactId) {
+      await assertContactVisible(contactId, visibleRepIds);
+    }
+
+    await query(
+      `UPDATE mail_threads SET contact_id = $2, lead_id = $3, deal_id = $4, linked_manually = true
+       WHERE id = $1`,
+      [id, contactId, leadId, dealId]
+    );
+    const updated = await getThread(id);
+
+    if (dealId !== (thread.deal_id ?? null) || leadId !== (thread.lead_id ?? null)) {
+      await logThreadActivity(updated, req.user!.sub, 'email_linked', `Attached email thread: ${thread.subject}`);
+    }
+
+    res.json({
+      success: true,
+      data: mapThread(updated),
+    });
+  })
+);
+
+export default router;
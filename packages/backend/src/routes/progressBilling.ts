@@ -0,0 +1,471 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { sendPdf } from '../services/pdf.js';
+import {
+  PayApplicationSheet,
+  ScheduleData,
+  buildSheets,
+  continuationSheetCsv,
+  createScheduleFromEstimate,
+  findSheet,
+  invoicePayApplication,
+  loadSchedule,
+  lockSchedule,
+  renderPayApplication,
+} from '../services/progressBilling.js';
+import { sendCsv } from '../utils/csv.js';
+import { AuthenticatedRequest, DBPayApplication, ApiResponse } from '../types/index.js';
+
+// Schedules of values and their pay applications (/api/progress-billing)
+
+const router = Router();
+
+// Validation schemas
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+const retainageSchema = z.number().min(0).max(100);
+
+const createScheduleSchema = z.object({
+  estimateId: z.string().uuid(),
+  retainagePercent: retainageSchema.default(10),
+});
+
+const updateScheduleSchema = z.object({
+  retainagePercent: retainageSchema,
+});
+
+const createApplicationSchema = z.object({
+  applicationDate: dateSchema.optional(),
+  periodTo: dateSchema,
+  // Defaults to the schedule's
+  retainagePercent: retainageSchema.optional(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+// Per line, either the work done this period or the percent of the line
+// complete to date (work only, not stored materials)
+const applicationLineSchema = z.object({
+  lineId: z.string().uuid(),
+  workThisPeriod: z.number().optional(),
+  percentComplete: z.number().min(0).max(100).optional(),
+  storedMaterials: z.number().min(0).optional(),
+});
+
+const updateApplicationSchema = createApplicationSchema.partial().extend({
+  lines: z.array(applicationLineSchema).optional(),
+});
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function mapApplication(sheet: PayApplicationSheet) {
+  const a = sheet.application;
+  return {
+    id: a.id,
+    applicationNumber: a.application_number,
+    applicationDate: a.application_date,
+    periodTo: a.period_to,
+    retainagePercent: parseFloat(String(a.retainage_percent)),
+    status: a.status,
+    invoiceId: a.invoice_id,
+    invoiceNumber: a.invoice_number ?? null,
+    amountDue: a.amount_due === null ? null : parseFloat(String(a.amount_due)),
+    notes: a.notes,
+    invoicedAt: a.invoiced_at,
+    createdAt: a.created_at,
+    updatedAt: a.updated_at,
+    summary: sheet.summary,
+  };
+}
+
+function mapSchedule(data: ScheduleData) {
+  const { schedule: s } = data;
+  const sheets = buildSheets(data);
+  const latest = sheets[sheets.length - 1];
+  const completed = new Map(latest?.rows.map((r) => [r.lineId, r.completedAndStored]));
+
+  return {
+    id: s.id,
+    estimateId: s.estimate_id,
+    estimateNumber: s.estimate_number,
+    estimateTitle: s.estimate_title,
+    clientId: s.client_id,
+    clientName: s.client_name,
+    projectId: s.project_id,
+    projectName: s.project_name,
+    originalContractSum: parseFloat(String(s.original_contract_sum)),
+    retainagePercent: parseFloat(String(s.retainage_percent)),
+    lines: data.lines.map((l) => ({
+      id: l.id,
+      itemNumber: l.item_number,
+      description: l.description,
+      scheduledValue: parseFloat(String(l.scheduled_value)),
+      taxable: l.taxable,
+      changeOrderId: l.change_order_id,
+      completedToDate: completed.get(l.id) ?? 0,
+    })),
+    applications: sheets.map(mapApplication),
+    createdAt: s.created_at,
+    updatedAt: s.updated_at,
+  };
+}
+
+async function loadDraft(scheduleId: string, applicationId: string): Promise<ScheduleData> {
+  const data = await loadSchedule(scheduleId);
+  const application = data.applications.find((a) => a.id === applicationId);
+  if (!application) {
+    throw errors.notFound('Pay application');
+  }
+  if (application.status !== 'draft') {
+    throw errors.badRequest('Invoiced pay applications cannot be changed');
+  }
+  return data;
+}
+
+// Schedules, newest first, with what has been certified for payment so far
+router.get(
+  '/',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { estimateId, projectId } = req.query;
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (estimateId) {
+      params.push(estimateId);
+      conditions.push(`s.estimate_id = $${params.length}`);
+    }
+    if (projectId) {
+      params.push(projectId);
+      conditions.push(`e.project_id = $${params.length}`);
+    }
+
+    const rows = await query<any>(
+      `SELECT s.id, s.estimate_id, s.original_contract_sum, s.retainage_percent, s.created_at,
+              e.estimate_number, e.title AS estimate_title, c.name AS client_name, p.name AS project_name,
+              COALESCE((SELECT SUM(l.scheduled_value) FROM schedule_of_values_lines l WHERE l.schedule_id = s.id), 0) AS contract_sum_to_date,
+              COALESCE((SELECT SUM(a.amount_due) FROM pay_applications a WHERE a.schedule_id = s.id AND a.status = 'invoiced'), 0) AS certified_to_date,
+              (SELECT COUNT(*) FROM pay_applications a WHERE a.schedule_id = s.id) AS application_count,
+              (SELECT MAX(a.application_number) FROM pay_applications a WHERE a.schedule_id = s.id AND a.status = 'draft') AS draft_number
+       FROM schedules_of_values s
+       JOIN estimates e ON s.estimate_id = e.id
+       LEFT JOIN companies c ON e.client_id = c.id
+       LEFT JOIN projects p ON e.project_id = p.id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY s.created_at DESC`,
+      params
+    );
+
+    res.json({
+      success: true,
+      data: rows.map((s) => ({
+        id: s.id,
+        estimateId: s.estimate_id,
+        estimateNumber: s.estimate_number,
+        estimateTitle: s.estimate_title,
+        clientName: s.client_name,
+        projectName: s.project_name,
+        originalContractSum: parseFloat(s.original_contract_sum),
+        contractSumToDate: parseFloat(s.contract_sum_to_date),
+        certifiedToDate: parseFloat(s.certified_to_date),
+        retainagePercent: parseFloat(s.retainage_percent),
+        applicationCount: parseInt(s.application_count),
+        draftApplicationNumber: s.draft_number === null ? null : parseInt(s.draft_number),
+        createdAt: s.created_at,
+      })),
+    });
+  })
+);
+
+// Set up progress billing for an approved estimate
+router.post(
+  '/',
+  authenticate,
+  requirePermission('estimating:edit', 'accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = createScheduleSchema.parse(req.body);
+    const id = await createScheduleFromEstimate(data.estimateId, data.retainagePercent, req.user!.sub);
+
+    res.status(201).json({
+      success: true,
+      data: mapSchedule(await loadSchedule(id)),
+    });
+  })
+);
+
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    res.json({
+      success: true,
+      data: mapSchedule(await loadSchedule(req.params.id)),
+    });
+  })
+);
+
+// Change the default retainage for new pay applications
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = updateScheduleSchema.parse(req.body);
+    await loadSchedule(req.params.id);
+
+    await query('UPDATE schedules_of_values SET retainage_percent = $2 WHERE id = $1', [req.params.id, data.retainagePercent]);
+
+    res.json({
+      success: true,
+      data: mapSchedule(await loadSchedule(req.params.id)),
+    });
+  })
+);
+
+// Remove a schedule nothing has been invoiced from, so the estimate can be
+// billed another way
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = await loadSchedule(req.params.id);
+    if (data.applications.some((a) => a.status === 'invoiced')) {
+      throw errors.badRequest('A schedule with invoiced pay applications cannot be deleted');
+    }
+
+    await query('DELETE FROM schedules_of_values WHERE id = $1', [req.params.id]);
+
+    res.json({
+      success: true,
+      data: { message: 'Schedule of values deleted successfully' },
+    });
+  })
+);
+
+// Start the next pay application. Stored materials carry over from the
+// previous one until they are installed.
+router.post(
+  '/:id/applications',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = createApplicationSchema.parse(req.body);
+
+    const applicationId = await withTransaction(async (db) => {
+      await lockSchedule(db, id);
+      const applications = await db.query<DBPayApplication & { period_to: string }>(
+        `SELECT *, to_char(period_to, 'YYYY-MM-DD') AS period_to FROM pay_applications
+         WHERE schedule_id = $1 ORDER BY application_number DESC LIMIT 1`,
+        [id]
+      );
+      const previous = applications.rows[0];
+      if (previous?.status === 'draft') {
+        throw errors.badRequest(`Pay application #${previous.application_number} has not been invoiced yet`);
+      }
+      if (previous && data.periodTo <= previous.period_to) {
+        throw errors.badRequest('The period must end after the previous pay application\'s');
+      }
+
+      const inserted = await db.query<DBPayApplication>(
+        `INSERT INTO pay_applications (schedule_id, application_number, application_date, period_to, retainage_percent, notes, created_by)
+         VALUES ($1, $2, COALESCE($3::date, CURRENT_DATE), $4,
+                 COALESCE($5, (SELECT retainage_percent FROM schedules_of_values WHERE id = $1)), $6, $7)
+         RETURNING id`,
+        [
+          id,
+          (previous?.application_number ?? 0) + 1,
+          data.applicationDate ?? null,
+          data.periodTo,
+          data.retainagePercent ?? null,
+          data.notes ?? null,
+          req.user!.sub,
+        ]
+      );
+      const newId = inserted.rows[0].id;
+
+      if (previous) {
+        await db.query(
+          `INSERT INTO pay_application_lines (pay_application_id, line_id, stored_materials)
+           SELECT $1, line_id, stored_materials FROM pay_application_lines
+           WHERE pay_application_id = $2 AND stored_materials > 0`,
+          [newId, previous.id]
+        );
+      }
+      return newId;
+    });
+
+    const schedule = await loadSchedule(id);
+    const sheet = findSheet(schedule, applicationId);
+    res.status(201).json({
+      success: true,
+      data: { ...mapApplication(sheet), rows: sheet.rows },
+    });
+  })
+);
+
+// An application's G702 summary and G703 continuation sheet
+router.get(
+  '/:id/applications/:applicationId',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const sheet = findSheet(await loadSchedule(req.params.id), req.params.applicationId);
+
+    res.json({
+      success: true,
+      data: { ...mapApplication(sheet), rows: sheet.rows },
+    });
+  })
+);
+
+// Update a draft pay application. lines, when given, update only the lines
+// listed.
+router.patch(
+  '/:id/applications/:applicationId',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, applicationId } = req.params;
+    const data = updateApplicationSchema.parse(req.body);
+    const schedule = await loadDraft(id, applicationId);
+    const sheet = findSheet(schedule, applicationId);
+
+    if (data.periodTo) {
+      const index = schedule.applications.findIndex((a) => a.id === applicationId);
+      const previous = schedule.applications[index - 1];
+      if (previous && data.periodTo <= previous.period_to) {
+        throw errors.badRequest('The period must end after the previous pay application\'s');
+      }
+    }
+
+    // Work out each line's amounts and check it stays within its scheduled value
+    const rows = new Map(sheet.rows.map((r) => [r.lineId, r]));
+    const lines = (data.lines ?? []).map((input) => {
+      const row = rows.get(input.lineId);
+      if (!row) {
+        throw errors.badRequest('Unknown schedule of values line');
+      }
+      const workThisPeriod = input.percentComplete !== undefined
+        ? round2((input.percentComplete / 100) * row.scheduledValue - row.previousWork)
+        : input.workThisPeriod ?? row.workThisPeriod;
+      const storedMaterials = input.storedMaterials ?? row.storedMaterials;
+
+      if (round2(row.previousWork + workThisPeriod) < 0) {
+        throw errors.badRequest(`Item ${row.itemNumber}: work completed to date cannot be negative`);
+      }
+      if (round2(row.previousWork + workThisPeriod + storedMaterials) > row.scheduledValue) {
+        throw errors.badRequest(`Item ${row.itemNumber}: completed and stored cannot exceed the scheduled value`);
+      }
+      return { lineId: input.lineId, workThisPeriod: round2(workThisPeriod), storedMaterials: round2(storedMaterials) };
+    });
+
+    await withTransaction(async (db) => {
+      await lockSchedule(db, id);
+      await db.query(
+        `UPDATE pay_applications SET
+           application_date = COALESCE($2, application_date),
+           period_to = COALESCE($3, period_to),
+           retainage_percent = COALESCE($4, retainage_percent),
+           notes = CASE WHEN $5 THEN $6 ELSE notes END
+         WHERE id = $1 AND status = 'draft'`,
+        [
+          applicationId,
+          data.applicationDate,
+          data.periodTo,
+          data.retainagePercent,
+          data.notes !== undefined,
+          data.notes ?? null,
+        ]
+      );
+
+      for (const line of lines) {
+        await db.query(
+          `INSERT INTO pay_application_lines (pay_application_id, line_id, work_this_period, stored_materials)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (pay_application_id, line_id)
+           DO UPDATE SET work_this_period = EXCLUDED.work_this_period, stored_materials = EXCLUDED.stored_materials`,
+          [applicationId, line.lineId, line.workThisPeriod, line.storedMaterials]
+        );
+      }
+    });
+
+    const updated = findSheet(await loadSchedule(id), applicationId);
+    res.json({
+      success: true,
+      data: { ...mapApplication(updated), rows: updated.rows },
+    });
+  })
+);
+
+router.delete(
+  '/:id/applications/:applicationId',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    await loadDraft(req.params.id, req.params.applicationId);
+
+    await query("DELETE FROM pay_applications WHERE id = $1 AND status = 'draft'", [req.params.applicationId]);
+
+    res.json({
+      success: true,
+      data: { message: 'Pay application deleted successfully' },
+    });
+  })
+);
+
+// Invoice the current payment due. Fixes the application; an invoiced one
+// whose invoice was deleted can be invoiced again.
+router.post(
+  '/:id/applications/:applicationId/invoice',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const result = await invoicePayApplication(req.params.id, req.params.applicationId, req.user!.sub);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...result,
+        message: `Invoice ${result.invoiceNumber} created`,
+      },
+    });
+  })
+);
+
+router.get(
+  '/:id/applications/:applicationId/pdf',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const schedule = await loadSchedule(req.params.id);
+    const sheet = findSheet(schedule, req.params.applicationId);
+    const pdf = await renderPayApplication(schedule, sheet);
+
+    sendPdf(res, pdf, `${schedule.schedule.estimate_number}-pay-app-${sheet.application.application_number}.pdf`);
+  })
+);
+
+// The G703 continuation sheet for a spreadsheet
+router.get(
+  '/:id/applications/:applicationId/csv',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const schedule = await loadSchedule(req.params.id);
+    const sheet = findSheet(schedule, req.params.applicationId);
+
+    sendCsv(
+      res,
+      continuationSheetCsv(sheet),
+      `${schedule.schedule.estimate_number}-pay-app-${sheet.application.application_number}.csv`
+    );
+  })
+);
+
+export default router;
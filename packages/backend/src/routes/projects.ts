@@ -3,10 +3,42 @@ import { z } from 'zod';
 import { query } from '../config/database.js';
 import { authenticate, requirePermission } from '../middleware/auth.js';
 import { asyncHandler, errors } from '../middleware/errorHandler.js';
-import { AuthenticatedRequest, DBProject, ApiResponse } from '../types/index.js';
+import { jobsiteAddressSchema } from '../utils/sales.js';
+import { addDependency, loadSchedule, updatePhase } from '../services/projectSchedule.js';
+import { loadComplianceSummaries } from '../services/vendorCompliance.js';
+import {
+  AuthenticatedRequest,
+  DBProject,
+  DBProjectPhase,
+  DBProjectSubcontractor,
+  ApiResponse,
+} from '../types/index.js';
 
 const router = Router();
 
+// Spent is the project's job cost to date, summed from its cost entries
+const SPENT_COLUMN = '(SELECT COALESCE(SUM(e.amount), 0) FROM job_cost_entries e WHERE e.project_id = p.id) AS spent';
+
+// The contract is the project's approved estimates (before tax), revised by
+// its approved change orders
+const CONTRACT_COLUMNS = `
+  (SELECT COALESCE(SUM(e.subtotal), 0) FROM estimates e WHERE e.project_id = p.id AND e.status = 'approved') AS original_contract_value,
+  (SELECT COALESCE(SUM(co.amount), 0) FROM change_orders co WHERE co.project_id = p.id AND co.status = 'approved') AS approved_change_orders,
+  (SELECT COALESCE(SUM(co.amount), 0) FROM change_orders co WHERE co.project_id = p.id AND co.status = 'pending') AS pending_change_orders,
+  (SELECT COALESCE(SUM(co.schedule_impact_days), 0) FROM change_orders co WHERE co.project_id = p.id AND co.status = 'approved') AS schedule_impact_days`;
+
+function mapContract(p: any) {
+  const original = parseFloat(p.original_contract_value);
+  const approved = parseFloat(p.approved_change_orders);
+  return {
+    originalContractValue: original,
+    approvedChangeOrders: approved,
+    pendingChangeOrders: parseFloat(p.pending_change_orders),
+    revisedContractValue: Math.round((original + approved) * 100) / 100,
+    scheduleImpactDays: parseInt(p.schedule_impact_days),
+  };
+}
+
 // Validation schemas
 const createProjectSchema = z.object({
   name: z.string().min(1).max(255),
@@ -18,9 +50,53 @@ const createProjectSchema = z.object({
   endDate: z.string().optional(),
   budget: z.number().positive().optional(),
   managerId: z.string().uuid().optional(),
+  // Where the work is done; sets the sales tax jurisdiction of its estimates and invoices
+  jobsiteAddress: jobsiteAddressSchema.optional(),
+});
+
+const updateProjectSchema = createProjectSchema.partial().extend({
+  // null clears the jobsite; the client's address is used for tax instead
+  jobsiteAddress: jobsiteAddressSchema.nullable().optional(),
+});
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+const phaseSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  isMilestone: z.boolean().default(false),
+  startDate: dateSchema,
+  // Left out, the phase is a single day
+  endDate: dateSchema.optional(),
+  percentComplete: z.number().int().min(0).max(100).default(0),
+});
+
+const updatePhaseSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  isMilestone: z.boolean().optional(),
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.optional(),
+  percentComplete: z.number().int().min(0).max(100).optional(),
+});
+
+const dependencySchema = z.object({
+  predecessorId: z.string().uuid(),
+  successorId: z.string().uuid(),
+});
+
+const subcontractorSchema = z.object({
+  companyId: z.string().uuid(),
+  trade: z.string().trim().max(100).nullable().optional(),
+  scope: z.string().trim().max(5000).nullable().optional(),
 });
 
-const updateProjectSchema = createProjectSchema.partial();
+const updateSubcontractorSchema = subcontractorSchema.omit({ companyId: true });
+
+async function assertProject(id: string): Promise<void> {
+  const projects = await query<{ id: string }>('SELECT id FROM projects WHERE id = $1', [id]);
+  if (projects.length === 0) {
+    throw errors.notFound('Project');
+  }
+}
 
 // List all projects
 router.get(
@@ -76,12 +152,14 @@ router.get(
     // Get paginated projects with joins
     const projects = await query<any>(
       `SELECT p.*, 
-              c.company_name as client_name,
+              c.name as client_name,
               u.name as manager_name,
+              ${SPENT_COLUMN},
+              ${CONTRACT_COLUMNS},
               (SELECT COUNT(*) FROM tasks t WHERE t.project_id = p.id) as task_count,
               (SELECT COUNT(*) FROM tasks t WHERE t.project_id = p.id AND t.status = 'completed') as completed_tasks
        FROM projects p
-       LEFT JOIN clients c ON p.client_id = c.id
+       LEFT JOIN companies c ON p.client_id = c.id
        LEFT JOIN users u ON p.manager_id = u.id
        ${whereClause}
        ORDER BY p.created_at DESC
@@ -102,11 +180,13 @@ router.get(
         startDate: p.start_date,
         endDate: p.end_date,
         budget: p.budget ? parseFloat(p.budget) : null,
-        spent: p.spent ? parseFloat(p.spent) : 0,
+        spent: parseFloat(p.spent),
+        ...mapContract(p),
         managerId: p.manager_id,
         managerName: p.manager_name,
         taskCount: parseInt(p.task_count),
         completedTasks: parseInt(p.completed_tasks),
+        jobsiteAddress: p.jobsite_address ?? null,
         createdAt: p.created_at,
       })),
       meta: {
@@ -129,10 +209,12 @@ router.get(
 
     const projects = await query<any>(
       `SELECT p.*, 
-              c.company_name as client_name,
-              u.name as manager_name
+              c.name as client_name,
+              u.name as manager_name,
+              ${SPENT_COLUMN},
+              ${CONTRACT_COLUMNS}
        FROM projects p
-       LEFT JOIN clients c ON p.client_id = c.id
+       LEFT JOIN companies c ON p.client_id = c.id
        LEFT JOIN users u ON p.manager_id = u.id
        WHERE p.id = $1`,
       [id]
@@ -146,9 +228,8 @@ router.get(
 
     // Get tasks
     const tasks = await query<any>(
-      `SELECT t.*, u.name as assignee_name
+      `SELECT t.*
        FROM tasks t
-       LEFT JOIN users u ON t.assignee_id = u.id
        WHERE t.project_id = $1
        ORDER BY t.created_at DESC`,
       [id]
@@ -178,9 +259,11 @@ router.get(
         startDate: project.start_date,
         endDate: project.end_date,
         budget: project.budget ? parseFloat(project.budget) : null,
-        spent: project.spent ? parseFloat(project.spent) : 0,
+        spent: parseFloat(project.spent),
+        ...mapContract(project),
         managerId: project.manager_id,
         managerName: project.manager_name,
+        jobsiteAddress: project.jobsite_address ?? null,
         createdAt: project.created_at,
         updatedAt: project.updated_at,
         tasks: tasks.map((t: any) => ({
@@ -189,8 +272,8 @@ router.get(
           description: t.description,
           status: t.status,
           priority: t.priority,
-          assigneeId: t.assignee_id,
-          assigneeName: t.assignee_name,
+          assigneeId: t.assigned_user_id,
+          assigneeName: t.assigned_user_name,
           dueDate: t.due_date,
           completedAt: t.completed_at,
         })),
@@ -216,8 +299,8 @@ router.post(
     const data = createProjectSchema.parse(req.body);
 
     const projects = await query<DBProject>(
-      `INSERT INTO projects (name, description, client_id, status, priority, start_date, end_date, budget, manager_id)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `INSERT INTO projects (name, description, client_id, status, priority, start_date, end_date, budget, manager_id, jobsite_address)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
        RETURNING *`,
       [
         data.name,
@@ -229,6 +312,7 @@ router.post(
         data.endDate,
         data.budget,
         data.managerId || req.user!.sub,
+        data.jobsiteAddress ? JSON.stringify(data.jobsiteAddress) : null,
       ]
     );
 
@@ -254,6 +338,7 @@ router.post(
         endDate: project.end_date,
         budget: project.budget ? parseFloat(String(project.budget)) : null,
         managerId: project.manager_id,
+        jobsiteAddress: project.jobsite_address ?? null,
         createdAt: project.created_at,
       },
     });
@@ -269,8 +354,8 @@ router.patch(
     const { id } = req.params;
     const data = updateProjectSchema.parse(req.body);
 
-    const projects = await query<DBProject>(
-      `UPDATE projects SET
+    const projects = await query<DBProject & { spent: string }>(
+      `UPDATE projects p SET
          name = COALESCE($2, name),
          description = COALESCE($3, description),
          client_id = COALESCE($4, client_id),
@@ -279,9 +364,10 @@ router.patch(
          start_date = COALESCE($7, start_date),
          end_date = COALESCE($8, end_date),
          budget = COALESCE($9, budget),
-         manager_id = COALESCE($10, manager_id)
+         manager_id = COALESCE($10, manager_id),
+         jobsite_address = CASE WHEN $11 THEN $12::jsonb ELSE jobsite_address END
        WHERE id = $1
-       RETURNING *`,
+       RETURNING *, ${SPENT_COLUMN}`,
       [
         id,
         data.name,
@@ -293,6 +379,8 @@ router.patch(
         data.endDate,
         data.budget,
         data.managerId,
+        data.jobsiteAddress !== undefined,
+        data.jobsiteAddress ? JSON.stringify(data.jobsiteAddress) : null,
       ]
     );
 
@@ -321,8 +409,9 @@ router.patch(
         startDate: project.start_date,
         endDate: project.end_date,
         budget: project.budget ? parseFloat(String(project.budget)) : null,
-        spent: project.spent ? parseFloat(String(project.spent)) : 0,
+        spent: parseFloat(project.spent),
         managerId: project.manager_id,
+        jobsiteAddress: project.jobsite_address ?? null,
         updatedAt: project.updated_at,
       },
     });
@@ -360,4 +449,292 @@ router.delete(
   })
 );
 
+// Get the project's schedule: phases, milestones and the dependencies between
+// them, with float and the critical path
+router.get(
+  '/:id/schedule',
+  authenticate,
+  requirePermission('projects:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    await assertProject(req.params.id);
+
+    res.json({
+      success: true,
+      data: await loadSchedule(req.params.id),
+    });
+  })
+);
+
+// Add a phase or milestone
+router.post(
+  '/:id/phases',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = phaseSchema.parse(req.body);
+    await assertProject(id);
+
+    const endDate = data.isMilestone ? data.startDate : data.endDate ?? data.startDate;
+    if (endDate < data.startDate) {
+      throw errors.badRequest('A phase cannot end before it starts');
+    }
+
+    const phases = await query<DBProjectPhase>(
+      `INSERT INTO project_phases (project_id, name, is_milestone, start_date, end_date, percent_complete, sort_order)
+       VALUES ($1, $2, $3, $4, $5, $6,
+               (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM project_phases WHERE project_id = $1))
+       RETURNING id`,
+      [id, data.name, data.isMilestone, data.startDate, endDate, data.percentComplete]
+    );
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'project', $2, 'updated', $3)`,
+      [req.user!.sub, id, `Added ${data.isMilestone ? 'milestone' : 'phase'}: ${data.name}`]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { id: phases[0].id },
+    });
+  })
+);
+
+// Update a phase; successors are pushed back as its dependencies require
+router.patch(
+  '/:id/phases/:phaseId',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = updatePhaseSchema.parse(req.body);
+    const { phase, moved } = await updatePhase(req.params.id, req.params.phaseId, data);
+
+    res.json({
+      success: true,
+      data: {
+        ...phase,
+        moved,
+        message: moved.length > 0 ? `Also moved ${moved.join(', ')}` : 'Phase updated',
+      },
+    });
+  })
+);
+
+// Delete a phase and its dependencies
+router.delete(
+  '/:id/phases/:phaseId',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, phaseId } = req.params;
+
+    const phases = await query<DBProjectPhase>(
+      'DELETE FROM project_phases WHERE id = $1 AND project_id = $2 RETURNING name, is_milestone',
+      [phaseId, id]
+    );
+
+    if (phases.length === 0) {
+      throw errors.notFound('Phase');
+    }
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'project', $2, 'updated', $3)`,
+      [req.user!.sub, id, `Removed ${phases[0].is_milestone ? 'milestone' : 'phase'}: ${phases[0].name}`]
+    );
+
+    res.json({
+      success: true,
+      data: { message: 'Phase deleted successfully' },
+    });
+  })
+);
+
+// Make one phase wait for another to finish
+router.post(
+  '/:id/dependencies',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = dependencySchema.parse(req.body);
+    const { moved } = await addDependency(req.params.id, data.predecessorId, data.successorId);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        moved,
+        message: moved.length > 0 ? `Moved ${moved.join(', ')} to follow on` : 'Dependency added',
+      },
+    });
+  })
+);
+
+// Remove a dependency; nothing is moved back
+router.delete(
+  '/:id/dependencies/:predecessorId/:successorId',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, predecessorId, successorId } = req.params;
+
+    const removed = await query(
+      `DELETE FROM project_phase_dependencies d
+       USING project_phases p
+       WHERE d.predecessor_id = $1 AND d.successor_id = $2 AND p.id = d.predecessor_id AND p.project_id = $3
+       RETURNING d.predecessor_id`,
+      [predecessorId, successorId, id]
+    );
+
+    if (removed.length === 0) {
+      throw errors.notFound('Dependency');
+    }
+
+    res.json({
+      success: true,
+      data: { message: 'Dependency removed' },
+    });
+  })
+);
+
+// Subcontractors on the project, with where each stands on insurance and
+// prequalification
+router.get(
+  '/:id/subcontractors',
+  authenticate,
+  requirePermission('projects:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    await assertProject(id);
+
+    const rows = await query<DBProjectSubcontractor & { company_name: string; company_slug: string | null; phone: string | null }>(
+      `SELECT ps.*, c.name AS company_name, c.slug AS company_slug, c.phone
+       FROM project_subcontractors ps
+       JOIN companies c ON ps.company_id = c.id
+       WHERE ps.project_id = $1
+       ORDER BY ps.trade NULLS LAST, c.name`,
+      [id]
+    );
+    const compliance = await loadComplianceSummaries(rows.map((r) => r.company_id));
+
+    res.json({
+      success: true,
+      data: rows.map((r) => ({
+        id: r.id,
+        projectId: r.project_id,
+        companyId: r.company_id,
+        companyName: r.company_name,
+        companySlug: r.company_slug,
+        phone: r.phone,
+        trade: r.trade,
+        scope: r.scope,
+        compliance: compliance.get(r.company_id) ?? null,
+        createdAt: r.created_at,
+      })),
+    });
+  })
+);
+
+// Assign a subcontractor; the company is marked as one if it wasn't already
+router.post(
+  '/:id/subcontractors',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = subcontractorSchema.parse(req.body);
+    await assertProject(id);
+
+    const companies = await query<{ name: string }>(
+      'UPDATE companies SET is_subcontractor = true WHERE id = $1 RETURNING name',
+      [data.companyId]
+    );
+    if (companies.length === 0) {
+      throw errors.notFound('Company');
+    }
+
+    const inserted = await query<{ id: string }>(
+      `INSERT INTO project_subcontractors (project_id, company_id, trade, scope, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (project_id, company_id) DO NOTHING
+       RETURNING id`,
+      [id, data.companyId, data.trade || null, data.scope || null, req.user!.sub]
+    );
+    if (inserted.length === 0) {
+      throw errors.conflict(`${companies[0].name} is already on this project`);
+    }
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'project', $2, 'updated', $3)`,
+      [req.user!.sub, id, `Assigned subcontractor ${companies[0].name}${data.trade ? ` (${data.trade})` : ''}`]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { id: inserted[0].id },
+    });
+  })
+);
+
+router.patch(
+  '/:id/subcontractors/:subcontractorId',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, subcontractorId } = req.params;
+    const data = updateSubcontractorSchema.parse(req.body);
+
+    const updated = await query<{ id: string }>(
+      `UPDATE project_subcontractors SET
+         trade = CASE WHEN $3 THEN $4 ELSE trade END,
+         scope = CASE WHEN $5 THEN $6 ELSE scope END
+       WHERE id = $1 AND project_id = $2
+       RETURNING id`,
+      [subcontractorId, id, data.trade !== undefined, data.trade || null, data.scope !== undefined, data.scope || null]
+    );
+
+    if (updated.length === 0) {
+      throw errors.notFound('Subcontractor');
+    }
+
+    res.json({
+      success: true,
+      data: { id: updated[0].id },
+    });
+  })
+);
+
+router.delete(
+  '/:id/subcontractors/:subcontractorId',
+  authenticate,
+  requirePermission('projects:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id, subcontractorId } = req.params;
+
+    const removed = await query<{ company_name: string }>(
+      `DELETE FROM project_subcontractors ps
+       USING companies c
+       WHERE ps.id = $1 AND ps.project_id = $2 AND c.id = ps.company_id
+       RETURNING c.name AS company_name`,
+      [subcontractorId, id]
+    );
+
+    if (removed.length === 0) {
+      throw errors.notFound('Subcontractor');
+    }
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'project', $2, 'updated', $3)`,
+      [req.user!.sub, id, `Removed subcontractor ${removed[0].company_name}`]
+    );
+
+    res.json({
+      success: true,
+      data: { message: 'Subcontractor removed' },
+    });
+  })
+);
+
 export default router;
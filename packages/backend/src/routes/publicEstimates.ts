@@ -0,0 +1,85 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { sendPdf } from '../services/pdf.js';
+import {
+  ApprovalLinkView,
+  contentOfRevision,
+  decideApproval,
+  getApprovalLink,
+  recordLinkViewed,
+  renderRevisionPdf,
+  revisionLabel,
+} from '../services/estimateRevisions.js';
+import { ApiResponse } from '../types/index.js';
+
+// Client-facing estimate approval. No login: the token in the URL is the
+// credential, and it only ever reaches the one revision it was issued for.
+
+const router = Router();
+
+const decisionSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  // Typed signature
+  signatureName: z.string().trim().min(2).max(255),
+  note: z.string().max(2000).optional(),
+});
+
+function mapLinkView(view: ApprovalLinkView) {
+  const { link, revision, estimate } = view;
+  return {
+    estimateNumber: estimate.estimate_number,
+    revisionLabel: revisionLabel(revision.revision),
+    clientName: view.clientName,
+    projectName: view.projectName,
+    ...contentOfRevision(revision),
+    sentAt: revision.created_at,
+    status: link.status,
+    expiresAt: link.expires_at,
+    expired: view.expired,
+    signatureName: link.signature_name,
+    decidedAt: link.decided_at,
+  };
+}
+
+router.get(
+  '/:token',
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const view = await getApprovalLink(req.params.token);
+    await recordLinkViewed(view, req.ip);
+
+    res.json({
+      success: true,
+      data: mapLinkView(view),
+    });
+  })
+);
+
+router.get(
+  '/:token/pdf',
+  asyncHandler(async (req: Request, res: Response) => {
+    const view = await getApprovalLink(req.params.token);
+    const pdf = await renderRevisionPdf(view.estimate, view.revision);
+    sendPdf(res, pdf, `${view.estimate.estimate_number}-rev-${revisionLabel(view.revision.revision)}.pdf`);
+  })
+);
+
+router.post(
+  '/:token/decision',
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const data = decisionSchema.parse(req.body);
+
+    const view = await decideApproval(req.params.token, {
+      ...data,
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      data: mapLinkView(view),
+    });
+  })
+);
+
+export default router;
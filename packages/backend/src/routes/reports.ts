@@ -0,0 +1,352 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { sendCsv, toCsv } from '../utils/csv.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+// Accounting reports. Each returns its columns alongside the rows so the
+// portal can render any report with one table, and `?format=csv` downloads
+// the same rows (plus a totals line) as CSV.
+
+interface ReportColumn {
+  key: string;
+  label: string;
+  type: 'text' | 'date' | 'money' | 'number';
+}
+
+type ReportRow = Record<string, string | number | null>;
+
+interface Report {
+  columns: ReportColumn[];
+  rows: ReportRow[];
+}
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const rangeSchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+const revenueSchema = rangeSchema.extend({
+  groupBy: z.enum(['month', 'client', 'project']).default('month'),
+});
+
+const taxSchema = rangeSchema.extend({
+  groupBy: z.enum(['month', 'rate', 'jurisdiction']).default('month'),
+});
+
+// Invoices that count as billed
+const BILLED = "i.status NOT IN ('draft', 'cancelled')";
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Defaults to the year to date
+function resolveRange(range: { from?: string; to?: string }) {
+  const to = range.to || today();
+  return { from: range.from || `${to.slice(0, 4)}-01-01`, to };
+}
+
+// pg returns NUMERIC as strings; convert the money and number columns
+function normalize(columns: ReportColumn[], rows: Record<string, unknown>[]): ReportRow[] {
+  return rows.map((row) => {
+    const out: ReportRow = {};
+    for (const column of columns) {
+      const value = row[column.key];
+      if (column.type === 'money' || column.type === 'number') {
+        out[column.key] = value === null || value === undefined ? 0 : parseFloat(String(value));
+      } else {
+        out[column.key] = value === null || value === undefined ? null : String(value);
+      }
+    }
+    return out;
+  });
+}
+
+function totalsOf(report: Report): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const column of report.columns) {
+    if (column.type !== 'money' && column.type !== 'number') continue;
+    const sum = report.rows.reduce((acc, row) => acc + (row[column.key] as number), 0);
+    totals[column.key] = Math.round(sum * 100) / 100;
+  }
+  return totals;
+}
+
+function sendReport(
+  res: Response<ApiResponse>,
+  name: string,
+  format: 'json' | 'csv',
+  params: Record<string, string | undefined>,
+  report: Report
+) {
+  const totals = totalsOf(report);
+
+  if (format === 'csv') {
+    const header = report.columns.map((c) => c.label);
+    const rows = report.rows.map((row) => report.columns.map((c) => row[c.key]));
+    const totalsRow = report.columns.map((c, index) =>
+      index === 0 ? 'Total' : c.key in totals ? totals[c.key].toFixed(c.type === 'money' ? 2 : 0) : ''
+    );
+    const suffix = [params.from, params.to].filter(Boolean).join('_to_');
+    sendCsv(res, toCsv(header, [...rows, totalsRow]), `${name}${suffix ? `_${suffix}` : ''}.csv`);
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: { ...params, ...report, totals },
+  });
+}
+
+// Accounts receivable aging by client, as of `to` (default today). Balances
+// count payments dated on or before that day; `from` optionally limits the
+// invoices to those issued since.
+router.get(
+  '/ar-aging',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const params = rangeSchema.parse(req.query);
+    const asOf = params.to || today();
+
+    const columns: ReportColumn[] = [
+      { key: 'client', label: 'Client', type: 'text' },
+      { key: 'current', label: 'Current', type: 'money' },
+      { key: 'days1to30', label: '1-30 Days', type: 'money' },
+      { key: 'days31to60', label: '31-60 Days', type: 'money' },
+      { key: 'days61to90', label: '61-90 Days', type: 'money' },
+      { key: 'days90plus', label: '90+ Days', type: 'money' },
+      { key: 'total', label: 'Total Due', type: 'money' },
+    ];
+
+    const rows = await query<Record<string, unknown>>(
+      `WITH open_balances AS (
+         SELECT i.client_id, $1::date - i.due_date AS days_past_due,
+                i.total - COALESCE((SELECT SUM(p.amount) FROM payments p
+                                    WHERE p.invoice_id = i.id AND p.payment_date <= $1::date), 0) AS balance
+         FROM invoices i
+         WHERE ${BILLED}
+           AND i.issue_date <= $1::date
+           AND ($2::date IS NULL OR i.issue_date >= $2::date)
+       )
+       SELECT c.name AS client,
+              COALESCE(SUM(b.balance) FILTER (WHERE b.days_past_due <= 0), 0) AS "current",
+              COALESCE(SUM(b.balance) FILTER (WHERE b.days_past_due BETWEEN 1 AND 30), 0) AS days1to30,
+              COALESCE(SUM(b.balance) FILTER (WHERE b.days_past_due BETWEEN 31 AND 60), 0) AS days31to60,
+              COALESCE(SUM(b.balance) FILTER (WHERE b.days_past_due BETWEEN 61 AND 90), 0) AS days61to90,
+              COALESCE(SUM(b.balance) FILTER (WHERE b.days_past_due > 90), 0) AS days90plus,
+              SUM(b.balance) AS total
+       FROM open_balances b
+       JOIN companies c ON b.client_id = c.id
+       WHERE b.balance > 0
+       GROUP BY c.id, c.name
+       ORDER BY total DESC, c.name`,
+      [asOf, params.from ?? null]
+    );
+
+    sendReport(res, 'ar-aging', params.format, { from: params.from, to: asOf }, {
+      columns,
+      rows: normalize(columns, rows),
+    });
+  })
+);
+
+// Cash receipts journal: money received, by payment date. Credit applied
+// from earlier overpayments isn't new cash and is left out.
+router.get(
+  '/cash-receipts',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const params = rangeSchema.parse(req.query);
+    const range = resolveRange(params);
+
+    const columns: ReportColumn[] = [
+      { key: 'date', label: 'Date', type: 'date' },
+      { key: 'invoice', label: 'Invoice', type: 'text' },
+      { key: 'client', label: 'Client', type: 'text' },
+      { key: 'method', label: 'Method', type: 'text' },
+      { key: 'reference', label: 'Reference', type: 'text' },
+      { key: 'applied', label: 'Applied', type: 'money' },
+      { key: 'credited', label: 'Credited', type: 'money' },
+      { key: 'received', label: 'Received', type: 'money' },
+    ];
+
+    const rows = await query<Record<string, unknown>>(
+      `SELECT to_char(p.payment_date, 'YYYY-MM-DD') AS date, i.invoice_number AS invoice,
+              c.name AS client, UPPER(p.method) AS method, p.reference,
+              p.amount AS applied, p.overpayment AS credited, p.amount + p.overpayment AS received
+       FROM payments p
+       JOIN invoices i ON p.invoice_id = i.id
+       LEFT JOIN companies c ON p.client_id = c.id
+       WHERE p.method <> 'credit'
+         AND p.payment_date BETWEEN $1::date AND $2::date
+       ORDER BY p.payment_date, p.created_at`,
+      [range.from, range.to]
+    );
+
+    sendReport(res, 'cash-receipts', params.format, range, {
+      columns,
+      rows: normalize(columns, rows),
+    });
+  })
+);
+
+// Group keys for revenue: billed rows are dated by issue date, collected
+// rows by payment date
+const REVENUE_GROUPS = {
+  month: {
+    label: 'Month',
+    billedKey: "to_char(i.issue_date, 'YYYY-MM')",
+    collectedKey: "to_char(p.payment_date, 'YYYY-MM')",
+    name: null,
+  },
+  client: {
+    label: 'Client',
+    billedKey: 'i.client_id::text',
+    collectedKey: 'i.client_id::text',
+    name: 'c.name',
+  },
+  project: {
+    label: 'Project',
+    billedKey: "COALESCE(i.project_id::text, '')",
+    collectedKey: "COALESCE(i.project_id::text, '')",
+    name: "COALESCE(pr.name, 'No project')",
+  },
+} as const;
+
+// Revenue billed (invoice subtotal, before tax) and collected in the period,
+// by month, client or project
+router.get(
+  '/revenue',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const params = revenueSchema.parse(req.query);
+    const range = resolveRange(params);
+    const group = REVENUE_GROUPS[params.groupBy];
+
+    const columns: ReportColumn[] = [
+      { key: 'group', label: group.label, type: 'text' },
+      { key: 'invoices', label: 'Invoices', type: 'number' },
+      { key: 'revenue', label: 'Revenue', type: 'money' },
+      { key: 'tax', label: 'Tax', type: 'money' },
+      { key: 'invoiced', label: 'Invoiced', type: 'money' },
+      { key: 'collected', label: 'Collected', type: 'money' },
+    ];
+
+    const rows = await query<Record<string, unknown>>(
+      `WITH billed AS (
+         SELECT ${group.billedKey} AS key, ${group.name ?? group.billedKey} AS name,
+                COUNT(*) AS invoices, SUM(i.subtotal) AS revenue,
+                SUM(COALESCE(i.tax_amount, 0)) AS tax, SUM(i.total) AS invoiced
+         FROM invoices i
+         LEFT JOIN companies c ON i.client_id = c.id
+         LEFT JOIN projects pr ON i.project_id = pr.id
+         WHERE ${BILLED} AND i.issue_date BETWEEN $1::date AND $2::date
+         GROUP BY 1, 2
+       ),
+       collected AS (
+         SELECT ${group.collectedKey} AS key, ${group.name ?? group.collectedKey} AS name,
+                SUM(p.amount) AS collected
+         FROM payments p
+         JOIN invoices i ON p.invoice_id = i.id
+         LEFT JOIN companies c ON i.client_id = c.id
+         LEFT JOIN projects pr ON i.project_id = pr.id
+         WHERE p.payment_date BETWEEN $1::date AND $2::date
+         GROUP BY 1, 2
+       )
+       SELECT COALESCE(b.name, col.name) AS "group",
+              COALESCE(b.invoices, 0) AS invoices, COALESCE(b.revenue, 0) AS revenue,
+              COALESCE(b.tax, 0) AS tax, COALESCE(b.invoiced, 0) AS invoiced,
+              COALESCE(col.collected, 0) AS collected
+       FROM billed b
+       FULL OUTER JOIN collected col ON b.key = col.key
+       ORDER BY ${params.groupBy === 'month' ? '1' : 'COALESCE(b.invoiced, 0) DESC, 1'}`,
+      [range.from, range.to]
+    );
+
+    sendReport(res, `revenue-by-${params.groupBy}`, params.format, { ...range, groupBy: params.groupBy }, {
+      columns,
+      rows: normalize(columns, rows),
+    });
+  })
+);
+
+// Sales tax billed on invoices issued in the period, and the share of
+// payments received in it that was tax. Taxable sales are the taxable lines of
+// taxed invoices; everything else, including sales to exempt clients, is
+// non-taxable.
+router.get(
+  '/tax',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const params = taxSchema.parse(req.query);
+    const range = resolveRange(params);
+    const groupLabels = { month: 'Month', rate: 'Tax Rate', jurisdiction: 'Jurisdiction' };
+
+    const columns: ReportColumn[] = [
+      { key: 'group', label: groupLabels[params.groupBy], type: 'text' },
+      { key: 'taxableSales', label: 'Taxable Sales', type: 'money' },
+      { key: 'exemptSales', label: 'Non-taxable Sales', type: 'money' },
+      { key: 'taxBilled', label: 'Tax Billed', type: 'money' },
+      { key: 'taxCollected', label: 'Tax Collected', type: 'money' },
+    ];
+
+    const rateKey = "to_char(COALESCE(i.tax_rate, 0) * 100, 'FM990.000') || '%'";
+    const jurisdictionKey = `COALESCE(tj.name, CASE WHEN COALESCE(i.tax_amount, 0) > 0 THEN 'Custom rate' ELSE 'Not taxed' END)`;
+    const keys = {
+      month: ["to_char(i.issue_date, 'YYYY-MM')", "to_char(p.payment_date, 'YYYY-MM')"],
+      rate: [rateKey, rateKey],
+      jurisdiction: [jurisdictionKey, jurisdictionKey],
+    };
+    const [billedKey, collectedKey] = keys[params.groupBy];
+
+    const rows = await query<Record<string, unknown>>(
+      `WITH billed AS (
+         SELECT ${billedKey} AS key,
+                SUM(i.taxable_subtotal) FILTER (WHERE COALESCE(i.tax_amount, 0) > 0) AS taxable_sales,
+                SUM(CASE WHEN COALESCE(i.tax_amount, 0) > 0 THEN i.subtotal - i.taxable_subtotal ELSE i.subtotal END) AS exempt_sales,
+                SUM(COALESCE(i.tax_amount, 0)) AS tax_billed
+         FROM invoices i
+         LEFT JOIN tax_jurisdictions tj ON i.tax_jurisdiction_id = tj.id
+         WHERE ${BILLED} AND i.issue_date BETWEEN $1::date AND $2::date
+         GROUP BY 1
+       ),
+       collected AS (
+         SELECT ${collectedKey} AS key,
+                SUM(p.amount * COALESCE(i.tax_amount, 0) / NULLIF(i.total, 0)) AS tax_collected
+         FROM payments p
+         JOIN invoices i ON p.invoice_id = i.id
+         LEFT JOIN tax_jurisdictions tj ON i.tax_jurisdiction_id = tj.id
+         WHERE p.payment_date BETWEEN $1::date AND $2::date
+         GROUP BY 1
+       )
+       SELECT COALESCE(b.key, col.key) AS "group",
+              COALESCE(b.taxable_sales, 0) AS "taxableSales",
+              COALESCE(b.exempt_sales, 0) AS "exemptSales",
+              COALESCE(b.tax_billed, 0) AS "taxBilled",
+              ROUND(COALESCE(col.tax_collected, 0), 2) AS "taxCollected"
+       FROM billed b
+       FULL OUTER JOIN collected col ON b.key = col.key
+       ORDER BY 1`,
+      [range.from, range.to]
+    );
+
+    sendReport(res, `tax-by-${params.groupBy}`, params.format, { ...range, groupBy: params.groupBy }, {
+      columns,
+      rows: normalize(columns, rows),
+    });
+  })
+);
+
+export default router;
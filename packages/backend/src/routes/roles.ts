@@ -0,0 +1,474 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, hasPermission, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import {
+  PERMISSIONS,
+  RECORD_SCOPES,
+  resolveAccess,
+  mapPlacement,
+  invalidateAccess,
+  type DBOrgPlacement,
+  type OrgPlacement,
+  type PermissionOverride,
+  type RecordScope,
+} from '../services/permissions.js';
+import { AuthenticatedRequest, DBRole, ApiResponse, JWTPayload } from '../types/index.js';
+
+const router = Router();
+
+// Validation schemas (mirror Role in the frontend rolesStore)
+const permissionSchema = z.enum(PERMISSIONS);
+
+const createRoleSchema = z.object({
+  id: z.string().regex(/^role-[a-z0-9-]+$/).max(50).optional(),
+  name: z.string().min(1).max(100),
+  description: z.string().default(''),
+  permissions: z.array(permissionSchema).default([]),
+  recordScope: z.enum(RECORD_SCOPES).default('all'),
+});
+
+const updateRoleSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().optional(),
+  permissions: z.array(permissionSchema).optional(),
+  recordScope: z.enum(RECORD_SCOPES).optional(),
+});
+
+// roleId null clears the assignment (back to the position, department or
+// legacy-role default); an override of null removes it
+const updateUserAccessSchema = z.object({
+  roleId: z.string().max(50).nullable().optional(),
+  placement: z.object({
+    departmentId: z.string().max(100).nullable(),
+    positionId: z.string().max(100).nullable(),
+    userId: z.string().max(100).nullable().default(null),
+    officeId: z.string().max(100).nullable().default(null),
+    reportsToPositionId: z.string().max(100).nullable().default(null),
+    supervisorIds: z.array(z.string().max(100)).default([]),
+  }).optional(),
+  overrides: z.record(permissionSchema, z.boolean().nullable()).optional(),
+});
+
+const unitTypeSchema = z.enum(['department', 'position']);
+
+// roleId null removes the unit's role
+const updateUnitRoleSchema = z.object({
+  roleId: z.string().max(50).nullable(),
+});
+
+const ROLE_SELECT = `SELECT r.*,
+                            (SELECT COUNT(*) FROM user_role_assignments a WHERE a.role_id = r.id) AS user_count,
+                            (SELECT COUNT(*) FROM org_unit_roles u WHERE u.role_id = r.id) AS unit_count
+                     FROM roles r`;
+
+// Helper to map DB role to API response
+function mapRole(r: DBRole) {
+  return {
+    id: r.id,
+    name: r.name,
+    description: r.description,
+    permissions: r.permissions,
+    recordScope: r.record_scope,
+    isSystem: r.is_system,
+    userCount: parseInt(r.user_count ?? '0'),
+    unitCount: parseInt(r.unit_count ?? '0'),
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+async function loadRole(id: string): Promise<DBRole> {
+  const roles = await query<DBRole>(`${ROLE_SELECT} WHERE r.id = $1`, [id]);
+  const role = roles[0];
+  if (!role) {
+    throw errors.notFound('Role');
+  }
+  return role;
+}
+
+const ADMIN_ROLES_REQUIRED = 'requires the admin:roles permission';
+
+function samePlacement(a: OrgPlacement, b: OrgPlacement): boolean {
+  return (
+    a.departmentId === b.departmentId &&
+    a.positionId === b.positionId &&
+    a.userId === b.userId &&
+    a.officeId === b.officeId &&
+    a.reportsToPositionId === b.reportsToPositionId &&
+    [...a.supervisorIds].sort().join() === [...b.supervisorIds].sort().join()
+  );
+}
+
+/**
+ * Without admin:roles a user manager may only hand out access they hold
+ * themselves, to someone else. Refused: changing one's own entry, clearing an
+ * assignment (the fallback role may be broader), any placement change (it
+ * moves record scope and timesheet approval), removing a revocation, and
+ * roles or grants carrying admin permissions, permissions the caller lacks or
+ * a wider record scope than theirs.
+ */
+async function assertCanChangeAccess(
+  user: JWTPayload,
+  email: string,
+  change: z.infer<typeof updateUserAccessSchema>,
+  current: { placement: OrgPlacement; overrides: PermissionOverride[] }
+): Promise<void> {
+  if (hasPermission(user, 'admin:roles')) return;
+
+  if (email === user.email.toLowerCase()) {
+    throw errors.forbidden(`Changing your own access ${ADMIN_ROLES_REQUIRED}`);
+  }
+  if (change.roleId === null) {
+    throw errors.forbidden(`Clearing a role assignment ${ADMIN_ROLES_REQUIRED}`);
+  }
+  if (change.placement && !samePlacement(current.placement, change.placement)) {
+    throw errors.forbidden(`Changing a user's placement ${ADMIN_ROLES_REQUIRED}`);
+  }
+
+  const overrides = Object.entries(change.overrides ?? {});
+  const revoked = new Set(current.overrides.filter((o) => !o.granted).map((o) => o.permission));
+  if (overrides.some(([permission, granted]) => granted === null && revoked.has(permission))) {
+    throw errors.forbidden(`Removing a revoked permission ${ADMIN_ROLES_REQUIRED}`);
+  }
+
+  const roles = change.roleId
+    ? await query<{ permissions: string[]; record_scope: RecordScope }>(
+        'SELECT permissions, record_scope FROM roles WHERE id = $1',
+        [change.roleId]
+      )
+    : [];
+  const permissions = [
+    ...roles.flatMap((r) => r.permissions),
+    ...overrides.filter(([, granted]) => granted === true).map(([permission]) => permission),
+  ];
+  const callerScope = RECORD_SCOPES.indexOf(user.recordScope ?? 'own');
+
+  if (
+    permissions.some((p) => p.startsWith('admin:') || !hasPermission(user, p)) ||
+    roles.some((r) => RECORD_SCOPES.indexOf(r.record_scope) > callerScope)
+  ) {
+    throw errors.forbidden(`Granting access beyond your own ${ADMIN_ROLES_REQUIRED}`);
+  }
+}
+
+// Emails of the people who supervise a placement: listed supervisors and
+// holders of the position it reports to. Their team scope and timesheet
+// approvals follow the placement.
+async function supervisorEmails(placements: OrgPlacement[]): Promise<string[]> {
+  const userIds = placements.flatMap((p) => p.supervisorIds);
+  const positionIds = placements.map((p) => p.reportsToPositionId).filter((id): id is string => !!id);
+  if (userIds.length === 0 && positionIds.length === 0) return [];
+
+  const rows = await query<{ email: string }>(
+    `SELECT email FROM user_org_placements
+     WHERE portal_user_id = ANY($1) OR position_id = ANY($2)`,
+    [userIds, positionIds]
+  );
+  return rows.map((r) => r.email);
+}
+
+// Access for a user, falling back to their users.role when they have no assignment
+async function loadUserAccess(email: string) {
+  const users = await query<{ role: string }>('SELECT role FROM users WHERE LOWER(email) = $1', [email]);
+  const access = await resolveAccess(email, users[0] ? [users[0].role] : []);
+  return {
+    email,
+    roleId: access.roleId,
+    assigned: access.assigned,
+    placement: access.placement,
+    sources: access.sources,
+    overrides: Object.fromEntries(access.overrides.map((o) => [o.permission, o.granted])),
+    permissions: access.permissions,
+  };
+}
+
+// List roles
+router.get(
+  '/',
+  authenticate,
+  requirePermission('admin:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const roles = await query<DBRole>(`${ROLE_SELECT} ORDER BY r.is_system DESC, r.name ASC`);
+
+    res.json({
+      success: true,
+      data: roles.map(mapRole),
+    });
+  })
+);
+
+// Create role
+router.post(
+  '/',
+  authenticate,
+  requirePermission('admin:roles'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = createRoleSchema.parse(req.body);
+    const id = data.id ?? `role-${Math.random().toString(36).substring(2, 11)}`;
+
+    const existing = await query('SELECT id FROM roles WHERE id = $1', [id]);
+    if (existing.length > 0) {
+      throw errors.conflict('A role with this id already exists');
+    }
+
+    await query(
+      `INSERT INTO roles (id, name, description, permissions, record_scope)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [id, data.name, data.description, data.permissions, data.recordScope]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mapRole(await loadRole(id)),
+    });
+  })
+);
+
+// Update role name, description, permissions or record scope
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission('admin:roles'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = updateRoleSchema.parse(req.body);
+
+    const updated = await query(
+      `UPDATE roles SET
+         name = COALESCE($2, name),
+         description = COALESCE($3, description),
+         permissions = COALESCE($4, permissions),
+         record_scope = COALESCE($5, record_scope)
+       WHERE id = $1
+       RETURNING id`,
+      [id, data.name, data.description, data.permissions, data.recordScope]
+    );
+    if (updated.length === 0) {
+      throw errors.notFound('Role');
+    }
+
+    // Everyone holding the role picks up the change on their next request
+    invalidateAccess();
+
+    res.json({
+      success: true,
+      data: mapRole(await loadRole(id)),
+    });
+  })
+);
+
+// Delete role (system roles and roles still assigned are kept)
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('admin:roles'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const role = await loadRole(req.params.id);
+
+    if (role.is_system) {
+      throw errors.badRequest('System roles cannot be deleted');
+    }
+    if (parseInt(role.user_count ?? '0') > 0) {
+      throw errors.conflict('Role is still assigned to users; reassign them first');
+    }
+    if (parseInt(role.unit_count ?? '0') > 0) {
+      throw errors.conflict('Role is still used by positions or departments; change them first');
+    }
+
+    await query('DELETE FROM roles WHERE id = $1', [role.id]);
+
+    res.json({
+      success: true,
+      data: { message: 'Role deleted successfully' },
+    });
+  })
+);
+
+// Roles attached to departments and positions
+router.get(
+  '/org',
+  authenticate,
+  requirePermission('admin:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const unitRoles = await query<{ unit_type: string; unit_id: string; role_id: string }>(
+      'SELECT unit_type, unit_id, role_id FROM org_unit_roles'
+    );
+
+    const departments: Record<string, string> = {};
+    const positions: Record<string, string> = {};
+    unitRoles.forEach((u) => {
+      (u.unit_type === 'department' ? departments : positions)[u.unit_id] = u.role_id;
+    });
+
+    res.json({
+      success: true,
+      data: { departments, positions },
+    });
+  })
+);
+
+// Set or clear the role for a department or position
+router.put(
+  '/org/:unitType/:unitId',
+  authenticate,
+  requirePermission('admin:roles'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const unitType = unitTypeSchema.parse(req.params.unitType);
+    const { unitId } = req.params;
+    const data = updateUnitRoleSchema.parse(req.body);
+
+    if (data.roleId === null) {
+      await query('DELETE FROM org_unit_roles WHERE unit_type = $1 AND unit_id = $2', [unitType, unitId]);
+    } else {
+      await loadRole(data.roleId);
+      await query(
+        `INSERT INTO org_unit_roles (unit_type, unit_id, role_id) VALUES ($1, $2, $3)
+         ON CONFLICT (unit_type, unit_id) DO UPDATE SET role_id = EXCLUDED.role_id`,
+        [unitType, unitId, data.roleId]
+      );
+    }
+
+    // Everyone in the unit picks up the change on their next request
+    invalidateAccess();
+
+    res.json({
+      success: true,
+      data: { unitType, unitId, roleId: data.roleId },
+    });
+  })
+);
+
+// Role assignments, org placements and overrides for every user that has any
+router.get(
+  '/users',
+  authenticate,
+  requirePermission('admin:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const [assignments, placements, overrides] = await Promise.all([
+      query<{ email: string; role_id: string }>('SELECT email, role_id FROM user_role_assignments'),
+      query<DBOrgPlacement>('SELECT * FROM user_org_placements'),
+      query<PermissionOverride & { email: string }>(
+        'SELECT email, permission, granted FROM user_permission_overrides ORDER BY email, permission'
+      ),
+    ]);
+
+    const byEmail = new Map<string, {
+      email: string;
+      roleId: string | null;
+      placement: OrgPlacement;
+      overrides: Record<string, boolean>;
+    }>();
+    const entry = (email: string) => {
+      let found = byEmail.get(email);
+      if (!found) {
+        found = { email, roleId: null, placement: mapPlacement(undefined), overrides: {} };
+        byEmail.set(email, found);
+      }
+      return found;
+    };
+    assignments.forEach((a) => { entry(a.email).roleId = a.role_id; });
+    placements.forEach((p) => { entry(p.email).placement = mapPlacement(p); });
+    overrides.forEach((o) => { entry(o.email).overrides[o.permission] = o.granted; });
+
+    res.json({
+      success: true,
+      data: Array.from(byEmail.values()),
+    });
+  })
+);
+
+// Resolved access for one user
+router.get(
+  '/users/:email',
+  authenticate,
+  requirePermission('admin:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const email = req.params.email.toLowerCase();
+
+    res.json({
+      success: true,
+      data: await loadUserAccess(email),
+    });
+  })
+);
+
+// Assign a role, record the user's org placement and/or change overrides for one user
+router.put(
+  '/users/:email',
+  authenticate,
+  requirePermission('admin:users'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const email = req.params.email.toLowerCase();
+    const data = updateUserAccessSchema.parse(req.body);
+
+    if (data.roleId) {
+      await loadRole(data.roleId);
+    }
+
+    const [placements, overrides] = await Promise.all([
+      query<DBOrgPlacement>('SELECT * FROM user_org_placements WHERE email = $1', [email]),
+      query<PermissionOverride>('SELECT permission, granted FROM user_permission_overrides WHERE email = $1', [email]),
+    ]);
+    const current = { placement: mapPlacement(placements[0]), overrides };
+    await assertCanChangeAccess(req.user!, email, data, current);
+
+    await withTransaction(async (db) => {
+      if (data.roleId === null) {
+        await db.query('DELETE FROM user_role_assignments WHERE email = $1', [email]);
+      } else if (data.roleId) {
+        await db.query(
+          `INSERT INTO user_role_assignments (email, role_id) VALUES ($1, $2)
+           ON CONFLICT (email) DO UPDATE SET role_id = EXCLUDED.role_id`,
+          [email, data.roleId]
+        );
+      }
+
+      if (data.placement) {
+        const p = data.placement;
+        await db.query(
+          `INSERT INTO user_org_placements
+             (email, department_id, position_id, portal_user_id, office_id, reports_to_position_id, supervisor_ids)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           ON CONFLICT (email) DO UPDATE SET
+             department_id = EXCLUDED.department_id,
+             position_id = EXCLUDED.position_id,
+             portal_user_id = EXCLUDED.portal_user_id,
+             office_id = EXCLUDED.office_id,
+             reports_to_position_id = EXCLUDED.reports_to_position_id,
+             supervisor_ids = EXCLUDED.supervisor_ids`,
+          [email, p.departmentId, p.positionId, p.userId, p.officeId, p.reportsToPositionId, p.supervisorIds]
+        );
+      }
+
+      for (const [permission, granted] of Object.entries(data.overrides ?? {})) {
+        if (granted === null) {
+          await db.query(
+            'DELETE FROM user_permission_overrides WHERE email = $1 AND permission = $2',
+            [email, permission]
+          );
+        } else {
+          await db.query(
+            `INSERT INTO user_permission_overrides (email, permission, granted) VALUES ($1, $2, $3)
+             ON CONFLICT (email, permission) DO UPDATE SET granted = EXCLUDED.granted`,
+            [email, permission, granted]
+          );
+        }
+      }
+    });
+
+    invalidateAccess(email);
+    if (data.placement && !samePlacement(current.placement, data.placement)) {
+      const affected = await supervisorEmails([current.placement, data.placement]);
+      affected.forEach((supervisor) => invalidateAccess(supervisor));
+    }
+
+    res.json({
+      success: true,
+      data: await loadUserAccess(email),
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,292 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { DUNNING_LEVELS, getDunningSettings } from '../jobs/invoiceDunning.js';
+import { getAccountMapping } from '../services/accountingExport.js';
+import { AuthenticatedRequest, DBLetterhead, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+// Validation schemas (mirror CompanySettings in the frontend companyStore)
+const officeSchema = z.object({
+  id: z.string().max(100),
+  label: z.string().max(100),
+  street: z.string().max(255),
+  suite: z.string().max(100).optional(),
+  city: z.string().max(100),
+  state: z.string().max(50),
+  zip: z.string().max(20),
+  isMain: z.boolean().optional(),
+});
+
+const companySchema = z.object({
+  name: z.string().max(255),
+  website: z.string().max(255).default(''),
+  email: z.string().max(255).default(''),
+  phone: z.string().max(50).default(''),
+  address: z.object({
+    street: z.string(),
+    city: z.string(),
+    state: z.string(),
+    zip: z.string(),
+    country: z.string(),
+  }).optional(),
+  offices: z.array(officeSchema).default([]),
+  logo: z.string().nullable().default(null),
+  defaultLetterheadId: z.string().max(100).nullable().default(null),
+});
+
+// Letterheads are uploaded as data URLs of up to 5MB
+const letterheadDataSchema = z.string()
+  .regex(/^data:(image\/png|image\/jpe?g|application\/pdf);base64,/, 'Letterhead must be a PNG, JPEG or PDF')
+  .max(7 * 1024 * 1024);
+
+const createLetterheadSchema = z.object({
+  id: z.string().regex(/^letterhead-[A-Za-z0-9-]+$/).max(100).optional(),
+  name: z.string().min(1).max(255),
+  data: letterheadDataSchema,
+  createdAt: z.string().datetime().optional(),
+});
+
+const updateLetterheadSchema = z.object({
+  name: z.string().min(1).max(255),
+});
+
+// Reminder cadence: one reminder per step, measured in days after the due date
+const dunningSchema = z.object({
+  enabled: z.boolean(),
+  autoSend: z.boolean(),
+  steps: z.array(z.object({
+    days: z.number().int().min(1).max(365),
+    level: z.enum(DUNNING_LEVELS),
+  })).max(10).refine(
+    (steps) => new Set(steps.map((s) => s.days)).size === steps.length,
+    'Each reminder step needs a different number of days'
+  ),
+});
+
+// Chart of accounts names as they appear in the bookkeeping package
+const accountName = z.string().trim().min(1).max(100);
+
+const accountMappingSchema = z.object({
+  accountsReceivable: accountName,
+  undepositedFunds: accountName,
+  salesTaxPayable: accountName,
+  clientCredits: accountName,
+  defaultRevenue: accountName,
+  revenueByCategory: z.array(z.object({
+    category: z.string().trim().min(1).max(100),
+    account: accountName,
+  })).max(100).refine(
+    (rows) => new Set(rows.map((r) => r.category.toLowerCase())).size === rows.length,
+    'Each category can map to one revenue account'
+  ),
+});
+
+function mapLetterhead(l: DBLetterhead) {
+  return {
+    id: l.id,
+    name: l.name,
+    data: l.data,
+    createdAt: l.created_at,
+  };
+}
+
+// Company profile and letterheads. Everyone signed in can read them (the name
+// and logo appear throughout the portal); `offices` is absent until the profile
+// is first saved from Company Settings.
+router.get(
+  '/company',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const [settings, letterheads] = await Promise.all([
+      query<{ value: Record<string, unknown> }>("SELECT value FROM settings WHERE key = 'company'"),
+      query<DBLetterhead>('SELECT * FROM letterheads ORDER BY created_at'),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...settings[0]?.value,
+        letterheads: letterheads.map(mapLetterhead),
+      },
+    });
+  })
+);
+
+// Replace the company profile (letterheads are managed separately)
+router.put(
+  '/company',
+  authenticate,
+  requirePermission('admin:company'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = companySchema.parse(req.body);
+
+    const rows = await query<{ value: Record<string, unknown> }>(
+      `INSERT INTO settings (key, value, description)
+       VALUES ('company', $1, 'Company information')
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = CURRENT_TIMESTAMP
+       RETURNING value`,
+      [JSON.stringify(data)]
+    );
+
+    res.json({
+      success: true,
+      data: rows[0].value,
+    });
+  })
+);
+
+// Add a letterhead template
+router.post(
+  '/letterheads',
+  authenticate,
+  requirePermission('admin:company'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = createLetterheadSchema.parse(req.body);
+    const id = data.id || `letterhead-${Date.now()}`;
+
+    const existing = await query('SELECT 1 FROM letterheads WHERE id = $1', [id]);
+    if (existing.length > 0) {
+      throw errors.conflict('A letterhead with this id already exists');
+    }
+
+    const rows = await query<DBLetterhead>(
+      `INSERT INTO letterheads (id, name, data, created_at)
+       VALUES ($1, $2, $3, COALESCE($4, CURRENT_TIMESTAMP))
+       RETURNING *`,
+      [id, data.name, data.data, data.createdAt]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mapLetterhead(rows[0]),
+    });
+  })
+);
+
+// Rename a letterhead template
+router.patch(
+  '/letterheads/:id',
+  authenticate,
+  requirePermission('admin:company'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = updateLetterheadSchema.parse(req.body);
+
+    const rows = await query<DBLetterhead>(
+      'UPDATE letterheads SET name = $2 WHERE id = $1 RETURNING *',
+      [req.params.id, data.name]
+    );
+
+    if (rows.length === 0) {
+      throw errors.notFound('Letterhead');
+    }
+
+    res.json({
+      success: true,
+      data: mapLetterhead(rows[0]),
+    });
+  })
+);
+
+// Delete a letterhead template. Documents that chose it fall back to the
+// company default.
+router.delete(
+  '/letterheads/:id',
+  authenticate,
+  requirePermission('admin:company'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const rows = await query('DELETE FROM letterheads WHERE id = $1 RETURNING id', [id]);
+    if (rows.length === 0) {
+      throw errors.notFound('Letterhead');
+    }
+
+    await query(
+      `UPDATE settings SET value = jsonb_set(value, '{defaultLetterheadId}', 'null')
+       WHERE key = 'company' AND value->>'defaultLetterheadId' = $1`,
+      [id]
+    );
+
+    res.json({
+      success: true,
+      data: { message: 'Letterhead deleted successfully' },
+    });
+  })
+);
+
+// Invoice reminder cadence
+router.get(
+  '/dunning',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    res.json({
+      success: true,
+      data: await getDunningSettings(),
+    });
+  })
+);
+
+router.put(
+  '/dunning',
+  authenticate,
+  requirePermission('admin:company'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = dunningSchema.parse(req.body);
+    data.steps.sort((a, b) => a.days - b.days);
+
+    const rows = await query<{ value: Record<string, unknown> }>(
+      `INSERT INTO settings (key, value, description)
+       VALUES ('dunning', $1, 'Invoice reminder cadence')
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = CURRENT_TIMESTAMP
+       RETURNING value`,
+      [JSON.stringify(data)]
+    );
+
+    res.json({
+      success: true,
+      data: rows[0].value,
+    });
+  })
+);
+
+// Account mapping for accounting exports
+router.get(
+  '/accounting-export',
+  authenticate,
+  requirePermission('accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    res.json({
+      success: true,
+      data: await getAccountMapping(),
+    });
+  })
+);
+
+router.put(
+  '/accounting-export',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = accountMappingSchema.parse(req.body);
+
+    const rows = await query<{ value: Record<string, unknown> }>(
+      `INSERT INTO settings (key, value, description)
+       VALUES ('accounting_export', $1, 'Chart of accounts mapping for accounting exports')
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = CURRENT_TIMESTAMP
+       RETURNING value`,
+      [JSON.stringify(data)]
+    );
+
+    res.json({
+      success: true,
+      data: rows[0].value,
+    });
+  })
+);
+
+export default router;
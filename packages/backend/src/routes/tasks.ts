@@ -0,0 +1,643 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { resolveVisibleRepIds, assertOwnerVisible } from '../services/scoping.js';
+import { buildSetClause } from '../utils/sql.js';
+import { AuthenticatedRequest, DBTask, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+// Validation schemas (mirror TaskInput in the frontend taskStore)
+const linkedEntitySchema = z.object({
+  type: z.enum(['contact', 'company', 'project', 'estimate', 'invoice', 'lead', 'deal']),
+  id: z.string().min(1).max(100),
+  name: z.string().max(255),
+});
+
+const taskStatusSchema = z.enum(['todo', 'in_progress', 'review', 'completed', 'cancelled']);
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/, 'Expected HH:MM');
+
+const createTaskSchema = z.object({
+  id: z.string().uuid().optional(),
+  title: z.string().min(1).max(255),
+  description: z.string().optional(),
+  type: z.string().max(100).optional(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
+  dueDate: dateSchema.optional(),
+  dueTime: timeSchema.optional(),
+  assignedUserId: z.string().min(1).max(100),
+  assignedUserName: z.string().max(255).optional(),
+  linkedContact: linkedEntitySchema.nullable().optional(),
+  linkedItem: linkedEntitySchema.nullable().optional(),
+  notes: z.string().optional(),
+});
+
+// null clears a field
+const updateTaskSchema = z.object({
+  title: z.string().min(1).max(255).optional(),
+  description: z.string().nullable().optional(),
+  type: z.string().max(100).nullable().optional(),
+  status: taskStatusSchema.optional(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).nullable().optional(),
+  dueDate: dateSchema.nullable().optional(),
+  dueTime: timeSchema.nullable().optional(),
+  assignedUserId: z.string().min(1).max(100).optional(),
+  assignedUserName: z.string().max(255).optional(),
+  linkedContact: linkedEntitySchema.nullable().optional(),
+  linkedItem: linkedEntitySchema.nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+const reassignByEntitySchema = z.object({
+  entityType: linkedEntitySchema.shape.type,
+  entityId: z.string().min(1),
+  toUserId: z.string().min(1).max(100),
+  toUserName: z.string().default(''),
+});
+
+// Legacy localStorage payload - ids are whatever the browser generated
+const importTasksSchema = z.object({
+  tasks: z.array(
+    createTaskSchema.omit({ id: true, dueDate: true, dueTime: true }).extend({
+      id: z.string(),
+      status: taskStatusSchema.optional(),
+      dueDate: z.string().optional(),
+      dueTime: z.string().optional(),
+      createdById: z.string().optional(),
+      createdByName: z.string().optional(),
+      createdAt: z.string().optional(),
+      completedAt: z.string().optional(),
+    })
+  ),
+});
+
+type LinkedEntityInput = z.infer<typeof linkedEntitySchema>;
+type TimeFilter = 'all' | 'overdue' | 'today' | 'tomorrow' | 'this-week' | 'next-week';
+
+// Dates come back as text so they round-trip without timezone shifts
+const TASK_SELECT = `SELECT t.*, to_char(t.due_date, 'YYYY-MM-DD') AS due_date,
+                            to_char(t.due_time, 'HH24:MI') AS due_time
+                     FROM tasks t`;
+
+// Column for each camelCase field that can be written on a task
+const TASK_COLUMNS = {
+  title: 'title',
+  description: 'description',
+  type: 'type',
+  status: 'status',
+  priority: 'priority',
+  dueDate: 'due_date',
+  dueTime: 'due_time',
+  assignedUserId: 'assigned_user_id',
+  assignedUserName: 'assigned_user_name',
+  notes: 'notes',
+  linkedContactType: 'linked_contact_type',
+  linkedContactId: 'linked_contact_id',
+  linkedContactName: 'linked_contact_name',
+  linkedItemType: 'linked_item_type',
+  linkedItemId: 'linked_item_id',
+  linkedItemName: 'linked_item_name',
+} as const;
+
+// Spread a linked entity into its three columns (null clears all of them)
+function flattenLink(prefix: 'linkedContact' | 'linkedItem', entity: LinkedEntityInput | null | undefined) {
+  if (entity === undefined) return {};
+  return {
+    [`${prefix}Type`]: entity?.type ?? null,
+    [`${prefix}Id`]: entity?.id ?? null,
+    [`${prefix}Name`]: entity?.name ?? null,
+  };
+}
+
+// Keep the legacy project_id column pointing at a linked project so project
+// task counts keep working
+const SYNC_PROJECT_ID = `project_id = (SELECT id FROM projects WHERE linked_item_type = 'project' AND id::text = linked_item_id)`;
+
+// WHERE fragment selecting tasks due in a time bucket, relative to `today`
+// (buckets match the Tasks panel: weeks end on Sunday)
+function timeFilterClause(filter: TimeFilter, todayParam: string): string | null {
+  const today = `${todayParam}::date`;
+  const endOfWeek = `(${today} + (7 - EXTRACT(DOW FROM ${today})::int))`;
+
+  switch (filter) {
+    case 'overdue':
+      return `t.due_date < ${today}`;
+    case 'today':
+      return `t.due_date = ${today}`;
+    case 'tomorrow':
+      return `t.due_date = ${today} + 1`;
+    case 'this-week':
+      return `t.due_date BETWEEN ${today} AND ${endOfWeek}`;
+    case 'next-week':
+      return `t.due_date BETWEEN ${endOfWeek} + 1 AND ${endOfWeek} + 7`;
+    default:
+      return null;
+  }
+}
+
+// Lead and deal links are scoped by their owner, as in the leads and deals lists
+const OWNED_LINKS = [
+  { type: 'lead', table: 'leads' },
+  { type: 'deal', table: 'deals' },
+] as const;
+
+// WHERE fragment hiding tasks linked (as contact or item) to a lead or deal
+// owned by a rep outside the visible reps in `param`
+function linkedRecordScopeCondition(param: string): string {
+  return (['linked_contact', 'linked_item'] as const)
+    .flatMap((link) =>
+      OWNED_LINKS.map(({ type, table }) => `(t.${link}_type IS DISTINCT FROM '${type}'
+        OR EXISTS (SELECT 1 FROM ${table} s WHERE s.id::text = t.${link}_id AND s.owner_id = ANY(${param})))`)
+    )
+    .join(' AND ');
+}
+
+// Not found unless every lead or deal the task is linked to is within the visible reps
+async function assertTaskVisible(task: DBTask, visibleRepIds: string[] | null): Promise<void> {
+  const links = [
+    { type: task.linked_contact_type, id: task.linked_contact_id },
+    { type: task.linked_item_type, id: task.linked_item_id },
+  ];
+  for (const link of links) {
+    const owned = OWNED_LINKS.find((o) => o.type === link.type);
+    if (owned && link.id) {
+      await assertOwnerVisible(owned.table, link.id, visibleRepIds, 'Task');
+    }
+  }
+}
+
+// Comma-separated query parameter to a list
+function listParam(value: unknown): string[] {
+  return typeof value === 'string' && value ? value.split(',').map((v) => v.trim()).filter(Boolean) : [];
+}
+
+// Helper to map DB task to API response
+function mapLink(type?: DBTask['linked_contact_type'], id?: string, name?: string) {
+  return type && id ? { type, id, name: name ?? '' } : null;
+}
+
+function mapTask(t: DBTask) {
+  const linkedContact = mapLink(t.linked_contact_type, t.linked_contact_id, t.linked_contact_name);
+  const linkedItem = mapLink(t.linked_item_type, t.linked_item_id, t.linked_item_name);
+  // Primary entity for display - prefer the contact over the item
+  const primary = linkedContact || linkedItem;
+
+  return {
+    id: t.id,
+    title: t.title,
+    description: t.description ?? undefined,
+    type: t.type ?? undefined,
+    status: t.status,
+    priority: t.priority ?? undefined,
+    dueDate: t.due_date ?? undefined,
+    dueTime: t.due_time ?? undefined,
+    assignedUserId: t.assigned_user_id,
+    assignedUserName: t.assigned_user_name,
+    createdById: t.created_by_id ?? '',
+    createdByName: t.created_by_name,
+    createdAt: t.created_at,
+    updatedAt: t.updated_at,
+    completedAt: t.completed_at ?? undefined,
+    linkedContact,
+    linkedItem,
+    primaryEntityType: primary?.type,
+    primaryEntityId: primary?.id,
+    primaryEntityName: primary?.name,
+    notes: t.notes ?? undefined,
+  };
+}
+
+async function loadTask(id: string): Promise<DBTask> {
+  const tasks = await query<DBTask>(`${TASK_SELECT} WHERE t.id = $1`, [id]);
+  const task = tasks[0];
+  if (!task) {
+    throw errors.notFound('Task');
+  }
+  return task;
+}
+
+// List tasks
+// Filters mirror TaskFilters in the frontend: statuses and assignedUserIds are
+// comma-separated, timeFilter is evaluated against `today` (defaults to the server date)
+router.get(
+  '/',
+  authenticate,
+  requirePermission('tasks:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const {
+      search,
+      timeFilter = 'all',
+      today,
+      linkedEntityId,
+      projectId,
+      page = '1',
+      limit = '50',
+    } = req.query;
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    const statuses = listParam(req.query.statuses);
+    if (statuses.length > 0) {
+      whereClause += ` AND t.status = ANY($${paramIndex}::task_status[])`;
+      params.push(z.array(taskStatusSchema).parse(statuses));
+      paramIndex++;
+    }
+
+    const assignedUserIds = listParam(req.query.assignedUserIds);
+    if (assignedUserIds.length > 0) {
+      whereClause += ` AND t.assigned_user_id = ANY($${paramIndex})`;
+      params.push(assignedUserIds);
+      paramIndex++;
+    }
+
+    // Tasks linked (as contact or item) to any of these entity types
+    const linkedEntityTypes = listParam(req.query.linkedEntityTypes);
+    if (linkedEntityTypes.length > 0) {
+      whereClause += ` AND (t.linked_contact_type = ANY($${paramIndex}) OR t.linked_item_type = ANY($${paramIndex}))`;
+      params.push(linkedEntityTypes);
+      paramIndex++;
+    }
+
+    if (linkedEntityId) {
+      whereClause += ` AND (t.linked_contact_id = $${paramIndex} OR t.linked_item_id = $${paramIndex})`;
+      params.push(linkedEntityId);
+      paramIndex++;
+    }
+
+    if (projectId) {
+      whereClause += ` AND t.project_id = $${paramIndex}`;
+      params.push(projectId);
+      paramIndex++;
+    }
+
+    if (timeFilter !== 'all') {
+      const day = today ? dateSchema.parse(today) : null;
+      const clause = timeFilterClause(timeFilter as TimeFilter, `COALESCE($${paramIndex}::date, CURRENT_DATE)`);
+      if (!clause) {
+        throw errors.badRequest(`Unknown timeFilter: ${timeFilter}`);
+      }
+      whereClause += ` AND ${clause}`;
+      params.push(day);
+      paramIndex++;
+    }
+
+    if (search) {
+      whereClause += ` AND (t.title ILIKE $${paramIndex} OR t.description ILIKE $${paramIndex}
+                            OR t.linked_contact_name ILIKE $${paramIndex} OR t.linked_item_name ILIKE $${paramIndex})`;
+      params.push(`%${search}%`);
+      paramIndex++;
+    }
+
+    // Record scope: no tasks on leads or deals the user can't see
+    const visibleRepIds = await resolveVisibleRepIds(req.user!);
+    if (visibleRepIds) {
+      whereClause += ` AND ${linkedRecordScopeCondition(`$${paramIndex}`)}`;
+      params.push(visibleRepIds);
+      paramIndex++;
+    }
+
+    const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM tasks t ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult[0]?.count || '0');
+
+    const tasks = await query<DBTask>(
+      `${TASK_SELECT} ${whereClause}
+       ORDER BY t.due_date ASC NULLS LAST, t.due_time ASC NULLS LAST, t.created_at DESC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...params, parseInt(limit as string), offset]
+    );
+
+    res.json({
+      success: true,
+      data: tasks.map(mapTask),
+      meta: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        totalPages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  })
+);
+
+// Import tasks saved in the browser before server persistence.
+// Idempotent: tasks already imported (matched on legacy_id) are reused.
+router.post(
+  '/import',
+  authenticate,
+  requirePermission('tasks:create'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = importTasksSchema.parse(req.body);
+    const idMap: Record<string, string> = {};
+    let created = 0;
+
+    await withTransaction(async (db) => {
+      for (const task of data.tasks) {
+        const existing = await db.query<{ id: string }>(
+          'SELECT id FROM tasks WHERE legacy_id = $1',
+          [task.id]
+        );
+        if (existing.rows[0]) {
+          idMap[task.id] = existing.rows[0].id;
+          continue;
+        }
+
+        const inserted = await db.query<{ id: string }>(
+          `INSERT INTO tasks (title, description, type, status, priority, due_date, due_time,
+                              assigned_user_id, assigned_user_name, created_by_id, created_by_name,
+                              linked_contact_type, linked_contact_id, linked_contact_name,
+                              linked_item_type, linked_item_id, linked_item_name,
+                              notes, legacy_id, completed_at, created_at)
+           VALUES ($1, $2, $3, $4, COALESCE($5::priority_level, 'medium'), $6, $7, $8, $9, $10, $11,
+                   $12, $13, $14, $15, $16, $17, $18, $19, $20,
+                   COALESCE($21::timestamptz, CURRENT_TIMESTAMP))
+           RETURNING id`,
+          [
+            task.title,
+            task.description,
+            task.type,
+            task.status || 'todo',
+            task.priority ?? null,
+            task.dueDate || null,
+            task.dueTime || null,
+            task.assignedUserId,
+            task.assignedUserName || '',
+            task.createdById || req.user!.sub,
+            task.createdByName || req.user!.name,
+            task.linkedContact?.type ?? null,
+            task.linkedContact?.id ?? null,
+            task.linkedContact?.name ?? null,
+            task.linkedItem?.type ?? null,
+            task.linkedItem?.id ?? null,
+            task.linkedItem?.name ?? null,
+            task.notes,
+            task.id,
+            task.completedAt ?? null,
+            task.createdAt ?? null,
+          ]
+        );
+        await db.query(`UPDATE tasks SET ${SYNC_PROJECT_ID} WHERE id = $1`, [inserted.rows[0]!.id]);
+        idMap[task.id] = inserted.rows[0]!.id;
+        created++;
+      }
+    });
+
+    res.json({
+      success: true,
+      data: { tasksCreated: created, idMap },
+    });
+  })
+);
+
+// Reassign open tasks linked to an entity (e.g. when a company changes sales rep)
+router.post(
+  '/reassign',
+  authenticate,
+  requirePermission('tasks:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = reassignByEntitySchema.parse(req.body);
+
+    const tasks = await query<{ id: string }>(
+      `UPDATE tasks SET assigned_user_id = $3, assigned_user_name = $4
+       WHERE ((linked_contact_type = $1 AND linked_contact_id = $2)
+              OR (linked_item_type = $1 AND linked_item_id = $2))
+       RETURNING id`,
+      [data.entityType, data.entityId, data.toUserId, data.toUserName]
+    );
+
+    res.json({
+      success: true,
+      data: { reassigned: tasks.length },
+    });
+  })
+);
+
+// Get single task
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('tasks:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const task = await loadTask(req.params.id!);
+    await assertTaskVisible(task, await resolveVisibleRepIds(req.user!));
+
+    res.json({
+      success: true,
+      data: mapTask(task),
+    });
+  })
+);
+
+// Create task - the creator is the signed-in user
+router.post(
+  '/',
+  authenticate,
+  requirePermission('tasks:create'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = createTaskSchema.parse(req.body);
+
+    const inserted = await query<{ id: string }>(
+      `INSERT INTO tasks (id, title, description, type, priority, due_date, due_time,
+                          assigned_user_id, assigned_user_name, created_by_id, created_by_name,
+                          linked_contact_type, linked_contact_id, linked_contact_name,
+                          linked_item_type, linked_item_id, linked_item_name, notes)
+       VALUES (COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, COALESCE($5::priority_level, 'medium'),
+               $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+       RETURNING id`,
+      [
+        data.id || null,
+        data.title,
+        data.description,
+        data.type,
+        data.priority ?? null,
+        data.dueDate,
+        data.dueTime,
+        data.assignedUserId,
+        data.assignedUserName || '',
+        req.user!.sub,
+        req.user!.name,
+        data.linkedContact?.type ?? null,
+        data.linkedContact?.id ?? null,
+        data.linkedContact?.name ?? null,
+        data.linkedItem?.type ?? null,
+        data.linkedItem?.id ?? null,
+        data.linkedItem?.name ?? null,
+        data.notes,
+      ]
+    );
+
+    const id = inserted[0]!.id;
+    await query(`UPDATE tasks SET ${SYNC_PROJECT_ID} WHERE id = $1`, [id]);
+    const task = await loadTask(id);
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'task', $2, 'created', $3)`,
+      [req.user!.sub, task.id, `Created task: ${task.title}`]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mapTask(task),
+    });
+  })
+);
+
+// Update task
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission('tasks:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const { linkedContact, linkedItem, ...data } = updateTaskSchema.parse(req.body);
+
+    const { setClause, params } = buildSetClause(
+      {
+        ...data,
+        ...flattenLink('linkedContact', linkedContact),
+        ...flattenLink('linkedItem', linkedItem),
+      },
+      TASK_COLUMNS
+    );
+    if (!setClause) {
+      throw errors.badRequest('No fields to update');
+    }
+
+    const updated = await query<{ id: string }>(
+      `UPDATE tasks SET ${setClause}
+       WHERE id = $1
+       RETURNING id`,
+      [id, ...params]
+    );
+    if (!updated[0]) {
+      throw errors.notFound('Task');
+    }
+
+    // Status changes stamp or clear completed_at
+    await query(
+      `UPDATE tasks SET ${SYNC_PROJECT_ID},
+         completed_at = CASE WHEN status = 'completed' THEN COALESCE(completed_at, CURRENT_TIMESTAMP) END
+       WHERE id = $1`,
+      [id]
+    );
+    const task = await loadTask(id!);
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'task', $2, 'updated', $3)`,
+      [req.user!.sub, id, `Updated task: ${task.title}`]
+    );
+
+    res.json({
+      success: true,
+      data: mapTask(task),
+    });
+  })
+);
+
+// Complete task
+router.post(
+  '/:id/complete',
+  authenticate,
+  requirePermission('tasks:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const updated = await query<{ id: string }>(
+      `UPDATE tasks SET status = 'completed', completed_at = COALESCE(completed_at, CURRENT_TIMESTAMP)
+       WHERE id = $1
+       RETURNING id`,
+      [id]
+    );
+    if (!updated[0]) {
+      throw errors.notFound('Task');
+    }
+
+    const task = await loadTask(id!);
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'task', $2, 'completed', $3)`,
+      [req.user!.sub, id, `Completed task: ${task.title}`]
+    );
+
+    res.json({
+      success: true,
+      data: mapTask(task),
+    });
+  })
+);
+
+// Reopen task
+router.post(
+  '/:id/reopen',
+  authenticate,
+  requirePermission('tasks:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const updated = await query<{ id: string }>(
+      `UPDATE tasks SET status = 'todo', completed_at = NULL
+       WHERE id = $1
+       RETURNING id`,
+      [id]
+    );
+    if (!updated[0]) {
+      throw errors.notFound('Task');
+    }
+
+    const task = await loadTask(id!);
+
+    res.json({
+      success: true,
+      data: mapTask(task),
+    });
+  })
+);
+
+// Delete task
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('tasks:delete'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+
+    const tasks = await query<Pick<DBTask, 'title'>>(
+      'DELETE FROM tasks WHERE id = $1 RETURNING title',
+      [id]
+    );
+
+    const task = tasks[0];
+    if (!task) {
+      throw errors.notFound('Task');
+    }
+
+    // Log activity
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'task', $2, 'deleted', $3)`,
+      [req.user!.sub, id, `Deleted task: ${task.title}`]
+    );
+
+    res.json({
+      success: true,
+      data: { message: 'Task deleted successfully' },
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,234 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { resolveTax } from '../services/tax.js';
+import { AuthenticatedRequest, DBTaxJurisdiction, DBTaxRate, ApiResponse } from '../types/index.js';
+
+// Sales tax jurisdictions and their component rates. Documents keep the
+// breakdown they were taxed with, so changing a rate here only affects
+// estimates and invoices saved afterwards.
+
+const router = Router();
+
+// Validation schemas
+const rateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  // Fraction, e.g. 0.04 for 4%
+  rate: z.number().min(0).lt(1),
+});
+
+const jurisdictionSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  state: z.string().trim().min(1).max(50),
+  // Five-digit ZIP codes; none covers the rest of the state
+  zipCodes: z.array(z.string().trim().regex(/^\d{5}$/, 'ZIP codes must be five digits')).default([]),
+  rates: z.array(rateSchema).min(1),
+});
+
+const updateJurisdictionSchema = jurisdictionSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const resolveSchema = z.object({
+  clientId: z.string().uuid().optional(),
+  projectId: z.string().uuid().optional(),
+  // 'none' resolves the custom rate the way a document with no jurisdiction does
+  jurisdictionId: z.union([z.string().uuid(), z.literal('none')]).optional(),
+});
+
+type JurisdictionRow = DBTaxJurisdiction & { rates: DBTaxRate[] | null };
+
+// Jurisdictions with their rates in order (alias j)
+const JURISDICTION_SELECT = `
+  SELECT j.*,
+         (SELECT json_agg(r ORDER BY r.sort_order, r.name) FROM tax_rates r WHERE r.jurisdiction_id = j.id) AS rates
+  FROM tax_jurisdictions j`;
+
+// Helper to map DB jurisdiction to API response
+function mapJurisdiction(j: JurisdictionRow) {
+  const rates = (j.rates ?? []).map((r) => ({ id: r.id, name: r.name, rate: parseFloat(String(r.rate)) }));
+  return {
+    id: j.id,
+    name: j.name,
+    state: j.state,
+    zipCodes: j.zip_codes,
+    isActive: j.is_active,
+    rates,
+    // Combined rate, e.g. 0.08625
+    totalRate: Math.round(rates.reduce((sum, r) => sum + r.rate, 0) * 1e6) / 1e6,
+    createdAt: j.created_at,
+    updatedAt: j.updated_at,
+  };
+}
+
+async function loadJurisdiction(id: string): Promise<JurisdictionRow> {
+  const rows = await query<JurisdictionRow>(`${JURISDICTION_SELECT} WHERE j.id = $1`, [id]);
+  if (rows.length === 0) {
+    throw errors.notFound('Tax jurisdiction');
+  }
+  return rows[0];
+}
+
+async function assertNameAvailable(name: string, exceptId?: string) {
+  const rows = await query(
+    'SELECT 1 FROM tax_jurisdictions WHERE LOWER(name) = LOWER($1) AND id IS DISTINCT FROM $2',
+    [name, exceptId ?? null]
+  );
+  if (rows.length > 0) {
+    throw errors.conflict('A tax jurisdiction with this name already exists');
+  }
+}
+
+router.get(
+  '/jurisdictions',
+  authenticate,
+  requirePermission('estimating:view', 'accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const includeInactive = req.query.includeInactive === 'true';
+
+    const rows = await query<JurisdictionRow>(
+      `${JURISDICTION_SELECT}
+       ${includeInactive ? '' : 'WHERE j.is_active'}
+       ORDER BY UPPER(j.state), j.name`
+    );
+
+    res.json({
+      success: true,
+      data: rows.map(mapJurisdiction),
+    });
+  })
+);
+
+// The rates a document for this client and project would be taxed at
+router.get(
+  '/resolve',
+  authenticate,
+  requirePermission('estimating:view', 'accounting:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const params = resolveSchema.parse(req.query);
+
+    const resolved = await resolveTax({
+      clientId: params.clientId,
+      projectId: params.projectId,
+      jurisdictionId: params.jurisdictionId === 'none' ? null : params.jurisdictionId,
+    });
+
+    res.json({
+      success: true,
+      data: resolved,
+    });
+  })
+);
+
+router.post(
+  '/jurisdictions',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = jurisdictionSchema.parse(req.body);
+    await assertNameAvailable(data.name);
+
+    const id = await withTransaction(async (db) => {
+      const inserted = await db.query<DBTaxJurisdiction>(
+        `INSERT INTO tax_jurisdictions (name, state, zip_codes)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [data.name, data.state.toUpperCase(), data.zipCodes]
+      );
+      const jurisdictionId = inserted.rows[0].id;
+
+      for (let i = 0; i < data.rates.length; i++) {
+        await db.query(
+          'INSERT INTO tax_rates (jurisdiction_id, name, rate, sort_order) VALUES ($1, $2, $3, $4)',
+          [jurisdictionId, data.rates[i].name, data.rates[i].rate, i]
+        );
+      }
+      return jurisdictionId;
+    });
+
+    res.status(201).json({
+      success: true,
+      data: mapJurisdiction(await loadJurisdiction(id)),
+    });
+  })
+);
+
+// Update a jurisdiction. rates, when given, replace its rates.
+router.patch(
+  '/jurisdictions/:id',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { id } = req.params;
+    const data = updateJurisdictionSchema.parse(req.body);
+    await loadJurisdiction(id);
+    if (data.name) {
+      await assertNameAvailable(data.name, id);
+    }
+
+    await withTransaction(async (db) => {
+      await db.query(
+        `UPDATE tax_jurisdictions SET
+           name = COALESCE($2, name),
+           state = COALESCE($3, state),
+           zip_codes = COALESCE($4, zip_codes),
+           is_active = COALESCE($5, is_active)
+         WHERE id = $1`,
+        [id, data.name, data.state?.toUpperCase(), data.zipCodes, data.isActive]
+      );
+
+      if (data.rates) {
+        await db.query('DELETE FROM tax_rates WHERE jurisdiction_id = $1', [id]);
+        for (let i = 0; i < data.rates.length; i++) {
+          await db.query(
+            'INSERT INTO tax_rates (jurisdiction_id, name, rate, sort_order) VALUES ($1, $2, $3, $4)',
+            [id, data.rates[i].name, data.rates[i].rate, i]
+          );
+        }
+      }
+    });
+
+    res.json({
+      success: true,
+      data: mapJurisdiction(await loadJurisdiction(id)),
+    });
+  })
+);
+
+// Remove a jurisdiction. One that documents were taxed under is deactivated
+// instead, so they keep showing where their tax came from.
+router.delete(
+  '/jurisdictions/:id',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const jurisdiction = await loadJurisdiction(req.params.id);
+
+    const used = await query(
+      `SELECT 1 FROM estimates WHERE tax_jurisdiction_id = $1
+       UNION ALL
+       SELECT 1 FROM invoices WHERE tax_jurisdiction_id = $1
+       LIMIT 1`,
+      [jurisdiction.id]
+    );
+    if (used.length > 0) {
+      await query('UPDATE tax_jurisdictions SET is_active = false WHERE id = $1', [jurisdiction.id]);
+    } else {
+      await query('DELETE FROM tax_jurisdictions WHERE id = $1', [jurisdiction.id]);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        archived: used.length > 0,
+        message: used.length > 0
+          ? 'Tax jurisdiction is used by estimates or invoices and was deactivated'
+          : 'Tax jurisdiction deleted successfully',
+      },
+    });
+  })
+);
+
+export default router;
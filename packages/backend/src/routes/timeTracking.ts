@@ -0,0 +1,581 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { query, withTransaction } from '../config/database.js';
+import { authenticate, requirePermission, hasPermission } from '../middleware/auth.js';
+import { asyncHandler, errors } from '../middleware/errorHandler.js';
+import { loadProject } from '../services/jobCosting.js';
+import {
+  TIMESHEET_COLUMNS,
+  addDays,
+  approverIdsFor,
+  approverKey,
+  assertCanApprove,
+  assertEditable,
+  invoiceBillableHours,
+  loadBillableHours,
+  loadTimesheet,
+  openTimesheet,
+  stopTimer,
+  supervisedCondition,
+  weekStartOf,
+} from '../services/timeTracking.js';
+import { AuthenticatedRequest, DBTimeEntry, DBTimesheet, ApiResponse } from '../types/index.js';
+
+// Time tracking: timers and manual time entries against projects (and
+// optionally their tasks), each user's weekly timesheets with the submit and
+// supervisor approval flow, and invoicing of approved billable hours.
+
+const router = Router();
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+// Validation schemas
+const entrySchema = z.object({
+  projectId: z.string().uuid(),
+  taskId: z.string().uuid().nullable().optional(),
+  entryDate: dateSchema,
+  hours: z.number().positive().max(24),
+  description: z.string().trim().max(2000).nullable().optional(),
+  billable: z.boolean().default(true),
+});
+
+const updateEntrySchema = entrySchema.partial();
+
+const startTimerSchema = z.object({
+  projectId: z.string().uuid(),
+  taskId: z.string().uuid().nullable().optional(),
+  // The user's local date, which the time is booked to
+  entryDate: dateSchema,
+  description: z.string().trim().max(2000).nullable().optional(),
+  billable: z.boolean().default(true),
+});
+
+const weekSchema = z.object({
+  weekStart: dateSchema,
+});
+
+const rejectSchema = z.object({
+  reason: z.string().trim().min(1, 'Say why the timesheet is being rejected').max(2000),
+});
+
+const invoiceHoursSchema = z.object({
+  hourlyRate: z.number().min(0),
+  // Per-person rates by user id, overriding hourlyRate
+  rates: z.record(z.string().uuid(), z.number().min(0)).optional(),
+  taxable: z.boolean().default(false),
+  dueDate: dateSchema.optional(),
+});
+
+const ENTRY_SELECT = `
+  SELECT e.*, to_char(e.entry_date, 'YYYY-MM-DD') AS entry_date,
+         p.name AS project_name, tk.title AS task_title, i.invoice_number
+  FROM time_entries e
+  JOIN projects p ON e.project_id = p.id
+  LEFT JOIN tasks tk ON e.task_id = tk.id
+  LEFT JOIN invoices i ON e.invoice_id = i.id`;
+
+// Timesheets with their owner, decider and hour totals (grouped by t.id)
+const TIMESHEET_SELECT = `
+  SELECT ${TIMESHEET_COLUMNS}, u.name AS user_name, d.name AS decided_by_name,
+         COALESCE(SUM(e.hours), 0) AS total_hours,
+         COALESCE(SUM(e.hours) FILTER (WHERE e.billable), 0) AS billable_hours
+  FROM timesheets t
+  JOIN users u ON t.user_id = u.id
+  LEFT JOIN users d ON t.decided_by = d.id
+  LEFT JOIN time_entries e ON e.timesheet_id = t.id`;
+
+const TIMESHEET_GROUP = 'GROUP BY t.id, u.name, d.name';
+
+function mapEntry(e: any) {
+  return {
+    id: e.id,
+    timesheetId: e.timesheet_id,
+    projectId: e.project_id,
+    projectName: e.project_name,
+    taskId: e.task_id,
+    taskTitle: e.task_title,
+    entryDate: e.entry_date,
+    startedAt: e.started_at,
+    endedAt: e.ended_at,
+    // null while the timer is running
+    hours: e.hours === null ? null : parseFloat(e.hours),
+    description: e.description,
+    billable: e.billable,
+    invoiceId: e.invoice_id,
+    invoiceNumber: e.invoice_number,
+    createdAt: e.created_at,
+    updatedAt: e.updated_at,
+  };
+}
+
+function mapTimesheet(t: any) {
+  return {
+    id: t.id,
+    userId: t.user_id,
+    userName: t.user_name,
+    weekStart: t.week_start,
+    weekEnd: addDays(t.week_start, 6),
+    status: t.status,
+    submittedAt: t.submitted_at,
+    decidedBy: t.decided_by,
+    decidedByName: t.decided_by_name,
+    decidedAt: t.decided_at,
+    rejectionReason: t.rejection_reason,
+    totalHours: parseFloat(t.total_hours),
+    billableHours: parseFloat(t.billable_hours),
+  };
+}
+
+async function loadEntry(id: string, userId: string): Promise<DBTimeEntry> {
+  const rows = await query<DBTimeEntry>(
+    `SELECT *, to_char(entry_date, 'YYYY-MM-DD') AS entry_date FROM time_entries WHERE id = $1 AND user_id = $2`,
+    [id, userId]
+  );
+  if (rows.length === 0) {
+    throw errors.notFound('Time entry');
+  }
+  return rows[0];
+}
+
+async function loadMappedEntry(id: string) {
+  const rows = await query<any>(`${ENTRY_SELECT} WHERE e.id = $1`, [id]);
+  return mapEntry(rows[0]);
+}
+
+async function loadMappedTimesheet(id: string) {
+  const rows = await query<any>(`${TIMESHEET_SELECT} WHERE t.id = $1 ${TIMESHEET_GROUP}`, [id]);
+  return mapTimesheet(rows[0]);
+}
+
+async function assertTask(id: string) {
+  const tasks = await query('SELECT 1 FROM tasks WHERE id = $1', [id]);
+  if (tasks.length === 0) {
+    throw errors.notFound('Task');
+  }
+}
+
+// A week's timesheet with its entries and who can approve it
+async function loadWeek(userId: string, weekStart: string) {
+  const sheets = await query<any>(
+    `${TIMESHEET_SELECT} WHERE t.user_id = $1 AND t.week_start = $2 ${TIMESHEET_GROUP}`,
+    [userId, weekStart]
+  );
+  const entries = sheets.length > 0
+    ? await query<any>(`${ENTRY_SELECT} WHERE e.timesheet_id = $1 ORDER BY e.entry_date, e.created_at`, [sheets[0].id])
+    : [];
+
+  return {
+    weekStart,
+    weekEnd: addDays(weekStart, 6),
+    // null until the first entry of the week
+    timesheet: sheets.length > 0 ? mapTimesheet(sheets[0]) : null,
+    entries: entries.map(mapEntry),
+    // Portal user ids (Admin > Users) of the supervisors who approve it
+    approverIds: await approverIdsFor(userId),
+  };
+}
+
+// The signed-in user's week (the current one unless weekStart is given)
+router.get(
+  '/week',
+  authenticate,
+  requirePermission('projects:time'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const weekStart = typeof req.query.weekStart === 'string'
+      ? weekStartOf(dateSchema.parse(req.query.weekStart))
+      : weekStartOf(new Date().toISOString().slice(0, 10));
+
+    res.json({
+      success: true,
+      data: await loadWeek(req.user!.sub, weekStart),
+    });
+  })
+);
+
+// The signed-in user's running timer, if any
+router.get(
+  '/timer',
+  authenticate,
+  requirePermission('projects:time'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const rows = await query<any>(`${ENTRY_SELECT} WHERE e.user_id = $1 AND e.hours IS NULL`, [req.user!.sub]);
+
+    res.json({
+      success: true,
+      data: rows.length > 0 ? mapEntry(rows[0]) : null,
+    });
+  })
+);
+
+// Start a timer, stopping the one already running
+router.post(
+  '/timer/start',
+  authenticate,
+  requirePermission('projects:time'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = startTimerSchema.parse(req.body);
+    await loadProject(data.projectId);
+    if (data.taskId) {
+      await assertTask(data.taskId);
+    }
+
+    const { id, stoppedId } = await withTransaction(async (db) => {
+      const stoppedId = await stopTimer(db, req.user!.sub);
+      const sheet = await openTimesheet(db, req.user!.sub, data.entryDate);
+      const inserted = await db.query<{ id: string }>(
+        `INSERT INTO time_entries (timesheet_id, user_id, project_id, task_id, entry_date, started_at, description, billable)
+         VALUES ($1, $2, $3, $4, $5, NOW(), $6, $7)
+         RETURNING id`,
+        [sheet.id, req.user!.sub, data.projectId, data.taskId ?? null, data.entryDate, data.description ?? null, data.billable]
+      );
+      return { id: inserted.rows[0].id, stoppedId };
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        timer: await loadMappedEntry(id),
+        stopped: stoppedId ? await loadMappedEntry(stoppedId) : null,
+      },
+    });
+  })
+);
+
+router.post(
+  '/timer/stop',
+  authenticate,
+  requirePermission('projects:time'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const stoppedId = await withTransaction((db) => stopTimer(db, req.user!.sub));
+    if (!stoppedId) {
+      throw errors.badRequest('No timer is running');
+    }
+
+    res.json({
+      success: true,
+      data: await loadMappedEntry(stoppedId),
+    });
+  })
+);
+
+// Enter time by hand
+router.post(
+  '/entries',
+  authenticate,
+  requirePermission('projects:time'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = entrySchema.parse(req.body);
+    await loadProject(data.projectId);
+    if (data.taskId) {
+      await assertTask(data.taskId);
+    }
+
+    const id = await withTransaction(async (db) => {
+      const sheet = await openTimesheet(db, req.user!.sub, data.entryDate);
+      const inserted = await db.query<{ id: string }>(
+        `INSERT INTO time_entries (timesheet_id, user_id, project_id, task_id, entry_date, hours, description, billable)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING id`,
+        [sheet.id, req.user!.sub, data.projectId, data.taskId ?? null, data.entryDate, data.hours, data.description ?? null, data.billable]
+      );
+      return inserted.rows[0].id;
+    });
+
+    res.status(201).json({
+      success: true,
+      data: await loadMappedEntry(id),
+    });
+  })
+);
+
+router.patch(
+  '/entries/:id',
+  authenticate,
+  requirePermission('projects:time'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = updateEntrySchema.parse(req.body);
+    const entry = await loadEntry(req.params.id, req.user!.sub);
+    if (data.projectId) {
+      await loadProject(data.projectId);
+    }
+    if (data.taskId) {
+      await assertTask(data.taskId);
+    }
+    if (data.hours !== undefined && entry.hours === null) {
+      throw errors.badRequest('Stop the timer before changing its hours');
+    }
+
+    await withTransaction(async (db) => {
+      const current = (await db.query<DBTimesheet>(
+        `SELECT ${TIMESHEET_COLUMNS} FROM timesheets t WHERE t.id = $1 FOR UPDATE`,
+        [entry.timesheet_id]
+      )).rows[0];
+      assertEditable(current);
+      // A new date may move the entry to another week's timesheet
+      const sheet = data.entryDate ? await openTimesheet(db, req.user!.sub, data.entryDate) : current;
+
+      await db.query(
+        `UPDATE time_entries
+         SET timesheet_id = $2, project_id = $3, task_id = $4, entry_date = $5, hours = $6, description = $7, billable = $8
+         WHERE id = $1`,
+        [
+          entry.id,
+          sheet.id,
+          data.projectId ?? entry.project_id,
+          data.taskId !== undefined ? data.taskId : entry.task_id,
+          data.entryDate ?? entry.entry_date,
+          data.hours ?? entry.hours,
+          data.description !== undefined ? data.description : entry.description,
+          data.billable ?? entry.billable,
+        ]
+      );
+    });
+
+    res.json({
+      success: true,
+      data: await loadMappedEntry(entry.id),
+    });
+  })
+);
+
+router.delete(
+  '/entries/:id',
+  authenticate,
+  requirePermission('projects:time'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const entry = await loadEntry(req.params.id, req.user!.sub);
+    assertEditable(await loadTimesheet(entry.timesheet_id));
+
+    await query('DELETE FROM time_entries WHERE id = $1', [entry.id]);
+
+    res.json({
+      success: true,
+      data: { message: 'Time entry deleted' },
+    });
+  })
+);
+
+// Submit the signed-in user's week for approval
+router.post(
+  '/week/submit',
+  authenticate,
+  requirePermission('projects:time'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { weekStart } = weekSchema.parse(req.body);
+    const week = weekStartOf(weekStart);
+
+    const sheetId = await withTransaction(async (db) => {
+      const sheet = await openTimesheet(db, req.user!.sub, week);
+      const counts = (await db.query<{ entries: string; running: string }>(
+        `SELECT COUNT(*) AS entries, COUNT(*) FILTER (WHERE hours IS NULL) AS running
+         FROM time_entries WHERE timesheet_id = $1`,
+        [sheet.id]
+      )).rows[0];
+      if (parseInt(counts.entries, 10) === 0) {
+        throw errors.badRequest('There is no time entered for that week');
+      }
+      if (parseInt(counts.running, 10) > 0) {
+        throw errors.badRequest('Stop the running timer before submitting the week');
+      }
+
+      await db.query(
+        `UPDATE timesheets
+         SET status = 'submitted', submitted_at = NOW(), decided_by = NULL, decided_at = NULL, rejection_reason = NULL
+         WHERE id = $1`,
+        [sheet.id]
+      );
+      return sheet.id;
+    });
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'timesheet', $2, 'submitted', $3)`,
+      [req.user!.sub, sheetId, `Submitted timesheet for the week of ${week}`]
+    );
+
+    res.json({
+      success: true,
+      data: await loadWeek(req.user!.sub, week),
+    });
+  })
+);
+
+// Timesheets of the people the signed-in user supervises (all of them for
+// administrators), waiting for approval unless another status is asked for
+router.get(
+  '/approvals',
+  authenticate,
+  requirePermission('projects:timesheets'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const status = z.enum(['submitted', 'approved', 'rejected']).default('submitted').parse(req.query.status);
+
+    let whereClause = 'WHERE t.status = $1 AND t.user_id <> $2';
+    const params: unknown[] = [status, req.user!.sub];
+    if (!req.user!.roles.includes('admin')) {
+      const me = await approverKey(req.user!);
+      if (!me.userId) {
+        res.json({ success: true, data: [] });
+        return;
+      }
+      whereClause += ` AND ${supervisedCondition('t', '$3', '$4')}`;
+      params.push(me.userId, me.positionId);
+    }
+
+    const sheets = await query<any>(
+      `${TIMESHEET_SELECT} ${whereClause} ${TIMESHEET_GROUP} ORDER BY t.week_start DESC, u.name LIMIT 200`,
+      params
+    );
+
+    res.json({
+      success: true,
+      data: sheets.map(mapTimesheet),
+    });
+  })
+);
+
+// One timesheet with its entries, for its owner or an approver
+router.get(
+  '/timesheets/:id',
+  authenticate,
+  requirePermission('projects:time', 'projects:timesheets'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const sheet = await loadTimesheet(req.params.id);
+    if (sheet.user_id !== req.user!.sub) {
+      if (!hasPermission(req.user!, 'projects:timesheets')) {
+        throw errors.notFound('Timesheet');
+      }
+      await assertCanApprove(req.user!, sheet);
+    }
+
+    const entries = await query<any>(
+      `${ENTRY_SELECT} WHERE e.timesheet_id = $1 ORDER BY e.entry_date, e.created_at`,
+      [sheet.id]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        timesheet: await loadMappedTimesheet(sheet.id),
+        entries: entries.map(mapEntry),
+      },
+    });
+  })
+);
+
+router.post(
+  '/timesheets/:id/approve',
+  authenticate,
+  requirePermission('projects:timesheets'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const sheet = await loadTimesheet(req.params.id);
+    await assertCanApprove(req.user!, sheet);
+
+    const updated = await query(
+      `UPDATE timesheets SET status = 'approved', decided_by = $2, decided_at = NOW(), rejection_reason = NULL
+       WHERE id = $1 AND status = 'submitted'
+       RETURNING id`,
+      [sheet.id, req.user!.sub]
+    );
+    if (updated.length === 0) {
+      throw errors.badRequest('Only submitted timesheets can be approved');
+    }
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'timesheet', $2, 'approved', $3)`,
+      [req.user!.sub, sheet.id, `Approved timesheet for the week of ${sheet.week_start}`]
+    );
+
+    res.json({
+      success: true,
+      data: await loadMappedTimesheet(sheet.id),
+    });
+  })
+);
+
+// Send a timesheet back to its owner, who can change and resubmit it
+router.post(
+  '/timesheets/:id/reject',
+  authenticate,
+  requirePermission('projects:timesheets'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { reason } = rejectSchema.parse(req.body);
+    const sheet = await loadTimesheet(req.params.id);
+    await assertCanApprove(req.user!, sheet);
+
+    const updated = await query(
+      `UPDATE timesheets SET status = 'rejected', decided_by = $2, decided_at = NOW(), rejection_reason = $3
+       WHERE id = $1 AND status = 'submitted'
+       RETURNING id`,
+      [sheet.id, req.user!.sub, reason]
+    );
+    if (updated.length === 0) {
+      throw errors.badRequest('Only submitted timesheets can be rejected');
+    }
+
+    await query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'timesheet', $2, 'rejected', $3)`,
+      [req.user!.sub, sheet.id, `Rejected timesheet for the week of ${sheet.week_start}: ${reason}`]
+    );
+
+    res.json({
+      success: true,
+      data: await loadMappedTimesheet(sheet.id),
+    });
+  })
+);
+
+// Hours on a project: totals by approval status, and the approved billable
+// hours not yet invoiced by person
+router.get(
+  '/projects/:projectId',
+  authenticate,
+  requirePermission('projects:view'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const project = await loadProject(req.params.projectId);
+    const totals = await query<{ total: string; approved: string; billable: string; invoiced: string }>(
+      `SELECT COALESCE(SUM(e.hours), 0) AS total,
+              COALESCE(SUM(e.hours) FILTER (WHERE t.status = 'approved'), 0) AS approved,
+              COALESCE(SUM(e.hours) FILTER (WHERE t.status = 'approved' AND e.billable), 0) AS billable,
+              COALESCE(SUM(e.hours) FILTER (WHERE e.invoice_id IS NOT NULL), 0) AS invoiced
+       FROM time_entries e
+       JOIN timesheets t ON e.timesheet_id = t.id
+       WHERE e.project_id = $1`,
+      [project.id]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        totalHours: parseFloat(totals[0].total),
+        approvedHours: parseFloat(totals[0].approved),
+        billableHours: parseFloat(totals[0].billable),
+        invoicedHours: parseFloat(totals[0].invoiced),
+        unbilled: await loadBillableHours(project.id),
+      },
+    });
+  })
+);
+
+// Bill a project's approved, unbilled hours on a new draft invoice
+router.post(
+  '/projects/:projectId/invoice',
+  authenticate,
+  requirePermission('accounting:edit'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const data = invoiceHoursSchema.parse(req.body);
+    const project = await loadProject(req.params.projectId);
+    const result = await invoiceBillableHours(project, data, req.user!.sub);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...result,
+        message: `Invoice ${result.invoiceNumber} was drafted for ${result.hours} hours`,
+      },
+    });
+  })
+);
+
+export default router;
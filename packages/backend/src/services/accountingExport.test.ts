@@ -0,0 +1,299 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AccountMapping, createExportBatch, DEFAULT_ACCOUNT_MAPPING, ExportFormat } from './accountingExport.js';
+
+vi.mock('../config/database.js', () => ({ query: vi.fn(), withTransaction: vi.fn() }));
+
+const MAPPING: AccountMapping = {
+  ...DEFAULT_ACCOUNT_MAPPING,
+  revenueByCategory: [{ category: 'Electrical', account: 'Electrical Income' }],
+};
+
+// What the export's queries find pending, as the rows Postgres returns
+interface Pending {
+  invoices: Array<{ id: string; invoice_number: string; issue_date: string; tax_amount: string; total: string; client_name: string | null }>;
+  items: Array<{ invoice_id: string; description: string; category: string | null; total: string }>;
+  payments: Array<{
+    id: string;
+    amount: string;
+    overpayment: string;
+    method: string;
+    reference: string | null;
+    payment_date: string;
+    invoice_number: string;
+    client_name: string | null;
+  }>;
+}
+
+let pending: Pending;
+let exported: { entityTypes: string[]; entityIds: string[] } | null;
+
+const client = {
+  query: async (sql: string, params: any[] = []) => {
+    if (sql.startsWith('LOCK TABLE')) return { rows: [] };
+    if (sql.includes('FROM invoices i')) return { rows: pending.invoices };
+    if (sql.includes('FROM invoice_line_items')) {
+      return { rows: pending.items.filter((item) => params[0].includes(item.invoice_id)) };
+    }
+    if (sql.includes('FROM payments p')) return { rows: pending.payments };
+    if (sql.includes('INSERT INTO accounting_export_batches')) {
+      const [format, , , invoiceCount, paymentCount, totalAmount, filename, content] = params;
+      return {
+        rows: [{ id: 'batch-1', format, invoice_count: invoiceCount, payment_count: paymentCount, total_amount: totalAmount, filename, content }],
+      };
+    }
+    if (sql.includes('INSERT INTO accounting_export_entries')) {
+      exported = { entityTypes: params[0], entityIds: params[1] };
+      return { rows: [] };
+    }
+    if (sql.includes('INSERT INTO activities')) return { rows: [] };
+    throw new Error(`Unexpected query: ${sql}`);
+  },
+} as unknown as PoolClient;
+
+const exportAs = (format: ExportFormat) => createExportBatch('2026-04-01', '2026-04-30', format, 'user-1');
+
+// The TRNS/SPL rows of each transaction in an IIF file, split into fields
+function iifTransactions(iif: string): string[][][] {
+  const transactions: string[][][] = [[]];
+  for (const row of iif.trimEnd().split('\r\n').slice(3)) {
+    if (row === 'ENDTRNS') transactions.push([]);
+    else transactions[transactions.length - 1].push(row.split('\t'));
+  }
+  return transactions.slice(0, -1);
+}
+
+// Account and amount of each posting
+const postings = (rows: string[][]) => rows.map((row) => [row[3], row[5]]);
+
+const balanceCents = (rows: string[][]) => rows.reduce((sum, row) => sum + Math.round(parseFloat(row[5]) * 100), 0);
+
+// Taxed at 8.875% (NY State and Erie County): 1100.00 + 97.63
+const TAXED_INVOICE = {
+  id: 'invoice-1',
+  invoice_number: 'INV-2026-0107',
+  issue_date: '2026-04-15',
+  tax_amount: '97.63',
+  total: '1197.63',
+  client_name: 'Harbor Point LLC',
+};
+const TAXED_ITEMS = [
+  { invoice_id: 'invoice-1', description: 'Panel upgrade', category: ' electrical ', total: '600.00' },
+  { invoice_id: 'invoice-1', description: 'Drywall patch', category: null, total: '400.00' },
+  { invoice_id: 'invoice-1', description: 'Fixtures', category: 'Electrical', total: '100.00' },
+];
+
+const CHECK_PAYMENT = {
+  id: 'payment-1',
+  amount: '500.00',
+  overpayment: '0.00',
+  method: 'check',
+  reference: '1042',
+  payment_date: '2026-04-20',
+  invoice_number: 'INV-2026-0107',
+  client_name: 'Harbor Point LLC',
+};
+
+beforeEach(() => {
+  pending = { invoices: [], items: [], payments: [] };
+  exported = null;
+  vi.mocked(query).mockReset().mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM settings')) return [{ value: MAPPING }];
+    throw new Error(`Unexpected query: ${sql}`);
+  });
+  vi.mocked(withTransaction).mockImplementation((fn) => fn(client));
+});
+
+describe('createExportBatch as IIF', () => {
+  it('writes the IIF header and CRLF line endings', async () => {
+    pending.invoices = [TAXED_INVOICE];
+    pending.items = TAXED_ITEMS;
+
+    const { content, filename } = await exportAs('iif');
+
+    expect(filename).toBe('journal_2026-04-01_to_2026-04-30.iif');
+    expect(content.split('\r\n').slice(0, 3)).toEqual([
+      '!TRNS\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+      '!SPL\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+      '!ENDTRNS',
+    ]);
+    expect(content.endsWith('ENDTRNS\r\n')).toBe(true);
+    expect(content.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+
+  it('debits receivables and credits revenue by category and sales tax for a taxed invoice', async () => {
+    pending.invoices = [TAXED_INVOICE];
+    pending.items = TAXED_ITEMS;
+
+    const [invoice] = iifTransactions((await exportAs('iif')).content);
+
+    expect(invoice).toEqual([
+      ['TRNS', 'INVOICE', '04/15/2026', 'Accounts Receivable', 'Harbor Point LLC', '1197.63', 'INV-2026-0107', 'Invoice INV-2026-0107'],
+      // Lines in the same category share one credit, under the first line's description
+      ['SPL', 'INVOICE', '04/15/2026', 'Electrical Income', 'Harbor Point LLC', '-700.00', 'INV-2026-0107', 'Panel upgrade'],
+      ['SPL', 'INVOICE', '04/15/2026', 'Construction Income', 'Harbor Point LLC', '-400.00', 'INV-2026-0107', 'Drywall patch'],
+      ['SPL', 'INVOICE', '04/15/2026', 'Sales Tax Payable', 'Harbor Point LLC', '-97.63', 'INV-2026-0107', 'Sales tax'],
+    ]);
+    expect(balanceCents(invoice)).toBe(0);
+  });
+
+  it('leaves out the sales tax posting on an untaxed invoice', async () => {
+    pending.invoices = [{ ...TAXED_INVOICE, tax_amount: '0.00', total: '1100.00' }];
+    pending.items = TAXED_ITEMS;
+
+    const [invoice] = iifTransactions((await exportAs('iif')).content);
+
+    expect(postings(invoice)).toEqual([
+      ['Accounts Receivable', '1100.00'],
+      ['Electrical Income', '-700.00'],
+      ['Construction Income', '-400.00'],
+    ]);
+  });
+
+  it('posts a payment to undeposited funds against receivables', async () => {
+    pending.payments = [CHECK_PAYMENT];
+
+    const [payment] = iifTransactions((await exportAs('iif')).content);
+
+    expect(payment).toEqual([
+      ['TRNS', 'PAYMENT', '04/20/2026', 'Undeposited Funds', 'Harbor Point LLC', '500.00', '1042', 'CHECK payment on invoice INV-2026-0107'],
+      ['SPL', 'PAYMENT', '04/20/2026', 'Accounts Receivable', 'Harbor Point LLC', '-500.00', '1042', 'CHECK payment on invoice INV-2026-0107'],
+    ]);
+  });
+
+  it('credits an overpayment to client credits and deposits all of it', async () => {
+    pending.payments = [
+      { ...CHECK_PAYMENT, method: 'ach', reference: null, amount: '1197.63', overpayment: '52.37' },
+    ];
+
+    const [payment] = iifTransactions((await exportAs('iif')).content);
+
+    expect(payment.map((row) => [row[3], row[5], row[6], row[7]])).toEqual([
+      ['Undeposited Funds', '1250.00', 'INV-2026-0107', 'ACH payment on invoice INV-2026-0107'],
+      ['Accounts Receivable', '-1197.63', 'INV-2026-0107', 'ACH payment on invoice INV-2026-0107'],
+      ['Customer Credits', '-52.37', 'INV-2026-0107', 'Overpayment credited to client'],
+    ]);
+    expect(balanceCents(payment)).toBe(0);
+  });
+
+  it('journals a credit memo applied to an invoice out of client credits', async () => {
+    pending.payments = [
+      { ...CHECK_PAYMENT, id: 'payment-2', method: 'credit', reference: null, amount: '52.37', payment_date: '2026-04-28' },
+    ];
+
+    const [credit] = iifTransactions((await exportAs('iif')).content);
+
+    expect(credit).toEqual([
+      ['TRNS', 'GENERAL JOURNAL', '04/28/2026', 'Customer Credits', 'Harbor Point LLC', '52.37', 'INV-2026-0107', 'Credit applied to invoice INV-2026-0107'],
+      ['SPL', 'GENERAL JOURNAL', '04/28/2026', 'Accounts Receivable', 'Harbor Point LLC', '-52.37', 'INV-2026-0107', 'Credit applied to invoice INV-2026-0107'],
+    ]);
+  });
+
+  it('books line totals that miss the invoice by a cent to default revenue so the entry still balances', async () => {
+    // 100.00 billed in thirds; the lines round to 99.99
+    pending.invoices = [{ ...TAXED_INVOICE, tax_amount: '8.88', total: '108.88' }];
+    pending.items = ['Rough-in', 'Trim-out', 'Inspection'].map((description) => ({
+      invoice_id: 'invoice-1',
+      description,
+      category: 'Electrical',
+      total: '33.33',
+    }));
+
+    const [invoice] = iifTransactions((await exportAs('iif')).content);
+
+    expect(invoice.map((row) => [row[3], row[5], row[7]])).toEqual([
+      ['Accounts Receivable', '108.88', 'Invoice INV-2026-0107'],
+      ['Electrical Income', '-99.99', 'Rough-in'],
+      ['Construction Income', '-0.01', 'Revenue'],
+      ['Sales Tax Payable', '-8.88', 'Sales tax'],
+    ]);
+    expect(balanceCents(invoice)).toBe(0);
+  });
+
+  it('books an invoice without line items entirely to default revenue', async () => {
+    pending.invoices = [{ ...TAXED_INVOICE, tax_amount: '0.00', total: '2500.00' }];
+
+    const [invoice] = iifTransactions((await exportAs('iif')).content);
+
+    expect(postings(invoice)).toEqual([
+      ['Accounts Receivable', '2500.00'],
+      ['Construction Income', '-2500.00'],
+    ]);
+  });
+
+  it('orders entries by date, invoices first on the same day, and keeps each one balanced', async () => {
+    pending.invoices = [TAXED_INVOICE];
+    pending.items = TAXED_ITEMS;
+    pending.payments = [
+      { ...CHECK_PAYMENT, id: 'payment-2', method: 'credit', reference: null, amount: '52.37', payment_date: '2026-04-15' },
+      { ...CHECK_PAYMENT, payment_date: '2026-04-10' },
+    ];
+
+    const transactions = iifTransactions((await exportAs('iif')).content);
+
+    expect(transactions.map((rows) => [rows[0][1], rows[0][2]])).toEqual([
+      ['PAYMENT', '04/10/2026'],
+      ['INVOICE', '04/15/2026'],
+      ['GENERAL JOURNAL', '04/15/2026'],
+    ]);
+    expect(transactions.map(balanceCents)).toEqual([0, 0, 0]);
+    expect(exported).toEqual({
+      entityTypes: ['payment', 'invoice', 'payment'],
+      entityIds: ['payment-1', 'invoice-1', 'payment-2'],
+    });
+  });
+
+  it('keeps tabs and line breaks out of IIF fields', async () => {
+    pending.invoices = [{ ...TAXED_INVOICE, client_name: 'Harbor Point\tLLC\r\n' }];
+    pending.items = [{ ...TAXED_ITEMS[1], description: 'Drywall\npatch', total: '1100.00' }];
+
+    const [invoice] = iifTransactions((await exportAs('iif')).content);
+
+    expect(invoice.every((row) => row.length === 8)).toBe(true);
+    expect(invoice[0][4]).toBe('Harbor Point LLC');
+    expect(invoice[1][7]).toBe('Drywall patch');
+  });
+
+  it('counts what it exported on the batch', async () => {
+    pending.invoices = [TAXED_INVOICE];
+    pending.items = TAXED_ITEMS;
+    pending.payments = [
+      CHECK_PAYMENT,
+      { ...CHECK_PAYMENT, id: 'payment-2', method: 'credit', reference: null, amount: '52.37' },
+    ];
+
+    const batch = await exportAs('iif');
+
+    // Credit applications count as payments; the total is every debit
+    expect(batch).toMatchObject({ invoice_count: 1, payment_count: 2, total_amount: 1750 });
+  });
+
+  it('refuses an empty export', async () => {
+    const error = await exportAs('iif').catch((e) => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.message).toBe('Nothing left to export in this date range');
+  });
+});
+
+describe('createExportBatch as a journal CSV', () => {
+  it('writes one row per posting with debits and credits in their own columns', async () => {
+    pending.invoices = [TAXED_INVOICE];
+    pending.items = TAXED_ITEMS;
+    pending.payments = [CHECK_PAYMENT];
+
+    const { content } = await exportAs('csv');
+
+    expect(content.trimEnd().split('\r\n')).toEqual([
+      'Date,Journal No,Type,Reference,Account,Name,Description,Debit,Credit',
+      '2026-04-15,1,invoice,INV-2026-0107,Accounts Receivable,Harbor Point LLC,Invoice INV-2026-0107,1197.63,',
+      '2026-04-15,1,invoice,INV-2026-0107,Electrical Income,Harbor Point LLC,Panel upgrade,,700.00',
+      '2026-04-15,1,invoice,INV-2026-0107,Construction Income,Harbor Point LLC,Drywall patch,,400.00',
+      '2026-04-15,1,invoice,INV-2026-0107,Sales Tax Payable,Harbor Point LLC,Sales tax,,97.63',
+      '2026-04-20,2,payment,1042,Undeposited Funds,Harbor Point LLC,CHECK payment on invoice INV-2026-0107,500.00,',
+      '2026-04-20,2,payment,1042,Accounts Receivable,Harbor Point LLC,CHECK payment on invoice INV-2026-0107,,500.00',
+    ]);
+  });
+});
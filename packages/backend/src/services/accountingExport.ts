@@ -0,0 +1,456 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database.js';
+import { errors } from '../middleware/errorHandler.js';
+import { toCsv } from '../utils/csv.js';
+import { DBAccountingExportBatch } from '../types/index.js';
+
+// Accounting export: invoices and payments as double-entry journal entries
+// for the bookkeeper's ledger, as a QuickBooks IIF file or a journal CSV that
+// Xero and most other packages import.
+//
+//   Invoice:            Dr Accounts Receivable / Cr revenue (per line category), Cr sales tax
+//   Payment:            Dr Undeposited Funds / Cr Accounts Receivable, Cr client credits (overpayment)
+//   Credit application: Dr client credits / Cr Accounts Receivable
+//
+// Each export is a batch. An invoice or payment belongs to at most one batch,
+// so running the same range again only picks up what hasn't been exported.
+
+export const EXPORT_FORMATS = ['iif', 'csv'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface AccountMapping {
+  accountsReceivable: string;
+  undepositedFunds: string;
+  salesTaxPayable: string;
+  // Liability holding client overpayments until they are applied
+  clientCredits: string;
+  // Revenue for line items without a mapped category
+  defaultRevenue: string;
+  revenueByCategory: { category: string; account: string }[];
+}
+
+export const DEFAULT_ACCOUNT_MAPPING: AccountMapping = {
+  accountsReceivable: 'Accounts Receivable',
+  undepositedFunds: 'Undeposited Funds',
+  salesTaxPayable: 'Sales Tax Payable',
+  clientCredits: 'Customer Credits',
+  defaultRevenue: 'Construction Income',
+  revenueByCategory: [],
+};
+
+export async function getAccountMapping(): Promise<AccountMapping> {
+  const rows = await query<{ value: Partial<AccountMapping> }>(
+    "SELECT value FROM settings WHERE key = 'accounting_export'"
+  );
+  return { ...DEFAULT_ACCOUNT_MAPPING, ...rows[0]?.value };
+}
+
+type EntityType = 'invoice' | 'payment';
+
+interface JournalLine {
+  account: string;
+  // Cents; debits positive, credits negative
+  amount: number;
+  memo: string;
+}
+
+interface JournalEntry {
+  entityType: EntityType;
+  entityId: string;
+  kind: 'invoice' | 'payment' | 'credit';
+  date: string; // YYYY-MM-DD
+  docNumber: string;
+  name: string;
+  memo: string;
+  lines: JournalLine[];
+}
+
+interface PendingInvoice {
+  id: string;
+  invoice_number: string;
+  issue_date: string;
+  tax_amount: string;
+  total: string;
+  client_name: string | null;
+}
+
+interface PendingLineItem {
+  invoice_id: string;
+  description: string;
+  category: string | null;
+  total: string;
+}
+
+interface PendingPayment {
+  id: string;
+  amount: string;
+  overpayment: string;
+  method: string;
+  reference: string | null;
+  payment_date: string;
+  invoice_number: string;
+  client_name: string | null;
+}
+
+function cents(amount: string | number): number {
+  return Math.round(parseFloat(String(amount)) * 100);
+}
+
+function formatAmount(amountCents: number): string {
+  return (amountCents / 100).toFixed(2);
+}
+
+// Reads run on the caller's transaction when there is one
+async function select<T>(db: PoolClient | undefined, sql: string, params: unknown[]): Promise<T[]> {
+  return db ? (await db.query(sql, params)).rows : query<T>(sql, params);
+}
+
+function revenueAccount(mapping: AccountMapping, category: string | null): string {
+  const key = category?.trim().toLowerCase();
+  const match = key && mapping.revenueByCategory.find((m) => m.category.trim().toLowerCase() === key);
+  return match ? match.account : mapping.defaultRevenue;
+}
+
+function invoiceEntry(invoice: PendingInvoice, items: PendingLineItem[], mapping: AccountMapping): JournalEntry {
+  const total = cents(invoice.total);
+  const tax = cents(invoice.tax_amount);
+
+  // One credit per revenue account, in line order
+  const revenue = new Map<string, JournalLine>();
+  for (const item of items) {
+    const account = revenueAccount(mapping, item.category);
+    const line = revenue.get(account) ?? { account, amount: 0, memo: item.description };
+    line.amount -= cents(item.total);
+    revenue.set(account, line);
+  }
+
+  // Whatever the line totals don't account for (rounding, or an invoice
+  // without lines) goes to default revenue so the entry balances
+  const unallocated = total - tax + [...revenue.values()].reduce((sum, line) => sum + line.amount, 0);
+  if (unallocated !== 0) {
+    const line = revenue.get(mapping.defaultRevenue) ?? { account: mapping.defaultRevenue, amount: 0, memo: 'Revenue' };
+    line.amount -= unallocated;
+    revenue.set(mapping.defaultRevenue, line);
+  }
+
+  const lines: JournalLine[] = [
+    { account: mapping.accountsReceivable, amount: total, memo: `Invoice ${invoice.invoice_number}` },
+    ...[...revenue.values()].filter((line) => line.amount !== 0),
+  ];
+  if (tax !== 0) {
+    lines.push({ account: mapping.salesTaxPayable, amount: -tax, memo: 'Sales tax' });
+  }
+
+  return {
+    entityType: 'invoice',
+    entityId: invoice.id,
+    kind: 'invoice',
+    date: invoice.issue_date,
+    docNumber: invoice.invoice_number,
+    name: invoice.client_name ?? '',
+    memo: `Invoice ${invoice.invoice_number}`,
+    lines,
+  };
+}
+
+function paymentEntry(payment: PendingPayment, mapping: AccountMapping): JournalEntry {
+  const applied = cents(payment.amount);
+  const base = {
+    entityType: 'payment' as const,
+    entityId: payment.id,
+    date: payment.payment_date,
+    name: payment.client_name ?? '',
+  };
+
+  if (payment.method === 'credit') {
+    const memo = `Credit applied to invoice ${payment.invoice_number}`;
+    return {
+      ...base,
+      kind: 'credit',
+      docNumber: payment.invoice_number,
+      memo,
+      lines: [
+        { account: mapping.clientCredits, amount: applied, memo },
+        { account: mapping.accountsReceivable, amount: -applied, memo },
+      ],
+    };
+  }
+
+  const overpayment = cents(payment.overpayment);
+  const memo = `${payment.method.toUpperCase()} payment on invoice ${payment.invoice_number}`;
+  const lines: JournalLine[] = [
+    { account: mapping.undepositedFunds, amount: applied + overpayment, memo },
+    { account: mapping.accountsReceivable, amount: -applied, memo },
+  ];
+  if (overpayment !== 0) {
+    lines.push({ account: mapping.clientCredits, amount: -overpayment, memo: 'Overpayment credited to client' });
+  }
+
+  return {
+    ...base,
+    kind: 'payment',
+    docNumber: payment.reference || payment.invoice_number,
+    memo,
+    lines,
+  };
+}
+
+/**
+ * Journal entries for everything in the date range that hasn't been exported:
+ * invoices by issue date (once they leave draft) and payments by payment date.
+ */
+async function pendingEntries(
+  from: string,
+  to: string,
+  mapping: AccountMapping,
+  db?: PoolClient
+): Promise<JournalEntry[]> {
+  const invoices = await select<PendingInvoice>(
+    db,
+    `SELECT i.id, i.invoice_number, to_char(i.issue_date, 'YYYY-MM-DD') AS issue_date,
+            i.tax_amount, i.total, c.name AS client_name
+     FROM invoices i
+     LEFT JOIN companies c ON i.client_id = c.id
+     WHERE i.status NOT IN ('draft', 'cancelled') AND i.total > 0
+       AND i.issue_date BETWEEN $1 AND $2
+       AND NOT EXISTS (
+         SELECT 1 FROM accounting_export_entries e WHERE e.entity_type = 'invoice' AND e.entity_id = i.id
+       )
+     ORDER BY i.issue_date, i.invoice_number`,
+    [from, to]
+  );
+
+  const items = invoices.length > 0
+    ? await select<PendingLineItem>(
+        db,
+        `SELECT invoice_id, description, category, total FROM invoice_line_items
+         WHERE invoice_id = ANY($1) ORDER BY sort_order`,
+        [invoices.map((i) => i.id)]
+      )
+    : [];
+
+  const payments = await select<PendingPayment>(
+    db,
+    `SELECT p.id, p.amount, p.overpayment, p.method, p.reference,
+            to_char(p.payment_date, 'YYYY-MM-DD') AS payment_date,
+            i.invoice_number, c.name AS client_name
+     FROM payments p
+     JOIN invoices i ON p.invoice_id = i.id
+     LEFT JOIN companies c ON p.client_id = c.id
+     WHERE p.payment_date BETWEEN $1 AND $2
+       AND NOT EXISTS (
+         SELECT 1 FROM accounting_export_entries e WHERE e.entity_type = 'payment' AND e.entity_id = p.id
+       )
+     ORDER BY p.payment_date, p.created_at`,
+    [from, to]
+  );
+
+  const entries = [
+    ...invoices.map((invoice) =>
+      invoiceEntry(invoice, items.filter((item) => item.invoice_id === invoice.id), mapping)
+    ),
+    ...payments.map((payment) => paymentEntry(payment, mapping)),
+  ];
+  // Stable sort keeps invoices ahead of payments on the same day
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function debitsOf(entries: JournalEntry[]): number {
+  return entries.reduce(
+    (sum, entry) => sum + entry.lines.reduce((acc, line) => acc + Math.max(line.amount, 0), 0),
+    0
+  );
+}
+
+export interface ExportSummary {
+  invoiceCount: number;
+  paymentCount: number;
+  creditCount: number;
+  totalAmount: number;
+}
+
+function summarize(entries: JournalEntry[]): ExportSummary {
+  return {
+    invoiceCount: entries.filter((e) => e.kind === 'invoice').length,
+    paymentCount: entries.filter((e) => e.kind === 'payment').length,
+    creditCount: entries.filter((e) => e.kind === 'credit').length,
+    totalAmount: debitsOf(entries) / 100,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// File formats
+// ---------------------------------------------------------------------------
+
+const IIF_TYPES: Record<JournalEntry['kind'], string> = {
+  invoice: 'INVOICE',
+  payment: 'PAYMENT',
+  credit: 'GENERAL JOURNAL',
+};
+
+// IIF is tab-delimited with no quoting
+function iifField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ').trim();
+}
+
+function iifDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * QuickBooks Desktop IIF: one TRNS line (the first posting) and an SPL line
+ * for each other posting per transaction. Account and customer names must
+ * match the company file.
+ */
+export function toIif(entries: JournalEntry[]): string {
+  const columns = 'TRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO';
+  const out = [`!TRNS\t${columns}`, `!SPL\t${columns}`, '!ENDTRNS'];
+
+  for (const entry of entries) {
+    entry.lines.forEach((line, index) => {
+      out.push([
+        index === 0 ? 'TRNS' : 'SPL',
+        IIF_TYPES[entry.kind],
+        iifDate(entry.date),
+        iifField(line.account),
+        iifField(entry.name),
+        formatAmount(line.amount),
+        iifField(entry.docNumber),
+        iifField(line.memo),
+      ].join('\t'));
+    });
+    out.push('ENDTRNS');
+  }
+
+  return out.join('\r\n') + '\r\n';
+}
+
+// One row per posting; rows sharing a journal number make one entry
+export function toJournalCsv(entries: JournalEntry[]): string {
+  const rows = entries.flatMap((entry, index) =>
+    entry.lines.map((line) => [
+      entry.date,
+      index + 1,
+      entry.kind,
+      entry.docNumber,
+      line.account,
+      entry.name,
+      line.memo,
+      line.amount > 0 ? formatAmount(line.amount) : '',
+      line.amount < 0 ? formatAmount(-line.amount) : '',
+    ])
+  );
+  return toCsv(
+    ['Date', 'Journal No', 'Type', 'Reference', 'Account', 'Name', 'Description', 'Debit', 'Credit'],
+    rows
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Batches
+// ---------------------------------------------------------------------------
+
+// What an export of the range would pick up now
+export async function previewExport(from: string, to: string): Promise<ExportSummary> {
+  return summarize(await pendingEntries(from, to, await getAccountMapping()));
+}
+
+/**
+ * Export everything pending in the range as one batch. Exports are serialized
+ * with a table lock so two running at once can't pick up the same entries.
+ */
+export async function createExportBatch(
+  from: string,
+  to: string,
+  format: ExportFormat,
+  userId: string
+): Promise<DBAccountingExportBatch> {
+  const mapping = await getAccountMapping();
+
+  return withTransaction(async (db) => {
+    await db.query('LOCK TABLE accounting_export_entries IN SHARE ROW EXCLUSIVE MODE');
+
+    const entries = await pendingEntries(from, to, mapping, db);
+    if (entries.length === 0) {
+      throw errors.badRequest('Nothing left to export in this date range');
+    }
+
+    const summary = summarize(entries);
+    const content = format === 'iif' ? toIif(entries) : toJournalCsv(entries);
+    const filename = `journal_${from}_to_${to}.${format}`;
+
+    const batches = await db.query<DBAccountingExportBatch>(
+      `INSERT INTO accounting_export_batches
+         (format, from_date, to_date, invoice_count, payment_count, total_amount, filename, content, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [format, from, to, summary.invoiceCount, summary.paymentCount + summary.creditCount,
+       summary.totalAmount, filename, content, userId]
+    );
+    const batch = batches.rows[0];
+
+    await db.query(
+      `INSERT INTO accounting_export_entries (entity_type, entity_id, batch_id)
+       SELECT unnest($1::text[]), unnest($2::uuid[]), $3`,
+      [entries.map((e) => e.entityType), entries.map((e) => e.entityId), batch.id]
+    );
+
+    await db.query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'accounting_export', $2, 'exported', $3)`,
+      [userId, batch.id, `Exported ${entries.length} journal entries (${from} to ${to}) as ${format.toUpperCase()}`]
+    );
+
+    return batch;
+  });
+}
+
+/**
+ * Void a batch: its invoices and payments become exportable again, e.g. after
+ * a failed import. The batch and its file are kept for the record.
+ */
+export async function voidExportBatch(batchId: string, userId: string): Promise<DBAccountingExportBatch> {
+  return withTransaction(async (db) => {
+    const batches = await db.query<DBAccountingExportBatch>(
+      `UPDATE accounting_export_batches SET voided_at = CURRENT_TIMESTAMP, voided_by = $2
+       WHERE id = $1 AND voided_at IS NULL
+       RETURNING *`,
+      [batchId, userId]
+    );
+    if (batches.rows.length === 0) {
+      const exists = await db.query('SELECT 1 FROM accounting_export_batches WHERE id = $1', [batchId]);
+      throw exists.rows.length === 0
+        ? errors.notFound('Export batch')
+        : errors.badRequest('This export batch is already void');
+    }
+
+    await db.query('DELETE FROM accounting_export_entries WHERE batch_id = $1', [batchId]);
+    await db.query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'accounting_export', $2, 'voided', $3)`,
+      [userId, batchId, `Voided accounting export ${batches.rows[0].filename}`]
+    );
+
+    return batches.rows[0];
+  });
+}
+
+/**
+ * Exported invoices and payments are in the books, so changing them here
+ * would leave the two out of step. Throws unless the batch is voided first.
+ */
+export async function assertNotExported(entityType: EntityType, entityId: string, db?: PoolClient): Promise<void> {
+  const rows = await select<{ filename: string }>(
+    db,
+    `SELECT b.filename FROM accounting_export_entries e
+     JOIN accounting_export_batches b ON e.batch_id = b.id
+     WHERE e.entity_type = $1 AND e.entity_id = $2`,
+    [entityType, entityId]
+  );
+  if (rows.length > 0) {
+    throw errors.conflict(
+      `This ${entityType} was exported to accounting in ${rows[0].filename}; void that export before changing it`
+    );
+  }
+}
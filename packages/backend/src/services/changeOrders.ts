@@ -0,0 +1,291 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database.js';
+import { errors } from '../middleware/errorHandler.js';
+import { codeForType } from './jobCosting.js';
+import { calculateTotals, resolveTax } from './tax.js';
+import { DBChangeOrder, DBChangeOrderLine, DBCostCode, DBEstimate } from '../types/index.js';
+
+// Change orders: priced amendments to a project's contract. A change order
+// is drafted, sent for approval (pending), then approved or rejected; a
+// rejected one can be revised and sent again. Approval is final. It adds the
+// cost of each line to the project's budget and, when the originating
+// estimate is billed by pay application, the price of each line to its
+// schedule of values. Otherwise the change order is billed on an invoice of
+// its own.
+
+export interface ChangeOrderRow extends DBChangeOrder {
+  project_name: string;
+  estimate_number: string;
+  invoice_number: string | null;
+  decided_by_name: string | null;
+  created_by_name: string | null;
+  // Whether it was added to the estimate's schedule of values
+  on_schedule_of_values: boolean;
+}
+
+export interface ChangeOrderLineInput {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  unitCost?: number | null;
+  costCodeId?: string | null;
+  taxable?: boolean;
+}
+
+export const CHANGE_ORDER_SELECT = `
+  SELECT co.*, p.name AS project_name, e.estimate_number, i.invoice_number,
+         du.name AS decided_by_name, cu.name AS created_by_name,
+         EXISTS (SELECT 1 FROM schedule_of_values_lines sl WHERE sl.change_order_id = co.id) AS on_schedule_of_values
+  FROM change_orders co
+  JOIN projects p ON co.project_id = p.id
+  JOIN estimates e ON co.estimate_id = e.id
+  LEFT JOIN invoices i ON co.invoice_id = i.id
+  LEFT JOIN users du ON co.decided_by = du.id
+  LEFT JOIN users cu ON co.created_by = cu.id`;
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function num(value: unknown): number {
+  return value === null || value === undefined ? 0 : parseFloat(String(value));
+}
+
+// CO-001, CO-002, ...
+export function changeOrderNumber(number: number): string {
+  return `CO-${String(number).padStart(3, '0')}`;
+}
+
+// A line's cost, at the price when it has no unit cost
+function lineCost(line: DBChangeOrderLine): number {
+  return round2(num(line.quantity) * (line.unit_cost === null ? num(line.unit_price) : num(line.unit_cost)));
+}
+
+export async function loadChangeOrder(id: string): Promise<{ changeOrder: ChangeOrderRow; lines: DBChangeOrderLine[] }> {
+  const rows = await query<ChangeOrderRow>(`${CHANGE_ORDER_SELECT} WHERE co.id = $1`, [id]);
+  if (rows.length === 0) {
+    throw errors.notFound('Change order');
+  }
+  const lines = await query<DBChangeOrderLine>(
+    'SELECT * FROM change_order_lines WHERE change_order_id = $1 ORDER BY sort_order',
+    [id]
+  );
+  return { changeOrder: rows[0], lines };
+}
+
+// The change order, locked for the rest of the transaction
+export async function lockChangeOrder(db: PoolClient, id: string): Promise<DBChangeOrder> {
+  const rows = (await db.query<DBChangeOrder>('SELECT * FROM change_orders WHERE id = $1 FOR UPDATE', [id])).rows;
+  if (rows.length === 0) {
+    throw errors.notFound('Change order');
+  }
+  return rows[0];
+}
+
+// The originating estimate must be an approved estimate of the project
+export async function assertEstimateOfProject(estimateId: string, projectId: string): Promise<DBEstimate> {
+  const rows = await query<DBEstimate>('SELECT * FROM estimates WHERE id = $1', [estimateId]);
+  const estimate = rows[0];
+  if (!estimate || estimate.project_id !== projectId) {
+    throw errors.badRequest('The estimate must belong to this project');
+  }
+  if (estimate.status !== 'approved') {
+    throw errors.badRequest('Change orders can only amend an approved estimate');
+  }
+  return estimate;
+}
+
+// Replace a change order's lines and update its price and cost totals
+export async function writeLines(db: PoolClient, changeOrderId: string, lines: ChangeOrderLineInput[]): Promise<void> {
+  await db.query('DELETE FROM change_order_lines WHERE change_order_id = $1', [changeOrderId]);
+
+  let amount = 0;
+  let cost = 0;
+  for (const [i, line] of lines.entries()) {
+    const unitCost = line.unitCost ?? null;
+    amount += line.quantity * line.unitPrice;
+    cost += line.quantity * (unitCost ?? line.unitPrice);
+    await db.query(
+      `INSERT INTO change_order_lines (change_order_id, description, quantity, unit_price, unit_cost, cost_code_id, taxable, sort_order)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [changeOrderId, line.description, line.quantity, line.unitPrice, unitCost, line.costCodeId ?? null, line.taxable ?? true, i]
+    );
+  }
+
+  await db.query(
+    'UPDATE change_orders SET amount = $2, cost_impact = $3 WHERE id = $1',
+    [changeOrderId, round2(amount), round2(cost)]
+  );
+}
+
+/**
+ * Approve a pending change order: budget each line's cost on the project
+ * (to the line's cost code, else the first general one), raise the project's
+ * budget by the cost, and add the lines to the estimate's schedule of values
+ * if it has one.
+ */
+export async function approveChangeOrder(id: string, userId: string): Promise<void> {
+  await withTransaction(async (db) => {
+    const changeOrder = await lockChangeOrder(db, id);
+    if (changeOrder.status !== 'pending') {
+      throw errors.badRequest('Only change orders awaiting approval can be approved');
+    }
+    const lines = (await db.query<DBChangeOrderLine>(
+      'SELECT * FROM change_order_lines WHERE change_order_id = $1 ORDER BY sort_order',
+      [id]
+    )).rows;
+    const number = changeOrderNumber(changeOrder.number);
+
+    const codes = (await db.query<DBCostCode>('SELECT * FROM cost_codes WHERE is_active ORDER BY code')).rows;
+    const fallback = codeForType(codes, 'other');
+    for (const line of lines) {
+      const cost = lineCost(line);
+      if (cost === 0) {
+        continue;
+      }
+      const costCodeId = line.cost_code_id ?? fallback?.id;
+      if (!costCodeId) {
+        throw errors.badRequest('Add a cost code before approving a change order');
+      }
+      await db.query(
+        `INSERT INTO project_budget_lines (project_id, cost_code_id, description, amount, change_order_id, sort_order)
+         VALUES ($1, $2, $3, $4, $5,
+                 (SELECT COALESCE(MAX(sort_order) + 1, 0) FROM project_budget_lines WHERE project_id = $1))`,
+        [changeOrder.project_id, costCodeId, `${number}: ${line.description}`, cost, id]
+      );
+    }
+    await db.query(
+      'UPDATE projects SET budget = COALESCE(budget, 0) + $2 WHERE id = $1',
+      [changeOrder.project_id, num(changeOrder.cost_impact)]
+    );
+
+    const schedules = (await db.query<{ id: string }>(
+      'SELECT id FROM schedules_of_values WHERE estimate_id = $1 FOR UPDATE',
+      [changeOrder.estimate_id]
+    )).rows;
+    if (schedules.length > 0) {
+      for (const [i, line] of lines.entries()) {
+        await db.query(
+          `INSERT INTO schedule_of_values_lines (schedule_id, item_number, description, scheduled_value, taxable, sort_order, change_order_id)
+           VALUES ($1, $2, $3, $4, $5,
+                   (SELECT COALESCE(MAX(sort_order) + 1, 0) FROM schedule_of_values_lines WHERE schedule_id = $1), $6)`,
+          [
+            schedules[0].id,
+            lines.length > 1 ? `${number}.${i + 1}` : number,
+            line.description,
+            round2(num(line.quantity) * num(line.unit_price)),
+            line.taxable,
+            id,
+          ]
+        );
+      }
+    }
+
+    await db.query(
+      `UPDATE change_orders SET status = 'approved', decided_by = $2, decided_at = NOW(), rejection_reason = NULL
+       WHERE id = $1`,
+      [id, userId]
+    );
+    await db.query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'project', $2, 'updated', $3)`,
+      [userId, changeOrder.project_id, `Approved change order ${number} (${changeOrder.title}) for ${num(changeOrder.amount).toFixed(2)}`]
+    );
+  });
+}
+
+/**
+ * Bill an approved change order that is not on a schedule of values as a new
+ * draft invoice with one line per change order line. Tax follows the
+ * originating estimate's jurisdiction.
+ */
+export async function invoiceChangeOrder(
+  id: string,
+  options: { dueDate?: string },
+  userId: string
+): Promise<{ invoiceId: string; invoiceNumber: string }> {
+  const { changeOrder, lines } = await loadChangeOrder(id);
+  if (changeOrder.status !== 'approved') {
+    throw errors.badRequest('Only approved change orders can be invoiced');
+  }
+  if (changeOrder.on_schedule_of_values) {
+    throw errors.badRequest('This change order is billed on the estimate\'s pay applications');
+  }
+  if (changeOrder.invoice_id) {
+    throw errors.badRequest('This change order has already been invoiced');
+  }
+  if (num(changeOrder.amount) <= 0) {
+    throw errors.badRequest('Only change orders that add to the contract can be invoiced');
+  }
+
+  const estimate = (await query<DBEstimate>('SELECT * FROM estimates WHERE id = $1', [changeOrder.estimate_id]))[0];
+  const tax = await resolveTax({
+    clientId: estimate.client_id,
+    projectId: changeOrder.project_id,
+    jurisdictionId: estimate.tax_jurisdiction_id,
+    taxRate: estimate.tax_rate ? num(estimate.tax_rate) : null,
+  });
+  const number = changeOrderNumber(changeOrder.number);
+  const invoiceLines = lines.map((line) => ({
+    description: `${number}: ${line.description}`,
+    quantity: num(line.quantity),
+    unitPrice: num(line.unit_price),
+    taxable: line.taxable,
+    costCodeId: line.cost_code_id,
+  }));
+  const totals = calculateTotals(invoiceLines, tax.rates, !!tax.exemption);
+
+  return withTransaction(async (db) => {
+    const current = await lockChangeOrder(db, id);
+    if (current.invoice_id) {
+      throw errors.badRequest('This change order has already been invoiced');
+    }
+
+    const invoiceNumResult = await db.query<{ nextval: string }>("SELECT nextval('invoice_number_seq')");
+    const invoiceNumber = `INV-${invoiceNumResult.rows[0].nextval}`;
+
+    const invoices = await db.query<{ id: string }>(
+      `INSERT INTO invoices (invoice_number, client_id, project_id, status, due_date, subtotal, tax_rate, tax_amount, total,
+                             tax_jurisdiction_id, tax_exemption_id, taxable_subtotal, tax_breakdown, notes, terms, letterhead_id, created_by)
+       VALUES ($1, $2, $3, 'draft', COALESCE($4::date, CURRENT_DATE + INTERVAL '30 days'), $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+       RETURNING id`,
+      [
+        invoiceNumber,
+        estimate.client_id,
+        changeOrder.project_id,
+        options.dueDate ?? null,
+        totals.subtotal,
+        totals.taxRate,
+        totals.taxAmount,
+        totals.total,
+        tax.jurisdiction?.id ?? null,
+        tax.exemption?.id ?? null,
+        totals.taxableSubtotal,
+        JSON.stringify(totals.taxBreakdown),
+        `Change order ${number}: ${changeOrder.title} (estimate ${changeOrder.estimate_number})`,
+        estimate.terms ?? null,
+        estimate.letterhead_id ?? null,
+        userId,
+      ]
+    );
+    const invoiceId = invoices.rows[0].id;
+
+    for (let i = 0; i < invoiceLines.length; i++) {
+      const line = invoiceLines[i];
+      await db.query(
+        `INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, total, taxable, sort_order, cost_code_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [invoiceId, line.description, line.quantity, line.unitPrice, round2(line.quantity * line.unitPrice), line.taxable, i, line.costCodeId]
+      );
+    }
+
+    await db.query('UPDATE change_orders SET invoice_id = $2 WHERE id = $1', [id, invoiceId]);
+    await db.query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'invoice', $2, 'created', $3)`,
+      [userId, invoiceId, `Created invoice ${invoiceNumber} for change order ${number} on ${changeOrder.project_name}`]
+    );
+
+    return { invoiceId, invoiceNumber };
+  });
+}
@@ -0,0 +1,112 @@
+import { query } from '../config/database.js';
+import { DBEstimateLineItem } from '../types/index.js';
+
+// Gross margin on estimates.
+// A line's cost is its quantity times its unit cost. Lines with no unit cost
+// are left out of the margin rather than treated as free, and are counted so
+// callers can say how much of the estimate the margin covers. Cost, markup
+// and margin are internal figures, shown only with estimating:costs.
+
+export const COST_TYPES = ['labor', 'material'] as const;
+
+export type CostType = (typeof COST_TYPES)[number];
+
+type CostedLine = Pick<DBEstimateLineItem, 'quantity' | 'unit_price' | 'total' | 'unit_cost' | 'cost_type'>;
+
+export interface LineMargin {
+  cost: number;
+  margin: number;
+  // Of the line's price; null for a zero-price line
+  marginPercent: number | null;
+}
+
+export interface EstimateMargin {
+  // Price of the lines that have a unit cost
+  costedSubtotal: number;
+  cost: number;
+  laborCost: number;
+  materialCost: number;
+  margin: number;
+  marginPercent: number | null;
+  uncostedLines: number;
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function percentOf(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : null;
+}
+
+// Markup over cost a price represents; null without a cost to mark up
+export function markupFor(unitPrice: number, unitCost: number | null): number | null {
+  return unitCost ? round2((unitPrice / unitCost - 1) * 100) : null;
+}
+
+export function lineMargin(line: CostedLine): LineMargin | null {
+  if (line.unit_cost === null) return null;
+  const total = parseFloat(String(line.total));
+  const cost = round2(parseFloat(String(line.quantity)) * parseFloat(String(line.unit_cost)));
+  const margin = round2(total - cost);
+  return { cost, margin, marginPercent: percentOf(margin, total) };
+}
+
+export function summarizeMargin(lines: CostedLine[]): EstimateMargin {
+  const summary: EstimateMargin = {
+    costedSubtotal: 0,
+    cost: 0,
+    laborCost: 0,
+    materialCost: 0,
+    margin: 0,
+    marginPercent: null,
+    uncostedLines: 0,
+  };
+
+  for (const line of lines) {
+    const result = lineMargin(line);
+    if (!result) {
+      summary.uncostedLines++;
+      continue;
+    }
+    summary.costedSubtotal += parseFloat(String(line.total));
+    summary.cost += result.cost;
+    if (line.cost_type === 'labor') summary.laborCost += result.cost;
+    if (line.cost_type === 'material') summary.materialCost += result.cost;
+  }
+
+  summary.costedSubtotal = round2(summary.costedSubtotal);
+  summary.cost = round2(summary.cost);
+  summary.laborCost = round2(summary.laborCost);
+  summary.materialCost = round2(summary.materialCost);
+  summary.margin = round2(summary.costedSubtotal - summary.cost);
+  summary.marginPercent = percentOf(summary.margin, summary.costedSubtotal);
+  return summary;
+}
+
+/**
+ * Margin per line and for the whole estimate, for reviewing a bid. Null when
+ * no line has a cost, since there is no margin to report.
+ */
+export async function getEstimateMargin(estimateId: string) {
+  const lines = await query<DBEstimateLineItem>(
+    'SELECT * FROM estimate_line_items WHERE estimate_id = $1 ORDER BY sort_order',
+    [estimateId]
+  );
+  if (!lines.some((line) => line.unit_cost !== null)) {
+    return null;
+  }
+
+  return {
+    ...summarizeMargin(lines),
+    lines: lines.map((line) => ({
+      description: line.description,
+      quantity: parseFloat(String(line.quantity)),
+      unitPrice: parseFloat(String(line.unit_price)),
+      unitCost: line.unit_cost !== null ? parseFloat(String(line.unit_cost)) : null,
+      markupPercent: line.markup_percent !== null ? parseFloat(String(line.markup_percent)) : null,
+      costType: line.cost_type,
+      ...lineMargin(line),
+    })),
+  };
+}
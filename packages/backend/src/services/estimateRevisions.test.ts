@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { diffLineItems, RevisionLineItem } from './estimateRevisions.js';
+
+vi.mock('../config/database.js', () => ({ query: vi.fn(), withTransaction: vi.fn() }));
+
+const line = (description: string, quantity: number, unitPrice: number, taxable = true): RevisionLineItem => ({
+  description,
+  quantity,
+  unitPrice,
+  total: Math.round(quantity * unitPrice * 100) / 100,
+  taxable,
+});
+
+const DEMOLITION = line('Demolition', 1, 4500);
+const TILE = line('Porcelain tile, installed (sq ft)', 850, 12.5);
+const LIGHTING = line('Lighting fixtures', 12, 310);
+const PAINT = line('Paint, two coats', 1, 2200);
+
+// Just the shape of the diff: change and description
+const summary = (before: RevisionLineItem[], after: RevisionLineItem[]) =>
+  diffLineItems(before, after).map((c) => [c.change, (c.after ?? c.before)!.description]);
+
+describe('diffLineItems', () => {
+  it('reports every line unchanged when nothing moved', () => {
+    const changes = diffLineItems([DEMOLITION, TILE], [DEMOLITION, TILE]);
+
+    expect(changes).toEqual([
+      { change: 'unchanged', before: DEMOLITION, after: DEMOLITION },
+      { change: 'unchanged', before: TILE, after: TILE },
+    ]);
+  });
+
+  it('reports added lines where they now appear', () => {
+    expect(summary([DEMOLITION, LIGHTING], [DEMOLITION, TILE, LIGHTING, PAINT])).toEqual([
+      ['unchanged', 'Demolition'],
+      ['added', 'Porcelain tile, installed (sq ft)'],
+      ['unchanged', 'Lighting fixtures'],
+      ['added', 'Paint, two coats'],
+    ]);
+  });
+
+  it('puts removed lines back where they were', () => {
+    const changes = diffLineItems([DEMOLITION, TILE, LIGHTING, PAINT], [TILE, PAINT]);
+
+    expect(changes.map((c) => [c.change, (c.after ?? c.before)!.description])).toEqual([
+      ['removed', 'Demolition'],
+      ['unchanged', 'Porcelain tile, installed (sq ft)'],
+      ['removed', 'Lighting fixtures'],
+      ['unchanged', 'Paint, two coats'],
+    ]);
+    expect(changes[0]).toEqual({ change: 'removed', before: DEMOLITION, after: null });
+  });
+
+  it('reports a quantity change with both versions of the line', () => {
+    const more = line('Lighting fixtures', 16, 310);
+
+    expect(diffLineItems([LIGHTING], [more])).toEqual([{ change: 'changed', before: LIGHTING, after: more }]);
+  });
+
+  it('reports a price change', () => {
+    const cheaper = line('Porcelain tile, installed (sq ft)', 850, 11.75);
+
+    expect(diffLineItems([TILE], [cheaper])).toEqual([{ change: 'changed', before: TILE, after: cheaper }]);
+  });
+
+  it('reports a line that stopped being taxable', () => {
+    const exempt = line('Demolition', 1, 4500, false);
+
+    expect(summary([DEMOLITION], [exempt])).toEqual([['changed', 'Demolition']]);
+  });
+
+  it('pairs lines by description regardless of case, spacing or order', () => {
+    const moved = line('  lighting FIXTURES ', 12, 310);
+
+    expect(summary([DEMOLITION, LIGHTING], [moved, DEMOLITION])).toEqual([
+      ['unchanged', '  lighting FIXTURES '],
+      ['unchanged', 'Demolition'],
+    ]);
+  });
+
+  it('pairs repeated descriptions in order', () => {
+    const first = line('Site visit', 1, 150);
+    const second = line('Site visit', 2, 150);
+    const third = line('Site visit', 1, 175);
+
+    expect(diffLineItems([first, second], [first, third, second])).toEqual([
+      { change: 'unchanged', before: first, after: first },
+      { change: 'changed', before: second, after: third },
+      { change: 'added', before: null, after: second },
+    ]);
+  });
+
+  it('treats a renamed line as removed and added', () => {
+    const renamed = line('Demolition and haul-away', 1, 4500);
+
+    // The old line goes back just before the next line still paired
+    expect(summary([DEMOLITION, TILE], [renamed, TILE])).toEqual([
+      ['added', 'Demolition and haul-away'],
+      ['removed', 'Demolition'],
+      ['unchanged', 'Porcelain tile, installed (sq ft)'],
+    ]);
+  });
+
+  it('handles an empty revision on either side', () => {
+    expect(summary([], [DEMOLITION])).toEqual([['added', 'Demolition']]);
+    expect(summary([DEMOLITION], [])).toEqual([['removed', 'Demolition']]);
+  });
+});
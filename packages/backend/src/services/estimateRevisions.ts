@@ -0,0 +1,603 @@
+import { createHash, randomBytes } from 'crypto';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database.js';
+import { errors } from '../middleware/errorHandler.js';
+import { getCompanyProfile, resolveLetterhead, renderDocumentPdf, type DocumentParty } from './pdf.js';
+import { breakdownOf } from './tax.js';
+import { DBEstimate, DBEstimateRevision, DBEstimateApprovalLink, DBTaxBreakdownLine } from '../types/index.js';
+
+// Estimate revisions and client approval links.
+// The estimate row is the working copy. Sending it snapshots the working copy
+// as the next revision (rev A, B, C, ...) unless it matches the latest one,
+// and issues an approval link for that revision. The client approves or
+// rejects the revision they were sent, never the working copy, and an
+// approved estimate is invoiced from the revision they approved.
+
+export interface RevisionLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  taxable: boolean;
+}
+
+// What a revision captures, in comparable form
+export interface RevisionContent {
+  title: string;
+  description: string | null;
+  subtotal: number;
+  taxRate: number | null;
+  taxAmount: number;
+  taxBreakdown: DBTaxBreakdownLine[];
+  total: number;
+  validUntil: string | null;
+  terms: string | null;
+  letterheadId: string | null;
+  lineItems: RevisionLineItem[];
+}
+
+export interface RevisionRow extends DBEstimateRevision {
+  created_by_name: string | null;
+}
+
+// How long a link stays open when the estimate has no valid-until date
+const DEFAULT_LINK_DAYS = 30;
+
+// 1 -> A, 26 -> Z, 27 -> AA
+export function revisionLabel(revision: number): string {
+  let label = '';
+  for (let n = revision; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+export function revisionNumber(label: string): number | null {
+  if (!/^[A-Z]+$/i.test(label)) return null;
+  return label.toUpperCase().split('').reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0);
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function num(value: unknown): number {
+  return round(parseFloat(String(value ?? 0)));
+}
+
+// Breakdown lines with their keys in one order; jsonb does not keep it
+function breakdownContent(doc: Parameters<typeof breakdownOf>[0]): DBTaxBreakdownLine[] {
+  return breakdownOf(doc).map((line) => ({
+    name: line.name,
+    rate: parseFloat(String(line.rate)),
+    taxableAmount: num(line.taxableAmount),
+    amount: num(line.amount),
+  }));
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Reads run on the caller's transaction when there is one
+async function select<T>(db: PoolClient | undefined, sql: string, params: unknown[]): Promise<T[]> {
+  return db ? (await db.query(sql, params)).rows : query<T>(sql, params);
+}
+
+// Revisions come back with valid_until as YYYY-MM-DD
+const REVISION_SELECT = `
+  SELECT r.*, to_char(r.valid_until, 'YYYY-MM-DD') AS valid_until, u.name AS created_by_name
+  FROM estimate_revisions r
+  LEFT JOIN users u ON r.created_by = u.id`;
+
+export function contentOfRevision(r: DBEstimateRevision): RevisionContent {
+  return {
+    title: r.title,
+    description: r.description ?? null,
+    subtotal: num(r.subtotal),
+    taxRate: r.tax_rate === null || r.tax_rate === undefined ? null : parseFloat(String(r.tax_rate)),
+    taxAmount: num(r.tax_amount),
+    taxBreakdown: breakdownContent(r),
+    total: num(r.total),
+    validUntil: r.valid_until ?? null,
+    terms: r.terms ?? null,
+    letterheadId: r.letterhead_id ?? null,
+    lineItems: r.line_items.map((li) => ({
+      description: li.description,
+      quantity: num(li.quantity),
+      unitPrice: num(li.unitPrice),
+      total: num(li.total),
+      taxable: li.taxable ?? true,
+    })),
+  };
+}
+
+async function loadWorkingCopy(db: PoolClient, estimateId: string, lock = false) {
+  const estimates = await db.query<DBEstimate & { valid_until_text: string | null }>(
+    `SELECT *, to_char(valid_until, 'YYYY-MM-DD') AS valid_until_text
+     FROM estimates WHERE id = $1 ${lock ? 'FOR UPDATE' : ''}`,
+    [estimateId]
+  );
+  if (estimates.rows.length === 0) {
+    throw errors.notFound('Estimate');
+  }
+  const estimate = estimates.rows[0];
+
+  const items = await db.query<{ description: string; quantity: string; unit_price: string; total: string; taxable: boolean }>(
+    'SELECT description, quantity, unit_price, total, taxable FROM estimate_line_items WHERE estimate_id = $1 ORDER BY sort_order',
+    [estimateId]
+  );
+
+  const content: RevisionContent = {
+    title: estimate.title,
+    description: estimate.description ?? null,
+    subtotal: num(estimate.subtotal),
+    taxRate: estimate.tax_rate === null || estimate.tax_rate === undefined ? null : parseFloat(String(estimate.tax_rate)),
+    taxAmount: num(estimate.tax_amount),
+    taxBreakdown: breakdownContent(estimate),
+    total: num(estimate.total),
+    validUntil: estimate.valid_until_text,
+    terms: estimate.terms ?? null,
+    letterheadId: estimate.letterhead_id ?? null,
+    lineItems: items.rows.map((li) => ({
+      description: li.description,
+      quantity: num(li.quantity),
+      unitPrice: num(li.unit_price),
+      total: num(li.total),
+      taxable: li.taxable,
+    })),
+  };
+
+  return { estimate, content };
+}
+
+function sameContent(a: RevisionContent, b: RevisionContent): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+async function latestRevision(db: PoolClient, estimateId: string): Promise<DBEstimateRevision | null> {
+  const rows = await db.query<DBEstimateRevision>(
+    `${REVISION_SELECT} WHERE r.estimate_id = $1 ORDER BY r.revision DESC LIMIT 1`,
+    [estimateId]
+  );
+  return rows.rows[0] ?? null;
+}
+
+async function logEstimate(
+  db: PoolClient,
+  userId: string | null,
+  estimateId: string,
+  action: string,
+  description: string,
+  metadata?: Record<string, unknown>
+) {
+  await db.query(
+    `INSERT INTO activities (user_id, entity_type, entity_id, action, description, metadata)
+     VALUES ($1, 'estimate', $2, $3, $4, $5)`,
+    [userId, estimateId, action, description, metadata ? JSON.stringify(metadata) : null]
+  );
+}
+
+/**
+ * Mark the estimate sent as its current working copy: cut the next revision
+ * (or reuse the latest if nothing changed) and close links to older ones.
+ * Runs inside the caller's transaction.
+ */
+export async function recordSentRevision(
+  db: PoolClient,
+  estimateId: string,
+  userId: string
+): Promise<{ estimate: DBEstimate; revision: DBEstimateRevision; created: boolean }> {
+  const { estimate, content } = await loadWorkingCopy(db, estimateId, true);
+  if (estimate.status === 'approved') {
+    throw errors.badRequest('This estimate has already been approved');
+  }
+
+  const latest = await latestRevision(db, estimateId);
+  let revision = latest;
+  const created = !latest || !sameContent(contentOfRevision(latest), content);
+
+  if (created) {
+    const inserted = await db.query<DBEstimateRevision>(
+      `INSERT INTO estimate_revisions
+         (estimate_id, revision, title, description, subtotal, tax_rate, tax_amount, total,
+          valid_until, terms, letterhead_id, line_items, tax_breakdown, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       RETURNING *, to_char(valid_until, 'YYYY-MM-DD') AS valid_until`,
+      [estimateId, (latest?.revision ?? 0) + 1, content.title, content.description, content.subtotal,
+       content.taxRate, content.taxAmount, content.total, content.validUntil, content.terms,
+       content.letterheadId, JSON.stringify(content.lineItems), JSON.stringify(content.taxBreakdown), userId]
+    );
+    revision = inserted.rows[0];
+  }
+
+  const updated = await db.query<DBEstimate>(
+    `UPDATE estimates SET status = 'sent', sent_revision_id = $2, approved_revision_id = NULL
+     WHERE id = $1 RETURNING *`,
+    [estimateId, revision!.id]
+  );
+  await db.query(
+    `UPDATE estimate_approval_links SET status = 'revoked'
+     WHERE estimate_id = $1 AND status = 'open' AND revision_id <> $2`,
+    [estimateId, revision!.id]
+  );
+
+  const label = revisionLabel(revision!.revision);
+  await logEstimate(
+    db,
+    userId,
+    estimateId,
+    'sent',
+    `Sent estimate ${estimate.estimate_number} rev ${label}` + (created ? '' : ' (unchanged)')
+  );
+
+  return { estimate: updated.rows[0], revision: revision!, created };
+}
+
+/**
+ * Send the estimate for approval: record the sent revision and issue a fresh
+ * link to it. Earlier open links are revoked, so only the newest one works.
+ * The token is returned once; only its hash is stored.
+ */
+export async function sendForApproval(estimateId: string, userId: string) {
+  return withTransaction(async (db) => {
+    const { estimate, revision, created } = await recordSentRevision(db, estimateId, userId);
+
+    await db.query(
+      "UPDATE estimate_approval_links SET status = 'revoked' WHERE estimate_id = $1 AND status = 'open'",
+      [estimateId]
+    );
+
+    // Open until the end of the valid-until date, or a month when there isn't one
+    const token = randomBytes(32).toString('base64url');
+    const links = await db.query<DBEstimateApprovalLink>(
+      `INSERT INTO estimate_approval_links (estimate_id, revision_id, token_hash, expires_at, created_by)
+       VALUES ($1, $2, $3,
+               CASE WHEN $4::date >= CURRENT_DATE THEN ($4::date + 1)::timestamptz
+                    ELSE CURRENT_TIMESTAMP + make_interval(days => $5) END,
+               $6)
+       RETURNING *`,
+      [estimateId, revision.id, hashToken(token), revision.valid_until ?? null, DEFAULT_LINK_DAYS, userId]
+    );
+
+    return { estimate, revision, created, link: links.rows[0], token };
+  });
+}
+
+/**
+ * A sent estimate whose working copy has been edited no longer matches what
+ * the client has: it goes back to draft and its open links are revoked until
+ * it is sent again.
+ */
+export async function reconcileWorkingCopy(estimateId: string, userId: string): Promise<boolean> {
+  return withTransaction(async (db) => {
+    const { estimate, content } = await loadWorkingCopy(db, estimateId, true);
+    if (estimate.status !== 'sent' || !estimate.sent_revision_id) return false;
+
+    const sent = await db.query<DBEstimateRevision>(`${REVISION_SELECT} WHERE r.id = $1`, [estimate.sent_revision_id]);
+    if (sent.rows[0] && sameContent(contentOfRevision(sent.rows[0]), content)) return false;
+
+    await db.query("UPDATE estimates SET status = 'draft' WHERE id = $1", [estimateId]);
+    const revoked = await db.query(
+      "UPDATE estimate_approval_links SET status = 'revoked' WHERE estimate_id = $1 AND status = 'open' RETURNING id",
+      [estimateId]
+    );
+    await logEstimate(
+      db,
+      userId,
+      estimateId,
+      'revised',
+      `Edited estimate ${estimate.estimate_number} after sending; back to draft` +
+        (revoked.rows.length > 0 ? ' and the approval link was revoked' : '')
+    );
+    return true;
+  });
+}
+
+// The estimate as it stands now, in revision form
+export async function getWorkingCopy(estimateId: string): Promise<RevisionContent> {
+  return withTransaction(async (db) => (await loadWorkingCopy(db, estimateId)).content);
+}
+
+export async function getRevisions(estimateId: string): Promise<RevisionRow[]> {
+  return query<RevisionRow>(`${REVISION_SELECT} WHERE r.estimate_id = $1 ORDER BY r.revision`, [estimateId]);
+}
+
+export async function getRevision(estimateId: string, revision: number, db?: PoolClient): Promise<RevisionRow> {
+  const rows = await select<RevisionRow>(
+    db,
+    `${REVISION_SELECT} WHERE r.estimate_id = $1 AND r.revision = $2`,
+    [estimateId, revision]
+  );
+  if (rows.length === 0) {
+    throw errors.notFound('Revision');
+  }
+  return rows[0];
+}
+
+export async function getApprovalLinks(estimateId: string): Promise<DBEstimateApprovalLink[]> {
+  return query<DBEstimateApprovalLink>(
+    'SELECT * FROM estimate_approval_links WHERE estimate_id = $1 ORDER BY created_at DESC',
+    [estimateId]
+  );
+}
+
+export async function revokeApprovalLink(estimateId: string, linkId: string, userId: string): Promise<void> {
+  await withTransaction(async (db) => {
+    const links = await db.query<DBEstimateApprovalLink>(
+      `UPDATE estimate_approval_links SET status = 'revoked'
+       WHERE id = $1 AND estimate_id = $2 AND status = 'open'
+       RETURNING *`,
+      [linkId, estimateId]
+    );
+    if (links.rows.length === 0) {
+      throw errors.badRequest('Only open links can be revoked');
+    }
+    await logEstimate(db, userId, estimateId, 'link_revoked', 'Revoked the client approval link');
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Line item diff
+// ---------------------------------------------------------------------------
+
+export interface LineItemChange {
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before: RevisionLineItem | null;
+  after: RevisionLineItem | null;
+}
+
+function lineKey(item: RevisionLineItem): string {
+  return item.description.trim().toLowerCase();
+}
+
+/**
+ * Line-by-line changes between two revisions. Line items have no identity of
+ * their own, so lines are paired by description (in order, for repeats);
+ * a paired line whose quantity, price or taxability moved is 'changed'.
+ */
+export function diffLineItems(before: RevisionLineItem[], after: RevisionLineItem[]): LineItemChange[] {
+  const unmatched = before.map((item, index) => ({ item, index }));
+  const changes: LineItemChange[] = [];
+  const removedAt = new Map<number, LineItemChange>();
+
+  for (const item of after) {
+    const match = unmatched.findIndex((b) => lineKey(b.item) === lineKey(item));
+    if (match === -1) {
+      changes.push({ change: 'added', before: null, after: item });
+      continue;
+    }
+    const [{ item: prior }] = unmatched.splice(match, 1);
+    const same = prior.quantity === item.quantity && prior.unitPrice === item.unitPrice && prior.total === item.total
+      && prior.taxable === item.taxable;
+    changes.push({ change: same ? 'unchanged' : 'changed', before: prior, after: item });
+  }
+
+  // Removed lines go back where they were, relative to the lines around them
+  for (const { item, index } of unmatched) {
+    removedAt.set(index, { change: 'removed', before: item, after: null });
+  }
+  if (removedAt.size === 0) return changes;
+
+  const ordered: LineItemChange[] = [];
+  let beforeIndex = 0;
+  for (const change of changes) {
+    if (change.before) {
+      const position = before.indexOf(change.before);
+      for (; beforeIndex < position; beforeIndex++) {
+        const removed = removedAt.get(beforeIndex);
+        if (removed) ordered.push(removed);
+      }
+      beforeIndex = Math.max(beforeIndex, position + 1);
+    }
+    ordered.push(change);
+  }
+  for (; beforeIndex < before.length; beforeIndex++) {
+    const removed = removedAt.get(beforeIndex);
+    if (removed) ordered.push(removed);
+  }
+  return ordered;
+}
+
+// ---------------------------------------------------------------------------
+// Public approval
+// ---------------------------------------------------------------------------
+
+export interface ApprovalLinkView {
+  link: DBEstimateApprovalLink;
+  revision: DBEstimateRevision;
+  estimate: DBEstimate;
+  clientName: string | null;
+  projectName: string | null;
+  expired: boolean;
+}
+
+/** Resolve a public token. Unknown tokens are indistinguishable from revoked ones. */
+export async function getApprovalLink(token: string, db?: PoolClient): Promise<ApprovalLinkView> {
+  const links = await select<DBEstimateApprovalLink & { expired: boolean }>(
+    db,
+    `SELECT l.*, l.expires_at < CURRENT_TIMESTAMP AS expired
+     FROM estimate_approval_links l WHERE l.token_hash = $1 ${db ? 'FOR UPDATE' : ''}`,
+    [hashToken(token)]
+  );
+  const link = links[0];
+  if (!link || link.status === 'revoked') {
+    throw errors.notFound('Approval link');
+  }
+
+  const rows = await select<DBEstimate & { client_name: string | null; project_name: string | null }>(
+    db,
+    `SELECT e.*, c.name AS client_name, p.name AS project_name
+     FROM estimates e
+     LEFT JOIN companies c ON e.client_id = c.id
+     LEFT JOIN projects p ON e.project_id = p.id
+     WHERE e.id = $1`,
+    [link.estimate_id]
+  );
+  const revisions = await select<DBEstimateRevision>(db, `${REVISION_SELECT} WHERE r.id = $1`, [link.revision_id]);
+
+  return {
+    link,
+    revision: revisions[0],
+    estimate: rows[0],
+    clientName: rows[0].client_name,
+    projectName: rows[0].project_name,
+    expired: link.expired,
+  };
+}
+
+// The first time the client opens the link
+export async function recordLinkViewed(view: ApprovalLinkView, ip: string | undefined): Promise<void> {
+  if (view.link.first_viewed_at) return;
+  const updated = await query(
+    `UPDATE estimate_approval_links SET first_viewed_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND first_viewed_at IS NULL RETURNING id`,
+    [view.link.id]
+  );
+  if (updated.length === 0) return;
+
+  await query(
+    `INSERT INTO activities (user_id, entity_type, entity_id, action, description, metadata)
+     VALUES (NULL, 'estimate', $1, 'viewed', $2, $3)`,
+    [
+      view.estimate.id,
+      `Client opened estimate ${view.estimate.estimate_number} rev ${revisionLabel(view.revision.revision)}`,
+      JSON.stringify({ ip, linkId: view.link.id }),
+    ]
+  );
+}
+
+export interface ApprovalDecision {
+  decision: 'approve' | 'reject';
+  signatureName: string;
+  note?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Record the client's approval or rejection of the revision behind the link,
+ * with their typed signature, IP address and the time, on the link and in the
+ * estimate's activity log.
+ */
+export async function decideApproval(token: string, input: ApprovalDecision): Promise<ApprovalLinkView> {
+  return withTransaction(async (db) => {
+    const view = await getApprovalLink(token, db);
+    const { link, estimate, revision } = view;
+
+    if (link.status !== 'open') {
+      throw errors.conflict(`This estimate has already been ${link.status}`);
+    }
+    if (view.expired) {
+      throw errors.badRequest('This approval link has expired; please ask for a new one');
+    }
+    if (estimate.status !== 'sent' || estimate.sent_revision_id !== link.revision_id) {
+      throw errors.conflict('This estimate has been revised since the link was sent; please ask for the latest version');
+    }
+
+    const approved = input.decision === 'approve';
+    const links = await db.query<DBEstimateApprovalLink>(
+      `UPDATE estimate_approval_links SET
+         status = $2, signature_name = $3, decision_note = $4,
+         decided_at = CURRENT_TIMESTAMP, decided_ip = $5, decided_user_agent = $6
+       WHERE id = $1
+       RETURNING *`,
+      [link.id, approved ? 'approved' : 'rejected', input.signatureName, input.note || null,
+       input.ip ?? null, input.userAgent?.slice(0, 500) ?? null]
+    );
+    const decided = links.rows[0];
+
+    const estimates = await db.query<DBEstimate>(
+      `UPDATE estimates SET status = $2, approved_revision_id = $3 WHERE id = $1 RETURNING *`,
+      [estimate.id, approved ? 'approved' : 'rejected', approved ? revision.id : null]
+    );
+
+    const label = revisionLabel(revision.revision);
+    await logEstimate(
+      db,
+      null,
+      estimate.id,
+      approved ? 'approved' : 'rejected',
+      `${approved ? 'Approved' : 'Rejected'} by client: estimate ${estimate.estimate_number} rev ${label}, ` +
+        `signed "${input.signatureName}" from ${input.ip ?? 'unknown IP'}` +
+        (input.note ? ` - ${input.note}` : ''),
+      {
+        revision: label,
+        revisionId: revision.id,
+        linkId: link.id,
+        signatureName: input.signatureName,
+        ip: input.ip ?? null,
+        userAgent: input.userAgent ?? null,
+        decidedAt: decided.decided_at,
+      }
+    );
+
+    return { ...view, link: decided, estimate: estimates.rows[0] };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+function localDate(date: string | null | undefined): Date | null {
+  if (!date) return null;
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// The estimate's client at its main address, and the project; every column is
+// null when the estimate has no client or project
+interface RevisionClientRow extends Omit<DocumentParty, 'name'> {
+  name: string | null;
+  project_name: string | null;
+}
+
+// A revision as the client saw it
+export async function renderRevisionPdf(estimate: DBEstimate, revision: DBEstimateRevision): Promise<Uint8Array> {
+  const clients = await query<RevisionClientRow>(
+    `SELECT c.name, ca.street, ca.suite, ca.city, ca.state, ca.zip, p.name AS project_name
+     FROM estimates e
+     LEFT JOIN companies c ON e.client_id = c.id
+     LEFT JOIN company_addresses ca ON ca.company_id = c.id AND ca.is_main
+     LEFT JOIN projects p ON e.project_id = p.id
+     WHERE e.id = $1`,
+    [estimate.id]
+  );
+  const client = clients[0];
+
+  const company = await getCompanyProfile();
+  const letterhead = await resolveLetterhead(company, revision.letterhead_id);
+
+  return renderDocumentPdf(
+    {
+      kind: 'estimate',
+      number: `${estimate.estimate_number} rev ${revisionLabel(revision.revision)}`,
+      title: revision.title,
+      description: revision.description,
+      client: {
+        name: client?.name || '',
+        street: client?.street,
+        suite: client?.suite,
+        city: client?.city,
+        state: client?.state,
+        zip: client?.zip,
+      },
+      projectName: client?.project_name,
+      dates: [
+        ['Date', revision.created_at],
+        ['Valid Until', localDate(revision.valid_until)],
+      ],
+      lineItems: contentOfRevision(revision).lineItems,
+      subtotal: num(revision.subtotal),
+      taxRate: revision.tax_rate === null || revision.tax_rate === undefined ? null : parseFloat(String(revision.tax_rate)),
+      taxAmount: num(revision.tax_amount),
+      taxBreakdown: breakdownOf(revision),
+      total: num(revision.total),
+      terms: revision.terms,
+      updatedAt: revision.created_at,
+    },
+    company,
+    letterhead
+  );
+}
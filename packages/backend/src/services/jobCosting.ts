@@ -0,0 +1,265 @@
+import { query, withTransaction } from '../config/database.js';
+import { errors } from '../middleware/errorHandler.js';
+import { CsvValue, toCsv } from '../utils/csv.js';
+import { DBCostCode, DBEstimate, DBEstimateLineItem, DBProject, JobCostType } from '../types/index.js';
+
+// Job costing: a project's budget, commitments and actual costs by cost code,
+// set against what has been billed. Committed cost is the amount of open
+// subcontracts and POs (closed ones count only what was spent against them);
+// the projected cost adds what is still to come on open commitments to the
+// actual cost so far.
+
+export interface JobCostRow {
+  // null for billing not coded to a cost code
+  costCodeId: string | null;
+  code: string | null;
+  name: string;
+  budget: number;
+  committed: number;
+  actual: number;
+  // Open commitments not yet spent against
+  uncommitted: number;
+  projected: number;
+  // Budget less projected; negative is over budget
+  variance: number;
+  billed: number;
+}
+
+export type JobCostTotals = Omit<JobCostRow, 'costCodeId' | 'code' | 'name'>;
+
+export interface JobCostReport {
+  rows: JobCostRow[];
+  totals: JobCostTotals;
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export async function loadProject(id: string): Promise<DBProject> {
+  const projects = await query<DBProject>('SELECT * FROM projects WHERE id = $1', [id]);
+  if (projects.length === 0) {
+    throw errors.notFound('Project');
+  }
+  return projects[0];
+}
+
+export async function loadCostCode(id: string): Promise<DBCostCode> {
+  const codes = await query<DBCostCode>('SELECT * FROM cost_codes WHERE id = $1', [id]);
+  if (codes.length === 0) {
+    throw errors.notFound('Cost code');
+  }
+  return codes[0];
+}
+
+export async function buildJobCostReport(projectId: string): Promise<JobCostReport> {
+  const [budget, commitments, actual, billed] = await Promise.all([
+    query<{ cost_code_id: string; amount: string }>(
+      `SELECT cost_code_id, SUM(amount) AS amount FROM project_budget_lines
+       WHERE project_id = $1 GROUP BY cost_code_id`,
+      [projectId]
+    ),
+    query<{ cost_code_id: string; amount: string; status: string; spent: string }>(
+      `SELECT c.cost_code_id, c.amount, c.status, COALESCE(SUM(e.amount), 0) AS spent
+       FROM job_cost_commitments c
+       LEFT JOIN job_cost_entries e ON e.commitment_id = c.id
+       WHERE c.project_id = $1 AND c.status <> 'void'
+       GROUP BY c.id`,
+      [projectId]
+    ),
+    query<{ cost_code_id: string; amount: string }>(
+      `SELECT cost_code_id, SUM(amount) AS amount FROM job_cost_entries
+       WHERE project_id = $1 GROUP BY cost_code_id`,
+      [projectId]
+    ),
+    // Pre-tax billing on invoices that have gone out
+    query<{ cost_code_id: string | null; amount: string }>(
+      `SELECT li.cost_code_id, SUM(li.total) AS amount
+       FROM invoice_line_items li
+       JOIN invoices i ON li.invoice_id = i.id
+       WHERE i.project_id = $1 AND i.status NOT IN ('draft', 'cancelled')
+       GROUP BY li.cost_code_id`,
+      [projectId]
+    ),
+  ]);
+
+  const rows = new Map<string | null, Omit<JobCostRow, 'code' | 'name' | 'projected' | 'variance'>>();
+  const rowFor = (costCodeId: string | null) => {
+    let row = rows.get(costCodeId);
+    if (!row) {
+      row = { costCodeId, budget: 0, committed: 0, actual: 0, uncommitted: 0, billed: 0 };
+      rows.set(costCodeId, row);
+    }
+    return row;
+  };
+
+  for (const b of budget) {
+    rowFor(b.cost_code_id).budget += parseFloat(b.amount);
+  }
+  for (const c of commitments) {
+    const row = rowFor(c.cost_code_id);
+    const amount = parseFloat(c.amount);
+    const spent = parseFloat(c.spent);
+    if (c.status === 'open') {
+      row.committed += amount;
+      row.uncommitted += Math.max(0, amount - spent);
+    } else {
+      row.committed += spent;
+    }
+  }
+  for (const a of actual) {
+    rowFor(a.cost_code_id).actual += parseFloat(a.amount);
+  }
+  for (const b of billed) {
+    rowFor(b.cost_code_id).billed += parseFloat(b.amount);
+  }
+
+  const codeIds = [...rows.keys()].filter((id): id is string => id !== null);
+  const codes = codeIds.length > 0
+    ? await query<DBCostCode>('SELECT * FROM cost_codes WHERE id = ANY($1)', [codeIds])
+    : [];
+  const codesById = new Map(codes.map((c) => [c.id, c]));
+
+  const report = [...rows.values()].map((row): JobCostRow => {
+    const code = row.costCodeId ? codesById.get(row.costCodeId) : undefined;
+    const projected = row.actual + row.uncommitted;
+    return {
+      costCodeId: row.costCodeId,
+      code: code?.code ?? null,
+      name: code?.name ?? 'Not coded',
+      budget: round2(row.budget),
+      committed: round2(row.committed),
+      actual: round2(row.actual),
+      uncommitted: round2(row.uncommitted),
+      projected: round2(projected),
+      variance: round2(row.budget - projected),
+      billed: round2(row.billed),
+    };
+  });
+
+  // By code, with uncoded billing last
+  report.sort((a, b) => {
+    if (a.code === null) return 1;
+    if (b.code === null) return -1;
+    return a.code.localeCompare(b.code, undefined, { numeric: true });
+  });
+
+  const totals = report.reduce<JobCostTotals>(
+    (sum, row) => ({
+      budget: round2(sum.budget + row.budget),
+      committed: round2(sum.committed + row.committed),
+      actual: round2(sum.actual + row.actual),
+      uncommitted: round2(sum.uncommitted + row.uncommitted),
+      projected: round2(sum.projected + row.projected),
+      variance: round2(sum.variance + row.variance),
+      billed: round2(sum.billed + row.billed),
+    }),
+    { budget: 0, committed: 0, actual: 0, uncommitted: 0, projected: 0, variance: 0, billed: 0 }
+  );
+
+  return { rows: report, totals };
+}
+
+export function jobCostReportCsv(report: JobCostReport): string {
+  const header = ['Cost Code', 'Name', 'Budget', 'Committed', 'Actual', 'Open Commitments', 'Projected', 'Variance', 'Billed'];
+  const line = (code: string | null, name: string, r: JobCostTotals): CsvValue[] => [
+    code, name, r.budget, r.committed, r.actual, r.uncommitted, r.projected, r.variance, r.billed,
+  ];
+  return toCsv(header, [
+    ...report.rows.map((r) => line(r.code, r.name, r)),
+    line('', 'Total', report.totals),
+  ]);
+}
+
+// The active cost code estimate lines of each type are budgeted to: the first
+// code of that type, else the first general one, else the first of any.
+export function codeForType(codes: DBCostCode[], type: JobCostType): DBCostCode | undefined {
+  return codes.find((c) => c.cost_type === type)
+    ?? codes.find((c) => c.cost_type === 'other')
+    ?? codes[0];
+}
+
+/**
+ * Replace a project's budget with one line per line item of an approved
+ * estimate (the given one, or the project's latest approved estimate). Lines
+ * are budgeted at cost where the estimate has a unit cost, otherwise at the
+ * price. Lines added by approved change orders are kept, and the project's
+ * budget total becomes the sum of all the lines.
+ */
+export async function seedBudgetFromEstimate(
+  projectId: string,
+  estimateId: string | undefined,
+  replace: boolean,
+  userId: string
+): Promise<{ estimateNumber: string; lineCount: number; total: number }> {
+  const project = await loadProject(projectId);
+
+  const estimates = await query<DBEstimate>(
+    `SELECT * FROM estimates
+     WHERE project_id = $1 AND status = 'approved' ${estimateId ? 'AND id = $2' : ''}
+     ORDER BY updated_at DESC LIMIT 1`,
+    estimateId ? [projectId, estimateId] : [projectId]
+  );
+  const estimate = estimates[0];
+  if (!estimate) {
+    throw errors.badRequest(estimateId
+      ? 'The estimate must be approved and belong to this project'
+      : 'This project has no approved estimate');
+  }
+
+  const items = await query<DBEstimateLineItem>(
+    'SELECT * FROM estimate_line_items WHERE estimate_id = $1 ORDER BY sort_order',
+    [estimate.id]
+  );
+  if (items.length === 0) {
+    throw errors.badRequest('The estimate has no line items');
+  }
+
+  const codes = await query<DBCostCode>('SELECT * FROM cost_codes WHERE is_active ORDER BY code');
+  if (codes.length === 0) {
+    throw errors.badRequest('Add a cost code before seeding a budget');
+  }
+
+  const lines = items.map((item) => {
+    const unitCost = item.unit_cost === null ? null : parseFloat(String(item.unit_cost));
+    return {
+      costCode: codeForType(codes, item.cost_type ?? 'other')!,
+      description: item.description,
+      amount: round2(unitCost === null
+        ? parseFloat(String(item.total))
+        : unitCost * parseFloat(String(item.quantity))),
+    };
+  });
+  const total = round2(lines.reduce((sum, l) => sum + l.amount, 0));
+
+  await withTransaction(async (db) => {
+    const existing = await db.query('SELECT 1 FROM project_budget_lines WHERE project_id = $1 LIMIT 1 FOR UPDATE', [projectId]);
+    if (existing.rows.length > 0 && !replace) {
+      throw errors.conflict('This project already has a budget');
+    }
+    await db.query('DELETE FROM project_budget_lines WHERE project_id = $1 AND change_order_id IS NULL', [projectId]);
+
+    for (const [i, line] of lines.entries()) {
+      await db.query(
+        `INSERT INTO project_budget_lines (project_id, cost_code_id, description, amount, estimate_id, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [projectId, line.costCode.id, line.description, line.amount, estimate.id, i]
+      );
+    }
+    await db.query(
+      `UPDATE projects
+       SET budget = $2 + (SELECT COALESCE(SUM(amount), 0) FROM project_budget_lines
+                          WHERE project_id = $1 AND change_order_id IS NOT NULL)
+       WHERE id = $1`,
+      [projectId, total]
+    );
+
+    await db.query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'project', $2, 'updated', $3)`,
+      [userId, projectId, `Budget for ${project.name} seeded from estimate ${estimate.estimate_number}`]
+    );
+  });
+
+  return { estimateNumber: estimate.estimate_number, lineCount: lines.length, total };
+}
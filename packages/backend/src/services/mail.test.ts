@@ -0,0 +1,324 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { simpleParser } from 'mailparser';
+import { withTransaction } from '../config/database.js';
+import { env } from '../config/env.js';
+import { createMailDatabase, MailDatabase, rawMessage, startImapServer, startSmtpServer } from '../test/mail.js';
+import { autoLinkThread, fetchNewMessages, MailMessageInput, recordMessage, sendMail } from './mail.js';
+
+vi.mock('../config/database.js', () => ({ query: vi.fn(), withTransaction: vi.fn() }));
+
+const INBOX = 'sales@sgbuilders.example';
+
+let db: MailDatabase;
+
+beforeAll(() => {
+  Object.assign(env, { SALES_INBOX_ADDRESS: INBOX, IMAP_HOST: '127.0.0.1', IMAP_SECURE: false, IMAP_USER: 'testuser', IMAP_PASS: 'testpass' });
+});
+
+beforeEach(() => {
+  db = createMailDatabase();
+  vi.mocked(withTransaction).mockImplementation((fn) => fn(db.client));
+});
+
+const inbound = (overrides: Partial<MailMessageInput> = {}): MailMessageInput => ({
+  messageId: '<quote-request@harborpoint.example>',
+  references: [],
+  direction: 'inbound',
+  from: { address: 'dana@harborpoint.example', name: 'Dana Reyes' },
+  to: [INBOX],
+  cc: [],
+  subject: 'Lobby renovation quote',
+  text: 'Can you quote the lobby?',
+  sentAt: new Date('2026-03-02T14:00:00Z'),
+  isRead: false,
+  ...overrides,
+});
+
+describe('sendMail', () => {
+  let smtp: Awaited<ReturnType<typeof startSmtpServer>>;
+
+  beforeAll(async () => {
+    smtp = await startSmtpServer();
+    Object.assign(env, { SMTP_HOST: '127.0.0.1', SMTP_PORT: smtp.port, SMTP_SECURE: false });
+  });
+
+  afterAll(() => smtp.close());
+
+  it('sends a reply from the shared mailbox with threading headers', async () => {
+    const sent = await sendMail(
+      {
+        to: ['Dana@HarborPoint.example'],
+        subject: 'Re: Lobby renovation quote',
+        text: 'Quote attached.',
+        inReplyTo: '<quote-request@harborpoint.example>',
+        references: ['<quote-request@harborpoint.example>'],
+      },
+      { id: 'user-1', name: 'Sam Gold' }
+    );
+
+    expect(smtp.received).toHaveLength(1);
+    const delivered = await simpleParser(smtp.received[0]);
+    expect(delivered.messageId).toBe(sent.messageId);
+    expect(delivered.inReplyTo).toBe('<quote-request@harborpoint.example>');
+    expect(delivered.references).toBe('<quote-request@harborpoint.example>');
+    expect(delivered.from?.value).toEqual([{ address: INBOX, name: 'Sam Gold' }]);
+
+    expect(sent).toMatchObject({ direction: 'outbound', to: ['dana@harborpoint.example'], isRead: true, sentById: 'user-1' });
+  });
+
+  it('files the sent reply into the thread it answers', async () => {
+    const threadId = await recordMessage(inbound());
+    const sent = await sendMail(
+      { to: ['dana@harborpoint.example'], subject: 'Re: Lobby renovation quote', text: 'On it.', inReplyTo: '<quote-request@harborpoint.example>' },
+      { name: 'Sam Gold' }
+    );
+
+    expect(await recordMessage(sent)).toBe(threadId);
+    expect(db.threads[0].participants).toEqual(['dana@harborpoint.example']);
+  });
+});
+
+describe('fetchNewMessages', () => {
+  const messages = [
+    {
+      raw: rawMessage(
+        { 'Message-ID': '<one@harborpoint.example>', From: 'Dana Reyes <Dana@HarborPoint.example>', To: INBOX, Subject: 'Quote', Date: 'Mon, 02 Mar 2026 14:00:00 +0000' },
+        'Can you quote the lobby?'
+      ),
+      flags: ['\\Seen'],
+    },
+    {
+      raw: rawMessage(
+        {
+          'Message-ID': '<two@sgbuilders.example>',
+          'In-Reply-To': '<one@harborpoint.example>',
+          References: '<zero@harborpoint.example> <one@harborpoint.example>',
+          From: INBOX,
+          To: 'dana@harborpoint.example',
+          Cc: 'Ops <ops@harborpoint.example>',
+          Subject: 'Re: Quote',
+        },
+        'Quote attached.'
+      ),
+    },
+    { raw: rawMessage({ From: 'noreply@permits.example', Subject: 'Permit issued' }, 'No Message-ID here.') },
+  ];
+  let imap: Awaited<ReturnType<typeof startImapServer>>;
+
+  beforeAll(async () => {
+    imap = await startImapServer(42, messages);
+    Object.assign(env, { IMAP_PORT: imap.port });
+  });
+
+  afterAll(() => imap.close());
+
+  const fetchAll = async (since: { uidValidity?: bigint; lastUid: number }) => {
+    const fetched: MailMessageInput[] = [];
+    const result = await fetchNewMessages('INBOX', since, async (message) => {
+      fetched.push(message);
+    });
+    return { fetched, result };
+  };
+
+  it('reads every message on the first sync', async () => {
+    const { fetched, result } = await fetchAll({ lastUid: 0 });
+
+    expect(result).toEqual({ uidValidity: 42n, lastUid: 3 });
+    expect(fetched.map((m) => m.imapUid)).toEqual([1, 2, 3]);
+    expect(fetched[0]).toMatchObject({
+      messageId: '<one@harborpoint.example>',
+      direction: 'inbound',
+      from: { address: 'dana@harborpoint.example', name: 'Dana Reyes' },
+      isRead: true,
+      sentAt: new Date('2026-03-02T14:00:00Z'),
+    });
+    expect(fetched[1]).toMatchObject({
+      inReplyTo: '<one@harborpoint.example>',
+      references: ['<zero@harborpoint.example>', '<one@harborpoint.example>'],
+      direction: 'outbound',
+      cc: ['ops@harborpoint.example'],
+      isRead: false,
+    });
+    expect(fetched[2].messageId).toBe('<imap-42-3@sg-portal>');
+  });
+
+  it('resumes after the last UID seen', async () => {
+    const { fetched, result } = await fetchAll({ uidValidity: 42n, lastUid: 1 });
+
+    expect(fetched.map((m) => m.imapUid)).toEqual([2, 3]);
+    expect(result.lastUid).toBe(3);
+  });
+
+  it('reads nothing when up to date, even though N:* matches the newest message', async () => {
+    const { fetched, result } = await fetchAll({ uidValidity: 42n, lastUid: 3 });
+
+    expect(fetched).toEqual([]);
+    expect(result).toEqual({ uidValidity: 42n, lastUid: 3 });
+  });
+
+  it('reads everything again when UIDVALIDITY changed', async () => {
+    const { fetched } = await fetchAll({ uidValidity: 41n, lastUid: 3 });
+
+    expect(fetched.map((m) => m.imapUid)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('recordMessage', () => {
+  it('starts a thread for a new conversation', async () => {
+    const threadId = await recordMessage(inbound());
+
+    expect(db.threads).toEqual([
+      expect.objectContaining({
+        id: threadId,
+        subject: 'Lobby renovation quote',
+        snippet: 'Can you quote the lobby?',
+        participants: ['dana@harborpoint.example'],
+        message_count: 1,
+        unread_count: 1,
+      }),
+    ]);
+  });
+
+  it('threads a reply by In-Reply-To', async () => {
+    const threadId = await recordMessage(inbound());
+    const reply = await recordMessage(
+      inbound({
+        messageId: '<reply@harborpoint.example>',
+        inReplyTo: '<quote-request@harborpoint.example>',
+        text: 'Following up.',
+        sentAt: new Date('2026-03-03T09:00:00Z'),
+        isRead: true,
+      })
+    );
+
+    expect(reply).toBe(threadId);
+    expect(db.threads).toHaveLength(1);
+    expect(db.threads[0]).toMatchObject({ message_count: 2, unread_count: 1, snippet: 'Following up.' });
+  });
+
+  it('threads by References when In-Reply-To is missing or unknown', async () => {
+    const threadId = await recordMessage(inbound());
+
+    expect(
+      await recordMessage(
+        inbound({
+          messageId: '<late@harborpoint.example>',
+          inReplyTo: '<never-synced@harborpoint.example>',
+          references: ['<quote-request@harborpoint.example>', '<never-synced@harborpoint.example>'],
+        })
+      )
+    ).toBe(threadId);
+    expect(
+      await recordMessage(inbound({ messageId: '<later@harborpoint.example>', references: ['<late@harborpoint.example>'] }))
+    ).toBe(threadId);
+  });
+
+  it('keeps the newest snippet when an older message arrives late', async () => {
+    await recordMessage(inbound({ messageId: '<new@harborpoint.example>', text: 'Newest', sentAt: new Date('2026-03-05T00:00:00Z') }));
+    await recordMessage(
+      inbound({ inReplyTo: '<new@harborpoint.example>', text: 'Older', sentAt: new Date('2026-03-01T00:00:00Z') })
+    );
+
+    expect(db.threads[0]).toMatchObject({ snippet: 'Newest', last_message_at: new Date('2026-03-05T00:00:00Z') });
+  });
+
+  it('skips a message it already stored', async () => {
+    await recordMessage(inbound());
+
+    expect(await recordMessage(inbound())).toBeNull();
+    expect(db.messages).toHaveLength(1);
+    expect(db.threads[0].message_count).toBe(1);
+  });
+
+  it('does not count the shared mailbox as a participant', async () => {
+    await recordMessage(inbound({ cc: ['ops@harborpoint.example', INBOX] }));
+
+    expect(db.threads[0].participants).toEqual(['dana@harborpoint.example', 'ops@harborpoint.example']);
+  });
+});
+
+describe('autoLinkThread', () => {
+  const day = (n: number) => new Date(2026, 0, n);
+
+  beforeEach(() => {
+    db.contacts.push(
+      { id: 'contact-dana', email: 'Dana@HarborPoint.example', updated_at: day(1) },
+      { id: 'contact-lee', email: 'lee@harborpoint.example', updated_at: day(1) }
+    );
+  });
+
+  it('links the contact and their open deal', async () => {
+    db.deals.push(
+      { id: 'deal-old', contact_id: 'contact-dana', status: 'active', deleted_at: null, updated_at: day(2) },
+      { id: 'deal-new', contact_id: 'contact-dana', status: 'active', deleted_at: null, updated_at: day(3) },
+      { id: 'deal-won', contact_id: 'contact-dana', status: 'won', deleted_at: null, updated_at: day(4) },
+      { id: 'deal-deleted', contact_id: 'contact-dana', status: 'active', deleted_at: day(5), updated_at: day(5) }
+    );
+    db.leads.push({ id: 'lead-1', contact_id: 'contact-dana', converted_at: null, updated_at: day(6) });
+
+    await recordMessage(inbound());
+
+    expect(db.threads[0]).toMatchObject({ contact_id: 'contact-dana', deal_id: 'deal-new', lead_id: null });
+  });
+
+  it('links an open lead when the contact has no open deal', async () => {
+    db.leads.push(
+      { id: 'lead-converted', contact_id: 'contact-dana', converted_at: day(3), updated_at: day(3) },
+      { id: 'lead-open', contact_id: 'contact-dana', converted_at: null, updated_at: day(2) }
+    );
+
+    await recordMessage(inbound());
+
+    expect(db.threads[0]).toMatchObject({ contact_id: 'contact-dana', deal_id: null, lead_id: 'lead-open' });
+  });
+
+  it('matches an extra email contact method', async () => {
+    db.contactMethods.push({ contact_id: 'contact-lee', type: 'email', value: 'Lee.Personal@mail.example' });
+
+    await recordMessage(inbound({ from: { address: 'lee.personal@mail.example' } }));
+
+    expect(db.threads[0].contact_id).toBe('contact-lee');
+  });
+
+  it('prefers the most recently updated contact when several match', async () => {
+    db.contacts[1].updated_at = day(9);
+
+    await recordMessage(inbound({ cc: ['lee@harborpoint.example'] }));
+
+    expect(db.threads[0].contact_id).toBe('contact-lee');
+  });
+
+  it('links a thread once a known contact joins it', async () => {
+    const threadId = await recordMessage(inbound({ from: { address: 'stranger@mail.example' } }));
+    expect(db.threads[0].contact_id).toBeNull();
+
+    await recordMessage(inbound({ messageId: '<dana@harborpoint.example>', inReplyTo: '<quote-request@harborpoint.example>' }));
+
+    expect(db.threads[0]).toMatchObject({ id: threadId, contact_id: 'contact-dana' });
+  });
+
+  it('leaves no link without a matching contact', async () => {
+    await recordMessage(inbound({ from: { address: 'stranger@mail.example' } }));
+
+    expect(db.threads[0]).toMatchObject({ contact_id: null, deal_id: null, lead_id: null });
+  });
+
+  it('leaves threads linked by hand alone', async () => {
+    db.deals.push({ id: 'deal-1', contact_id: 'contact-dana', status: 'active', deleted_at: null, updated_at: day(2) });
+
+    await recordMessage(inbound(), { leadId: 'lead-chosen' });
+
+    expect(db.threads[0]).toMatchObject({ contact_id: null, deal_id: null, lead_id: 'lead-chosen', linked_manually: true });
+  });
+
+  it('keeps an existing deal or lead link', async () => {
+    db.deals.push({ id: 'deal-1', contact_id: 'contact-dana', status: 'active', deleted_at: null, updated_at: day(2) });
+    await recordMessage(inbound());
+    db.threads[0].deal_id = null;
+    db.threads[0].lead_id = 'lead-earlier';
+
+    await autoLinkThread(db.client, db.threads[0].id);
+
+    expect(db.threads[0]).toMatchObject({ contact_id: 'contact-dana', deal_id: null, lead_id: 'lead-earlier' });
+  });
+});
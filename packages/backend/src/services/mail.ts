@@ -0,0 +1,329 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { ImapFlow } from 'imapflow';
+import { simpleParser, ParsedMail, AddressObject } from 'mailparser';
+import { PoolClient } from 'pg';
+import { env } from '../config/env.js';
+import { withTransaction } from '../config/database.js';
+import { logger } from '../config/logger.js';
+
+// Sales Inbox mail transport and storage.
+// A shared mailbox is read over IMAP and replies go out over SMTP; both work
+// against any standards-compliant server, including a local test server.
+
+export interface MailAddress {
+  address: string;
+  name?: string;
+}
+
+// A message in the shape it is stored, whichever direction it came from
+export interface MailMessageInput {
+  messageId: string;
+  inReplyTo?: string;
+  references: string[];
+  direction: 'inbound' | 'outbound';
+  from: MailAddress;
+  to: string[];
+  cc: string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  sentAt: Date;
+  isRead: boolean;
+  imapUid?: number;
+  sentById?: string;
+  sentByName?: string;
+}
+
+export interface OutgoingMail {
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  inReplyTo?: string;
+  references?: string[];
+}
+
+const SNIPPET_LENGTH = 200;
+
+export function isImapConfigured(): boolean {
+  return !!(env.IMAP_HOST && env.IMAP_USER && env.IMAP_PASS);
+}
+
+export function isSmtpConfigured(): boolean {
+  return !!(env.SMTP_HOST && env.SMTP_PORT);
+}
+
+// Address of the shared mailbox - excluded from thread participants
+export function getInboxAddress(): string {
+  return (env.SALES_INBOX_ADDRESS || env.IMAP_USER || env.SMTP_USER || '').toLowerCase();
+}
+
+// ============================================================================
+// SMTP
+// ============================================================================
+
+let transporter: Transporter | null = null;
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE ?? env.SMTP_PORT === 465,
+      auth: env.SMTP_USER && env.SMTP_PASS ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+    });
+  }
+  return transporter;
+}
+
+// Send from the shared mailbox; returns the stored shape of the sent message
+export async function sendMail(
+  mail: OutgoingMail,
+  sender: { id?: string; name?: string }
+): Promise<MailMessageInput> {
+  const fromAddress = getInboxAddress();
+  const from: MailAddress = { address: fromAddress, name: sender.name };
+
+  const info = await getTransporter().sendMail({
+    from: sender.name ? { name: sender.name, address: fromAddress } : fromAddress,
+    to: mail.to,
+    cc: mail.cc,
+    subject: mail.subject,
+    text: mail.text,
+    inReplyTo: mail.inReplyTo,
+    references: mail.references,
+  });
+
+  return {
+    messageId: info.messageId,
+    inReplyTo: mail.inReplyTo,
+    references: mail.references || [],
+    direction: 'outbound',
+    from,
+    to: mail.to.map((a) => a.toLowerCase()),
+    cc: (mail.cc || []).map((a) => a.toLowerCase()),
+    subject: mail.subject,
+    text: mail.text,
+    sentAt: new Date(),
+    isRead: true,
+    sentById: sender.id,
+    sentByName: sender.name,
+  };
+}
+
+// ============================================================================
+// IMAP
+// ============================================================================
+
+function addressList(value?: AddressObject | AddressObject[]): MailAddress[] {
+  const objects = Array.isArray(value) ? value : value ? [value] : [];
+  return objects
+    .flatMap((o) => o.value)
+    .filter((a) => !!a.address)
+    .map((a) => ({ address: a.address!.toLowerCase(), name: a.name || undefined }));
+}
+
+// Normalize a parsed IMAP message; messages without a Message-ID get a stable one
+export function toMessageInput(parsed: ParsedMail, uid: number, uidValidity: bigint, isRead: boolean): MailMessageInput {
+  const from = addressList(parsed.from)[0] || { address: 'unknown' };
+  const references = Array.isArray(parsed.references)
+    ? parsed.references
+    : parsed.references ? parsed.references.split(/\s+/).filter(Boolean) : [];
+
+  return {
+    messageId: parsed.messageId || `<imap-${uidValidity}-${uid}@sg-portal>`,
+    inReplyTo: parsed.inReplyTo,
+    references,
+    direction: from.address === getInboxAddress() ? 'outbound' : 'inbound',
+    from,
+    to: addressList(parsed.to).map((a) => a.address),
+    cc: addressList(parsed.cc).map((a) => a.address),
+    subject: parsed.subject || '',
+    text: parsed.text,
+    html: parsed.html || undefined,
+    sentAt: parsed.date || new Date(),
+    isRead,
+    imapUid: uid,
+  };
+}
+
+/**
+ * Read messages newer than `lastUid` from the shared mailbox.
+ * When the mailbox's UIDVALIDITY no longer matches `uidValidity` the UIDs were
+ * reset, so everything is read again (already-stored messages are skipped by Message-ID).
+ */
+export async function fetchNewMessages(
+  mailbox: string,
+  since: { uidValidity?: bigint; lastUid: number },
+  onMessage: (message: MailMessageInput) => Promise<void>
+): Promise<{ uidValidity: bigint; lastUid: number }> {
+  const client = new ImapFlow({
+    host: env.IMAP_HOST!,
+    port: env.IMAP_PORT,
+    secure: env.IMAP_SECURE,
+    auth: { user: env.IMAP_USER!, pass: env.IMAP_PASS! },
+    logger: false,
+  });
+
+  await client.connect();
+  const lock = await client.getMailboxLock(mailbox);
+  try {
+    const uidValidity = client.mailbox ? client.mailbox.uidValidity : 0n;
+    const startUid = since.uidValidity === uidValidity ? since.lastUid + 1 : 1;
+    let lastUid = startUid - 1;
+
+    // "N:*" always matches the newest message, even when its UID is below N
+    for await (const msg of client.fetch(`${startUid}:*`, { uid: true, source: true, flags: true }, { uid: true })) {
+      if (msg.uid < startUid || !msg.source) continue;
+      const parsed = await simpleParser(msg.source);
+      await onMessage(toMessageInput(parsed, msg.uid, uidValidity, !!msg.flags?.has('\\Seen')));
+      lastUid = Math.max(lastUid, msg.uid);
+    }
+
+    return { uidValidity, lastUid };
+  } finally {
+    lock.release();
+    await client.logout().catch((error) => logger.warn('IMAP logout failed', { error }));
+  }
+}
+
+// ============================================================================
+// Storage, threading and linking
+// ============================================================================
+
+/**
+ * Store a message and file it into a thread (by In-Reply-To / References),
+ * then auto-link the thread. Returns the thread id, or null when the message
+ * was already stored.
+ */
+export async function recordMessage(
+  message: MailMessageInput,
+  links: { contactId?: string; leadId?: string; dealId?: string } = {}
+): Promise<string | null> {
+  return withTransaction(async (db) => {
+    const existing = await db.query('SELECT id FROM mail_messages WHERE message_id = $1', [message.messageId]);
+    if (existing.rows.length > 0) return null;
+
+    const inbox = getInboxAddress();
+    const participants = Array.from(
+      new Set([message.from.address, ...message.to, ...message.cc].filter((a) => a && a !== inbox))
+    );
+    const snippet = (message.text || '').replace(/\s+/g, ' ').trim().slice(0, SNIPPET_LENGTH);
+
+    const parentIds = [message.inReplyTo, ...message.references].filter((id): id is string => !!id);
+    const parent = parentIds.length > 0
+      ? await db.query<{ thread_id: string }>(
+          `SELECT thread_id FROM mail_messages WHERE message_id = ANY($1)
+           ORDER BY sent_at DESC LIMIT 1`,
+          [parentIds]
+        )
+      : { rows: [] };
+
+    let threadId = parent.rows[0]?.thread_id;
+    if (!threadId) {
+      const hasLinks = !!(links.contactId || links.leadId || links.dealId);
+      const created = await db.query<{ id: string }>(
+        `INSERT INTO mail_threads (subject, last_message_at, contact_id, lead_id, deal_id, linked_manually)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id`,
+        [message.subject, message.sentAt, links.contactId || null, links.leadId || null, links.dealId || null, hasLinks]
+      );
+      threadId = created.rows[0].id;
+    }
+
+    await db.query(
+      `INSERT INTO mail_messages (
+        thread_id, message_id, in_reply_to, "references", direction, from_address, from_name,
+        to_addresses, cc_addresses, subject, text_body, html_body, sent_at, is_read,
+        imap_uid, sent_by_id, sent_by_name
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+      [
+        threadId, message.messageId, message.inReplyTo || null, message.references, message.direction,
+        message.from.address, message.from.name || null, message.to, message.cc, message.subject,
+        message.text || null, message.html || null, message.sentAt, message.isRead,
+        message.imapUid ?? null, message.sentById || null, message.sentByName || null,
+      ]
+    );
+
+    // Newest message sets the snippet; older ones arriving late only add counts
+    await db.query(
+      `UPDATE mail_threads SET
+        message_count = message_count + 1,
+        unread_count = unread_count + $2,
+        participants = ARRAY(SELECT DISTINCT unnest(participants || $3::text[])),
+        snippet = CASE WHEN $4 >= last_message_at THEN $5 ELSE snippet END,
+        last_message_at = GREATEST(last_message_at, $4)
+       WHERE id = $1`,
+      [threadId, message.isRead ? 0 : 1, participants, message.sentAt, snippet]
+    );
+
+    await autoLinkThread(db, threadId);
+    return threadId;
+  });
+}
+
+/**
+ * Link a thread to the contact whose email (primary or an extra email contact
+ * method) matches a participant, and to that contact's open deal, or else
+ * open lead. Threads linked by hand are left alone.
+ */
+export async function autoLinkThread(db: PoolClient, threadId: string): Promise<void> {
+  const threads = await db.query<{
+    participants: string[];
+    contact_id: string | null;
+    lead_id: string | null;
+    deal_id: string | null;
+    linked_manually: boolean;
+  }>(
+    'SELECT participants, contact_id, lead_id, deal_id, linked_manually FROM mail_threads WHERE id = $1',
+    [threadId]
+  );
+  const thread = threads.rows[0];
+  if (!thread || thread.linked_manually || thread.participants.length === 0) return;
+
+  let contactId = thread.contact_id;
+  if (!contactId) {
+    const contacts = await db.query<{ id: string }>(
+      `SELECT id FROM (
+        SELECT c.id, c.updated_at FROM contacts c
+        WHERE LOWER(c.email) = ANY($1)
+        UNION
+        SELECT c.id, c.updated_at FROM contact_methods cm
+        JOIN contacts c ON c.id = cm.contact_id
+        WHERE cm.type = 'email' AND LOWER(cm.value) = ANY($1)
+      ) matches
+      ORDER BY updated_at DESC
+      LIMIT 1`,
+      [thread.participants]
+    );
+    contactId = contacts.rows[0]?.id || null;
+  }
+  if (!contactId) return;
+
+  let dealId = thread.deal_id;
+  let leadId = thread.lead_id;
+  if (!dealId && !leadId) {
+    const deals = await db.query<{ id: string }>(
+      `SELECT id FROM deals
+       WHERE contact_id = $1 AND status = 'active' AND deleted_at IS NULL
+       ORDER BY updated_at DESC LIMIT 1`,
+      [contactId]
+    );
+    dealId = deals.rows[0]?.id || null;
+
+    if (!dealId) {
+      const leads = await db.query<{ id: string }>(
+        `SELECT id FROM leads
+         WHERE contact_id = $1 AND converted_at IS NULL
+         ORDER BY updated_at DESC LIMIT 1`,
+        [contactId]
+      );
+      leadId = leads.rows[0]?.id || null;
+    }
+  }
+
+  await db.query(
+    'UPDATE mail_threads SET contact_id = $2, deal_id = $3, lead_id = $4 WHERE id = $1',
+    [threadId, contactId, dealId, leadId]
+  );
+}
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PoolClient } from 'pg';
+import { AppError } from '../middleware/errorHandler.js';
+import { applyClientCredit, getBalanceDue, getClientCredit, recordPayment, voidPayment } from './payments.js';
+
+vi.mock('../config/database.js', () => ({ query: vi.fn(), withTransaction: vi.fn() }));
+
+const TODAY = '2026-05-01';
+const CLIENT = 'company-1';
+
+interface InvoiceRow {
+  id: string;
+  invoice_number: string;
+  client_id: string;
+  total: string;
+  status: string;
+  paid_date: string | null;
+}
+
+interface PaymentRow {
+  id: string;
+  invoice_id: string;
+  client_id: string;
+  amount: string;
+  overpayment: string;
+  method: string;
+  payment_date: string;
+}
+
+// In-memory invoices, payments and client credits answering the queries
+// services/payments.ts makes; numeric columns come back as text, as from pg
+let invoices: InvoiceRow[];
+let payments: PaymentRow[];
+let credits: Array<{ client_id: string; amount: number; payment_id: string }>;
+let cancelledReminders: string[];
+let activity: string[];
+
+const sum = (values: Array<string | number>) => Math.round(values.reduce<number>((s, v) => s + Number(v), 0) * 100) / 100;
+const paidOn = (invoiceId: string) => payments.filter((p) => p.invoice_id === invoiceId);
+
+const db = {
+  query: async (sql: string, params: any[] = []) => {
+    const rows = (result: any[]) => ({ rows: result });
+
+    if (sql.includes('FROM invoices i WHERE i.id = $1 FOR UPDATE')) {
+      return rows(invoices
+        .filter((i) => i.id === params[0])
+        .map((i) => ({ ...i, amount_paid: String(sum(paidOn(i.id).map((p) => p.amount))) })));
+    }
+    if (sql.includes('FROM companies WHERE id = $1 FOR UPDATE')) return rows([]);
+    if (sql.includes('FROM client_credits WHERE client_id = $1')) {
+      return rows([{ balance: String(sum(credits.filter((c) => c.client_id === params[0]).map((c) => c.amount))) }]);
+    }
+    if (sql.includes('INSERT INTO payments')) {
+      const credit = sql.includes("'credit'");
+      const payment: PaymentRow = {
+        id: `payment-${payments.length + 1}`,
+        invoice_id: params[0],
+        client_id: params[1],
+        amount: params[2].toFixed(2),
+        overpayment: credit ? '0.00' : params[3].toFixed(2),
+        method: credit ? 'credit' : params[4],
+        payment_date: (!credit && params[6]) || TODAY,
+      };
+      payments.push(payment);
+      return rows([payment]);
+    }
+    if (sql.includes('INSERT INTO client_credits')) {
+      credits.push({ client_id: params[0], amount: params[1], payment_id: params[2] });
+      return rows([]);
+    }
+    if (sql.includes('AS amount_paid, MAX(payment_date) AS last_paid')) {
+      const paid = paidOn(params[0]);
+      const last = paid.map((p) => p.payment_date).sort().pop() ?? null;
+      return rows([{ amount_paid: String(sum(paid.map((p) => p.amount))), last_paid: last }]);
+    }
+    if (sql.includes('UPDATE invoices SET status')) {
+      const invoice = invoices.find((i) => i.id === params[0])!;
+      Object.assign(invoice, { status: params[1], paid_date: params[2] });
+      return rows([invoice]);
+    }
+    if (sql.includes('UPDATE invoice_reminders')) {
+      cancelledReminders.push(params[0]);
+      return rows([]);
+    }
+    if (sql.includes('SELECT * FROM payments WHERE id = $1 AND invoice_id = $2')) {
+      return rows(payments.filter((p) => p.id === params[0] && p.invoice_id === params[1]));
+    }
+    if (sql.includes('FROM accounting_export_entries')) return rows([]);
+    if (sql.includes('DELETE FROM payments')) {
+      // client_credits.payment_id is ON DELETE CASCADE
+      payments = payments.filter((p) => p.id !== params[0]);
+      credits = credits.filter((c) => c.payment_id !== params[0]);
+      return rows([]);
+    }
+    if (sql.includes('INSERT INTO activities')) {
+      activity.push(params[3]);
+      return rows([]);
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  },
+} as unknown as PoolClient;
+
+const invoice = (id: string, total: string, status = 'sent'): InvoiceRow => ({
+  id,
+  invoice_number: `INV-${id.replace('invoice-', '100')}`,
+  client_id: CLIENT,
+  total,
+  status,
+  paid_date: null,
+});
+
+const pay = (invoiceId: string, amount: number, paymentDate?: string) =>
+  recordPayment(db, invoiceId, { amount, method: 'check', reference: '1042', paymentDate }, 'user-1');
+
+beforeEach(() => {
+  invoices = [invoice('invoice-1', '1000.00'), invoice('invoice-2', '400.00')];
+  payments = [];
+  credits = [];
+  cancelledReminders = [];
+  activity = [];
+});
+
+describe('recordPayment', () => {
+  it('leaves an invoice partially paid until the balance is covered', async () => {
+    const { payment, invoice: updated } = await pay('invoice-1', 400);
+
+    expect(payment).toMatchObject({ amount: '400.00', overpayment: '0.00', method: 'check' });
+    expect(updated).toMatchObject({ status: 'partially_paid', paid_date: null });
+    expect(await getBalanceDue(db, 'invoice-1')).toBe(600);
+    expect(credits).toEqual([]);
+    expect(cancelledReminders).toEqual([]);
+    expect(activity).toEqual(['Recorded CHECK payment of $400.00 on invoice INV-1001']);
+  });
+
+  it('marks the invoice paid on the date of the payment that settles it and stops reminders', async () => {
+    await pay('invoice-1', 400, '2026-04-20');
+    const { invoice: updated } = await pay('invoice-1', 600, '2026-04-28');
+
+    expect(updated).toMatchObject({ status: 'paid', paid_date: '2026-04-28' });
+    expect(await getBalanceDue(db, 'invoice-1')).toBe(0);
+    expect(cancelledReminders).toEqual(['invoice-1']);
+  });
+
+  it('keeps an overdue invoice overdue while part of it is still owed', async () => {
+    invoices[0].status = 'overdue';
+
+    const { invoice: updated } = await pay('invoice-1', 250);
+
+    expect(updated.status).toBe('overdue');
+  });
+
+  it('applies an overpayment to the balance and credits the rest to the client', async () => {
+    const { payment, invoice: updated } = await pay('invoice-1', 1250);
+
+    expect(payment).toMatchObject({ amount: '1000.00', overpayment: '250.00' });
+    expect(updated.status).toBe('paid');
+    expect(credits).toEqual([{ client_id: CLIENT, amount: 250, payment_id: payment.id }]);
+    expect(await getClientCredit(CLIENT, db)).toBe(250);
+    expect(activity).toEqual(['Recorded CHECK payment of $1250.00 on invoice INV-1001 ($250.00 credited to client)']);
+  });
+
+  it('splits an overpayment to the cent', async () => {
+    invoices[0].total = '999.99';
+
+    const { payment } = await pay('invoice-1', 1000.1);
+
+    expect(payment).toMatchObject({ amount: '999.99', overpayment: '0.11' });
+  });
+
+  it('refuses a payment on an invoice already paid in full', async () => {
+    await pay('invoice-1', 1000);
+    invoices[0].status = 'sent';
+
+    await expect(pay('invoice-1', 10)).rejects.toThrow('Invoice is already paid in full');
+  });
+
+  it('refuses a payment on a draft or paid invoice', async () => {
+    invoices[0].status = 'draft';
+    invoices[1].status = 'paid';
+
+    await expect(pay('invoice-1', 10)).rejects.toBeInstanceOf(AppError);
+    await expect(pay('invoice-2', 10)).rejects.toThrow('Payments can only be recorded on sent, partially paid or overdue invoices');
+    expect(payments).toEqual([]);
+  });
+});
+
+describe('applyClientCredit', () => {
+  it('pays another invoice from the credit an overpayment left', async () => {
+    await pay('invoice-1', 1250);
+
+    const { payment, invoice: updated } = await applyClientCredit(db, 'invoice-2', undefined, 'user-1');
+
+    expect(payment).toMatchObject({ amount: '250.00', method: 'credit' });
+    expect(updated.status).toBe('partially_paid');
+    expect(await getClientCredit(CLIENT, db)).toBe(0);
+    expect(activity.at(-1)).toBe('Applied $250.00 of client credit to invoice INV-1002');
+  });
+
+  it('refuses more than the client has', async () => {
+    await pay('invoice-1', 1250);
+
+    await expect(applyClientCredit(db, 'invoice-2', 300, 'user-1')).rejects.toThrow('Only $250.00 of credit is available');
+  });
+});
+
+describe('voidPayment', () => {
+  it('reopens the invoice', async () => {
+    const { payment } = await pay('invoice-1', 1000);
+
+    const updated = await voidPayment(db, 'invoice-1', payment.id, 'user-1');
+
+    expect(updated).toMatchObject({ status: 'sent', paid_date: null });
+    expect(payments).toEqual([]);
+    expect(activity.at(-1)).toBe('Voided CHECK payment of $1000.00 on invoice INV-1001');
+  });
+
+  it('takes back the credit from an overpayment nobody has used', async () => {
+    const { payment } = await pay('invoice-1', 1250);
+
+    await voidPayment(db, 'invoice-1', payment.id, 'user-1');
+
+    expect(await getClientCredit(CLIENT, db)).toBe(0);
+  });
+
+  it('refuses to void an overpayment whose credit was already spent', async () => {
+    const { payment } = await pay('invoice-1', 1250);
+    await applyClientCredit(db, 'invoice-2', 100, 'user-1');
+
+    const error = await voidPayment(db, 'invoice-1', payment.id, 'user-1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({ statusCode: 409, message: 'The credit from this payment has already been applied to other invoices' });
+    expect(payments.map((p) => p.id)).toEqual([payment.id, 'payment-2']);
+    expect(await getClientCredit(CLIENT, db)).toBe(150);
+  });
+
+  it('voids the overpayment once the credit it paid is voided first', async () => {
+    const { payment } = await pay('invoice-1', 1250);
+    const { payment: credit } = await applyClientCredit(db, 'invoice-2', 100, 'user-1');
+
+    expect((await voidPayment(db, 'invoice-2', credit.id, 'user-1')).status).toBe('sent');
+    expect(await getClientCredit(CLIENT, db)).toBe(250);
+
+    expect((await voidPayment(db, 'invoice-1', payment.id, 'user-1')).status).toBe('sent');
+    expect(await getClientCredit(CLIENT, db)).toBe(0);
+  });
+
+  it('only voids a payment on the invoice it belongs to', async () => {
+    const { payment } = await pay('invoice-1', 400);
+
+    await expect(voidPayment(db, 'invoice-2', payment.id, 'user-1')).rejects.toThrow('Payment not found');
+  });
+});
@@ -0,0 +1,261 @@
+import { PoolClient } from 'pg';
+import { query } from '../config/database.js';
+import { errors } from '../middleware/errorHandler.js';
+import { assertNotExported } from './accountingExport.js';
+import { DBInvoice, DBPayment } from '../types/index.js';
+
+// Invoice payments and client credits.
+// An invoice's amount paid is the sum of its payments; its status follows:
+// paid once nothing is due, partially_paid while some is, and back to sent
+// (or overdue) when payments are voided. Writes run inside the caller's
+// transaction with the invoice row locked.
+
+export const PAYMENT_METHODS = ['check', 'ach', 'card', 'cash', 'other', 'credit'] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+// Invoices that can take a payment
+const PAYABLE_STATUSES: DBInvoice['status'][] = ['sent', 'partially_paid', 'overdue'];
+
+export interface PaymentInput {
+  amount: number;
+  method: Exclude<PaymentMethod, 'credit'>;
+  reference?: string;
+  paymentDate?: string;
+  notes?: string;
+}
+
+// Payment dates come back as text (YYYY-MM-DD) so they don't shift with timezones
+const RETURNING_PAYMENT = `RETURNING *, to_char(payment_date, 'YYYY-MM-DD') AS payment_date`;
+
+interface LockedInvoice extends DBInvoice {
+  amount_paid: string;
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+async function lockInvoice(db: PoolClient, invoiceId: string): Promise<LockedInvoice> {
+  const result = await db.query<LockedInvoice>(
+    `SELECT i.*, COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.invoice_id = i.id), 0) AS amount_paid
+     FROM invoices i WHERE i.id = $1 FOR UPDATE`,
+    [invoiceId]
+  );
+  if (result.rows.length === 0) {
+    throw errors.notFound('Invoice');
+  }
+  return result.rows[0];
+}
+
+function balanceOf(invoice: LockedInvoice): number {
+  return round(parseFloat(String(invoice.total)) - parseFloat(invoice.amount_paid));
+}
+
+function assertPayable(invoice: LockedInvoice): number {
+  if (!PAYABLE_STATUSES.includes(invoice.status)) {
+    throw errors.badRequest('Payments can only be recorded on sent, partially paid or overdue invoices');
+  }
+  const balance = balanceOf(invoice);
+  if (balance <= 0) {
+    throw errors.badRequest('Invoice is already paid in full');
+  }
+  return balance;
+}
+
+// Serialize credit use per client (locks the company row)
+async function lockClientCredit(db: PoolClient, clientId: string): Promise<number> {
+  await db.query('SELECT id FROM companies WHERE id = $1 FOR UPDATE', [clientId]);
+  return getClientCredit(clientId, db);
+}
+
+// A client's available credit (inside a transaction when `db` is given)
+export async function getClientCredit(clientId: string, db?: PoolClient): Promise<number> {
+  const sql = 'SELECT COALESCE(SUM(amount), 0) AS balance FROM client_credits WHERE client_id = $1';
+  const rows = db
+    ? (await db.query<{ balance: string }>(sql, [clientId])).rows
+    : await query<{ balance: string }>(sql, [clientId]);
+  return parseFloat(rows[0].balance);
+}
+
+/** Bring an invoice's status and paid_date in line with its payments */
+async function refreshInvoiceStatus(db: PoolClient, before: LockedInvoice): Promise<DBInvoice> {
+  const totals = await db.query<{ amount_paid: string; last_paid: Date | null }>(
+    `SELECT COALESCE(SUM(amount), 0) AS amount_paid, MAX(payment_date) AS last_paid
+     FROM payments WHERE invoice_id = $1`,
+    [before.id]
+  );
+  const amountPaid = parseFloat(totals.rows[0].amount_paid);
+  const total = parseFloat(String(before.total));
+
+  let status: DBInvoice['status'];
+  if (amountPaid >= total) {
+    status = 'paid';
+  } else if (before.status === 'overdue') {
+    status = 'overdue';
+  } else {
+    status = amountPaid > 0 ? 'partially_paid' : 'sent';
+  }
+
+  const updated = await db.query<DBInvoice>(
+    'UPDATE invoices SET status = $2, paid_date = $3 WHERE id = $1 RETURNING *',
+    [before.id, status, status === 'paid' ? totals.rows[0].last_paid : null]
+  );
+
+  // Reminders stop once nothing is owed
+  if (status === 'paid') {
+    await db.query(
+      "UPDATE invoice_reminders SET status = 'cancelled' WHERE invoice_id = $1 AND status = 'queued'",
+      [before.id]
+    );
+  }
+
+  return updated.rows[0];
+}
+
+async function logPayment(db: PoolClient, userId: string, invoiceId: string, action: string, description: string) {
+  await db.query(
+    `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+     VALUES ($1, 'invoice', $2, $3, $4)`,
+    [userId, invoiceId, action, description]
+  );
+}
+
+/**
+ * Record a payment. Anything beyond the balance due settles the invoice and
+ * is credited to the client.
+ */
+export async function recordPayment(
+  db: PoolClient,
+  invoiceId: string,
+  input: PaymentInput,
+  userId: string
+): Promise<{ payment: DBPayment; invoice: DBInvoice }> {
+  const invoice = await lockInvoice(db, invoiceId);
+  const balance = assertPayable(invoice);
+
+  const applied = round(Math.min(input.amount, balance));
+  const overpayment = round(input.amount - applied);
+
+  const payments = await db.query<DBPayment>(
+    `INSERT INTO payments (invoice_id, client_id, amount, overpayment, method, reference, payment_date, notes, recorded_by)
+     VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7::date, CURRENT_DATE), $8, $9)
+     ${RETURNING_PAYMENT}`,
+    [invoiceId, invoice.client_id, applied, overpayment, input.method, input.reference || null,
+     input.paymentDate || null, input.notes || null, userId]
+  );
+  const payment = payments.rows[0];
+
+  if (overpayment > 0) {
+    await db.query(
+      `INSERT INTO client_credits (client_id, amount, payment_id, description)
+       VALUES ($1, $2, $3, $4)`,
+      [invoice.client_id, overpayment, payment.id, `Overpayment on invoice ${invoice.invoice_number}`]
+    );
+  }
+
+  const updated = await refreshInvoiceStatus(db, invoice);
+  await logPayment(
+    db,
+    userId,
+    invoiceId,
+    'payment',
+    `Recorded ${input.method.toUpperCase()} payment of $${round(input.amount).toFixed(2)} on invoice ${invoice.invoice_number}` +
+      (overpayment > 0 ? ` ($${overpayment.toFixed(2)} credited to client)` : '')
+  );
+
+  return { payment, invoice: updated };
+}
+
+/**
+ * Pay an invoice from the client's credit balance: `amount` if given,
+ * otherwise as much of the balance due as the credit covers.
+ */
+export async function applyClientCredit(
+  db: PoolClient,
+  invoiceId: string,
+  amount: number | undefined,
+  userId: string
+): Promise<{ payment: DBPayment; invoice: DBInvoice }> {
+  const invoice = await lockInvoice(db, invoiceId);
+  const balance = assertPayable(invoice);
+  const available = await lockClientCredit(db, invoice.client_id);
+
+  if (available <= 0) {
+    throw errors.badRequest('Client has no credit available');
+  }
+  if (amount !== undefined && amount > available) {
+    throw errors.badRequest(`Only $${available.toFixed(2)} of credit is available`);
+  }
+
+  const applied = round(Math.min(amount ?? balance, balance, available));
+  const payments = await db.query<DBPayment>(
+    `INSERT INTO payments (invoice_id, client_id, amount, method, payment_date, notes, recorded_by)
+     VALUES ($1, $2, $3, 'credit', CURRENT_DATE, 'Applied from client credit', $4)
+     ${RETURNING_PAYMENT}`,
+    [invoiceId, invoice.client_id, applied, userId]
+  );
+  const payment = payments.rows[0];
+
+  await db.query(
+    `INSERT INTO client_credits (client_id, amount, payment_id, description)
+     VALUES ($1, $2, $3, $4)`,
+    [invoice.client_id, -applied, payment.id, `Applied to invoice ${invoice.invoice_number}`]
+  );
+
+  const updated = await refreshInvoiceStatus(db, invoice);
+  await logPayment(
+    db,
+    userId,
+    invoiceId,
+    'payment',
+    `Applied $${applied.toFixed(2)} of client credit to invoice ${invoice.invoice_number}`
+  );
+
+  return { payment, invoice: updated };
+}
+
+/**
+ * Void (delete) a payment. Voiding a credit payment returns the credit; an
+ * overpayment can't be voided once its credit has been spent elsewhere.
+ */
+export async function voidPayment(
+  db: PoolClient,
+  invoiceId: string,
+  paymentId: string,
+  userId: string
+): Promise<DBInvoice> {
+  const invoice = await lockInvoice(db, invoiceId);
+  const available = await lockClientCredit(db, invoice.client_id);
+
+  const payments = await db.query<DBPayment>(
+    'SELECT * FROM payments WHERE id = $1 AND invoice_id = $2',
+    [paymentId, invoiceId]
+  );
+  if (payments.rows.length === 0) {
+    throw errors.notFound('Payment');
+  }
+  const payment = payments.rows[0];
+  await assertNotExported('payment', paymentId, db);
+
+  if (parseFloat(String(payment.overpayment)) > available) {
+    throw errors.conflict('The credit from this payment has already been applied to other invoices');
+  }
+
+  await db.query('DELETE FROM payments WHERE id = $1', [paymentId]);
+
+  const updated = await refreshInvoiceStatus(db, invoice);
+  await logPayment(
+    db,
+    userId,
+    invoiceId,
+    'payment_voided',
+    `Voided ${payment.method.toUpperCase()} payment of $${parseFloat(String(payment.amount)).toFixed(2)} on invoice ${invoice.invoice_number}`
+  );
+
+  return updated;
+}
+
+/** The remaining balance, for settling an invoice in one payment */
+export async function getBalanceDue(db: PoolClient, invoiceId: string): Promise<number> {
+  return balanceOf(await lockInvoice(db, invoiceId));
+}
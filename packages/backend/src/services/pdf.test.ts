@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { query } from '../config/database.js';
+import { CompanyProfile, DocumentData, renderDocumentPdf } from './pdf.js';
+import { renderRevisionPdf } from './estimateRevisions.js';
+import { DBEstimate, DBEstimateRevision, DBLetterhead } from '../types/index.js';
+
+vi.mock('../config/database.js', () => ({ query: vi.fn(), withTransaction: vi.fn() }));
+
+// Dates are printed in local time; pin the zone so the snapshots hold on any machine
+process.env.TZ = 'UTC';
+
+// The same document always renders to the same bytes, so a hash of the output
+// is a golden copy of the layout. When a layout change is intended, look over
+// the new PDFs and update the snapshots with `vitest run -u`.
+const fingerprint = (pdf: Uint8Array) => createHash('sha256').update(pdf).digest('hex');
+
+const COMPANY: CompanyProfile = {
+  name: 'S&G Builders',
+  website: 'sgbuilders.example',
+  email: 'office@sgbuilders.example',
+  phone: '(716) 555-0100',
+  offices: [
+    { id: 'office-1', label: 'Main', street: '200 Delaware Ave', suite: 'Suite 400', city: 'Buffalo', state: 'NY', zip: '14202', isMain: true },
+  ],
+  logo: null,
+};
+
+// 1x1 PNG
+const LETTERHEAD: DBLetterhead = {
+  id: 'letterhead-1',
+  name: 'Standard',
+  data: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
+  created_at: new Date('2026-01-01T00:00:00Z'),
+  updated_at: new Date('2026-01-01T00:00:00Z'),
+};
+
+const CLIENT = { name: 'Harbor Point LLC', street: '1 Canalside Way', suite: null, city: 'Buffalo', state: 'NY', zip: '14203' };
+
+const ESTIMATE: DocumentData = {
+  kind: 'estimate',
+  number: 'EST-2026-0042',
+  title: 'Lobby renovation',
+  description: 'Demolition and rebuild of the ground floor lobby.',
+  client: CLIENT,
+  projectName: 'Harbor Point Tower',
+  dates: [
+    ['Date', new Date('2026-03-02T00:00:00Z')],
+    ['Valid Until', new Date('2026-04-01T00:00:00Z')],
+  ],
+  lineItems: [
+    { description: 'Demolition', quantity: 1, unitPrice: 4500, total: 4500 },
+    { description: 'Porcelain tile, installed (sq ft)', quantity: 850, unitPrice: 12.5, total: 10625 },
+    { description: 'Lighting fixtures', quantity: 12.5, unitPrice: 310, total: 3875 },
+  ],
+  subtotal: 19000,
+  taxRate: 0.08875,
+  taxAmount: 1686.25,
+  taxBreakdown: [
+    { name: 'NY State', rate: 0.04, amount: 760 },
+    { name: 'Erie County', rate: 0.04875, amount: 926.25 },
+  ],
+  total: 20686.25,
+  terms: 'Net 30. Prices hold for 30 days.',
+  updatedAt: new Date('2026-03-02T15:30:00Z'),
+};
+
+const INVOICE: DocumentData = {
+  kind: 'invoice',
+  number: 'INV-2026-0107',
+  title: 'Progress billing #2',
+  client: CLIENT,
+  projectName: 'Harbor Point Tower',
+  dates: [
+    ['Invoice Date', new Date('2026-04-15T00:00:00Z')],
+    ['Due Date', new Date('2026-05-15T00:00:00Z')],
+  ],
+  lineItems: [
+    { description: 'Work completed through April 10', quantity: 1, unitPrice: 48250, total: 48250 },
+    { description: 'Change order 3 - added outlets', quantity: 1, unitPrice: 1200, total: 1200 },
+  ],
+  subtotal: 49450,
+  taxRate: 0,
+  taxAmount: 0,
+  taxExemption: 'ST-124 #88-1234567',
+  total: 49450,
+  notes: 'Thank you for your business.',
+  updatedAt: new Date('2026-04-15T12:00:00Z'),
+};
+
+describe('renderDocumentPdf', () => {
+  it('renders an estimate on plain paper', async () => {
+    const pdf = await renderDocumentPdf(ESTIMATE, COMPANY, null);
+
+    expect(fingerprint(pdf)).toMatchSnapshot();
+  });
+
+  it('renders an estimate on a letterhead', async () => {
+    const pdf = await renderDocumentPdf(ESTIMATE, COMPANY, LETTERHEAD);
+
+    expect(fingerprint(pdf)).toMatchSnapshot();
+    expect(fingerprint(pdf)).not.toBe(fingerprint(await renderDocumentPdf(ESTIMATE, COMPANY, null)));
+  });
+
+  it('renders a tax-exempt invoice', async () => {
+    const pdf = await renderDocumentPdf(INVOICE, COMPANY, null);
+
+    expect(fingerprint(pdf)).toMatchSnapshot();
+  });
+
+  it('continues long documents onto more pages', async () => {
+    const lineItems = Array.from({ length: 60 }, (_, i) => ({
+      description: `Line ${i + 1}`,
+      quantity: 2,
+      unitPrice: 50,
+      total: 100,
+    }));
+    const pdf = await renderDocumentPdf({ ...INVOICE, lineItems, subtotal: 6000, total: 6000 }, COMPANY, null);
+
+    expect((await PDFDocument.load(pdf)).getPageCount()).toBeGreaterThan(1);
+    expect(fingerprint(pdf)).toMatchSnapshot();
+  });
+
+  it('renders the same bytes every time', async () => {
+    const first = await renderDocumentPdf(INVOICE, COMPANY, null);
+    const second = await renderDocumentPdf(INVOICE, COMPANY, null);
+
+    expect(Buffer.from(second).equals(Buffer.from(first))).toBe(true);
+  });
+
+  it('dates the file from the document, not the clock', async () => {
+    const doc = await PDFDocument.load(await renderDocumentPdf(INVOICE, COMPANY, null), { updateMetadata: false });
+
+    expect(doc.getTitle()).toBe('Invoice INV-2026-0107');
+    expect(doc.getCreationDate()).toEqual(INVOICE.updatedAt);
+    expect(doc.getModificationDate()).toEqual(INVOICE.updatedAt);
+  });
+});
+
+describe('renderRevisionPdf', () => {
+  const estimate = { id: 'estimate-1', estimate_number: 'EST-2026-0042' } as DBEstimate;
+  const revision: DBEstimateRevision = {
+    id: 'revision-2',
+    estimate_id: 'estimate-1',
+    revision: 2,
+    title: 'Lobby renovation',
+    description: 'Revised after walkthrough.',
+    subtotal: '19000.00' as unknown as number,
+    tax_rate: '0.0888' as unknown as number,
+    tax_amount: '1686.25' as unknown as number,
+    total: '20686.25' as unknown as number,
+    valid_until: '2026-04-01',
+    terms: 'Net 30.',
+    letterhead_id: null,
+    line_items: ESTIMATE.lineItems,
+    tax_breakdown: [
+      { name: 'NY State', rate: 0.04, taxableAmount: 19000, amount: 760 },
+      { name: 'Erie County', rate: 0.04875, taxableAmount: 19000, amount: 926.25 },
+    ],
+    created_by: 'user-1',
+    created_at: new Date('2026-03-05T14:00:00Z'),
+  };
+
+  beforeEach(() => {
+    vi.mocked(query).mockReset();
+    vi.mocked(query).mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM estimates e')) return [{ ...CLIENT, project_name: 'Harbor Point Tower' }];
+      if (sql.includes('FROM settings')) return [{ value: { ...COMPANY, defaultLetterheadId: 'letterhead-1' } }];
+      if (sql.includes('FROM letterheads')) return [LETTERHEAD];
+      throw new Error(`Unexpected query: ${sql}`);
+    });
+  });
+
+  it('renders a revision as sent, on the default letterhead', async () => {
+    const pdf = await renderRevisionPdf(estimate, revision);
+
+    const doc = await PDFDocument.load(pdf, { updateMetadata: false });
+    expect(doc.getTitle()).toBe('Estimate EST-2026-0042 rev B');
+    expect(fingerprint(pdf)).toMatchSnapshot();
+  });
+
+  it('uses the letterhead saved on the revision', async () => {
+    const pdf = await renderRevisionPdf(estimate, { ...revision, letterhead_id: 'none' });
+
+    expect(vi.mocked(query).mock.calls.some(([sql]) => sql.includes('FROM letterheads'))).toBe(false);
+    expect(fingerprint(pdf)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,748 @@
+import { Response } from 'express';
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFEmbeddedPage,
+  PDFPage,
+  StandardFonts,
+  rgb,
+} from 'pdf-lib';
+import { query } from '../config/database.js';
+import { logger } from '../config/logger.js';
+import { DBLetterhead } from '../types/index.js';
+
+// Estimate and invoice PDFs.
+// Documents are drawn on US Letter with the standard Helvetica fonts, on top of
+// the chosen letterhead template. Output depends only on the document, the
+// company profile and the letterhead: metadata dates come from the document's
+// updated_at, so the same document always renders to the same bytes.
+
+export interface CompanyOffice {
+  id: string;
+  label: string;
+  street: string;
+  suite?: string;
+  city: string;
+  state: string;
+  zip: string;
+  isMain?: boolean;
+}
+
+// Company profile as saved from Admin > Company Settings (settings key 'company')
+export interface CompanyProfile {
+  name: string;
+  website?: string;
+  email?: string;
+  phone?: string;
+  offices?: CompanyOffice[];
+  logo?: string | null;
+  defaultLetterheadId?: string | null;
+}
+
+export interface DocumentParty {
+  name: string;
+  street?: string | null;
+  suite?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+}
+
+export interface DocumentLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface DocumentData {
+  kind: 'estimate' | 'invoice';
+  number: string;
+  title?: string | null;
+  description?: string | null;
+  client: DocumentParty;
+  projectName?: string | null;
+  // Label/date pairs shown under the document number, e.g. ['Due Date', date]
+  dates: Array<[string, Date | null | undefined]>;
+  lineItems: DocumentLineItem[];
+  subtotal: number;
+  taxRate: number | null;
+  taxAmount: number;
+  // One row per named rate when given; otherwise a single tax row at taxRate
+  taxBreakdown?: Array<{ name: string; rate: number; amount: number }>;
+  // Exemption certificate the client was not taxed under, e.g. 'ST-124 #1234'
+  taxExemption?: string | null;
+  total: number;
+  notes?: string | null;
+  terms?: string | null;
+  updatedAt: Date;
+}
+
+export async function getCompanyProfile(): Promise<CompanyProfile> {
+  const rows = await query<{ value: CompanyProfile }>(
+    "SELECT value FROM settings WHERE key = 'company'"
+  );
+  return rows[0]?.value ?? { name: '' };
+}
+
+/**
+ * The letterhead to print on: an explicit choice ('none' for plain paper),
+ * otherwise the company default. A chosen template that no longer exists
+ * falls back to the default.
+ */
+export async function resolveLetterhead(
+  company: CompanyProfile,
+  letterheadId?: string | null
+): Promise<DBLetterhead | null> {
+  if (letterheadId === 'none') return null;
+
+  for (const id of [letterheadId, company.defaultLetterheadId]) {
+    if (!id) continue;
+    const rows = await query<DBLetterhead>('SELECT * FROM letterheads WHERE id = $1', [id]);
+    if (rows[0]) return rows[0];
+  }
+  return null;
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+// Space left clear for a full-page letterhead's own header and footer
+const LETTERHEAD_TOP = 140;
+const LETTERHEAD_BOTTOM = 80;
+
+const TEXT = rgb(0.12, 0.16, 0.23);
+const MUTED = rgb(0.4, 0.45, 0.53);
+const RULE = rgb(0.82, 0.85, 0.89);
+const SHADE = rgb(0.95, 0.96, 0.97);
+
+// Line item table columns: right edges of the numeric columns
+const COL_QTY = MARGIN + CONTENT_WIDTH - 190;
+const COL_PRICE = MARGIN + CONTENT_WIDTH - 95;
+const COL_AMOUNT = MARGIN + CONTENT_WIDTH;
+const DESCRIPTION_WIDTH = COL_QTY - MARGIN - 70;
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const money = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+function formatDate(date: Date): string {
+  return `${MONTHS[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()}`;
+}
+
+function formatQuantity(quantity: number): string {
+  return Number.isInteger(quantity) ? String(quantity) : quantity.toFixed(2);
+}
+
+function decodeDataUrl(dataUrl: string): { mimeType: string; bytes: Buffer } | null {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl);
+  if (!match) return null;
+  return { mimeType: match[1], bytes: Buffer.from(match[2], 'base64') };
+}
+
+function addressLines(party: DocumentParty | CompanyOffice): string[] {
+  const street = [party.street, party.suite].filter(Boolean).join(', ');
+  const stateZip = [party.state, party.zip].filter(Boolean).join(' ');
+  const locality = [party.city, stateZip].filter(Boolean).join(', ');
+  return [street, locality].filter(Boolean);
+}
+
+type Background =
+  | { type: 'page'; page: PDFEmbeddedPage }
+  | { type: 'image'; image: PDFImage; fullPage: boolean };
+
+// Draws the document page by page, tracking the cursor from the top
+class DocumentWriter {
+  private page!: PDFPage;
+  private y = 0;
+  private top = PAGE_HEIGHT - MARGIN;
+  private bottom = MARGIN + 20;
+  private characterSets = new Map<PDFFont, Set<number>>();
+
+  constructor(
+    private doc: PDFDocument,
+    private regular: PDFFont,
+    private bold: PDFFont,
+    private background: Background | null
+  ) {
+    if (background && (background.type === 'page' || background.fullPage)) {
+      this.top = PAGE_HEIGHT - LETTERHEAD_TOP;
+      this.bottom = LETTERHEAD_BOTTOM;
+    } else if (background?.type === 'image') {
+      const bandHeight = PAGE_WIDTH * (background.image.height / background.image.width);
+      this.top = PAGE_HEIGHT - bandHeight - 24;
+    }
+    this.addPage();
+  }
+
+  get hasLetterhead(): boolean {
+    return this.background !== null;
+  }
+
+  addPage(): void {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    const bg = this.background;
+    if (bg?.type === 'page') {
+      this.page.drawPage(bg.page, { x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT });
+    } else if (bg?.type === 'image') {
+      const height = bg.fullPage ? PAGE_HEIGHT : PAGE_WIDTH * (bg.image.height / bg.image.width);
+      this.page.drawImage(bg.image, {
+        x: 0,
+        y: PAGE_HEIGHT - height,
+        width: PAGE_WIDTH,
+        height,
+      });
+    }
+    this.y = this.top;
+  }
+
+  // Start a new page unless `height` more points fit on this one
+  ensureSpace(height: number): boolean {
+    if (this.y - height < this.bottom) {
+      this.addPage();
+      return true;
+    }
+    return false;
+  }
+
+  moveDown(points: number): void {
+    this.y -= points;
+  }
+
+  get cursor(): number {
+    return this.y;
+  }
+
+  set cursor(y: number) {
+    this.y = y;
+  }
+
+  // Replace characters the standard fonts cannot encode (single line of text)
+  clean(text: string, font: PDFFont = this.regular): string {
+    let supported = this.characterSets.get(font);
+    if (!supported) {
+      supported = new Set(font.getCharacterSet());
+      this.characterSets.set(font, supported);
+    }
+    return Array.from(text.replace(/\t/g, '    '))
+      .map((ch) => (supported.has(ch.codePointAt(0)!) ? ch : '?'))
+      .join('');
+  }
+
+  // Word-wrap text (honouring its own line breaks) to `maxWidth`
+  wrap(text: string, size: number, maxWidth: number, font: PDFFont = this.regular): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/).map((p) => this.clean(p, font))) {
+      let line = '';
+      for (const word of paragraph.split(' ')) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= maxWidth || !line) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+        // Break words longer than the whole line
+        while (font.widthOfTextAtSize(line, size) > maxWidth && line.length > 1) {
+          let cut = line.length - 1;
+          while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > maxWidth) cut--;
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(
+    text: string,
+    x: number,
+    options: { size?: number; font?: PDFFont; color?: typeof TEXT; align?: 'left' | 'right'; y?: number } = {}
+  ): void {
+    const size = options.size ?? 10;
+    const font = options.font ?? this.regular;
+    const clean = this.clean(text, font);
+    const left = options.align === 'right' ? x - font.widthOfTextAtSize(clean, size) : x;
+    this.page.drawText(clean, {
+      x: left,
+      y: (options.y ?? this.y) - size,
+      size,
+      font,
+      color: options.color ?? TEXT,
+    });
+  }
+
+  rule(y: number = this.y, x1 = MARGIN, x2 = MARGIN + CONTENT_WIDTH): void {
+    this.page.drawLine({ start: { x: x1, y }, end: { x: x2, y }, thickness: 0.75, color: RULE });
+  }
+
+  shade(height: number): void {
+    this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: CONTENT_WIDTH, height, color: SHADE });
+  }
+
+  image(image: PDFImage, x: number, maxWidth: number, maxHeight: number): number {
+    const scale = Math.min(maxWidth / image.width, maxHeight / image.height, 1);
+    const height = image.height * scale;
+    this.page.drawImage(image, { x, y: this.y - height, width: image.width * scale, height });
+    return height;
+  }
+
+  // Paragraph with a small heading, split across pages as needed
+  section(heading: string, body: string): void {
+    const lines = this.wrap(body, 9.5, CONTENT_WIDTH);
+    this.ensureSpace(30);
+    this.text(heading.toUpperCase(), MARGIN, { size: 8, font: this.bold, color: MUTED });
+    this.moveDown(14);
+    for (const line of lines) {
+      this.ensureSpace(13);
+      this.text(line, MARGIN, { size: 9.5 });
+      this.moveDown(13);
+    }
+    this.moveDown(10);
+  }
+
+  footer(label: string): void {
+    const pages = this.doc.getPages();
+    pages.forEach((page, index) => {
+      const text = this.clean(`${label}  |  Page ${index + 1} of ${pages.length}`);
+      const size = 8;
+      page.drawText(text, {
+        x: (PAGE_WIDTH - this.regular.widthOfTextAtSize(text, size)) / 2,
+        y: 28,
+        size,
+        font: this.regular,
+        color: MUTED,
+      });
+    });
+  }
+}
+
+async function embedImage(doc: PDFDocument, dataUrl: string | null | undefined): Promise<PDFImage | null> {
+  const decoded = dataUrl ? decodeDataUrl(dataUrl) : null;
+  if (!decoded) return null;
+  if (decoded.mimeType === 'image/png') return doc.embedPng(decoded.bytes);
+  if (decoded.mimeType === 'image/jpeg' || decoded.mimeType === 'image/jpg') return doc.embedJpg(decoded.bytes);
+  return null;
+}
+
+// A PDF template is drawn from its first page; images taller than wide are
+// treated as a full page, anything else as a header band across the top
+async function embedLetterhead(doc: PDFDocument, letterhead: DBLetterhead | null): Promise<Background | null> {
+  if (!letterhead) return null;
+  try {
+    const decoded = decodeDataUrl(letterhead.data);
+    if (decoded?.mimeType === 'application/pdf') {
+      const [page] = await doc.embedPdf(decoded.bytes, [0]);
+      return page ? { type: 'page', page } : null;
+    }
+    const image = await embedImage(doc, letterhead.data);
+    return image ? { type: 'image', image, fullPage: image.height >= image.width } : null;
+  } catch (error) {
+    logger.warn(`Letterhead ${letterhead.id} could not be embedded: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/** Render an estimate or invoice to PDF bytes */
+export async function renderDocumentPdf(
+  data: DocumentData,
+  company: CompanyProfile,
+  letterhead: DBLetterhead | null
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  const heading = data.kind === 'estimate' ? 'Estimate' : 'Invoice';
+  doc.setTitle(`${heading} ${data.number}`);
+  doc.setAuthor(company.name);
+  doc.setSubject(data.title || `${heading} for ${data.client.name}`);
+  doc.setCreator('S&G Portal');
+  doc.setProducer('S&G Portal');
+  doc.setCreationDate(data.updatedAt);
+  doc.setModificationDate(data.updatedAt);
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new DocumentWriter(doc, regular, bold, await embedLetterhead(doc, letterhead));
+  const mainOffice = (company.offices || []).find((o) => o.isMain) || company.offices?.[0];
+
+  // Plain paper gets a header from the company logo and name
+  if (!writer.hasLetterhead) {
+    let logo: PDFImage | null = null;
+    try {
+      logo = await embedImage(doc, company.logo);
+    } catch (error) {
+      logger.warn(`Company logo could not be embedded: ${(error as Error).message}`);
+    }
+    const logoHeight = logo ? writer.image(logo, MARGIN, 160, 56) : 0;
+    if (company.name) {
+      writer.text(company.name, MARGIN + CONTENT_WIDTH, { size: 16, font: bold, align: 'right' });
+    }
+    writer.moveDown(Math.max(logoHeight, 20) + 20);
+    writer.rule();
+    writer.moveDown(20);
+  }
+
+  // Title block: document type and number, then its dates
+  const titleTop = writer.cursor;
+  writer.text(heading.toUpperCase(), MARGIN, { size: 22, font: bold });
+  writer.moveDown(28);
+  writer.text(data.number, MARGIN, { size: 11, color: MUTED });
+
+  let metaY = titleTop;
+  const metaRows = data.dates.flatMap(([label, date]): Array<[string, string]> =>
+    date ? [[label, formatDate(date)]] : []
+  );
+  if (data.projectName) metaRows.push(['Project', data.projectName]);
+  for (const [label, value] of metaRows) {
+    writer.text(`${label}:`, COL_PRICE - 10, { size: 9.5, color: MUTED, align: 'right', y: metaY });
+    writer.text(value, COL_AMOUNT, { size: 9.5, align: 'right', y: metaY });
+    metaY -= 14;
+  }
+  writer.cursor = Math.min(writer.cursor - 14, metaY);
+  writer.moveDown(22);
+
+  // From (company and main office) and the client
+  const partiesTop = writer.cursor;
+  const fromLines = [
+    company.name,
+    ...(mainOffice ? addressLines(mainOffice) : []),
+    ...[company.phone, company.email, company.website].filter((v): v is string => !!v),
+  ].filter(Boolean);
+  const toLines = [data.client.name, ...addressLines(data.client)];
+  const columns: Array<[string, string[], number]> = [
+    ['From', fromLines, MARGIN],
+    [data.kind === 'estimate' ? 'Prepared For' : 'Bill To', toLines, MARGIN + CONTENT_WIDTH / 2],
+  ];
+  let partiesBottom = partiesTop;
+  for (const [label, lines, x] of columns) {
+    writer.cursor = partiesTop;
+    writer.text(label.toUpperCase(), x, { size: 8, font: bold, color: MUTED });
+    writer.moveDown(14);
+    lines.forEach((line, index) => {
+      writer.text(line, x, { size: 10, font: index === 0 ? bold : regular });
+      writer.moveDown(13);
+    });
+    partiesBottom = Math.min(partiesBottom, writer.cursor);
+  }
+  writer.cursor = partiesBottom;
+  writer.moveDown(16);
+
+  if (data.title) {
+    writer.ensureSpace(20);
+    writer.text(data.title, MARGIN, { size: 12, font: bold });
+    writer.moveDown(18);
+  }
+  if (data.description) {
+    for (const line of writer.wrap(data.description, 9.5, CONTENT_WIDTH)) {
+      writer.ensureSpace(13);
+      writer.text(line, MARGIN, { size: 9.5 });
+      writer.moveDown(13);
+    }
+    writer.moveDown(8);
+  }
+
+  // Line items, repeating the header row on each page
+  const drawTableHeader = () => {
+    writer.shade(20);
+    writer.moveDown(6);
+    writer.text('DESCRIPTION', MARGIN + 6, { size: 8, font: bold, color: MUTED });
+    writer.text('QTY', COL_QTY, { size: 8, font: bold, color: MUTED, align: 'right' });
+    writer.text('UNIT PRICE', COL_PRICE, { size: 8, font: bold, color: MUTED, align: 'right' });
+    writer.text('AMOUNT', COL_AMOUNT - 6, { size: 8, font: bold, color: MUTED, align: 'right' });
+    writer.moveDown(20);
+  };
+  writer.ensureSpace(60);
+  drawTableHeader();
+  for (const item of data.lineItems) {
+    const lines = writer.wrap(item.description, 10, DESCRIPTION_WIDTH);
+    if (writer.ensureSpace(lines.length * 13 + 10)) {
+      drawTableHeader();
+    }
+    writer.text(formatQuantity(item.quantity), COL_QTY, { align: 'right' });
+    writer.text(money.format(item.unitPrice), COL_PRICE, { align: 'right' });
+    writer.text(money.format(item.total), COL_AMOUNT - 6, { align: 'right' });
+    for (const line of lines) {
+      writer.text(line, MARGIN + 6);
+      writer.moveDown(13);
+    }
+    writer.moveDown(5);
+    writer.rule(writer.cursor + 2);
+  }
+  writer.moveDown(10);
+
+  // Totals
+  const totals: Array<[string, string, boolean]> = [
+    ['Subtotal', money.format(data.subtotal), false],
+  ];
+  const percent = (rate: number) => ` (${parseFloat((rate * 100).toFixed(4))}%)`;
+  if (data.taxExemption) {
+    totals.push([`Tax exempt: ${data.taxExemption}`, money.format(0), false]);
+  } else if (data.taxBreakdown && data.taxBreakdown.length > 0) {
+    data.taxBreakdown.forEach((tax) => totals.push([`${tax.name}${percent(tax.rate)}`, money.format(tax.amount), false]));
+  } else if (data.taxRate || data.taxAmount) {
+    totals.push([`Tax${data.taxRate ? percent(data.taxRate) : ''}`, money.format(data.taxAmount), false]);
+  }
+  totals.push([data.kind === 'invoice' ? 'Amount Due' : 'Total', money.format(data.total), true]);
+  writer.ensureSpace(totals.length * 18 + 10);
+  totals.forEach(([label, value, emphasis]) => {
+    if (emphasis) {
+      writer.rule(writer.cursor + 2, COL_QTY, COL_AMOUNT);
+      writer.moveDown(6);
+    }
+    const font = emphasis ? bold : regular;
+    const size = emphasis ? 12 : 10;
+    writer.text(label, COL_PRICE, { size, font, color: emphasis ? TEXT : MUTED, align: 'right' });
+    writer.text(value, COL_AMOUNT - 6, { size, font, align: 'right' });
+    writer.moveDown(size + 6);
+  });
+  writer.moveDown(16);
+
+  if (data.notes) writer.section('Notes', data.notes);
+  if (data.terms) writer.section('Terms & Conditions', data.terms);
+
+  writer.footer(`${heading} ${data.number}`);
+
+  return doc.save();
+}
+
+// ============================================================================
+// Pay applications
+// ============================================================================
+
+export interface PayApplicationRow {
+  itemNumber: string;
+  description: string;
+  scheduledValue: number;
+  previousWork: number;
+  workThisPeriod: number;
+  storedMaterials: number;
+  completedAndStored: number;
+  percentComplete: number;
+  balanceToFinish: number;
+  retainage: number;
+}
+
+export interface PayApplicationDocumentData {
+  applicationNumber: number;
+  applicationDate: Date;
+  periodTo: Date;
+  // Estimate the contract was agreed on
+  contractNumber: string;
+  client: DocumentParty;
+  projectName?: string | null;
+  retainagePercent: number;
+  rows: PayApplicationRow[];
+  summary: {
+    originalContractSum: number;
+    netChangeByChangeOrders: number;
+    contractSumToDate: number;
+    totalCompletedAndStored: number;
+    retainageOnCompletedWork: number;
+    retainageOnStoredMaterials: number;
+    totalRetainage: number;
+    totalEarnedLessRetainage: number;
+    lessPreviousCertificates: number;
+    currentPaymentDue: number;
+    balanceToFinishIncludingRetainage: number;
+  };
+  updatedAt: Date;
+}
+
+// Continuation sheet columns C to I: right edges, at 6.5pt without the $ sign
+const SHEET_ITEM_WIDTH = 20;
+const SHEET_COLUMNS = [190, 242, 294, 344, 396, 424, 474, 512].map((x) => MARGIN + x);
+const sheetNumber = new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Render a pay application: the G702-style application and certificate for
+ * payment on the first page, then the G703-style continuation sheet. Always
+ * on plain paper, since the continuation sheet needs the whole page width.
+ */
+export async function renderPayApplicationPdf(
+  data: PayApplicationDocumentData,
+  company: CompanyProfile
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  const label = `Pay Application #${data.applicationNumber}`;
+  doc.setTitle(`${label} - ${data.contractNumber}`);
+  doc.setAuthor(company.name);
+  doc.setSubject(`${label} for ${data.client.name}`);
+  doc.setCreator('S&G Portal');
+  doc.setProducer('S&G Portal');
+  doc.setCreationDate(data.updatedAt);
+  doc.setModificationDate(data.updatedAt);
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new DocumentWriter(doc, regular, bold, null);
+  const mainOffice = (company.offices || []).find((o) => o.isMain) || company.offices?.[0];
+  const { summary } = data;
+
+  // G702: parties and dates
+  writer.text('APPLICATION AND CERTIFICATE FOR PAYMENT', MARGIN, { size: 15, font: bold });
+  writer.moveDown(20);
+  writer.text(`${label}  |  Contract ${data.contractNumber}`, MARGIN, { size: 10, color: MUTED });
+  writer.moveDown(28);
+
+  const partiesTop = writer.cursor;
+  const columns: Array<[string, string[], number]> = [
+    ['To Owner', [data.client.name, ...addressLines(data.client)], MARGIN],
+    ['From Contractor', [company.name, ...(mainOffice ? addressLines(mainOffice) : [])].filter(Boolean), MARGIN + CONTENT_WIDTH / 3],
+  ];
+  let partiesBottom = partiesTop;
+  for (const [heading, lines, x] of columns) {
+    writer.cursor = partiesTop;
+    writer.text(heading.toUpperCase(), x, { size: 8, font: bold, color: MUTED });
+    writer.moveDown(14);
+    lines.forEach((line, index) => {
+      writer.text(line, x, { size: 10, font: index === 0 ? bold : regular });
+      writer.moveDown(13);
+    });
+    partiesBottom = Math.min(partiesBottom, writer.cursor);
+  }
+  let metaY = partiesTop;
+  const metaRows: Array<[string, string]> = [
+    ['Application No', String(data.applicationNumber)],
+    ['Application Date', formatDate(data.applicationDate)],
+    ['Period To', formatDate(data.periodTo)],
+  ];
+  if (data.projectName) metaRows.push(['Project', data.projectName]);
+  for (const [name, value] of metaRows) {
+    writer.text(`${name}:`, COL_PRICE - 10, { size: 9.5, color: MUTED, align: 'right', y: metaY });
+    writer.text(value, COL_AMOUNT, { size: 9.5, align: 'right', y: metaY });
+    metaY -= 14;
+  }
+  writer.cursor = Math.min(partiesBottom, metaY);
+  writer.moveDown(24);
+
+  // G702 lines 1 to 9
+  const percent = `${parseFloat(data.retainagePercent.toFixed(2))}%`;
+  const certificate: Array<[string, number | null, boolean]> = [
+    ['1. Original contract sum', summary.originalContractSum, false],
+    ['2. Net change by change orders', summary.netChangeByChangeOrders, false],
+    ['3. Contract sum to date (line 1 + 2)', summary.contractSumToDate, false],
+    ['4. Total completed and stored to date (column G)', summary.totalCompletedAndStored, false],
+    ['5. Retainage:', null, false],
+    [`     a. ${percent} of completed work`, summary.retainageOnCompletedWork, false],
+    [`     b. ${percent} of stored material`, summary.retainageOnStoredMaterials, false],
+    ['     Total retainage', summary.totalRetainage, false],
+    ['6. Total earned less retainage (line 4 less line 5)', summary.totalEarnedLessRetainage, false],
+    ['7. Less previous certificates for payment', summary.lessPreviousCertificates, false],
+    ['8. Current payment due', summary.currentPaymentDue, true],
+    ['9. Balance to finish, including retainage (line 3 less line 6)', summary.balanceToFinishIncludingRetainage, false],
+  ];
+  writer.shade(20);
+  writer.moveDown(6);
+  writer.text('CONTRACTOR\'S APPLICATION FOR PAYMENT', MARGIN + 6, { size: 8, font: bold, color: MUTED });
+  writer.moveDown(22);
+  for (const [text, amount, emphasis] of certificate) {
+    const font = emphasis ? bold : regular;
+    const size = emphasis ? 11.5 : 10;
+    if (emphasis) writer.rule(writer.cursor + 3);
+    writer.text(text, MARGIN + 6, { size, font });
+    if (amount !== null) writer.text(money.format(amount), COL_AMOUNT - 6, { size, font, align: 'right' });
+    writer.moveDown(size + 8);
+    if (emphasis) writer.rule(writer.cursor + 4);
+  }
+  writer.moveDown(30);
+
+  // Signature block
+  const signatureWidth = CONTENT_WIDTH / 2 - 20;
+  for (const [index, heading] of ['Contractor', 'Owner / Architect certification'].entries()) {
+    const x = MARGIN + index * (CONTENT_WIDTH / 2 + 20);
+    writer.rule(writer.cursor, x, x + signatureWidth);
+    writer.text(heading, x, { size: 8, color: MUTED, y: writer.cursor - 4 });
+    writer.text('Date', x + signatureWidth, { size: 8, color: MUTED, align: 'right', y: writer.cursor - 4 });
+  }
+
+  // G703: continuation sheet, repeating the header on each page
+  writer.addPage();
+  writer.text('CONTINUATION SHEET', MARGIN, { size: 13, font: bold });
+  writer.text(`${label}  |  Period to ${formatDate(data.periodTo)}`, COL_AMOUNT, { size: 9, color: MUTED, align: 'right' });
+  writer.moveDown(26);
+
+  const headers: Array<[string, string, string]> = [
+    ['C', 'SCHEDULED', 'VALUE'],
+    ['D', 'PREVIOUS', 'WORK'],
+    ['E', 'WORK THIS', 'PERIOD'],
+    ['F', 'MATERIALS', 'STORED'],
+    ['G', 'COMPLETED', '& STORED'],
+    ['', '%', '(G / C)'],
+    ['H', 'BALANCE', 'TO FINISH'],
+    ['I', 'RETAIN-', 'AGE'],
+  ];
+  const drawSheetHeader = () => {
+    writer.shade(34);
+    writer.moveDown(5);
+    writer.text('A', MARGIN + 3, { size: 6, font: bold, color: MUTED });
+    writer.text('B  DESCRIPTION OF WORK', MARGIN + SHEET_ITEM_WIDTH, { size: 6, font: bold, color: MUTED });
+    headers.forEach(([letter, first, second], i) => {
+      const x = SHEET_COLUMNS[i] - 2;
+      writer.text(`${letter} ${first}`.trim(), x, { size: 6, font: bold, color: MUTED, align: 'right' });
+      writer.text(second, x, { size: 6, font: bold, color: MUTED, align: 'right', y: writer.cursor - 8 });
+    });
+    writer.moveDown(34);
+  };
+  const drawSheetRow = (item: string, description: string, values: string[], font: PDFFont) => {
+    const lines = writer.wrap(description, 6.5, SHEET_COLUMNS[0] - MARGIN - SHEET_ITEM_WIDTH - 54, font);
+    if (writer.ensureSpace(lines.length * 9 + 6)) {
+      drawSheetHeader();
+    }
+    writer.text(item, MARGIN + 3, { size: 6.5, font });
+    values.forEach((value, i) => writer.text(value, SHEET_COLUMNS[i] - 2, { size: 6.5, font, align: 'right' }));
+    for (const line of lines) {
+      writer.text(line, MARGIN + SHEET_ITEM_WIDTH, { size: 6.5, font });
+      writer.moveDown(9);
+    }
+    writer.moveDown(3);
+    writer.rule(writer.cursor + 2);
+  };
+  const sheetValues = (row: Omit<PayApplicationRow, 'itemNumber' | 'description'>) => [
+    sheetNumber.format(row.scheduledValue),
+    sheetNumber.format(row.previousWork),
+    sheetNumber.format(row.workThisPeriod),
+    sheetNumber.format(row.storedMaterials),
+    sheetNumber.format(row.completedAndStored),
+    `${(row.percentComplete * 100).toFixed(1)}%`,
+    sheetNumber.format(row.balanceToFinish),
+    sheetNumber.format(row.retainage),
+  ];
+
+  drawSheetHeader();
+  for (const row of data.rows) {
+    drawSheetRow(row.itemNumber, row.description, sheetValues(row), regular);
+  }
+  const sum = (key: keyof Omit<PayApplicationRow, 'itemNumber' | 'description' | 'percentComplete'>) =>
+    data.rows.reduce((total, row) => total + row[key], 0);
+  drawSheetRow('', 'GRAND TOTAL', sheetValues({
+    scheduledValue: sum('scheduledValue'),
+    previousWork: sum('previousWork'),
+    workThisPeriod: sum('workThisPeriod'),
+    storedMaterials: sum('storedMaterials'),
+    completedAndStored: sum('completedAndStored'),
+    percentComplete: summary.contractSumToDate ? summary.totalCompletedAndStored / summary.contractSumToDate : 0,
+    balanceToFinish: sum('balanceToFinish'),
+    retainage: sum('retainage'),
+  }), bold);
+
+  writer.footer(`${label}  |  ${data.contractNumber}`);
+
+  return doc.save();
+}
+
+// Send PDF bytes for viewing in the browser (the filename is used when saved)
+export function sendPdf(res: Response, pdf: Uint8Array, filename: string): void {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `inline; filename="${filename.replace(/"/g, '')}"`);
+  res.setHeader('Content-Length', pdf.length);
+  res.end(Buffer.from(pdf));
+}
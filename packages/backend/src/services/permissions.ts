@@ -0,0 +1,203 @@
+import { query } from '../config/database.js';
+
+// Permission resolution for role-based access control.
+// A user's permissions are the union of their assigned role, their position's
+// role and their department's default role, plus any per-user overrides. The
+// widest record scope among those roles decides which records they can see.
+// Results are cached briefly since every authenticated request resolves them.
+
+// Every permission id a role or override may reference (Permission in @sg-portal/shared)
+export const PERMISSIONS = [
+  'dashboard:view', 'dashboard:edit',
+  'customers:view', 'customers:create', 'customers:edit', 'customers:delete',
+  'sales:view', 'sales:create', 'sales:edit', 'sales:delete',
+  'projects:view', 'projects:create', 'projects:edit', 'projects:delete', 'projects:costs',
+  'projects:time', 'projects:timesheets', 'projects:change_orders',
+  'tasks:view', 'tasks:create', 'tasks:edit', 'tasks:delete',
+  'estimating:view', 'estimating:create', 'estimating:edit', 'estimating:delete', 'estimating:approve',
+  'estimating:costs',
+  'accounting:view', 'accounting:create', 'accounting:edit', 'accounting:delete', 'accounting:approve',
+  'accounting:payments',
+  'admin:view', 'admin:users', 'admin:roles', 'admin:departments', 'admin:company',
+  'developer:view', 'developer:manage',
+] as const;
+
+export type PermissionId = (typeof PERMISSIONS)[number];
+
+export interface PermissionOverride {
+  permission: string;
+  granted: boolean;
+}
+
+export type RoleSourceType = 'assigned' | 'position' | 'department' | 'default';
+
+// A role contributing to a user's permissions, and why the user holds it
+export interface RoleSource {
+  source: RoleSourceType;
+  roleId: string;
+  // Position or department id for org chart sources
+  unitId?: string;
+}
+
+export interface OrgPlacement {
+  departmentId: string | null;
+  positionId: string | null;
+  // Portal user id (Admin > Users) used as sales rep / owner id on records
+  userId: string | null;
+  officeId: string | null;
+  reportsToPositionId: string | null;
+  supervisorIds: string[];
+}
+
+export interface DBOrgPlacement {
+  email: string;
+  department_id: string | null;
+  position_id: string | null;
+  portal_user_id: string | null;
+  office_id: string | null;
+  reports_to_position_id: string | null;
+  supervisor_ids: string[];
+}
+
+// Record visibility a role grants, narrowest first (RecordScope in @sg-portal/shared)
+export const RECORD_SCOPES = ['own', 'team', 'office', 'all'] as const;
+
+export type RecordScope = (typeof RECORD_SCOPES)[number];
+
+export interface ResolvedAccess {
+  // Primary role: the assignment, else the position's, department's or fallback role
+  roleId: string;
+  // True when roleId comes from an explicit assignment rather than the fallback
+  assigned: boolean;
+  placement: OrgPlacement;
+  sources: RoleSource[];
+  overrides: PermissionOverride[];
+  permissions: string[];
+  recordScope: RecordScope;
+}
+
+// Role for users without an assignment, from their legacy users.role / token role claim
+const LEGACY_ROLE_IDS: Record<string, string> = {
+  admin: 'role-admin',
+  manager: 'role-manager',
+  estimator: 'role-staff',
+  accountant: 'role-staff',
+  project_manager: 'role-staff',
+  developer: 'role-staff',
+  viewer: 'role-viewer',
+};
+
+export const DEFAULT_ROLE_ID = 'role-viewer';
+
+const CACHE_TTL_MS = 60 * 1000;
+const cache = new Map<string, { access: ResolvedAccess; expiresAt: number }>();
+
+export function mapPlacement(p: DBOrgPlacement | undefined): OrgPlacement {
+  return {
+    departmentId: p?.department_id ?? null,
+    positionId: p?.position_id ?? null,
+    userId: p?.portal_user_id ?? null,
+    officeId: p?.office_id ?? null,
+    reportsToPositionId: p?.reports_to_position_id ?? null,
+    supervisorIds: p?.supervisor_ids ?? [],
+  };
+}
+
+// The user's portal user id (Admin > Users), which tasks, leads and deals are
+// assigned to, or null if they haven't been placed yet
+export async function resolvePortalUserId(email: string): Promise<string | null> {
+  const rows = await query<DBOrgPlacement>('SELECT * FROM user_org_placements WHERE email = $1', [email.toLowerCase()]);
+  return mapPlacement(rows[0]).userId;
+}
+
+// Widest of the given scopes ('all' beats 'office' beats 'team' beats 'own')
+export function widestScope(scopes: RecordScope[]): RecordScope {
+  return scopes.reduce<RecordScope>(
+    (widest, scope) => (RECORD_SCOPES.indexOf(scope) > RECORD_SCOPES.indexOf(widest) ? scope : widest),
+    'own'
+  );
+}
+
+export function fallbackRoleId(legacyRoles: string[]): string {
+  const match = legacyRoles.find((role) => LEGACY_ROLE_IDS[role]);
+  return match ? LEGACY_ROLE_IDS[match] : DEFAULT_ROLE_ID;
+}
+
+// Role permissions with grants added and revocations removed
+export function applyOverrides(rolePermissions: string[], overrides: PermissionOverride[]): string[] {
+  const effective = new Set(rolePermissions);
+  for (const override of overrides) {
+    if (override.granted) {
+      effective.add(override.permission);
+    } else {
+      effective.delete(override.permission);
+    }
+  }
+  return Array.from(effective).sort();
+}
+
+/**
+ * Resolve a user's current roles and permissions by email. `legacyRoles` picks
+ * the role when neither an assignment nor their position or department gives one.
+ */
+export async function resolveAccess(email: string, legacyRoles: string[] = []): Promise<ResolvedAccess> {
+  const key = email.toLowerCase();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.access;
+  }
+
+  const [assignments, placements, overrides] = await Promise.all([
+    query<{ role_id: string }>('SELECT role_id FROM user_role_assignments WHERE email = $1', [key]),
+    query<DBOrgPlacement>('SELECT * FROM user_org_placements WHERE email = $1', [key]),
+    query<PermissionOverride>(
+      'SELECT permission, granted FROM user_permission_overrides WHERE email = $1 ORDER BY permission',
+      [key]
+    ),
+  ]);
+  const placement = mapPlacement(placements[0]);
+
+  const sources: RoleSource[] = [];
+  if (assignments[0]) {
+    sources.push({ source: 'assigned', roleId: assignments[0].role_id });
+  }
+  if (placement.departmentId || placement.positionId) {
+    const unitRoles = await query<{ unit_type: 'department' | 'position'; unit_id: string; role_id: string }>(
+      `SELECT unit_type, unit_id, role_id FROM org_unit_roles
+       WHERE (unit_type = 'position' AND unit_id = $1) OR (unit_type = 'department' AND unit_id = $2)
+       ORDER BY unit_type DESC`,
+      [placement.positionId, placement.departmentId]
+    );
+    unitRoles.forEach((u) => sources.push({ source: u.unit_type, roleId: u.role_id, unitId: u.unit_id }));
+  }
+  // Nothing assigned anywhere: the legacy-role default
+  if (sources.length === 0) {
+    sources.push({ source: 'default', roleId: fallbackRoleId(legacyRoles) });
+  }
+
+  const roles = await query<{ permissions: string[]; record_scope: RecordScope }>(
+    'SELECT permissions, record_scope FROM roles WHERE id = ANY($1)',
+    [sources.map((s) => s.roleId)]
+  );
+
+  const access: ResolvedAccess = {
+    roleId: sources[0].roleId,
+    assigned: assignments.length > 0,
+    placement,
+    sources,
+    overrides,
+    permissions: applyOverrides(roles.flatMap((r) => r.permissions), overrides),
+    recordScope: roles.length > 0 ? widestScope(roles.map((r) => r.record_scope)) : 'own',
+  };
+  cache.set(key, { access, expiresAt: Date.now() + CACHE_TTL_MS });
+  return access;
+}
+
+// Drop cached permissions for one user, or for everyone after a role changes
+export function invalidateAccess(email?: string): void {
+  if (email) {
+    cache.delete(email.toLowerCase());
+  } else {
+    cache.clear();
+  }
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildSheets, isOnApplication, ScheduleData } from './progressBilling.js';
+import { DBPayApplication, DBScheduleOfValuesLine } from '../types/index.js';
+
+vi.mock('../config/database.js', () => ({ query: vi.fn(), withTransaction: vi.fn() }));
+
+const SCHEDULED = new Date('2026-03-01T12:00:00Z');
+
+const line = (
+  id: string,
+  description: string,
+  scheduledValue: number,
+  changeOrder?: { id: string; createdAt: string }
+): DBScheduleOfValuesLine => ({
+  id,
+  schedule_id: 'schedule-1',
+  item_number: id,
+  description,
+  scheduled_value: scheduledValue,
+  taxable: true,
+  sort_order: Number(id),
+  change_order_id: changeOrder?.id ?? null,
+  created_at: changeOrder ? new Date(changeOrder.createdAt) : SCHEDULED,
+});
+
+// Per line: [work this period, materials presently stored]
+const application = (
+  number: number,
+  retainagePercent: number,
+  invoicedAt: string | null,
+  entries: Record<string, [number, number]>
+): ScheduleData['applications'][number] => ({
+  id: `application-${number}`,
+  schedule_id: 'schedule-1',
+  application_number: number,
+  application_date: `2026-0${number + 2}-30`,
+  period_to: `2026-0${number + 2}-30`,
+  retainage_percent: retainagePercent,
+  status: invoicedAt ? 'invoiced' : 'draft',
+  invoice_id: invoicedAt ? `invoice-${number}` : null,
+  amount_due: null,
+  notes: null,
+  invoiced_at: invoicedAt ? new Date(invoicedAt) : null,
+  created_by: 'user-1',
+  created_at: SCHEDULED,
+  updated_at: SCHEDULED,
+  invoice_number: invoicedAt ? `INV-10${number}` : null,
+  lines: Object.entries(entries).map(([lineId, [work, stored]]) => ({
+    pay_application_id: `application-${number}`,
+    line_id: lineId,
+    work_this_period: work,
+    stored_materials: stored,
+  })),
+});
+
+const SITEWORK = line('1', 'Sitework', 20000);
+const FRAMING = line('2', 'Framing', 50000);
+const FINISHES = line('3', 'Finishes', 30000);
+// Change order approved after application 1 was invoiced
+const OUTLETS = line('4', 'CO 1 - Added outlets', 4000, { id: 'co-1', createdAt: '2026-04-10T15:00:00Z' });
+
+// A $100,000 contract at 10% retainage, then 5% once the owner agrees to reduce it
+const SCHEDULE: ScheduleData = {
+  schedule: {
+    id: 'schedule-1',
+    estimate_id: 'estimate-1',
+    revision_id: 'revision-1',
+    original_contract_sum: 100000,
+    retainage_percent: 10,
+    created_by: 'user-1',
+    created_at: SCHEDULED,
+    updated_at: SCHEDULED,
+    estimate_number: 'EST-2026-0042',
+    estimate_title: 'Harbor Point Tower',
+    client_id: 'company-1',
+    client_name: 'Harbor Point LLC',
+    project_id: 'project-1',
+    project_name: 'Harbor Point Tower',
+  },
+  lines: [SITEWORK, FRAMING, FINISHES, OUTLETS],
+  applications: [
+    // Lumber for the framing delivered and stored on site
+    application(1, 10, '2026-04-02T14:00:00Z', { 1: [10000, 0], 2: [5000, 8000] }),
+    // 5,000 of the lumber installed; 3,000 still stored
+    application(2, 10, '2026-05-02T14:00:00Z', { 1: [10000, 0], 2: [20000, 3000], 4: [1000, 0] }),
+    // The rest of the lumber installed, retainage reduced to 5%
+    application(3, 5, null, { 2: [3000, 0] }),
+  ],
+};
+
+// Only the figures a row computes
+const figures = (row: ReturnType<typeof buildSheets>[number]['rows'][number]) => ({
+  line: row.itemNumber,
+  previousWork: row.previousWork,
+  workThisPeriod: row.workThisPeriod,
+  storedMaterials: row.storedMaterials,
+  completedAndStored: row.completedAndStored,
+  balanceToFinish: row.balanceToFinish,
+  retainage: row.retainage,
+  billedThisPeriod: row.billedThisPeriod,
+});
+
+describe('buildSheets', () => {
+  const [first, second, third] = buildSheets(SCHEDULE);
+
+  it('holds retainage on completed work and on stored materials', () => {
+    expect(first.rows.map(figures)).toEqual([
+      { line: '1', previousWork: 0, workThisPeriod: 10000, storedMaterials: 0, completedAndStored: 10000, balanceToFinish: 10000, retainage: 1000, billedThisPeriod: 10000 },
+      { line: '2', previousWork: 0, workThisPeriod: 5000, storedMaterials: 8000, completedAndStored: 13000, balanceToFinish: 37000, retainage: 1300, billedThisPeriod: 13000 },
+      { line: '3', previousWork: 0, workThisPeriod: 0, storedMaterials: 0, completedAndStored: 0, balanceToFinish: 30000, retainage: 0, billedThisPeriod: 0 },
+    ]);
+    expect(first.rows[1].percentComplete).toBeCloseTo(0.26);
+    expect(first.summary).toEqual({
+      originalContractSum: 100000,
+      netChangeByChangeOrders: 0,
+      contractSumToDate: 100000,
+      totalCompletedAndStored: 23000,
+      retainageOnCompletedWork: 1500,
+      retainageOnStoredMaterials: 800,
+      totalRetainage: 2300,
+      totalEarnedLessRetainage: 20700,
+      lessPreviousCertificates: 0,
+      currentPaymentDue: 20700,
+      balanceToFinishIncludingRetainage: 79300,
+      retainageThisPeriod: 2300,
+    });
+  });
+
+  it('bills only the stored materials added since the last application', () => {
+    // 20,000 of work, 5,000 of it from lumber already billed as stored
+    expect(figures(second.rows[1])).toEqual({
+      line: '2',
+      previousWork: 5000,
+      workThisPeriod: 20000,
+      storedMaterials: 3000,
+      completedAndStored: 28000,
+      balanceToFinish: 22000,
+      retainage: 2800,
+      billedThisPeriod: 15000,
+    });
+    // Installing the last of it bills nothing more
+    expect(figures(third.rows[1])).toMatchObject({ workThisPeriod: 3000, storedMaterials: 0, completedAndStored: 28000, billedThisPeriod: 0 });
+  });
+
+  it('adds a change order line from the first application open after it was approved', () => {
+    expect(first.rows.map((r) => r.itemNumber)).toEqual(['1', '2', '3']);
+    expect(second.rows.map((r) => r.itemNumber)).toEqual(['1', '2', '3', '4']);
+    expect(figures(second.rows[3])).toEqual({
+      line: '4',
+      previousWork: 0,
+      workThisPeriod: 1000,
+      storedMaterials: 0,
+      completedAndStored: 1000,
+      balanceToFinish: 3000,
+      retainage: 100,
+      billedThisPeriod: 1000,
+    });
+    expect(second.summary).toMatchObject({
+      originalContractSum: 100000,
+      netChangeByChangeOrders: 4000,
+      contractSumToDate: 104000,
+      balanceToFinishIncludingRetainage: 59900,
+    });
+  });
+
+  it('certifies the work billed this period less the change in retainage', () => {
+    const billed = second.rows.reduce((sum, r) => sum + r.billedThisPeriod, 0);
+
+    expect(billed).toBe(26000);
+    expect(second.summary).toMatchObject({
+      totalCompletedAndStored: 49000,
+      retainageOnCompletedWork: 4600,
+      retainageOnStoredMaterials: 300,
+      totalRetainage: 4900,
+      totalEarnedLessRetainage: 44100,
+      lessPreviousCertificates: 20700,
+      retainageThisPeriod: 2600,
+      currentPaymentDue: 23400,
+    });
+  });
+
+  it('releases retainage when the percentage is reduced', () => {
+    expect(third.rows.map((r) => r.retainage)).toEqual([1000, 1400, 0, 50]);
+    expect(third.summary).toMatchObject({
+      totalCompletedAndStored: 49000,
+      totalRetainage: 2450,
+      retainageThisPeriod: -2450,
+      lessPreviousCertificates: 44100,
+      currentPaymentDue: 2450,
+    });
+  });
+
+  it('carries stored materials that stay on site without billing them again', () => {
+    const [, carried] = buildSheets({
+      ...SCHEDULE,
+      lines: [FRAMING],
+      applications: [
+        application(1, 10, '2026-04-02T14:00:00Z', { 2: [0, 8000] }),
+        application(2, 10, null, { 2: [0, 8000] }),
+      ],
+    });
+
+    expect(figures(carried.rows[0])).toEqual({
+      line: '2',
+      previousWork: 0,
+      workThisPeriod: 0,
+      storedMaterials: 8000,
+      completedAndStored: 8000,
+      balanceToFinish: 42000,
+      retainage: 800,
+      billedThisPeriod: 0,
+    });
+    expect(carried.summary).toMatchObject({ retainageThisPeriod: 0, currentPaymentDue: 0 });
+  });
+
+  it('returns no sheets before the first application', () => {
+    expect(buildSheets({ ...SCHEDULE, applications: [] })).toEqual([]);
+  });
+});
+
+describe('isOnApplication', () => {
+  const invoicedFirst = SCHEDULE.applications[0];
+  const invoicedSecond = SCHEDULE.applications[1];
+  const draft = SCHEDULE.applications[2];
+
+  it('puts original schedule lines on every application', () => {
+    expect([invoicedFirst, invoicedSecond, draft].map((a) => isOnApplication(SITEWORK, a))).toEqual([true, true, true]);
+  });
+
+  it('puts a change order line on an application invoiced after it was added', () => {
+    expect(isOnApplication(OUTLETS, invoicedFirst)).toBe(false);
+    expect(isOnApplication(OUTLETS, invoicedSecond)).toBe(true);
+  });
+
+  it('puts a change order line on an open application whenever it was added', () => {
+    const late = line('5', 'CO 2 - Canopy', 12000, { id: 'co-2', createdAt: '2026-06-15T09:00:00Z' });
+
+    expect(isOnApplication(late, draft)).toBe(true);
+    expect(isOnApplication(late, invoicedSecond)).toBe(false);
+  });
+});
@@ -0,0 +1,507 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database.js';
+import { errors } from '../middleware/errorHandler.js';
+import { getCompanyProfile, renderPayApplicationPdf } from './pdf.js';
+import { calculateTotals, resolveTax, TaxableLine } from './tax.js';
+import { CsvValue, toCsv } from '../utils/csv.js';
+import {
+  DBEstimate,
+  DBEstimateRevision,
+  DBPayApplication,
+  DBPayApplicationLine,
+  DBScheduleOfValues,
+  DBScheduleOfValuesLine,
+} from '../types/index.js';
+
+// Progress billing: schedules of values and AIA G702/G703-style pay
+// applications. A schedule splits an approved estimate into lines with a
+// scheduled value each. Pay applications are numbered in order, and each one
+// records per line the work completed this period and the materials stored
+// on site. Every figure on a pay application (previous work, retainage, less
+// previous certificates) is worked out from the applications before it, so
+// only the latest application may be a draft and invoiced ones never change.
+
+export interface PayApplicationWithLines extends DBPayApplication {
+  lines: DBPayApplicationLine[];
+  invoice_number: string | null;
+}
+
+export interface ScheduleRow extends DBScheduleOfValues {
+  estimate_number: string;
+  estimate_title: string;
+  client_id: string | null;
+  client_name: string | null;
+  project_id: string | null;
+  project_name: string | null;
+}
+
+export interface ScheduleData {
+  schedule: ScheduleRow;
+  lines: DBScheduleOfValuesLine[];
+  // In application order
+  applications: PayApplicationWithLines[];
+}
+
+// One row of the G703 continuation sheet (columns A to I)
+export interface ContinuationRow {
+  lineId: string;
+  itemNumber: string;
+  description: string;
+  taxable: boolean;
+  scheduledValue: number;
+  // D: work completed on earlier applications
+  previousWork: number;
+  // E
+  workThisPeriod: number;
+  // F
+  storedMaterials: number;
+  // G = D + E + F
+  completedAndStored: number;
+  // G / C, e.g. 0.45
+  percentComplete: number;
+  // H = C - G
+  balanceToFinish: number;
+  // I
+  retainage: number;
+  // Increase in G since the previous application, which this one bills
+  billedThisPeriod: number;
+}
+
+// G702 application and certificate for payment, lines 1 to 9
+export interface PayApplicationSummary {
+  originalContractSum: number;
+  netChangeByChangeOrders: number;
+  contractSumToDate: number;
+  totalCompletedAndStored: number;
+  retainageOnCompletedWork: number;
+  retainageOnStoredMaterials: number;
+  totalRetainage: number;
+  totalEarnedLessRetainage: number;
+  lessPreviousCertificates: number;
+  currentPaymentDue: number;
+  balanceToFinishIncludingRetainage: number;
+  // Change in retainage held since the previous application
+  retainageThisPeriod: number;
+}
+
+export interface PayApplicationSheet {
+  application: PayApplicationWithLines;
+  rows: ContinuationRow[];
+  summary: PayApplicationSummary;
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function num(value: unknown): number {
+  return parseFloat(String(value ?? 0)) || 0;
+}
+
+const SCHEDULE_SELECT = `
+  SELECT s.*, e.estimate_number, e.title AS estimate_title, e.client_id, c.name AS client_name,
+         e.project_id, p.name AS project_name
+  FROM schedules_of_values s
+  JOIN estimates e ON s.estimate_id = e.id
+  LEFT JOIN companies c ON e.client_id = c.id
+  LEFT JOIN projects p ON e.project_id = p.id`;
+
+// Pay application dates come back as text (YYYY-MM-DD) so they don't shift with timezones
+const APPLICATION_COLUMNS = `a.*, to_char(a.application_date, 'YYYY-MM-DD') AS application_date,
+  to_char(a.period_to, 'YYYY-MM-DD') AS period_to`;
+
+export async function loadSchedule(scheduleId: string): Promise<ScheduleData> {
+  const schedules = await query<ScheduleRow>(`${SCHEDULE_SELECT} WHERE s.id = $1`, [scheduleId]);
+  if (schedules.length === 0) {
+    throw errors.notFound('Schedule of values');
+  }
+
+  const lines = await query<DBScheduleOfValuesLine>(
+    'SELECT * FROM schedule_of_values_lines WHERE schedule_id = $1 ORDER BY sort_order',
+    [scheduleId]
+  );
+  const applications = await query<PayApplicationWithLines>(
+    `SELECT ${APPLICATION_COLUMNS},
+            COALESCE((SELECT json_agg(l) FROM pay_application_lines l WHERE l.pay_application_id = a.id), '[]') AS lines,
+            i.invoice_number
+     FROM pay_applications a
+     LEFT JOIN invoices i ON a.invoice_id = i.id
+     WHERE a.schedule_id = $1
+     ORDER BY a.application_number`,
+    [scheduleId]
+  );
+
+  return { schedule: schedules[0], lines, applications };
+}
+
+// Change order lines only count from the first application still open when they were added
+export function isOnApplication(line: DBScheduleOfValuesLine, application: DBPayApplication): boolean {
+  return !line.change_order_id || !application.invoiced_at
+    || new Date(line.created_at).getTime() <= new Date(application.invoiced_at).getTime();
+}
+
+/**
+ * The continuation sheet and certificate of every pay application, in order.
+ * Retainage is held at each application's own percentage on work completed
+ * and on stored materials alike.
+ */
+export function buildSheets(data: ScheduleData): PayApplicationSheet[] {
+  const previousWork = new Map<string, number>();
+  const previousStored = new Map<string, number>();
+  let previousEarned = 0;
+  let previousRetainage = 0;
+
+  return data.applications.map((application) => {
+    const percent = num(application.retainage_percent) / 100;
+    const entries = new Map(application.lines.map((l) => [l.line_id, l]));
+    let retainageOnCompletedWork = 0;
+    let retainageOnStoredMaterials = 0;
+
+    const rows = data.lines.filter((line) => isOnApplication(line, application)).map((line): ContinuationRow => {
+      const scheduledValue = num(line.scheduled_value);
+      const entry = entries.get(line.id);
+      const previous = round2(previousWork.get(line.id) ?? 0);
+      const workThisPeriod = num(entry?.work_this_period);
+      const storedMaterials = num(entry?.stored_materials);
+      const completedAndStored = round2(previous + workThisPeriod + storedMaterials);
+      const workRetainage = round2((previous + workThisPeriod) * percent);
+      const storedRetainage = round2(storedMaterials * percent);
+      retainageOnCompletedWork += workRetainage;
+      retainageOnStoredMaterials += storedRetainage;
+
+      const row = {
+        lineId: line.id,
+        itemNumber: line.item_number,
+        description: line.description,
+        taxable: line.taxable,
+        scheduledValue,
+        previousWork: previous,
+        workThisPeriod,
+        storedMaterials,
+        completedAndStored,
+        percentComplete: scheduledValue ? completedAndStored / scheduledValue : 0,
+        balanceToFinish: round2(scheduledValue - completedAndStored),
+        retainage: round2(workRetainage + storedRetainage),
+        billedThisPeriod: round2(workThisPeriod + storedMaterials - (previousStored.get(line.id) ?? 0)),
+      };
+      previousWork.set(line.id, previous + workThisPeriod);
+      previousStored.set(line.id, storedMaterials);
+      return row;
+    });
+
+    const contractSumToDate = round2(rows.reduce((sum, r) => sum + r.scheduledValue, 0));
+    const totalCompletedAndStored = round2(rows.reduce((sum, r) => sum + r.completedAndStored, 0));
+    const totalRetainage = round2(retainageOnCompletedWork + retainageOnStoredMaterials);
+    const totalEarnedLessRetainage = round2(totalCompletedAndStored - totalRetainage);
+    const originalContractSum = num(data.schedule.original_contract_sum);
+
+    const summary: PayApplicationSummary = {
+      originalContractSum,
+      netChangeByChangeOrders: round2(contractSumToDate - originalContractSum),
+      contractSumToDate,
+      totalCompletedAndStored,
+      retainageOnCompletedWork: round2(retainageOnCompletedWork),
+      retainageOnStoredMaterials: round2(retainageOnStoredMaterials),
+      totalRetainage,
+      totalEarnedLessRetainage,
+      lessPreviousCertificates: previousEarned,
+      currentPaymentDue: round2(totalEarnedLessRetainage - previousEarned),
+      balanceToFinishIncludingRetainage: round2(contractSumToDate - totalEarnedLessRetainage),
+      retainageThisPeriod: round2(totalRetainage - previousRetainage),
+    };
+    previousEarned = totalEarnedLessRetainage;
+    previousRetainage = totalRetainage;
+
+    return { application, rows, summary };
+  });
+}
+
+export function findSheet(data: ScheduleData, applicationId: string): PayApplicationSheet {
+  const sheet = buildSheets(data).find((s) => s.application.id === applicationId);
+  if (!sheet) {
+    throw errors.notFound('Pay application');
+  }
+  return sheet;
+}
+
+/**
+ * Set up progress billing for an approved estimate, one line per line of the
+ * revision the client approved. An estimate is billed either this way or by
+ * converting it to a single invoice, never both.
+ */
+export async function createScheduleFromEstimate(
+  estimateId: string,
+  retainagePercent: number,
+  userId: string
+): Promise<string> {
+  const estimates = await query<DBEstimate>(
+    'SELECT * FROM estimates WHERE id = $1',
+    [estimateId]
+  );
+  if (estimates.length === 0) {
+    throw errors.notFound('Estimate');
+  }
+  const estimate = estimates[0];
+  if (estimate.status !== 'approved') {
+    throw errors.badRequest('Only approved estimates can be billed by pay application');
+  }
+
+  const existing = await query('SELECT 1 FROM schedules_of_values WHERE estimate_id = $1', [estimateId]);
+  if (existing.length > 0) {
+    throw errors.conflict('This estimate already has a schedule of values');
+  }
+  const invoiced = await query('SELECT 1 FROM invoices WHERE estimate_id = $1 LIMIT 1', [estimateId]);
+  if (invoiced.length > 0) {
+    throw errors.badRequest('This estimate has already been converted to an invoice');
+  }
+
+  const approved = estimate.approved_revision_id
+    ? (await query<DBEstimateRevision>('SELECT * FROM estimate_revisions WHERE id = $1', [estimate.approved_revision_id]))[0]
+    : undefined;
+  const lines = approved
+    ? approved.line_items.map((li) => ({ description: li.description, total: li.total, taxable: li.taxable ?? true }))
+    : await query<{ description: string; total: number; taxable: boolean }>(
+        'SELECT description, total, taxable FROM estimate_line_items WHERE estimate_id = $1 ORDER BY sort_order',
+        [estimateId]
+      );
+  if (lines.length === 0) {
+    throw errors.badRequest('The estimate has no line items to bill');
+  }
+  const contractSum = round2(lines.reduce((sum, line) => sum + num(line.total), 0));
+
+  return withTransaction(async (db) => {
+    const inserted = await db.query<DBScheduleOfValues>(
+      `INSERT INTO schedules_of_values (estimate_id, revision_id, original_contract_sum, retainage_percent, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [estimateId, approved?.id ?? null, contractSum, retainagePercent, userId]
+    );
+    const scheduleId = inserted.rows[0].id;
+
+    for (let i = 0; i < lines.length; i++) {
+      await db.query(
+        `INSERT INTO schedule_of_values_lines (schedule_id, item_number, description, scheduled_value, taxable, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [scheduleId, String(i + 1), lines[i].description, num(lines[i].total), lines[i].taxable, i]
+      );
+    }
+
+    await db.query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'estimate', $2, 'updated', $3)`,
+      [userId, estimateId, `Set up progress billing for estimate ${estimate.estimate_number}`]
+    );
+    return scheduleId;
+  });
+}
+
+// Serialize changes to a schedule's pay applications (locks the schedule row)
+export async function lockSchedule(db: PoolClient, scheduleId: string): Promise<void> {
+  const result = await db.query('SELECT id FROM schedules_of_values WHERE id = $1 FOR UPDATE', [scheduleId]);
+  if (result.rows.length === 0) {
+    throw errors.notFound('Schedule of values');
+  }
+}
+
+/**
+ * Invoice a pay application for its current payment due: one line per
+ * schedule line for the work and stored materials added this period, less
+ * the retainage held back (or plus retainage released). Tax follows the
+ * estimate's jurisdiction and applies to the taxable work lines only.
+ */
+export async function invoicePayApplication(
+  scheduleId: string,
+  applicationId: string,
+  userId: string
+): Promise<{ invoiceId: string; invoiceNumber: string }> {
+  const data = await loadSchedule(scheduleId);
+  const sheet = findSheet(data, applicationId);
+  const { application, rows, summary } = sheet;
+  if (application.invoice_id) {
+    throw errors.badRequest('This pay application has already been invoiced');
+  }
+
+  const estimates = await query<DBEstimate>(
+    'SELECT * FROM estimates WHERE id = $1',
+    [data.schedule.estimate_id]
+  );
+  const estimate = estimates[0];
+
+  const lines: Array<TaxableLine & { description: string }> = rows
+    .filter((row) => row.billedThisPeriod !== 0)
+    .map((row) => ({
+      description: `${row.itemNumber}. ${row.description} (${Math.round(row.percentComplete * 100)}% complete)`,
+      quantity: 1,
+      unitPrice: row.billedThisPeriod,
+      taxable: row.taxable,
+    }));
+  if (summary.retainageThisPeriod !== 0) {
+    lines.push({
+      description: summary.retainageThisPeriod > 0
+        ? `Retainage withheld (${num(application.retainage_percent)}%)`
+        : 'Retainage released',
+      quantity: 1,
+      unitPrice: -summary.retainageThisPeriod,
+      taxable: false,
+    });
+  }
+  if (lines.length === 0) {
+    throw errors.badRequest('Nothing was billed this period');
+  }
+
+  const tax = await resolveTax({
+    clientId: estimate.client_id,
+    projectId: estimate.project_id,
+    jurisdictionId: estimate.tax_jurisdiction_id,
+    taxRate: estimate.tax_rate ? num(estimate.tax_rate) : null,
+    date: application.application_date,
+  });
+  const totals = calculateTotals(lines, tax.rates, !!tax.exemption);
+
+  return withTransaction(async (db) => {
+    await lockSchedule(db, scheduleId);
+    const current = await db.query<DBPayApplication>(
+      'SELECT invoice_id FROM pay_applications WHERE id = $1',
+      [applicationId]
+    );
+    if (current.rows[0]?.invoice_id) {
+      throw errors.badRequest('This pay application has already been invoiced');
+    }
+
+    const invoiceNumResult = await db.query<{ nextval: string }>("SELECT nextval('invoice_number_seq')");
+    const invoiceNumber = `INV-${invoiceNumResult.rows[0].nextval}`;
+
+    const invoices = await db.query<{ id: string }>(
+      `INSERT INTO invoices (invoice_number, client_id, project_id, estimate_id, status, due_date, subtotal, tax_rate, tax_amount, total,
+                             tax_jurisdiction_id, tax_exemption_id, taxable_subtotal, tax_breakdown, notes, terms, letterhead_id, created_by)
+       VALUES ($1, $2, $3, $4, 'draft', CURRENT_DATE + INTERVAL '30 days', $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+       RETURNING id`,
+      [
+        invoiceNumber,
+        estimate.client_id,
+        estimate.project_id,
+        estimate.id,
+        totals.subtotal,
+        totals.taxRate,
+        totals.taxAmount,
+        totals.total,
+        tax.jurisdiction?.id ?? null,
+        tax.exemption?.id ?? null,
+        totals.taxableSubtotal,
+        JSON.stringify(totals.taxBreakdown),
+        `Pay application #${application.application_number} for the period to ${application.period_to}`,
+        estimate.terms ?? null,
+        estimate.letterhead_id ?? null,
+        userId,
+      ]
+    );
+    const invoiceId = invoices.rows[0].id;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      await db.query(
+        `INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, total, taxable, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [invoiceId, line.description, line.quantity, line.unitPrice, line.unitPrice, line.taxable, i]
+      );
+    }
+
+    await db.query(
+      `UPDATE pay_applications
+       SET status = 'invoiced', invoice_id = $2, amount_due = $3, invoiced_at = COALESCE(invoiced_at, NOW())
+       WHERE id = $1`,
+      [applicationId, invoiceId, summary.currentPaymentDue]
+    );
+
+    await db.query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'invoice', $2, 'created', $3)`,
+      [
+        userId,
+        invoiceId,
+        `Created invoice ${invoiceNumber} from pay application #${application.application_number} for estimate ${data.schedule.estimate_number}`,
+      ]
+    );
+
+    return { invoiceId, invoiceNumber };
+  });
+}
+
+function localDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// G702 certificate and G703 continuation sheet
+export async function renderPayApplication(data: ScheduleData, sheet: PayApplicationSheet): Promise<Uint8Array> {
+  const clients = await query<any>(
+    `SELECT c.name, ca.street, ca.suite, ca.city, ca.state, ca.zip
+     FROM estimates e
+     LEFT JOIN companies c ON e.client_id = c.id
+     LEFT JOIN company_addresses ca ON ca.company_id = c.id AND ca.is_main
+     WHERE e.id = $1`,
+    [data.schedule.estimate_id]
+  );
+  const client = clients[0] ?? {};
+  const { application } = sheet;
+
+  return renderPayApplicationPdf(
+    {
+      applicationNumber: application.application_number,
+      applicationDate: localDate(application.application_date),
+      periodTo: localDate(application.period_to),
+      contractNumber: data.schedule.estimate_number,
+      client: {
+        name: client.name || '',
+        street: client.street,
+        suite: client.suite,
+        city: client.city,
+        state: client.state,
+        zip: client.zip,
+      },
+      projectName: data.schedule.project_name,
+      retainagePercent: num(application.retainage_percent),
+      rows: sheet.rows,
+      summary: sheet.summary,
+      updatedAt: application.updated_at,
+    },
+    await getCompanyProfile()
+  );
+}
+
+// The continuation sheet as a spreadsheet, with a grand total row
+export function continuationSheetCsv(sheet: PayApplicationSheet): string {
+  const values = (row: Omit<ContinuationRow, 'lineId' | 'itemNumber' | 'description' | 'taxable' | 'billedThisPeriod'>): CsvValue[] => [
+    row.scheduledValue.toFixed(2),
+    row.previousWork.toFixed(2),
+    row.workThisPeriod.toFixed(2),
+    row.storedMaterials.toFixed(2),
+    row.completedAndStored.toFixed(2),
+    (row.percentComplete * 100).toFixed(2),
+    row.balanceToFinish.toFixed(2),
+    row.retainage.toFixed(2),
+  ];
+  const total = (key: 'scheduledValue' | 'previousWork' | 'workThisPeriod' | 'storedMaterials' | 'completedAndStored' | 'balanceToFinish' | 'retainage') =>
+    round2(sheet.rows.reduce((sum, row) => sum + row[key], 0));
+  const { summary } = sheet;
+
+  return toCsv(
+    [
+      'Item', 'Description of Work', 'Scheduled Value', 'Work Completed Previously', 'Work Completed This Period',
+      'Materials Presently Stored', 'Total Completed and Stored', '% (G/C)', 'Balance to Finish', 'Retainage',
+    ],
+    [
+      ...sheet.rows.map((row) => [row.itemNumber, row.description, ...values(row)]),
+      ['', 'Grand Total', ...values({
+        scheduledValue: total('scheduledValue'),
+        previousWork: total('previousWork'),
+        workThisPeriod: total('workThisPeriod'),
+        storedMaterials: total('storedMaterials'),
+        completedAndStored: total('completedAndStored'),
+        percentComplete: summary.contractSumToDate ? summary.totalCompletedAndStored / summary.contractSumToDate : 0,
+        balanceToFinish: total('balanceToFinish'),
+        retainage: total('retainage'),
+      })],
+    ]
+  );
+}
@@ -0,0 +1,284 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database.js';
+import { errors } from '../middleware/errorHandler.js';
+import { DBProjectPhase, DBProjectPhaseDependency } from '../types/index.js';
+
+// Project schedules: phases and milestones with finish-to-start dependencies.
+// Dates are whole days and a phase takes up its start and end dates. Moving a
+// phase pushes its successors back as far as their dependencies require,
+// keeping their durations; the critical path is the chain of phases with no
+// float before the schedule's finish date.
+
+export interface SchedulePhase {
+  id: string;
+  name: string;
+  isMilestone: boolean;
+  startDate: string;
+  endDate: string;
+  percentComplete: number;
+  sortOrder: number;
+  predecessorIds: string[];
+  // Days the phase can slip without moving the finish date
+  float: number;
+  critical: boolean;
+}
+
+export interface ProjectSchedule {
+  phases: SchedulePhase[];
+  dependencies: { predecessorId: string; successorId: string }[];
+  startDate: string | null;
+  finishDate: string | null;
+}
+
+export interface PhaseChanges {
+  name?: string;
+  isMilestone?: boolean;
+  startDate?: string;
+  endDate?: string;
+  percentComplete?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDay(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// A successor starts the day after its predecessor ends, or on the same day
+// when either one is a milestone
+function earliestStart(predecessor: DBProjectPhase, successor: DBProjectPhase): number {
+  return toDay(predecessor.end_date) + (predecessor.is_milestone || successor.is_milestone ? 0 : 1);
+}
+
+// Phases ordered so every predecessor comes before its successors
+function topologicalOrder(phases: DBProjectPhase[], dependencies: DBProjectPhaseDependency[]): DBProjectPhase[] {
+  const incoming = new Map(phases.map((p) => [p.id, 0]));
+  for (const d of dependencies) {
+    incoming.set(d.successor_id, (incoming.get(d.successor_id) ?? 0) + 1);
+  }
+
+  const byId = new Map(phases.map((p) => [p.id, p]));
+  const ready = phases.filter((p) => incoming.get(p.id) === 0);
+  const order: DBProjectPhase[] = [];
+  while (ready.length > 0) {
+    const phase = ready.shift()!;
+    order.push(phase);
+    for (const d of dependencies.filter((dep) => dep.predecessor_id === phase.id)) {
+      const remaining = incoming.get(d.successor_id)! - 1;
+      incoming.set(d.successor_id, remaining);
+      if (remaining === 0) ready.push(byId.get(d.successor_id)!);
+    }
+  }
+  return order;
+}
+
+function mapSchedule(phases: DBProjectPhase[], dependencies: DBProjectPhaseDependency[]): ProjectSchedule {
+  if (phases.length === 0) {
+    return { phases: [], dependencies: [], startDate: null, finishDate: null };
+  }
+
+  const start = Math.min(...phases.map((p) => toDay(p.start_date)));
+  const finish = Math.max(...phases.map((p) => toDay(p.end_date)));
+  const byId = new Map(phases.map((p) => [p.id, p]));
+
+  // Backward pass: the latest each phase can start without delaying a
+  // successor or the finish date
+  const lateStart = new Map<string, number>();
+  for (const phase of topologicalOrder(phases, dependencies).reverse()) {
+    const gaps = dependencies
+      .filter((d) => d.predecessor_id === phase.id)
+      .map((d) => {
+        const successor = byId.get(d.successor_id)!;
+        return lateStart.get(successor.id)! - (earliestStart(phase, successor) - toDay(phase.end_date));
+      });
+    const lateFinish = Math.min(finish, ...gaps);
+    lateStart.set(phase.id, lateFinish - (toDay(phase.end_date) - toDay(phase.start_date)));
+  }
+
+  return {
+    phases: phases.map((p) => {
+      const float = lateStart.get(p.id)! - toDay(p.start_date);
+      return {
+        id: p.id,
+        name: p.name,
+        isMilestone: p.is_milestone,
+        startDate: p.start_date,
+        endDate: p.end_date,
+        percentComplete: p.percent_complete,
+        sortOrder: p.sort_order,
+        predecessorIds: dependencies.filter((d) => d.successor_id === p.id).map((d) => d.predecessor_id),
+        float,
+        critical: float <= 0,
+      };
+    }),
+    dependencies: dependencies.map((d) => ({ predecessorId: d.predecessor_id, successorId: d.successor_id })),
+    startDate: fromDay(start),
+    finishDate: fromDay(finish),
+  };
+}
+
+const PHASE_COLUMNS = `id, project_id, name, is_milestone,
+  to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date,
+  percent_complete, sort_order, created_at, updated_at`;
+
+const PHASE_ORDER = 'ORDER BY start_date, sort_order, created_at';
+
+export async function loadSchedule(projectId: string): Promise<ProjectSchedule> {
+  const [phases, dependencies] = await Promise.all([
+    query<DBProjectPhase>(`SELECT ${PHASE_COLUMNS} FROM project_phases WHERE project_id = $1 ${PHASE_ORDER}`, [projectId]),
+    query<DBProjectPhaseDependency>(
+      `SELECT d.* FROM project_phase_dependencies d
+       JOIN project_phases p ON d.predecessor_id = p.id
+       WHERE p.project_id = $1`,
+      [projectId]
+    ),
+  ]);
+  return mapSchedule(phases, dependencies);
+}
+
+async function lockSchedule(db: PoolClient, projectId: string) {
+  const phases = (await db.query<DBProjectPhase>(
+    `SELECT ${PHASE_COLUMNS} FROM project_phases WHERE project_id = $1 ${PHASE_ORDER} FOR UPDATE`,
+    [projectId]
+  )).rows;
+  const dependencies = (await db.query<DBProjectPhaseDependency>(
+    `SELECT d.* FROM project_phase_dependencies d
+     JOIN project_phases p ON d.predecessor_id = p.id
+     WHERE p.project_id = $1`,
+    [projectId]
+  )).rows;
+  return { phases, dependencies };
+}
+
+// Move every phase that starts before its dependencies allow later by the
+// shortfall, in dependency order so the moves carry down the chain. Saves
+// the phases that moved and returns them.
+async function enforceDependencies(
+  db: PoolClient,
+  phases: DBProjectPhase[],
+  dependencies: DBProjectPhaseDependency[]
+): Promise<DBProjectPhase[]> {
+  const byId = new Map(phases.map((p) => [p.id, p]));
+  const moved: DBProjectPhase[] = [];
+
+  for (const phase of topologicalOrder(phases, dependencies)) {
+    const required = Math.max(
+      -Infinity,
+      ...dependencies
+        .filter((d) => d.successor_id === phase.id)
+        .map((d) => earliestStart(byId.get(d.predecessor_id)!, phase))
+    );
+    const shift = required - toDay(phase.start_date);
+    if (shift <= 0) continue;
+
+    phase.start_date = fromDay(toDay(phase.start_date) + shift);
+    phase.end_date = fromDay(toDay(phase.end_date) + shift);
+    await db.query('UPDATE project_phases SET start_date = $2, end_date = $3 WHERE id = $1', [
+      phase.id, phase.start_date, phase.end_date,
+    ]);
+    moved.push(phase);
+  }
+
+  return moved;
+}
+
+/**
+ * Update a phase and push back whatever depends on it. A phase moved earlier
+ * than its own predecessors allow is held at the first day it can start.
+ */
+export async function updatePhase(
+  projectId: string,
+  phaseId: string,
+  changes: PhaseChanges
+): Promise<{ phase: SchedulePhase; moved: string[] }> {
+  return withTransaction(async (db) => {
+    const { phases, dependencies } = await lockSchedule(db, projectId);
+    const phase = phases.find((p) => p.id === phaseId);
+    if (!phase) {
+      throw errors.notFound('Phase');
+    }
+
+    // Moving the start keeps the duration unless a new end is given too
+    const duration = toDay(phase.end_date) - toDay(phase.start_date);
+    if (changes.name !== undefined) phase.name = changes.name;
+    if (changes.isMilestone !== undefined) phase.is_milestone = changes.isMilestone;
+    if (changes.percentComplete !== undefined) phase.percent_complete = changes.percentComplete;
+    if (changes.startDate !== undefined) {
+      phase.start_date = changes.startDate;
+      phase.end_date = changes.endDate ?? fromDay(toDay(changes.startDate) + duration);
+    } else if (changes.endDate !== undefined) {
+      phase.end_date = changes.endDate;
+    }
+    if (phase.is_milestone) {
+      phase.end_date = phase.start_date;
+    }
+    if (phase.end_date < phase.start_date) {
+      throw errors.badRequest('A phase cannot end before it starts');
+    }
+
+    await db.query(
+      `UPDATE project_phases SET name = $2, is_milestone = $3, start_date = $4, end_date = $5, percent_complete = $6
+       WHERE id = $1`,
+      [phase.id, phase.name, phase.is_milestone, phase.start_date, phase.end_date, phase.percent_complete]
+    );
+
+    const moved = (await enforceDependencies(db, phases, dependencies))
+      .filter((p) => p.id !== phase.id)
+      .map((p) => p.name);
+    return { phase: mapSchedule(phases, dependencies).phases.find((p) => p.id === phaseId)!, moved };
+  });
+}
+
+/**
+ * Make one phase wait for another, pushing the successor (and whatever
+ * follows it) back if it currently starts too early.
+ */
+export async function addDependency(
+  projectId: string,
+  predecessorId: string,
+  successorId: string
+): Promise<{ moved: string[] }> {
+  if (predecessorId === successorId) {
+    throw errors.badRequest('A phase cannot depend on itself');
+  }
+
+  return withTransaction(async (db) => {
+    const { phases, dependencies } = await lockSchedule(db, projectId);
+    if (!phases.some((p) => p.id === predecessorId) || !phases.some((p) => p.id === successorId)) {
+      throw errors.notFound('Phase');
+    }
+    if (dependencies.some((d) => d.predecessor_id === predecessorId && d.successor_id === successorId)) {
+      throw errors.conflict('That dependency already exists');
+    }
+
+    // The new link would close a loop if the predecessor already follows
+    // the successor somewhere down the chain
+    const downstream = new Set([successorId]);
+    const queue = [successorId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const d of dependencies.filter((dep) => dep.predecessor_id === id)) {
+        if (!downstream.has(d.successor_id)) {
+          downstream.add(d.successor_id);
+          queue.push(d.successor_id);
+        }
+      }
+    }
+    if (downstream.has(predecessorId)) {
+      throw errors.badRequest('That dependency would make the phases wait on each other');
+    }
+
+    const inserted = (await db.query<DBProjectPhaseDependency>(
+      'INSERT INTO project_phase_dependencies (predecessor_id, successor_id) VALUES ($1, $2) RETURNING *',
+      [predecessorId, successorId]
+    )).rows;
+    dependencies.push(...inserted);
+
+    const moved = await enforceDependencies(db, phases, dependencies);
+    return { moved: moved.map((p) => p.name) };
+  });
+}
@@ -0,0 +1,51 @@
+import { logger } from '../config/logger.js';
+
+// Lightweight in-process job runner for periodic maintenance tasks.
+// Each job runs once shortly after startup and then on its interval.
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const jobs: ScheduledJob[] = [];
+const timers: NodeJS.Timeout[] = [];
+const running = new Set<string>();
+
+export function registerJob(job: ScheduledJob): void {
+  jobs.push(job);
+}
+
+// Run a job now, skipping it if the previous run is still in progress
+export async function runJob(name: string): Promise<void> {
+  const job = jobs.find((j) => j.name === name);
+  if (!job || running.has(name)) return;
+
+  running.add(name);
+  const start = Date.now();
+  try {
+    await job.run();
+    logger.info(`Job ${name} completed`, { duration: `${Date.now() - start}ms` });
+  } catch (error) {
+    logger.error(`Job ${name} failed`, { error });
+  } finally {
+    running.delete(name);
+  }
+}
+
+export function startScheduler(): void {
+  for (const job of jobs) {
+    const initial = setTimeout(() => runJob(job.name), 10 * 1000);
+    const interval = setInterval(() => runJob(job.name), job.intervalMs);
+    initial.unref();
+    interval.unref();
+    timers.push(initial, interval);
+  }
+  logger.info(`Scheduler started with ${jobs.length} job(s)`);
+}
+
+export function stopScheduler(): void {
+  timers.forEach((timer) => clearTimeout(timer));
+  timers.length = 0;
+}
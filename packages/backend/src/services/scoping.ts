@@ -0,0 +1,103 @@
+import { query } from '../config/database.js';
+import { errors } from '../middleware/errorHandler.js';
+import { JWTPayload } from '../types/index.js';
+import { mapPlacement, type DBOrgPlacement } from './permissions.js';
+
+// Record-level visibility for companies, contacts, leads and deals.
+// A user's record scope (from their roles) becomes the set of portal user ids
+// whose records they can see; list endpoints filter on it in SQL and detail
+// endpoints answer 404 for anything outside it.
+
+/**
+ * Portal user ids whose records the user can see, or null when unrestricted
+ * (scope 'all', or an admin). Users not yet placed in Admin > Users see only
+ * unassigned companies. A user whose scope couldn't be resolved gets 'own'.
+ */
+export async function resolveVisibleRepIds(user: JWTPayload): Promise<string[] | null> {
+  const scope = user.recordScope ?? 'own';
+  if (scope === 'all' || user.roles.includes('admin')) {
+    return null;
+  }
+
+  const rows = await query<DBOrgPlacement>(
+    'SELECT * FROM user_org_placements WHERE email = $1',
+    [user.email.toLowerCase()]
+  );
+  const me = mapPlacement(rows[0]);
+  if (!me.userId) {
+    return [];
+  }
+
+  if (scope === 'team') {
+    // Direct reports: people whose position reports to mine, or who list me
+    // as an additional supervisor
+    const reports = await query<{ portal_user_id: string }>(
+      `SELECT portal_user_id FROM user_org_placements
+       WHERE portal_user_id IS NOT NULL
+         AND ($1 = ANY(supervisor_ids) OR ($2::text IS NOT NULL AND reports_to_position_id = $2))`,
+      [me.userId, me.positionId]
+    );
+    return Array.from(new Set([me.userId, ...reports.map((r) => r.portal_user_id)]));
+  }
+
+  if (scope === 'office' && me.officeId) {
+    const colleagues = await query<{ portal_user_id: string }>(
+      'SELECT portal_user_id FROM user_org_placements WHERE portal_user_id IS NOT NULL AND office_id = $1',
+      [me.officeId]
+    );
+    return Array.from(new Set([me.userId, ...colleagues.map((r) => r.portal_user_id)]));
+  }
+
+  return [me.userId];
+}
+
+/**
+ * SQL condition limiting companies (table alias `alias`) to those with one of
+ * the reps in `param` at company level or on any location - the same
+ * ownership as getCompanySalesRepIds in the frontend. Companies with no reps
+ * at all stay visible to everyone.
+ */
+export function companyScopeCondition(alias: string, param: string): string {
+  return `(${alias}.sales_rep_ids && ${param}::text[]
+    OR EXISTS (SELECT 1 FROM company_addresses sca
+               WHERE sca.company_id = ${alias}.id AND sca.sales_rep_ids && ${param}::text[])
+    OR (COALESCE(cardinality(${alias}.sales_rep_ids), 0) = 0
+        AND NOT EXISTS (SELECT 1 FROM company_addresses sca
+                        WHERE sca.company_id = ${alias}.id AND cardinality(sca.sales_rep_ids) > 0)))`;
+}
+
+// Throw not found for a company outside the visible reps (null = unrestricted).
+// `resource` names what was asked for, e.g. 'Contact' for a contact at the company.
+export async function assertCompanyVisible(
+  companyId: string,
+  visibleRepIds: string[] | null,
+  resource = 'Company'
+): Promise<void> {
+  if (!visibleRepIds) return;
+  const visible = await query(
+    `SELECT 1 FROM companies c WHERE c.id = $1 AND ${companyScopeCondition('c', '$2')}`,
+    [companyId, visibleRepIds]
+  );
+  if (visible.length === 0) {
+    throw errors.notFound(resource);
+  }
+}
+
+// Whether a lead or deal owner is within the visible reps (null = unrestricted)
+export function isOwnerVisible(ownerId: string, visibleRepIds: string[] | null): boolean {
+  return !visibleRepIds || visibleRepIds.includes(ownerId);
+}
+
+// Throw not found for a lead or deal (by id) whose owner is outside the visible reps
+export async function assertOwnerVisible(
+  table: 'leads' | 'deals',
+  id: string,
+  visibleRepIds: string[] | null,
+  resource: string
+): Promise<void> {
+  if (!visibleRepIds) return;
+  const rows = await query<{ owner_id: string }>(`SELECT owner_id FROM ${table} WHERE id::text = $1`, [id]);
+  if (!rows[0] || !isOwnerVisible(rows[0].owner_id, visibleRepIds)) {
+    throw errors.notFound(resource);
+  }
+}
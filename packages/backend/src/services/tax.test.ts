@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { query } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { calculateTotals, breakdownOf, resolveTax, taxableLines } from './tax.js';
+
+vi.mock('../config/database.js', () => ({ query: vi.fn() }));
+
+const STATE_AND_COUNTY = [
+  { name: 'NY State', rate: 0.04 },
+  { name: 'Erie County', rate: 0.04875 },
+];
+
+describe('calculateTotals', () => {
+  it('rounds each rate to the cent so the breakdown adds up to the tax charged', () => {
+    const totals = calculateTotals([{ quantity: 1, unitPrice: 10.1 }], STATE_AND_COUNTY);
+
+    // One combined rate would give 0.90 (10.10 x 8.875% = 0.896375)
+    expect(totals.taxBreakdown).toEqual([
+      { name: 'NY State', rate: 0.04, taxableAmount: 10.1, amount: 0.4 },
+      { name: 'Erie County', rate: 0.04875, taxableAmount: 10.1, amount: 0.49 },
+    ]);
+    expect(totals.taxAmount).toBe(0.89);
+    expect(totals.taxRate).toBe(0.08875);
+    expect(totals.total).toBe(10.99);
+  });
+
+  it('rounds the subtotal to the cent', () => {
+    const totals = calculateTotals([{ quantity: 3, unitPrice: 0.125 }], []);
+
+    expect(totals.subtotal).toBe(0.38);
+    expect(totals.total).toBe(0.38);
+  });
+
+  it('taxes only taxable lines', () => {
+    const totals = calculateTotals(
+      [
+        { quantity: 1, unitPrice: 1000, taxable: false }, // capital improvement labor
+        { quantity: 2, unitPrice: 250 }, // materials
+      ],
+      [
+        { name: 'State', rate: 0.08 },
+        { name: 'MCTD', rate: 0.005 },
+      ]
+    );
+
+    expect(totals.subtotal).toBe(1500);
+    expect(totals.taxableSubtotal).toBe(500);
+    expect(totals.taxBreakdown.map((line) => line.amount)).toEqual([40, 2.5]);
+    expect(totals.taxAmount).toBe(42.5);
+    expect(totals.total).toBe(1542.5);
+  });
+
+  it('charges no tax to an exempt customer but records a zero rate', () => {
+    const totals = calculateTotals([{ quantity: 4, unitPrice: 125 }], STATE_AND_COUNTY, true);
+
+    expect(totals.taxBreakdown).toEqual([]);
+    expect(totals.taxAmount).toBe(0);
+    expect(totals.taxRate).toBe(0);
+    expect(totals.taxableSubtotal).toBe(500);
+    expect(totals.total).toBe(500);
+  });
+
+  it('has no rate when none applies', () => {
+    const totals = calculateTotals([{ quantity: 1, unitPrice: 100 }], []);
+
+    expect(totals.taxRate).toBeNull();
+    expect(totals.taxAmount).toBe(0);
+    expect(totals.total).toBe(100);
+  });
+
+  it('leaves zero rates out of the breakdown', () => {
+    const totals = calculateTotals([{ quantity: 1, unitPrice: 100 }], [
+      { name: 'Suspended', rate: 0 },
+      { name: 'State', rate: 0.04 },
+    ]);
+
+    expect(totals.taxBreakdown.map((line) => line.name)).toEqual(['State']);
+    expect(totals.taxRate).toBe(0.04);
+  });
+
+  it('handles zero-quantity and negative lines', () => {
+    const totals = calculateTotals(
+      [
+        { quantity: 1, unitPrice: 200 },
+        { quantity: 0, unitPrice: 50 },
+        { quantity: 1, unitPrice: -50 }, // taxable credit
+        { quantity: 1, unitPrice: -25, taxable: false }, // non-taxable discount
+      ],
+      [{ name: 'State', rate: 0.04 }]
+    );
+
+    expect(totals.subtotal).toBe(125);
+    expect(totals.taxableSubtotal).toBe(150);
+    expect(totals.taxAmount).toBe(6);
+    expect(totals.total).toBe(131);
+  });
+
+  it('gives negative tax on a credit', () => {
+    const totals = calculateTotals([{ quantity: 1, unitPrice: -100 }], [{ name: 'State', rate: 0.04 }]);
+
+    expect(totals.taxAmount).toBe(-4);
+    expect(totals.total).toBe(-104);
+  });
+
+  it('is all zeros with no lines', () => {
+    expect(calculateTotals([], STATE_AND_COUNTY)).toEqual({
+      subtotal: 0,
+      taxableSubtotal: 0,
+      taxRate: 0.08875,
+      taxAmount: 0,
+      total: 0,
+      taxBreakdown: [
+        { name: 'NY State', rate: 0.04, taxableAmount: 0, amount: 0 },
+        { name: 'Erie County', rate: 0.04875, taxableAmount: 0, amount: 0 },
+      ],
+    });
+  });
+});
+
+describe('taxableLines', () => {
+  it('parses saved numeric columns', () => {
+    expect(taxableLines([{ quantity: '2.5', unit_price: '10.00', taxable: false }])).toEqual([
+      { quantity: 2.5, unitPrice: 10, taxable: false },
+    ]);
+  });
+});
+
+describe('breakdownOf', () => {
+  it('returns the stored breakdown', () => {
+    const stored = [{ name: 'State', rate: 0.04, taxableAmount: 100, amount: 4 }];
+
+    expect(breakdownOf({ tax_breakdown: stored, subtotal: '100.00' })).toBe(stored);
+  });
+
+  it('describes documents from before jurisdictions as one rate on the subtotal', () => {
+    expect(breakdownOf({ tax_breakdown: null, subtotal: '100.00', tax_rate: '0.0800', tax_amount: '8.00' })).toEqual([
+      { name: 'Sales tax', rate: 0.08, taxableAmount: 100, amount: 8 },
+    ]);
+  });
+
+  it('is empty for untaxed documents from before jurisdictions', () => {
+    expect(breakdownOf({ subtotal: '100.00', tax_rate: null, tax_amount: '0.00' })).toEqual([]);
+  });
+});
+
+describe('resolveTax', () => {
+  const erie = { id: 'jur-erie', name: 'Erie County', state: 'NY', zip_codes: ['14201'], is_active: true };
+  const certificate = {
+    id: 'cert-1',
+    company_id: 'company-1',
+    certificate_type: 'ST-124',
+    certificate_number: '88-1234567',
+    jurisdiction_id: null,
+  };
+
+  // Rows for each query resolveTax can make, keyed on the table it reads
+  let tables: {
+    jurisdictionById: object[];
+    jurisdictionByAddress: object[];
+    rates: object[];
+    jobsite: object[];
+    mainAddress: object[];
+    exemptions: object[];
+  };
+
+  beforeEach(() => {
+    tables = {
+      jurisdictionById: [erie],
+      jurisdictionByAddress: [erie],
+      rates: [
+        { name: 'NY State', rate: '0.040000' },
+        { name: 'Erie County', rate: '0.048750' },
+      ],
+      jobsite: [],
+      mainAddress: [],
+      exemptions: [],
+    };
+    vi.mocked(query).mockReset();
+    vi.mocked(query).mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM tax_jurisdictions WHERE id')) return tables.jurisdictionById;
+      if (sql.includes('FROM tax_jurisdictions')) return tables.jurisdictionByAddress;
+      if (sql.includes('FROM tax_rates')) return tables.rates;
+      if (sql.includes('FROM projects')) return tables.jobsite;
+      if (sql.includes('FROM company_addresses')) return tables.mainAddress;
+      if (sql.includes('FROM tax_exemption_certificates')) return tables.exemptions;
+      throw new Error(`Unexpected query: ${sql}`);
+    });
+  });
+
+  it("uses a chosen jurisdiction's rates", async () => {
+    const tax = await resolveTax({ jurisdictionId: 'jur-erie' });
+
+    expect(tax.jurisdiction).toEqual({ id: 'jur-erie', name: 'Erie County' });
+    expect(tax.rates).toEqual(STATE_AND_COUNTY);
+    expect(tax.exemption).toBeNull();
+  });
+
+  it('rejects an unknown jurisdiction', async () => {
+    tables.jurisdictionById = [];
+
+    await expect(resolveTax({ jurisdictionId: 'nope' })).rejects.toBeInstanceOf(AppError);
+  });
+
+  it('applies a custom rate when the jurisdiction is cleared', async () => {
+    expect((await resolveTax({ jurisdictionId: null, taxRate: 0.07 })).rates).toEqual([
+      { name: 'Sales tax', rate: 0.07 },
+    ]);
+    expect((await resolveTax({ jurisdictionId: null })).rates).toEqual([]);
+  });
+
+  it("finds the jurisdiction from the project's jobsite", async () => {
+    tables.jobsite = [{ jobsite_address: { street: '1 Main St', city: 'Buffalo', state: 'NY', zip: '14201-1234' } }];
+
+    const tax = await resolveTax({ clientId: 'company-1', projectId: 'project-1' });
+
+    expect(tax.jurisdiction?.id).toBe('jur-erie');
+    const lookup = vi.mocked(query).mock.calls.find(([sql]) => sql.includes('WHERE is_active'));
+    expect(lookup?.[1]).toEqual(['NY', '14201']);
+  });
+
+  it("falls back to the client's main address, then to the custom rate", async () => {
+    tables.jobsite = [{ jobsite_address: null }];
+    tables.mainAddress = [{ state: 'NY', zip: '14201' }];
+    expect((await resolveTax({ clientId: 'company-1', projectId: 'project-1' })).jurisdiction?.id).toBe('jur-erie');
+
+    tables.mainAddress = [];
+    const tax = await resolveTax({ clientId: 'company-1', projectId: 'project-1', taxRate: 0.05 });
+    expect(tax.jurisdiction).toBeNull();
+    expect(tax.rates).toEqual([{ name: 'Sales tax', rate: 0.05 }]);
+  });
+
+  it('reports an exempt customer so no tax is charged', async () => {
+    tables.exemptions = [certificate];
+
+    const tax = await resolveTax({ clientId: 'company-1', jurisdictionId: 'jur-erie', date: '2026-03-01' });
+
+    expect(tax.exemption).toEqual({ id: 'cert-1', certificateType: 'ST-124', certificateNumber: '88-1234567' });
+    const lookup = vi.mocked(query).mock.calls.find(([sql]) => sql.includes('FROM tax_exemption_certificates'));
+    expect(lookup?.[1]).toEqual(['company-1', 'jur-erie', '2026-03-01']);
+
+    const totals = calculateTotals([{ quantity: 1, unitPrice: 100 }], tax.rates, !!tax.exemption);
+    expect(totals.taxAmount).toBe(0);
+    expect(totals.total).toBe(100);
+  });
+
+  it('does not look for exemptions without a client', async () => {
+    await resolveTax({ jurisdictionId: 'jur-erie' });
+
+    expect(vi.mocked(query).mock.calls.some(([sql]) => sql.includes('tax_exemption_certificates'))).toBe(false);
+  });
+});
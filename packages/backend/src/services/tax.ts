@@ -0,0 +1,274 @@
+import { query } from '../config/database.js';
+import { errors } from '../middleware/errorHandler.js';
+import {
+  DBJobsiteAddress,
+  DBTaxBreakdownLine,
+  DBTaxExemptionCertificate,
+  DBTaxJurisdiction,
+  DBTaxRate,
+} from '../types/index.js';
+
+// Sales tax for estimates and invoices.
+// calculateTotals is the one place document totals are worked out: each named
+// rate is applied to the taxable lines and rounded to the cent on its own, so
+// the breakdown always adds up to the tax charged. resolveTax decides which
+// rates apply: the document's jurisdiction (chosen, or found from the jobsite
+// or client address), a single custom rate when there is no jurisdiction, and
+// none at all when the client holds a current exemption certificate.
+
+export interface TaxRateComponent {
+  name: string;
+  rate: number;
+}
+
+export interface TaxableLine {
+  quantity: number;
+  unitPrice: number;
+  // Lines are taxable unless marked otherwise
+  taxable?: boolean;
+}
+
+export interface DocumentTotals {
+  subtotal: number;
+  taxableSubtotal: number;
+  // Combined rate; null when no rate applies
+  taxRate: number | null;
+  taxAmount: number;
+  total: number;
+  taxBreakdown: DBTaxBreakdownLine[];
+}
+
+export interface ResolvedTax {
+  jurisdiction: { id: string; name: string } | null;
+  rates: TaxRateComponent[];
+  exemption: { id: string; certificateType: string; certificateNumber: string | null } | null;
+}
+
+// Name of the rate on documents taxed at a custom rate
+const CUSTOM_RATE_NAME = 'Sales tax';
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function calculateTotals(lines: TaxableLine[], rates: TaxRateComponent[], exempt = false): DocumentTotals {
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0));
+  const taxableSubtotal = round2(
+    lines.filter((line) => line.taxable !== false).reduce((sum, line) => sum + line.quantity * line.unitPrice, 0)
+  );
+
+  const applied = exempt ? [] : rates.filter((rate) => rate.rate > 0);
+  const taxBreakdown = applied.map((rate) => ({
+    name: rate.name,
+    rate: rate.rate,
+    taxableAmount: taxableSubtotal,
+    amount: round2(taxableSubtotal * rate.rate),
+  }));
+  const taxAmount = round2(taxBreakdown.reduce((sum, line) => sum + line.amount, 0));
+  const taxRate = applied.length > 0
+    ? Math.round(applied.reduce((sum, rate) => sum + rate.rate, 0) * 1e6) / 1e6
+    : exempt ? 0 : null;
+
+  return { subtotal, taxableSubtotal, taxRate, taxAmount, total: round2(subtotal + taxAmount), taxBreakdown };
+}
+
+/**
+ * A document's tax breakdown. Documents from before jurisdictions have none
+ * stored and were taxed at one rate on the whole subtotal.
+ */
+export function breakdownOf(doc: {
+  tax_breakdown?: DBTaxBreakdownLine[] | null;
+  subtotal: number | string;
+  tax_rate?: number | string | null;
+  tax_amount?: number | string | null;
+}): DBTaxBreakdownLine[] {
+  if (doc.tax_breakdown) {
+    return doc.tax_breakdown;
+  }
+  const amount = parseFloat(String(doc.tax_amount ?? 0));
+  if (!amount) {
+    return [];
+  }
+  return [{
+    name: CUSTOM_RATE_NAME,
+    rate: parseFloat(String(doc.tax_rate ?? 0)),
+    taxableAmount: parseFloat(String(doc.subtotal)),
+    amount,
+  }];
+}
+
+export async function getJurisdictionRates(jurisdictionId: string): Promise<TaxRateComponent[]> {
+  const rates = await query<DBTaxRate>(
+    'SELECT * FROM tax_rates WHERE jurisdiction_id = $1 ORDER BY sort_order, name',
+    [jurisdictionId]
+  );
+  return rates.map((r) => ({ name: r.name, rate: parseFloat(String(r.rate)) }));
+}
+
+/**
+ * The active jurisdiction for an address: one listing its ZIP code, or else
+ * the state-wide one (no ZIP codes) for its state.
+ */
+export async function findJurisdiction(address: Pick<DBJobsiteAddress, 'state' | 'zip'>): Promise<DBTaxJurisdiction | null> {
+  const state = address.state.trim();
+  if (!state) {
+    return null;
+  }
+  const zip = address.zip.trim().slice(0, 5);
+  const rows = await query<DBTaxJurisdiction>(
+    `SELECT * FROM tax_jurisdictions
+     WHERE is_active AND UPPER(state) = UPPER($1)
+       AND ($2 = ANY(zip_codes) OR cardinality(zip_codes) = 0)
+     ORDER BY cardinality(zip_codes) = 0, name
+     LIMIT 1`,
+    [state, zip]
+  );
+  return rows[0] ?? null;
+}
+
+// Where the work happens: the project's jobsite, else the client's main address
+export async function taxAddressFor(
+  clientId: string | null | undefined,
+  projectId: string | null | undefined
+): Promise<Pick<DBJobsiteAddress, 'state' | 'zip'> | null> {
+  if (projectId) {
+    const projects = await query<{ jobsite_address: DBJobsiteAddress | null }>(
+      'SELECT jobsite_address FROM projects WHERE id = $1',
+      [projectId]
+    );
+    const jobsite = projects[0]?.jobsite_address;
+    if (jobsite?.state) {
+      return jobsite;
+    }
+  }
+  if (clientId) {
+    const addresses = await query<{ state: string; zip: string }>(
+      'SELECT state, zip FROM company_addresses WHERE company_id = $1 AND is_main',
+      [clientId]
+    );
+    if (addresses[0]?.state) {
+      return addresses[0];
+    }
+  }
+  return null;
+}
+
+// The client's exemption certificate in force on the date, if any
+export async function findExemption(
+  clientId: string,
+  jurisdictionId: string | null,
+  date: string
+): Promise<DBTaxExemptionCertificate | null> {
+  const rows = await query<DBTaxExemptionCertificate>(
+    `SELECT * FROM tax_exemption_certificates
+     WHERE company_id = $1
+       AND (jurisdiction_id IS NULL OR jurisdiction_id = $2)
+       AND effective_date <= $3::date
+       AND (expires_on IS NULL OR expires_on >= $3::date)
+     ORDER BY effective_date DESC
+     LIMIT 1`,
+    [clientId, jurisdictionId, date]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Which rates apply to a document.
+ * jurisdictionId: an id uses that jurisdiction, null uses the custom taxRate,
+ * and undefined looks the jurisdiction up from the jobsite or client address
+ * (falling back to taxRate when none matches). date (YYYY-MM-DD) is when an
+ * exemption certificate must be in force; it defaults to today.
+ */
+export async function resolveTax(options: {
+  clientId?: string | null;
+  projectId?: string | null;
+  jurisdictionId?: string | null;
+  taxRate?: number | null;
+  date?: string;
+}): Promise<ResolvedTax> {
+  let jurisdiction: DBTaxJurisdiction | null = null;
+
+  if (options.jurisdictionId) {
+    const rows = await query<DBTaxJurisdiction>('SELECT * FROM tax_jurisdictions WHERE id = $1', [options.jurisdictionId]);
+    if (rows.length === 0) {
+      throw errors.badRequest('Unknown tax jurisdiction');
+    }
+    jurisdiction = rows[0];
+  } else if (options.jurisdictionId === undefined) {
+    const address = await taxAddressFor(options.clientId, options.projectId);
+    jurisdiction = address ? await findJurisdiction(address) : null;
+  }
+
+  const rates = jurisdiction
+    ? await getJurisdictionRates(jurisdiction.id)
+    : options.taxRate ? [{ name: CUSTOM_RATE_NAME, rate: options.taxRate }] : [];
+
+  const date = options.date ?? new Date().toISOString().split('T')[0];
+  const exemption = options.clientId
+    ? await findExemption(options.clientId, jurisdiction?.id ?? null, date)
+    : null;
+
+  return {
+    jurisdiction: jurisdiction ? { id: jurisdiction.id, name: jurisdiction.name } : null,
+    rates,
+    exemption: exemption
+      ? { id: exemption.id, certificateType: exemption.certificate_type, certificateNumber: exemption.certificate_number }
+      : null,
+  };
+}
+
+// Columns and joins that name a document's jurisdiction and exemption for
+// mapDocumentTax; alias is the estimates or invoices table alias
+export const TAX_COLUMNS =
+  'tj.name as tax_jurisdiction_name, tx.certificate_type as tax_exemption_type, tx.certificate_number as tax_exemption_number';
+
+export function taxJoins(alias: string): string {
+  return `LEFT JOIN tax_jurisdictions tj ON ${alias}.tax_jurisdiction_id = tj.id
+       LEFT JOIN tax_exemption_certificates tx ON ${alias}.tax_exemption_id = tx.id`;
+}
+
+interface DocumentTaxRow {
+  subtotal: number | string;
+  tax_rate?: number | string | null;
+  tax_amount?: number | string | null;
+  taxable_subtotal: number | string;
+  tax_breakdown: DBTaxBreakdownLine[] | null;
+  tax_jurisdiction_id: string | null;
+  tax_exemption_id: string | null;
+  tax_jurisdiction_name?: string | null;
+  tax_exemption_type?: string | null;
+  tax_exemption_number?: string | null;
+}
+
+// e.g. 'ST-124 #88-1234567', as printed on documents
+export function exemptionLabel(row: Pick<DocumentTaxRow, 'tax_exemption_id' | 'tax_exemption_type' | 'tax_exemption_number'>): string | null {
+  if (!row.tax_exemption_id || !row.tax_exemption_type) {
+    return null;
+  }
+  return row.tax_exemption_number ? `${row.tax_exemption_type} #${row.tax_exemption_number}` : row.tax_exemption_type;
+}
+
+export function mapDocumentTax(row: DocumentTaxRow) {
+  return {
+    taxJurisdictionId: row.tax_jurisdiction_id,
+    taxJurisdictionName: row.tax_jurisdiction_name ?? null,
+    taxableSubtotal: parseFloat(String(row.taxable_subtotal)),
+    taxBreakdown: breakdownOf(row),
+    taxExemption: row.tax_exemption_id
+      ? {
+          id: row.tax_exemption_id,
+          certificateType: row.tax_exemption_type ?? null,
+          certificateNumber: row.tax_exemption_number ?? null,
+        }
+      : null,
+  };
+}
+
+// Saved line item rows as calculateTotals takes them
+export function taxableLines(rows: Array<{ quantity: number | string; unit_price: number | string; taxable: boolean }>): TaxableLine[] {
+  return rows.map((row) => ({
+    quantity: parseFloat(String(row.quantity)),
+    unitPrice: parseFloat(String(row.unit_price)),
+    taxable: row.taxable,
+  }));
+}
@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { resolveTax } from './tax.js';
+import { addDays, assertCanApprove, invoiceBillableHours, openTimesheet, weekStartOf } from './timeTracking.js';
+import { DBProject, DBTimesheet, JWTPayload } from '../types/index.js';
+
+vi.mock('../config/database.js', () => ({ query: vi.fn(), withTransaction: vi.fn() }));
+vi.mock('./tax.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./tax.js')>()),
+  resolveTax: vi.fn(),
+}));
+
+const sheet = (status: DBTimesheet['status'] = 'submitted'): DBTimesheet => ({
+  id: 'timesheet-1',
+  user_id: 'user-crew',
+  week_start: '2026-03-30',
+  status,
+  submitted_at: null,
+  decided_by: null,
+  decided_at: null,
+  rejection_reason: null,
+  created_at: new Date('2026-03-30T12:00:00Z'),
+  updated_at: new Date('2026-03-30T12:00:00Z'),
+});
+
+const user = (sub: string, roles: string[] = ['user']): JWTPayload => ({
+  sub,
+  email: `${sub}@sgbuilders.example`,
+  name: sub,
+  roles,
+  permissions: [],
+  iat: 0,
+  exp: 0,
+});
+
+describe('weekStartOf', () => {
+  it('goes back to the Monday of the week', () => {
+    expect(weekStartOf('2026-04-01')).toBe('2026-03-30'); // Wednesday
+    expect(weekStartOf('2026-03-30')).toBe('2026-03-30'); // Monday
+  });
+
+  it('counts Sunday as the end of the week, not the start', () => {
+    expect(weekStartOf('2026-03-01')).toBe('2026-02-23');
+  });
+
+  it('crosses month and year boundaries', () => {
+    expect(weekStartOf('2026-05-02')).toBe('2026-04-27');
+    expect(weekStartOf('2027-01-01')).toBe('2026-12-28');
+  });
+
+  it('is unaffected by the daylight saving change', () => {
+    // US clocks go forward on Sunday 2026-03-08
+    expect(weekStartOf('2026-03-08')).toBe('2026-03-02');
+    expect(weekStartOf('2026-03-09')).toBe('2026-03-09');
+  });
+});
+
+describe('addDays', () => {
+  it('finds the Sunday that ends a week running into the next month', () => {
+    expect(addDays(weekStartOf('2026-04-01'), 6)).toBe('2026-04-05');
+  });
+
+  it('handles leap years and going backwards', () => {
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29');
+    expect(addDays('2026-03-02', -7)).toBe('2026-02-23');
+  });
+});
+
+describe('openTimesheet', () => {
+  const calls: Array<{ sql: string; params: any[] }> = [];
+  let status: DBTimesheet['status'];
+  const db = {
+    query: async (sql: string, params: any[]) => {
+      calls.push({ sql, params });
+      return { rows: sql.includes('FOR UPDATE') ? [sheet(status)] : [] };
+    },
+  } as unknown as PoolClient;
+
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  it('files the day under the week it falls in', async () => {
+    status = 'open';
+
+    await openTimesheet(db, 'user-crew', '2026-04-03');
+
+    expect(calls.map((c) => c.params)).toEqual([
+      ['user-crew', '2026-03-30'],
+      ['user-crew', '2026-03-30'],
+    ]);
+  });
+
+  it('reopens a rejected week for changes', async () => {
+    status = 'rejected';
+
+    await expect(openTimesheet(db, 'user-crew', '2026-04-03')).resolves.toMatchObject({ status: 'rejected' });
+  });
+
+  it('refuses a week waiting for approval or already approved', async () => {
+    status = 'submitted';
+    await expect(openTimesheet(db, 'user-crew', '2026-04-03')).rejects.toThrow('submitted for approval');
+
+    status = 'approved';
+    await expect(openTimesheet(db, 'user-crew', '2026-04-03')).rejects.toThrow('has been approved');
+  });
+});
+
+describe('assertCanApprove', () => {
+  // The foreman's placement, and the timesheets their crew filed
+  const supervisedSheets = new Set(['timesheet-1']);
+
+  beforeEach(() => {
+    vi.mocked(query).mockReset().mockImplementation(async (sql: string, params: any[] = []) => {
+      if (sql.includes('FROM user_org_placements WHERE email = $1')) {
+        return params[0] === 'user-foreman@sgbuilders.example'
+          ? [{ email: params[0], portal_user_id: 'portal-foreman', position_id: 'position-foreman', supervisor_ids: [] }]
+          : [];
+      }
+      if (sql.includes('FROM timesheets t WHERE t.id = $1')) {
+        return params[1] === 'portal-foreman' && params[2] === 'position-foreman' && supervisedSheets.has(params[0]) ? [{}] : [];
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    });
+  });
+
+  it('refuses anyone approving their own week, administrators included', async () => {
+    for (const approver of [user('user-crew'), user('user-crew', ['admin'])]) {
+      const error = await assertCanApprove(approver, sheet()).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error).toMatchObject({ statusCode: 403, message: 'You cannot approve your own timesheet' });
+    }
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("lets an administrator approve anyone else's week", async () => {
+    await expect(assertCanApprove(user('user-office', ['admin']), sheet())).resolves.toBeUndefined();
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('lets a supervisor approve their crew', async () => {
+    await expect(assertCanApprove(user('user-foreman'), sheet())).resolves.toBeUndefined();
+  });
+
+  it('refuses a supervisor of someone else', async () => {
+    await expect(assertCanApprove(user('user-foreman'), { ...sheet(), id: 'timesheet-2' })).rejects.toThrow(
+      'Only a supervisor of this person can approve their timesheet'
+    );
+  });
+
+  it('refuses someone not yet placed in the org chart', async () => {
+    await expect(assertCanApprove(user('user-new'), sheet())).rejects.toThrow(
+      'Only a supervisor of this person can approve their timesheet'
+    );
+    expect(vi.mocked(query).mock.calls.some(([sql]) => sql.includes('FROM timesheets'))).toBe(false);
+  });
+});
+
+describe('invoiceBillableHours', () => {
+  const PROJECT = { id: 'project-1', name: 'Harbor Point Tower', client_id: 'company-1' } as DBProject;
+  // Approved, unbilled billable entries, by name then date
+  const ENTRIES = [
+    { id: 'entry-1', user_id: 'user-ana', user_name: 'Ana Ortiz', hours: '8.00' },
+    { id: 'entry-2', user_id: 'user-ana', user_name: 'Ana Ortiz', hours: '7.50' },
+    { id: 'entry-3', user_id: 'user-ana', user_name: 'Ana Ortiz', hours: '0.25' },
+    { id: 'entry-4', user_id: 'user-ben', user_name: 'Ben Carter', hours: '4.00' },
+    { id: 'entry-5', user_id: 'user-ben', user_name: 'Ben Carter', hours: '4.00' },
+  ];
+
+  let entries: typeof ENTRIES;
+  let invoice: any[];
+  let lineItems: any[][];
+  let billed: { entryIds: string[]; invoiceId: string } | null;
+  let activity: string[];
+
+  const db = {
+    query: async (sql: string, params: any[] = []) => {
+      if (sql.includes('FROM time_entries e')) return { rows: entries };
+      if (sql.includes("nextval('invoice_number_seq')")) return { rows: [{ nextval: '1042' }] };
+      if (sql.includes('INSERT INTO invoices')) {
+        invoice = params;
+        return { rows: [{ id: 'invoice-1' }] };
+      }
+      if (sql.includes('INSERT INTO invoice_line_items')) {
+        lineItems.push(params);
+        return { rows: [] };
+      }
+      if (sql.includes('UPDATE time_entries SET invoice_id')) {
+        billed = { entryIds: params[0], invoiceId: params[1] };
+        return { rows: [] };
+      }
+      if (sql.includes('INSERT INTO activities')) {
+        activity.push(params[2]);
+        return { rows: [] };
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  } as unknown as PoolClient;
+
+  beforeEach(() => {
+    entries = ENTRIES;
+    invoice = [];
+    lineItems = [];
+    billed = null;
+    activity = [];
+    vi.mocked(withTransaction).mockImplementation((fn) => fn(db));
+    vi.mocked(resolveTax).mockReset().mockResolvedValue({
+      jurisdiction: { id: 'jurisdiction-1', name: 'Erie County' },
+      rates: [{ name: 'Sales tax', rate: 0.08 }],
+      exemption: null,
+    });
+  });
+
+  it('bills one labor line per person at their rate, or the default', async () => {
+    const result = await invoiceBillableHours(PROJECT, { hourlyRate: 65, rates: { 'user-ana': 85 }, taxable: false }, 'user-1');
+
+    expect(result).toEqual({ invoiceId: 'invoice-1', invoiceNumber: 'INV-1042', hours: 23.75 });
+    // invoice_id, description, quantity, unit_price, total, taxable, sort_order
+    expect(lineItems).toEqual([
+      ['invoice-1', 'Labor - Ana Ortiz (15.75 hrs)', 15.75, 85, 1338.75, false, 0],
+      ['invoice-1', 'Labor - Ben Carter (8 hrs)', 8, 65, 520, false, 1],
+    ]);
+    // subtotal, tax rate, tax amount, total; the rate is recorded though nothing was taxed
+    expect(invoice.slice(4, 8)).toEqual([1858.75, 0.08, 0, 1858.75]);
+    expect(billed).toEqual({ entryIds: ['entry-1', 'entry-2', 'entry-3', 'entry-4', 'entry-5'], invoiceId: 'invoice-1' });
+    expect(activity).toEqual(['Created invoice INV-1042 for 23.75 approved hours on Harbor Point Tower']);
+  });
+
+  it("taxes taxable labor at the project's rate", async () => {
+    await invoiceBillableHours(PROJECT, { hourlyRate: 65, rates: { 'user-ana': 85 }, taxable: true }, 'user-1');
+
+    expect(invoice.slice(4, 8)).toEqual([1858.75, 0.08, 148.7, 2007.45]);
+    expect(invoice[8]).toBe('jurisdiction-1');
+  });
+
+  it('does not tax a client with an exemption on file', async () => {
+    vi.mocked(resolveTax).mockResolvedValue({
+      jurisdiction: { id: 'jurisdiction-1', name: 'Erie County' },
+      rates: [{ name: 'Sales tax', rate: 0.08 }],
+      exemption: { id: 'exemption-1', certificateType: 'ST-119.1', certificateNumber: '12-3456789' },
+    });
+
+    await invoiceBillableHours(PROJECT, { hourlyRate: 65, taxable: true }, 'user-1');
+
+    expect(invoice.slice(6, 8)).toEqual([0, 1543.75]);
+    expect(invoice[9]).toBe('exemption-1');
+  });
+
+  it('adds up fractional hours to the hundredth', async () => {
+    entries = [0.1, 0.2, 0.7].map((hours, i) => ({ ...ENTRIES[0], id: `entry-${i}`, hours: String(hours) }));
+
+    const { hours } = await invoiceBillableHours(PROJECT, { hourlyRate: 100, taxable: false }, 'user-1');
+
+    expect(hours).toBe(1);
+    expect(lineItems[0].slice(1, 5)).toEqual(['Labor - Ana Ortiz (1 hrs)', 1, 100, 100]);
+  });
+
+  it('refuses when there is nothing approved to bill', async () => {
+    entries = [];
+
+    await expect(invoiceBillableHours(PROJECT, { hourlyRate: 65, taxable: false }, 'user-1')).rejects.toThrow(
+      'There are no approved billable hours to invoice'
+    );
+    expect(invoice).toEqual([]);
+  });
+
+  it('refuses a project without a client', async () => {
+    await expect(
+      invoiceBillableHours({ ...PROJECT, client_id: null as unknown as string }, { hourlyRate: 65, taxable: false }, 'user-1')
+    ).rejects.toThrow('The project has no client to invoice');
+    expect(resolveTax).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,273 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database.js';
+import { errors } from '../middleware/errorHandler.js';
+import { calculateTotals, resolveTax } from './tax.js';
+import { mapPlacement, type DBOrgPlacement } from './permissions.js';
+import { DBProject, DBTimesheet, JWTPayload } from '../types/index.js';
+
+// Time tracking: entries are grouped into one timesheet per user per week
+// (Monday to Sunday). A week can be changed while it is open or after it
+// was rejected; once submitted it waits for a supervisor - anyone in the
+// position the user's position reports to, or one of their additional
+// supervisors (see user_org_placements) - and approved weeks are final.
+// Administrators may approve anyone's week but their own.
+
+export const TIMESHEET_COLUMNS = `t.id, t.user_id, to_char(t.week_start, 'YYYY-MM-DD') AS week_start, t.status,
+  t.submitted_at, t.decided_by, t.decided_at, t.rejection_reason, t.created_at, t.updated_at`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Monday of the week a YYYY-MM-DD date falls in
+export function weekStartOf(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export async function loadTimesheet(id: string): Promise<DBTimesheet> {
+  const rows = await query<DBTimesheet>(`SELECT ${TIMESHEET_COLUMNS} FROM timesheets t WHERE t.id = $1`, [id]);
+  if (rows.length === 0) {
+    throw errors.notFound('Timesheet');
+  }
+  return rows[0];
+}
+
+export function assertEditable(sheet: DBTimesheet): void {
+  if (sheet.status === 'submitted') {
+    throw errors.badRequest('That week has been submitted for approval and can no longer be changed');
+  }
+  if (sheet.status === 'approved') {
+    throw errors.badRequest('That week has been approved and can no longer be changed');
+  }
+}
+
+/**
+ * The user's timesheet for the week `date` falls in, created if need be and
+ * locked for the rest of the transaction. Throws unless the week can still be
+ * changed.
+ */
+export async function openTimesheet(db: PoolClient, userId: string, date: string): Promise<DBTimesheet> {
+  await db.query(
+    `INSERT INTO timesheets (user_id, week_start) VALUES ($1, $2)
+     ON CONFLICT (user_id, week_start) DO NOTHING`,
+    [userId, weekStartOf(date)]
+  );
+  const sheet = (await db.query<DBTimesheet>(
+    `SELECT ${TIMESHEET_COLUMNS} FROM timesheets t WHERE t.user_id = $1 AND t.week_start = $2 FOR UPDATE`,
+    [userId, weekStartOf(date)]
+  )).rows[0];
+  assertEditable(sheet);
+  return sheet;
+}
+
+async function placementOf(email: string) {
+  const rows = await query<DBOrgPlacement>('SELECT * FROM user_org_placements WHERE email = $1', [email.toLowerCase()]);
+  return mapPlacement(rows[0]);
+}
+
+/**
+ * Portal user ids (Admin > Users) of the people who can approve a user's
+ * timesheets: everyone in the position theirs reports to, and their
+ * additional supervisors.
+ */
+export async function approverIdsFor(userId: string): Promise<string[]> {
+  const users = await query<{ email: string }>('SELECT email FROM users WHERE id = $1', [userId]);
+  if (users.length === 0) {
+    return [];
+  }
+
+  const placement = await placementOf(users[0].email);
+  const byPosition = placement.reportsToPositionId
+    ? await query<{ portal_user_id: string }>(
+        'SELECT portal_user_id FROM user_org_placements WHERE portal_user_id IS NOT NULL AND position_id = $1',
+        [placement.reportsToPositionId]
+      )
+    : [];
+  return Array.from(new Set([...byPosition.map((r) => r.portal_user_id), ...placement.supervisorIds]));
+}
+
+/**
+ * SQL condition limiting timesheets (alias `alias`) to those the approver
+ * supervises, with the approver's portal user id and position id bound to
+ * `userParam` and `positionParam`.
+ */
+export function supervisedCondition(alias: string, userParam: string, positionParam: string): string {
+  return `EXISTS (SELECT 1 FROM users su
+                  JOIN user_org_placements sp ON sp.email = LOWER(su.email)
+                  WHERE su.id = ${alias}.user_id
+                    AND (${userParam}::text = ANY(sp.supervisor_ids)
+                         OR (${positionParam}::text IS NOT NULL AND sp.reports_to_position_id = ${positionParam})))`;
+}
+
+// The approver's portal user id and position, for supervisedCondition
+export async function approverKey(approver: JWTPayload): Promise<{ userId: string | null; positionId: string | null }> {
+  const me = await placementOf(approver.email);
+  return { userId: me.userId, positionId: me.positionId };
+}
+
+export async function assertCanApprove(approver: JWTPayload, sheet: DBTimesheet): Promise<void> {
+  if (sheet.user_id === approver.sub) {
+    throw errors.forbidden('You cannot approve your own timesheet');
+  }
+  if (approver.roles.includes('admin')) {
+    return;
+  }
+
+  const me = await approverKey(approver);
+  const supervised = me.userId
+    ? await query(
+        `SELECT 1 FROM timesheets t WHERE t.id = $1 AND ${supervisedCondition('t', '$2', '$3')}`,
+        [sheet.id, me.userId, me.positionId]
+      )
+    : [];
+  if (supervised.length === 0) {
+    throw errors.forbidden('Only a supervisor of this person can approve their timesheet');
+  }
+}
+
+/**
+ * Stop the user's running timer, booking the time since it started (at most
+ * a day). Returns the entry id, or null when no timer was running.
+ */
+export async function stopTimer(db: PoolClient, userId: string): Promise<string | null> {
+  const stopped = await db.query<{ id: string }>(
+    `UPDATE time_entries
+     SET ended_at = NOW(),
+         hours = LEAST(24, ROUND((EXTRACT(EPOCH FROM NOW() - started_at) / 3600)::numeric, 2))
+     WHERE user_id = $1 AND hours IS NULL
+     RETURNING id`,
+    [userId]
+  );
+  return stopped.rows[0]?.id ?? null;
+}
+
+export interface BillableHours {
+  userId: string;
+  userName: string;
+  hours: number;
+  entryCount: number;
+}
+
+// Approved billable hours on a project that have not been invoiced, by person
+export async function loadBillableHours(projectId: string): Promise<BillableHours[]> {
+  const rows = await query<{ user_id: string; user_name: string; hours: string; entry_count: string }>(
+    `SELECT e.user_id, u.name AS user_name, SUM(e.hours) AS hours, COUNT(*) AS entry_count
+     FROM time_entries e
+     JOIN timesheets t ON e.timesheet_id = t.id
+     JOIN users u ON e.user_id = u.id
+     WHERE e.project_id = $1 AND e.billable AND e.invoice_id IS NULL AND t.status = 'approved'
+     GROUP BY e.user_id, u.name
+     ORDER BY u.name`,
+    [projectId]
+  );
+  return rows.map((r) => ({
+    userId: r.user_id,
+    userName: r.user_name,
+    hours: parseFloat(r.hours),
+    entryCount: parseInt(r.entry_count, 10),
+  }));
+}
+
+/**
+ * Invoice a project's approved, unbilled billable hours as a new draft
+ * invoice with one labor line per person, and mark the entries billed.
+ * `rates` gives per-person hourly rates by user id; anyone missing is billed
+ * at `hourlyRate`.
+ */
+export async function invoiceBillableHours(
+  project: DBProject,
+  options: { hourlyRate: number; rates?: Record<string, number>; taxable: boolean; dueDate?: string },
+  userId: string
+): Promise<{ invoiceId: string; invoiceNumber: string; hours: number }> {
+  if (!project.client_id) {
+    throw errors.badRequest('The project has no client to invoice');
+  }
+
+  const tax = await resolveTax({ clientId: project.client_id, projectId: project.id });
+
+  return withTransaction(async (db) => {
+    // Lock the entries so the same hours cannot be billed twice
+    const entries = (await db.query<{ id: string; user_id: string; user_name: string; hours: string }>(
+      `SELECT e.id, e.user_id, u.name AS user_name, e.hours
+       FROM time_entries e
+       JOIN timesheets t ON e.timesheet_id = t.id
+       JOIN users u ON e.user_id = u.id
+       WHERE e.project_id = $1 AND e.billable AND e.invoice_id IS NULL AND t.status = 'approved'
+       ORDER BY u.name, e.entry_date
+       FOR UPDATE OF e`,
+      [project.id]
+    )).rows;
+    if (entries.length === 0) {
+      throw errors.badRequest('There are no approved billable hours to invoice');
+    }
+
+    const byUser = new Map<string, { name: string; hours: number }>();
+    for (const entry of entries) {
+      const person = byUser.get(entry.user_id) ?? { name: entry.user_name, hours: 0 };
+      person.hours = round2(person.hours + parseFloat(entry.hours));
+      byUser.set(entry.user_id, person);
+    }
+    const lines = Array.from(byUser.entries()).map(([id, person]) => ({
+      description: `Labor - ${person.name} (${person.hours} hrs)`,
+      quantity: person.hours,
+      unitPrice: options.rates?.[id] ?? options.hourlyRate,
+      taxable: options.taxable,
+    }));
+    const totals = calculateTotals(lines, tax.rates, !!tax.exemption);
+
+    const invoiceNumResult = await db.query<{ nextval: string }>("SELECT nextval('invoice_number_seq')");
+    const invoiceNumber = `INV-${invoiceNumResult.rows[0].nextval}`;
+
+    const invoices = await db.query<{ id: string }>(
+      `INSERT INTO invoices (invoice_number, client_id, project_id, status, due_date, subtotal, tax_rate, tax_amount, total,
+                             tax_jurisdiction_id, tax_exemption_id, taxable_subtotal, tax_breakdown, notes, created_by)
+       VALUES ($1, $2, $3, 'draft', COALESCE($4::date, CURRENT_DATE + INTERVAL '30 days'), $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       RETURNING id`,
+      [
+        invoiceNumber,
+        project.client_id,
+        project.id,
+        options.dueDate ?? null,
+        totals.subtotal,
+        totals.taxRate,
+        totals.taxAmount,
+        totals.total,
+        tax.jurisdiction?.id ?? null,
+        tax.exemption?.id ?? null,
+        totals.taxableSubtotal,
+        JSON.stringify(totals.taxBreakdown),
+        `Approved time on ${project.name}`,
+        userId,
+      ]
+    );
+    const invoiceId = invoices.rows[0].id;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      await db.query(
+        `INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, total, taxable, sort_order, category)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, 'Labor')`,
+        [invoiceId, line.description, line.quantity, line.unitPrice, round2(line.quantity * line.unitPrice), line.taxable, i]
+      );
+    }
+
+    await db.query('UPDATE time_entries SET invoice_id = $2 WHERE id = ANY($1)', [entries.map((e) => e.id), invoiceId]);
+
+    const hours = round2(lines.reduce((sum, line) => sum + line.quantity, 0));
+    await db.query(
+      `INSERT INTO activities (user_id, entity_type, entity_id, action, description)
+       VALUES ($1, 'invoice', $2, 'created', $3)`,
+      [userId, invoiceId, `Created invoice ${invoiceNumber} for ${hours} approved hours on ${project.name}`]
+    );
+
+    return { invoiceId, invoiceNumber, hours };
+  });
+}
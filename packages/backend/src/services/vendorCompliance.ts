@@ -0,0 +1,171 @@
+import { query } from '../config/database.js';
+import { DBCoverageType } from '../types/index.js';
+
+// Subcontractor compliance: a sub is compliant while it has a W-9 on file and
+// a certificate of insurance in force for each required coverage, and
+// prequalified once every checklist item is also done. Only the latest
+// certificate of each coverage counts, so a renewal entered ahead of time
+// clears the warning on the one it replaces.
+
+export const COVERAGE_TYPES = ['general_liability', 'workers_comp', 'auto', 'umbrella', 'professional'] as const;
+
+// Coverages every subcontractor must carry
+export const REQUIRED_COVERAGES: DBCoverageType[] = ['general_liability', 'workers_comp'];
+
+export const COVERAGE_LABELS: Record<DBCoverageType, string> = {
+  general_liability: 'General liability',
+  workers_comp: "Workers' compensation",
+  auto: 'Commercial auto',
+  umbrella: 'Umbrella',
+  professional: 'Professional liability',
+};
+
+export const PREQUALIFICATION_ITEMS = [
+  'license_verified',
+  'safety_program_reviewed',
+  'emr_reviewed',
+  'references_checked',
+  'subcontract_signed',
+] as const;
+
+export type PrequalificationItem = (typeof PREQUALIFICATION_ITEMS)[number];
+
+// Days before a certificate lapses that it starts to show as expiring
+export const COI_ALERT_DAYS = 30;
+
+export type CoverageState = 'current' | 'expiring' | 'expired' | 'missing';
+
+export interface CoverageStatus {
+  coverageType: DBCoverageType;
+  // Latest expiry on file
+  expiryDate: string | null;
+  daysLeft: number | null;
+  status: CoverageState;
+}
+
+export interface ComplianceSummary {
+  w9OnFile: boolean;
+  coverages: CoverageStatus[];
+  checklistComplete: number;
+  checklistTotal: number;
+  status: 'compliant' | 'expiring' | 'non_compliant';
+  prequalified: boolean;
+}
+
+export type ComplianceAlertKind = 'w9_missing' | 'coi_missing' | 'coi_expired' | 'coi_expiring';
+
+export interface ComplianceAlert {
+  companyId: string;
+  companyName: string;
+  companySlug: string | null;
+  kind: ComplianceAlertKind;
+  coverageType: DBCoverageType | null;
+  expiryDate: string | null;
+  daysLeft: number | null;
+}
+
+function coverageState(daysLeft: number | null, withinDays: number): CoverageState {
+  if (daysLeft === null) return 'missing';
+  if (daysLeft < 0) return 'expired';
+  return daysLeft <= withinDays ? 'expiring' : 'current';
+}
+
+// Compliance of each of the given companies, keyed by company id
+export async function loadComplianceSummaries(
+  companyIds: string[],
+  withinDays = COI_ALERT_DAYS
+): Promise<Map<string, ComplianceSummary>> {
+  const summaries = new Map<string, ComplianceSummary>();
+  if (companyIds.length === 0) return summaries;
+
+  const [companies, coverages] = await Promise.all([
+    query<{ company_id: string; w9_on_file: boolean; checklist_complete: number }>(
+      `SELECT c.id AS company_id,
+              EXISTS (SELECT 1 FROM company_compliance_documents d
+                      WHERE d.company_id = c.id AND d.document_type = 'w9') AS w9_on_file,
+              (SELECT COUNT(*) FROM company_prequalification_items p
+               WHERE p.company_id = c.id AND p.item = ANY($2))::int AS checklist_complete
+       FROM companies c
+       WHERE c.id = ANY($1)`,
+      [companyIds, PREQUALIFICATION_ITEMS]
+    ),
+    query<{ company_id: string; coverage_type: DBCoverageType; expiry_date: string | null; days_left: number | null }>(
+      `SELECT c.id AS company_id, cov.coverage_type,
+              to_char(MAX(d.expiry_date), 'YYYY-MM-DD') AS expiry_date,
+              MAX(d.expiry_date) - CURRENT_DATE AS days_left
+       FROM companies c
+       CROSS JOIN unnest($2::text[]) AS cov(coverage_type)
+       LEFT JOIN company_compliance_documents d
+         ON d.company_id = c.id AND d.document_type = 'coi' AND d.coverage_type = cov.coverage_type
+       WHERE c.id = ANY($1)
+       GROUP BY c.id, cov.coverage_type`,
+      [companyIds, REQUIRED_COVERAGES]
+    ),
+  ]);
+
+  for (const company of companies) {
+    const companyCoverages = REQUIRED_COVERAGES.map((coverageType): CoverageStatus => {
+      const row = coverages.find((c) => c.company_id === company.company_id && c.coverage_type === coverageType);
+      const daysLeft = row?.days_left ?? null;
+      return {
+        coverageType,
+        expiryDate: row?.expiry_date ?? null,
+        daysLeft,
+        status: coverageState(daysLeft, withinDays),
+      };
+    });
+
+    const lapsed = !company.w9_on_file || companyCoverages.some((c) => c.status === 'missing' || c.status === 'expired');
+    const status = lapsed
+      ? 'non_compliant'
+      : companyCoverages.some((c) => c.status === 'expiring')
+        ? 'expiring'
+        : 'compliant';
+
+    summaries.set(company.company_id, {
+      w9OnFile: company.w9_on_file,
+      coverages: companyCoverages,
+      checklistComplete: company.checklist_complete,
+      checklistTotal: PREQUALIFICATION_ITEMS.length,
+      status,
+      prequalified: status !== 'non_compliant' && company.checklist_complete === PREQUALIFICATION_ITEMS.length,
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Everything wrong with the active subcontractors' paperwork: missing W-9s,
+ * and required coverages that are missing, lapsed, or lapse within
+ * `withinDays`. Lapsed and missing come first, then the soonest to lapse.
+ */
+export async function loadComplianceAlerts(withinDays = COI_ALERT_DAYS): Promise<ComplianceAlert[]> {
+  const subs = await query<{ id: string; name: string; slug: string | null }>(
+    'SELECT id, name, slug FROM companies WHERE is_subcontractor AND is_active ORDER BY name'
+  );
+  const summaries = await loadComplianceSummaries(subs.map((s) => s.id), withinDays);
+
+  const alerts: ComplianceAlert[] = [];
+  for (const sub of subs) {
+    const summary = summaries.get(sub.id);
+    if (!summary) continue;
+
+    const base = { companyId: sub.id, companyName: sub.name, companySlug: sub.slug };
+    if (!summary.w9OnFile) {
+      alerts.push({ ...base, kind: 'w9_missing', coverageType: null, expiryDate: null, daysLeft: null });
+    }
+    for (const coverage of summary.coverages) {
+      if (coverage.status === 'current') continue;
+      alerts.push({
+        ...base,
+        kind: coverage.status === 'missing' ? 'coi_missing' : coverage.status === 'expired' ? 'coi_expired' : 'coi_expiring',
+        coverageType: coverage.coverageType,
+        expiryDate: coverage.expiryDate,
+        daysLeft: coverage.daysLeft,
+      });
+    }
+  }
+
+  const rank = (a: ComplianceAlert) => (a.kind === 'coi_expiring' ? 1 : 0);
+  return alerts.sort((a, b) => rank(a) - rank(b) || (a.daysLeft ?? -1e6) - (b.daysLeft ?? -1e6));
+}
@@ -0,0 +1,225 @@
+import { AddressInfo } from 'net';
+import { PoolClient } from 'pg';
+import hoodiecrow, { HoodiecrowMessage } from 'hoodiecrow-imap';
+import { SMTPServer } from 'smtp-server';
+
+// Test doubles for the Sales Inbox: local IMAP and SMTP servers, and an
+// in-memory stand-in for the mail tables that answers the queries
+// services/mail.ts and jobs/syncMailbox.ts make.
+
+export interface LocalServer {
+  port: number;
+  close(): Promise<void>;
+}
+
+/** An IMAP server (login testuser / testpass) whose INBOX holds `messages` */
+export async function startImapServer(uidValidity: number, messages: HoodiecrowMessage[]): Promise<LocalServer> {
+  const server = hoodiecrow({ storage: { INBOX: { uidvalidity: uidValidity, messages } } });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return {
+    port: (server.server.address() as AddressInfo).port,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/** An SMTP server that accepts everything and keeps the raw messages */
+export async function startSmtpServer(): Promise<LocalServer & { received: string[] }> {
+  const received: string[] = [];
+  const server = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ['STARTTLS'],
+    logger: false,
+    onData(stream, _session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => {
+        received.push(Buffer.concat(chunks).toString());
+        callback();
+      });
+    },
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return {
+    port: (server.server.address() as AddressInfo).port,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/** A raw RFC 5322 message */
+export function rawMessage(headers: Record<string, string>, body = ''): string {
+  const lines = Object.entries(headers).map(([name, value]) => `${name}: ${value}`);
+  return `${lines.join('\r\n')}\r\n\r\n${body}`;
+}
+
+// ============================================================================
+// Database
+// ============================================================================
+
+export interface MailThreadRow {
+  id: string;
+  subject: string;
+  snippet: string;
+  participants: string[];
+  message_count: number;
+  unread_count: number;
+  last_message_at: Date;
+  contact_id: string | null;
+  lead_id: string | null;
+  deal_id: string | null;
+  linked_manually: boolean;
+}
+
+export interface MailMessageRow {
+  thread_id: string;
+  message_id: string;
+  in_reply_to: string | null;
+  references: string[];
+  direction: 'inbound' | 'outbound';
+  from_address: string;
+  subject: string;
+  sent_at: Date;
+  is_read: boolean;
+  imap_uid: number | null;
+}
+
+export interface MailDatabase {
+  threads: MailThreadRow[];
+  messages: MailMessageRow[];
+  contacts: Array<{ id: string; email: string | null; updated_at: Date }>;
+  contactMethods: Array<{ contact_id: string; type: string; value: string }>;
+  deals: Array<{ id: string; contact_id: string; status: string; deleted_at: Date | null; updated_at: Date }>;
+  leads: Array<{ id: string; contact_id: string; converted_at: Date | null; updated_at: Date }>;
+  syncState: Array<{ mailbox: string; uid_validity: string; last_uid: string }>;
+  /** Pool-style query, as config/database.js exports it */
+  query(sql: string, params?: any[]): Promise<any[]>;
+  /** A client for withTransaction */
+  client: PoolClient;
+}
+
+const newestFirst = (a: { updated_at: Date }, b: { updated_at: Date }) => b.updated_at.getTime() - a.updated_at.getTime();
+
+export function createMailDatabase(): MailDatabase {
+  const db: Omit<MailDatabase, 'query' | 'client'> = {
+    threads: [],
+    messages: [],
+    contacts: [],
+    contactMethods: [],
+    deals: [],
+    leads: [],
+    syncState: [],
+  };
+
+  async function run(sql: string, params: any[] = []): Promise<any[]> {
+    if (/^(BEGIN|COMMIT|ROLLBACK)$/.test(sql.trim())) return [];
+
+    if (sql.includes('FROM mail_messages WHERE message_id = $1')) {
+      return db.messages.filter((m) => m.message_id === params[0]).map(() => ({ id: params[0] }));
+    }
+    if (sql.includes('FROM mail_messages WHERE message_id = ANY($1)')) {
+      return db.messages
+        .filter((m) => params[0].includes(m.message_id))
+        .sort((a, b) => b.sent_at.getTime() - a.sent_at.getTime())
+        .slice(0, 1)
+        .map((m) => ({ thread_id: m.thread_id }));
+    }
+    if (sql.includes('INSERT INTO mail_threads')) {
+      const [subject, lastMessageAt, contactId, leadId, dealId, linkedManually] = params;
+      const thread: MailThreadRow = {
+        id: `thread-${db.threads.length + 1}`,
+        subject,
+        snippet: '',
+        participants: [],
+        message_count: 0,
+        unread_count: 0,
+        last_message_at: lastMessageAt,
+        contact_id: contactId,
+        lead_id: leadId,
+        deal_id: dealId,
+        linked_manually: linkedManually,
+      };
+      db.threads.push(thread);
+      return [{ id: thread.id }];
+    }
+    if (sql.includes('INSERT INTO mail_messages')) {
+      const [threadId, messageId, inReplyTo, references, direction, fromAddress, , , , subject, , , sentAt, isRead, imapUid] = params;
+      if (db.messages.some((m) => m.message_id === messageId)) {
+        throw new Error('duplicate key value violates unique constraint "mail_messages_message_id_key"');
+      }
+      db.messages.push({
+        thread_id: threadId,
+        message_id: messageId,
+        in_reply_to: inReplyTo,
+        references,
+        direction,
+        from_address: fromAddress,
+        subject,
+        sent_at: sentAt,
+        is_read: isRead,
+        imap_uid: imapUid,
+      });
+      return [];
+    }
+    if (sql.includes('message_count = message_count + 1')) {
+      const [threadId, unread, participants, sentAt, snippet] = params;
+      const thread = db.threads.find((t) => t.id === threadId)!;
+      thread.message_count += 1;
+      thread.unread_count += unread;
+      thread.participants = Array.from(new Set([...thread.participants, ...participants]));
+      if (sentAt >= thread.last_message_at) {
+        thread.snippet = snippet;
+        thread.last_message_at = sentAt;
+      }
+      return [];
+    }
+    if (sql.includes('SELECT participants, contact_id')) {
+      return db.threads.filter((t) => t.id === params[0]);
+    }
+    if (sql.includes('FROM contacts c')) {
+      const emails: string[] = params[0];
+      const ids = new Set([
+        ...db.contacts.filter((c) => c.email && emails.includes(c.email.toLowerCase())).map((c) => c.id),
+        ...db.contactMethods
+          .filter((cm) => cm.type === 'email' && emails.includes(cm.value.toLowerCase()))
+          .map((cm) => cm.contact_id),
+      ]);
+      return db.contacts.filter((c) => ids.has(c.id)).sort(newestFirst).slice(0, 1).map((c) => ({ id: c.id }));
+    }
+    if (sql.includes('FROM deals')) {
+      return db.deals
+        .filter((d) => d.contact_id === params[0] && d.status === 'active' && !d.deleted_at)
+        .sort(newestFirst)
+        .slice(0, 1)
+        .map((d) => ({ id: d.id }));
+    }
+    if (sql.includes('FROM leads')) {
+      return db.leads
+        .filter((l) => l.contact_id === params[0] && !l.converted_at)
+        .sort(newestFirst)
+        .slice(0, 1)
+        .map((l) => ({ id: l.id }));
+    }
+    if (sql.includes('UPDATE mail_threads SET contact_id')) {
+      const [threadId, contactId, dealId, leadId] = params;
+      Object.assign(db.threads.find((t) => t.id === threadId)!, { contact_id: contactId, deal_id: dealId, lead_id: leadId });
+      return [];
+    }
+    if (sql.includes('FROM mail_sync_state')) {
+      return db.syncState.filter((s) => s.mailbox === params[0]);
+    }
+    if (sql.includes('INSERT INTO mail_sync_state')) {
+      const [mailbox, uidValidity, lastUid] = params;
+      const row = { mailbox, uid_validity: uidValidity, last_uid: String(lastUid) };
+      const existing = db.syncState.findIndex((s) => s.mailbox === mailbox);
+      db.syncState.splice(existing < 0 ? db.syncState.length : existing, 1, row);
+      return [];
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  }
+
+  return {
+    ...db,
+    query: run,
+    client: { query: async (sql: string, params?: any[]) => ({ rows: await run(sql, params) }) } as unknown as PoolClient,
+  };
+}
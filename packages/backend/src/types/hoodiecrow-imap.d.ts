@@ -0,0 +1,27 @@
+// hoodiecrow-imap ships without types; only what the mail tests use
+declare module 'hoodiecrow-imap' {
+  import { Server } from 'net';
+
+  export interface HoodiecrowMessage {
+    raw: string;
+    flags?: string[];
+    uid?: number;
+    internaldate?: Date | string;
+  }
+
+  export interface HoodiecrowMailbox {
+    uidvalidity?: number;
+    messages?: HoodiecrowMessage[];
+  }
+
+  export interface HoodiecrowServer {
+    server: Server;
+    listen(port: number, host: string, callback: () => void): void;
+    close(callback?: () => void): void;
+  }
+
+  export default function hoodiecrow(options?: {
+    storage?: Record<string, HoodiecrowMailbox>;
+    plugins?: string[];
+  }): HoodiecrowServer;
+}
@@ -7,6 +7,10 @@ export interface JWTPayload {
   name: string;
   roles: string[];
   permissions: string[];
+  // RBAC role the permissions were resolved from (see services/permissions.ts)
+  roleId?: string;
+  // Record visibility from the same roles (see services/scoping.ts)
+  recordScope?: 'own' | 'team' | 'office' | 'all';
   iat: number;
   exp: number;
 }
@@ -55,28 +59,75 @@ export interface DBProject {
   start_date?: Date;
   end_date?: Date;
   budget?: number;
-  spent?: number;
   manager_id: string;
+  jobsite_address?: DBJobsiteAddress | null;
   created_at: Date;
   updated_at: Date;
 }
 
-export interface DBClient {
+export interface DBCompany {
   id: string;
-  company_name: string;
-  contact_name?: string;
-  email?: string;
+  slug?: string;
+  name: string;
   phone?: string;
-  address?: string;
-  city?: string;
-  state?: string;
-  zip?: string;
+  website?: string;
   notes?: string;
+  sales_rep_ids: string[];
+  sales_reps_by_location: boolean;
+  legacy_id?: string;
   is_active: boolean;
+  is_customer: boolean;
+  is_subcontractor: boolean;
+  is_supplier: boolean;
+  trades: string[];
   created_at: Date;
   updated_at: Date;
 }
 
+export interface DBCompanyAddress {
+  id: string;
+  company_id: string;
+  label: string;
+  street: string;
+  suite?: string;
+  city: string;
+  state: string;
+  zip: string;
+  is_main: boolean;
+  sales_rep_ids: string[];
+  sort_order: number;
+  legacy_id?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBContact {
+  id: string;
+  company_id: string;
+  slug?: string;
+  first_name: string;
+  last_name: string;
+  email?: string;
+  phone_office?: string;
+  phone_mobile?: string;
+  role?: string;
+  notes?: string;
+  office_address_id?: string;
+  legacy_id?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBContactMethod {
+  id: string;
+  contact_id: string;
+  type: 'phone' | 'fax' | 'email';
+  label?: string;
+  value: string;
+  sort_order: number;
+  created_at: Date;
+}
+
 export interface DBEstimate {
   id: string;
   estimate_number: string;
@@ -90,11 +141,66 @@ export interface DBEstimate {
   tax_amount?: number;
   total: number;
   valid_until?: Date;
+  letterhead_id?: string;
+  terms?: string;
+  sent_revision_id?: string | null;
+  approved_revision_id?: string | null;
+  tax_jurisdiction_id: string | null;
+  tax_exemption_id: string | null;
+  taxable_subtotal: number;
+  tax_breakdown: DBTaxBreakdownLine[] | null;
   created_by: string;
   created_at: Date;
   updated_at: Date;
 }
 
+// One component of a document's sales tax (tax_breakdown JSONB)
+export interface DBTaxBreakdownLine {
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+// Immutable snapshot of an estimate as sent to the client
+export interface DBEstimateRevision {
+  id: string;
+  estimate_id: string;
+  revision: number;
+  title: string;
+  description?: string | null;
+  subtotal: number;
+  tax_rate?: number | null;
+  tax_amount: number;
+  total: number;
+  // YYYY-MM-DD
+  valid_until?: string | null;
+  terms?: string | null;
+  letterhead_id?: string | null;
+  // taxable is absent on revisions cut before lines had their own taxability
+  line_items: Array<{ description: string; quantity: number; unitPrice: number; total: number; taxable?: boolean }>;
+  tax_breakdown: DBTaxBreakdownLine[] | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export interface DBEstimateApprovalLink {
+  id: string;
+  estimate_id: string;
+  revision_id: string;
+  token_hash: string;
+  expires_at: Date;
+  status: 'open' | 'approved' | 'rejected' | 'revoked';
+  first_viewed_at: Date | null;
+  signature_name: string | null;
+  decision_note: string | null;
+  decided_at: Date | null;
+  decided_ip: string | null;
+  decided_user_agent: string | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
 export interface DBEstimateLineItem {
   id: string;
   estimate_id: string;
@@ -103,16 +209,47 @@ export interface DBEstimateLineItem {
   unit_price: number;
   total: number;
   sort_order: number;
+  catalog_item_id: string | null;
+  sku: string | null;
+  unit: string | null;
+  unit_cost: number | null;
+  markup_percent: number | null;
+  cost_type: 'labor' | 'material' | null;
+  taxable: boolean;
   created_at: Date;
 }
 
+export interface DBCatalogItem {
+  id: string;
+  sku: string | null;
+  name: string;
+  description: string | null;
+  unit: string;
+  unit_price: number;
+  unit_cost: number | null;
+  category: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBEstimateTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface DBInvoice {
   id: string;
   invoice_number: string;
   client_id: string;
   project_id?: string;
   estimate_id?: string;
-  status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+  status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'cancelled';
   issue_date: Date;
   due_date: Date;
   paid_date?: Date;
@@ -121,25 +258,470 @@ export interface DBInvoice {
   tax_amount?: number;
   total: number;
   notes?: string;
+  letterhead_id?: string;
+  terms?: string;
+  reminders_paused: boolean;
+  tax_jurisdiction_id: string | null;
+  tax_exemption_id: string | null;
+  taxable_subtotal: number;
+  tax_breakdown: DBTaxBreakdownLine[] | null;
   created_by: string;
   created_at: Date;
   updated_at: Date;
 }
 
-export interface DBTask {
+export interface DBTaxJurisdiction {
+  id: string;
+  name: string;
+  state: string;
+  zip_codes: string[];
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBTaxRate {
+  id: string;
+  jurisdiction_id: string;
+  name: string;
+  rate: number;
+  sort_order: number;
+}
+
+export interface DBTaxExemptionCertificate {
+  id: string;
+  company_id: string;
+  certificate_type: string;
+  certificate_number: string | null;
+  jurisdiction_id: string | null;
+  effective_date: string; // YYYY-MM-DD
+  expires_on: string | null; // YYYY-MM-DD
+  notes: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBPayment {
+  id: string;
+  invoice_id: string;
+  client_id: string;
+  amount: number;
+  overpayment: number;
+  method: 'check' | 'ach' | 'card' | 'cash' | 'other' | 'credit';
+  reference?: string;
+  payment_date: string; // YYYY-MM-DD
+  notes?: string;
+  recorded_by?: string;
+  created_at: Date;
+}
+
+export interface DBInvoiceReminder {
+  id: string;
+  invoice_id: string;
+  step_days: number;
+  level: 'gentle' | 'firm' | 'final';
+  status: 'queued' | 'sent' | 'skipped' | 'cancelled';
+  recipient: string | null;
+  subject: string;
+  body: string;
+  error: string | null;
+  sent_at: Date | null;
+  sent_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBAccountingExportBatch {
+  id: string;
+  format: 'iif' | 'csv';
+  from_date: Date;
+  to_date: Date;
+  invoice_count: number;
+  payment_count: number;
+  total_amount: number;
+  filename: string;
+  content: string;
+  created_by: string | null;
+  created_at: Date;
+  voided_at: Date | null;
+  voided_by: string | null;
+}
+
+export interface DBScheduleOfValues {
+  id: string;
+  estimate_id: string;
+  revision_id: string | null;
+  original_contract_sum: number;
+  retainage_percent: number;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBScheduleOfValuesLine {
+  id: string;
+  schedule_id: string;
+  item_number: string;
+  description: string;
+  scheduled_value: number;
+  taxable: boolean;
+  sort_order: number;
+  // Set for lines added by an approved change order
+  change_order_id: string | null;
+  created_at: Date;
+}
+
+export interface DBPayApplication {
+  id: string;
+  schedule_id: string;
+  application_number: number;
+  // YYYY-MM-DD
+  application_date: string;
+  period_to: string;
+  retainage_percent: number;
+  status: 'draft' | 'invoiced';
+  invoice_id: string | null;
+  amount_due: number | null;
+  notes: string | null;
+  invoiced_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBPayApplicationLine {
+  pay_application_id: string;
+  line_id: string;
+  work_this_period: number;
+  stored_materials: number;
+}
+
+export type JobCostType = 'labor' | 'material' | 'equipment' | 'subcontractor' | 'other';
+
+export interface DBCostCode {
+  id: string;
+  code: string;
+  name: string;
+  cost_type: JobCostType;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBProjectBudgetLine {
   id: string;
   project_id: string;
+  cost_code_id: string;
+  description: string;
+  amount: number;
+  estimate_id: string | null;
+  // Set for lines added by an approved change order
+  change_order_id: string | null;
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBJobCostCommitment {
+  id: string;
+  project_id: string;
+  cost_code_id: string;
+  commitment_type: 'subcontract' | 'purchase_order';
+  reference: string | null;
+  vendor_id: string | null;
+  description: string;
+  amount: number;
+  status: 'open' | 'closed' | 'void';
+  // YYYY-MM-DD
+  issued_date: string;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBJobCostEntry {
+  id: string;
+  project_id: string;
+  cost_code_id: string;
+  cost_type: JobCostType;
+  // YYYY-MM-DD
+  entry_date: string;
+  description: string;
+  amount: number;
+  vendor_id: string | null;
+  commitment_id: string | null;
+  reference: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBProjectPhase {
+  id: string;
+  project_id: string;
+  name: string;
+  is_milestone: boolean;
+  // YYYY-MM-DD
+  start_date: string;
+  end_date: string;
+  percent_complete: number;
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBProjectPhaseDependency {
+  predecessor_id: string;
+  successor_id: string;
+  created_at: Date;
+}
+
+export type DBTimesheetStatus = 'open' | 'submitted' | 'approved' | 'rejected';
+
+export interface DBTimesheet {
+  id: string;
+  user_id: string;
+  // YYYY-MM-DD, a Monday
+  week_start: string;
+  status: DBTimesheetStatus;
+  submitted_at: Date | null;
+  decided_by: string | null;
+  decided_at: Date | null;
+  rejection_reason: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBTimeEntry {
+  id: string;
+  timesheet_id: string;
+  user_id: string;
+  project_id: string;
+  task_id: string | null;
+  // YYYY-MM-DD
+  entry_date: string;
+  started_at: Date | null;
+  ended_at: Date | null;
+  // Null while the timer is running
+  hours: number | null;
+  description: string | null;
+  billable: boolean;
+  invoice_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type DBChangeOrderStatus = 'draft' | 'pending' | 'approved' | 'rejected';
+
+export interface DBChangeOrder {
+  id: string;
+  project_id: string;
+  estimate_id: string;
+  number: number;
+  title: string;
+  description: string | null;
+  status: DBChangeOrderStatus;
+  amount: number;
+  cost_impact: number;
+  schedule_impact_days: number;
+  decided_by: string | null;
+  decided_at: Date | null;
+  rejection_reason: string | null;
+  invoice_id: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBChangeOrderLine {
+  id: string;
+  change_order_id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  unit_cost: number | null;
+  cost_code_id: string | null;
+  taxable: boolean;
+  sort_order: number;
+}
+
+export type DBComplianceDocumentType = 'w9' | 'coi';
+
+export type DBCoverageType = 'general_liability' | 'workers_comp' | 'auto' | 'umbrella' | 'professional';
+
+export interface DBComplianceDocument {
+  id: string;
+  company_id: string;
+  document_type: DBComplianceDocumentType;
+  coverage_type: DBCoverageType | null;
+  carrier: string | null;
+  policy_number: string | null;
+  coverage_amount: number | null;
+  effective_date: string; // YYYY-MM-DD
+  expiry_date: string | null; // YYYY-MM-DD
+  notes: string | null;
+  expiry_alerted_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBPrequalificationItem {
+  company_id: string;
+  item: string;
+  completed_by: string | null;
+  completed_at: Date;
+  notes: string | null;
+}
+
+export interface DBProjectSubcontractor {
+  id: string;
+  project_id: string;
+  company_id: string;
+  trade: string | null;
+  scope: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBLetterhead {
+  id: string;
+  name: string;
+  data: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type DBLinkedEntityType = 'contact' | 'company' | 'project' | 'estimate' | 'invoice' | 'lead' | 'deal';
+
+export interface DBTask {
+  id: string;
+  project_id?: string;
   title: string;
   description?: string;
-  status: 'todo' | 'in_progress' | 'review' | 'completed';
+  type?: string;
+  status: 'todo' | 'in_progress' | 'review' | 'completed' | 'cancelled';
   priority: 'low' | 'medium' | 'high' | 'urgent';
-  assignee_id?: string;
-  due_date?: Date;
+  // Selected as YYYY-MM-DD / HH:MM text
+  due_date?: string;
+  due_time?: string;
+  notes?: string;
+  assigned_user_id: string;
+  assigned_user_name: string;
+  created_by_id?: string;
+  created_by_name: string;
+  linked_contact_type?: DBLinkedEntityType;
+  linked_contact_id?: string;
+  linked_contact_name?: string;
+  linked_item_type?: DBLinkedEntityType;
+  linked_item_id?: string;
+  linked_item_name?: string;
+  legacy_id?: string;
   completed_at?: Date;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface DBJobsiteAddress {
+  street: string;
+  suite?: string;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+export interface DBLead {
+  id: string;
+  slug?: string;
+  name: string;
+  company_id?: string;
+  company_name?: string;
+  contact_id?: string;
+  contact_name?: string;
+  stage: string;
+  label?: string;
+  source?: string;
+  notes?: string;
+  owner_id: string;
+  owner_name: string;
+  jobsite_address?: DBJobsiteAddress;
+  value?: string;
+  converted_to_deal_id?: string;
+  converted_at?: Date;
+  legacy_id?: string;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DBDeal extends Omit<DBLead, 'converted_to_deal_id' | 'converted_at'> {
+  status: 'active' | 'won' | 'lost';
+  commission?: string;
+  units?: number;
+  converted_from_lead_id?: string;
+  won_at?: Date;
+  lost_at?: Date;
+  lost_reason?: string;
+  deleted_at?: Date;
+}
+
+export interface DBMailThread {
+  id: string;
+  subject: string;
+  snippet: string;
+  participants: string[];
+  message_count: number;
+  unread_count: number;
+  last_message_at: Date;
+  contact_id?: string;
+  lead_id?: string;
+  deal_id?: string;
+  linked_manually: boolean;
+  created_at: Date;
+  updated_at: Date;
+  // Joined fields
+  contact_name?: string;
+  lead_name?: string;
+  deal_name?: string;
+}
+
+export interface DBMailMessage {
+  id: string;
+  thread_id: string;
+  message_id: string;
+  in_reply_to?: string;
+  references: string[];
+  direction: 'inbound' | 'outbound';
+  from_address: string;
+  from_name?: string;
+  to_addresses: string[];
+  cc_addresses: string[];
+  subject: string;
+  text_body?: string;
+  html_body?: string;
+  sent_at: Date;
+  is_read: boolean;
+  imap_uid?: string;
+  sent_by_id?: string;
+  sent_by_name?: string;
+  created_at: Date;
+}
+
+export interface DBRole {
+  id: string;
+  name: string;
+  description: string;
+  permissions: string[];
+  is_system: boolean;
+  user_count?: string;
+  unit_count?: string;
+  record_scope: 'own' | 'team' | 'office' | 'all';
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface DBActivity {
   id: string;
   user_id: string;
@@ -197,4 +779,11 @@ export interface DashboardStats {
     overdue: number;
     collected: number;
   };
+  // Contract values of projects that are not cancelled
+  contracts: {
+    original: number;
+    approvedChangeOrders: number;
+    pendingChangeOrders: number;
+    revised: number;
+  };
 }
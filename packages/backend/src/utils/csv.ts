@@ -0,0 +1,21 @@
+import { Response } from 'express';
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Quote a field when it contains a delimiter, quote or line break (RFC 4180)
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Send as a download
+export function sendCsv(res: Response, csv: string, filename: string): void {
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename.replace(/"/g, '')}"`);
+  res.send(csv);
+}
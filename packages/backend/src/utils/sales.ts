@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { DBLead, DBDeal } from '../types/index.js';
+
+// Shared pieces of the leads and deals routes. Schemas mirror LeadInput/DealInput
+// in the frontend salesStore.
+
+// First stage a converted lead lands in when none is given
+export const DEFAULT_DEAL_STAGE = 'By Estimation';
+
+export const jobsiteAddressSchema = z.object({
+  street: z.string(),
+  suite: z.string().optional(),
+  city: z.string(),
+  state: z.string(),
+  zip: z.string(),
+});
+
+// Fields shared by leads and deals
+export const salesEntitySchema = z.object({
+  name: z.string().min(1).max(255),
+  companyId: z.string().uuid().optional(),
+  companyName: z.string().max(255).optional(),
+  contactId: z.string().uuid().optional(),
+  contactName: z.string().max(255).optional(),
+  stage: z.string().min(1).max(100),
+  label: z.string().max(100).optional(),
+  source: z.string().max(100).optional(),
+  notes: z.string().optional(),
+  ownerId: z.string().min(1).max(100),
+  ownerName: z.string().max(255).optional(),
+  jobsiteAddress: jobsiteAddressSchema.optional(),
+  value: z.number().min(0).optional(),
+});
+
+
+// Column for each camelCase field that can be written on a lead or deal
+export const SALES_ENTITY_COLUMNS = {
+  name: 'name',
+  companyId: 'company_id',
+  companyName: 'company_name',
+  contactId: 'contact_id',
+  contactName: 'contact_name',
+  stage: 'stage',
+  label: 'label',
+  source: 'source',
+  notes: 'notes',
+  ownerId: 'owner_id',
+  ownerName: 'owner_name',
+  jobsiteAddress: 'jobsite_address',
+  value: 'value',
+} as const;
+
+
+// Helper to map DB lead to API response
+export function mapLead(l: DBLead) {
+  return {
+    id: l.id,
+    slug: l.slug,
+    name: l.name,
+    companyId: l.company_id ?? undefined,
+    companyName: l.company_name ?? undefined,
+    contactId: l.contact_id ?? undefined,
+    contactName: l.contact_name ?? undefined,
+    stage: l.stage,
+    label: l.label ?? undefined,
+    source: l.source ?? undefined,
+    notes: l.notes ?? undefined,
+    ownerId: l.owner_id,
+    ownerName: l.owner_name,
+    jobsiteAddress: l.jobsite_address ?? undefined,
+    value: l.value != null ? parseFloat(l.value) : undefined,
+    convertedToDealId: l.converted_to_deal_id ?? undefined,
+    convertedAt: l.converted_at ?? undefined,
+    createdAt: l.created_at,
+    updatedAt: l.updated_at,
+  };
+}
+
+export const dealInputSchema = salesEntitySchema.extend({
+  commission: z.number().min(0).optional(),
+  units: z.number().int().min(0).optional(),
+});
+
+// Optional fields accept null so they can be cleared
+export const salesEntityUpdateSchema = salesEntitySchema.partial().extend({
+  companyId: z.string().uuid().nullable().optional(),
+  companyName: z.string().max(255).nullable().optional(),
+  contactId: z.string().uuid().nullable().optional(),
+  contactName: z.string().max(255).nullable().optional(),
+  label: z.string().max(100).nullable().optional(),
+  source: z.string().max(100).nullable().optional(),
+  notes: z.string().nullable().optional(),
+  jobsiteAddress: jobsiteAddressSchema.nullable().optional(),
+  value: z.number().min(0).nullable().optional(),
+});
+
+export const reassignOwnerSchema = z.object({
+  fromOwnerId: z.string().min(1),
+  toOwnerId: z.string().min(1),
+  toOwnerName: z.string().default(''),
+});
+
+// Helper to map DB deal to API response
+export function mapDeal(d: DBDeal) {
+  return {
+    id: d.id,
+    slug: d.slug,
+    name: d.name,
+    companyId: d.company_id ?? undefined,
+    companyName: d.company_name ?? undefined,
+    contactId: d.contact_id ?? undefined,
+    contactName: d.contact_name ?? undefined,
+    stage: d.stage,
+    status: d.status,
+    label: d.label ?? undefined,
+    source: d.source ?? undefined,
+    notes: d.notes ?? undefined,
+    ownerId: d.owner_id,
+    ownerName: d.owner_name,
+    jobsiteAddress: d.jobsite_address ?? undefined,
+    value: d.value != null ? parseFloat(d.value) : undefined,
+    commission: d.commission != null ? parseFloat(d.commission) : undefined,
+    units: d.units ?? undefined,
+    convertedFromLeadId: d.converted_from_lead_id ?? undefined,
+    wonAt: d.won_at ?? undefined,
+    lostAt: d.lost_at ?? undefined,
+    lostReason: d.lost_reason ?? undefined,
+    deletedAt: d.deleted_at ?? undefined,
+    createdAt: d.created_at,
+    updatedAt: d.updated_at,
+  };
+}
@@ -0,0 +1,43 @@
+import { query } from '../config/database.js';
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<{ rowCount: number | null }> };
+
+// Tables with a unique slug column
+export type SluggedTable = 'companies' | 'contacts' | 'leads' | 'deals';
+
+// Lowercase, hyphenated, URL-safe version of `text` (matches the frontend's slugUtils)
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/&/g, 'and')
+    .replace(/'/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .replace(/-+/g, '-');
+}
+
+// Slug that is unique within `table`; appends -2, -3, ... when taken
+export async function uniqueSlug(
+  table: SluggedTable,
+  text: string,
+  options: { excludeId?: string; db?: Queryable; fallback?: string } = {}
+): Promise<string> {
+  const root = slugify(text) || options.fallback || 'item';
+  const exists = async (slug: string) => {
+    const sql = `SELECT id FROM ${table} WHERE slug = $1 AND ($2::uuid IS NULL OR id <> $2)`;
+    const params = [slug, options.excludeId ?? null];
+    if (options.db) {
+      const result = await options.db.query(sql, params);
+      return (result.rowCount ?? 0) > 0;
+    }
+    return (await query(sql, params)).length > 0;
+  };
+
+  let slug = root;
+  let counter = 2;
+  while (await exists(slug)) {
+    slug = `${root}-${counter++}`;
+  }
+  return slug;
+}
@@ -0,0 +1,21 @@
+// Build a SET clause from the fields present in `data` (undefined = unchanged, null = cleared).
+// `columns` maps camelCase input fields to their column names. Parameters start at
+// `$${firstParam}` so earlier placeholders (typically $1 = row id) stay free.
+export function buildSetClause(
+  data: Record<string, unknown>,
+  columns: Record<string, string>,
+  firstParam = 2
+): { setClause: string; params: unknown[] } {
+  const sets: string[] = [];
+  const params: unknown[] = [];
+
+  for (const [field, column] of Object.entries(columns)) {
+    const value = data[field];
+    if (value === undefined) continue;
+    // Objects/arrays are written to JSONB columns
+    params.push(value !== null && typeof value === 'object' && !Array.isArray(value) ? JSON.stringify(value) : value);
+    sets.push(`${column} = $${firstParam + params.length - 1}`);
+  }
+
+  return { setClause: sets.join(', '), params };
+}
@@ -23,6 +23,7 @@ import {
   ContactsPage,
   ProjectsPage,
   EstimatesPage,
+  EstimateApprovalPage,
   InvoicesPage,
   AccountingPage,
   AdminPage,
@@ -32,7 +33,7 @@ import {
   SalesPage,
   TasksPage,
 } from '@/components/panels';
-import { useClientsStore } from '@/contexts';
+import { useAuthStore, useClientsStore, useCompanyStore, useSalesStore, useTaskStore } from '@/contexts';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -44,13 +45,27 @@ const queryClient = new QueryClient({
   },
 });
 
-// Component to handle one-time migrations on app startup
+// Component to handle one-time migrations once the user has an API session
 function AppInitializer({ children }: { children: React.ReactNode }) {
+  const token = useAuthStore((state) => state.token);
+
   useEffect(() => {
-    // Migrate existing companies/contacts to have slugs (one-time migration)
-    // This is safe to call multiple times - it only updates records without slugs
-    useClientsStore.getState().migrateExistingSlugs();
-  }, []);
+    // Nothing reaches the server before sign-in (or for the local development admin)
+    if (!token) return;
+
+    // Load companies/contacts, the sales pipeline and tasks from the server, importing
+    // any records still held in localStorage from before server persistence (one-time
+    // migration). Order matters: each import remaps links into the ones after it.
+    useClientsStore.getState().syncWithServer()
+      .then(() => useSalesStore.getState().syncWithServer())
+      .then(() => useTaskStore.getState().syncWithServer());
+
+    // Company profile and letterheads (used for estimate and invoice PDFs)
+    useCompanyStore.getState().syncWithServer();
+
+    // Pick up role and permission changes made since the last sign-in
+    useAuthStore.getState().refreshPermissions();
+  }, [token]);
 
   return <>{children}</>;
 }
@@ -214,7 +229,7 @@ function AppRoutes() {
         <Route
           path="/sales/*"
           element={
-            <AuthGuard>
+            <AuthGuard requiredPermission="sales:view">
               <Layout>
                 <SalesLayout>
                   <SalesPage />
@@ -228,7 +243,7 @@ function AppRoutes() {
         <Route
           path="/tasks/*"
           element={
-            <AuthGuard>
+            <AuthGuard requiredPermission="tasks:view">
               <Layout>
                 <TasksLayout>
                   <Routes>
@@ -252,11 +267,20 @@ export function App() {
     <MsalProvider instance={msalInstance}>
       <QueryClientProvider client={queryClient}>
         <BrowserRouter future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
-          <AppInitializer>
-            <AppRoutes />
-            <PageNavigationGuard />
-            <ToastContainer />
-          </AppInitializer>
+          <Routes>
+            {/* Client approval links are public: no sign-in and none of the app's startup data */}
+            <Route path="/approve/:token" element={<EstimateApprovalPage />} />
+            <Route
+              path="*"
+              element={
+                <AppInitializer>
+                  <AppRoutes />
+                  <PageNavigationGuard />
+                  <ToastContainer />
+                </AppInitializer>
+              }
+            />
+          </Routes>
         </BrowserRouter>
       </QueryClientProvider>
     </MsalProvider>
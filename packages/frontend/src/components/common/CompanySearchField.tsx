@@ -22,7 +22,14 @@ import { Textarea } from './Textarea';
 import { AddressInput } from './AddressInput';
 import { UnsavedChangesModal } from './UnsavedChangesModal';
 import { DuplicateCompanyModal } from './DuplicateCompanyModal';
-import { useClientsStore, useUsersStore, useToast } from '@/contexts';
+import {
+  useClientsStore,
+  useUsersStore,
+  useToast,
+  isCompanyOfType,
+  COMPANY_TYPE_FLAGS,
+  type CompanyType,
+} from '@/contexts';
 import { useDropdownKeyboard } from '@/hooks';
 import { formatPhoneNumber } from '@/utils/validation';
 
@@ -74,6 +81,10 @@ export interface CompanySearchFieldProps {
   onCompanyChange?: (oldCompanyId: string, newCompanyId: string) => void;
   placeholder?: string;
   className?: string;
+  // Only offer companies of this type. Companies added here are created as
+  // it, and an existing company picked through duplicate detection is
+  // marked as it when saved.
+  companyType?: CompanyType;
 }
 
 export function CompanySearchField({
@@ -83,6 +94,7 @@ export function CompanySearchField({
   onEditingChange,
   onCompanyChange,
   placeholder = 'Click to assign company...',
+  companyType,
 }: CompanySearchFieldProps) {
   const { companies, addCompany, updateCompany } = useClientsStore();
   const { users } = useUsersStore();
@@ -160,20 +172,26 @@ export function CompanySearchField({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Duplicate detection still checks every company
+  const offeredCompanies = useMemo(
+    () => (companyType ? companies.filter((company) => isCompanyOfType(company, companyType)) : companies),
+    [companies, companyType]
+  );
+
   const filteredCompanies = useMemo(() => {
-    if (!companySearch) return companies;
-    return companies.filter((company) =>
+    if (!companySearch) return offeredCompanies;
+    return offeredCompanies.filter((company) =>
       company.name.toLowerCase().includes(companySearch.toLowerCase())
     );
-  }, [companies, companySearch]);
+  }, [offeredCompanies, companySearch]);
 
   const showAddCompanyOption = useMemo(() => {
     if (!companySearch.trim()) return false;
-    const exactMatch = companies.some(
+    const exactMatch = offeredCompanies.some(
       (company) => company.name.toLowerCase() === companySearch.toLowerCase()
     );
     return !exactMatch;
-  }, [companies, companySearch]);
+  }, [offeredCompanies, companySearch]);
 
   // Keyboard navigation for dropdown
   const dropdownKeyboard = useDropdownKeyboard({
@@ -204,6 +222,12 @@ export function CompanySearchField({
 
   const handleSave = (newValue: string) => {
     const oldValue = value;
+    if (companyType && newValue) {
+      const company = companies.find((c) => c.id === newValue);
+      if (company && !isCompanyOfType(company, companyType)) {
+        updateCompany(company.id, { [COMPANY_TYPE_FLAGS[companyType]]: true });
+      }
+    }
     onSave(newValue);
     setIsEditing(false);
     setShowModal(false);
@@ -416,6 +440,11 @@ export function CompanySearchField({
       addresses: addresses.length > 0 ? addresses : undefined,
       notes: companyFormData.notes || undefined,
       salesRepId: companyFormData.salesRepId || undefined,
+      ...(companyType && {
+        isCustomer: companyType === 'customer',
+        isSubcontractor: companyType === 'subcontractor',
+        isSupplier: companyType === 'supplier',
+      }),
     };
 
     addCompany(companyData);
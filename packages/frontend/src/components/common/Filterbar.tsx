@@ -7,6 +7,8 @@
 // ============================================================================
 
 import { clsx } from 'clsx';
+import { Eye } from 'lucide-react';
+import { useRecordScope } from '@/hooks';
 
 export interface FilterBarProps {
   /** Primary row content (search, dropdowns, etc.) */
@@ -84,6 +86,21 @@ export function FilterCount({
   );
 }
 
+// Record visibility badge for customer and sales lists; hidden when the user sees everything
+export function FilterScope() {
+  const { label } = useRecordScope();
+  if (!label) return null;
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300"
+      title="Your role limits which records you can see"
+    >
+      <Eye className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
+
 // Toggle button group (like List/Calendar toggle)
 export interface ToggleOption<T extends string> {
   value: T;
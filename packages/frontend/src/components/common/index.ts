@@ -34,6 +34,7 @@ export {
   FilterBar, 
   FilterDivider, 
   FilterCount, 
+  FilterScope,
   FilterToggle, 
   QuickFilters, 
   type FilterBarProps,
@@ -1,5 +1,8 @@
 import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../contexts/authStore';
+import { authService } from '../../services/auth';
+import { userHasPermission } from '../../hooks/usePermission';
 import type { Permission } from '@sg-portal/shared';
 
 interface AuthGuardProps {
@@ -8,14 +11,19 @@ interface AuthGuardProps {
 }
 
 export function AuthGuard({ children, requiredPermission }: AuthGuardProps) {
-  const { isAuthenticated, isLoading, login, user } = useAuthStore();
+  const navigate = useNavigate();
+  const { isAuthenticated, isLoading, error, login, user } = useAuthStore();
 
   useEffect(() => {
-    // Auto-login for development if not already authenticated
-    if (!isAuthenticated && !isLoading) {
-      login();
+    if (isAuthenticated || isLoading) return;
+    // Sign in silently with the Azure AD account (or the development admin);
+    // otherwise, or after a failed attempt, the user signs in from the login page
+    if (!error && (import.meta.env.DEV || authService.getActiveAccount())) {
+      login().catch(() => navigate('/login'));
+    } else {
+      navigate('/login');
     }
-  }, [isAuthenticated, isLoading, login]);
+  }, [isAuthenticated, isLoading, error, login, navigate]);
 
   // Show loading spinner while logging in
   if (isLoading || !isAuthenticated) {
@@ -31,7 +39,7 @@ export function AuthGuard({ children, requiredPermission }: AuthGuardProps) {
 
   // Check permission if required
   if (requiredPermission && user) {
-    const hasPermission = user.permissions.includes(requiredPermission);
+    const hasPermission = userHasPermission(user, requiredPermission);
     if (!hasPermission) {
       return (
         <div className="flex h-screen w-screen items-center justify-center bg-gray-100">
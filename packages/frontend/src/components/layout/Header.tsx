@@ -9,10 +9,12 @@ import {
   LogOut,
   User,
   ChevronDown,
+  ShieldAlert,
 } from 'lucide-react';
 import { useAuthStore, useUIStore, useToast, useCompanyStore } from '@/contexts';
-import { useSafeNavigate } from '@/hooks';
+import { useSafeNavigate, usePermission } from '@/hooks';
 import { HeaderDropdown, type HeaderDropdownItem } from '@/components/common';
+import { useComplianceAlerts, describeComplianceAlert } from '@/services/api';
 
 export function Header({ }: { fullWidth?: boolean }) {
   const navigate = useSafeNavigate();
@@ -20,6 +22,8 @@ export function Header({ }: { fullWidth?: boolean }) {
   const { theme, setTheme, toggleCommandPalette } = useUIStore();
   const { company } = useCompanyStore();
   const toast = useToast();
+  const canViewCompanies = usePermission('customers:view');
+  const { data: alertsData } = useComplianceAlerts({ enabled: canViewCompanies });
 
   const handleLogout = useCallback(async () => {
     try {
@@ -55,6 +59,18 @@ export function Header({ }: { fullWidth?: boolean }) {
     },
   ];
 
+  // Subcontractor paperwork that is missing or about to lapse
+  const notificationItems: HeaderDropdownItem[] = (alertsData?.data ?? []).map((alert) => ({
+    id: `${alert.companyId}-${alert.kind}-${alert.coverageType ?? ''}`,
+    label: `${alert.companyName}: ${describeComplianceAlert(alert)}`,
+    icon: (
+      <ShieldAlert
+        className={clsx('w-4 h-4', alert.kind === 'coi_expiring' ? 'text-warning-500' : 'text-danger-500')}
+      />
+    ),
+    onClick: () => navigate(`/clients/companies/${alert.companySlug || alert.companyId}`),
+  }));
+
   // User menu items
   const userMenuItems: HeaderDropdownItem[] = [
     {
@@ -174,7 +190,9 @@ export function Header({ }: { fullWidth?: boolean }) {
             trigger={
               <div className="relative">
                 <Bell className="w-5 h-5" />
-                <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-red-500" />
+                {notificationItems.length > 0 && (
+                  <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-red-500" />
+                )}
               </div>
             }
             triggerClassName={clsx(
@@ -183,7 +201,7 @@ export function Header({ }: { fullWidth?: boolean }) {
               'hover:bg-slate-100 dark:hover:bg-slate-800',
               'transition-colors'
             )}
-            items={[]}
+            items={notificationItems}
             header={
               <h3 className="font-semibold text-slate-900 dark:text-white">Notifications</h3>
             }
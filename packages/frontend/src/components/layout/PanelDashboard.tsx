@@ -3,6 +3,8 @@ import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { clsx } from 'clsx';
 import type { LucideIcon } from 'lucide-react';
+import type { Permission } from '@sg-portal/shared';
+import { useHasPermission } from '@/hooks';
 
 export interface PanelDashboardTile {
   id: string;
@@ -11,6 +13,7 @@ export interface PanelDashboardTile {
   icon: LucideIcon;
   path: string;
   color?: 'brand' | 'accent' | 'success' | 'warning' | 'danger';
+  requiredPermission?: Permission; // Hidden from users without it
 }
 
 interface PanelDashboardProps {
@@ -34,10 +37,12 @@ export function PanelDashboard({
   title, 
   description, 
   icon: Icon, 
-  tiles,
+  tiles: allTiles,
   iconGradient = 'from-slate-700 to-slate-900 dark:from-slate-600 dark:to-slate-800'
 }: PanelDashboardProps) {
   const navigate = useNavigate();
+  const can = useHasPermission();
+  const tiles = React.useMemo(() => allTiles.filter((tile) => can(tile.requiredPermission)), [allTiles, can]);
 
   // Keyboard shortcuts for tiles (1-9)
   React.useEffect(() => {
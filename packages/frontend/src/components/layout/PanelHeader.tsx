@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useLocation } from 'react-router-dom';
-import { useSafeNavigate } from '@/hooks';
+import { useSafeNavigate, useHasPermission } from '@/hooks';
 import { motion, AnimatePresence } from 'framer-motion';
 import { clsx } from 'clsx';
 import {
@@ -24,6 +24,7 @@ export function PanelHeader() {
   const { theme, setTheme, toggleCommandPalette } = useUIStore();
   const { company } = useCompanyStore();
   const toast = useToast();
+  const can = useHasPermission();
 
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
   const [focusedIndex, setFocusedIndex] = useState<number>(-1);
@@ -32,8 +33,10 @@ export function PanelHeader() {
   const dropdownItemRefs = useRef<{ [key: string]: (HTMLButtonElement | null)[] }>({});
   const hoverTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Convert PANELS object to array for mapping
-  const panels = Object.values(PANELS);
+  // Panels and tiles the user has access to
+  const panels = Object.values(PANELS)
+    .filter((panel) => can(panel.requiredPermission))
+    .map((panel) => ({ ...panel, tiles: panel.tiles.filter((tile) => can(tile.requiredPermission)) }));
 
   // Reset focused index when dropdown changes
   useEffect(() => {
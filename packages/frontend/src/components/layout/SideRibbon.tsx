@@ -4,7 +4,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { clsx } from 'clsx';
 import { ChevronLeft, ChevronRight, LayoutDashboard } from 'lucide-react';
 import { getPanel } from '@/config/panels';
-import { useSafeNavigate } from '@/hooks';
+import { useSafeNavigate, useHasPermission } from '@/hooks';
 import type { LucideIcon } from 'lucide-react';
 
 interface SideRibbonProps {
@@ -24,10 +24,11 @@ interface SideRibbonTile {
 export function SideRibbon({ panelId, className }: SideRibbonProps) {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const location = useLocation();
+  const can = useHasPermission();
   
   // Get panel config from the registry
   const panel = getPanel(panelId);
-  const tiles = panel?.tiles || [];
+  const tiles = (panel?.tiles || []).filter((tile) => can(tile.requiredPermission));
 
   // Don't render SideRibbon for panels with no sub-pages
   if (!panel || tiles.length === 0) return null;
@@ -17,6 +17,7 @@ import {
 import { useUIStore } from '@/contexts';
 import type { PanelId, Permission } from '@sg-portal/shared';
 import { useAuthStore } from '@/contexts';
+import { userHasPermission } from '@/hooks';
 
 interface NavItem {
   id: PanelId;
@@ -110,9 +111,8 @@ export function Sidebar() {
 
   // Filter nav items based on user permissions
   const visibleNavItems = navItems.filter((item) => {
-    if (!user) return false;
-    if (user.role === 'admin' || user.role === 'developer') return true;
-    return user.permissions.includes(item.requiredPermission);
+    if (user?.role === 'developer') return true;
+    return userHasPermission(user, item.requiredPermission);
   });
 
   return (
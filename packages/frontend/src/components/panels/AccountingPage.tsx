@@ -0,0 +1,164 @@
+import { Routes, Route } from 'react-router-dom';
+import { Receipt, FileText, Hourglass, Banknote, BarChart3, Percent, MapPin, FileDown, ClipboardList } from 'lucide-react';
+import { PanelDashboard } from '@/components/layout';
+import { useDocumentTitle } from '@/hooks';
+import {
+  ReportPage,
+  AccountingExportPage,
+  TaxJurisdictionsPage,
+  ProgressBillingPage,
+  ScheduleOfValuesPage,
+} from './accounting';
+
+// Accounting Panel Landing Page
+function AccountingLandingPage() {
+  useDocumentTitle('Accounting');
+
+  const tiles = [
+    {
+      id: 'invoices',
+      name: 'Invoices',
+      description: 'Bill clients and record payments.',
+      icon: FileText,
+      path: '/invoices',
+      color: 'brand' as const,
+    },
+    {
+      id: 'progress-billing',
+      name: 'Progress Billing',
+      description: 'Pay applications against a schedule of values.',
+      icon: ClipboardList,
+      path: '/accounting/progress-billing',
+      color: 'accent' as const,
+    },
+    {
+      id: 'ar-aging',
+      name: 'AR Aging',
+      description: 'Open balances by client and age.',
+      icon: Hourglass,
+      path: '/accounting/ar-aging',
+      color: 'danger' as const,
+    },
+    {
+      id: 'cash-receipts',
+      name: 'Cash Receipts',
+      description: 'Payments received by date.',
+      icon: Banknote,
+      path: '/accounting/cash-receipts',
+      color: 'success' as const,
+    },
+    {
+      id: 'revenue',
+      name: 'Revenue',
+      description: 'Revenue by month, client or project.',
+      icon: BarChart3,
+      path: '/accounting/revenue',
+      color: 'accent' as const,
+    },
+    {
+      id: 'tax',
+      name: 'Tax Collected',
+      description: 'Sales tax billed and collected.',
+      icon: Percent,
+      path: '/accounting/tax',
+      color: 'warning' as const,
+    },
+    {
+      id: 'tax-jurisdictions',
+      name: 'Tax Jurisdictions',
+      description: 'Sales tax rates by state and ZIP code.',
+      icon: MapPin,
+      path: '/accounting/tax-jurisdictions',
+      color: 'accent' as const,
+    },
+    {
+      id: 'export',
+      name: 'Export to Books',
+      description: 'QuickBooks IIF and journal CSV exports.',
+      icon: FileDown,
+      path: '/accounting/export',
+      color: 'brand' as const,
+    },
+  ];
+
+  return (
+    <PanelDashboard
+      title="Accounting"
+      description="Invoices, receivables, and financial reports."
+      icon={Receipt}
+      iconGradient="from-emerald-500 to-emerald-700 dark:from-emerald-600 dark:to-emerald-800"
+      tiles={tiles}
+    />
+  );
+}
+
+export function AccountingPage() {
+  return (
+    <Routes>
+      <Route index element={<AccountingLandingPage />} />
+
+      {/* Jobs billed monthly by percent complete */}
+      <Route path="progress-billing" element={<ProgressBillingPage />} />
+      <Route path="progress-billing/:id" element={<ScheduleOfValuesPage />} />
+
+      {/* Reports - aggregated on the server, each exportable as CSV */}
+      <Route
+        path="ar-aging"
+        element={
+          <ReportPage
+            reportId="ar-aging"
+            title="AR Aging"
+            description="Unpaid invoice balances by client, bucketed by days past due."
+            asOf
+          />
+        }
+      />
+      <Route
+        path="cash-receipts"
+        element={
+          <ReportPage
+            reportId="cash-receipts"
+            title="Cash Receipts"
+            description="Payments received, by payment date."
+          />
+        }
+      />
+      <Route
+        path="revenue"
+        element={
+          <ReportPage
+            reportId="revenue"
+            title="Revenue"
+            description="Invoiced and collected revenue, excluding tax."
+            groupByOptions={[
+              { value: 'month', label: 'Month' },
+              { value: 'client', label: 'Client' },
+              { value: 'project', label: 'Project' },
+            ]}
+          />
+        }
+      />
+      <Route
+        path="tax"
+        element={
+          <ReportPage
+            reportId="tax"
+            title="Tax Collected"
+            description="Taxable and exempt sales with the sales tax billed and collected."
+            groupByOptions={[
+              { value: 'month', label: 'Month' },
+              { value: 'rate', label: 'Tax rate' },
+              { value: 'jurisdiction', label: 'Jurisdiction' },
+            ]}
+          />
+        }
+      />
+
+      {/* Rates estimates and invoices are taxed at */}
+      <Route path="tax-jurisdictions" element={<TaxJurisdictionsPage />} />
+
+      {/* Journal exports for the bookkeeping package */}
+      <Route path="export" element={<AccountingExportPage />} />
+    </Routes>
+  );
+}
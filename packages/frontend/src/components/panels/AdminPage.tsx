@@ -1,8 +1,15 @@
 import { Routes, Route } from 'react-router-dom';
-import { Users, Building2, Shield, Settings, SlidersHorizontal } from 'lucide-react';
+import { Users, Building2, Shield, Settings, SlidersHorizontal, Bell } from 'lucide-react';
 import { PanelDashboard } from '@/components/layout';
 import { useDocumentTitle } from '@/hooks';
-import { ManageUsersPage, UserDetailPage, CompanySettingsPage, FieldSettingsPage, PermissionsPage } from './admin';
+import {
+  ManageUsersPage,
+  UserDetailPage,
+  CompanySettingsPage,
+  FieldSettingsPage,
+  PermissionsPage,
+  DunningSettingsPage,
+} from './admin';
 
 // Admin Dashboard using reusable PanelDashboard
 function AdminDashboard() {
@@ -15,6 +22,7 @@ function AdminDashboard() {
       icon: Users,
       path: '/admin/users',
       color: 'brand' as const,
+      requiredPermission: 'admin:users' as const,
     },
     {
       id: 'fields',
@@ -23,14 +31,16 @@ function AdminDashboard() {
       icon: SlidersHorizontal,
       path: '/admin/fields',
       color: 'accent' as const,
+      requiredPermission: 'admin:departments' as const,
     },
     {
       id: 'permissions',
       name: 'Permissions',
-      description: 'Panel access control.',
+      description: 'Roles and permission overrides.',
       icon: Shield,
       path: '/admin/permissions',
       color: 'warning' as const,
+      requiredPermission: 'admin:roles' as const,
     },
     {
       id: 'company',
@@ -39,6 +49,16 @@ function AdminDashboard() {
       icon: Building2,
       path: '/admin/company',
       color: 'success' as const,
+      requiredPermission: 'admin:company' as const,
+    },
+    {
+      id: 'dunning',
+      name: 'Invoice Reminders',
+      description: 'Overdue reminder schedule for invoices.',
+      icon: Bell,
+      path: '/admin/dunning',
+      color: 'danger' as const,
+      requiredPermission: 'admin:company' as const,
     },
   ];
 
@@ -62,6 +82,7 @@ export function AdminPage() {
       <Route path="fields" element={<FieldSettingsPage />} />
       <Route path="permissions" element={<PermissionsPage />} />
       <Route path="company" element={<CompanySettingsPage />} />
+      <Route path="dunning" element={<DunningSettingsPage />} />
     </Routes>
   );
 }
\ No newline at end of file
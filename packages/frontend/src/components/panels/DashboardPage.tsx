@@ -9,11 +9,15 @@ import {
   Users,
   ArrowUpRight,
   Activity,
+  CheckSquare,
+  Loader2,
 } from 'lucide-react';
 import { Page } from '@/components/layout';
 import { Card, CardHeader, CardContent, Button } from '@/components/common';
 import { useAuthStore } from '@/contexts';
-import { useDocumentTitle } from '@/hooks';
+import { useDocumentTitle, usePermission, useSafeNavigate } from '@/hooks';
+import { useDashboardTasks } from '@/services/api';
+import { formatDate, getTodayISO } from '@/utils/dateUtils';
 
 interface StatCardProps {
   title: string;
@@ -109,8 +113,65 @@ function ActivityItem({ title, description, time, type }: ActivityItemProps) {
   );
 }
 
+function MyTasksCard() {
+  const navigate = useSafeNavigate();
+  const { data: tasks = [], isLoading } = useDashboardTasks(5);
+  const today = getTodayISO();
+
+  return (
+    <Card className="mt-6">
+      <CardHeader
+        title="My Tasks"
+        action={
+          <Button variant="ghost" size="sm" onClick={() => navigate('/tasks')}>
+            View all
+          </Button>
+        }
+      />
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-brand-600" />
+          </div>
+        ) : tasks.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">No open tasks assigned to you.</p>
+        ) : (
+          <div className="divide-y divide-slate-100 dark:divide-slate-800">
+            {tasks.map((task) => (
+              <button
+                key={task.id}
+                onClick={() => navigate('/tasks')}
+                className="w-full flex items-start gap-3 py-3 text-left hover:bg-slate-50 dark:hover:bg-slate-800/50"
+              >
+                <CheckSquare className="w-4 h-4 mt-0.5 text-slate-400" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{task.title}</p>
+                  {task.projectName && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{task.projectName}</p>
+                  )}
+                </div>
+                {task.dueDate && (
+                  <span
+                    className={clsx(
+                      'text-xs whitespace-nowrap',
+                      task.dueDate < today ? 'text-danger-600' : 'text-slate-400'
+                    )}
+                  >
+                    {formatDate(task.dueDate)}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function DashboardPage() {
   const { user } = useAuthStore();
+  const canViewTasks = usePermission('tasks:view');
   useDocumentTitle('Dashboard');
 
   const stats: StatCardProps[] = [
@@ -263,6 +324,8 @@ export function DashboardPage() {
             </CardContent>
           </Card>
 
+          {canViewTasks && <MyTasksCard />}
+
           {/* System status */}
           <Card className="mt-6">
             <CardHeader title="System Status" />
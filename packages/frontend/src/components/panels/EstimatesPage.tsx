@@ -1,4 +1,5 @@
-import { useDocumentTitle } from '@/hooks';
+import { Routes, Route, useNavigate, useSearchParams } from 'react-router-dom';
+import { useDocumentTitle, usePermission } from '@/hooks';
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { clsx } from 'clsx';
@@ -20,21 +21,44 @@ import {
   XCircle,
   ArrowRight,
   Filter,
+  FileDown,
+  History,
+  ClipboardList,
 } from 'lucide-react';
 import { Page } from '@/components/layout';
 import { Card, CardContent, Button, Input, ConfirmModal } from '@/components/common';
 import {
   useEstimates,
+  useEstimate,
   useCreateEstimate,
   useUpdateEstimate,
   useDeleteEstimate,
   useConvertEstimateToInvoice,
+  useCreateScheduleOfValues,
   useClients,
+  fetchEstimatePdf,
+  useEstimateTemplates,
+  fetchEstimateTemplate,
+  type CatalogItem,
   type Estimate,
+  type EstimateWithLineItems,
   type CreateEstimateInput,
   type EstimateStatus,
+  type CostType,
 } from '@/services/api';
-import { useToast } from '@/contexts';
+import { useToast, useCompanyStore } from '@/contexts';
+import { openPdfInNewTab } from '@/utils/pdfUtils';
+import { EstimateRevisionsPanel, CatalogLineInput, CatalogPage, EstimateTemplatesPage } from './estimating';
+import {
+  TaxJurisdictionField,
+  TaxTotals,
+  useDocumentTax,
+  taxSelectionOf,
+  percentInput,
+  AUTOMATIC_TAX,
+  type TaxSelection,
+  type DocumentTaxInput,
+} from './accounting';
 // import { AIAssistant } from '@/components/ai/AIAssistant';
 
 const STATUS_COLORS: Record<EstimateStatus, string> = {
@@ -54,16 +78,29 @@ const STATUS_ICONS: Record<EstimateStatus, React.ReactNode> = {
 };
 
 interface LineItem {
+  // Saved line, so the server can keep costs the editor can't see
+  id?: string;
   description: string;
   quantity: number;
   unitPrice: number;
+  // Set when picked from the catalog
+  catalogItemId?: string | null;
+  sku?: string | null;
+  unit?: string | null;
+  unitCost?: number | null;
+  markupPercent?: number | null;
+  costType?: CostType | null;
+  taxable: boolean;
 }
 
 interface EstimateFormData {
   clientId: string;
   validUntil: string;
   notes: string;
-  taxRate: string;
+  terms: string;
+  letterheadId: string; // '' = company default
+  taxSelection: TaxSelection;
+  taxRate: string; // custom rate, %
   lineItems: LineItem[];
 }
 
@@ -71,10 +108,45 @@ const initialFormData: EstimateFormData = {
   clientId: '',
   validUntil: '',
   notes: '',
+  terms: '',
+  letterheadId: '',
+  taxSelection: AUTOMATIC_TAX,
   taxRate: '0',
-  lineItems: [{ description: '', quantity: 1, unitPrice: 0 }],
+  lineItems: [{ description: '', quantity: 1, unitPrice: 0, taxable: true }],
 };
 
+// Markup over cost that a price represents, to two decimals
+function markupFor(unitPrice: number, unitCost: number | null | undefined): number | null {
+  return unitCost ? Math.round((unitPrice / unitCost - 1) * 10000) / 100 : null;
+}
+
+function catalogLine(item: CatalogItem): LineItem {
+  return {
+    description: item.description || item.name,
+    quantity: 1,
+    unitPrice: item.unitPrice,
+    catalogItemId: item.id,
+    sku: item.sku,
+    unit: item.unit,
+    unitCost: item.unitCost,
+    markupPercent: markupFor(item.unitPrice, item.unitCost),
+    taxable: true,
+  };
+}
+
+function lineMarginPercent(item: LineItem): number | null {
+  return item.unitCost != null && item.unitPrice > 0
+    ? ((item.unitPrice - item.unitCost) / item.unitPrice) * 100
+    : null;
+}
+
+function marginClass(percent: number | null): string {
+  if (percent === null) return 'text-slate-400';
+  if (percent < 0) return 'text-danger-600';
+  if (percent < 15) return 'text-warning-600';
+  return 'text-success-600';
+}
+
 function EstimateModal({
   isOpen,
   onClose,
@@ -84,42 +156,67 @@ function EstimateModal({
 }: {
   isOpen: boolean;
   onClose: () => void;
-  estimate?: Estimate | null;
-  onSave: (data: EstimateFormData) => void;
+  estimate?: EstimateWithLineItems | null;
+  onSave: (data: EstimateFormData, tax: DocumentTaxInput) => void;
   isLoading: boolean;
 }) {
+  const canSeeCosts = usePermission('estimating:costs');
   const [formData, setFormData] = useState<EstimateFormData>(
     estimate
       ? {
           clientId: estimate.clientId,
           validUntil: estimate.expiryDate?.split('T')[0] || '',
           notes: estimate.notes || '',
-          taxRate: (estimate.taxRate * 100).toString(),
+          terms: estimate.terms || '',
+          letterheadId: estimate.letterheadId || '',
+          taxSelection: taxSelectionOf(estimate),
+          taxRate: percentInput(estimate.taxRate),
           lineItems: estimate.lineItems?.length 
             ? estimate.lineItems.map(li => ({
+                id: li.id,
                 description: li.description,
                 quantity: li.quantity,
                 unitPrice: li.unitPrice,
+                catalogItemId: li.catalogItemId,
+                sku: li.sku,
+                unit: li.unit,
+                unitCost: li.unitCost,
+                markupPercent: li.markupPercent,
+                costType: li.costType,
+                taxable: li.taxable ?? true,
               }))
-            : [{ description: '', quantity: 1, unitPrice: 0 }],
+            : [{ description: '', quantity: 1, unitPrice: 0, taxable: true }],
         }
       : initialFormData
   );
 
   const { data: clientsData } = useClients({ limit: 100, active: true });
-  const clients = clientsData?.data?.clients || [];
+  const clients = clientsData?.data || [];
+  const { company } = useCompanyStore();
+  const letterheads = company.letterheads || [];
+  const { data: templatesData } = useEstimateTemplates();
+  const templates = templatesData?.data || [];
+  const defaultLetterhead = letterheads.find((lh) => lh.id === company.defaultLetterheadId);
+  const toast = useToast();
+  const tax = useDocumentTax({
+    selection: formData.taxSelection,
+    customRate: formData.taxRate,
+    clientId: formData.clientId,
+    projectId: estimate?.projectId,
+    lines: formData.lineItems,
+  });
 
   if (!isOpen) return null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(formData);
+    onSave(formData, tax.input);
   };
 
   const addLineItem = () => {
     setFormData({
       ...formData,
-      lineItems: [...formData.lineItems, { description: '', quantity: 1, unitPrice: 0 }],
+      lineItems: [...formData.lineItems, { description: '', quantity: 1, unitPrice: 0, taxable: true }],
     });
   };
 
@@ -132,15 +229,76 @@ function EstimateModal({
     }
   };
 
-  const updateLineItem = (index: number, field: keyof LineItem, value: string | number) => {
+  const updateLineItem = (index: number, changes: Partial<LineItem>) => {
+    const updated = [...formData.lineItems];
+    updated[index] = { ...updated[index], ...changes } as LineItem;
+    setFormData({ ...formData, lineItems: updated });
+  };
+
+  // Price, cost and markup move together: a new price or cost re-derives the
+  // markup, and a new markup re-prices the line from its cost
+  const updatePrice = (index: number, unitPrice: number) => {
+    const line = formData.lineItems[index];
+    updateLineItem(index, { unitPrice, markupPercent: markupFor(unitPrice, line?.unitCost) });
+  };
+
+  const updateCost = (index: number, unitCost: number | null) => {
+    const line = formData.lineItems[index];
+    updateLineItem(index, { unitCost, markupPercent: markupFor(line?.unitPrice ?? 0, unitCost) });
+  };
+
+  const updateMarkup = (index: number, markupPercent: number | null) => {
+    const unitCost = formData.lineItems[index]?.unitCost;
+    if (markupPercent === null || !unitCost) {
+      updateLineItem(index, { markupPercent });
+      return;
+    }
+    updateLineItem(index, { markupPercent, unitPrice: Math.round(unitCost * (100 + markupPercent)) / 100 });
+  };
+
+  // Labor is commonly not taxable (e.g. capital improvements), so marking a
+  // line labor clears its taxable flag; it can be ticked back
+  const changeCostType = (index: number, costType: CostType | null) => {
+    updateLineItem(index, costType === 'labor' ? { costType, taxable: false } : { costType });
+  };
+
+  // The line takes a copy of the catalog item as it is today
+  const pickCatalogItem = (index: number, item: CatalogItem) => {
     const updated = [...formData.lineItems];
-    updated[index] = { ...updated[index], [field]: value } as LineItem;
+    updated[index] = { ...catalogLine(item), quantity: updated[index]?.quantity || 1 };
     setFormData({ ...formData, lineItems: updated });
   };
 
-  const subtotal = formData.lineItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
-  const taxAmount = subtotal * (parseFloat(formData.taxRate) / 100);
-  const total = subtotal + taxAmount;
+  // Add a template's items at current catalog prices, replacing an empty first line
+  const insertTemplate = async (templateId: string) => {
+    try {
+      const template = await fetchEstimateTemplate(templateId);
+      const lines = template.items.map(({ catalogItem, quantity }) => ({ ...catalogLine(catalogItem), quantity }));
+      const existing = formData.lineItems.filter((li) => li.description.trim() || li.unitPrice);
+      setFormData({ ...formData, lineItems: [...existing, ...lines] });
+      toast.success('Template Added', `${lines.length} item${lines.length === 1 ? '' : 's'} from ${template.name}`);
+    } catch (err) {
+      console.error('Failed to load template:', err);
+      toast.error('Error', 'Failed to load template');
+    }
+  };
+
+  // Preview the saved estimate on the selected letterhead
+  const handlePreviewPdf = () => {
+    if (!estimate) return;
+    const letterheadId = formData.letterheadId || company.defaultLetterheadId || 'none';
+    openPdfInNewTab(() => fetchEstimatePdf(estimate.id, letterheadId)).catch(() =>
+      toast.error('Error', 'Failed to generate PDF')
+    );
+  };
+
+  const { subtotal, total } = tax.preview;
+
+  // Margin over the lines that have a cost
+  const costedLines = formData.lineItems.filter((item) => item.unitCost != null);
+  const costedSubtotal = costedLines.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+  const totalCost = costedLines.reduce((sum, item) => sum + item.quantity * (item.unitCost ?? 0), 0);
+  const marginPercent = costedSubtotal > 0 ? ((costedSubtotal - totalCost) / costedSubtotal) * 100 : null;
 
   return (
     <AnimatePresence>
@@ -184,7 +342,7 @@ function EstimateModal({
                   <option value="">Select a client</option>
                   {clients.map((client) => (
                     <option key={client.id} value={client.id}>
-                      {client.companyName}
+                      {client.name}
                     </option>
                   ))}
                 </select>
@@ -197,14 +355,12 @@ function EstimateModal({
                 onChange={(e) => setFormData({ ...formData, validUntil: e.target.value })}
               />
 
-              <Input
-                label="Tax Rate (%)"
-                type="number"
-                value={formData.taxRate}
-                onChange={(e) => setFormData({ ...formData, taxRate: e.target.value })}
-                min="0"
-                max="100"
-                step="0.01"
+              <TaxJurisdictionField
+                selection={formData.taxSelection}
+                onSelectionChange={(taxSelection) => setFormData({ ...formData, taxSelection })}
+                customRate={formData.taxRate}
+                onCustomRateChange={(taxRate) => setFormData({ ...formData, taxRate })}
+                resolvedName={tax.jurisdictionName}
               />
             </div>
 
@@ -214,65 +370,148 @@ function EstimateModal({
                 <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
                   Line Items
                 </label>
-                <Button type="button" variant="secondary" size="sm" onClick={addLineItem}>
-                  <Plus className="w-4 h-4 mr-1" />
-                  Add Item
-                </Button>
+                <div className="flex items-center gap-2">
+                  {templates.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && insertTemplate(e.target.value)}
+                      className="px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg
+                        bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 text-sm
+                        focus:outline-none focus:ring-2 focus:ring-brand-500"
+                    >
+                      <option value="">Insert template...</option>
+                      {templates.map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.name} ({template.itemCount})
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <Button type="button" variant="secondary" size="sm" onClick={addLineItem}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Item
+                  </Button>
+                </div>
               </div>
 
               <div className="space-y-3">
                 {formData.lineItems.map((item, index) => (
-                  <div key={index} className="flex items-start gap-3">
-                    <div className="flex-1">
-                      <input
-                        type="text"
-                        placeholder="Description"
-                        value={item.description}
-                        onChange={(e) => updateLineItem(index, 'description', e.target.value)}
-                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
-                          bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm
-                          focus:outline-none focus:ring-2 focus:ring-brand-500"
-                        required
-                      />
+                  <div key={index}>
+                    <div className="flex items-start gap-3">
+                      <div className="flex-1">
+                        <CatalogLineInput
+                          value={item.description}
+                          onChange={(value) => updateLineItem(index, { description: value })}
+                          onPick={(catalogItem) => pickCatalogItem(index, catalogItem)}
+                          required
+                        />
+                        {item.sku && (
+                          <p className="mt-0.5 text-xs text-slate-400">SKU {item.sku}</p>
+                        )}
+                      </div>
+                      <div className="w-24">
+                        <input
+                          type="number"
+                          placeholder="Qty"
+                          value={item.quantity}
+                          onChange={(e) => updateLineItem(index, { quantity: parseFloat(e.target.value) || 0 })}
+                          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
+                            bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-right
+                            focus:outline-none focus:ring-2 focus:ring-brand-500"
+                          min="0.01"
+                          step="0.01"
+                          required
+                        />
+                        {item.unit && (
+                          <p className="mt-0.5 text-xs text-slate-400 text-right">{item.unit}</p>
+                        )}
+                      </div>
+                      <div className="w-32">
+                        <input
+                          type="number"
+                          placeholder="Unit Price"
+                          value={item.unitPrice}
+                          onChange={(e) => updatePrice(index, parseFloat(e.target.value) || 0)}
+                          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
+                            bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-right
+                            focus:outline-none focus:ring-2 focus:ring-brand-500"
+                          min="0"
+                          step="0.01"
+                          required
+                        />
+                      </div>
+                      <div className="w-28 text-right py-2 text-sm font-medium text-slate-900 dark:text-white">
+                        ${(item.quantity * item.unitPrice).toFixed(2)}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => removeLineItem(index)}
+                        disabled={formData.lineItems.length === 1}
+                        className="p-2 text-slate-400 hover:text-danger-600 disabled:opacity-30"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
                     </div>
-                    <div className="w-24">
-                      <input
-                        type="number"
-                        placeholder="Qty"
-                        value={item.quantity}
-                        onChange={(e) => updateLineItem(index, 'quantity', parseInt(e.target.value) || 0)}
-                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
-                          bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-right
-                          focus:outline-none focus:ring-2 focus:ring-brand-500"
-                        min="1"
-                        required
-                      />
-                    </div>
-                    <div className="w-32">
-                      <input
-                        type="number"
-                        placeholder="Unit Price"
-                        value={item.unitPrice}
-                        onChange={(e) => updateLineItem(index, 'unitPrice', parseFloat(e.target.value) || 0)}
-                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
-                          bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-right
+
+                    {/* Cost classification and taxability, and cost and markup for those allowed to see them */}
+                    <div className="mt-1.5 flex items-center gap-3 text-xs">
+                      <select
+                        value={item.costType ?? ''}
+                        onChange={(e) => changeCostType(index, (e.target.value || null) as CostType | null)}
+                        className="px-2 py-1 border border-slate-200 dark:border-slate-700 rounded-md
+                          bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300
                           focus:outline-none focus:ring-2 focus:ring-brand-500"
-                        min="0"
-                        step="0.01"
-                        required
-                      />
+                      >
+                        <option value="">Unclassified</option>
+                        <option value="labor">Labor</option>
+                        <option value="material">Material</option>
+                      </select>
+                      <label className="flex items-center gap-1.5 text-slate-500 dark:text-slate-400">
+                        <input
+                          type="checkbox"
+                          checked={item.taxable}
+                          onChange={(e) => updateLineItem(index, { taxable: e.target.checked })}
+                          className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                        />
+                        Taxable
+                      </label>
+                      {canSeeCosts && (
+                        <>
+                          <label className="flex items-center gap-1.5 text-slate-500 dark:text-slate-400">
+                            Unit cost
+                            <input
+                              type="number"
+                              value={item.unitCost ?? ''}
+                              onChange={(e) => updateCost(index, e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+                              min="0"
+                              step="0.01"
+                              className="w-24 px-2 py-1 border border-slate-200 dark:border-slate-700 rounded-md
+                                bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-right
+                                focus:outline-none focus:ring-2 focus:ring-brand-500"
+                            />
+                          </label>
+                          <label className="flex items-center gap-1.5 text-slate-500 dark:text-slate-400">
+                            Markup %
+                            <input
+                              type="number"
+                              value={item.markupPercent ?? ''}
+                              onChange={(e) => updateMarkup(index, e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+                              step="0.01"
+                              disabled={!item.unitCost}
+                              className="w-20 px-2 py-1 border border-slate-200 dark:border-slate-700 rounded-md
+                                bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-right
+                                focus:outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50"
+                            />
+                          </label>
+                          {item.unitCost != null && item.unitPrice > 0 && (
+                            <span className={clsx('ml-auto font-medium', marginClass(lineMarginPercent(item)))}>
+                              Margin ${(item.quantity * (item.unitPrice - item.unitCost)).toFixed(2)}
+                              {' '}({lineMarginPercent(item)?.toFixed(1)}%)
+                            </span>
+                          )}
+                        </>
+                      )}
                     </div>
-                    <div className="w-28 text-right py-2 text-sm font-medium text-slate-900 dark:text-white">
-                      ${(item.quantity * item.unitPrice).toFixed(2)}
-                    </div>
-                    <button
-                      type="button"
-                      onClick={() => removeLineItem(index)}
-                      disabled={formData.lineItems.length === 1}
-                      className="p-2 text-slate-400 hover:text-danger-600 disabled:opacity-30"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
                   </div>
                 ))}
               </div>
@@ -285,18 +524,36 @@ function EstimateModal({
                     ${subtotal.toFixed(2)}
                   </span>
                 </div>
-                <div className="flex justify-end text-sm">
-                  <span className="text-slate-500 w-32">Tax ({formData.taxRate}%):</span>
-                  <span className="w-28 text-right font-medium text-slate-900 dark:text-white">
-                    ${taxAmount.toFixed(2)}
-                  </span>
-                </div>
+                <TaxTotals preview={tax.preview} exemption={tax.exemption} />
                 <div className="flex justify-end text-base font-semibold">
                   <span className="text-slate-700 dark:text-slate-300 w-32">Total:</span>
                   <span className="w-28 text-right text-brand-600 dark:text-brand-400">
                     ${total.toFixed(2)}
                   </span>
                 </div>
+                {canSeeCosts && costedLines.length > 0 && (
+                  <>
+                    <div className="flex justify-end text-sm pt-2">
+                      <span className="text-slate-500 w-32">Cost:</span>
+                      <span className="w-28 text-right font-medium text-slate-900 dark:text-white">
+                        ${totalCost.toFixed(2)}
+                      </span>
+                    </div>
+                    <div className="flex justify-end text-sm">
+                      <span className="text-slate-500 w-32">Gross margin:</span>
+                      <span className={clsx('w-28 text-right font-medium', marginClass(marginPercent))}>
+                        ${(costedSubtotal - totalCost).toFixed(2)}
+                        {marginPercent !== null && ` (${marginPercent.toFixed(1)}%)`}
+                      </span>
+                    </div>
+                    {costedLines.length < formData.lineItems.length && (
+                      <p className="text-right text-xs text-slate-400">
+                        Margin excludes {formData.lineItems.length - costedLines.length} line
+                        {formData.lineItems.length - costedLines.length === 1 ? '' : 's'} without a cost
+                      </p>
+                    )}
+                  </>
+                )}
               </div>
             </div>
 
@@ -315,6 +572,51 @@ function EstimateModal({
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Terms & Conditions
+              </label>
+              <textarea
+                value={formData.terms}
+                onChange={(e) => setFormData({ ...formData, terms: e.target.value })}
+                rows={3}
+                placeholder="Printed at the end of the PDF..."
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
+                  bg-white dark:bg-slate-800 text-slate-900 dark:text-white
+                  focus:outline-none focus:ring-2 focus:ring-brand-500"
+              />
+            </div>
+
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Letterhead
+                </label>
+                <select
+                  value={formData.letterheadId}
+                  onChange={(e) => setFormData({ ...formData, letterheadId: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
+                    bg-white dark:bg-slate-800 text-slate-900 dark:text-white
+                    focus:outline-none focus:ring-2 focus:ring-brand-500"
+                >
+                  <option value="">
+                    Company default ({defaultLetterhead?.name || 'plain paper'})
+                  </option>
+                  {letterheads.map((lh) => (
+                    <option key={lh.id} value={lh.id}>
+                      {lh.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {estimate && (
+                <Button type="button" variant="secondary" onClick={handlePreviewPdf}>
+                  <FileDown className="w-4 h-4 mr-2" />
+                  Preview PDF
+                </Button>
+              )}
+            </div>
+
             <div className="flex justify-end gap-3 pt-4 border-t border-slate-200 dark:border-slate-800">
               <Button type="button" variant="secondary" onClick={onClose}>
                 Cancel
@@ -345,11 +647,17 @@ function EstimateCard({
   onEdit, 
   onDelete,
   onConvert,
+  onProgressBilling,
+  onViewPdf,
+  onRevisions,
 }: { 
   estimate: Estimate; 
-  onEdit: () => void; 
-  onDelete: () => void;
-  onConvert: () => void;
+  onEdit?: () => void; // Omitted actions are hidden (no permission)
+  onDelete?: () => void;
+  onConvert?: () => void;
+  onProgressBilling?: () => void;
+  onViewPdf: () => void;
+  onRevisions: () => void;
 }) {
   const [showMenu, setShowMenu] = useState(false);
   
@@ -392,7 +700,7 @@ function EstimateCard({
                 />
                 <div className="absolute right-0 top-full mt-1 w-44 bg-white dark:bg-slate-800 
                   rounded-lg shadow-lg border border-slate-200 dark:border-slate-700 py-1 z-20">
-                  {(estimate.status === 'draft' || estimate.status === 'sent') && (
+                  {onEdit && (estimate.status === 'draft' || estimate.status === 'sent') && (
                     <button
                       onClick={() => { onEdit(); setShowMenu(false); }}
                       className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
@@ -402,7 +710,23 @@ function EstimateCard({
                       Edit
                     </button>
                   )}
-                  {estimate.status === 'approved' && (
+                  <button
+                    onClick={() => { onViewPdf(); setShowMenu(false); }}
+                    className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
+                      hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300"
+                  >
+                    <FileDown className="w-4 h-4" />
+                    View PDF
+                  </button>
+                  <button
+                    onClick={() => { onRevisions(); setShowMenu(false); }}
+                    className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
+                      hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300"
+                  >
+                    {estimate.status === 'draft' ? <Send className="w-4 h-4" /> : <History className="w-4 h-4" />}
+                    {estimate.status === 'draft' ? 'Send for Approval' : 'Revisions & Approval'}
+                  </button>
+                  {onConvert && estimate.status === 'approved' && !estimate.scheduleOfValuesId && (
                     <button
                       onClick={() => { onConvert(); setShowMenu(false); }}
                       className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
@@ -412,14 +736,26 @@ function EstimateCard({
                       Convert to Invoice
                     </button>
                   )}
-                  <button
-                    onClick={() => { onDelete(); setShowMenu(false); }}
-                    className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
-                      hover:bg-slate-100 dark:hover:bg-slate-700 text-danger-600"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                    Delete
-                  </button>
+                  {onProgressBilling && estimate.status === 'approved' && (
+                    <button
+                      onClick={() => { onProgressBilling(); setShowMenu(false); }}
+                      className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
+                        hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300"
+                    >
+                      <ClipboardList className="w-4 h-4" />
+                      {estimate.scheduleOfValuesId ? 'Pay Applications' : 'Bill by Pay Application'}
+                    </button>
+                  )}
+                  {onDelete && (
+                    <button
+                      onClick={() => { onDelete(); setShowMenu(false); }}
+                      className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
+                        hover:bg-slate-100 dark:hover:bg-slate-700 text-danger-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Delete
+                    </button>
+                  )}
                 </div>
               </>
             )}
@@ -465,9 +801,14 @@ function EstimateCard({
   );
 }
 
-export function EstimatesPage() {
+function EstimatesListPage() {
   useDocumentTitle('Estimates');
-  const [search, setSearch] = useState('');
+  const canCreate = usePermission('estimating:create');
+  const canEdit = usePermission('estimating:edit');
+  const canDelete = usePermission('estimating:delete');
+  const canInvoice = usePermission('accounting:create');
+  const [searchParams] = useSearchParams();
+  const [search, setSearch] = useState(searchParams.get('search') ?? '');
   const [page, setPage] = useState(1);
   const [statusFilter, setStatusFilter] = useState<EstimateStatus | ''>('');
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -475,7 +816,10 @@ export function EstimatesPage() {
   const [showFilters, setShowFilters] = useState(false);
   const [estimateToDelete, setEstimateToDelete] = useState<Estimate | null>(null);
   const [estimateToConvert, setEstimateToConvert] = useState<Estimate | null>(null);
+  const [estimateToProgressBill, setEstimateToProgressBill] = useState<Estimate | null>(null);
+  const [revisionsEstimate, setRevisionsEstimate] = useState<Estimate | null>(null);
   const toast = useToast();
+  const navigate = useNavigate();
 
   const { data, isLoading, error, refetch } = useEstimates({
     page,
@@ -488,17 +832,32 @@ export function EstimatesPage() {
   const updateMutation = useUpdateEstimate();
   const deleteMutation = useDeleteEstimate();
   const convertMutation = useConvertEstimateToInvoice();
+  const createScheduleMutation = useCreateScheduleOfValues();
+
+  // The list has no line items; the editor opens once the full estimate loads
+  const { data: editingData } = useEstimate(editingEstimate?.id ?? '');
+  const editingDetail = editingData?.data ?? null;
 
-  const handleSave = async (formData: EstimateFormData) => {
+  const handleSave = async (formData: EstimateFormData, tax: DocumentTaxInput) => {
     const input: CreateEstimateInput = {
       clientId: formData.clientId,
       expiryDate: formData.validUntil || undefined,
       notes: formData.notes || undefined,
-      taxRate: parseFloat(formData.taxRate) / 100,
+      terms: formData.terms || undefined,
+      letterheadId: formData.letterheadId || null,
+      ...tax,
       lineItems: formData.lineItems.map(li => ({
+        id: li.id,
         description: li.description,
         quantity: li.quantity,
         unitPrice: li.unitPrice,
+        catalogItemId: li.catalogItemId,
+        sku: li.sku,
+        unit: li.unit,
+        unitCost: li.unitCost,
+        markupPercent: li.markupPercent,
+        costType: li.costType,
+        taxable: li.taxable,
       })),
     };
 
@@ -552,6 +911,37 @@ export function EstimatesPage() {
     }
   };
 
+  const handleProgressBilling = (estimate: Estimate) => {
+    if (estimate.scheduleOfValuesId) {
+      navigate(`/accounting/progress-billing/${estimate.scheduleOfValuesId}`);
+    } else {
+      setEstimateToProgressBill(estimate);
+    }
+  };
+
+  const confirmProgressBilling = async () => {
+    if (estimateToProgressBill) {
+      try {
+        const response = await createScheduleMutation.mutateAsync({
+          estimateId: estimateToProgressBill.id,
+          retainagePercent: 10,
+        });
+        if (response.data) navigate(`/accounting/progress-billing/${response.data.id}`);
+      } catch (err) {
+        console.error('Failed to set up progress billing:', err);
+        toast.error('Error', err instanceof Error ? err.message : 'Failed to set up progress billing');
+      }
+      setEstimateToProgressBill(null);
+    }
+  };
+
+  const handleViewPdf = (estimate: Estimate) => {
+    openPdfInNewTab(() => fetchEstimatePdf(estimate.id)).catch((err) => {
+      console.error('Failed to generate estimate PDF:', err);
+      toast.error('Error', 'Failed to generate PDF');
+    });
+  };
+
   const estimates = data?.data?.estimates || [];
   const totalPages = data?.data?.totalPages || 1;
 
@@ -568,13 +958,15 @@ export function EstimatesPage() {
           >
             Filters
           </Button>
-          <Button
-            variant="primary"
-            leftIcon={<Plus className="w-4 h-4" />}
-            onClick={() => { setEditingEstimate(null); setIsModalOpen(true); }}
-          >
-            New Estimate
-          </Button>
+          {canCreate && (
+            <Button
+              variant="primary"
+              leftIcon={<Plus className="w-4 h-4" />}
+              onClick={() => { setEditingEstimate(null); setIsModalOpen(true); }}
+            >
+              New Estimate
+            </Button>
+          )}
         </div>
       }
     >
@@ -681,9 +1073,12 @@ export function EstimatesPage() {
                 >
                   <EstimateCard
                     estimate={estimate}
-                    onEdit={() => { setEditingEstimate(estimate); setIsModalOpen(true); }}
-                    onDelete={() => handleDelete(estimate)}
-                    onConvert={() => handleConvert(estimate)}
+                    onEdit={canEdit ? () => { setEditingEstimate(estimate); setIsModalOpen(true); } : undefined}
+                    onDelete={canDelete ? () => handleDelete(estimate) : undefined}
+                    onConvert={canInvoice ? () => handleConvert(estimate) : undefined}
+                    onProgressBilling={canInvoice ? () => handleProgressBilling(estimate) : undefined}
+                    onViewPdf={() => handleViewPdf(estimate)}
+                    onRevisions={() => setRevisionsEstimate(estimate)}
                   />
                 </motion.div>
               ))}
@@ -718,13 +1113,16 @@ export function EstimatesPage() {
       )}
 
       {/* Estimate Modal */}
-      <EstimateModal
-        isOpen={isModalOpen}
-        onClose={() => { setIsModalOpen(false); setEditingEstimate(null); }}
-        estimate={editingEstimate}
-        onSave={handleSave}
-        isLoading={createMutation.isPending || updateMutation.isPending}
-      />
+      {isModalOpen && (!editingEstimate || editingDetail) && (
+        <EstimateModal
+          key={editingEstimate?.id ?? 'new'}
+          isOpen
+          onClose={() => { setIsModalOpen(false); setEditingEstimate(null); }}
+          estimate={editingEstimate ? { ...editingEstimate, ...editingDetail! } : null}
+          onSave={handleSave}
+          isLoading={createMutation.isPending || updateMutation.isPending}
+        />
+      )}
 
       {/* Delete Confirmation Modal */}
       <ConfirmModal
@@ -750,6 +1148,25 @@ export function EstimatesPage() {
         variant="primary"
       />
 
+      {/* Bill by pay application instead */}
+      <ConfirmModal
+        isOpen={!!estimateToProgressBill}
+        onClose={() => setEstimateToProgressBill(null)}
+        onConfirm={confirmProgressBilling}
+        title="Bill by Pay Application"
+        message={`Bill estimate "${estimateToProgressBill?.estimateNumber}" monthly by percent complete? Its line items become the schedule of values, with 10% retainage until you change it. The estimate can no longer be converted to a single invoice.`}
+        confirmText="Set Up"
+        cancelText="Cancel"
+        variant="primary"
+        isLoading={createScheduleMutation.isPending}
+      />
+
+      {/* Revisions and client approval */}
+      <EstimateRevisionsPanel
+        estimate={estimates.find((e) => e.id === revisionsEstimate?.id) ?? revisionsEstimate}
+        onClose={() => setRevisionsEstimate(null)}
+      />
+
       {/* AI Assistant - TODO: Enable when AI is set up
       <AIAssistant
         context={{ type: 'estimate', entityId: editingEstimate?.id }}
@@ -758,4 +1175,15 @@ export function EstimatesPage() {
       */}
     </Page>
   );
-}
\ No newline at end of file
+}
+
+// Estimating panel: the estimate list plus catalog and template maintenance
+export function EstimatesPage() {
+  return (
+    <Routes>
+      <Route index element={<EstimatesListPage />} />
+      <Route path="catalog" element={<CatalogPage />} />
+      <Route path="templates" element={<EstimateTemplatesPage />} />
+    </Routes>
+  );
+}
@@ -1,5 +1,6 @@
-import { useDocumentTitle } from '@/hooks';
+import { useDocumentTitle, usePermission } from '@/hooks';
 import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { clsx } from 'clsx';
 import {
@@ -19,26 +20,46 @@ import {
   CheckCircle,
   XCircle,
   Filter,
+  FileDown,
+  Wallet,
 } from 'lucide-react';
 import { Page } from '@/components/layout';
 import { Card, CardContent, Button, Input, ConfirmModal } from '@/components/common';
 import {
   useInvoices,
+  useInvoice,
   useCreateInvoice,
   useUpdateInvoice,
   useDeleteInvoice,
   useMarkInvoicePaid,
   useClients,
+  useAccountMapping,
+  useCostCodes,
+  fetchInvoicePdf,
   type Invoice,
+  type InvoiceWithLineItems,
   type CreateInvoiceInput,
   type InvoiceStatus,
 } from '@/services/api';
-import { useToast } from '@/contexts';
+import { useToast, useCompanyStore } from '@/contexts';
+import { openPdfInNewTab } from '@/utils/pdfUtils';
+import {
+  InvoicePaymentsPanel,
+  TaxJurisdictionField,
+  TaxTotals,
+  useDocumentTax,
+  taxSelectionOf,
+  percentInput,
+  AUTOMATIC_TAX,
+  type TaxSelection,
+  type DocumentTaxInput,
+} from './accounting';
 // import { AIAssistant } from '@/components/ai/AIAssistant';
 
 const STATUS_COLORS: Record<InvoiceStatus, string> = {
   draft: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
   sent: 'bg-brand-100 text-brand-700 dark:bg-brand-900/30 dark:text-brand-400',
+  partially_paid: 'bg-warning-100 text-warning-700 dark:bg-warning-900/30 dark:text-warning-400',
   paid: 'bg-success-100 text-success-700 dark:bg-success-900/30 dark:text-success-400',
   overdue: 'bg-danger-100 text-danger-700 dark:bg-danger-900/30 dark:text-danger-400',
   cancelled: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-500',
@@ -47,6 +68,7 @@ const STATUS_COLORS: Record<InvoiceStatus, string> = {
 const STATUS_ICONS: Record<InvoiceStatus, React.ReactNode> = {
   draft: <Receipt className="w-3 h-3" />,
   sent: <Clock className="w-3 h-3" />,
+  partially_paid: <Wallet className="w-3 h-3" />,
   paid: <CheckCircle className="w-3 h-3" />,
   overdue: <AlertCircle className="w-3 h-3" />,
   cancelled: <XCircle className="w-3 h-3" />,
@@ -56,6 +78,9 @@ interface LineItem {
   description: string;
   quantity: number;
   unitPrice: number;
+  category: string;
+  taxable: boolean;
+  costCodeId: string; // '' = not coded
 }
 
 interface InvoiceFormData {
@@ -63,7 +88,10 @@ interface InvoiceFormData {
   projectId: string;
   dueDate: string;
   notes: string;
-  taxRate: string;
+  terms: string;
+  letterheadId: string; // '' = company default
+  taxSelection: TaxSelection;
+  taxRate: string; // custom rate, %
   lineItems: LineItem[];
 }
 
@@ -72,8 +100,11 @@ const initialFormData: InvoiceFormData = {
   projectId: '',
   dueDate: '',
   notes: '',
+  terms: '',
+  letterheadId: '',
+  taxSelection: AUTOMATIC_TAX,
   taxRate: '0',
-  lineItems: [{ description: '', quantity: 1, unitPrice: 0 }],
+  lineItems: [{ description: '', quantity: 1, unitPrice: 0, category: '', taxable: true, costCodeId: '' }],
 };
 
 function InvoiceModal({
@@ -85,8 +116,8 @@ function InvoiceModal({
 }: {
   isOpen: boolean;
   onClose: () => void;
-  invoice?: Invoice | null;
-  onSave: (data: InvoiceFormData) => void;
+  invoice?: InvoiceWithLineItems | null;
+  onSave: (data: InvoiceFormData, tax: DocumentTaxInput) => void;
   isLoading: boolean;
 }) {
   const [formData, setFormData] = useState<InvoiceFormData>(
@@ -96,32 +127,55 @@ function InvoiceModal({
           projectId: invoice.projectId || '',
           dueDate: invoice.dueDate?.split('T')[0] || '',
           notes: invoice.notes || '',
-          taxRate: (invoice.taxRate * 100).toString(),
+          terms: invoice.terms || '',
+          letterheadId: invoice.letterheadId || '',
+          taxSelection: taxSelectionOf(invoice),
+          taxRate: percentInput(invoice.taxRate),
           lineItems: invoice.lineItems?.length 
             ? invoice.lineItems.map(li => ({
                 description: li.description,
                 quantity: li.quantity,
                 unitPrice: li.unitPrice,
+                category: li.category || '',
+                taxable: li.taxable ?? true,
+                costCodeId: li.costCodeId || '',
               }))
-            : [{ description: '', quantity: 1, unitPrice: 0 }],
+            : [{ description: '', quantity: 1, unitPrice: 0, category: '', taxable: true, costCodeId: '' }],
         }
       : initialFormData
   );
 
   const { data: clientsData } = useClients({ limit: 100, active: true });
-  const clients = clientsData?.data?.clients || [];
+  const clients = clientsData?.data || [];
+  const { company } = useCompanyStore();
+  const letterheads = company.letterheads || [];
+  const defaultLetterhead = letterheads.find((lh) => lh.id === company.defaultLetterheadId);
+  // Categories with a revenue account, suggested for line items
+  const { data: mappingData } = useAccountMapping();
+  const categories = mappingData?.data?.revenueByCategory.map((row) => row.category) || [];
+  // Project invoices can code lines for job costing
+  const { data: costCodesData } = useCostCodes();
+  const costCodes = formData.projectId ? costCodesData?.data || [] : [];
+  const toast = useToast();
+  const tax = useDocumentTax({
+    selection: formData.taxSelection,
+    customRate: formData.taxRate,
+    clientId: formData.clientId,
+    projectId: formData.projectId,
+    lines: formData.lineItems,
+  });
 
   if (!isOpen) return null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(formData);
+    onSave(formData, tax.input);
   };
 
   const addLineItem = () => {
     setFormData({
       ...formData,
-      lineItems: [...formData.lineItems, { description: '', quantity: 1, unitPrice: 0 }],
+      lineItems: [...formData.lineItems, { description: '', quantity: 1, unitPrice: 0, category: '', taxable: true, costCodeId: '' }],
     });
   };
 
@@ -134,15 +188,22 @@ function InvoiceModal({
     }
   };
 
-  const updateLineItem = (index: number, field: keyof LineItem, value: string | number) => {
+  const updateLineItem = (index: number, field: keyof LineItem, value: string | number | boolean) => {
     const updated = [...formData.lineItems];
     updated[index] = { ...updated[index], [field]: value } as LineItem;
     setFormData({ ...formData, lineItems: updated });
   };
 
-  const subtotal = formData.lineItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
-  const taxAmount = subtotal * (parseFloat(formData.taxRate) / 100);
-  const total = subtotal + taxAmount;
+  // Preview the saved invoice on the selected letterhead
+  const handlePreviewPdf = () => {
+    if (!invoice) return;
+    const letterheadId = formData.letterheadId || company.defaultLetterheadId || 'none';
+    openPdfInNewTab(() => fetchInvoicePdf(invoice.id, letterheadId)).catch(() =>
+      toast.error('Error', 'Failed to generate PDF')
+    );
+  };
+
+  const { subtotal, total } = tax.preview;
 
   return (
     <AnimatePresence>
@@ -186,7 +247,7 @@ function InvoiceModal({
                   <option value="">Select a client</option>
                   {clients.map((client) => (
                     <option key={client.id} value={client.id}>
-                      {client.companyName}
+                      {client.name}
                     </option>
                   ))}
                 </select>
@@ -200,14 +261,12 @@ function InvoiceModal({
                 required
               />
 
-              <Input
-                label="Tax Rate (%)"
-                type="number"
-                value={formData.taxRate}
-                onChange={(e) => setFormData({ ...formData, taxRate: e.target.value })}
-                min="0"
-                max="100"
-                step="0.01"
+              <TaxJurisdictionField
+                selection={formData.taxSelection}
+                onSelectionChange={(taxSelection) => setFormData({ ...formData, taxSelection })}
+                customRate={formData.taxRate}
+                onCustomRateChange={(taxRate) => setFormData({ ...formData, taxRate })}
+                resolvedName={tax.jurisdictionName}
               />
             </div>
 
@@ -223,6 +282,11 @@ function InvoiceModal({
                 </Button>
               </div>
 
+              <datalist id="invoice-line-categories">
+                {categories.map((category) => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
               <div className="space-y-3">
                 {formData.lineItems.map((item, index) => (
                   <div key={index} className="flex items-start gap-3">
@@ -238,6 +302,37 @@ function InvoiceModal({
                         required
                       />
                     </div>
+                    <div className="w-36">
+                      <input
+                        type="text"
+                        placeholder="Category"
+                        list="invoice-line-categories"
+                        value={item.category}
+                        onChange={(e) => updateLineItem(index, 'category', e.target.value)}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
+                          bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm
+                          focus:outline-none focus:ring-2 focus:ring-brand-500"
+                      />
+                    </div>
+                    {costCodes.length > 0 && (
+                      <div className="w-36">
+                        <select
+                          value={item.costCodeId}
+                          onChange={(e) => updateLineItem(index, 'costCodeId', e.target.value)}
+                          title="Cost code"
+                          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
+                            bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm
+                            focus:outline-none focus:ring-2 focus:ring-brand-500"
+                        >
+                          <option value="">No cost code</option>
+                          {costCodes.map((code) => (
+                            <option key={code.id} value={code.id}>
+                              {code.code} {code.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                     <div className="w-24">
                       <input
                         type="number"
@@ -265,6 +360,15 @@ function InvoiceModal({
                         required
                       />
                     </div>
+                    <label className="flex items-center gap-1.5 py-2 text-xs text-slate-500 dark:text-slate-400" title="Taxable">
+                      <input
+                        type="checkbox"
+                        checked={item.taxable}
+                        onChange={(e) => updateLineItem(index, 'taxable', e.target.checked)}
+                        className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                      />
+                      Tax
+                    </label>
                     <div className="w-28 text-right py-2 text-sm font-medium text-slate-900 dark:text-white">
                       ${(item.quantity * item.unitPrice).toFixed(2)}
                     </div>
@@ -288,12 +392,7 @@ function InvoiceModal({
                     ${subtotal.toFixed(2)}
                   </span>
                 </div>
-                <div className="flex justify-end text-sm">
-                  <span className="text-slate-500 w-32">Tax ({formData.taxRate}%):</span>
-                  <span className="w-28 text-right font-medium text-slate-900 dark:text-white">
-                    ${taxAmount.toFixed(2)}
-                  </span>
-                </div>
+                <TaxTotals preview={tax.preview} exemption={tax.exemption} />
                 <div className="flex justify-end text-base font-semibold">
                   <span className="text-slate-700 dark:text-slate-300 w-32">Total:</span>
                   <span className="w-28 text-right text-brand-600 dark:text-brand-400">
@@ -318,6 +417,51 @@ function InvoiceModal({
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Terms & Conditions
+              </label>
+              <textarea
+                value={formData.terms}
+                onChange={(e) => setFormData({ ...formData, terms: e.target.value })}
+                rows={3}
+                placeholder="Printed at the end of the PDF..."
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
+                  bg-white dark:bg-slate-800 text-slate-900 dark:text-white
+                  focus:outline-none focus:ring-2 focus:ring-brand-500"
+              />
+            </div>
+
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Letterhead
+                </label>
+                <select
+                  value={formData.letterheadId}
+                  onChange={(e) => setFormData({ ...formData, letterheadId: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg 
+                    bg-white dark:bg-slate-800 text-slate-900 dark:text-white
+                    focus:outline-none focus:ring-2 focus:ring-brand-500"
+                >
+                  <option value="">
+                    Company default ({defaultLetterhead?.name || 'plain paper'})
+                  </option>
+                  {letterheads.map((lh) => (
+                    <option key={lh.id} value={lh.id}>
+                      {lh.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {invoice && (
+                <Button type="button" variant="secondary" onClick={handlePreviewPdf}>
+                  <FileDown className="w-4 h-4 mr-2" />
+                  Preview PDF
+                </Button>
+              )}
+            </div>
+
             <div className="flex justify-end gap-3 pt-4 border-t border-slate-200 dark:border-slate-800">
               <Button type="button" variant="secondary" onClick={onClose}>
                 Cancel
@@ -348,15 +492,20 @@ function InvoiceCard({
   onEdit, 
   onDelete,
   onMarkPaid,
+  onViewPdf,
+  onViewPayments,
 }: { 
   invoice: Invoice; 
-  onEdit: () => void; 
-  onDelete: () => void;
-  onMarkPaid: () => void;
+  onEdit?: () => void; // Omitted actions are hidden (no permission)
+  onDelete?: () => void;
+  onMarkPaid?: () => void;
+  onViewPdf: () => void;
+  onViewPayments: () => void;
 }) {
   const [showMenu, setShowMenu] = useState(false);
   
-  const isOverdue = invoice.dueDate && new Date(invoice.dueDate) < new Date() && invoice.status === 'sent';
+  const isOverdue = invoice.dueDate && new Date(invoice.dueDate) < new Date()
+    && (invoice.status === 'sent' || invoice.status === 'partially_paid');
   const effectiveStatus = isOverdue ? 'overdue' : invoice.status;
 
   const daysUntilDue = invoice.dueDate 
@@ -413,7 +562,7 @@ function InvoiceCard({
                 />
                 <div className="absolute right-0 top-full mt-1 w-40 bg-white dark:bg-slate-800 
                   rounded-lg shadow-lg border border-slate-200 dark:border-slate-700 py-1 z-20">
-                  {(invoice.status === 'draft' || invoice.status === 'sent') && (
+                  {onEdit && (invoice.status === 'draft' || invoice.status === 'sent') && (
                     <button
                       onClick={() => { onEdit(); setShowMenu(false); }}
                       className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
@@ -423,7 +572,26 @@ function InvoiceCard({
                       Edit
                     </button>
                   )}
-                  {invoice.status === 'sent' && (
+                  <button
+                    onClick={() => { onViewPdf(); setShowMenu(false); }}
+                    className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
+                      hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300"
+                  >
+                    <FileDown className="w-4 h-4" />
+                    View PDF
+                  </button>
+                  {invoice.status !== 'draft' && invoice.status !== 'cancelled' && (
+                    <button
+                      onClick={() => { onViewPayments(); setShowMenu(false); }}
+                      className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
+                        hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300"
+                    >
+                      <Wallet className="w-4 h-4" />
+                      Payments
+                    </button>
+                  )}
+                  {onMarkPaid && invoice.status !== 'paid' && invoice.balanceDue > 0
+                    && ['sent', 'partially_paid', 'overdue'].includes(invoice.status) && (
                     <button
                       onClick={() => { onMarkPaid(); setShowMenu(false); }}
                       className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
@@ -433,7 +601,7 @@ function InvoiceCard({
                       Mark as Paid
                     </button>
                   )}
-                  {invoice.status === 'draft' && (
+                  {onDelete && invoice.status === 'draft' && (
                     <button
                       onClick={() => { onDelete(); setShowMenu(false); }}
                       className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
@@ -456,7 +624,9 @@ function InvoiceCard({
             STATUS_COLORS[effectiveStatus]
           )}>
             {STATUS_ICONS[effectiveStatus]}
-            {effectiveStatus.charAt(0).toUpperCase() + effectiveStatus.slice(1)}
+            {effectiveStatus === 'partially_paid'
+              ? 'Partially Paid'
+              : effectiveStatus.charAt(0).toUpperCase() + effectiveStatus.slice(1)}
           </span>
         </div>
 
@@ -491,6 +661,16 @@ function InvoiceCard({
               ${invoice.total.toLocaleString(undefined, { minimumFractionDigits: 2 })}
             </span>
           </div>
+          {invoice.amountPaid > 0 && invoice.status !== 'paid' && (
+            <div className="mt-1 flex items-center justify-between text-sm">
+              <span className="text-slate-500 dark:text-slate-400">
+                Paid ${invoice.amountPaid.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+              </span>
+              <span className="font-medium text-danger-600 dark:text-danger-400">
+                Due ${invoice.balanceDue.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+              </span>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -499,7 +679,13 @@ function InvoiceCard({
 
 export function InvoicesPage() {
   useDocumentTitle('Invoices');
-  const [search, setSearch] = useState('');
+  const canCreate = usePermission('accounting:create');
+  const canEdit = usePermission('accounting:edit');
+  const canDelete = usePermission('accounting:delete');
+  const canRecordPayments = usePermission('accounting:payments');
+  // Links from elsewhere (a project's invoices) open the list searched
+  const [searchParams] = useSearchParams();
+  const [search, setSearch] = useState(searchParams.get('search') ?? '');
   const [page, setPage] = useState(1);
   const [statusFilter, setStatusFilter] = useState<InvoiceStatus | ''>('');
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -507,6 +693,7 @@ export function InvoicesPage() {
   const [showFilters, setShowFilters] = useState(false);
   const [invoiceToDelete, setInvoiceToDelete] = useState<Invoice | null>(null);
   const [invoiceToMarkPaid, setInvoiceToMarkPaid] = useState<Invoice | null>(null);
+  const [paymentsInvoice, setPaymentsInvoice] = useState<Invoice | null>(null);
   const toast = useToast();
 
   const { data, isLoading, error, refetch } = useInvoices({
@@ -521,17 +708,26 @@ export function InvoicesPage() {
   const deleteMutation = useDeleteInvoice();
   const markPaidMutation = useMarkInvoicePaid();
 
-  const handleSave = async (formData: InvoiceFormData) => {
+  // The list has no line items; the editor opens once the full invoice loads
+  const { data: editingData } = useInvoice(editingInvoice?.id ?? '');
+  const editingDetail = editingData?.data ?? null;
+
+  const handleSave = async (formData: InvoiceFormData, tax: DocumentTaxInput) => {
     const input: CreateInvoiceInput = {
       clientId: formData.clientId,
       projectId: formData.projectId || undefined,
       dueDate: formData.dueDate,
       notes: formData.notes || undefined,
-      taxRate: parseFloat(formData.taxRate) / 100,
+      terms: formData.terms || undefined,
+      letterheadId: formData.letterheadId || null,
+      ...tax,
       lineItems: formData.lineItems.map(li => ({
         description: li.description,
         quantity: li.quantity,
         unitPrice: li.unitPrice,
+        category: li.category || undefined,
+        taxable: li.taxable,
+        costCodeId: li.costCodeId || null,
       })),
     };
 
@@ -585,6 +781,13 @@ export function InvoicesPage() {
     }
   };
 
+  const handleViewPdf = (invoice: Invoice) => {
+    openPdfInNewTab(() => fetchInvoicePdf(invoice.id)).catch((err) => {
+      console.error('Failed to generate invoice PDF:', err);
+      toast.error('Error', 'Failed to generate PDF');
+    });
+  };
+
   const invoices = data?.data?.invoices || [];
   const totalPages = data?.data?.totalPages || 1;
 
@@ -601,13 +804,15 @@ export function InvoicesPage() {
           >
             Filters
           </Button>
-          <Button
-            variant="primary"
-            leftIcon={<Plus className="w-4 h-4" />}
-            onClick={() => { setEditingInvoice(null); setIsModalOpen(true); }}
-          >
-            New Invoice
-          </Button>
+          {canCreate && (
+            <Button
+              variant="primary"
+              leftIcon={<Plus className="w-4 h-4" />}
+              onClick={() => { setEditingInvoice(null); setIsModalOpen(true); }}
+            >
+              New Invoice
+            </Button>
+          )}
         </div>
       }
     >
@@ -643,6 +848,7 @@ export function InvoicesPage() {
               <option value="">All Statuses</option>
               <option value="draft">Draft</option>
               <option value="sent">Sent</option>
+              <option value="partially_paid">Partially Paid</option>
               <option value="paid">Paid</option>
               <option value="overdue">Overdue</option>
               <option value="cancelled">Cancelled</option>
@@ -714,9 +920,11 @@ export function InvoicesPage() {
                 >
                   <InvoiceCard
                     invoice={invoice}
-                    onEdit={() => { setEditingInvoice(invoice); setIsModalOpen(true); }}
-                    onDelete={() => handleDelete(invoice)}
-                    onMarkPaid={() => handleMarkPaid(invoice)}
+                    onEdit={canEdit ? () => { setEditingInvoice(invoice); setIsModalOpen(true); } : undefined}
+                    onDelete={canDelete ? () => handleDelete(invoice) : undefined}
+                    onMarkPaid={canRecordPayments ? () => handleMarkPaid(invoice) : undefined}
+                    onViewPdf={() => handleViewPdf(invoice)}
+                    onViewPayments={() => setPaymentsInvoice(invoice)}
                   />
                 </motion.div>
               ))}
@@ -751,13 +959,16 @@ export function InvoicesPage() {
       )}
 
       {/* Invoice Modal */}
-      <InvoiceModal
-        isOpen={isModalOpen}
-        onClose={() => { setIsModalOpen(false); setEditingInvoice(null); }}
-        invoice={editingInvoice}
-        onSave={handleSave}
-        isLoading={createMutation.isPending || updateMutation.isPending}
-      />
+      {isModalOpen && (!editingInvoice || editingDetail) && (
+        <InvoiceModal
+          key={editingInvoice?.id ?? 'new'}
+          isOpen
+          onClose={() => { setIsModalOpen(false); setEditingInvoice(null); }}
+          invoice={editingInvoice ? { ...editingInvoice, ...editingDetail! } : null}
+          onSave={handleSave}
+          isLoading={createMutation.isPending || updateMutation.isPending}
+        />
+      )}
 
       {/* Delete Confirmation Modal */}
       <ConfirmModal
@@ -777,12 +988,18 @@ export function InvoicesPage() {
         onClose={() => setInvoiceToMarkPaid(null)}
         onConfirm={confirmMarkPaid}
         title="Mark as Paid"
-        message={`Mark invoice "${invoiceToMarkPaid?.invoiceNumber}" as paid? This will record today's date as the payment date.`}
+        message={`Mark invoice "${invoiceToMarkPaid?.invoiceNumber}" as paid? This records a payment for the balance due, dated today.`}
         confirmText="Mark as Paid"
         cancelText="Cancel"
         variant="primary"
       />
 
+      {/* Payment History */}
+      <InvoicePaymentsPanel
+        invoice={paymentsInvoice}
+        onClose={() => setPaymentsInvoice(null)}
+      />
+
       {/* AI Assistant - TODO: Enable when AI is set up
       <AIAssistant
         context={{ type: 'invoice', entityId: editingInvoice?.id }}
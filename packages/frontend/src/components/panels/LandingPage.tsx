@@ -24,7 +24,8 @@ import {
 } from 'lucide-react';
 import { useAuthStore, useCompanyStore } from '@/contexts';
 import { Header } from '@/components/layout';
-import { useDocumentTitle } from '@/hooks';
+import { useDocumentTitle, useHasPermission } from '@/hooks';
+import type { Permission } from '@sg-portal/shared';
 
 interface ModuleCard {
   id: string;
@@ -34,6 +35,7 @@ interface ModuleCard {
   path: string;
   gradient: string;
   iconColor: string;
+  requiredPermission?: Permission;
 }
 
 const modules: ModuleCard[] = [
@@ -43,6 +45,7 @@ const modules: ModuleCard[] = [
     description: 'Invoices, reports & forecasting',
     icon: <Receipt className="w-8 h-8" />,
     path: '/accounting',
+    requiredPermission: 'accounting:view',
     gradient: 'from-emerald-500 to-emerald-600',
     iconColor: 'text-white',
   },
@@ -52,6 +55,7 @@ const modules: ModuleCard[] = [
     description: 'Track projects & collaboration',
     icon: <FolderKanban className="w-8 h-8" />,
     path: '/projects',
+    requiredPermission: 'projects:view',
     gradient: 'from-violet-500 to-violet-600',
     iconColor: 'text-white',
   },
@@ -61,6 +65,7 @@ const modules: ModuleCard[] = [
     description: 'Create & manage estimates',
     icon: <FileText className="w-8 h-8" />,
     path: '/estimates',
+    requiredPermission: 'estimating:view',
     gradient: 'from-amber-500 to-amber-600',
     iconColor: 'text-white',
   },
@@ -70,6 +75,7 @@ const modules: ModuleCard[] = [
     description: 'Companies & contacts',
     icon: <Users className="w-8 h-8" />,
     path: '/clients',
+    requiredPermission: 'customers:view',
     gradient: 'from-orange-500 to-orange-600',
     iconColor: 'text-white',
   },
@@ -79,6 +85,7 @@ const modules: ModuleCard[] = [
     description: 'CRM & pipeline management',
     icon: <Handshake className="w-8 h-8" />,
     path: '/sales',
+    requiredPermission: 'sales:view',
     gradient: 'from-teal-500 to-teal-600',
     iconColor: 'text-white',
   },
@@ -88,6 +95,7 @@ const modules: ModuleCard[] = [
     description: 'Calendar & task management',
     icon: <CheckSquare className="w-8 h-8" />,
     path: '/tasks',
+    requiredPermission: 'tasks:view',
     gradient: 'from-cyan-500 to-cyan-600',
     iconColor: 'text-white',
   },
@@ -97,6 +105,7 @@ const modules: ModuleCard[] = [
     description: 'Users & system settings',
     icon: <Settings className="w-8 h-8" />,
     path: '/admin',
+    requiredPermission: 'admin:view',
     gradient: 'from-rose-500 to-rose-600',
     iconColor: 'text-white',
   },
@@ -106,6 +115,7 @@ const modules: ModuleCard[] = [
     description: 'Tools & diagnostics',
     icon: <Code className="w-8 h-8" />,
     path: '/developer',
+    requiredPermission: 'developer:view',
     gradient: 'from-indigo-500 to-indigo-600',
     iconColor: 'text-white',
   },
@@ -116,6 +126,11 @@ export function LandingPage() {
   const navigate = useNavigate();
   const { user } = useAuthStore();
   const { company } = useCompanyStore();
+  const can = useHasPermission();
+  const visibleModules = React.useMemo(
+    () => modules.filter((module) => can(module.requiredPermission)),
+    [can]
+  );
 
   const firstName = user?.firstName || user?.displayName?.split(' ')[0] || 'there';
 
@@ -126,8 +141,8 @@ export function LandingPage() {
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       
       const key = parseInt(e.key);
-      if (key >= 1 && key <= modules.length) {
-        const module = modules[key - 1];
+      if (key >= 1 && key <= visibleModules.length) {
+        const module = visibleModules[key - 1];
         if (module) {
           navigate(module.path);
         }
@@ -136,7 +151,7 @@ export function LandingPage() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [navigate]);
+  }, [navigate, visibleModules]);
 
   return (
     <div className="h-screen flex flex-col bg-slate-50 dark:bg-slate-900">
@@ -195,7 +210,7 @@ export function LandingPage() {
                 className="flex-1 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-x-4 gap-y-0"
                 style={{ gridTemplateRows: '1fr 1fr' }}
               >
-                {modules.map((module, index) => (
+                {visibleModules.map((module, index) => (
                   <motion.button
                     key={module.id}
                     initial={{ opacity: 0, scale: 0.9 }}
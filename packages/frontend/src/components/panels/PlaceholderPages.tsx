@@ -27,15 +27,6 @@ function PlaceholderPage({ title, description }: PlaceholderPageProps) {
   );
 }
 
-export function AccountingPage() {
-  return (
-    <PlaceholderPage
-      title="Accounting"
-      description="Manage payments, reports, and financial analytics"
-    />
-  );
-}
-
 export function AdminPage() {
   return (
     <PlaceholderPage
@@ -1,4 +1,5 @@
-import { useDocumentTitle } from '@/hooks';
+import { Routes, Route, useNavigate } from 'react-router-dom';
+import { useDocumentTitle, usePermission } from '@/hooks';
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { clsx } from 'clsx';
@@ -16,9 +17,12 @@ import {
   Loader2,
   Building2,
   Filter,
+  Calculator,
+  Hash,
+  Clock,
 } from 'lucide-react';
 import { Page } from '@/components/layout';
-import { Card, CardContent, Button, Input, ConfirmModal } from '@/components/common';
+import { Card, CardContent, Button, Input, ConfirmModal, AddressInput } from '@/components/common';
 import {
   useProjects,
   useCreateProject,
@@ -27,28 +31,22 @@ import {
   useClients,
   type Project,
   type CreateProjectInput,
+  type ProjectJobsiteAddress,
   type ProjectStatus,
   type ProjectPriority,
 } from '@/services/api';
 import { useToast } from '@/contexts';
+import {
+  CostCodesPage,
+  ProjectJobCostPage,
+  ProjectDetailPage,
+  TimesheetPage,
+  TimesheetApprovalsPage,
+  PROJECT_STATUS_COLORS,
+  PROJECT_STATUS_LABELS,
+} from './projects';
 // import { AIAssistant } from '@/components/ai/AIAssistant';
 
-const STATUS_COLORS: Record<ProjectStatus, string> = {
-  planning: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
-  in_progress: 'bg-brand-100 text-brand-700 dark:bg-brand-900/30 dark:text-brand-400',
-  on_hold: 'bg-warning-100 text-warning-700 dark:bg-warning-900/30 dark:text-warning-400',
-  completed: 'bg-success-100 text-success-700 dark:bg-success-900/30 dark:text-success-400',
-  cancelled: 'bg-danger-100 text-danger-700 dark:bg-danger-900/30 dark:text-danger-400',
-};
-
-const STATUS_LABELS: Record<ProjectStatus, string> = {
-  planning: 'Planning',
-  in_progress: 'In Progress',
-  on_hold: 'On Hold',
-  completed: 'Completed',
-  cancelled: 'Cancelled',
-};
-
 const PRIORITY_COLORS: Record<ProjectPriority, string> = {
   low: 'text-slate-500',
   medium: 'text-brand-500',
@@ -65,8 +63,11 @@ interface ProjectFormData {
   startDate: string;
   endDate: string;
   budget: string;
+  jobsite: ProjectJobsiteAddress;
 }
 
+const emptyJobsite: ProjectJobsiteAddress = { street: '', suite: '', city: '', state: '', zip: '' };
+
 const initialFormData: ProjectFormData = {
   name: '',
   clientId: '',
@@ -76,6 +77,7 @@ const initialFormData: ProjectFormData = {
   startDate: '',
   endDate: '',
   budget: '',
+  jobsite: emptyJobsite,
 };
 
 function ProjectModal({
@@ -102,12 +104,13 @@ function ProjectModal({
           startDate: project.startDate?.split('T')[0] || '',
           endDate: project.endDate?.split('T')[0] || '',
           budget: project.budget?.toString() || '',
+          jobsite: { ...emptyJobsite, ...project.jobsiteAddress },
         }
       : initialFormData
   );
 
   const { data: clientsData } = useClients({ limit: 100, active: true });
-  const clients = clientsData?.data?.clients || [];
+  const clients = clientsData?.data || [];
 
   if (!isOpen) return null;
 
@@ -167,7 +170,7 @@ function ProjectModal({
                   <option value="">Select a client</option>
                   {clients.map((client) => (
                     <option key={client.id} value={client.id}>
-                      {client.companyName}
+                      {client.name}
                     </option>
                   ))}
                 </select>
@@ -184,7 +187,7 @@ function ProjectModal({
                     bg-white dark:bg-slate-800 text-slate-900 dark:text-white
                     focus:outline-none focus:ring-2 focus:ring-brand-500"
                 >
-                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  {Object.entries(PROJECT_STATUS_LABELS).map(([value, label]) => (
                     <option key={value} value={value}>{label}</option>
                   ))}
                 </select>
@@ -231,6 +234,24 @@ function ProjectModal({
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Jobsite Address
+              </label>
+              <AddressInput
+                street={formData.jobsite.street}
+                suite={formData.jobsite.suite}
+                city={formData.jobsite.city}
+                state={formData.jobsite.state}
+                zip={formData.jobsite.zip}
+                autoSave
+                onSave={(address) => setFormData({ ...formData, jobsite: { ...address, suite: address.suite || '' } })}
+              />
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                Sales tax on the project's estimates and invoices follows this address, or the client's when empty.
+              </p>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
                 Description
@@ -273,11 +294,15 @@ function ProjectModal({
 function ProjectCard({ 
   project, 
   onEdit, 
-  onDelete 
+  onDelete,
+  onJobCost,
+  onOpen,
 }: { 
   project: Project; 
-  onEdit: () => void; 
-  onDelete: () => void;
+  onOpen: () => void;
+  onEdit?: () => void; // Omitted actions are hidden (no permission)
+  onDelete?: () => void;
+  onJobCost?: () => void;
 }) {
   const [showMenu, setShowMenu] = useState(false);
   
@@ -286,7 +311,7 @@ function ProjectCard({
     : 0;
 
   return (
-    <Card hover className="relative">
+    <Card hover className="relative cursor-pointer" onClick={onOpen}>
       <CardContent className="p-5">
         <div className="flex items-start justify-between">
           <div className="flex items-start gap-4">
@@ -306,7 +331,7 @@ function ProjectCard({
             </div>
           </div>
           
-          <div className="relative">
+          <div className="relative" onClick={(e) => e.stopPropagation()}>
             <button
               onClick={() => setShowMenu(!showMenu)}
               className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400"
@@ -321,22 +346,36 @@ function ProjectCard({
                 />
                 <div className="absolute right-0 top-full mt-1 w-36 bg-white dark:bg-slate-800 
                   rounded-lg shadow-lg border border-slate-200 dark:border-slate-700 py-1 z-20">
-                  <button
-                    onClick={() => { onEdit(); setShowMenu(false); }}
-                    className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
-                      hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300"
-                  >
-                    <Edit className="w-4 h-4" />
-                    Edit
-                  </button>
-                  <button
-                    onClick={() => { onDelete(); setShowMenu(false); }}
-                    className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
-                      hover:bg-slate-100 dark:hover:bg-slate-700 text-danger-600"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                    Delete
-                  </button>
+                  {onEdit && (
+                    <button
+                      onClick={() => { onEdit(); setShowMenu(false); }}
+                      className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
+                        hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300"
+                    >
+                      <Edit className="w-4 h-4" />
+                      Edit
+                    </button>
+                  )}
+                  {onJobCost && (
+                    <button
+                      onClick={() => { onJobCost(); setShowMenu(false); }}
+                      className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
+                        hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300"
+                    >
+                      <Calculator className="w-4 h-4" />
+                      Job Cost
+                    </button>
+                  )}
+                  {onDelete && (
+                    <button
+                      onClick={() => { onDelete(); setShowMenu(false); }}
+                      className="w-full px-3 py-2 text-left text-sm flex items-center gap-2
+                        hover:bg-slate-100 dark:hover:bg-slate-700 text-danger-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Delete
+                    </button>
+                  )}
                 </div>
               </>
             )}
@@ -347,9 +386,9 @@ function ProjectCard({
         <div className="mt-4 flex items-center gap-2 flex-wrap">
           <span className={clsx(
             'inline-flex items-center px-2 py-1 rounded-full text-xs font-medium',
-            STATUS_COLORS[project.status]
+            PROJECT_STATUS_COLORS[project.status]
           )}>
-            {STATUS_LABELS[project.status]}
+            {PROJECT_STATUS_LABELS[project.status]}
           </span>
           <span className={clsx('text-xs font-medium', PRIORITY_COLORS[project.priority])}>
             {project.priority.charAt(0).toUpperCase() + project.priority.slice(1)} Priority
@@ -393,8 +432,14 @@ function ProjectCard({
   );
 }
 
-export function ProjectsPage() {
+function ProjectsListPage() {
   useDocumentTitle('Projects');
+  const navigate = useNavigate();
+  const canCreate = usePermission('projects:create');
+  const canEdit = usePermission('projects:edit');
+  const canDelete = usePermission('projects:delete');
+  const canViewCosts = usePermission('projects:costs');
+  const canTrackTime = usePermission('projects:time');
   const [search, setSearch] = useState('');
   const [page, setPage] = useState(1);
   const [statusFilter, setStatusFilter] = useState<ProjectStatus | ''>('');
@@ -416,6 +461,8 @@ export function ProjectsPage() {
   const deleteMutation = useDeleteProject();
 
   const handleSave = async (formData: ProjectFormData) => {
+    const { jobsite } = formData;
+    const hasJobsite = !!(jobsite.street || jobsite.city || jobsite.state || jobsite.zip);
     const input: CreateProjectInput = {
       name: formData.name,
       clientId: formData.clientId,
@@ -425,11 +472,13 @@ export function ProjectsPage() {
       startDate: formData.startDate || undefined,
       endDate: formData.endDate || undefined,
       budget: formData.budget ? parseFloat(formData.budget) : undefined,
+      jobsiteAddress: hasJobsite ? jobsite : undefined,
     };
 
     try {
       if (editingProject) {
-        await updateMutation.mutateAsync({ id: editingProject.id, data: input });
+        // A cleared jobsite is removed rather than left as it was
+        await updateMutation.mutateAsync({ id: editingProject.id, data: { ...input, jobsiteAddress: input.jobsiteAddress ?? null } });
         toast.success('Updated', `${formData.name} has been updated`);
       } else {
         await createMutation.mutateAsync(input);
@@ -476,13 +525,33 @@ export function ProjectsPage() {
           >
             Filters
           </Button>
-          <Button
-            variant="primary"
-            leftIcon={<Plus className="w-4 h-4" />}
-            onClick={() => { setEditingProject(null); setIsModalOpen(true); }}
-          >
-            New Project
-          </Button>
+          {canViewCosts && (
+            <Button
+              variant="secondary"
+              leftIcon={<Hash className="w-4 h-4" />}
+              onClick={() => navigate('/projects/cost-codes')}
+            >
+              Cost Codes
+            </Button>
+          )}
+          {canTrackTime && (
+            <Button
+              variant="secondary"
+              leftIcon={<Clock className="w-4 h-4" />}
+              onClick={() => navigate('/projects/time')}
+            >
+              My Time
+            </Button>
+          )}
+          {canCreate && (
+            <Button
+              variant="primary"
+              leftIcon={<Plus className="w-4 h-4" />}
+              onClick={() => { setEditingProject(null); setIsModalOpen(true); }}
+            >
+              New Project
+            </Button>
+          )}
         </div>
       }
     >
@@ -516,7 +585,7 @@ export function ProjectsPage() {
                 focus:outline-none focus:ring-2 focus:ring-brand-500"
             >
               <option value="">All Statuses</option>
-              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              {Object.entries(PROJECT_STATUS_LABELS).map(([value, label]) => (
                 <option key={value} value={value}>{label}</option>
               ))}
             </select>
@@ -587,8 +656,10 @@ export function ProjectsPage() {
                 >
                   <ProjectCard
                     project={project}
-                    onEdit={() => { setEditingProject(project); setIsModalOpen(true); }}
-                    onDelete={() => handleDelete(project)}
+                    onOpen={() => navigate(`/projects/${project.id}`)}
+                    onEdit={canEdit ? () => { setEditingProject(project); setIsModalOpen(true); } : undefined}
+                    onDelete={canDelete ? () => handleDelete(project) : undefined}
+                    onJobCost={canViewCosts ? () => navigate(`/projects/${project.id}/costs`) : undefined}
                   />
                 </motion.div>
               ))}
@@ -623,13 +694,16 @@ export function ProjectsPage() {
       )}
 
       {/* Project Modal */}
-      <ProjectModal
-        isOpen={isModalOpen}
-        onClose={() => { setIsModalOpen(false); setEditingProject(null); }}
-        project={editingProject}
-        onSave={handleSave}
-        isLoading={createMutation.isPending || updateMutation.isPending}
-      />
+      {isModalOpen && (
+        <ProjectModal
+          key={editingProject?.id ?? 'new'}
+          isOpen
+          onClose={() => { setIsModalOpen(false); setEditingProject(null); }}
+          project={editingProject}
+          onSave={handleSave}
+          isLoading={createMutation.isPending || updateMutation.isPending}
+        />
+      )}
 
       {/* Delete Confirmation Modal */}
       <ConfirmModal
@@ -651,4 +725,19 @@ export function ProjectsPage() {
       */}
     </Page>
   );
-}
\ No newline at end of file
+}
+
+// Projects panel: the project list, each project's schedule and job costing,
+// and time tracking
+export function ProjectsPage() {
+  return (
+    <Routes>
+      <Route index element={<ProjectsListPage />} />
+      <Route path="cost-codes" element={<CostCodesPage />} />
+      <Route path="time" element={<TimesheetPage />} />
+      <Route path="time/approvals" element={<TimesheetApprovalsPage />} />
+      <Route path=":id" element={<ProjectDetailPage />} />
+      <Route path=":id/costs" element={<ProjectJobCostPage />} />
+    </Routes>
+  );
+}
@@ -11,9 +11,10 @@ import { PanelDashboard } from '@/components/layout';
 import { useDocumentTitle } from '@/hooks';
 // Sub-pages
 import { LeadsPage } from './sales/LeadsPage';
-// Future sub-pages:
-// import { DealsPage } from './sales/DealsPage';
-// import { ActivitiesPage } from './sales/ActivitiesPage';
+import { DealsPage } from './sales/DealsPage';
+import { ActivitiesPage } from './sales/ActivitiesPage';
+import { RoutesPage } from './sales/RoutesPage';
+import { InboxPage } from './sales/InboxPage';
 
 // Placeholder component for pages not yet built
 function PlaceholderPage({ title, description }: { title: string; description: string }) {
@@ -105,33 +106,19 @@ export function SalesPage() {
         element={<PlaceholderPage title="Lead Details" description="Lead detail page coming soon." />} 
       />
       
-      {/* Deals - placeholder for now */}
-      <Route 
-        path="deals" 
-        element={<PlaceholderPage title="Deals" description="Deal tracking with pipeline management coming soon." />} 
-      />
-      <Route 
-        path="deals/:id" 
-        element={<PlaceholderPage title="Deal Details" description="Deal detail page coming soon." />} 
-      />
+      {/* Deals - :id opens the deal's detail panel over the pipeline */}
+      <Route path="deals" element={<DealsPage />} />
+      <Route path="deals/:id" element={<DealsPage />} />
       
-      {/* Activities - placeholder for now */}
-      <Route 
-        path="activities" 
-        element={<PlaceholderPage title="Activities" description="Sales activities and task tracking coming soon." />} 
-      />
+      {/* Activities - tasks linked to leads and deals */}
+      <Route path="activities" element={<ActivitiesPage />} />
       
-      {/* Routes - Coming Soon */}
-      <Route 
-        path="routes" 
-        element={<PlaceholderPage title="Route Planning" description="Google Maps integration for planning sales routes." />} 
-      />
+      {/* Routes - day route planning for reps */}
+      <Route path="routes" element={<RoutesPage />} />
       
-      {/* Inbox - Coming Soon */}
-      <Route 
-        path="inbox" 
-        element={<PlaceholderPage title="Sales Inbox" description="Email BCC integration for sales communications." />} 
-      />
+      {/* Inbox - shared sales mailbox; :id opens a thread */}
+      <Route path="inbox" element={<InboxPage />} />
+      <Route path="inbox/:id" element={<InboxPage />} />
     </Routes>
   );
 }
\ No newline at end of file
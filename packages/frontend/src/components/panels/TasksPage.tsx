@@ -1476,6 +1476,7 @@ export function TasksPage() {
       project: `/projects/${id}`,
       estimate: `/estimates/${id}`,
       invoice: `/accounting/invoices/${id}`,
+      lead: `/sales/leads/${id}`,
       deal: `/sales/deals/${id}`,
     };
     navigate(routes[type] || '/');
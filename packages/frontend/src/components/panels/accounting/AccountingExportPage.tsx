@@ -0,0 +1,389 @@
+// ============================================================================
+// AccountingExportPage Component
+// Location: src/components/panels/accounting/AccountingExportPage.tsx
+//
+// Export invoices and payments to the bookkeeping package as a QuickBooks IIF
+// file or a journal CSV. Every export is kept as a batch that can be
+// downloaded again; entries already in a batch are skipped by later exports
+// until that batch is voided. Below the history is the account mapping the
+// journal entries post to.
+// ============================================================================
+
+import { useState, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { Download, Loader2, AlertCircle, Plus, Trash2, Check, FileDown, Ban, BookOpen } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, ConfirmModal } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useExportBatches,
+  useExportPreview,
+  useCreateExport,
+  useVoidExport,
+  fetchExportFile,
+  useAccountMapping,
+  useUpdateAccountMapping,
+  type AccountMapping,
+  type ExportBatch,
+  type ExportFormat,
+} from '@/services/api';
+import { useDocumentTitle, usePermission } from '@/hooks';
+import { formatDate, getTodayISO } from '@/utils/dateUtils';
+import { downloadTextFile } from '@/utils/routeExport';
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'iif', label: 'QuickBooks Desktop (IIF)' },
+  { value: 'csv', label: 'Journal CSV (Xero, QuickBooks Online)' },
+];
+
+const ACCOUNT_FIELDS: { key: Exclude<keyof AccountMapping, 'revenueByCategory'>; label: string }[] = [
+  { key: 'accountsReceivable', label: 'Accounts receivable' },
+  { key: 'undepositedFunds', label: 'Payments received into' },
+  { key: 'salesTaxPayable', label: 'Sales tax liability' },
+  { key: 'clientCredits', label: 'Client credits (overpayments)' },
+  { key: 'defaultRevenue', label: 'Revenue (uncategorized lines)' },
+];
+
+const inputClass = `w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg
+  bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm
+  focus:outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50`;
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+}
+
+// First day of last month, the usual bookkeeping period
+function lastMonthStart(today: string): string {
+  const [year, month] = today.split('-').map(Number);
+  const date = new Date(year ?? 0, (month ?? 1) - 2, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+async function downloadBatch(batch: ExportBatch) {
+  const blob = await fetchExportFile(batch.id);
+  downloadTextFile(batch.filename, await blob.text(), batch.format === 'csv' ? 'text/csv' : 'text/plain');
+}
+
+function AccountMappingSection() {
+  const toast = useToast();
+  const canEdit = usePermission('accounting:edit');
+  const { data, isLoading } = useAccountMapping();
+  const updateMutation = useUpdateAccountMapping();
+  const [mapping, setMapping] = useState<AccountMapping | null>(null);
+
+  useEffect(() => {
+    if (data?.data) setMapping(data.data);
+  }, [data]);
+
+  if (isLoading || !mapping) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-brand-600" />
+      </div>
+    );
+  }
+
+  const updateCategory = (index: number, update: Partial<AccountMapping['revenueByCategory'][number]>) => {
+    setMapping({
+      ...mapping,
+      revenueByCategory: mapping.revenueByCategory.map((row, i) => (i === index ? { ...row, ...update } : row)),
+    });
+  };
+
+  const handleSave = async () => {
+    const rows = mapping.revenueByCategory.filter((row) => row.category.trim() || row.account.trim());
+    if (rows.some((row) => !row.category.trim() || !row.account.trim())) {
+      toast.error('Error', 'Each category needs a revenue account');
+      return;
+    }
+    try {
+      const response = await updateMutation.mutateAsync({ ...mapping, revenueByCategory: rows });
+      if (response.data) setMapping(response.data);
+      toast.success('Saved', 'Account mapping updated');
+    } catch (err) {
+      console.error('Failed to save account mapping:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save account mapping');
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-50 dark:bg-slate-800/50 border-b border-slate-200 dark:border-slate-700">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-900 dark:text-white">
+          <BookOpen className="w-4 h-4 text-slate-500" />
+          Account Mapping
+        </h3>
+        {canEdit && (
+          <Button
+            size="sm"
+            variant="primary"
+            leftIcon={updateMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            onClick={handleSave}
+            disabled={updateMutation.isPending}
+          >
+            Save
+          </Button>
+        )}
+      </div>
+      <div className="p-4 bg-white dark:bg-slate-900 space-y-4">
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Account names must match your chart of accounts exactly. Invoice lines post revenue to the
+          account mapped to their category.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {ACCOUNT_FIELDS.map((field) => (
+            <label key={field.key} className="flex flex-col gap-1 text-xs font-medium text-slate-500 dark:text-slate-400">
+              {field.label}
+              <input
+                type="text"
+                value={mapping[field.key]}
+                onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value })}
+                disabled={!canEdit}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Revenue by line item category</span>
+            {canEdit && (
+              <Button
+                size="sm"
+                variant="secondary"
+                leftIcon={<Plus className="w-4 h-4" />}
+                onClick={() => setMapping({
+                  ...mapping,
+                  revenueByCategory: [...mapping.revenueByCategory, { category: '', account: '' }],
+                })}
+              >
+                Add Category
+              </Button>
+            )}
+          </div>
+          <div className="space-y-2">
+            {mapping.revenueByCategory.length === 0 && (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                No categories mapped: all revenue posts to {mapping.defaultRevenue || 'the revenue account above'}.
+              </p>
+            )}
+            {mapping.revenueByCategory.map((row, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <input
+                  type="text"
+                  placeholder="Category"
+                  value={row.category}
+                  onChange={(e) => updateCategory(index, { category: e.target.value })}
+                  disabled={!canEdit}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  placeholder="Revenue account"
+                  value={row.account}
+                  onChange={(e) => updateCategory(index, { account: e.target.value })}
+                  disabled={!canEdit}
+                  className={inputClass}
+                />
+                {canEdit && (
+                  <button
+                    onClick={() => setMapping({
+                      ...mapping,
+                      revenueByCategory: mapping.revenueByCategory.filter((_, i) => i !== index),
+                    })}
+                    className="p-2 rounded-lg text-slate-400 hover:text-danger-600 hover:bg-slate-100 dark:hover:bg-slate-800"
+                    title="Remove category"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function AccountingExportPage() {
+  useDocumentTitle('Export to Books');
+  const toast = useToast();
+  const canExport = usePermission('accounting:edit');
+  const today = getTodayISO();
+
+  const [from, setFrom] = useState(() => lastMonthStart(today));
+  const [to, setTo] = useState(today);
+  const [format, setFormat] = useState<ExportFormat>('iif');
+  const [voidingBatch, setVoidingBatch] = useState<ExportBatch | null>(null);
+
+  const { data: previewData, isFetching: isPreviewing } = useExportPreview(from, to);
+  const { data: batchesData, isLoading: isLoadingBatches, error: batchesError } = useExportBatches();
+  const createMutation = useCreateExport();
+  const voidMutation = useVoidExport();
+
+  const preview = previewData?.data;
+  const batches = batchesData?.data || [];
+  const pendingCount = preview ? preview.invoiceCount + preview.paymentCount + preview.creditCount : 0;
+
+  const handleExport = async () => {
+    try {
+      const response = await createMutation.mutateAsync({ from, to, format });
+      if (response.data) {
+        await downloadBatch(response.data);
+      }
+      toast.success('Exported', `${pendingCount} journal entries exported`);
+    } catch (err) {
+      console.error('Failed to export:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to export');
+    }
+  };
+
+  const handleDownload = async (batch: ExportBatch) => {
+    try {
+      await downloadBatch(batch);
+    } catch (err) {
+      console.error('Failed to download export:', err);
+      toast.error('Error', 'Failed to download export');
+    }
+  };
+
+  const handleVoid = async () => {
+    if (!voidingBatch) return;
+    try {
+      await voidMutation.mutateAsync(voidingBatch.id);
+      toast.success('Voided', `${voidingBatch.filename} can be exported again`);
+      setVoidingBatch(null);
+    } catch (err) {
+      console.error('Failed to void export:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to void export');
+    }
+  };
+
+  return (
+    <Page
+      title="Export to Books"
+      description="Send invoices, payments and credits to QuickBooks or another accounting package as journal entries."
+    >
+      <div className="max-w-4xl space-y-6">
+        {/* New export */}
+        <div className="border border-slate-200 dark:border-slate-700 rounded-lg p-4 bg-white dark:bg-slate-900">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex flex-col gap-1 text-xs font-medium text-slate-500 dark:text-slate-400">
+              From
+              <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-slate-500 dark:text-slate-400">
+              To
+              <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-slate-500 dark:text-slate-400">
+              Format
+              <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={inputClass}>
+                {FORMAT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            {canExport && (
+              <Button
+                variant="primary"
+                leftIcon={createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+                onClick={handleExport}
+                disabled={createMutation.isPending || pendingCount === 0}
+              >
+                Export
+              </Button>
+            )}
+          </div>
+          <p className="mt-3 text-sm text-slate-500 dark:text-slate-400">
+            {isPreviewing && !preview ? (
+              'Checking what is ready to export…'
+            ) : preview && pendingCount > 0 ? (
+              <>
+                Not yet exported in this range: {preview.invoiceCount} invoice(s), {preview.paymentCount} payment(s)
+                {preview.creditCount > 0 && ` and ${preview.creditCount} credit application(s)`}, totalling{' '}
+                {formatMoney(preview.totalAmount)} in debits.
+              </>
+            ) : (
+              'Everything in this range has already been exported.'
+            )}
+          </p>
+        </div>
+
+        {/* History */}
+        <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+          <div className="px-4 py-3 bg-slate-50 dark:bg-slate-800/50 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Export History</h3>
+          </div>
+          {batchesError && (
+            <div className="m-4 flex items-center gap-2 p-3 rounded-lg bg-danger-50 dark:bg-danger-900/20 text-sm text-danger-700 dark:text-danger-400">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {batchesError instanceof Error ? batchesError.message : 'Failed to load exports'}
+            </div>
+          )}
+          {isLoadingBatches ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-brand-600" />
+            </div>
+          ) : batches.length === 0 ? (
+            <p className="p-4 text-sm text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-900">No exports yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-200 dark:divide-slate-700 bg-white dark:bg-slate-900">
+              {batches.map((batch) => (
+                <li key={batch.id} className="flex items-center gap-4 px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className={clsx(
+                      'text-sm font-medium truncate',
+                      batch.voidedAt ? 'text-slate-400 line-through' : 'text-slate-900 dark:text-white'
+                    )}>
+                      {batch.filename}
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {formatDate(batch.from)} – {formatDate(batch.to)} · {batch.invoiceCount} invoice(s),{' '}
+                      {batch.paymentCount} payment(s) · {formatMoney(batch.totalAmount)}
+                      {batch.createdByName && ` · by ${batch.createdByName}`}
+                      {batch.voidedAt && ` · voided${batch.voidedByName ? ` by ${batch.voidedByName}` : ''}`}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    leftIcon={<Download className="w-4 h-4" />}
+                    onClick={() => handleDownload(batch)}
+                  >
+                    Download
+                  </Button>
+                  {canExport && !batch.voidedAt && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      leftIcon={<Ban className="w-4 h-4" />}
+                      onClick={() => setVoidingBatch(batch)}
+                    >
+                      Void
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <AccountMappingSection />
+      </div>
+
+      <ConfirmModal
+        isOpen={!!voidingBatch}
+        onClose={() => setVoidingBatch(null)}
+        onConfirm={handleVoid}
+        title="Void Export"
+        message={`Void ${voidingBatch?.filename ?? 'this export'}? Its invoices and payments will be included in the next export, so only do this if the file was never imported (or you have removed it from your books).`}
+        confirmText="Void Export"
+        variant="danger"
+        isLoading={voidMutation.isPending}
+      />
+    </Page>
+  );
+}
@@ -0,0 +1,515 @@
+// ============================================================================
+// InvoicePaymentsPanel Component
+// Location: src/components/panels/accounting/InvoicePaymentsPanel.tsx
+//
+// Slide-over payment history for an invoice: record check/ACH/card payments,
+// apply the client's credit and void payments. Anything paid beyond the
+// balance due is credited to the client by the server. Below the payments,
+// the invoice's dunning reminders can be sent or paused.
+// ============================================================================
+
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { clsx } from 'clsx';
+import {
+  X,
+  DollarSign,
+  Hash,
+  Calendar,
+  Wallet,
+  Trash2,
+  Loader2,
+  CreditCard,
+  Bell,
+  Send,
+} from 'lucide-react';
+import { Button, Input, Textarea, SelectFilter, ConfirmModal, Toggle } from '@/components/common';
+import {
+  useInvoicePayments,
+  useRecordPayment,
+  useApplyCredit,
+  useVoidPayment,
+  useInvoiceReminders,
+  usePauseReminders,
+  useSendReminder,
+  type Invoice,
+  type InvoiceReminder,
+  type Payment,
+  type PaymentMethod,
+  type RecordPaymentInput,
+} from '@/services/api';
+import { useToast } from '@/contexts';
+import { usePermission } from '@/hooks';
+import { formatDate, getTodayISO } from '@/utils/dateUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface InvoicePaymentsPanelProps {
+  /** Invoice whose payments are shown (null when closed); totals and status are refetched */
+  invoice: Invoice | null;
+  /** Close handler */
+  onClose: () => void;
+}
+
+interface FormData {
+  amount: string;
+  method: RecordPaymentInput['method'];
+  reference: string;
+  paymentDate: string;
+  notes: string;
+}
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  check: 'Check',
+  ach: 'ACH',
+  card: 'Card',
+  cash: 'Cash',
+  other: 'Other',
+  credit: 'Client credit',
+};
+
+const methodOptions = (Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[])
+  .filter((method) => method !== 'credit')
+  .map((method) => ({ value: method, label: PAYMENT_METHOD_LABELS[method] }));
+
+const REMINDER_LEVEL_LABELS: Record<InvoiceReminder['level'], string> = {
+  gentle: 'Gentle reminder',
+  firm: 'Firm reminder',
+  final: 'Final notice',
+};
+
+const REMINDER_STATUS_COLORS: Record<InvoiceReminder['status'], string> = {
+  queued: 'bg-brand-100 text-brand-700 dark:bg-brand-900/30 dark:text-brand-400',
+  sent: 'bg-success-100 text-success-700 dark:bg-success-900/30 dark:text-success-400',
+  skipped: 'bg-warning-100 text-warning-700 dark:bg-warning-900/30 dark:text-warning-400',
+  cancelled: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-500',
+};
+
+// Invoices that can still take a payment
+const PAYABLE_STATUSES: Invoice['status'][] = ['sent', 'partially_paid', 'overdue'];
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function emptyForm(balanceDue: number): FormData {
+  return {
+    amount: balanceDue > 0 ? balanceDue.toFixed(2) : '',
+    method: 'check',
+    reference: '',
+    paymentDate: getTodayISO(),
+    notes: '',
+  };
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function InvoicePaymentsPanel({ invoice, onClose }: InvoicePaymentsPanelProps) {
+  const canRecordPayments = usePermission('accounting:payments');
+  const canEdit = usePermission('accounting:edit');
+  const toast = useToast();
+
+  const { data, isLoading } = useInvoicePayments(invoice?.id ?? null);
+  const recordMutation = useRecordPayment();
+  const applyCreditMutation = useApplyCredit();
+  const voidMutation = useVoidPayment();
+  const { data: remindersData } = useInvoiceReminders(invoice?.id ?? null);
+  const pauseMutation = usePauseReminders();
+  const sendReminderMutation = useSendReminder();
+
+  const [formData, setFormData] = useState<FormData>(() => emptyForm(0));
+  const [paymentToVoid, setPaymentToVoid] = useState<Payment | null>(null);
+
+  const summary = data?.data;
+  const balanceDue = summary?.balanceDue ?? invoice?.balanceDue ?? 0;
+
+  // Prefill the balance due whenever the invoice or its balance changes
+  useEffect(() => {
+    setFormData(emptyForm(balanceDue));
+  }, [invoice?.id, balanceDue]);
+
+  if (!invoice) return null;
+
+  const status = summary?.status ?? invoice.status;
+  const canPay = canRecordPayments && PAYABLE_STATUSES.includes(status) && balanceDue > 0;
+  const availableCredit = summary?.availableCredit ?? 0;
+  const amount = parseFloat(formData.amount) || 0;
+  const overpayment = Math.max(0, amount - balanceDue);
+
+  const updateField = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (amount <= 0) {
+      toast.error('Error', 'Enter a payment amount');
+      return;
+    }
+
+    try {
+      await recordMutation.mutateAsync({
+        id: invoice.id,
+        data: {
+          amount,
+          method: formData.method,
+          reference: formData.reference.trim() || undefined,
+          paymentDate: formData.paymentDate || undefined,
+          notes: formData.notes.trim() || undefined,
+        },
+      });
+      toast.success(
+        'Payment Recorded',
+        overpayment > 0
+          ? `${money(overpayment)} was credited to the client`
+          : `${money(amount)} recorded on ${invoice.invoiceNumber}`
+      );
+    } catch (err) {
+      console.error('Failed to record payment:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to record payment');
+    }
+  };
+
+  const handleApplyCredit = async () => {
+    try {
+      await applyCreditMutation.mutateAsync({ id: invoice.id });
+      toast.success('Credit Applied', `Client credit applied to ${invoice.invoiceNumber}`);
+    } catch (err) {
+      console.error('Failed to apply credit:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to apply credit');
+    }
+  };
+
+  const confirmVoid = async () => {
+    if (!paymentToVoid) return;
+    try {
+      await voidMutation.mutateAsync({ id: invoice.id, paymentId: paymentToVoid.id });
+      toast.success('Payment Voided', `${money(paymentToVoid.amount)} removed from ${invoice.invoiceNumber}`);
+    } catch (err) {
+      console.error('Failed to void payment:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to void payment');
+    }
+    setPaymentToVoid(null);
+  };
+
+  const handleTogglePaused = async (paused: boolean) => {
+    try {
+      await pauseMutation.mutateAsync({ id: invoice.id, paused });
+      toast.success(
+        paused ? 'Reminders Paused' : 'Reminders Resumed',
+        `Payment reminders for ${invoice.invoiceNumber} are ${paused ? 'paused' : 'back on'}`
+      );
+    } catch (err) {
+      console.error('Failed to update reminders:', err);
+      toast.error('Error', 'Failed to update reminders');
+    }
+  };
+
+  const handleSendReminder = async (reminder: InvoiceReminder) => {
+    try {
+      await sendReminderMutation.mutateAsync({ id: invoice.id, reminderId: reminder.id });
+      toast.success('Reminder Sent', `Sent to ${reminder.recipient}`);
+    } catch (err) {
+      console.error('Failed to send reminder:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to send reminder');
+    }
+  };
+
+  const payments = summary?.payments ?? [];
+  const reminders = remindersData?.data?.reminders ?? [];
+  const remindersPaused = remindersData?.data?.paused ?? invoice.remindersPaused;
+
+  return createPortal(
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/20 dark:bg-black/40 z-40"
+        onClick={onClose}
+      />
+
+      {/* Panel */}
+      <div
+        className={clsx(
+          'fixed top-0 right-0 h-full w-full max-w-lg',
+          'bg-white dark:bg-slate-800',
+          'border-l border-slate-200 dark:border-slate-700',
+          'shadow-xl z-50',
+          'flex flex-col',
+          'animate-slide-in-right'
+        )}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-success-100 dark:bg-success-900/30 flex items-center justify-center">
+              <Wallet className="w-4 h-4 text-success-600 dark:text-success-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+                Payments
+              </h2>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {invoice.invoiceNumber}{invoice.clientName ? ` · ${invoice.clientName}` : ''}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: 'Total', value: summary?.total ?? invoice.total },
+              { label: 'Paid', value: summary?.amountPaid ?? invoice.amountPaid },
+              { label: 'Balance Due', value: balanceDue },
+            ].map(({ label, value }) => (
+              <div key={label} className="rounded-lg bg-slate-50 dark:bg-slate-900/50 px-3 py-2">
+                <p className="text-xs text-slate-500 dark:text-slate-400">{label}</p>
+                <p className={clsx(
+                  'text-sm font-semibold',
+                  label === 'Balance Due' && value > 0
+                    ? 'text-danger-600 dark:text-danger-400'
+                    : 'text-slate-900 dark:text-white'
+                )}>
+                  {money(value)}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Client credit */}
+          {availableCredit > 0 && (
+            <div className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-brand-50 dark:bg-brand-900/20 text-brand-700 dark:text-brand-400 text-sm">
+              <div className="flex items-center gap-2">
+                <CreditCard className="w-4 h-4 flex-shrink-0" />
+                <span>Client has {money(availableCredit)} of credit</span>
+              </div>
+              {canPay && (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={handleApplyCredit}
+                  disabled={applyCreditMutation.isPending}
+                >
+                  Apply {money(Math.min(availableCredit, balanceDue))}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* History */}
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">History</h3>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-5 h-5 animate-spin text-brand-600" />
+              </div>
+            ) : payments.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400 py-2">No payments recorded yet.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg">
+                {payments.map((payment) => (
+                  <li key={payment.id} className="flex items-start justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-slate-900 dark:text-white">
+                        {money(payment.amount)}
+                        <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+                          {PAYMENT_METHOD_LABELS[payment.method]}
+                          {payment.reference ? ` #${payment.reference}` : ''}
+                        </span>
+                      </p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {formatDate(payment.paymentDate)}
+                        {payment.recordedByName ? ` · ${payment.recordedByName}` : ''}
+                      </p>
+                      {payment.overpayment > 0 && (
+                        <p className="text-xs text-brand-600 dark:text-brand-400">
+                          +{money(payment.overpayment)} credited to client
+                        </p>
+                      )}
+                      {payment.notes && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">{payment.notes}</p>
+                      )}
+                    </div>
+                    {canRecordPayments && (
+                      <button
+                        onClick={() => setPaymentToVoid(payment)}
+                        className="p-1.5 rounded-lg text-slate-400 hover:text-danger-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                        title="Void payment"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Record payment */}
+          {canPay && (
+            <form onSubmit={handleRecord} className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-700">
+              <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300">Record Payment</h3>
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  label="Amount *"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={formData.amount}
+                  onChange={(e) => updateField('amount', e.target.value)}
+                  leftIcon={<DollarSign className="w-4 h-4" />}
+                />
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">
+                    Method
+                  </label>
+                  <SelectFilter
+                    label="Select method"
+                    value={formData.method}
+                    onChange={(value) => updateField('method', value as FormData['method'])}
+                    options={methodOptions}
+                    showAllOption={false}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  label="Reference"
+                  value={formData.reference}
+                  onChange={(e) => updateField('reference', e.target.value)}
+                  placeholder="Check or transaction #"
+                  leftIcon={<Hash className="w-4 h-4" />}
+                />
+                <Input
+                  label="Date"
+                  type="date"
+                  value={formData.paymentDate}
+                  onChange={(e) => updateField('paymentDate', e.target.value)}
+                  leftIcon={<Calendar className="w-4 h-4" />}
+                />
+              </div>
+              <Textarea
+                label="Notes"
+                value={formData.notes}
+                onChange={(e) => updateField('notes', e.target.value)}
+                rows={2}
+              />
+              {overpayment > 0 && (
+                <p className="text-xs text-brand-600 dark:text-brand-400">
+                  {money(overpayment)} over the balance due will be credited to the client.
+                </p>
+              )}
+              <Button type="submit" variant="primary" className="w-full" disabled={recordMutation.isPending}>
+                {recordMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  'Record Payment'
+                )}
+              </Button>
+            </form>
+          )}
+
+          {/* Reminders */}
+          <div className="pt-2 border-t border-slate-200 dark:border-slate-700">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="flex items-center gap-1.5 text-sm font-medium text-slate-700 dark:text-slate-300">
+                <Bell className="w-4 h-4" />
+                Reminders
+              </h3>
+              <Toggle
+                checked={remindersPaused}
+                onChange={handleTogglePaused}
+                label="Pause reminders"
+                labelPosition="left"
+                size="sm"
+                activeColor="warning"
+                disabled={!canEdit || pauseMutation.isPending}
+              />
+            </div>
+            {reminders.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400 py-2">
+                {remindersPaused
+                  ? 'Reminders are paused for this invoice.'
+                  : 'Reminders are queued automatically once the invoice is past due.'}
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {reminders.map((reminder) => (
+                  <li
+                    key={reminder.id}
+                    className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700"
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-slate-900 dark:text-white">
+                          {REMINDER_LEVEL_LABELS[reminder.level]}
+                          <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+                            {reminder.stepDays} days past due
+                          </span>
+                        </p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                          {reminder.sentAt
+                            ? `Sent ${new Date(reminder.sentAt).toLocaleDateString()} to ${reminder.recipient}`
+                            : reminder.recipient || 'No client email on file'}
+                          {reminder.sentByName ? ` · ${reminder.sentByName}` : ''}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className={clsx(
+                          'px-2 py-0.5 rounded-full text-xs font-medium capitalize',
+                          REMINDER_STATUS_COLORS[reminder.status]
+                        )}>
+                          {reminder.status}
+                        </span>
+                        {canEdit && reminder.status === 'queued' && (
+                          <button
+                            onClick={() => handleSendReminder(reminder)}
+                            disabled={sendReminderMutation.isPending}
+                            className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                            title="Send now"
+                          >
+                            <Send className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {reminder.error && (
+                      <p className="mt-1 text-xs text-danger-600 dark:text-danger-400">{reminder.error}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Void Confirmation Modal */}
+      <ConfirmModal
+        isOpen={!!paymentToVoid}
+        onClose={() => setPaymentToVoid(null)}
+        onConfirm={confirmVoid}
+        title="Void Payment"
+        message={`Void the ${paymentToVoid ? money(paymentToVoid.amount) : ''} payment on ${invoice.invoiceNumber}? The invoice balance will be restored.`}
+        confirmText="Void Payment"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={voidMutation.isPending}
+      />
+    </>,
+    document.body
+  );
+}
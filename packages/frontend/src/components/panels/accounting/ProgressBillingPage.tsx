@@ -0,0 +1,113 @@
+// ============================================================================
+// ProgressBillingPage Component
+// Location: src/components/panels/accounting/ProgressBillingPage.tsx
+//
+// Jobs billed by pay application rather than a single invoice. Each row is an
+// approved estimate's schedule of values with what has been certified for
+// payment so far; set one up from the estimate's menu.
+// ============================================================================
+
+import { useNavigate } from 'react-router-dom';
+import { ClipboardList } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { DataTable, type DataTableColumn } from '@/components/common';
+import { useSchedulesOfValues, type ScheduleOfValuesSummary } from '@/services/api';
+import { useDocumentTitle } from '@/hooks';
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+}
+
+export function ProgressBillingPage() {
+  useDocumentTitle('Progress Billing');
+  const navigate = useNavigate();
+  const { data, isLoading } = useSchedulesOfValues();
+  const schedules = data?.data ?? [];
+
+  const columns: DataTableColumn<ScheduleOfValuesSummary>[] = [
+    {
+      key: 'estimate',
+      header: 'Estimate',
+      sortable: true,
+      sortValue: (s) => s.estimateNumber,
+      render: (s) => (
+        <div>
+          <p className="font-medium text-slate-900 dark:text-white">{s.estimateNumber}</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{s.estimateTitle}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'client',
+      header: 'Client / Project',
+      hideOnMobile: true,
+      render: (s) => (
+        <div className="text-sm text-slate-600 dark:text-slate-300">
+          <p>{s.clientName ?? '—'}</p>
+          {s.projectName && <p className="text-xs text-slate-500">{s.projectName}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'applications',
+      header: 'Pay Apps',
+      align: 'center',
+      render: (s) => (
+        <span className="text-sm text-slate-600 dark:text-slate-300">
+          {s.applicationCount}
+          {s.draftApplicationNumber !== null && (
+            <span className="ml-1 text-xs text-warning-600 dark:text-warning-400">(#{s.draftApplicationNumber} draft)</span>
+          )}
+        </span>
+      ),
+    },
+    {
+      key: 'contract',
+      header: 'Contract Sum',
+      align: 'right',
+      sortable: true,
+      sortValue: (s) => s.contractSumToDate,
+      render: (s) => (
+        <span className="text-sm font-medium text-slate-900 dark:text-white">{formatMoney(s.contractSumToDate)}</span>
+      ),
+    },
+    {
+      key: 'certified',
+      header: 'Certified',
+      align: 'right',
+      render: (s) => (
+        <div className="text-sm">
+          <p className="text-slate-900 dark:text-white">{formatMoney(s.certifiedToDate)}</p>
+          {s.contractSumToDate > 0 && (
+            <p className="text-xs text-slate-500">
+              {Math.round((s.certifiedToDate / s.contractSumToDate) * 100)}% of contract
+            </p>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Page
+      title="Progress Billing"
+      description="Schedules of values and monthly pay applications (AIA G702/G703) for jobs billed by percent complete."
+      fillHeight
+    >
+      <DataTable
+        data={schedules}
+        columns={columns}
+        rowKey={(s) => s.id}
+        onRowClick={(s) => navigate(`/accounting/progress-billing/${s.id}`)}
+        loading={isLoading}
+        emptyState={
+          <div className="text-center py-12">
+            <ClipboardList className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-500 dark:text-slate-400">No jobs are billed by pay application yet</p>
+            <p className="text-sm text-slate-400 mt-1">Choose "Bill by Pay Application" on an approved estimate</p>
+          </div>
+        }
+      />
+    </Page>
+  );
+}
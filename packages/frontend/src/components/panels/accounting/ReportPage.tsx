@@ -0,0 +1,237 @@
+// ============================================================================
+// ReportPage Component
+// Location: src/components/panels/accounting/ReportPage.tsx
+//
+// One accounting report: date-range filters, optional grouping, the report
+// table with a totals row, and CSV export. The columns come from the server,
+// so the same page renders every report.
+// ============================================================================
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Download, Loader2, AlertCircle, Calendar, FileSpreadsheet } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Card, CardContent } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useReport,
+  fetchReportCsv,
+  type ReportId,
+  type ReportColumn,
+  type ReportParams,
+} from '@/services/api';
+import { useDocumentTitle } from '@/hooks';
+import { formatDate, getTodayISO } from '@/utils/dateUtils';
+import { downloadTextFile } from '@/utils/routeExport';
+
+interface ReportPageProps {
+  reportId: ReportId;
+  title: string;
+  description: string;
+  /** Grouping choices; the first is the default */
+  groupByOptions?: { value: string; label: string }[];
+  /**
+   * Point-in-time report (AR aging): `to` is the as-of date and `from` is
+   * optional. Otherwise both default to the year to date.
+   */
+  asOf?: boolean;
+}
+
+const MONTH_FORMAT = new Intl.DateTimeFormat(undefined, { month: 'short', year: 'numeric' });
+
+function formatCell(column: ReportColumn, value: string | number | null, groupBy?: string): string {
+  if (value === null || value === '') return '';
+  switch (column.type) {
+    case 'money':
+      return (value as number).toLocaleString(undefined, {
+        style: 'currency',
+        currency: 'USD',
+      });
+    case 'number':
+      return (value as number).toLocaleString();
+    case 'date':
+      return formatDate(String(value));
+    default:
+      // Month groups arrive as YYYY-MM
+      if (column.key === 'group' && groupBy === 'month' && /^\d{4}-\d{2}$/.test(String(value))) {
+        const [year, month] = String(value).split('-').map(Number);
+        return MONTH_FORMAT.format(new Date(year ?? 0, (month ?? 1) - 1, 1));
+      }
+      return String(value);
+  }
+}
+
+export function ReportPage({ reportId, title, description, groupByOptions, asOf }: ReportPageProps) {
+  useDocumentTitle(title);
+  const toast = useToast();
+  const today = getTodayISO();
+
+  const [from, setFrom] = useState(asOf ? '' : `${today.slice(0, 4)}-01-01`);
+  const [to, setTo] = useState(today);
+  const [groupBy, setGroupBy] = useState(groupByOptions?.[0]?.value ?? '');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const params: ReportParams = { from, to, groupBy: groupBy || undefined };
+  const { data, isLoading, error, refetch } = useReport(reportId, params);
+  const report = data?.data;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await fetchReportCsv(reportId, params);
+      const suffix = [from, to].filter(Boolean).join('_to_');
+      downloadTextFile(`${reportId}${groupBy ? `-by-${groupBy}` : ''}_${suffix}.csv`, await blob.text(), 'text/csv');
+    } catch (err) {
+      console.error('Failed to export report:', err);
+      toast.error('Error', 'Failed to export report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = `px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg
+    bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm
+    focus:outline-none focus:ring-2 focus:ring-brand-500`;
+
+  return (
+    <Page
+      title={title}
+      description={description}
+      actions={
+        <Button
+          variant="secondary"
+          leftIcon={isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          onClick={handleExport}
+          disabled={isExporting || !report || report.rows.length === 0}
+        >
+          Export CSV
+        </Button>
+      }
+    >
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-500 dark:text-slate-400">
+          {asOf ? 'Issued from (optional)' : 'From'}
+          <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-500 dark:text-slate-400">
+          {asOf ? 'As of' : 'To'}
+          <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </label>
+        {groupByOptions && (
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-500 dark:text-slate-400">
+            Group by
+            <select value={groupBy} onChange={(e) => setGroupBy(e.target.value)} className={inputClass}>
+              {groupByOptions.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        {report && (
+          <span className="flex items-center gap-1.5 pb-2 text-sm text-slate-500 dark:text-slate-400">
+            <Calendar className="w-4 h-4" />
+            {asOf
+              ? `As of ${formatDate(report.to)}`
+              : `${formatDate(report.from ?? '')} – ${formatDate(report.to)}`}
+          </span>
+        )}
+      </div>
+
+      {/* Error state */}
+      {error && (
+        <Card className="mb-6">
+          <CardContent className="p-6 flex items-center gap-4 text-danger-600">
+            <AlertCircle className="w-6 h-6" />
+            <div>
+              <p className="font-medium">Failed to load report</p>
+              <p className="text-sm">{error instanceof Error ? error.message : 'Unknown error'}</p>
+            </div>
+            <Button variant="secondary" size="sm" onClick={() => refetch()} className="ml-auto">
+              Retry
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-brand-600" />
+        </div>
+      )}
+
+      {report && !isLoading && (
+        report.rows.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <FileSpreadsheet className="w-12 h-12 mx-auto text-slate-300 dark:text-slate-600" />
+              <h3 className="mt-4 text-lg font-medium text-slate-900 dark:text-white">
+                Nothing to report
+              </h3>
+              <p className="mt-2 text-slate-500 dark:text-slate-400">
+                Try a different date range.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 dark:bg-slate-800/50">
+                <tr>
+                  {report.columns.map((column) => (
+                    <th
+                      key={column.key}
+                      className={clsx(
+                        'px-4 py-3 font-medium text-slate-500 dark:text-slate-400 whitespace-nowrap',
+                        column.type === 'money' || column.type === 'number' ? 'text-right' : 'text-left'
+                      )}
+                    >
+                      {column.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((row, index) => (
+                  <tr key={index} className="border-t border-slate-200 dark:border-slate-700">
+                    {report.columns.map((column) => (
+                      <td
+                        key={column.key}
+                        className={clsx(
+                          'px-4 py-2.5 text-slate-900 dark:text-white',
+                          column.type === 'money' || column.type === 'number' ? 'text-right tabular-nums' : 'text-left'
+                        )}
+                      >
+                        {formatCell(column, row[column.key] ?? null, report.groupBy)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-slate-50 dark:bg-slate-800/50 font-semibold">
+                <tr className="border-t-2 border-slate-300 dark:border-slate-600">
+                  {report.columns.map((column, index) => (
+                    <td
+                      key={column.key}
+                      className={clsx(
+                        'px-4 py-3 text-slate-900 dark:text-white',
+                        column.type === 'money' || column.type === 'number' ? 'text-right tabular-nums' : 'text-left'
+                      )}
+                    >
+                      {index === 0
+                        ? 'Total'
+                        : column.key in report.totals
+                        ? formatCell(column, report.totals[column.key] ?? 0)
+                        : ''}
+                    </td>
+                  ))}
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )
+      )}
+    </Page>
+  );
+}
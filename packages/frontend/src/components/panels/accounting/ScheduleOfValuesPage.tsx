@@ -0,0 +1,765 @@
+// ============================================================================
+// ScheduleOfValuesPage Component
+// Location: src/components/panels/accounting/ScheduleOfValuesPage.tsx
+//
+// One job's schedule of values and its pay applications. The draft
+// application is filled in line by line on the continuation sheet (G703),
+// either as the amount of work done this period or as the percent of the
+// line complete to date, plus materials stored on site. The certificate
+// (G702) totals it up, and generating the invoice bills the current payment
+// due and fixes the application.
+// ============================================================================
+
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { clsx } from 'clsx';
+import { ArrowLeft, Plus, Check, FileText, FileDown, Receipt, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Input, Modal, ConfirmModal, Textarea } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useScheduleOfValues,
+  useUpdateScheduleOfValues,
+  useDeleteScheduleOfValues,
+  usePayApplication,
+  useCreatePayApplication,
+  useUpdatePayApplication,
+  useDeletePayApplication,
+  useInvoicePayApplication,
+  fetchPayApplicationPdf,
+  fetchPayApplicationCsv,
+  type ScheduleOfValues,
+  type PayApplication,
+  type ContinuationRow,
+  type PayApplicationSummary,
+} from '@/services/api';
+import { useDocumentTitle, usePermission } from '@/hooks';
+import { formatDate, getTodayISO } from '@/utils/dateUtils';
+import { openPdfInNewTab } from '@/utils/pdfUtils';
+import { downloadTextFile } from '@/utils/routeExport';
+
+const cellInputClass = `w-full px-2 py-1 border border-slate-300 dark:border-slate-700 rounded
+  bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-right
+  focus:outline-none focus:ring-2 focus:ring-brand-500`;
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Work completed to date (D + E) as a percent of the scheduled value
+function workPercent(scheduledValue: number, workToDate: number): string {
+  return scheduledValue > 0 ? String(round2((workToDate / scheduledValue) * 100)) : '';
+}
+
+// ============================================================================
+// G703 continuation sheet editor
+// ============================================================================
+
+interface LineForm {
+  work: string; // E, this period
+  percent: string; // (D + E) / C
+  stored: string; // F
+}
+
+function toLineForms(rows: ContinuationRow[]): Record<string, LineForm> {
+  return Object.fromEntries(rows.map((row) => [row.lineId, {
+    work: String(row.workThisPeriod),
+    percent: workPercent(row.scheduledValue, row.previousWork + row.workThisPeriod),
+    stored: String(row.storedMaterials),
+  }]));
+}
+
+// G702 lines, in the order printed on the certificate
+const CERTIFICATE_LINES: { label: string; key: keyof PayApplicationSummary; strong?: boolean }[] = [
+  { label: '1. Original contract sum', key: 'originalContractSum' },
+  { label: '2. Net change by change orders', key: 'netChangeByChangeOrders' },
+  { label: '3. Contract sum to date', key: 'contractSumToDate' },
+  { label: '4. Total completed and stored to date', key: 'totalCompletedAndStored' },
+  { label: '5. Retainage', key: 'totalRetainage' },
+  { label: '6. Total earned less retainage', key: 'totalEarnedLessRetainage' },
+  { label: '7. Less previous certificates for payment', key: 'lessPreviousCertificates' },
+  { label: '8. Current payment due', key: 'currentPaymentDue', strong: true },
+  { label: '9. Balance to finish, including retainage', key: 'balanceToFinishIncludingRetainage' },
+];
+
+interface PayApplicationEditorProps {
+  scheduleId: string;
+  estimateNumber: string;
+  applicationId: string;
+}
+
+function PayApplicationEditor({ scheduleId, estimateNumber, applicationId }: PayApplicationEditorProps) {
+  const toast = useToast();
+  const canEdit = usePermission('accounting:edit');
+  const { data, isLoading, error } = usePayApplication(scheduleId, applicationId);
+  const updateMutation = useUpdatePayApplication(scheduleId);
+  const deleteMutation = useDeletePayApplication(scheduleId);
+  const invoiceMutation = useInvoicePayApplication(scheduleId);
+
+  // Edits, keyed by line; null until the application has loaded
+  const [lines, setLines] = useState<Record<string, LineForm> | null>(null);
+  const [header, setHeader] = useState<{ applicationDate: string; periodTo: string; retainage: string; notes: string } | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [confirmInvoice, setConfirmInvoice] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const application = data?.data;
+
+  if (isLoading || !application) {
+    return error ? (
+      <div className="flex items-center gap-2 p-3 rounded-lg bg-danger-50 dark:bg-danger-900/20 text-sm text-danger-700 dark:text-danger-400">
+        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+        {error instanceof Error ? error.message : 'Failed to load pay application'}
+      </div>
+    ) : (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-brand-600" />
+      </div>
+    );
+  }
+
+  const isDraft = application.status === 'draft' && canEdit;
+  const forms = lines ?? toLineForms(application.rows);
+  const headerForm = header ?? {
+    applicationDate: application.applicationDate,
+    periodTo: application.periodTo,
+    retainage: String(application.retainagePercent),
+    notes: application.notes ?? '',
+  };
+
+  const updateLine = (row: ContinuationRow, update: Partial<LineForm>) => {
+    const current = forms[row.lineId];
+    if (!current) return;
+    const next = { ...current, ...update };
+    // Keep the amount and the percent in step with whichever was typed
+    if (update.work !== undefined) {
+      const work = parseFloat(update.work);
+      next.percent = Number.isFinite(work) ? workPercent(row.scheduledValue, row.previousWork + work) : '';
+    } else if (update.percent !== undefined) {
+      const percent = parseFloat(update.percent);
+      next.work = Number.isFinite(percent) ? String(round2((percent / 100) * row.scheduledValue - row.previousWork)) : '';
+    }
+    setLines({ ...forms, [row.lineId]: next });
+    setIsDirty(true);
+  };
+
+  const updateHeader = (update: Partial<typeof headerForm>) => {
+    setHeader({ ...headerForm, ...update });
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    const changed = application.rows.flatMap((row) => {
+      const form = forms[row.lineId];
+      if (!form) return [];
+      const work = parseFloat(form.work || '0');
+      const stored = parseFloat(form.stored || '0');
+      if (work === row.workThisPeriod && stored === row.storedMaterials) return [];
+      return [{ lineId: row.lineId, workThisPeriod: work, storedMaterials: stored }];
+    });
+    if (changed.some((line) => !Number.isFinite(line.workThisPeriod) || !Number.isFinite(line.storedMaterials))) {
+      toast.error('Error', 'Enter amounts as numbers');
+      return;
+    }
+    const retainagePercent = parseFloat(headerForm.retainage);
+    if (!Number.isFinite(retainagePercent)) {
+      toast.error('Error', 'Enter the retainage as a percent');
+      return;
+    }
+
+    try {
+      const response = await updateMutation.mutateAsync({
+        id: application.id,
+        data: {
+          applicationDate: headerForm.applicationDate,
+          periodTo: headerForm.periodTo,
+          retainagePercent,
+          notes: headerForm.notes.trim() || null,
+          lines: changed,
+        },
+      });
+      if (response.data) setLines(toLineForms(response.data.rows));
+      setHeader(null);
+      setIsDirty(false);
+      toast.success('Saved', `Pay application #${application.applicationNumber} updated`);
+    } catch (err) {
+      console.error('Failed to save pay application:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save pay application');
+    }
+  };
+
+  const handleInvoice = async () => {
+    try {
+      const response = await invoiceMutation.mutateAsync(application.id);
+      toast.success('Invoiced', response.data?.message ?? 'Invoice created');
+      setConfirmInvoice(false);
+    } catch (err) {
+      console.error('Failed to invoice pay application:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to invoice pay application');
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteMutation.mutateAsync(application.id);
+      toast.success('Deleted', `Pay application #${application.applicationNumber} removed`);
+      setConfirmDelete(false);
+    } catch (err) {
+      console.error('Failed to delete pay application:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to delete pay application');
+    }
+  };
+
+  const handleCsv = async () => {
+    try {
+      const blob = await fetchPayApplicationCsv(scheduleId, application.id);
+      downloadTextFile(`${estimateNumber}-pay-app-${application.applicationNumber}.csv`, await blob.text(), 'text/csv');
+    } catch (err) {
+      console.error('Failed to download continuation sheet:', err);
+      toast.error('Error', 'Failed to download continuation sheet');
+    }
+  };
+
+  // Local totals so the sheet adds up while it is being edited
+  const totals = application.rows.reduce(
+    (sum, row) => {
+      const form = forms[row.lineId];
+      const work = parseFloat(form?.work || '0') || 0;
+      const stored = parseFloat(form?.stored || '0') || 0;
+      return {
+        scheduled: sum.scheduled + row.scheduledValue,
+        previous: sum.previous + row.previousWork,
+        work: sum.work + work,
+        stored: sum.stored + stored,
+        retainage: sum.retainage + row.retainage,
+      };
+    },
+    { scheduled: 0, previous: 0, work: 0, stored: 0, retainage: 0 }
+  );
+  const totalCompleted = totals.previous + totals.work + totals.stored;
+
+  return (
+    <div className="space-y-4">
+      {/* Header and actions */}
+      <div className="flex flex-wrap items-end gap-3">
+        {isDraft ? (
+          <>
+            <Input
+              label="Application date"
+              type="date"
+              value={headerForm.applicationDate}
+              onChange={(e) => updateHeader({ applicationDate: e.target.value })}
+            />
+            <Input
+              label="Period to"
+              type="date"
+              value={headerForm.periodTo}
+              onChange={(e) => updateHeader({ periodTo: e.target.value })}
+            />
+            <div className="w-28">
+              <Input
+                label="Retainage"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                rightAddon="%"
+                value={headerForm.retainage}
+                onChange={(e) => updateHeader({ retainage: e.target.value })}
+              />
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-slate-600 dark:text-slate-300">
+            Dated {formatDate(application.applicationDate)} for the period to {formatDate(application.periodTo)} ·
+            {' '}{application.retainagePercent}% retainage
+            {application.invoiceNumber && ` · invoiced as ${application.invoiceNumber}`}
+          </p>
+        )}
+        <div className="flex gap-2 ml-auto">
+          <Button
+            size="sm"
+            variant="secondary"
+            leftIcon={<FileText className="w-4 h-4" />}
+            onClick={() => openPdfInNewTab(() => fetchPayApplicationPdf(scheduleId, application.id))}
+            disabled={isDirty}
+          >
+            PDF
+          </Button>
+          <Button size="sm" variant="secondary" leftIcon={<FileDown className="w-4 h-4" />} onClick={handleCsv} disabled={isDirty}>
+            CSV
+          </Button>
+          {isDraft && (
+            <>
+              <Button
+                size="sm"
+                variant="secondary"
+                leftIcon={<Trash2 className="w-4 h-4" />}
+                onClick={() => setConfirmDelete(true)}
+              >
+                Delete
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                leftIcon={updateMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                onClick={handleSave}
+                disabled={!isDirty || updateMutation.isPending}
+              >
+                Save
+              </Button>
+            </>
+          )}
+          {canEdit && (application.status === 'draft' || !application.invoiceId) && (
+            <Button
+              size="sm"
+              variant="primary"
+              leftIcon={<Receipt className="w-4 h-4" />}
+              onClick={() => setConfirmInvoice(true)}
+              disabled={isDirty}
+              title={isDirty ? 'Save your changes first' : undefined}
+            >
+              Generate Invoice
+            </Button>
+          )}
+        </div>
+      </div>
+      {isDraft && (
+        <Textarea
+          label="Notes"
+          value={headerForm.notes}
+          onChange={(e) => updateHeader({ notes: e.target.value })}
+          rows={2}
+        />
+      )}
+
+      {/* G703 */}
+      <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-800/50 text-xs text-slate-500 dark:text-slate-400">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Item</th>
+              <th className="px-3 py-2 text-left font-medium">Description</th>
+              <th className="px-3 py-2 text-right font-medium">Scheduled</th>
+              <th className="px-3 py-2 text-right font-medium">Previous</th>
+              <th className="px-3 py-2 text-right font-medium w-32">This Period</th>
+              <th className="px-3 py-2 text-right font-medium w-24">% To Date</th>
+              <th className="px-3 py-2 text-right font-medium w-32">Stored</th>
+              <th className="px-3 py-2 text-right font-medium">Completed &amp; Stored</th>
+              <th className="px-3 py-2 text-right font-medium">Balance</th>
+              <th className="px-3 py-2 text-right font-medium">Retainage</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700 bg-white dark:bg-slate-900">
+            {application.rows.map((row) => {
+              const form = forms[row.lineId];
+              const work = parseFloat(form?.work || '0') || 0;
+              const stored = parseFloat(form?.stored || '0') || 0;
+              const completed = round2(row.previousWork + work + stored);
+              const over = completed > row.scheduledValue || row.previousWork + work < 0;
+              return (
+                <tr key={row.lineId}>
+                  <td className="px-3 py-2 text-slate-500">{row.itemNumber}</td>
+                  <td className="px-3 py-2 text-slate-900 dark:text-white">{row.description}</td>
+                  <td className="px-3 py-2 text-right">{formatMoney(row.scheduledValue)}</td>
+                  <td className="px-3 py-2 text-right text-slate-500">{formatMoney(row.previousWork)}</td>
+                  {isDraft && form ? (
+                    <>
+                      <td className="px-3 py-1">
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={form.work}
+                          onChange={(e) => updateLine(row, { work: e.target.value })}
+                          className={cellInputClass}
+                        />
+                      </td>
+                      <td className="px-3 py-1">
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          value={form.percent}
+                          onChange={(e) => updateLine(row, { percent: e.target.value })}
+                          className={cellInputClass}
+                        />
+                      </td>
+                      <td className="px-3 py-1">
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={form.stored}
+                          onChange={(e) => updateLine(row, { stored: e.target.value })}
+                          className={cellInputClass}
+                        />
+                      </td>
+                    </>
+                  ) : (
+                    <>
+                      <td className="px-3 py-2 text-right">{formatMoney(row.workThisPeriod)}</td>
+                      <td className="px-3 py-2 text-right">
+                        {workPercent(row.scheduledValue, row.previousWork + row.workThisPeriod) || '—'}%
+                      </td>
+                      <td className="px-3 py-2 text-right">{formatMoney(row.storedMaterials)}</td>
+                    </>
+                  )}
+                  <td className={clsx('px-3 py-2 text-right', over && 'text-danger-600 dark:text-danger-400')}>
+                    {formatMoney(completed)}
+                  </td>
+                  <td className="px-3 py-2 text-right">{formatMoney(round2(row.scheduledValue - completed))}</td>
+                  <td className="px-3 py-2 text-right text-slate-500">{formatMoney(row.retainage)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot className="bg-slate-50 dark:bg-slate-800/50 font-medium text-slate-900 dark:text-white">
+            <tr>
+              <td className="px-3 py-2" colSpan={2}>Grand Total</td>
+              <td className="px-3 py-2 text-right">{formatMoney(totals.scheduled)}</td>
+              <td className="px-3 py-2 text-right">{formatMoney(totals.previous)}</td>
+              <td className="px-3 py-2 text-right">{formatMoney(totals.work)}</td>
+              <td className="px-3 py-2 text-right">
+                {totals.scheduled > 0 ? `${round2(((totals.previous + totals.work) / totals.scheduled) * 100)}%` : ''}
+              </td>
+              <td className="px-3 py-2 text-right">{formatMoney(totals.stored)}</td>
+              <td className="px-3 py-2 text-right">{formatMoney(totalCompleted)}</td>
+              <td className="px-3 py-2 text-right">{formatMoney(totals.scheduled - totalCompleted)}</td>
+              <td className="px-3 py-2 text-right">{formatMoney(totals.retainage)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {/* G702 */}
+      <div className="max-w-md border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900 p-4">
+        <h4 className="text-sm font-semibold text-slate-900 dark:text-white mb-2">Certificate for Payment</h4>
+        {isDirty && (
+          <p className="text-xs text-warning-600 dark:text-warning-400 mb-2">Save to update the certificate.</p>
+        )}
+        <dl className="space-y-1 text-sm">
+          {CERTIFICATE_LINES.map((line) => (
+            <div key={line.key} className={clsx('flex justify-between gap-4', line.strong && 'font-semibold pt-1 border-t border-slate-200 dark:border-slate-700')}>
+              <dt className="text-slate-600 dark:text-slate-300">{line.label}</dt>
+              <dd className="text-slate-900 dark:text-white">{formatMoney(application.summary[line.key])}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <ConfirmModal
+        isOpen={confirmInvoice}
+        onClose={() => setConfirmInvoice(false)}
+        onConfirm={handleInvoice}
+        title="Generate Invoice"
+        message={`Invoice ${formatMoney(application.summary.currentPaymentDue)} (plus any tax) for pay application #${application.applicationNumber}? The application cannot be changed afterwards.`}
+        confirmText="Generate Invoice"
+        isLoading={invoiceMutation.isPending}
+      />
+
+      <ConfirmModal
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        title="Delete Pay Application"
+        message={`Delete draft pay application #${application.applicationNumber}?`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
+
+// ============================================================================
+// New pay application
+// ============================================================================
+
+interface NewPayApplicationModalProps {
+  schedule: ScheduleOfValues;
+  onClose: () => void;
+  onCreated: (applicationId: string) => void;
+}
+
+function NewPayApplicationModal({ schedule, onClose, onCreated }: NewPayApplicationModalProps) {
+  const toast = useToast();
+  const createMutation = useCreatePayApplication(schedule.id);
+  const [applicationDate, setApplicationDate] = useState(getTodayISO());
+  const [periodTo, setPeriodTo] = useState(getTodayISO());
+  const [retainage, setRetainage] = useState(String(schedule.retainagePercent));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await createMutation.mutateAsync({
+        applicationDate,
+        periodTo,
+        retainagePercent: parseFloat(retainage),
+      });
+      if (response.data) onCreated(response.data.id);
+      toast.success('Created', `Pay application #${response.data?.applicationNumber ?? ''} started`);
+    } catch (err) {
+      console.error('Failed to create pay application:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to create pay application');
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="New Pay Application" size="sm">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          label="Application date"
+          type="date"
+          value={applicationDate}
+          onChange={(e) => setApplicationDate(e.target.value)}
+          required
+        />
+        <Input
+          label="Period to *"
+          type="date"
+          value={periodTo}
+          onChange={(e) => setPeriodTo(e.target.value)}
+          hint="The last day of work this application covers"
+          required
+        />
+        <Input
+          label="Retainage"
+          type="number"
+          min="0"
+          max="100"
+          step="0.01"
+          rightAddon="%"
+          value={retainage}
+          onChange={(e) => setRetainage(e.target.value)}
+          hint="Lower it to release retainage, or set it to 0 on the final application"
+          required
+        />
+        <div className="flex justify-end gap-3 pt-2">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={createMutation.isPending}>
+            {createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Create'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+function applicationLabel(application: PayApplication): string {
+  if (application.status === 'draft') return 'Draft';
+  return application.invoiceNumber ?? 'Invoice deleted';
+}
+
+export function ScheduleOfValuesPage() {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+  const canEdit = usePermission('accounting:edit');
+  const { data, isLoading, error } = useScheduleOfValues(id);
+  const updateMutation = useUpdateScheduleOfValues(id);
+  const deleteMutation = useDeleteScheduleOfValues();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [retainage, setRetainage] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const schedule = data?.data;
+  useDocumentTitle(schedule ? `${schedule.estimateNumber} Pay Applications` : 'Pay Applications');
+
+  if (isLoading || !schedule) {
+    return (
+      <Page title="Pay Applications">
+        {error ? (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-danger-50 dark:bg-danger-900/20 text-sm text-danger-700 dark:text-danger-400">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error instanceof Error ? error.message : 'Failed to load schedule of values'}
+          </div>
+        ) : (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-brand-600" />
+          </div>
+        )}
+      </Page>
+    );
+  }
+
+  const applications = schedule.applications;
+  const latest = applications[applications.length - 1];
+  const selected = applications.find((a) => a.id === selectedId) ?? latest;
+  const canStartApplication = canEdit && (!latest || latest.status === 'invoiced');
+  const hasInvoiced = applications.some((a) => a.status === 'invoiced');
+
+  const handleSaveRetainage = async () => {
+    if (retainage === null) return;
+    try {
+      await updateMutation.mutateAsync({ retainagePercent: parseFloat(retainage) });
+      setRetainage(null);
+      toast.success('Saved', 'Default retainage updated');
+    } catch (err) {
+      console.error('Failed to update retainage:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to update retainage');
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteMutation.mutateAsync(schedule.id);
+      toast.success('Deleted', `${schedule.estimateNumber} can be converted to an invoice again`);
+      navigate('/accounting/progress-billing');
+    } catch (err) {
+      console.error('Failed to delete schedule of values:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to delete schedule of values');
+    }
+  };
+
+  return (
+    <Page
+      title={`${schedule.estimateNumber} Pay Applications`}
+      description={[schedule.estimateTitle, schedule.clientName, schedule.projectName].filter(Boolean).join(' · ')}
+      actions={
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            leftIcon={<ArrowLeft className="w-4 h-4" />}
+            onClick={() => navigate('/accounting/progress-billing')}
+          >
+            Back
+          </Button>
+          {canStartApplication && (
+            <Button variant="primary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setIsCreating(true)}>
+              New Pay Application
+            </Button>
+          )}
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        {/* Contract */}
+        <div className="flex flex-wrap items-end gap-6 border border-slate-200 dark:border-slate-700 rounded-lg p-4 bg-white dark:bg-slate-900">
+          <div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Original contract sum</p>
+            <p className="text-lg font-semibold text-slate-900 dark:text-white">{formatMoney(schedule.originalContractSum)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Lines</p>
+            <p className="text-lg font-semibold text-slate-900 dark:text-white">{schedule.lines.length}</p>
+          </div>
+          {canEdit ? (
+            <div className="flex items-end gap-2">
+              <div className="w-32">
+                <Input
+                  label="Default retainage"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  rightAddon="%"
+                  value={retainage ?? String(schedule.retainagePercent)}
+                  onChange={(e) => setRetainage(e.target.value)}
+                />
+              </div>
+              {retainage !== null && (
+                <Button size="sm" variant="secondary" onClick={handleSaveRetainage} disabled={updateMutation.isPending}>
+                  Save
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Default retainage</p>
+              <p className="text-lg font-semibold text-slate-900 dark:text-white">{schedule.retainagePercent}%</p>
+            </div>
+          )}
+          {canEdit && !hasInvoiced && (
+            <Button
+              size="sm"
+              variant="secondary"
+              className="ml-auto"
+              leftIcon={<Trash2 className="w-4 h-4" />}
+              onClick={() => setConfirmDelete(true)}
+            >
+              Stop Progress Billing
+            </Button>
+          )}
+        </div>
+
+        {/* Applications */}
+        {applications.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            No pay applications yet. Start one at the end of each billing period.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {applications.map((application) => (
+                <button
+                  key={application.id}
+                  onClick={() => setSelectedId(application.id)}
+                  className={clsx(
+                    'px-3 py-2 rounded-lg border text-left text-sm transition-colors',
+                    application.id === selected?.id
+                      ? 'border-brand-500 bg-brand-50 dark:bg-brand-900/20'
+                      : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'
+                  )}
+                >
+                  <p className="font-medium text-slate-900 dark:text-white">
+                    #{application.applicationNumber} · {formatDate(application.periodTo)}
+                  </p>
+                  <p className={clsx(
+                    'text-xs',
+                    application.status === 'draft' ? 'text-warning-600 dark:text-warning-400' : 'text-slate-500'
+                  )}>
+                    {applicationLabel(application)} · {formatMoney(application.amountDue ?? application.summary.currentPaymentDue)}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <PayApplicationEditor
+                key={selected.id}
+                scheduleId={schedule.id}
+                estimateNumber={schedule.estimateNumber}
+                applicationId={selected.id}
+              />
+            )}
+          </>
+        )}
+      </div>
+
+      {isCreating && (
+        <NewPayApplicationModal
+          schedule={schedule}
+          onClose={() => setIsCreating(false)}
+          onCreated={(applicationId) => {
+            setSelectedId(applicationId);
+            setIsCreating(false);
+          }}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        title="Stop Progress Billing"
+        message={`Delete the schedule of values for ${schedule.estimateNumber} and its draft pay application? The estimate can then be converted to a single invoice.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Page>
+  );
+}
@@ -0,0 +1,181 @@
+// ============================================================================
+// TaxFields Component
+// Location: src/components/panels/accounting/TaxFields.tsx
+//
+// Sales tax controls shared by the estimate and invoice editors: the
+// jurisdiction picker (automatic from the jobsite or client address, a named
+// jurisdiction, or a custom rate) and the tax rows of the totals. Totals are
+// previewed with the same rules the server saves them with.
+// ============================================================================
+
+import { ShieldCheck } from 'lucide-react';
+import {
+  useTaxJurisdictions,
+  useResolvedTax,
+  previewTax,
+  formatTaxRate,
+  type DocumentTax,
+  type TaxPreview,
+} from '@/services/api';
+
+/** '' = automatic, 'custom' = custom rate, otherwise a jurisdiction id */
+export type TaxSelection = string;
+
+export const AUTOMATIC_TAX = '';
+export const CUSTOM_TAX = 'custom';
+
+/** Where an existing document's tax came from, for the picker */
+export function taxSelectionOf(doc: Pick<DocumentTax, 'taxJurisdictionId'>): TaxSelection {
+  return doc.taxJurisdictionId ?? CUSTOM_TAX;
+}
+
+/** Tax fields of an estimate or invoice save */
+export interface DocumentTaxInput {
+  taxJurisdictionId?: string | null;
+  taxRate: number;
+}
+
+/** Custom rate field value for a stored rate, e.g. 0.08875 -> '8.875' */
+export function percentInput(rate: number | null | undefined): string {
+  return String(parseFloat(((rate ?? 0) * 100).toFixed(4)));
+}
+
+interface DocumentTaxOptions {
+  selection: TaxSelection;
+  /** Custom rate as a percentage, e.g. '8.875' */
+  customRate: string;
+  clientId: string;
+  projectId?: string | null;
+  lines: { quantity: number; unitPrice: number; taxable?: boolean }[];
+}
+
+/**
+ * Rates, exemption and previewed totals for the editor, and the tax fields to
+ * save. Automatic saves the jurisdiction it resolved to, so re-picking it on
+ * an existing document takes the address's current jurisdiction.
+ */
+export function useDocumentTax({ selection, customRate, clientId, projectId, lines }: DocumentTaxOptions) {
+  const { data } = useResolvedTax({
+    clientId,
+    projectId: projectId || undefined,
+    jurisdictionId: selection === AUTOMATIC_TAX ? undefined : selection === CUSTOM_TAX ? 'none' : selection,
+  });
+  const resolved = data?.data;
+
+  const rate = (parseFloat(customRate) || 0) / 100;
+  const rates = selection === CUSTOM_TAX ? [{ name: 'Sales tax', rate }] : resolved?.rates ?? [];
+  const exemption = resolved?.exemption ?? null;
+
+  // Automatic before the lookup returns leaves it to the server
+  const input: DocumentTaxInput = { taxJurisdictionId: selection, taxRate: selection === CUSTOM_TAX ? rate : 0 };
+  if (selection === CUSTOM_TAX) input.taxJurisdictionId = null;
+  if (selection === AUTOMATIC_TAX) input.taxJurisdictionId = resolved ? resolved.jurisdiction?.id ?? null : undefined;
+
+  return {
+    preview: previewTax(lines, rates, !!exemption),
+    exemption,
+    jurisdictionName: resolved?.jurisdiction?.name ?? null,
+    input,
+  };
+}
+
+interface TaxJurisdictionFieldProps {
+  selection: TaxSelection;
+  onSelectionChange: (selection: TaxSelection) => void;
+  customRate: string;
+  onCustomRateChange: (rate: string) => void;
+  /** Jurisdiction Automatic resolved to, shown beside the option */
+  resolvedName: string | null;
+}
+
+export function TaxJurisdictionField({
+  selection,
+  onSelectionChange,
+  customRate,
+  onCustomRateChange,
+  resolvedName,
+}: TaxJurisdictionFieldProps) {
+  const { data } = useTaxJurisdictions();
+  const jurisdictions = data?.data ?? [];
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+        Sales Tax
+      </label>
+      <div className="flex gap-2">
+        <select
+          value={selection}
+          onChange={(e) => onSelectionChange(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg
+            bg-white dark:bg-slate-800 text-slate-900 dark:text-white
+            focus:outline-none focus:ring-2 focus:ring-brand-500"
+        >
+          <option value={AUTOMATIC_TAX}>
+            Automatic{selection === AUTOMATIC_TAX && resolvedName ? ` (${resolvedName})` : ' (from address)'}
+          </option>
+          {jurisdictions.map((j) => (
+            <option key={j.id} value={j.id}>
+              {j.name} — {formatTaxRate(j.totalRate)}
+            </option>
+          ))}
+          <option value={CUSTOM_TAX}>Custom rate</option>
+        </select>
+        {selection === CUSTOM_TAX && (
+          <div className="relative w-24">
+            <input
+              type="number"
+              value={customRate}
+              onChange={(e) => onCustomRateChange(e.target.value)}
+              min="0"
+              max="100"
+              step="0.001"
+              aria-label="Tax rate (%)"
+              className="w-full pl-3 pr-7 py-2 border border-slate-300 dark:border-slate-700 rounded-lg
+                bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-right
+                focus:outline-none focus:ring-2 focus:ring-brand-500"
+            />
+            <span className="absolute right-3 top-2 text-slate-400">%</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface TaxTotalsProps {
+  preview: Pick<TaxPreview, 'subtotal' | 'taxableSubtotal' | 'taxAmount' | 'taxBreakdown'>;
+  exemption: { certificateType: string | null; certificateNumber: string | null } | null;
+  /** Width class of the label column, to line up with the other totals */
+  labelClassName?: string;
+}
+
+/** Tax rows of a totals block: one per rate, or the exemption */
+export function TaxTotals({ preview, exemption, labelClassName = 'min-w-[8rem]' }: TaxTotalsProps) {
+  const row = (label: string, amount: number, key?: string) => (
+    <div key={key} className="flex justify-end text-sm">
+      <span className={`text-slate-500 ${labelClassName}`}>{label}:</span>
+      <span className="w-28 text-right font-medium text-slate-900 dark:text-white">${amount.toFixed(2)}</span>
+    </div>
+  );
+
+  if (exemption) {
+    return (
+      <div className="flex justify-end items-center gap-1.5 text-sm text-success-600 dark:text-success-400">
+        <ShieldCheck className="w-4 h-4" />
+        Tax exempt: {exemption.certificateType}
+        {exemption.certificateNumber && ` #${exemption.certificateNumber}`}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {preview.taxableSubtotal !== preview.subtotal && preview.taxBreakdown.length > 0 &&
+        row('Taxable', preview.taxableSubtotal)}
+      {preview.taxBreakdown.length === 0
+        ? row('Tax', 0)
+        : preview.taxBreakdown.map((line) => row(`${line.name} (${formatTaxRate(line.rate)})`, line.amount, line.name))}
+    </>
+  );
+}
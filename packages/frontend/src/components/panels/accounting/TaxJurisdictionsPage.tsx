@@ -0,0 +1,383 @@
+// ============================================================================
+// TaxJurisdictionsPage Component
+// Location: src/components/panels/accounting/TaxJurisdictionsPage.tsx
+//
+// Sales tax jurisdictions: the component rates charged together (state,
+// county, district) and the ZIP codes they cover. Estimates and invoices
+// pick a jurisdiction from the jobsite or client address; each keeps the
+// breakdown it was saved with, so rate changes only affect later saves.
+// ============================================================================
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Plus, MapPin, Edit, Trash2, RotateCcw, X, Loader2 } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Input, Modal, ConfirmModal, DataTable, type DataTableColumn } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useTaxJurisdictions,
+  useCreateTaxJurisdiction,
+  useUpdateTaxJurisdiction,
+  useDeleteTaxJurisdiction,
+  formatTaxRate,
+  type TaxJurisdiction,
+  type TaxJurisdictionInput,
+} from '@/services/api';
+import { useDocumentTitle, usePermission } from '@/hooks';
+import { percentInput } from './TaxFields';
+
+interface RateRow {
+  name: string;
+  rate: string; // %
+}
+
+interface FormData {
+  name: string;
+  state: string;
+  zipCodes: string;
+  rates: RateRow[];
+}
+
+const emptyForm: FormData = {
+  name: '',
+  state: '',
+  zipCodes: '',
+  rates: [{ name: '', rate: '' }],
+};
+
+function toForm(jurisdiction: TaxJurisdiction): FormData {
+  return {
+    name: jurisdiction.name,
+    state: jurisdiction.state,
+    zipCodes: jurisdiction.zipCodes.join(', '),
+    rates: jurisdiction.rates.map((r) => ({ name: r.name, rate: percentInput(r.rate) })),
+  };
+}
+
+export function TaxJurisdictionsPage() {
+  useDocumentTitle('Tax Jurisdictions');
+  const canEdit = usePermission('accounting:edit');
+  const toast = useToast();
+
+  const [showInactive, setShowInactive] = useState(false);
+  const [editing, setEditing] = useState<TaxJurisdiction | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<FormData>(emptyForm);
+  const [toDelete, setToDelete] = useState<TaxJurisdiction | null>(null);
+
+  const { data, isLoading } = useTaxJurisdictions(showInactive);
+  const createMutation = useCreateTaxJurisdiction();
+  const updateMutation = useUpdateTaxJurisdiction();
+  const deleteMutation = useDeleteTaxJurisdiction();
+
+  const jurisdictions = data?.data ?? [];
+
+  const openModal = (jurisdiction: TaxJurisdiction | null) => {
+    setEditing(jurisdiction);
+    setFormData(jurisdiction ? toForm(jurisdiction) : emptyForm);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditing(null);
+  };
+
+  const updateRate = (index: number, field: keyof RateRow, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      rates: prev.rates.map((r, i) => (i === index ? { ...r, [field]: value } : r)),
+    }));
+  };
+
+  const formTotal = formData.rates.reduce((sum, r) => sum + (parseFloat(r.rate) || 0), 0) / 100;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: TaxJurisdictionInput = {
+      name: formData.name.trim(),
+      state: formData.state.trim(),
+      zipCodes: formData.zipCodes.split(/[\s,]+/).filter(Boolean),
+      rates: formData.rates
+        .filter((r) => r.name.trim())
+        .map((r) => ({ name: r.name.trim(), rate: (parseFloat(r.rate) || 0) / 100 })),
+    };
+    if (input.rates.length === 0) {
+      toast.error('Missing rates', 'Add at least one named rate');
+      return;
+    }
+
+    try {
+      if (editing) {
+        await updateMutation.mutateAsync({ id: editing.id, data: input });
+        toast.success('Updated', `${input.name} has been updated`);
+      } else {
+        await createMutation.mutateAsync(input);
+        toast.success('Created', `${input.name} was added`);
+      }
+      closeModal();
+    } catch (err) {
+      console.error('Failed to save tax jurisdiction:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save tax jurisdiction');
+    }
+  };
+
+  const handleRestore = async (jurisdiction: TaxJurisdiction) => {
+    try {
+      await updateMutation.mutateAsync({ id: jurisdiction.id, data: { isActive: true } });
+      toast.success('Restored', `${jurisdiction.name} is active again`);
+    } catch (err) {
+      console.error('Failed to restore tax jurisdiction:', err);
+      toast.error('Error', 'Failed to restore tax jurisdiction');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!toDelete) return;
+    try {
+      const response = await deleteMutation.mutateAsync(toDelete.id);
+      toast.success(
+        response.data?.archived ? 'Deactivated' : 'Deleted',
+        response.data?.archived
+          ? `${toDelete.name} has taxed estimates or invoices, so it was deactivated`
+          : `${toDelete.name} was removed`
+      );
+    } catch (err) {
+      console.error('Failed to delete tax jurisdiction:', err);
+      toast.error('Error', 'Failed to delete tax jurisdiction');
+    }
+    setToDelete(null);
+  };
+
+  const columns: DataTableColumn<TaxJurisdiction>[] = [
+    {
+      key: 'name',
+      header: 'Jurisdiction',
+      render: (j) => (
+        <div className={clsx(!j.isActive && 'opacity-50')}>
+          <p className="font-medium text-slate-900 dark:text-white">
+            {j.name}
+            {!j.isActive && <span className="ml-2 text-xs font-normal text-slate-500">Inactive</span>}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {j.rates.map((r) => `${r.name} ${formatTaxRate(r.rate)}`).join(' + ')}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: 'state',
+      header: 'State',
+      render: (j) => <span className="text-sm text-slate-600 dark:text-slate-300">{j.state}</span>,
+    },
+    {
+      key: 'zipCodes',
+      header: 'ZIP Codes',
+      hideOnMobile: true,
+      render: (j) => (
+        <span className="text-sm text-slate-600 dark:text-slate-300 truncate max-w-xs inline-block">
+          {j.zipCodes.length > 0 ? j.zipCodes.join(', ') : 'Rest of state'}
+        </span>
+      ),
+    },
+    {
+      key: 'totalRate',
+      header: 'Rate',
+      align: 'right',
+      render: (j) => (
+        <span className="text-sm font-medium text-slate-900 dark:text-white">{formatTaxRate(j.totalRate)}</span>
+      ),
+    },
+    ...(canEdit ? [{
+      key: 'actions',
+      header: '',
+      align: 'right' as const,
+      render: (j: TaxJurisdiction) => (
+        <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+          {j.isActive ? (
+            <>
+              <button
+                onClick={() => openModal(j)}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                title="Edit"
+              >
+                <Edit className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setToDelete(j)}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-danger-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => handleRestore(j)}
+              className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+              title="Restore"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ),
+    }] : []),
+  ];
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Page
+      title="Tax Jurisdictions"
+      description="Sales tax rates by state and ZIP code, applied from the jobsite or client address."
+      actions={
+        canEdit && (
+          <Button variant="primary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => openModal(null)}>
+            New Jurisdiction
+          </Button>
+        )
+      }
+    >
+      <div className="mb-4 flex items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+          Show inactive
+        </label>
+      </div>
+
+      <DataTable
+        data={jurisdictions}
+        columns={columns}
+        rowKey={(j) => j.id}
+        onRowClick={canEdit ? (j) => j.isActive && openModal(j) : undefined}
+        loading={isLoading}
+        emptyState={
+          <div className="text-center py-12">
+            <MapPin className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">No tax jurisdictions</h3>
+            <p className="text-slate-500 dark:text-slate-400">
+              Without one, estimates and invoices are taxed at a custom rate.
+            </p>
+          </div>
+        }
+      />
+
+      {/* Create / edit */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editing ? 'Edit Tax Jurisdiction' : 'New Tax Jurisdiction'}
+        size="lg"
+      >
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <Input
+                label="Name *"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Suffolk County, NY"
+                required
+              />
+            </div>
+            <Input
+              label="State *"
+              value={formData.state}
+              onChange={(e) => setFormData({ ...formData, state: e.target.value })}
+              placeholder="NY"
+              maxLength={2}
+              required
+            />
+          </div>
+          <Input
+            label="ZIP codes"
+            value={formData.zipCodes}
+            onChange={(e) => setFormData({ ...formData, zipCodes: e.target.value })}
+            placeholder="11701, 11702 — leave empty for the rest of the state"
+          />
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Rates</label>
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, rates: [...formData.rates, { name: '', rate: '' }] })}
+                className="text-sm text-brand-600 hover:text-brand-700"
+              >
+                + Add Rate
+              </button>
+            </div>
+            <div className="space-y-2">
+              {formData.rates.map((rate, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={rate.name}
+                    onChange={(e) => updateRate(index, 'name', e.target.value)}
+                    placeholder="e.g. New York State"
+                    className="flex-1 px-3 py-2 text-sm border border-slate-300 dark:border-slate-700 rounded-lg
+                      bg-white dark:bg-slate-800 text-slate-900 dark:text-white
+                      focus:outline-none focus:ring-2 focus:ring-brand-500"
+                  />
+                  <div className="relative w-28">
+                    <input
+                      type="number"
+                      value={rate.rate}
+                      onChange={(e) => updateRate(index, 'rate', e.target.value)}
+                      min="0"
+                      max="99"
+                      step="0.0001"
+                      aria-label="Rate (%)"
+                      className="w-full pl-3 pr-7 py-2 text-sm border border-slate-300 dark:border-slate-700 rounded-lg
+                        bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-right
+                        focus:outline-none focus:ring-2 focus:ring-brand-500"
+                    />
+                    <span className="absolute right-3 top-2 text-sm text-slate-400">%</span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, rates: formData.rates.filter((_, i) => i !== index) })}
+                    disabled={formData.rates.length === 1}
+                    className="p-2 text-slate-400 hover:text-danger-600 disabled:opacity-30"
+                    title="Remove rate"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-right text-sm text-slate-600 dark:text-slate-300">
+              Combined: <span className="font-medium">{formatTaxRate(formTotal)}</span>
+            </p>
+          </div>
+
+          {editing && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Rate changes apply to estimates and invoices saved from now on.
+            </p>
+          )}
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="secondary" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : editing ? 'Save' : 'Add Jurisdiction'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <ConfirmModal
+        isOpen={!!toDelete}
+        onClose={() => setToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Tax Jurisdiction"
+        message={`Remove "${toDelete?.name}"? If estimates or invoices were taxed under it, it is deactivated instead.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Page>
+  );
+}
@@ -0,0 +1,18 @@
+// Accounting Panel Sub-Pages
+export { InvoicePaymentsPanel } from './InvoicePaymentsPanel';
+export { ReportPage } from './ReportPage';
+export { AccountingExportPage } from './AccountingExportPage';
+export { TaxJurisdictionsPage } from './TaxJurisdictionsPage';
+export { ProgressBillingPage } from './ProgressBillingPage';
+export { ScheduleOfValuesPage } from './ScheduleOfValuesPage';
+export {
+  TaxJurisdictionField,
+  TaxTotals,
+  useDocumentTax,
+  taxSelectionOf,
+  percentInput,
+  AUTOMATIC_TAX,
+  CUSTOM_TAX,
+  type TaxSelection,
+  type DocumentTaxInput,
+} from './TaxFields';
@@ -16,6 +16,7 @@ import {
   Pencil,
   Plus,
   Trash2,
+  Star,
 } from 'lucide-react';
 import { Page } from '@/components/layout';
 import { Button, Modal, AddressInput, Input, ConfirmModal } from '@/components/common';
@@ -247,6 +248,7 @@ export function CompanySettingsPage() {
     deleteOffice, 
     addLetterhead,
     deleteLetterhead,
+    setDefaultLetterhead,
   } = useCompanyStore();
   const toast = useToast();
   useDocumentTitle('Company Settings');
@@ -840,6 +842,7 @@ export function CompanySettingsPage() {
               ) : (
                 letterheads.map((lh) => {
                   const isPdf = lh.data.startsWith('data:application/pdf');
+                  const isDefault = company.defaultLetterheadId === lh.id;
                   return (
                     <div
                       key={lh.id}
@@ -865,9 +868,26 @@ export function CompanySettingsPage() {
                         </p>
                         <p className="text-xs text-slate-400 dark:text-slate-500">
                           {isPdf ? 'PDF' : 'Image'}
+                          {isDefault && (
+                            <span className="ml-1.5 px-1.5 py-0.5 text-[10px] font-medium bg-brand-100 dark:bg-brand-900/30 text-brand-700 dark:text-brand-300 rounded">
+                              Default
+                            </span>
+                          )}
                         </p>
                       </div>
                       <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => {
+                            setDefaultLetterhead(isDefault ? null : lh.id);
+                            toast.success('Saved', isDefault
+                              ? 'Estimates and invoices default to plain paper'
+                              : `${lh.name} is now the default for estimates and invoices`);
+                          }}
+                          className={clsx('p-1.5 rounded', isDefault ? 'text-amber-500 hover:text-slate-400' : 'text-slate-400 hover:text-amber-500')}
+                          title={isDefault ? 'Remove as default' : 'Set as default'}
+                        >
+                          <Star className={clsx('w-4 h-4', isDefault && 'fill-current')} />
+                        </button>
                         <button
                           onClick={() => setPreviewLetterhead(lh)}
                           className="p-1.5 text-slate-400 hover:text-brand-600 rounded"
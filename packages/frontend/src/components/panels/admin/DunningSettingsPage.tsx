@@ -0,0 +1,198 @@
+// ============================================================================
+// DunningSettingsPage Component
+// Location: src/components/panels/admin/DunningSettingsPage.tsx
+//
+// Invoice reminder cadence. The server marks open invoices overdue once their
+// due date passes and queues one reminder per step (days past due); reminders
+// go out automatically when auto-send is on, otherwise from the invoice's
+// payments panel. Individual invoices can pause their reminders there.
+// ============================================================================
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Check, Loader2, AlertCircle, Bell } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Toggle } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useDunningSettings,
+  useUpdateDunningSettings,
+  type DunningSettings,
+  type ReminderLevel,
+} from '@/services/api';
+import { useDocumentTitle, usePermission } from '@/hooks';
+
+const LEVEL_OPTIONS: { value: ReminderLevel; label: string }[] = [
+  { value: 'gentle', label: 'Gentle reminder' },
+  { value: 'firm', label: 'Firm reminder' },
+  { value: 'final', label: 'Final notice' },
+];
+
+export function DunningSettingsPage() {
+  useDocumentTitle('Invoice Reminders');
+  const toast = useToast();
+  const canEdit = usePermission('admin:company');
+  const { data, isLoading, error } = useDunningSettings();
+  const updateMutation = useUpdateDunningSettings();
+
+  const [settings, setSettings] = useState<DunningSettings | null>(null);
+
+  useEffect(() => {
+    if (data?.data) setSettings(data.data);
+  }, [data]);
+
+  const updateStep = (index: number, update: Partial<DunningSettings['steps'][number]>) => {
+    setSettings((prev) => prev && {
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, ...update } : step)),
+    });
+  };
+
+  const addStep = () => {
+    setSettings((prev) => {
+      if (!prev) return prev;
+      const lastDays = prev.steps[prev.steps.length - 1]?.days ?? 0;
+      return { ...prev, steps: [...prev.steps, { days: lastDays + 7, level: 'final' }] };
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setSettings((prev) => prev && { ...prev, steps: prev.steps.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    const days = settings.steps.map((s) => s.days);
+    if (days.some((d) => !Number.isInteger(d) || d < 1)) {
+      toast.error('Error', 'Each step needs a whole number of days past due');
+      return;
+    }
+    if (new Set(days).size !== days.length) {
+      toast.error('Error', 'Each step needs a different number of days');
+      return;
+    }
+
+    try {
+      const response = await updateMutation.mutateAsync(settings);
+      if (response.data) setSettings(response.data);
+      toast.success('Saved', 'Invoice reminder settings updated');
+    } catch (err) {
+      console.error('Failed to save dunning settings:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save settings');
+    }
+  };
+
+  return (
+    <Page
+      title="Invoice Reminders"
+      description="Mark invoices overdue automatically and remind clients on a schedule after the due date. Reminders stop once an invoice is paid."
+      actions={
+        canEdit && settings ? (
+          <Button
+            variant="primary"
+            leftIcon={updateMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            onClick={handleSave}
+            disabled={updateMutation.isPending}
+          >
+            Save
+          </Button>
+        ) : undefined
+      }
+    >
+      {error && (
+        <div className="mb-4 flex items-center gap-2 p-3 rounded-lg bg-danger-50 dark:bg-danger-900/20 text-sm text-danger-700 dark:text-danger-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error instanceof Error ? error.message : 'Failed to load settings'}
+        </div>
+      )}
+
+      {isLoading || !settings ? (
+        !error && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-brand-600" />
+          </div>
+        )
+      ) : (
+        <div className="max-w-2xl space-y-4">
+          <div className="border border-slate-200 dark:border-slate-700 rounded-lg p-4 bg-white dark:bg-slate-900 space-y-4">
+            <Toggle
+              checked={settings.enabled}
+              onChange={(enabled) => setSettings({ ...settings, enabled })}
+              label="Queue reminders for overdue invoices"
+              disabled={!canEdit}
+            />
+            <Toggle
+              checked={settings.autoSend}
+              onChange={(autoSend) => setSettings({ ...settings, autoSend })}
+              label="Email reminders as soon as they are queued"
+              disabled={!canEdit || !settings.enabled}
+            />
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Reminders go to the client's first contact with an email address, from the shared
+              mailbox. With auto-send off, send them from the invoice's Payments panel.
+            </p>
+          </div>
+
+          <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-3 bg-slate-50 dark:bg-slate-800/50 border-b border-slate-200 dark:border-slate-700">
+              <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-900 dark:text-white">
+                <Bell className="w-4 h-4 text-slate-500" />
+                Schedule
+              </h3>
+              {canEdit && (
+                <Button size="sm" variant="secondary" leftIcon={<Plus className="w-4 h-4" />} onClick={addStep}>
+                  Add Step
+                </Button>
+              )}
+            </div>
+            <div className="p-4 bg-white dark:bg-slate-900 space-y-3">
+              {settings.steps.length === 0 && (
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                  No steps: invoices are still marked overdue, but no reminders are queued.
+                </p>
+              )}
+              {settings.steps.map((step, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={step.days}
+                    onChange={(e) => updateStep(index, { days: parseInt(e.target.value) || 0 })}
+                    disabled={!canEdit}
+                    aria-label="Days past due"
+                    className="w-20 px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg
+                      bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm
+                      focus:outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50"
+                  />
+                  <span className="text-sm text-slate-500 dark:text-slate-400 whitespace-nowrap">days past due</span>
+                  <select
+                    value={step.level}
+                    onChange={(e) => updateStep(index, { level: e.target.value as ReminderLevel })}
+                    disabled={!canEdit}
+                    aria-label="Reminder tone"
+                    className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg
+                      bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm
+                      focus:outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50"
+                  >
+                    {LEVEL_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  {canEdit && (
+                    <button
+                      onClick={() => removeStep(index)}
+                      className="p-2 rounded-lg text-slate-400 hover:text-danger-600 hover:bg-slate-100 dark:hover:bg-slate-800"
+                      title="Remove step"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </Page>
+  );
+}
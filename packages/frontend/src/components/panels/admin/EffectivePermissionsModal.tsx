@@ -0,0 +1,145 @@
+// ============================================================================
+// EffectivePermissionsModal Component
+// Location: src/components/panels/admin/EffectivePermissionsModal.tsx
+//
+// Explains a user's effective permissions: for each permission, which of the
+// user's roles (assigned, position, department or default) grants it and
+// whether an override changes the result.
+// ============================================================================
+
+import { clsx } from 'clsx';
+import { Check, X, Briefcase, Building2, Shield, UserCog } from 'lucide-react';
+import { Modal, Button } from '@/components/common';
+import { useRolesStore, useFieldsStore, type RoleSource, type EffectivePermission } from '@/contexts';
+
+const SOURCE_ICONS: Record<RoleSource['source'], typeof Shield> = {
+  assigned: UserCog,
+  position: Briefcase,
+  department: Building2,
+  default: Shield,
+};
+
+// "Staff role (Estimator position)" style description of where a role comes from
+export function useRoleSourceLabel(): (source: RoleSource) => string {
+  const roles = useRolesStore((state) => state.roles);
+  const { getPositionById, getDepartmentById } = useFieldsStore();
+
+  return (source) => {
+    const role = roles.find((r) => r.id === source.roleId)?.name || 'Unknown';
+    switch (source.source) {
+      case 'assigned':
+        return `${role} role (assigned)`;
+      case 'position':
+        return `${role} role (${getPositionById(source.unitId || '')?.name || 'position'} position)`;
+      case 'department':
+        return `${role} role (${getDepartmentById(source.unitId || '')?.name || 'department'} department)`;
+      default:
+        return `${role} role (default)`;
+    }
+  };
+}
+
+export function EffectivePermissionsModal({ isOpen, onClose, email, userName }: {
+  isOpen: boolean;
+  onClose: () => void;
+  email: string;
+  userName: string;
+}) {
+  const { explainUserPermissions, getUserRoleSources } = useRolesStore();
+  const sourceLabel = useRoleSourceLabel();
+  // Cheap to compute; the store subscription re-renders on any role change
+  const sources = getUserRoleSources(email);
+
+  // Grouped by category, in catalog order
+  const categories = new Map<string, EffectivePermission[]>();
+  explainUserPermissions(email).forEach((entry) => {
+    const category = entry.permission.category;
+    categories.set(category, [...(categories.get(category) || []), entry]);
+  });
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Effective Permissions - ${userName}`}
+      size="lg"
+      footer={<Button variant="secondary" onClick={onClose}>Close</Button>}
+    >
+      <div className="mb-4">
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-2">
+          {userName} holds the union of these roles, with overrides applied last:
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {sources.map((source) => {
+            const Icon = SOURCE_ICONS[source.source];
+            return (
+              <span
+                key={`${source.source}-${source.roleId}`}
+                className="inline-flex items-center gap-1.5 px-2 py-1 text-xs font-medium rounded-md bg-brand-50 dark:bg-brand-900/20 text-brand-700 dark:text-brand-300"
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {sourceLabel(source)}
+              </span>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-800/50">
+            <tr>
+              <th className="text-left px-4 py-2 font-medium text-slate-500 dark:text-slate-400">Permission</th>
+              <th className="text-left px-4 py-2 font-medium text-slate-500 dark:text-slate-400">Granted by</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from(categories.entries()).map(([category, entries]) => (
+              <CategoryRows key={category} category={category} entries={entries} sourceLabel={sourceLabel} />
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Modal>
+  );
+}
+
+function CategoryRows({ category, entries, sourceLabel }: {
+  category: string;
+  entries: EffectivePermission[];
+  sourceLabel: (source: RoleSource) => string;
+}) {
+  return (
+    <>
+      <tr className="bg-slate-100/70 dark:bg-slate-800/70 border-t border-slate-200 dark:border-slate-700">
+        <td colSpan={2} className="px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          {category}
+        </td>
+      </tr>
+      {entries.map(({ permission, granted, sources, override }) => (
+        <tr key={permission.id} className="border-t border-slate-100 dark:border-slate-800">
+          <td className="px-4 py-2">
+            <div className="flex items-center gap-2">
+              {granted
+                ? <Check className="w-4 h-4 text-success-600 flex-shrink-0" />
+                : <X className="w-4 h-4 text-slate-300 flex-shrink-0" />}
+              <span className={clsx('font-medium', granted ? 'text-slate-900 dark:text-white' : 'text-slate-400')}>
+                {permission.name}
+              </span>
+            </div>
+          </td>
+          <td className="px-4 py-2 text-xs">
+            {override !== null && (
+              <span className="inline-block mr-2 px-1.5 py-0.5 font-medium bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 rounded">
+                {override ? 'Granted by override' : 'Revoked by override'}
+              </span>
+            )}
+            <span className={clsx('text-slate-500 dark:text-slate-400', override === false && 'line-through')}>
+              {sources.length > 0 ? sources.map(sourceLabel).join(', ') : override === null ? 'No role grants this' : ''}
+            </span>
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
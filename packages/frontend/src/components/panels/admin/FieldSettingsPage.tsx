@@ -15,6 +15,7 @@ import {
   Handshake,
   Target,
   TrendingUp,
+  HardHat,
 } from 'lucide-react';
 import { Page } from '@/components/layout';
 import { Button, Input, Modal, Select, Toggle, TaskTypeIcon, CollapsibleSection } from '@/components/common';
@@ -327,6 +328,10 @@ export function FieldSettingsPage() {
     addContactRole,
     updateContactRole,
     deleteContactRole,
+    trades,
+    addTrade,
+    updateTrade,
+    deleteTrade,
     getDepartmentsByParent,
     getParentDepartment,
   } = useFieldsStore();
@@ -354,6 +359,11 @@ export function FieldSettingsPage() {
   const [editingRoleIndex, setEditingRoleIndex] = useState<number | null>(null);
   const [roleName, setRoleName] = useState('');
 
+  // Trade state
+  const [showTradeModal, setShowTradeModal] = useState(false);
+  const [editingTrade, setEditingTrade] = useState<string | null>(null);
+  const [tradeName, setTradeName] = useState('');
+
   // Task type state
   const [showTaskTypeModal, setShowTaskTypeModal] = useState(false);
   const [editingTaskType, setEditingTaskType] = useState<TaskTypeConfig | null>(null);
@@ -364,7 +374,7 @@ export function FieldSettingsPage() {
 
   // Delete confirmation
   const [deleteTarget, setDeleteTarget] = useState<{
-    type: 'department' | 'position' | 'role' | 'taskType';
+    type: 'department' | 'position' | 'role' | 'trade' | 'taskType';
     id: string;
     name: string;
   } | null>(null);
@@ -637,6 +647,42 @@ export function FieldSettingsPage() {
     setShowRoleModal(false);
   };
 
+  // ============ TRADE HANDLERS ============
+
+  const openAddTradeModal = () => {
+    setEditingTrade(null);
+    setTradeName('');
+    setShowTradeModal(true);
+  };
+
+  const openEditTradeModal = (trade: string) => {
+    setEditingTrade(trade);
+    setTradeName(trade);
+    setShowTradeModal(true);
+  };
+
+  const handleSaveTrade = () => {
+    const name = tradeName.trim();
+    if (!name) {
+      toast.error('Error', 'Trade name is required');
+      return;
+    }
+    if (trades.some(t => t !== editingTrade && t.toLowerCase() === name.toLowerCase())) {
+      toast.error('Error', 'This trade already exists');
+      return;
+    }
+
+    if (editingTrade !== null) {
+      updateTrade(editingTrade, name);
+      toast.success('Updated', 'Trade updated');
+    } else {
+      addTrade(name);
+      toast.success('Added', 'Trade created');
+    }
+
+    setShowTradeModal(false);
+  };
+
   // ============ TASK TYPE HANDLERS ============
 
   const openAddTaskTypeModal = () => {
@@ -724,6 +770,9 @@ export function FieldSettingsPage() {
     } else if (deleteTarget.type === 'role') {
       deleteContactRole(deleteTarget.id);
       toast.success('Deleted', `${deleteTarget.name} removed`);
+    } else if (deleteTarget.type === 'trade') {
+      deleteTrade(deleteTarget.id);
+      toast.success('Deleted', `${deleteTarget.name} removed`);
     } else if (deleteTarget.type === 'taskType') {
       deleteTaskType(deleteTarget.id);
       toast.success('Deleted', `${deleteTarget.name} removed`);
@@ -908,7 +957,7 @@ export function FieldSettingsPage() {
         <PanelSectionHeader
           title="Customers Panel"
           icon={<Building2 className="w-5 h-5" />}
-          description="Contact and company fields"
+          description="Contact, company and vendor fields"
           gradient="from-emerald-500 to-emerald-600"
         >
           <CollapsibleSection
@@ -959,6 +1008,55 @@ export function FieldSettingsPage() {
               )}
             </div>
           </CollapsibleSection>
+
+          <CollapsibleSection
+            title="Trades"
+            icon={<HardHat className="w-4 h-4 text-accent-500" />}
+            badge={trades.length > 0 ? `${trades.length}` : undefined}
+            defaultOpen={false}
+            action={
+              <Button size="sm" variant="secondary" onClick={(e) => { e.stopPropagation(); openAddTradeModal(); }}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Trade
+              </Button>
+            }
+          >
+            <div className="p-3">
+              {trades.length === 0 ? (
+                <div className="text-center py-4">
+                  <HardHat className="w-8 h-8 mx-auto text-slate-300 dark:text-slate-600" />
+                  <p className="mt-2 text-sm text-slate-500">No trades</p>
+                  <Button variant="primary" size="sm" className="mt-2" onClick={openAddTradeModal}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Trade
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {trades.map((trade) => (
+                    <div
+                      key={trade}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 dark:bg-slate-800 rounded-full group hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                    >
+                      <span className="text-sm text-slate-700 dark:text-slate-300">{trade}</span>
+                      <button
+                        onClick={() => openEditTradeModal(trade)}
+                        className="p-0.5 opacity-0 group-hover:opacity-100 hover:bg-slate-300 dark:hover:bg-slate-600 rounded transition-all"
+                      >
+                        <Edit2 className="w-3 h-3 text-slate-500" />
+                      </button>
+                      <button
+                        onClick={() => setDeleteTarget({ type: 'trade', id: trade, name: trade })}
+                        className="p-0.5 opacity-0 group-hover:opacity-100 hover:bg-danger-100 dark:hover:bg-danger-900/30 rounded transition-all"
+                      >
+                        <Trash2 className="w-3 h-3 text-slate-500 hover:text-danger-500" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CollapsibleSection>
         </PanelSectionHeader>
 
         {/* ============ SALES PANEL SECTION ============ */}
@@ -1179,6 +1277,30 @@ export function FieldSettingsPage() {
         />
       </Modal>
 
+      {/* ============ TRADE MODAL ============ */}
+      <Modal
+        isOpen={showTradeModal}
+        onClose={() => setShowTradeModal(false)}
+        title={editingTrade !== null ? 'Edit Trade' : 'Add Trade'}
+        size="sm"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setShowTradeModal(false)}>Cancel</Button>
+            <Button variant="primary" onClick={handleSaveTrade}>
+              {editingTrade !== null ? 'Save' : 'Add'}
+            </Button>
+          </>
+        }
+      >
+        <Input
+          label="Trade Name"
+          value={tradeName}
+          onChange={(e) => setTradeName(e.target.value)}
+          placeholder="e.g., Millwork"
+          autoFocus
+        />
+      </Modal>
+
       {/* ============ TASK TYPE MODAL ============ */}
       <Modal
         isOpen={showTaskTypeModal}
@@ -1238,7 +1360,7 @@ export function FieldSettingsPage() {
       </Modal>
 
       {/* ============ DELETE CONFIRMATION ============ */}
-      {deleteTarget && deleteTarget.type !== 'taskType' && (
+      {deleteTarget && deleteTarget.type !== 'taskType' && deleteTarget.type !== 'trade' && (
         <DeleteConfirmationModal
           target={deleteTarget}
           onClose={() => setDeleteTarget(null)}
@@ -1248,7 +1370,26 @@ export function FieldSettingsPage() {
         />
       )}
 
-      {/* Simple delete confirmation for task types */}
+      {/* Simple delete confirmations for trades and task types */}
+      {deleteTarget && deleteTarget.type === 'trade' && (
+        <Modal
+          isOpen={true}
+          onClose={() => setDeleteTarget(null)}
+          title="Delete Trade"
+          size="sm"
+          footer={
+            <>
+              <Button variant="secondary" onClick={() => setDeleteTarget(null)}>Cancel</Button>
+              <Button variant="danger" onClick={() => handleConfirmDelete()}>Delete</Button>
+            </>
+          }
+        >
+          <p className="text-slate-600 dark:text-slate-400">
+            Delete the trade "{deleteTarget.name}"? Companies classified under it keep it, but it won't be offered for new ones.
+          </p>
+        </Modal>
+      )}
+
       {deleteTarget && deleteTarget.type === 'taskType' && (
         <Modal
           isOpen={true}
@@ -1279,7 +1420,7 @@ function DeleteConfirmationModal({
   getPositionDependencies,
   getDepartmentDependencies,
 }: {
-  target: { type: 'department' | 'position' | 'role' | 'taskType'; id: string; name: string };
+  target: { type: 'department' | 'position' | 'role' | 'trade' | 'taskType'; id: string; name: string };
   onClose: () => void;
   onConfirm: (options?: { newDeptHeadId?: string; inheritExecSupervisor?: boolean }) => void;
   getPositionDependencies: (id: string) => {
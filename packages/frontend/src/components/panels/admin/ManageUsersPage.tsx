@@ -20,8 +20,8 @@ import {
   SelectFilter, FilterBar, FilterCount,
   UserDeactivationModal 
 } from '@/components/common';
-import { useToast, useFieldsStore, useUsersStore, useCompanyStore, type User } from '@/contexts';
-import { useFormChanges, useDocumentTitle, getUserUrl, useSafeNavigate } from '@/hooks';
+import { useToast, useFieldsStore, useUsersStore, useCompanyStore, useRolesStore, type User } from '@/contexts';
+import { useFormChanges, useDocumentTitle, usePermission, getUserUrl, useSafeNavigate } from '@/hooks';
 import { validateEmail, validatePhone } from '@/utils/validation';
 import { generateUserSlug } from '@/utils/slugUtils';
 
@@ -282,11 +282,25 @@ export function ManageUsersPage() {
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const toast = useToast();
   useDocumentTitle('Manage Users');
+  const canManageUsers = usePermission('admin:users');
+  // Placements move record scope and timesheet approval, so only role managers save them
+  const canManageRoles = usePermission('admin:roles');
 
   // Use the shared stores
   const { users, addUser, deleteUser, toggleUserActive } = useUsersStore();
   const { departments } = useFieldsStore();
   const { company } = useCompanyStore();
+  const { isSynced: rolesSynced, syncWithServer: syncRoles, syncPlacements } = useRolesStore();
+
+  // Keep the server's copy of each user's placement current so their position
+  // and department roles and record visibility apply. Reporting lines come
+  // from the positions, so department edits re-sync too.
+  useEffect(() => {
+    if (canManageUsers && !rolesSynced) syncRoles();
+  }, [canManageUsers, rolesSynced, syncRoles]);
+  useEffect(() => {
+    if (canManageRoles && rolesSynced) syncPlacements(users);
+  }, [canManageRoles, rolesSynced, users, departments, syncPlacements]);
 
   // Get offices - only show filter/column if 2+ offices
   const offices = company.offices || [];
@@ -714,13 +728,15 @@ export function ManageUsersPage() {
       description="Add, edit, and manage user accounts and permissions."
       fillHeight
       actions={
-        <Button
-          variant="primary"
-          leftIcon={<Plus className="w-4 h-4" />}
-          onClick={() => setIsModalOpen(true)}
-        >
-          Add User
-        </Button>
+        canManageUsers ? (
+          <Button
+            variant="primary"
+            leftIcon={<Plus className="w-4 h-4" />}
+            onClick={() => setIsModalOpen(true)}
+          >
+            Add User
+          </Button>
+        ) : undefined
       }
     >
       {/* Main Content Container - fills available height */}
@@ -1,45 +1,435 @@
-import { Shield, Lock, Users } from 'lucide-react';
+// ============================================================================
+// PermissionsPage Component
+// Location: src/components/panels/admin/PermissionsPage.tsx
+//
+// Permission matrix: one column per role, one row per permission, grouped by
+// category. Changes save straight away and apply to everyone holding the role
+// on their next request. Below the matrix, departments and positions can be
+// given a role that everyone placed in them inherits. Per-user roles and
+// overrides are set on the user's detail page.
+// ============================================================================
+
+import { useState, useEffect, useMemo } from 'react';
+import { clsx } from 'clsx';
+import { Plus, RotateCcw, Trash2, Lock, Users, AlertCircle, Building2, Briefcase } from 'lucide-react';
 import { Page } from '@/components/layout';
-import { Card, CardContent } from '@/components/common';
-import { useDocumentTitle } from '@/hooks';
+import { Button, Input, Textarea, Modal, ConfirmModal } from '@/components/common';
+import {
+  useRolesStore,
+  useFieldsStore,
+  useToast,
+  RECORD_SCOPE_OPTIONS,
+  type Role,
+  type Permission,
+  type Department,
+  type OrgUnitType,
+} from '@/contexts';
+import type { RecordScope } from '@sg-portal/shared';
+import { useDocumentTitle, usePermission } from '@/hooks';
 
 export function PermissionsPage() {
   useDocumentTitle('Permissions');
-  
+  const toast = useToast();
+  const canEdit = usePermission('admin:roles');
+  const {
+    roles,
+    permissions,
+    orgRoles,
+    isSynced,
+    error,
+    syncWithServer,
+    addRole,
+    updateRole,
+    deleteRole,
+    toggleRolePermission,
+    setRolePermissions,
+    resetToDefaults,
+    setUnitRole,
+  } = useRolesStore();
+  const { departments, getDepartmentsByParent } = useFieldsStore();
+
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [roleToDelete, setRoleToDelete] = useState<Role | null>(null);
+  const [showResetModal, setShowResetModal] = useState(false);
+
+  useEffect(() => {
+    if (!isSynced) syncWithServer();
+  }, [isSynced, syncWithServer]);
+
+  // Permissions grouped by category, in catalog order
+  const categories = useMemo(() => {
+    const groups = new Map<string, Permission[]>();
+    permissions.forEach((permission) => {
+      groups.set(permission.category, [...(groups.get(permission.category) || []), permission]);
+    });
+    return Array.from(groups.entries());
+  }, [permissions]);
+
+  const handleAddRole = () => {
+    const name = newName.trim();
+    if (!name) return;
+    addRole(name, newDescription.trim());
+    toast.success('Role Created', `${name} has been added - choose its permissions below`);
+    setIsAddOpen(false);
+    setNewName('');
+    setNewDescription('');
+  };
+
+  // Departments in tree order with their depth, for the org chart roles table
+  const departmentTree = useMemo(() => {
+    const rows: Array<{ department: Department; depth: number }> = [];
+    const walk = (parentId: string | null, depth: number) => {
+      getDepartmentsByParent(parentId).forEach((department) => {
+        rows.push({ department, depth });
+        walk(department.id, depth + 1);
+      });
+    };
+    walk(null, 0);
+    return rows;
+  }, [departments, getDepartmentsByParent]);
+
+  const handleUnitRoleChange = (unitType: OrgUnitType, unitId: string, name: string, roleId: string) => {
+    setUnitRole(unitType, unitId, roleId || null);
+    toast.success('Updated', roleId ? `${name} now grants the ${roles.find((r) => r.id === roleId)?.name} role` : `${name} no longer grants a role`);
+  };
+
+  const handleDeleteRole = () => {
+    if (!roleToDelete) return;
+    if (roleToDelete.userCount) {
+      toast.error('Role In Use', `Reassign the ${roleToDelete.userCount} user(s) with this role first`);
+    } else if (roleToDelete.unitCount) {
+      toast.error('Role In Use', `Remove the role from the ${roleToDelete.unitCount} department(s) or position(s) using it first`);
+    } else {
+      deleteRole(roleToDelete.id);
+      toast.success('Role Deleted', `${roleToDelete.name} has been removed`);
+    }
+    setRoleToDelete(null);
+  };
+
+  // Grant the whole category, or clear it when the role already has all of it
+  const toggleCategory = (role: Role, categoryPermissions: Permission[]) => {
+    const ids = categoryPermissions.map((p) => p.id);
+    const hasAll = ids.every((id) => role.permissions.includes(id));
+    setRolePermissions(
+      role.id,
+      hasAll
+        ? role.permissions.filter((p) => !ids.includes(p))
+        : Array.from(new Set([...role.permissions, ...ids]))
+    );
+  };
+
   return (
     <Page
       title="Permissions"
-      description="Configure role-based access and permissions."
-    >
-      <Card>
-        <CardContent className="p-12 text-center">
-          <div className="w-16 h-16 mx-auto rounded-full bg-brand-100 dark:bg-brand-900/30 flex items-center justify-center">
-            <Shield className="w-8 h-8 text-brand-600 dark:text-brand-400" />
+      description="Choose what each role can see and do. Users get the permissions of their assigned, position and department roles, plus any overrides set on their profile, and the widest record visibility among those roles."
+      actions={
+        canEdit ? (
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" leftIcon={<RotateCcw className="w-4 h-4" />} onClick={() => setShowResetModal(true)}>
+              Reset Defaults
+            </Button>
+            <Button variant="primary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setIsAddOpen(true)}>
+              New Role
+            </Button>
           </div>
-          <h3 className="mt-6 text-xl font-semibold text-slate-900 dark:text-white">
-            Permissions Management
-          </h3>
-          <p className="mt-2 text-slate-500 dark:text-slate-400 max-w-md mx-auto">
-            This feature is coming soon. You'll be able to configure role-based permissions 
-            for each page and feature in the portal.
-          </p>
-          
-          <div className="mt-8 grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-2xl mx-auto">
-            <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
-              <Users className="w-6 h-6 mx-auto text-slate-400" />
-              <p className="mt-2 text-sm font-medium text-slate-600 dark:text-slate-400">Role Management</p>
-            </div>
-            <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
-              <Lock className="w-6 h-6 mx-auto text-slate-400" />
-              <p className="mt-2 text-sm font-medium text-slate-600 dark:text-slate-400">Page Access</p>
-            </div>
-            <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
-              <Shield className="w-6 h-6 mx-auto text-slate-400" />
-              <p className="mt-2 text-sm font-medium text-slate-600 dark:text-slate-400">Feature Permissions</p>
-            </div>
+        ) : undefined
+      }
+    >
+      {error && (
+        <div className="mb-4 flex items-center gap-2 p-3 rounded-lg bg-danger-50 dark:bg-danger-900/20 text-sm text-danger-700 dark:text-danger-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-800/50 sticky top-0 z-10">
+            <tr>
+              <th className="text-left px-4 py-3 font-medium text-slate-500 dark:text-slate-400 min-w-[260px]">
+                Permission
+              </th>
+              {roles.map((role) => (
+                <th key={role.id} className="px-3 py-3 text-center min-w-[120px] align-top">
+                  <div className="flex items-center justify-center gap-1">
+                    <span className="font-semibold text-slate-900 dark:text-white">{role.name}</span>
+                    {role.isSystem ? (
+                      <span title="System role - can't be deleted"><Lock className="w-3 h-3 text-slate-400" /></span>
+                    ) : canEdit && (
+                      <button
+                        onClick={() => setRoleToDelete(role)}
+                        className="p-0.5 rounded text-slate-300 hover:text-danger-600 transition-colors"
+                        title="Delete role"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-center gap-1 mt-0.5 text-xs font-normal text-slate-400">
+                    <Users className="w-3 h-3" />
+                    {role.userCount ?? 0}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-t border-slate-200 dark:border-slate-700">
+              <td className="px-4 py-2.5">
+                <div className="font-medium text-slate-900 dark:text-white">Record visibility</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">Which companies, contacts, leads and deals holders can see</div>
+              </td>
+              {roles.map((role) => (
+                <td key={role.id} className="px-3 py-2.5 text-center">
+                  <select
+                    value={role.recordScope || 'all'}
+                    onChange={(e) => updateRole(role.id, { recordScope: e.target.value as RecordScope })}
+                    disabled={!canEdit}
+                    aria-label={`${role.name}: record visibility`}
+                    title={RECORD_SCOPE_OPTIONS.find((o) => o.value === (role.recordScope || 'all'))?.description}
+                    className="w-full px-2 py-1 border border-slate-300 dark:border-slate-700 rounded-md
+                      bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-xs
+                      focus:outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50"
+                  >
+                    {RECORD_SCOPE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </td>
+              ))}
+            </tr>
+            {categories.map(([category, categoryPermissions]) => (
+              <CategoryRows
+                key={category}
+                category={category}
+                permissions={categoryPermissions}
+                roles={roles}
+                canEdit={canEdit}
+                onToggle={toggleRolePermission}
+                onToggleCategory={toggleCategory}
+              />
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Department & position roles */}
+      <div className="mt-6">
+        <h2 className="text-base font-semibold text-slate-900 dark:text-white">Department & Position Roles</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">
+          Everyone placed in a position gets its role, and everyone in a department gets the department's default role.
+        </p>
+        {departmentTree.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">No departments yet - add them under Fields.</p>
+        ) : (
+          <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <tbody>
+                {departmentTree.map(({ department, depth }) => (
+                  <OrgUnitRows
+                    key={department.id}
+                    department={department}
+                    depth={depth}
+                    roles={roles}
+                    departmentRoleId={orgRoles.departments[department.id] || ''}
+                    positionRoleIds={orgRoles.positions}
+                    canEdit={canEdit}
+                    onChange={handleUnitRoleChange}
+                  />
+                ))}
+              </tbody>
+            </table>
           </div>
-        </CardContent>
-      </Card>
+        )}
+      </div>
+
+      {/* New Role */}
+      <Modal
+        isOpen={isAddOpen}
+        onClose={() => setIsAddOpen(false)}
+        title="New Role"
+        size="md"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setIsAddOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleAddRole} disabled={!newName.trim()}>
+              Create Role
+            </Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <Input label="Name" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="e.g. Field Supervisor" autoFocus />
+          <Textarea label="Description" value={newDescription} onChange={(e) => setNewDescription(e.target.value)} rows={2} />
+        </div>
+      </Modal>
+
+      <ConfirmModal
+        isOpen={!!roleToDelete}
+        onClose={() => setRoleToDelete(null)}
+        onConfirm={handleDeleteRole}
+        title="Delete Role"
+        message={`Delete the ${roleToDelete?.name} role? This can't be undone.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+
+      <ConfirmModal
+        isOpen={showResetModal}
+        onClose={() => setShowResetModal(false)}
+        onConfirm={() => {
+          resetToDefaults();
+          setShowResetModal(false);
+          toast.success('Reset', 'Default roles restored to their original permissions');
+        }}
+        title="Reset Default Roles"
+        message="Restore the Administrator, Manager, Staff and Viewer roles to their original permissions? Custom roles are not changed."
+        confirmText="Reset"
+        variant="warning"
+      />
     </Page>
   );
-}
\ No newline at end of file
+}
+
+function RoleSelect({ value, roles, placeholder, disabled, onChange, label }: {
+  value: string;
+  roles: Role[];
+  placeholder: string;
+  disabled: boolean;
+  onChange: (roleId: string) => void;
+  label: string;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      aria-label={label}
+      className="w-48 px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg
+        bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm
+        focus:outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50"
+    >
+      <option value="">{placeholder}</option>
+      {roles.map((role) => (
+        <option key={role.id} value={role.id}>{role.name}</option>
+      ))}
+    </select>
+  );
+}
+
+function OrgUnitRows({ department, depth, roles, departmentRoleId, positionRoleIds, canEdit, onChange }: {
+  department: Department;
+  depth: number;
+  roles: Role[];
+  departmentRoleId: string;
+  positionRoleIds: Record<string, string>;
+  canEdit: boolean;
+  onChange: (unitType: OrgUnitType, unitId: string, name: string, roleId: string) => void;
+}) {
+  const indent = depth * 20;
+  return (
+    <>
+      <tr className="bg-slate-50 dark:bg-slate-800/50 border-t border-slate-200 dark:border-slate-700 first:border-t-0">
+        <td className="px-4 py-2" style={{ paddingLeft: 16 + indent }}>
+          <div className="flex items-center gap-2 font-medium text-slate-900 dark:text-white">
+            <Building2 className="w-4 h-4 text-slate-400" />
+            {department.name}
+            <span className="text-xs font-normal text-slate-400">department default</span>
+          </div>
+        </td>
+        <td className="px-4 py-2 text-right">
+          <RoleSelect
+            value={departmentRoleId}
+            roles={roles}
+            placeholder="No default role"
+            disabled={!canEdit}
+            onChange={(roleId) => onChange('department', department.id, department.name, roleId)}
+            label={`${department.name} default role`}
+          />
+        </td>
+      </tr>
+      {[...department.positions].sort((a, b) => a.order - b.order).map((position) => (
+        <tr key={position.id} className="border-t border-slate-100 dark:border-slate-800">
+          <td className="px-4 py-2" style={{ paddingLeft: 40 + indent }}>
+            <div className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
+              <Briefcase className="w-3.5 h-3.5 text-slate-400" />
+              {position.name}
+            </div>
+          </td>
+          <td className="px-4 py-2 text-right">
+            <RoleSelect
+              value={positionRoleIds[position.id] || ''}
+              roles={roles}
+              placeholder="No role"
+              disabled={!canEdit}
+              onChange={(roleId) => onChange('position', position.id, position.name, roleId)}
+              label={`${position.name} role`}
+            />
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function CategoryRows({ category, permissions, roles, canEdit, onToggle, onToggleCategory }: {
+  category: string;
+  permissions: Permission[];
+  roles: Role[];
+  canEdit: boolean;
+  onToggle: (roleId: string, permissionId: string) => void;
+  onToggleCategory: (role: Role, permissions: Permission[]) => void;
+}) {
+  return (
+    <>
+      <tr className="bg-slate-100/70 dark:bg-slate-800/70 border-t border-slate-200 dark:border-slate-700">
+        <td className="px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          {category}
+        </td>
+        {roles.map((role) => {
+          const granted = permissions.filter((p) => role.permissions.includes(p.id)).length;
+          return (
+            <td key={role.id} className="px-3 py-2 text-center">
+              <button
+                onClick={() => onToggleCategory(role, permissions)}
+                disabled={!canEdit}
+                className={clsx(
+                  'text-xs rounded px-1.5 py-0.5 transition-colors',
+                  granted === permissions.length ? 'text-brand-600 dark:text-brand-400' : 'text-slate-400',
+                  canEdit && 'hover:bg-slate-200 dark:hover:bg-slate-700'
+                )}
+                title={canEdit ? `Toggle all ${category} permissions` : undefined}
+              >
+                {granted}/{permissions.length}
+              </button>
+            </td>
+          );
+        })}
+      </tr>
+      {permissions.map((permission) => (
+        <tr key={permission.id} className="border-t border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800/30">
+          <td className="px-4 py-2.5">
+            <div className="font-medium text-slate-900 dark:text-white">{permission.name}</div>
+            <div className="text-xs text-slate-500 dark:text-slate-400">{permission.description}</div>
+          </td>
+          {roles.map((role) => (
+            <td key={role.id} className="px-3 py-2.5 text-center">
+              <input
+                type="checkbox"
+                checked={role.permissions.includes(permission.id)}
+                onChange={() => onToggle(role.id, permission.id)}
+                disabled={!canEdit}
+                aria-label={`${role.name}: ${permission.name}`}
+                className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500 disabled:opacity-50"
+              />
+            </td>
+          ))}
+        </tr>
+      ))}
+    </>
+  );
+}
@@ -31,9 +31,10 @@ import {
   PositionSelector, CollapsibleSection, UserDeactivationModal, SectionHeader,
   InlineEditField
 } from '@/components/common';
-import { useUsersStore, useFieldsStore, useCompanyStore, useClientsStore, useToast, useNavigationGuardStore } from '@/contexts';
+import { useUsersStore, useFieldsStore, useCompanyStore, useClientsStore, useRolesStore, useToast, useNavigationGuardStore, DEFAULT_ROLE_ID, type Permission } from '@/contexts';
 import { getUserDependencies, type DependencyCategory } from '@/contexts/userDependencyRegistry';
-import { useDocumentTitle, useUserBySlug, useSafeNavigate } from '@/hooks';
+import { EffectivePermissionsModal, useRoleSourceLabel } from './EffectivePermissionsModal';
+import { useDocumentTitle, useUserBySlug, useSafeNavigate, usePermission } from '@/hooks';
 import { useNavigate } from 'react-router-dom';
 
 const categoryIcons: Record<string, React.ElementType> = {
@@ -303,8 +304,8 @@ function AssignedItemRow({ item, category, userId, onNavigate }: { item: { id: s
   );
 }
 
-function PermissionRow({ label, description, inherited, enabled, overridden, onToggle, onOverrideChange }: {
-  label: string; description?: string; inherited: boolean; enabled: boolean; overridden: boolean;
+function PermissionRow({ label, description, inherited, source, enabled, overridden, disabled = false, onToggle, onOverrideChange }: {
+  label: string; description?: string; inherited: boolean; source?: string; enabled: boolean; overridden: boolean; disabled?: boolean;
   onToggle: () => void; onOverrideChange: (override: boolean) => void;
 }) {
   return (
@@ -317,10 +318,10 @@ function PermissionRow({ label, description, inherited, enabled, overridden, onT
         {description && <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">{description}</p>}
       </div>
       <div className="flex items-center gap-3">
-        {!overridden && inherited && <span className="text-xs text-slate-400">From position</span>}
-        <Toggle checked={enabled} onChange={onToggle} size="sm" activeColor={overridden ? 'warning' : 'brand'} />
-        <button onClick={() => onOverrideChange(!overridden)}
-          className={clsx('p-1 rounded transition-colors', overridden ? 'text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20' : 'text-slate-300 hover:text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800')}
+        {!overridden && inherited && <span className="text-xs text-slate-400">From {source || 'role'}</span>}
+        <Toggle checked={enabled} onChange={onToggle} size="sm" disabled={disabled} activeColor={overridden ? 'warning' : 'brand'} />
+        <button onClick={() => onOverrideChange(!overridden)} disabled={disabled}
+          className={clsx('p-1 rounded transition-colors disabled:opacity-50 disabled:pointer-events-none', overridden ? 'text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20' : 'text-slate-300 hover:text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800')}
           title={overridden ? 'Remove override' : 'Override this permission'}>
           {overridden ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
         </button>
@@ -338,10 +339,15 @@ export function UserDetailPage() {
   const { departments, getPositionsByDepartment, getPositionById } = useFieldsStore();
   const { company } = useCompanyStore();
   const { setGuard, clearGuard } = useNavigationGuardStore();
+  const { roles, permissions, isSynced: rolesSynced, syncWithServer: syncRoles, getUserAccess, setUserRole, setUserOverride, syncPlacements, getUserRoleSources, explainUserPermissions } = useRolesStore();
+  const sourceLabel = useRoleSourceLabel();
+  const canManageAccess = usePermission('admin:users');
+  const canManageRoles = usePermission('admin:roles');
   
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showDeactivateModal, setShowDeactivateModal] = useState(false);
   const [showClearSupervisorsModal, setShowClearSupervisorsModal] = useState(false);
+  const [showEffectivePermissions, setShowEffectivePermissions] = useState(false);
   const [pendingFieldChange, setPendingFieldChange] = useState<{ field: string; value: string } | null>(null);
   const [editingFields, setEditingFields] = useState<Map<string, boolean>>(new Map());
   const hasUnsavedEdits = Array.from(editingFields.values()).some((hasChanges) => hasChanges);
@@ -369,6 +375,24 @@ export function UserDetailPage() {
   const additionalSupervisors = useMemo(() => { return additionalSupervisorIds.map(id => users.find(u => u.id === id)).filter(Boolean) as typeof users; }, [additionalSupervisorIds, users]);
   const hasAdditionalSupervisors = additionalSupervisors.length > 0;
   const officeOptions = useMemo(() => offices.map((o) => ({ value: o.id, label: o.isMain ? `${o.label} (Main)` : o.label })), [offices]);
+  useEffect(() => { if (!rolesSynced) syncRoles(); }, [rolesSynced, syncRoles]);
+  // The server resolves position and department roles from the placement it has on record
+  useEffect(() => {
+    if (rolesSynced && canManageRoles && user) syncPlacements([user]);
+  }, [rolesSynced, canManageRoles, user, syncPlacements]);
+  const access = user ? getUserAccess(user.email) : null;
+  const roleSources = user ? getUserRoleSources(user.email) : [];
+  const effectivePermissions = user ? explainUserPermissions(user.email) : [];
+  const userRole = roles.find((r) => r.id === (access?.roleId || roleSources[0]?.roleId || DEFAULT_ROLE_ID));
+  const roleOptions = useMemo(() => [
+    { value: '', label: 'None (position & department roles)' },
+    ...roles.map((r) => ({ value: r.id, label: r.name })),
+  ], [roles]);
+  const permissionCategories = useMemo(() => {
+    const groups = new Map<string, Permission[]>();
+    permissions.forEach((p) => groups.set(p.category, [...(groups.get(p.category) || []), p]));
+    return Array.from(groups.entries());
+  }, [permissions]);
   const dependencies = useMemo(() => { if (!user) return { categories: [], totalCount: 0, hasItems: false, userId: '', userName: '' }; return getUserDependencies(user.id, user.name); }, [user]);
   
   const handleFieldSave = (field: string, value: string) => {
@@ -450,6 +474,12 @@ export function UserDetailPage() {
   
   const handleDelete = () => { if (!user) return; deleteUser(user.id); toast.success('Deleted', `${user.name} has been deleted`); navigate('/admin/users'); };
   
+  // Access is stored by email so it can be set up before the user's first sign-in
+  const handleRoleChange = (roleId: string) => { if (!user) return; setUserRole(user.email, roleId || null); toast.success('Updated', roleId ? `Role changed to ${roles.find((r) => r.id === roleId)?.name || 'role'}` : 'Role assignment removed'); };
+  // Flipping a toggle always records an override; the lock adds or removes one without changing access
+  const handlePermissionToggle = (permissionId: string, enabled: boolean) => { if (!user) return; setUserOverride(user.email, permissionId, !enabled); };
+  const handleOverrideChange = (permissionId: string, inherited: boolean, override: boolean) => { if (!user) return; setUserOverride(user.email, permissionId, override ? inherited : null); };
+  
   if (isRedirecting) return null;
   
   if (notFound || !user) {
@@ -607,29 +637,31 @@ export function UserDetailPage() {
             </div>
           </CollapsibleSection>
           
-          <CollapsibleSection title="Permissions" icon={Shield} defaultOpen={false} badge={userPosition ? 'From position' : undefined}>
+          <CollapsibleSection title="Permissions" icon={Shield} defaultOpen={false} badge={userRole?.name}>
             <div className="p-4">
-              {userPosition ? (
-                <>
-                  <div className="flex items-center gap-2 mb-4 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
-                    <Info className="w-4 h-4 text-slate-400" />
-                    <p className="text-sm text-slate-600 dark:text-slate-400">Permissions are inherited from the <strong>{userPosition.name}</strong> position. You can override specific permissions below.</p>
-                  </div>
-                  <div className="space-y-1">
-                    <PermissionRow label="Admin Panel" description="Access to user management and settings" inherited={true} enabled={true} overridden={false} onToggle={() => toast.info('Coming Soon', 'Permission management coming soon')} onOverrideChange={() => toast.info('Coming Soon', 'Permission overrides coming soon')} />
-                    <PermissionRow label="Customers Panel" description="Access to companies and contacts" inherited={true} enabled={true} overridden={false} onToggle={() => toast.info('Coming Soon', 'Permission management coming soon')} onOverrideChange={() => toast.info('Coming Soon', 'Permission overrides coming soon')} />
-                    <PermissionRow label="Projects Panel" description="Access to project management" inherited={true} enabled={false} overridden={false} onToggle={() => toast.info('Coming Soon', 'Permission management coming soon')} onOverrideChange={() => toast.info('Coming Soon', 'Permission overrides coming soon')} />
-                    <PermissionRow label="Estimating Panel" description="Access to estimates" inherited={true} enabled={false} overridden={false} onToggle={() => toast.info('Coming Soon', 'Permission management coming soon')} onOverrideChange={() => toast.info('Coming Soon', 'Permission overrides coming soon')} />
-                    <PermissionRow label="Accounting Panel" description="Access to invoices and financials" inherited={true} enabled={false} overridden={false} onToggle={() => toast.info('Coming Soon', 'Permission management coming soon')} onOverrideChange={() => toast.info('Coming Soon', 'Permission overrides coming soon')} />
-                  </div>
-                </>
-              ) : (
-                <div className="text-center py-6 text-slate-400">
-                  <Shield className="w-8 h-8 mx-auto mb-2 opacity-50" />
-                  <p className="text-sm">Select a position to see permissions</p>
-                  <p className="text-xs mt-1">Permissions are based on the user's position</p>
+              <div className="max-w-xs mb-4">
+                <FormSelectField label="Assigned Role" value={access?.roleId || ''} options={roleOptions} onChange={handleRoleChange} disabled={!canManageAccess} icon={<Shield className="w-4 h-4" />} />
+              </div>
+              <div className="flex items-start gap-2 mb-4 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
+                <Info className="w-4 h-4 text-slate-400 mt-0.5 flex-shrink-0" />
+                <p className="flex-1 text-sm text-slate-600 dark:text-slate-400">
+                  Permissions combine {roleSources.map((source, i) => <span key={`${source.source}-${source.roleId}`}>{i > 0 && (i === roleSources.length - 1 ? ' and ' : ', ')}the <strong>{sourceLabel(source)}</strong></span>)}. You can override specific permissions below.
+                </p>
+                <button onClick={() => setShowEffectivePermissions(true)} className="text-sm font-medium text-brand-600 dark:text-brand-400 hover:underline whitespace-nowrap">Explain</button>
+              </div>
+              {permissionCategories.map(([category, categoryPermissions]) => (
+                <div key={category} className="mb-3 last:mb-0">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-400 mb-1">{category}</p>
+                  {categoryPermissions.map((p) => {
+                    const grantedBy = effectivePermissions.find((e) => e.permission.id === p.id)?.sources || [];
+                    const inherited = grantedBy.length > 0;
+                    const override = access?.overrides[p.id];
+                    const overridden = override !== undefined;
+                    const enabled = overridden ? override : inherited;
+                    return <PermissionRow key={p.id} label={p.name} description={p.description} inherited={inherited} source={grantedBy[0] && (grantedBy[0].source === 'assigned' || grantedBy[0].source === 'default' ? 'role' : grantedBy[0].source)} enabled={enabled} overridden={overridden} disabled={!canManageAccess} onToggle={() => handlePermissionToggle(p.id, enabled)} onOverrideChange={(value) => handleOverrideChange(p.id, inherited, value)} />;
+                  })}
                 </div>
-              )}
+              ))}
             </div>
           </CollapsibleSection>
         </div>
@@ -648,6 +680,7 @@ export function UserDetailPage() {
       <ConfirmModal isOpen={showDeleteModal} onClose={() => setShowDeleteModal(false)} onConfirm={handleDelete}
         title="Delete User" message={`Are you sure you want to delete "${user.name}"? This action cannot be undone.`} confirmText="Delete" variant="danger" />
       
+      <EffectivePermissionsModal isOpen={showEffectivePermissions} onClose={() => setShowEffectivePermissions(false)} email={user.email} userName={user.name} />
       <UserDeactivationModal isOpen={showDeactivateModal} onClose={() => setShowDeactivateModal(false)} onConfirm={handleDeactivateConfirm} user={user} mode="deactivate" />
       
       {/* Clear Additional Supervisors Confirmation */}
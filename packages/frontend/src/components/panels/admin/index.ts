@@ -3,5 +3,6 @@ export { UserDetailPage } from './UserDetailPage';
 export { CompanySettingsPage } from './CompanySettingsPage';
 export { PermissionsPage } from './PermissionsPage';
 export { FieldSettingsPage } from './FieldSettingsPage';
+export { DunningSettingsPage } from './DunningSettingsPage';
 
 // REMOVED: ManageDepartmentsPage - replaced by FieldSettingsPage
\ No newline at end of file
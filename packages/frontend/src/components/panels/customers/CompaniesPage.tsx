@@ -10,13 +10,13 @@ import {
 } from 'lucide-react';
 import { Page } from '@/components/layout';
 import { useClientsStore, useUsersStore, useToast, type Company, getCompanySalesRepIds } from '@/contexts';
-import { CardContent, Button, Input, Modal, SearchInput, Textarea, AddressInput, FilterBar, FilterCount, SelectFilter } from '@/components/common';
+import { CardContent, Button, Input, Modal, SearchInput, Textarea, AddressInput, FilterBar, FilterCount, FilterScope, SelectFilter } from '@/components/common';
 import { MultiSelectUsers } from '@/components/common/MultiSelectUsers';
 import { AlphabetFilter } from '@/components/common/AlphabetFilter';
 import { DataTable, type DataTableColumn } from '@/components/common/DataTable';
 import { DuplicateCompanyModal } from '@/components/common/DuplicateCompanyModal';
 import { validatePhone, validateWebsite, formatPhoneNumber } from '@/utils/validation';
-import { useDocumentTitle, getCompanyUrl } from '@/hooks';
+import { useDocumentTitle, usePermission, useRecordScope, getCompanyUrl } from '@/hooks';
 
 // Secondary address interface
 interface SecondaryAddress {
@@ -66,6 +66,8 @@ export function CompaniesPage() {
   const { users } = useUsersStore();
   const toast = useToast();
   useDocumentTitle('Companies');
+  const canCreate = usePermission('customers:create');
+  const { isRepVisible } = useRecordScope();
 
   // Search and filters
   const [search, setSearch] = useState('');
@@ -318,8 +320,10 @@ export function CompaniesPage() {
       }
     });
     
-    // Return all reps but mark those with 0 matches as disabled
+    // Return all reps but mark those with 0 matches as disabled. Co-reps
+    // outside the user's record scope aren't offered as filters.
     return Array.from(allReps.entries())
+      .filter(([value]) => isRepVisible(value))
       .map(([value, { name }]) => {
         const matchData = reps.get(value);
         const matchCount = locationFilter ? (matchData?.count || 0) : allReps.get(value)?.count || 0;
@@ -335,7 +339,7 @@ export function CompaniesPage() {
         if (a.disabled !== b.disabled) return a.disabled ? 1 : -1;
         return a.label.localeCompare(b.label);
       });
-  }, [companies, users, locationFilter]);
+  }, [companies, users, locationFilter, isRepVisible]);
 
   // Get all company names for the alphabet filter
   const companyNames = useMemo(() => companies.map((c) => c.name), [companies]);
@@ -765,17 +769,24 @@ export function CompaniesPage() {
       description="Manage your client companies."
       fillHeight
       actions={
-        <Button variant="primary" onClick={openAddModal}>
-          <Plus className="w-4 h-4 mr-2" />
-          Add Company
-        </Button>
+        canCreate ? (
+          <Button variant="primary" onClick={openAddModal}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Company
+          </Button>
+        ) : undefined
       }
     >
       {/* Main Content Container - fills available height */}
       <div className="flex flex-col h-full min-h-0">
         {/* Filter Bar - two rows: filters on top, alphabet on bottom */}
         <FilterBar 
-          rightContent={<FilterCount count={filteredAndSortedCompanies.length} singular="company" plural="companies" />}
+          rightContent={
+            <>
+              <FilterScope />
+              <FilterCount count={filteredAndSortedCompanies.length} singular="company" plural="companies" />
+            </>
+          }
           secondaryRow={
             <AlphabetFilter
               selected={letterFilter}
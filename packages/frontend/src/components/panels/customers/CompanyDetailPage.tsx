@@ -16,6 +16,7 @@ import {
   Users,
   Info,
   Printer,
+  Check,
 } from 'lucide-react';
 import { Page } from '@/components/layout';
 import { 
@@ -23,7 +24,11 @@ import {
   SectionHeader, InlineEditField, CollapsibleSection, MultiSelectUsers, EntityTasksSection
 } from '@/components/common';
 import { TaskDetailPanel } from '@/components/panels/TasksPage';
-import { useClientsStore, useUsersStore, useToast, useNavigationGuardStore, useFieldsStore, type Company, type ContactRole, type CompanyAddress, isDuplicateAddress } from '@/contexts';
+import {
+  useClientsStore, useUsersStore, useToast, useNavigationGuardStore, useFieldsStore,
+  type Company, type ContactRole, type CompanyAddress, type CompanyType,
+  isDuplicateAddress, isCompanyOfType, COMPANY_TYPE_LABELS, COMPANY_TYPE_FLAGS,
+} from '@/contexts';
 import { useTaskStore, type Task, type TaskInput } from '@/contexts/taskStore';
 import {
   formatPhoneNumber,
@@ -31,6 +36,8 @@ import {
   validateEmail,
 } from '@/utils/validation';
 import { useDocumentTitle, useCompanyBySlug, getContactUrl } from '@/hooks';
+import { TaxExemptionsSection } from './TaxExemptionsSection';
+import { VendorComplianceSection } from './VendorComplianceSection';
 
 // Additional contact method type
 interface AdditionalContactMethod {
@@ -175,6 +182,95 @@ function AddressSalesRepField({
   );
 }
 
+// Pill that toggles one value on or off
+function TogglePill({ label, selected, onClick }: { label: string; selected: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={clsx(
+        'inline-flex items-center gap-1 px-2.5 py-1 text-xs rounded-full border transition-colors',
+        selected
+          ? 'bg-brand-50 border-brand-300 text-brand-700 dark:bg-brand-900/30 dark:border-brand-700 dark:text-brand-300'
+          : 'border-slate-200 text-slate-500 hover:border-slate-300 dark:border-slate-700 dark:text-slate-400'
+      )}
+    >
+      {selected && <Check className="w-3 h-3" />}
+      {label}
+    </button>
+  );
+}
+
+// What the company is to us (customer, subcontractor, supplier) and, for
+// subs and suppliers, the trades they work in
+function CompanyClassificationFields({
+  company,
+  onChange,
+}: {
+  company: Company;
+  onChange: (data: Partial<Company>, message: string) => void;
+}) {
+  const { trades } = useFieldsStore();
+  const companyTrades = company.trades || [];
+  const isVendor = isCompanyOfType(company, 'subcontractor') || isCompanyOfType(company, 'supplier');
+  // Trades since removed from Field Settings stay visible on companies that have them
+  const tradeOptions = [...trades, ...companyTrades.filter((t) => !trades.includes(t))];
+
+  const toggleType = (type: CompanyType) => {
+    const selected = isCompanyOfType(company, type);
+    const otherTypes = (Object.keys(COMPANY_TYPE_LABELS) as CompanyType[]).filter((t) => t !== type);
+    if (selected && !otherTypes.some((t) => isCompanyOfType(company, t))) return;
+    onChange(
+      { [COMPANY_TYPE_FLAGS[type]]: !selected },
+      `${selected ? 'No longer' : 'Now'} a ${COMPANY_TYPE_LABELS[type].toLowerCase()}`
+    );
+  };
+
+  const toggleTrade = (trade: string) => {
+    const next = companyTrades.includes(trade)
+      ? companyTrades.filter((t) => t !== trade)
+      : [...companyTrades, trade];
+    onChange({ trades: next }, 'Trades saved');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-1.5">Company Type</div>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(COMPANY_TYPE_LABELS) as CompanyType[]).map((type) => (
+            <TogglePill
+              key={type}
+              label={COMPANY_TYPE_LABELS[type]}
+              selected={isCompanyOfType(company, type)}
+              onClick={() => toggleType(type)}
+            />
+          ))}
+        </div>
+      </div>
+      {isVendor && (
+        <div>
+          <div className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-1.5">Trades</div>
+          {tradeOptions.length === 0 ? (
+            <p className="text-xs text-slate-400">Add trades in Field Settings to classify this company</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {tradeOptions.map((trade) => (
+                <TogglePill
+                  key={trade}
+                  label={trade}
+                  selected={companyTrades.includes(trade)}
+                  onClick={() => toggleTrade(trade)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Role options moved inside CompanyDetailPage component to use fieldsStore
 
 export function CompanyDetailPage() {
@@ -754,6 +850,13 @@ export function CompanyDetailPage() {
                     onToggleSetByLocation={handleToggleSetByLocation}
                   />
                 </div>
+                <CompanyClassificationFields
+                  company={company}
+                  onChange={(data, message) => {
+                    updateCompany(company.id, data);
+                    toast.success('Updated', message);
+                  }}
+                />
               </div>
             </div>
           </div>
@@ -959,6 +1062,17 @@ export function CompanyDetailPage() {
             )}
           </CollapsibleSection>
 
+          {/* Tax Exemption Certificates - we only bill customers */}
+          {isCompanyOfType(company, 'customer') && <TaxExemptionsSection companyId={company.id} />}
+
+          {/* W-9, insurance and prequalification for subcontractors and suppliers */}
+          {(isCompanyOfType(company, 'subcontractor') || isCompanyOfType(company, 'supplier')) && (
+            <VendorComplianceSection
+              companyId={company.id}
+              isSubcontractor={isCompanyOfType(company, 'subcontractor')}
+            />
+          )}
+
           {/* Notes Section - Collapsible, Collapsed by Default */}
           <CollapsibleSection
             title="Notes"
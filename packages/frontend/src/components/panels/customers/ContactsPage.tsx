@@ -15,13 +15,13 @@ import {
   Trash2,
 } from 'lucide-react';
 import { Page } from '@/components/layout';
-import { CardContent, Button, Input, Modal, SearchInput, Select, Textarea, AddressInput, FilterBar, FilterCount, SelectFilter } from '@/components/common';
+import { CardContent, Button, Input, Modal, SearchInput, Select, Textarea, AddressInput, FilterBar, FilterCount, FilterScope, SelectFilter } from '@/components/common';
 import { AlphabetFilter } from '@/components/common/AlphabetFilter';
 import { DataTable, type DataTableColumn } from '@/components/common/DataTable';
 import { DuplicateContactModal } from '@/components/common/DuplicateContactModal';
 import { DuplicateCompanyModal } from '@/components/common/DuplicateCompanyModal';
 import { useClientsStore, useUsersStore, useFieldsStore, useToast, type ContactRole, type Contact, type Company, getCompanySalesRepIds } from '@/contexts';
-import { useDropdownKeyboard, useDocumentTitle, getContactUrl, getCompanyUrl } from '@/hooks';
+import { useDropdownKeyboard, useDocumentTitle, usePermission, useRecordScope, getContactUrl, getCompanyUrl } from '@/hooks';
 import { validateEmail, validatePhone, formatPhoneNumber } from '@/utils/validation';
 
 // Additional contact method type
@@ -105,6 +105,8 @@ export function ContactsPage() {
   const { contactRoles } = useFieldsStore();
   const toast = useToast();
   useDocumentTitle('Contacts');
+  const canCreate = usePermission('customers:create');
+  const { isRepVisible } = useRecordScope();
 
   const [search, setSearch] = useState('');
   const [letterFilter, setLetterFilter] = useState<string | null>(null);
@@ -521,7 +523,9 @@ export function ContactsPage() {
     
     const hasActiveFilter = companyFilter || locationFilter;
     
+    // Co-reps outside the user's record scope aren't offered as filters
     return Array.from(allRepCounts.entries())
+      .filter(([repId]) => isRepVisible(repId))
       .map(([repId, totalCount]) => {
         const user = users.find((u) => u.id === repId);
         const matchCount = hasActiveFilter ? (repCounts.get(repId) || 0) : totalCount;
@@ -537,7 +541,7 @@ export function ContactsPage() {
         if (a.disabled !== b.disabled) return a.disabled ? 1 : -1;
         return a.label.localeCompare(b.label);
       });
-  }, [contacts, companies, users, companyFilter, locationFilter]);
+  }, [contacts, companies, users, companyFilter, locationFilter, isRepVisible]);
 
   // Company options for filter - cascading with location and salesRep filters
   const companyFilterOptions = useMemo(() => {
@@ -1315,17 +1319,24 @@ export function ContactsPage() {
       description="Manage your client contacts."
       fillHeight
       actions={
-        <Button variant="primary" onClick={openAddModal}>
-          <Plus className="w-4 h-4 mr-2" />
-          Add Contact
-        </Button>
+        canCreate ? (
+          <Button variant="primary" onClick={openAddModal}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Contact
+          </Button>
+        ) : undefined
       }
     >
       {/* Main Content Container - fills available height */}
       <div className="flex flex-col h-full min-h-0">
         {/* Filter Bar - two rows: filters on top, alphabet on bottom */}
         <FilterBar 
-          rightContent={<FilterCount count={filteredAndSortedContacts.length} singular="contact" />}
+          rightContent={
+            <>
+              <FilterScope />
+              <FilterCount count={filteredAndSortedContacts.length} singular="contact" />
+            </>
+          }
           secondaryRow={
             <AlphabetFilter
               selected={letterFilter}
@@ -0,0 +1,280 @@
+// ============================================================================
+// TaxExemptionsSection Component
+// Location: src/components/panels/customers/TaxExemptionsSection.tsx
+//
+// A company's sales tax exemption certificates (resale, exempt organization,
+// capital improvement). Estimates and invoices for the company are not taxed
+// while a certificate covering their jurisdiction is in force.
+// ============================================================================
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { ShieldCheck, Plus, Edit, Trash2, Loader2 } from 'lucide-react';
+import { Button, Input, Modal, ConfirmModal, Select, Textarea, CollapsibleSection } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useTaxExemptions,
+  useTaxJurisdictions,
+  useCreateTaxExemption,
+  useUpdateTaxExemption,
+  useDeleteTaxExemption,
+  type TaxExemption,
+  type TaxExemptionInput,
+} from '@/services/api';
+import { usePermission } from '@/hooks';
+
+// Common New York certificate forms, offered as suggestions
+const CERTIFICATE_TYPES = ['ST-119.1', 'ST-120', 'ST-120.1', 'ST-121', 'ST-124', 'ST-125'];
+
+interface FormData {
+  certificateType: string;
+  certificateNumber: string;
+  jurisdictionId: string; // '' = every jurisdiction
+  effectiveDate: string;
+  expiresOn: string;
+  notes: string;
+}
+
+function toForm(exemption: TaxExemption | null): FormData {
+  return {
+    certificateType: exemption?.certificateType ?? '',
+    certificateNumber: exemption?.certificateNumber ?? '',
+    jurisdictionId: exemption?.jurisdictionId ?? '',
+    effectiveDate: exemption?.effectiveDate ?? new Date().toISOString().split('T')[0]!,
+    expiresOn: exemption?.expiresOn ?? '',
+    notes: exemption?.notes ?? '',
+  };
+}
+
+interface TaxExemptionsSectionProps {
+  companyId: string;
+}
+
+export function TaxExemptionsSection({ companyId }: TaxExemptionsSectionProps) {
+  const canEdit = usePermission('customers:edit');
+  const toast = useToast();
+
+  const [editing, setEditing] = useState<TaxExemption | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<FormData>(toForm(null));
+  const [toDelete, setToDelete] = useState<TaxExemption | null>(null);
+
+  const { data } = useTaxExemptions(companyId);
+  const { data: jurisdictionsData } = useTaxJurisdictions();
+  const createMutation = useCreateTaxExemption(companyId);
+  const updateMutation = useUpdateTaxExemption(companyId);
+  const deleteMutation = useDeleteTaxExemption(companyId);
+
+  const exemptions = data?.data ?? [];
+  const jurisdictions = jurisdictionsData?.data ?? [];
+  const currentCount = exemptions.filter((e) => e.isCurrent).length;
+
+  const openModal = (exemption: TaxExemption | null) => {
+    setEditing(exemption);
+    setFormData(toForm(exemption));
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditing(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: TaxExemptionInput = {
+      certificateType: formData.certificateType.trim(),
+      certificateNumber: formData.certificateNumber.trim() || null,
+      jurisdictionId: formData.jurisdictionId || null,
+      effectiveDate: formData.effectiveDate,
+      expiresOn: formData.expiresOn || null,
+      notes: formData.notes.trim() || null,
+    };
+
+    try {
+      if (editing) {
+        await updateMutation.mutateAsync({ id: editing.id, data: input });
+        toast.success('Updated', 'Exemption certificate updated');
+      } else {
+        await createMutation.mutateAsync(input);
+        toast.success('Added', 'Exemption certificate added');
+      }
+      closeModal();
+    } catch (err) {
+      console.error('Failed to save exemption certificate:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save exemption certificate');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteMutation.mutateAsync(toDelete.id);
+      toast.success('Deleted', 'Exemption certificate removed');
+    } catch (err) {
+      console.error('Failed to delete exemption certificate:', err);
+      toast.error('Error', 'Failed to delete exemption certificate');
+    }
+    setToDelete(null);
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <>
+      <CollapsibleSection
+        title="Tax Exemptions"
+        icon={ShieldCheck}
+        badge={currentCount > 0 ? currentCount : undefined}
+        defaultOpen={currentCount > 0}
+        action={
+          canEdit && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                openModal(null);
+              }}
+              className="p-1 text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-800 rounded transition-colors"
+              title="Add exemption certificate"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          )
+        }
+      >
+        {exemptions.length === 0 ? (
+          <div className="text-center py-6 text-slate-400">
+            <ShieldCheck className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No exemption certificates; this company is taxed</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {exemptions.map((exemption) => (
+              <div
+                key={exemption.id}
+                className={clsx(
+                  'group flex items-start gap-3 p-2 rounded-lg',
+                  !exemption.isCurrent && 'opacity-60'
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-slate-900 dark:text-white">
+                    {exemption.certificateType}
+                    {exemption.certificateNumber && ` #${exemption.certificateNumber}`}
+                    <span
+                      className={clsx(
+                        'ml-2 text-xs font-normal',
+                        exemption.isCurrent ? 'text-success-600 dark:text-success-400' : 'text-slate-500'
+                      )}
+                    >
+                      {exemption.isCurrent ? 'In force' : 'Not in force'}
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {exemption.jurisdictionName ?? 'All jurisdictions'} · from {exemption.effectiveDate}
+                    {exemption.expiresOn ? ` to ${exemption.expiresOn}` : ', no expiry'}
+                  </div>
+                  {exemption.notes && <div className="text-xs text-slate-500 mt-0.5">{exemption.notes}</div>}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => openModal(exemption)}
+                      className="p-1 text-slate-300 hover:text-brand-600 rounded"
+                      title="Edit"
+                    >
+                      <Edit className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => setToDelete(exemption)}
+                      className="p-1 text-slate-300 hover:text-danger-600 rounded"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CollapsibleSection>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editing ? 'Edit Exemption Certificate' : 'Add Exemption Certificate'}
+      >
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Certificate type *"
+              value={formData.certificateType}
+              onChange={(e) => setFormData({ ...formData, certificateType: e.target.value })}
+              list="tax-certificate-types"
+              placeholder="e.g. ST-124"
+              required
+            />
+            <Input
+              label="Certificate number"
+              value={formData.certificateNumber}
+              onChange={(e) => setFormData({ ...formData, certificateNumber: e.target.value })}
+            />
+          </div>
+          <datalist id="tax-certificate-types">
+            {CERTIFICATE_TYPES.map((type) => <option key={type} value={type} />)}
+          </datalist>
+          <Select
+            label="Jurisdiction"
+            value={formData.jurisdictionId}
+            onChange={(e) => setFormData({ ...formData, jurisdictionId: e.target.value })}
+            options={[
+              { value: '', label: 'All jurisdictions' },
+              ...jurisdictions.map((j) => ({ value: j.id, label: j.name })),
+            ]}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Effective *"
+              type="date"
+              value={formData.effectiveDate}
+              onChange={(e) => setFormData({ ...formData, effectiveDate: e.target.value })}
+              required
+            />
+            <Input
+              label="Expires"
+              type="date"
+              value={formData.expiresOn}
+              onChange={(e) => setFormData({ ...formData, expiresOn: e.target.value })}
+            />
+          </div>
+          <Textarea
+            label="Notes"
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            rows={2}
+          />
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="secondary" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : editing ? 'Save' : 'Add Certificate'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <ConfirmModal
+        isOpen={!!toDelete}
+        onClose={() => setToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Exemption Certificate"
+        message={`Remove ${toDelete?.certificateType ?? 'this certificate'}? Documents already saved keep their tax.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </>
+  );
+}
@@ -0,0 +1,436 @@
+// ============================================================================
+// VendorComplianceSection Component
+// Location: src/components/panels/customers/VendorComplianceSection.tsx
+//
+// Paperwork for subcontractors and suppliers: the W-9 and certificates of
+// insurance on file, and the prequalification checklist. A subcontractor is
+// compliant with a W-9 and current general liability and workers' comp
+// certificates, and prequalified once the checklist is also done.
+// ============================================================================
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { FileCheck, ClipboardCheck, Plus, Edit, Trash2, Loader2 } from 'lucide-react';
+import { Button, Input, Modal, ConfirmModal, Select, Textarea, CollapsibleSection } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useCompanyCompliance,
+  useCreateComplianceDocument,
+  useUpdateComplianceDocument,
+  useDeleteComplianceDocument,
+  useSetPrequalificationItem,
+  COVERAGE_LABELS,
+  PREQUALIFICATION_LABELS,
+  type ComplianceDocument,
+  type ComplianceDocumentInput,
+  type ComplianceDocumentType,
+  type ComplianceSummary,
+  type CoverageType,
+  type CoverageState,
+  type PrequalificationChecklistItem,
+} from '@/services/api';
+import { usePermission } from '@/hooks';
+
+const STATUS_LABELS: Record<ComplianceSummary['status'], string> = {
+  compliant: 'Compliant',
+  expiring: 'Insurance expiring',
+  non_compliant: 'Not compliant',
+};
+
+const STATUS_CLASSES: Record<ComplianceSummary['status'], string> = {
+  compliant: 'bg-success-100 text-success-700 dark:bg-success-900/30 dark:text-success-400',
+  expiring: 'bg-warning-100 text-warning-700 dark:bg-warning-900/30 dark:text-warning-400',
+  non_compliant: 'bg-danger-100 text-danger-700 dark:bg-danger-900/30 dark:text-danger-400',
+};
+
+const COVERAGE_STATE_CLASSES: Record<CoverageState, string> = {
+  current: 'text-success-600 dark:text-success-400',
+  expiring: 'text-warning-600 dark:text-warning-400',
+  expired: 'text-danger-600 dark:text-danger-400',
+  missing: 'text-danger-600 dark:text-danger-400',
+};
+
+export function ComplianceStatusBadge({ summary }: { summary: ComplianceSummary }) {
+  return (
+    <span className={clsx('inline-flex px-2 py-0.5 text-xs font-medium rounded-full', STATUS_CLASSES[summary.status])}>
+      {summary.prequalified ? 'Prequalified' : STATUS_LABELS[summary.status]}
+    </span>
+  );
+}
+
+function coverageStateText(state: CoverageState, expiryDate: string | null, daysLeft: number | null): string {
+  switch (state) {
+    case 'missing':
+      return 'Not on file';
+    case 'expired':
+      return `Lapsed ${expiryDate}`;
+    case 'expiring':
+      return `Expires ${expiryDate} (${daysLeft} day${daysLeft === 1 ? '' : 's'})`;
+    case 'current':
+      return `Through ${expiryDate}`;
+  }
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
+
+interface FormData {
+  documentType: ComplianceDocumentType;
+  coverageType: CoverageType;
+  carrier: string;
+  policyNumber: string;
+  coverageAmount: string;
+  effectiveDate: string;
+  expiryDate: string;
+  notes: string;
+}
+
+function toForm(document: ComplianceDocument | null): FormData {
+  return {
+    documentType: document?.documentType ?? 'coi',
+    coverageType: document?.coverageType ?? 'general_liability',
+    carrier: document?.carrier ?? '',
+    policyNumber: document?.policyNumber ?? '',
+    coverageAmount: document?.coverageAmount != null ? String(document.coverageAmount) : '',
+    effectiveDate: document?.effectiveDate ?? new Date().toISOString().split('T')[0]!,
+    expiryDate: document?.expiryDate ?? '',
+    notes: document?.notes ?? '',
+  };
+}
+
+function describeDocument(document: ComplianceDocument): string {
+  if (document.documentType === 'w9') return 'W-9';
+  return `${document.coverageType ? COVERAGE_LABELS[document.coverageType] : 'Insurance'} certificate`;
+}
+
+interface VendorComplianceSectionProps {
+  companyId: string;
+  // Only subcontractors are held to the required coverages
+  isSubcontractor: boolean;
+}
+
+export function VendorComplianceSection({ companyId, isSubcontractor }: VendorComplianceSectionProps) {
+  const canEdit = usePermission('customers:edit');
+  const toast = useToast();
+
+  const [editing, setEditing] = useState<ComplianceDocument | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<FormData>(toForm(null));
+  const [toDelete, setToDelete] = useState<ComplianceDocument | null>(null);
+
+  const { data } = useCompanyCompliance(companyId);
+  const createMutation = useCreateComplianceDocument(companyId);
+  const updateMutation = useUpdateComplianceDocument(companyId);
+  const deleteMutation = useDeleteComplianceDocument(companyId);
+  const checklistMutation = useSetPrequalificationItem(companyId);
+
+  const compliance = data?.data;
+  const documents = compliance?.documents ?? [];
+  const checklist = compliance?.checklist ?? [];
+  const summary = compliance?.summary;
+
+  const openModal = (document: ComplianceDocument | null) => {
+    setEditing(document);
+    setFormData(toForm(document));
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditing(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const isCertificate = formData.documentType === 'coi';
+    const input: ComplianceDocumentInput = {
+      documentType: formData.documentType,
+      coverageType: isCertificate ? formData.coverageType : null,
+      carrier: isCertificate ? formData.carrier.trim() || null : null,
+      policyNumber: isCertificate ? formData.policyNumber.trim() || null : null,
+      coverageAmount: isCertificate && formData.coverageAmount ? parseFloat(formData.coverageAmount) : null,
+      effectiveDate: formData.effectiveDate,
+      expiryDate: isCertificate ? formData.expiryDate || null : null,
+      notes: formData.notes.trim() || null,
+    };
+
+    try {
+      if (editing) {
+        const { documentType: _documentType, ...changes } = input;
+        await updateMutation.mutateAsync({ id: editing.id, data: changes });
+        toast.success('Updated', `${describeDocument(editing)} updated`);
+      } else {
+        await createMutation.mutateAsync(input);
+        toast.success('Added', isCertificate ? 'Certificate of insurance added' : 'W-9 added');
+      }
+      closeModal();
+    } catch (err) {
+      console.error('Failed to save compliance document:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save document');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteMutation.mutateAsync(toDelete.id);
+      toast.success('Deleted', `${describeDocument(toDelete)} removed`);
+    } catch (err) {
+      console.error('Failed to delete compliance document:', err);
+      toast.error('Error', 'Failed to delete document');
+    }
+    setToDelete(null);
+  };
+
+  const toggleItem = async (item: PrequalificationChecklistItem) => {
+    try {
+      await checklistMutation.mutateAsync({ item: item.item, completed: !item.completed });
+    } catch (err) {
+      console.error('Failed to update checklist:', err);
+      toast.error('Error', 'Failed to update checklist');
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+  const isCertificate = formData.documentType === 'coi';
+
+  return (
+    <>
+      <CollapsibleSection
+        title="Insurance & W-9"
+        icon={FileCheck}
+        badge={isSubcontractor && summary ? STATUS_LABELS[summary.status] : documents.length || undefined}
+        defaultOpen={isSubcontractor && summary?.status !== 'compliant'}
+        action={
+          canEdit && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                openModal(null);
+              }}
+              className="p-1 text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-800 rounded transition-colors"
+              title="Add W-9 or certificate"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          )
+        }
+      >
+        {isSubcontractor && summary && (
+          <div className="mb-3 p-3 rounded-lg bg-slate-50 dark:bg-slate-800/50 space-y-1.5">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wide">
+                Required
+              </span>
+              <ComplianceStatusBadge summary={summary} />
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500">W-9</span>
+              <span className={summary.w9OnFile ? COVERAGE_STATE_CLASSES.current : COVERAGE_STATE_CLASSES.missing}>
+                {summary.w9OnFile ? 'On file' : 'Not on file'}
+              </span>
+            </div>
+            {summary.coverages.map((coverage) => (
+              <div key={coverage.coverageType} className="flex justify-between text-sm">
+                <span className="text-slate-500">{COVERAGE_LABELS[coverage.coverageType]}</span>
+                <span className={COVERAGE_STATE_CLASSES[coverage.status]}>
+                  {coverageStateText(coverage.status, coverage.expiryDate, coverage.daysLeft)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {documents.length === 0 ? (
+          <div className="text-center py-6 text-slate-400">
+            <FileCheck className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No W-9 or certificates of insurance on file</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {documents.map((document) => (
+              <div key={document.id} className="group flex items-start gap-3 p-2 rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-slate-900 dark:text-white">
+                    {describeDocument(document)}
+                    {document.policyNumber && ` #${document.policyNumber}`}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {document.documentType === 'w9'
+                      ? `Signed ${document.effectiveDate}`
+                      : [
+                          document.carrier,
+                          document.coverageAmount != null ? formatMoney(document.coverageAmount) : null,
+                          `${document.effectiveDate} to ${document.expiryDate}`,
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                  </div>
+                  {document.notes && <div className="text-xs text-slate-500 mt-0.5">{document.notes}</div>}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => openModal(document)}
+                      className="p-1 text-slate-300 hover:text-brand-600 rounded"
+                      title="Edit"
+                    >
+                      <Edit className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => setToDelete(document)}
+                      className="p-1 text-slate-300 hover:text-danger-600 rounded"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CollapsibleSection>
+
+      {isSubcontractor && (
+        <CollapsibleSection
+          title="Prequalification"
+          icon={ClipboardCheck}
+          badge={summary ? `${summary.checklistComplete}/${summary.checklistTotal}` : undefined}
+          defaultOpen={!!summary && summary.checklistComplete < summary.checklistTotal}
+        >
+          <div className="space-y-2">
+            {checklist.map((item) => (
+              <label
+                key={item.item}
+                className={clsx('flex items-start gap-2 p-1 text-sm', canEdit ? 'cursor-pointer' : 'cursor-default')}
+              >
+                <input
+                  type="checkbox"
+                  checked={item.completed}
+                  disabled={!canEdit || checklistMutation.isPending}
+                  onChange={() => toggleItem(item)}
+                  className="mt-0.5 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                />
+                <span className="flex-1">
+                  <span className={clsx(item.completed ? 'text-slate-900 dark:text-white' : 'text-slate-600 dark:text-slate-400')}>
+                    {PREQUALIFICATION_LABELS[item.item]}
+                  </span>
+                  {item.completed && item.completedAt && (
+                    <span className="block text-xs text-slate-400">
+                      {item.completedByName ? `${item.completedByName}, ` : ''}
+                      {new Date(item.completedAt).toLocaleDateString()}
+                    </span>
+                  )}
+                </span>
+              </label>
+            ))}
+            {summary && !summary.prequalified && summary.checklistComplete === summary.checklistTotal && (
+              <p className="text-xs text-warning-600 dark:text-warning-400">
+                Checklist done; prequalified once the W-9 and required insurance are on file and current
+              </p>
+            )}
+          </div>
+        </CollapsibleSection>
+      )}
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editing ? `Edit ${describeDocument(editing)}` : 'Add W-9 or Certificate'}
+      >
+        <form onSubmit={handleSave} className="space-y-4">
+          {!editing && (
+            <Select
+              label="Document"
+              value={formData.documentType}
+              onChange={(e) => setFormData({ ...formData, documentType: e.target.value as ComplianceDocumentType })}
+              options={[
+                { value: 'coi', label: 'Certificate of insurance' },
+                { value: 'w9', label: 'W-9' },
+              ]}
+            />
+          )}
+          {isCertificate && (
+            <>
+              <Select
+                label="Coverage *"
+                value={formData.coverageType}
+                onChange={(e) => setFormData({ ...formData, coverageType: e.target.value as CoverageType })}
+                options={(Object.keys(COVERAGE_LABELS) as CoverageType[]).map((type) => ({
+                  value: type,
+                  label: COVERAGE_LABELS[type],
+                }))}
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  label="Carrier"
+                  value={formData.carrier}
+                  onChange={(e) => setFormData({ ...formData, carrier: e.target.value })}
+                />
+                <Input
+                  label="Policy number"
+                  value={formData.policyNumber}
+                  onChange={(e) => setFormData({ ...formData, policyNumber: e.target.value })}
+                />
+              </div>
+              <Input
+                label="Coverage limit"
+                type="number"
+                min="0"
+                step="1000"
+                value={formData.coverageAmount}
+                onChange={(e) => setFormData({ ...formData, coverageAmount: e.target.value })}
+                placeholder="e.g. 1000000"
+              />
+            </>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label={isCertificate ? 'Effective *' : 'Signed *'}
+              type="date"
+              value={formData.effectiveDate}
+              onChange={(e) => setFormData({ ...formData, effectiveDate: e.target.value })}
+              required
+            />
+            {isCertificate && (
+              <Input
+                label="Expires *"
+                type="date"
+                value={formData.expiryDate}
+                onChange={(e) => setFormData({ ...formData, expiryDate: e.target.value })}
+                required
+              />
+            )}
+          </div>
+          <Textarea
+            label="Notes"
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            rows={2}
+          />
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="secondary" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : editing ? 'Save' : 'Add'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <ConfirmModal
+        isOpen={!!toDelete}
+        onClose={() => setToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Document"
+        message={`Remove the ${toDelete ? describeDocument(toDelete) : 'document'} from this company's file?`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </>
+  );
+}
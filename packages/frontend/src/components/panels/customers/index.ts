@@ -1,4 +1,4 @@
 export { CompaniesPage } from './CompaniesPage';
 export { ContactsPage } from './ContactsPage';
 export { CompanyDetailPage } from './CompanyDetailPage';
-export { ContactDetailPage } from './ContactDetailPage';
\ No newline at end of file
+export { ContactDetailPage } from './ContactDetailPage';export { ComplianceStatusBadge } from './VendorComplianceSection';
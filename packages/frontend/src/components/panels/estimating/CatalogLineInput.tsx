@@ -0,0 +1,141 @@
+// ============================================================================
+// CatalogLineInput Component
+// Location: src/components/panels/estimating/CatalogLineInput.tsx
+//
+// Description field for an estimate line with type-ahead from the catalog.
+// Typing searches catalog names and SKUs; picking a match hands the item to
+// the caller, which copies its description, unit and price onto the line.
+// Anything else typed stays a free-text description.
+// ============================================================================
+
+import { useState, useEffect, useRef } from 'react';
+import { clsx } from 'clsx';
+import { Package } from 'lucide-react';
+import { useCatalogItems, type CatalogItem } from '@/services/api';
+import { useDropdownKeyboard } from '@/hooks';
+
+interface CatalogLineInputProps {
+  /** Line description */
+  value: string;
+  /** Free-text change */
+  onChange: (value: string) => void;
+  /** A catalog item was picked */
+  onPick: (item: CatalogItem) => void;
+  placeholder?: string;
+  required?: boolean;
+  className?: string;
+}
+
+// Characters typed before the catalog is searched
+const MIN_SEARCH_LENGTH = 2;
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function CatalogLineInput({
+  value,
+  onChange,
+  onPick,
+  placeholder = 'Description or search catalog',
+  required,
+  className,
+}: CatalogLineInputProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(value.trim()), 200);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const enabled = isOpen && search.length >= MIN_SEARCH_LENGTH;
+  const { data } = useCatalogItems({ search, limit: 8 }, enabled);
+  const matches = enabled ? data?.data ?? [] : [];
+
+  const pick = (item: CatalogItem) => {
+    onPick(item);
+    setIsOpen(false);
+  };
+
+  const { highlightedIndex, setHighlightedIndex, handleKeyDown, resetHighlight } = useDropdownKeyboard({
+    items: matches,
+    isOpen: isOpen && matches.length > 0,
+    onSelect: (item) => pick(item),
+    onClose: () => setIsOpen(false),
+  });
+
+  // The hook selects on Space and swallows Enter; here both must keep typing
+  // and submitting unless a suggestion is highlighted
+  const handleInputKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === ' ' || (e.key === 'Enter' && highlightedIndex < 0)) return;
+    handleKeyDown(e);
+  };
+
+  // Click outside closes the suggestions
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+        resetHighlight();
+      }
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [resetHighlight]);
+
+  return (
+    <div ref={containerRef} className={clsx('relative', className)}>
+      <input
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          resetHighlight();
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleInputKeyDown}
+        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg
+          bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm
+          focus:outline-none focus:ring-2 focus:ring-brand-500"
+        required={required}
+        autoComplete="off"
+      />
+
+      {isOpen && matches.length > 0 && (
+        <div className="absolute top-full left-0 right-0 mt-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg z-50 max-h-64 overflow-y-auto">
+          {matches.map((item, index) => (
+            <button
+              key={item.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(item)}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={clsx(
+                'w-full px-3 py-2 text-left flex items-center gap-3 text-sm',
+                index === highlightedIndex
+                  ? 'bg-brand-50 dark:bg-brand-900/30'
+                  : 'hover:bg-slate-50 dark:hover:bg-slate-700'
+              )}
+            >
+              <Package className="w-4 h-4 flex-shrink-0 text-slate-400" />
+              <div className="flex-1 min-w-0">
+                <p className="text-slate-900 dark:text-white truncate">{item.name}</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                  {[item.sku, item.category].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <span className="text-xs text-slate-600 dark:text-slate-300 whitespace-nowrap">
+                {money(item.unitPrice)} / {item.unit}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
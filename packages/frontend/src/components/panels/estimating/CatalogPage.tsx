@@ -0,0 +1,392 @@
+// ============================================================================
+// CatalogPage Component
+// Location: src/components/panels/estimating/CatalogPage.tsx
+//
+// The products and services estimators price from: SKU, unit of measure,
+// price, cost and category. Estimate lines copy an item when it is picked,
+// so changing a price here only affects lines added afterwards. Items used
+// by a template are archived instead of deleted.
+// ============================================================================
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Plus, Package, Search, Edit, Trash2, RotateCcw, Loader2 } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Input, Modal, ConfirmModal, DataTable, SelectFilter, type DataTableColumn } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useCatalogItems,
+  useCatalogCategories,
+  useCreateCatalogItem,
+  useUpdateCatalogItem,
+  useDeleteCatalogItem,
+  type CatalogItem,
+  type CatalogItemInput,
+} from '@/services/api';
+import { useDocumentTitle, usePermission } from '@/hooks';
+
+interface FormData {
+  sku: string;
+  name: string;
+  description: string;
+  unit: string;
+  unitPrice: string;
+  unitCost: string;
+  category: string;
+}
+
+// Common units of measure, offered as suggestions
+const UNIT_SUGGESTIONS = ['ea', 'hr', 'day', 'sq ft', 'lf', 'cy', 'ton', 'gal', 'ls'];
+
+const emptyForm: FormData = {
+  sku: '',
+  name: '',
+  description: '',
+  unit: 'ea',
+  unitPrice: '',
+  unitCost: '',
+  category: '',
+};
+
+function toForm(item: CatalogItem): FormData {
+  return {
+    sku: item.sku ?? '',
+    name: item.name,
+    description: item.description ?? '',
+    unit: item.unit,
+    unitPrice: String(item.unitPrice),
+    unitCost: item.unitCost === null ? '' : String(item.unitCost),
+    category: item.category ?? '',
+  };
+}
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function CatalogPage() {
+  useDocumentTitle('Catalog');
+  const canEdit = usePermission('estimating:edit');
+  const canSeeCosts = usePermission('estimating:costs');
+  const toast = useToast();
+
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [editing, setEditing] = useState<CatalogItem | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<FormData>(emptyForm);
+  const [itemToDelete, setItemToDelete] = useState<CatalogItem | null>(null);
+
+  const { data, isLoading } = useCatalogItems({
+    search: search.trim() || undefined,
+    category: category || undefined,
+    includeArchived: showArchived,
+  });
+  const { data: categoriesData } = useCatalogCategories();
+  const createMutation = useCreateCatalogItem();
+  const updateMutation = useUpdateCatalogItem();
+  const deleteMutation = useDeleteCatalogItem();
+
+  const items = data?.data ?? [];
+  const categories = categoriesData?.data ?? [];
+
+  const openModal = (item: CatalogItem | null) => {
+    setEditing(item);
+    setFormData(item ? toForm(item) : emptyForm);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditing(null);
+  };
+
+  const updateField = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: CatalogItemInput = {
+      sku: formData.sku.trim() || null,
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      unit: formData.unit.trim() || 'ea',
+      unitPrice: parseFloat(formData.unitPrice) || 0,
+      // Left unchanged by those who can't see it
+      unitCost: !canSeeCosts ? undefined : formData.unitCost.trim() ? parseFloat(formData.unitCost) : null,
+      category: formData.category.trim() || null,
+    };
+
+    try {
+      if (editing) {
+        await updateMutation.mutateAsync({ id: editing.id, data: input });
+        toast.success('Updated', `${input.name} has been updated`);
+      } else {
+        await createMutation.mutateAsync(input);
+        toast.success('Created', `${input.name} was added to the catalog`);
+      }
+      closeModal();
+    } catch (err) {
+      console.error('Failed to save catalog item:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save catalog item');
+    }
+  };
+
+  const handleRestore = async (item: CatalogItem) => {
+    try {
+      await updateMutation.mutateAsync({ id: item.id, data: { isActive: true } });
+      toast.success('Restored', `${item.name} is back in the catalog`);
+    } catch (err) {
+      console.error('Failed to restore catalog item:', err);
+      toast.error('Error', 'Failed to restore catalog item');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!itemToDelete) return;
+    try {
+      const response = await deleteMutation.mutateAsync(itemToDelete.id);
+      toast.success(
+        response.data?.archived ? 'Archived' : 'Deleted',
+        response.data?.archived
+          ? `${itemToDelete.name} is used by a template, so it was archived`
+          : `${itemToDelete.name} was removed from the catalog`
+      );
+    } catch (err) {
+      console.error('Failed to delete catalog item:', err);
+      toast.error('Error', 'Failed to delete catalog item');
+    }
+    setItemToDelete(null);
+  };
+
+  const columns: DataTableColumn<CatalogItem>[] = [
+    {
+      key: 'name',
+      header: 'Item',
+      render: (item) => (
+        <div className={clsx(!item.isActive && 'opacity-50')}>
+          <p className="font-medium text-slate-900 dark:text-white">
+            {item.name}
+            {!item.isActive && <span className="ml-2 text-xs font-normal text-slate-500">Archived</span>}
+          </p>
+          {item.description && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 truncate max-w-md">{item.description}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'sku',
+      header: 'SKU',
+      render: (item) => <span className="text-sm text-slate-600 dark:text-slate-300">{item.sku ?? '—'}</span>,
+    },
+    {
+      key: 'category',
+      header: 'Category',
+      hideOnMobile: true,
+      render: (item) => <span className="text-sm text-slate-600 dark:text-slate-300">{item.category ?? '—'}</span>,
+    },
+    {
+      key: 'unitPrice',
+      header: 'Price',
+      align: 'right',
+      render: (item) => (
+        <span className="text-sm text-slate-900 dark:text-white whitespace-nowrap">
+          {money(item.unitPrice)} <span className="text-slate-400">/ {item.unit}</span>
+        </span>
+      ),
+    },
+    ...(canSeeCosts ? [{
+      key: 'unitCost',
+      header: 'Cost',
+      align: 'right' as const,
+      hideOnMobile: true,
+      render: (item: CatalogItem) => (
+        <span className="text-sm text-slate-600 dark:text-slate-300">
+          {item.unitCost === null ? '—' : money(item.unitCost)}
+        </span>
+      ),
+    }] : []),
+    ...(canEdit ? [{
+      key: 'actions',
+      header: '',
+      align: 'right' as const,
+      render: (item: CatalogItem) => (
+        <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+          {item.isActive ? (
+            <>
+              <button
+                onClick={() => openModal(item)}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                title="Edit"
+              >
+                <Edit className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setItemToDelete(item)}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-danger-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => handleRestore(item)}
+              className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+              title="Restore"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ),
+    }] : []),
+  ];
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Page
+      title="Catalog"
+      description="Products and services with SKU, unit, price and cost for quick estimate lines."
+      actions={
+        canEdit && (
+          <Button variant="primary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => openModal(null)}>
+            New Item
+          </Button>
+        )
+      }
+    >
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <div className="w-full max-w-sm">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name or SKU..."
+            leftIcon={<Search className="w-4 h-4" />}
+          />
+        </div>
+        <SelectFilter
+          label="Category"
+          value={category}
+          onChange={setCategory}
+          options={categories.map((c) => ({ value: c, label: c }))}
+          allLabel="All categories"
+        />
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+          Show archived
+        </label>
+      </div>
+
+      <DataTable
+        data={items}
+        columns={columns}
+        rowKey={(item) => item.id}
+        onRowClick={canEdit ? (item) => item.isActive && openModal(item) : undefined}
+        loading={isLoading}
+        emptyState={
+          <div className="text-center py-12">
+            <Package className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">
+              {search || category ? 'No matching items' : 'The catalog is empty'}
+            </h3>
+            <p className="text-slate-500 dark:text-slate-400">
+              {search || category ? 'Try different filters.' : 'Add the products and services you estimate most.'}
+            </p>
+          </div>
+        }
+      />
+
+      {/* Create / edit */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editing ? 'Edit Catalog Item' : 'New Catalog Item'}
+        size="lg"
+      >
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <Input label="Name *" value={formData.name} onChange={(e) => updateField('name', e.target.value)} required />
+            </div>
+            <Input label="SKU" value={formData.sku} onChange={(e) => updateField('sku', e.target.value)} />
+          </div>
+          <Input
+            label="Line description"
+            value={formData.description}
+            onChange={(e) => updateField('description', e.target.value)}
+            placeholder="Printed on estimates; the name is used when empty"
+          />
+          <div className={clsx('grid gap-3', canSeeCosts ? 'grid-cols-3' : 'grid-cols-2')}>
+            <Input
+              label="Unit *"
+              value={formData.unit}
+              onChange={(e) => updateField('unit', e.target.value)}
+              list="catalog-units"
+              required
+            />
+            <Input
+              label="Price *"
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.unitPrice}
+              onChange={(e) => updateField('unitPrice', e.target.value)}
+              required
+            />
+            {canSeeCosts && (
+              <Input
+                label="Cost"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.unitCost}
+                onChange={(e) => updateField('unitCost', e.target.value)}
+              />
+            )}
+          </div>
+          <Input
+            label="Category"
+            value={formData.category}
+            onChange={(e) => updateField('category', e.target.value)}
+            list="catalog-categories"
+          />
+          <datalist id="catalog-units">
+            {UNIT_SUGGESTIONS.map((unit) => <option key={unit} value={unit} />)}
+          </datalist>
+          <datalist id="catalog-categories">
+            {categories.map((c) => <option key={c} value={c} />)}
+          </datalist>
+          {editing && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Price changes apply to lines added from now on; existing estimates keep their prices.
+            </p>
+          )}
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="secondary" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : editing ? 'Save' : 'Add Item'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <ConfirmModal
+        isOpen={!!itemToDelete}
+        onClose={() => setItemToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Catalog Item"
+        message={`Remove "${itemToDelete?.name}" from the catalog? Estimates that already use it are not affected.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Page>
+  );
+}
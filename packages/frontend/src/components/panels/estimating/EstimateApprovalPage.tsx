@@ -0,0 +1,276 @@
+// ============================================================================
+// EstimateApprovalPage Component
+// Location: src/components/panels/estimating/EstimateApprovalPage.tsx
+//
+// Public page behind a client approval link (/approve/:token). Shows the
+// revision that was sent and lets the client approve or reject it by typing
+// their name as a signature. Rendered outside the signed-in app: no layout,
+// no auth and none of the app's startup data.
+// ============================================================================
+
+import { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { clsx } from 'clsx';
+import { CheckCircle, XCircle, FileDown, Loader2, AlertCircle, FileText } from 'lucide-react';
+import { Button, Input, Textarea } from '@/components/common';
+import {
+  usePublicEstimateApproval,
+  usePublicEstimateDecision,
+  fetchPublicEstimatePdf,
+  formatTaxRate,
+  type ApprovalDecisionInput,
+} from '@/services/api';
+import { useDocumentTitle } from '@/hooks';
+import { formatDate } from '@/utils/dateUtils';
+import { openPdfInNewTab } from '@/utils/pdfUtils';
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function EstimateApprovalPage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const { data, isLoading, error } = usePublicEstimateApproval(token);
+  const decisionMutation = usePublicEstimateDecision(token);
+
+  const [decision, setDecision] = useState<ApprovalDecisionInput['decision'] | null>(null);
+  const [signatureName, setSignatureName] = useState('');
+  const [note, setNote] = useState('');
+  const [agreed, setAgreed] = useState(false);
+  const [pdfError, setPdfError] = useState<string | null>(null);
+
+  const estimate = data?.data;
+  useDocumentTitle(estimate ? `Estimate ${estimate.estimateNumber}` : 'Estimate');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!decision) return;
+    await decisionMutation
+      .mutateAsync({ decision, signatureName: signatureName.trim(), note: note.trim() || undefined })
+      .catch(() => undefined);
+  };
+
+  const handleViewPdf = () => {
+    setPdfError(null);
+    openPdfInNewTab(() => fetchPublicEstimatePdf(token)).catch(() => {
+      setPdfError('The PDF could not be generated. Please try again.');
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900">
+        <Loader2 className="w-8 h-8 animate-spin text-brand-600" />
+      </div>
+    );
+  }
+
+  if (error || !estimate) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 p-4">
+        <div className="max-w-md text-center">
+          <AlertCircle className="w-10 h-10 mx-auto text-slate-400" />
+          <h1 className="mt-4 text-lg font-semibold text-slate-900 dark:text-white">This link is no longer valid</h1>
+          <p className="mt-2 text-sm text-slate-500 dark:text-slate-400">
+            It may have been replaced by a newer version of the estimate. Please contact us for an up-to-date link.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = estimate.status === 'open' && !estimate.expired;
+  const canSubmit = !!decision && signatureName.trim().length >= 2 && (decision === 'reject' || agreed);
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 py-8 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <div className="w-12 h-12 rounded-xl bg-brand-100 dark:bg-brand-900/30 flex items-center justify-center">
+              <FileText className="w-6 h-6 text-brand-600 dark:text-brand-400" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-slate-900 dark:text-white">
+                Estimate {estimate.estimateNumber}
+                <span className="ml-2 text-sm font-normal text-slate-500 dark:text-slate-400">
+                  Rev {estimate.revisionLabel}
+                </span>
+              </h1>
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                {estimate.title}
+                {estimate.clientName ? ` · ${estimate.clientName}` : ''}
+                {estimate.projectName ? ` · ${estimate.projectName}` : ''}
+              </p>
+              {estimate.validUntil && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  Valid until {formatDate(estimate.validUntil)}
+                </p>
+              )}
+            </div>
+          </div>
+          <Button variant="secondary" leftIcon={<FileDown className="w-4 h-4" />} onClick={handleViewPdf}>
+            PDF
+          </Button>
+        </div>
+        {pdfError && <p className="text-sm text-danger-600">{pdfError}</p>}
+
+        {estimate.description && (
+          <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-line">{estimate.description}</p>
+        )}
+
+        {/* Line items */}
+        <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-900/50 text-xs text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">Description</th>
+                <th className="px-4 py-2 text-right font-medium">Qty</th>
+                <th className="px-4 py-2 text-right font-medium">Unit Price</th>
+                <th className="px-4 py-2 text-right font-medium">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-700 text-slate-900 dark:text-white">
+              {estimate.lineItems.map((item, index) => (
+                <tr key={index}>
+                  <td className="px-4 py-2">{item.description}</td>
+                  <td className="px-4 py-2 text-right">{item.quantity}</td>
+                  <td className="px-4 py-2 text-right">{money(item.unitPrice)}</td>
+                  <td className="px-4 py-2 text-right">{money(item.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="text-slate-700 dark:text-slate-300">
+              <tr className="border-t border-slate-200 dark:border-slate-700">
+                <td colSpan={3} className="px-4 py-1.5 text-right">Subtotal</td>
+                <td className="px-4 py-1.5 text-right">{money(estimate.subtotal)}</td>
+              </tr>
+              {estimate.taxBreakdown.map((line) => (
+                <tr key={line.name}>
+                  <td colSpan={3} className="px-4 py-1.5 text-right">
+                    {line.name} ({formatTaxRate(line.rate)})
+                  </td>
+                  <td className="px-4 py-1.5 text-right">{money(line.amount)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold text-slate-900 dark:text-white">
+                <td colSpan={3} className="px-4 py-2 text-right">Total</td>
+                <td className="px-4 py-2 text-right">{money(estimate.total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        {estimate.terms && (
+          <div>
+            <h2 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Terms</h2>
+            <p className="text-sm text-slate-600 dark:text-slate-400 whitespace-pre-line">{estimate.terms}</p>
+          </div>
+        )}
+
+        {/* Decision */}
+        {estimate.status === 'approved' || estimate.status === 'rejected' ? (
+          <div className={clsx(
+            'flex items-center gap-3 p-4 rounded-xl',
+            estimate.status === 'approved'
+              ? 'bg-success-50 text-success-700 dark:bg-success-900/20 dark:text-success-400'
+              : 'bg-danger-50 text-danger-700 dark:bg-danger-900/20 dark:text-danger-400'
+          )}>
+            {estimate.status === 'approved' ? <CheckCircle className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+            <p className="text-sm">
+              {estimate.status === 'approved' ? 'Approved' : 'Declined'} by {estimate.signatureName}
+              {estimate.decidedAt ? ` on ${new Date(estimate.decidedAt).toLocaleString()}` : ''}. Thank you.
+            </p>
+          </div>
+        ) : !isOpen ? (
+          <div className="flex items-center gap-3 p-4 rounded-xl bg-warning-50 text-warning-700 dark:bg-warning-900/20 dark:text-warning-400">
+            <AlertCircle className="w-5 h-5" />
+            <p className="text-sm">This approval link has expired. Please contact us for an up-to-date link.</p>
+          </div>
+        ) : (
+          <form
+            onSubmit={handleSubmit}
+            className="space-y-4 p-4 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl"
+          >
+            <div className="flex gap-3">
+              <Button
+                type="button"
+                variant={decision === 'approve' ? 'primary' : 'secondary'}
+                leftIcon={<CheckCircle className="w-4 h-4" />}
+                onClick={() => setDecision('approve')}
+                className="flex-1"
+              >
+                Approve
+              </Button>
+              <Button
+                type="button"
+                variant={decision === 'reject' ? 'danger' : 'secondary'}
+                leftIcon={<XCircle className="w-4 h-4" />}
+                onClick={() => setDecision('reject')}
+                className="flex-1"
+              >
+                Decline
+              </Button>
+            </div>
+
+            {decision && (
+              <>
+                <Input
+                  label="Type your full name to sign *"
+                  value={signatureName}
+                  onChange={(e) => setSignatureName(e.target.value)}
+                  autoComplete="name"
+                />
+                {signatureName.trim() && (
+                  <p className="text-2xl text-slate-800 dark:text-slate-200 italic font-serif border-b border-slate-300 dark:border-slate-600 pb-1">
+                    {signatureName}
+                  </p>
+                )}
+                <Textarea
+                  label={decision === 'reject' ? 'Reason (optional)' : 'Note (optional)'}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={2}
+                />
+                {decision === 'approve' && (
+                  <label className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={agreed}
+                      onChange={(e) => setAgreed(e.target.checked)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      I approve estimate {estimate.estimateNumber} rev {estimate.revisionLabel} for {money(estimate.total)} and
+                      its terms, and agree that typing my name above is my signature.
+                    </span>
+                  </label>
+                )}
+                {decisionMutation.error && (
+                  <p className="text-sm text-danger-600">
+                    {decisionMutation.error instanceof Error ? decisionMutation.error.message : 'Something went wrong'}
+                  </p>
+                )}
+                <Button
+                  type="submit"
+                  variant={decision === 'reject' ? 'danger' : 'primary'}
+                  className="w-full"
+                  disabled={!canSubmit || decisionMutation.isPending}
+                >
+                  {decisionMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : decision === 'approve' ? (
+                    'Sign and Approve'
+                  ) : (
+                    'Sign and Decline'
+                  )}
+                </Button>
+              </>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
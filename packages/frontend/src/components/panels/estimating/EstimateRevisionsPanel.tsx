@@ -0,0 +1,469 @@
+// ============================================================================
+// EstimateRevisionsPanel Component
+// Location: src/components/panels/estimating/EstimateRevisionsPanel.tsx
+//
+// Slide-over revision history for an estimate: send it to the client for
+// approval (which snapshots the next revision and issues a link), follow the
+// links' views and decisions, open any revision's PDF, and compare the line
+// items of two revisions or of a revision and the unsent working copy.
+// ============================================================================
+
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { clsx } from 'clsx';
+import {
+  X,
+  History,
+  Send,
+  Copy,
+  Link2,
+  FileDown,
+  Loader2,
+  Eye,
+  Ban,
+} from 'lucide-react';
+import { Button, SelectFilter, ConfirmModal } from '@/components/common';
+import {
+  useEstimateRevisions,
+  useEstimateRevisionDiff,
+  useSendEstimate,
+  useRevokeApprovalLink,
+  fetchEstimateRevisionPdf,
+  approvalLinkUrl,
+  type ApprovalLink,
+  type ApprovalLinkStatus,
+  type Estimate,
+  type LineItemChange,
+} from '@/services/api';
+import { useToast } from '@/contexts';
+import { usePermission } from '@/hooks';
+import { openPdfInNewTab } from '@/utils/pdfUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface EstimateRevisionsPanelProps {
+  /** Estimate whose revisions are shown (null when closed) */
+  estimate: Estimate | null;
+  /** Close handler */
+  onClose: () => void;
+}
+
+const LINK_STATUS_COLORS: Record<ApprovalLinkStatus, string> = {
+  open: 'bg-brand-100 text-brand-700 dark:bg-brand-900/30 dark:text-brand-400',
+  approved: 'bg-success-100 text-success-700 dark:bg-success-900/30 dark:text-success-400',
+  rejected: 'bg-danger-100 text-danger-700 dark:bg-danger-900/30 dark:text-danger-400',
+  revoked: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-500',
+};
+
+const CHANGE_ROW_COLORS: Record<LineItemChange['change'], string> = {
+  added: 'bg-success-50 dark:bg-success-900/20',
+  removed: 'bg-danger-50 dark:bg-danger-900/20 line-through text-slate-500',
+  changed: 'bg-warning-50 dark:bg-warning-900/20',
+  unchanged: '',
+};
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+// "3 @ $120.00" - with the before value struck through when it changed
+function QuantityPrice({ change }: { change: LineItemChange }) {
+  const { before, after } = change;
+  const shown = after ?? before!;
+  const moved = change.change === 'changed' && before && after;
+  return (
+    <span>
+      {moved && (before.quantity !== after.quantity || before.unitPrice !== after.unitPrice) && (
+        <span className="line-through text-slate-400 mr-1">
+          {before.quantity} @ {money(before.unitPrice)}
+        </span>
+      )}
+      {shown.quantity} @ {money(shown.unitPrice)}
+    </span>
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function EstimateRevisionsPanel({ estimate, onClose }: EstimateRevisionsPanelProps) {
+  const canEdit = usePermission('estimating:edit');
+  const toast = useToast();
+
+  const { data, isLoading } = useEstimateRevisions(estimate?.id ?? null);
+  const sendMutation = useSendEstimate();
+  const revokeMutation = useRevokeApprovalLink();
+
+  const [sentLink, setSentLink] = useState<string | null>(null);
+  const [linkToRevoke, setLinkToRevoke] = useState<ApprovalLink | null>(null);
+  const [diffFrom, setDiffFrom] = useState('');
+  const [diffTo, setDiffTo] = useState('current');
+
+  const history = data?.data;
+  const revisions = history?.revisions ?? [];
+  const links = history?.approvalLinks ?? [];
+
+  // Compare the latest revision with the working copy by default
+  useEffect(() => {
+    setSentLink(null);
+    setDiffTo('current');
+    setDiffFrom('');
+  }, [estimate?.id]);
+
+  const latestLabel = revisions[revisions.length - 1]?.label;
+  useEffect(() => {
+    if (!diffFrom && latestLabel) {
+      setDiffFrom(latestLabel);
+    }
+  }, [diffFrom, latestLabel]);
+
+  const { data: diffData, isFetching: isDiffLoading } = useEstimateRevisionDiff(
+    estimate?.id ?? null,
+    diffFrom,
+    diffTo
+  );
+
+  if (!estimate) return null;
+
+  const canSend = canEdit && (estimate.status === 'draft' || estimate.status === 'sent');
+  const diff = diffData?.data;
+  const revisionOptions = revisions.map((r) => ({ value: r.label, label: `Rev ${r.label}` }));
+
+  const handleSend = async () => {
+    try {
+      const response = await sendMutation.mutateAsync(estimate.id);
+      const result = response.data!;
+      setSentLink(approvalLinkUrl(result.token));
+      toast.success(
+        'Sent for Approval',
+        result.newRevision
+          ? `Rev ${result.revision.label} created; copy the link for the client`
+          : `No changes since rev ${result.revision.label}; a new link was issued`
+      );
+    } catch (err) {
+      console.error('Failed to send estimate:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to send estimate');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!sentLink) return;
+    try {
+      await navigator.clipboard.writeText(sentLink);
+      toast.success('Copied', 'Approval link copied to the clipboard');
+    } catch {
+      toast.error('Error', 'Could not copy the link; select it and copy it instead');
+    }
+  };
+
+  const confirmRevoke = async () => {
+    if (!linkToRevoke) return;
+    try {
+      await revokeMutation.mutateAsync({ id: estimate.id, linkId: linkToRevoke.id });
+      toast.success('Link Revoked', 'The client can no longer open this link');
+    } catch (err) {
+      console.error('Failed to revoke link:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to revoke link');
+    }
+    setLinkToRevoke(null);
+  };
+
+  const handleViewPdf = (label: string) => {
+    openPdfInNewTab(() => fetchEstimateRevisionPdf(estimate.id, label)).catch((err) => {
+      console.error('Failed to generate revision PDF:', err);
+      toast.error('Error', 'Failed to generate PDF');
+    });
+  };
+
+  return createPortal(
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/20 dark:bg-black/40 z-40"
+        onClick={onClose}
+      />
+
+      {/* Panel */}
+      <div
+        className={clsx(
+          'fixed top-0 right-0 h-full w-full max-w-xl',
+          'bg-white dark:bg-slate-800',
+          'border-l border-slate-200 dark:border-slate-700',
+          'shadow-xl z-50',
+          'flex flex-col',
+          'animate-slide-in-right'
+        )}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-brand-100 dark:bg-brand-900/30 flex items-center justify-center">
+              <History className="w-4 h-4 text-brand-600 dark:text-brand-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+                Revisions
+              </h2>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {estimate.estimateNumber}{estimate.clientName ? ` · ${estimate.clientName}` : ''}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          {/* Send for approval */}
+          {canSend && (
+            <div className="space-y-2">
+              <Button
+                variant="primary"
+                className="w-full"
+                leftIcon={sendMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                onClick={handleSend}
+                disabled={sendMutation.isPending}
+              >
+                Send for Approval
+              </Button>
+              {sentLink && (
+                <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-brand-50 dark:bg-brand-900/20">
+                  <Link2 className="w-4 h-4 flex-shrink-0 text-brand-600 dark:text-brand-400" />
+                  <input
+                    readOnly
+                    value={sentLink}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 bg-transparent text-xs text-slate-700 dark:text-slate-300 focus:outline-none"
+                  />
+                  <button
+                    onClick={handleCopy}
+                    className="p-1.5 rounded-lg text-brand-600 hover:bg-brand-100 dark:hover:bg-brand-900/40"
+                    title="Copy link"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              {sentLink && (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  This link is only shown once. Sending again issues a new link and closes this one.
+                </p>
+              )}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-brand-600" />
+            </div>
+          ) : (
+            <>
+              {/* Revisions */}
+              <div>
+                <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Sent Revisions</h3>
+                {revisions.length === 0 ? (
+                  <p className="text-sm text-slate-500 dark:text-slate-400 py-2">
+                    Not sent yet. Sending the estimate records it as rev A.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-slate-100 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg">
+                    {[...revisions].reverse().map((revision) => (
+                      <li key={revision.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-slate-900 dark:text-white">
+                            Rev {revision.label}
+                            <span className="ml-2 font-normal">{money(revision.total)}</span>
+                            {revision.id === history?.approvedRevisionId ? (
+                              <span className="ml-2 text-xs text-success-600 dark:text-success-400">Approved</span>
+                            ) : revision.id === history?.sentRevisionId && (
+                              <span className="ml-2 text-xs text-brand-600 dark:text-brand-400">With client</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-slate-500 dark:text-slate-400">
+                            {formatTimestamp(revision.createdAt)}
+                            {revision.createdByName ? ` · ${revision.createdByName}` : ''}
+                            {` · ${revision.lineItems.length} line item${revision.lineItems.length === 1 ? '' : 's'}`}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleViewPdf(revision.label)}
+                          className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                          title="View PDF"
+                        >
+                          <FileDown className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Approval links */}
+              {links.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Approval Links</h3>
+                  <ul className="divide-y divide-slate-100 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg">
+                    {links.map((link) => (
+                      <li key={link.id} className="flex items-start justify-between gap-3 px-3 py-2">
+                        <div className="min-w-0 text-xs text-slate-500 dark:text-slate-400 space-y-0.5">
+                          <p className="text-sm text-slate-900 dark:text-white">
+                            Rev {link.revisionLabel ?? '?'}
+                            <span className={clsx(
+                              'ml-2 px-2 py-0.5 rounded-full text-xs font-medium',
+                              LINK_STATUS_COLORS[link.status]
+                            )}>
+                              {link.status.charAt(0).toUpperCase() + link.status.slice(1)}
+                            </span>
+                          </p>
+                          <p>
+                            Sent {formatTimestamp(link.createdAt)}
+                            {link.status === 'open' && ` · expires ${formatTimestamp(link.expiresAt)}`}
+                          </p>
+                          {link.firstViewedAt && (
+                            <p className="flex items-center gap-1">
+                              <Eye className="w-3 h-3" />
+                              Opened {formatTimestamp(link.firstViewedAt)}
+                            </p>
+                          )}
+                          {link.decidedAt && (
+                            <p>
+                              Signed &ldquo;{link.signatureName}&rdquo; {formatTimestamp(link.decidedAt)}
+                              {link.decidedIp ? ` from ${link.decidedIp}` : ''}
+                            </p>
+                          )}
+                          {link.decisionNote && <p className="italic">{link.decisionNote}</p>}
+                        </div>
+                        {canEdit && link.status === 'open' && (
+                          <button
+                            onClick={() => setLinkToRevoke(link)}
+                            className="p-1.5 rounded-lg text-slate-400 hover:text-danger-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                            title="Revoke link"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Diff */}
+              {revisions.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Compare</h3>
+                  <div className="flex items-center gap-2 mb-3">
+                    <SelectFilter
+                      label="From"
+                      value={diffFrom}
+                      onChange={setDiffFrom}
+                      options={revisionOptions}
+                      showAllOption={false}
+                      className="flex-1"
+                    />
+                    <span className="text-sm text-slate-400">to</span>
+                    <SelectFilter
+                      label="To"
+                      value={diffTo}
+                      onChange={setDiffTo}
+                      options={[...revisionOptions, { value: 'current', label: 'Current (unsent)' }]}
+                      showAllOption={false}
+                      className="flex-1"
+                    />
+                  </div>
+
+                  {diffFrom === diffTo ? (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">Pick two different versions.</p>
+                  ) : isDiffLoading && !diff ? (
+                    <div className="flex justify-center py-4">
+                      <Loader2 className="w-5 h-5 animate-spin text-brand-600" />
+                    </div>
+                  ) : diff && (
+                    <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+                      <table className="w-full text-sm">
+                        <thead className="bg-slate-50 dark:bg-slate-900/50 text-xs text-slate-500 dark:text-slate-400">
+                          <tr>
+                            <th className="px-3 py-2 text-left font-medium">Item</th>
+                            <th className="px-3 py-2 text-right font-medium">Qty @ Price</th>
+                            <th className="px-3 py-2 text-right font-medium">Amount</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                          {diff.lineItems.map((change, index) => (
+                            <tr key={index} className={CHANGE_ROW_COLORS[change.change]}>
+                              <td className="px-3 py-2 text-slate-900 dark:text-white">
+                                {change.change !== 'unchanged' && (
+                                  <span className="mr-1 font-mono text-xs text-slate-500">
+                                    {change.change === 'added' ? '+' : change.change === 'removed' ? '−' : '~'}
+                                  </span>
+                                )}
+                                {(change.after ?? change.before)!.description}
+                              </td>
+                              <td className="px-3 py-2 text-right whitespace-nowrap">
+                                <QuantityPrice change={change} />
+                              </td>
+                              <td className="px-3 py-2 text-right whitespace-nowrap">
+                                {money((change.after ?? change.before)!.total)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                        <tfoot className="bg-slate-50 dark:bg-slate-900/50 text-xs">
+                          {(['subtotal', 'taxAmount', 'total'] as const).map((key) => {
+                            const before = diff.totals.before[key];
+                            const after = diff.totals.after[key];
+                            return (
+                              <tr key={key}>
+                                <td colSpan={2} className="px-3 py-1.5 text-right text-slate-500 dark:text-slate-400">
+                                  {key === 'taxAmount' ? 'Tax' : key === 'total' ? 'Total' : 'Subtotal'}
+                                </td>
+                                <td className="px-3 py-1.5 text-right whitespace-nowrap font-medium text-slate-900 dark:text-white">
+                                  {before !== after && (
+                                    <span className="line-through text-slate-400 mr-1">{money(before)}</span>
+                                  )}
+                                  {money(after)}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tfoot>
+                      </table>
+                      <p className="px-3 py-1.5 text-xs text-slate-500 dark:text-slate-400 border-t border-slate-200 dark:border-slate-700">
+                        {diff.from} → {diff.to}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Revoke Confirmation */}
+      <ConfirmModal
+        isOpen={!!linkToRevoke}
+        onClose={() => setLinkToRevoke(null)}
+        onConfirm={confirmRevoke}
+        title="Revoke Approval Link"
+        message={`The client will no longer be able to open the link for rev ${linkToRevoke?.revisionLabel ?? ''}. Send the estimate again to issue a new one.`}
+        confirmText="Revoke"
+        variant="danger"
+        isLoading={revokeMutation.isPending}
+      />
+    </>,
+    document.body
+  );
+}
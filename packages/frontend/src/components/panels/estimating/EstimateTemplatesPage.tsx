@@ -0,0 +1,315 @@
+// ============================================================================
+// EstimateTemplatesPage Component
+// Location: src/components/panels/estimating/EstimateTemplatesPage.tsx
+//
+// Saved bundles of catalog items with quantities, e.g. a standard bathroom
+// rough-in. Inserting a template into an estimate adds its items at the
+// catalog's prices on that day; the template itself stores no prices.
+// ============================================================================
+
+import { useState, useEffect } from 'react';
+import { Plus, Layers, Edit, Trash2, Loader2 } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Input, Textarea, Modal, ConfirmModal, Card, CardContent } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useEstimateTemplates,
+  useEstimateTemplate,
+  useCreateEstimateTemplate,
+  useUpdateEstimateTemplate,
+  useDeleteEstimateTemplate,
+  type CatalogItem,
+  type EstimateTemplateSummary,
+} from '@/services/api';
+import { useDocumentTitle, usePermission } from '@/hooks';
+import { CatalogLineInput } from './CatalogLineInput';
+
+interface TemplateLine {
+  item: CatalogItem;
+  quantity: number;
+}
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function TemplateModal({
+  templateId,
+  isOpen,
+  onClose,
+}: {
+  /** Template being edited; null creates one */
+  templateId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}) {
+  const toast = useToast();
+  const { data, isLoading } = useEstimateTemplate(isOpen ? templateId : null);
+  const createMutation = useCreateEstimateTemplate();
+  const updateMutation = useUpdateEstimateTemplate();
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [lines, setLines] = useState<TemplateLine[]>([]);
+  const [search, setSearch] = useState('');
+
+  const template = data?.data;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSearch('');
+    if (templateId && template) {
+      setName(template.name);
+      setDescription(template.description ?? '');
+      setLines(template.items.map(({ catalogItem, quantity }) => ({ item: catalogItem, quantity })));
+    } else if (!templateId) {
+      setName('');
+      setDescription('');
+      setLines([]);
+    }
+  }, [isOpen, templateId, template]);
+
+  const addItem = (item: CatalogItem) => {
+    setLines((prev) => [...prev, { item, quantity: 1 }]);
+    setSearch('');
+  };
+
+  const updateQuantity = (index: number, quantity: number) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, quantity } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    setLines((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lines.length === 0) {
+      toast.error('Error', 'Add at least one catalog item');
+      return;
+    }
+    const input = {
+      name: name.trim(),
+      description: description.trim() || null,
+      items: lines.map((line) => ({ catalogItemId: line.item.id, quantity: line.quantity })),
+    };
+
+    try {
+      if (templateId) {
+        await updateMutation.mutateAsync({ id: templateId, data: input });
+        toast.success('Updated', `${input.name} has been updated`);
+      } else {
+        await createMutation.mutateAsync(input);
+        toast.success('Created', `${input.name} template created`);
+      }
+      onClose();
+    } catch (err) {
+      console.error('Failed to save template:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save template');
+    }
+  };
+
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.item.unitPrice, 0);
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={templateId ? 'Edit Template' : 'New Template'} size="xl">
+      {templateId && isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-brand-600" />
+        </div>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-4">
+          <Input label="Name *" value={name} onChange={(e) => setName(e.target.value)} required />
+          <Textarea label="Description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">Items</label>
+            {lines.length > 0 && (
+              <ul className="mb-3 divide-y divide-slate-100 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg">
+                {lines.map((line, index) => (
+                  <li key={`${line.item.id}-${index}`} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-slate-900 dark:text-white truncate">
+                        {line.item.name}
+                        {!line.item.isActive && <span className="ml-2 text-xs text-slate-500">Archived</span>}
+                      </p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {line.item.sku ? `${line.item.sku} · ` : ''}{money(line.item.unitPrice)} / {line.item.unit}
+                      </p>
+                    </div>
+                    <input
+                      type="number"
+                      value={line.quantity}
+                      onChange={(e) => updateQuantity(index, parseFloat(e.target.value) || 0)}
+                      min="0.01"
+                      step="0.01"
+                      required
+                      className="w-24 px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg
+                        bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-right
+                        focus:outline-none focus:ring-2 focus:ring-brand-500"
+                    />
+                    <span className="w-12 text-xs text-slate-500">{line.item.unit}</span>
+                    <button
+                      type="button"
+                      onClick={() => removeLine(index)}
+                      className="p-1.5 text-slate-400 hover:text-danger-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <CatalogLineInput
+              value={search}
+              onChange={setSearch}
+              onPick={addItem}
+              placeholder="Search the catalog to add an item"
+            />
+          </div>
+
+          <div className="flex items-center justify-between pt-2">
+            <span className="text-sm text-slate-500 dark:text-slate-400">
+              {money(total)} at today's prices
+            </span>
+            <div className="flex gap-3">
+              <Button type="button" variant="secondary" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="primary" disabled={isSaving}>
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : templateId ? 'Save' : 'Create Template'}
+              </Button>
+            </div>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+}
+
+export function EstimateTemplatesPage() {
+  useDocumentTitle('Estimate Templates');
+  const canEdit = usePermission('estimating:edit');
+  const toast = useToast();
+
+  const { data, isLoading } = useEstimateTemplates();
+  const deleteMutation = useDeleteEstimateTemplate();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<EstimateTemplateSummary | null>(null);
+
+  const templates = data?.data ?? [];
+
+  const openModal = (id: string | null) => {
+    setEditingId(id);
+    setIsModalOpen(true);
+  };
+
+  const confirmDelete = async () => {
+    if (!templateToDelete) return;
+    try {
+      await deleteMutation.mutateAsync(templateToDelete.id);
+      toast.success('Deleted', `${templateToDelete.name} template removed`);
+    } catch (err) {
+      console.error('Failed to delete template:', err);
+      toast.error('Error', 'Failed to delete template');
+    }
+    setTemplateToDelete(null);
+  };
+
+  return (
+    <Page
+      title="Estimate Templates"
+      description="Bundles of catalog items to drop into an estimate in one step."
+      actions={
+        canEdit && (
+          <Button variant="primary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => openModal(null)}>
+            New Template
+          </Button>
+        )
+      }
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-brand-600" />
+        </div>
+      ) : templates.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <Layers className="w-12 h-12 mx-auto text-slate-300 dark:text-slate-600" />
+            <h3 className="mt-4 text-lg font-medium text-slate-900 dark:text-white">No templates yet</h3>
+            <p className="mt-2 text-slate-500 dark:text-slate-400">
+              Save the scopes you estimate often as templates of catalog items.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {templates.map((template) => (
+            <Card key={template.id}>
+              <CardContent className="p-5">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <div className="w-10 h-10 rounded-xl bg-brand-100 dark:bg-brand-900/30 flex items-center justify-center flex-shrink-0">
+                      <Layers className="w-5 h-5 text-brand-600 dark:text-brand-400" />
+                    </div>
+                    <div className="min-w-0">
+                      <h3 className="font-semibold text-slate-900 dark:text-white truncate">{template.name}</h3>
+                      <p className="text-sm text-slate-500 dark:text-slate-400">
+                        {template.itemCount} item{template.itemCount === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => openModal(template.id)}
+                        className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                        title="Edit"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setTemplateToDelete(template)}
+                        className="p-1.5 rounded-lg text-slate-400 hover:text-danger-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {template.description && (
+                  <p className="mt-3 text-sm text-slate-600 dark:text-slate-300 line-clamp-2">{template.description}</p>
+                )}
+                <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between">
+                  <span className="text-sm text-slate-500 dark:text-slate-400">At today's prices</span>
+                  <span className="font-semibold text-slate-900 dark:text-white">{money(template.total)}</span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <TemplateModal
+        templateId={editingId}
+        isOpen={isModalOpen}
+        onClose={() => { setIsModalOpen(false); setEditingId(null); }}
+      />
+
+      <ConfirmModal
+        isOpen={!!templateToDelete}
+        onClose={() => setTemplateToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Template"
+        message={`Delete the "${templateToDelete?.name}" template? Estimates made from it are not affected.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Page>
+  );
+}
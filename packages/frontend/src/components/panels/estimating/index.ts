@@ -0,0 +1,6 @@
+// Estimating Panel Sub-Pages
+export { EstimateRevisionsPanel } from './EstimateRevisionsPanel';
+export { EstimateApprovalPage } from './EstimateApprovalPage';
+export { CatalogLineInput } from './CatalogLineInput';
+export { CatalogPage } from './CatalogPage';
+export { EstimateTemplatesPage } from './EstimateTemplatesPage';
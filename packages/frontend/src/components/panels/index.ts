@@ -4,12 +4,13 @@ export { DashboardPage } from './DashboardPage';
 export { ClientsPage } from './ClientsPage';
 export { ProjectsPage } from './ProjectsPage';
 export { EstimatesPage } from './EstimatesPage';
+export { EstimateApprovalPage } from './estimating';
 export { InvoicesPage } from './InvoicesPage';
 export { AdminPage } from './AdminPage';
 export { ProfilePage } from './ProfilePage';
 export { NotificationSettingsPage } from './NotificationSettingsPage';
+export { AccountingPage } from './AccountingPage';
 export {
-  AccountingPage,
   DeveloperPage,
 } from './PlaceholderPages';
 export { CompaniesPage, ContactsPage } from './customers';
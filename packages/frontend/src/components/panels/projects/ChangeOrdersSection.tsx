@@ -0,0 +1,595 @@
+// ============================================================================
+// ChangeOrdersSection Component
+// Location: src/components/panels/projects/ChangeOrdersSection.tsx
+//
+// A project's change orders (CO-001, ...) on its detail page. Each one is
+// drafted against an approved estimate of the project with its lines, price,
+// cost and schedule impact, sent for approval, and approved or rejected.
+// Approved ones that are not billed on the estimate's pay applications can be
+// drafted onto an invoice.
+// ============================================================================
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { clsx } from 'clsx';
+import { FileDiff, Plus, Trash2, X, Send, CheckCircle2, XCircle, Receipt, Loader2 } from 'lucide-react';
+import { Button, Input, Modal, ConfirmModal, Select, SectionHeader, Textarea } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useProjectChangeOrders,
+  useChangeOrder,
+  useCreateChangeOrder,
+  useUpdateChangeOrder,
+  useDeleteChangeOrder,
+  useSubmitChangeOrder,
+  useApproveChangeOrder,
+  useRejectChangeOrder,
+  useInvoiceChangeOrder,
+  useEstimates,
+  useCostCodes,
+  CHANGE_ORDER_STATUS_LABELS,
+  type ChangeOrderStatus,
+  type ChangeOrderWithLines,
+  type ChangeOrderLineInput,
+} from '@/services/api';
+import { usePermission } from '@/hooks';
+
+export const CHANGE_ORDER_STATUS_COLORS: Record<ChangeOrderStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  pending: 'bg-warning-100 text-warning-700 dark:bg-warning-900/30 dark:text-warning-400',
+  approved: 'bg-success-100 text-success-700 dark:bg-success-900/30 dark:text-success-400',
+  rejected: 'bg-danger-100 text-danger-700 dark:bg-danger-900/30 dark:text-danger-400',
+};
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+}
+
+// +5 days, -2 days
+function formatDays(days: number): string {
+  return `${days > 0 ? '+' : ''}${days} day${Math.abs(days) === 1 ? '' : 's'}`;
+}
+
+const thClass = 'px-3 py-2 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider';
+const tdClass = 'px-3 py-2 text-sm text-slate-700 dark:text-slate-300';
+
+// Form state of a line, as typed
+interface LineDraft {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  unitCost: string;
+  costCodeId: string;
+  taxable: boolean;
+}
+
+const EMPTY_LINE: LineDraft = { description: '', quantity: '1', unitPrice: '', unitCost: '', costCodeId: '', taxable: true };
+
+function toInput(line: LineDraft): ChangeOrderLineInput {
+  return {
+    description: line.description.trim(),
+    quantity: parseFloat(line.quantity) || 0,
+    unitPrice: parseFloat(line.unitPrice) || 0,
+    unitCost: line.unitCost === '' ? null : parseFloat(line.unitCost) || 0,
+    costCodeId: line.costCodeId || null,
+    taxable: line.taxable,
+  };
+}
+
+// ============================================================================
+// Change order modal
+// ============================================================================
+
+interface ChangeOrderFormProps {
+  projectId: string;
+  changeOrder: ChangeOrderWithLines | null;
+  onClose: () => void;
+}
+
+function ChangeOrderForm({ projectId, changeOrder, onClose }: ChangeOrderFormProps) {
+  const navigate = useNavigate();
+  const toast = useToast();
+  const canEdit = usePermission('projects:edit');
+  const canViewCosts = usePermission('projects:costs');
+  const canApprove = usePermission('projects:change_orders');
+  const canInvoice = usePermission('accounting:edit');
+  const { data: estimatesData } = useEstimates({ projectId, status: 'approved', limit: 50 });
+  const { data: codesData } = useCostCodes();
+  const createMutation = useCreateChangeOrder();
+  const updateMutation = useUpdateChangeOrder();
+  const deleteMutation = useDeleteChangeOrder();
+  const submitMutation = useSubmitChangeOrder();
+  const approveMutation = useApproveChangeOrder();
+  const rejectMutation = useRejectChangeOrder();
+  const invoiceMutation = useInvoiceChangeOrder();
+
+  const [estimateId, setEstimateId] = useState(changeOrder?.estimateId ?? '');
+  const [title, setTitle] = useState(changeOrder?.title ?? '');
+  const [description, setDescription] = useState(changeOrder?.description ?? '');
+  const [scheduleImpactDays, setScheduleImpactDays] = useState(String(changeOrder?.scheduleImpactDays ?? 0));
+  const [lines, setLines] = useState<LineDraft[]>(
+    changeOrder?.lines.map((line) => ({
+      description: line.description,
+      quantity: String(line.quantity),
+      unitPrice: String(line.unitPrice),
+      unitCost: line.unitCost === null ? '' : String(line.unitCost),
+      costCodeId: line.costCodeId ?? '',
+      taxable: line.taxable,
+    })) ?? [{ ...EMPTY_LINE }]
+  );
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const status = changeOrder?.status ?? 'draft';
+  const isEditable = canEdit && (status === 'draft' || status === 'rejected');
+  const estimateOptions = (estimatesData?.data?.estimates ?? []).map((e) => ({
+    value: e.id,
+    label: `${e.estimateNumber} · ${formatMoney(e.subtotal)}`,
+  }));
+  const costCodeOptions = [
+    { value: '', label: 'General' },
+    ...(codesData?.data ?? []).map((c) => ({ value: c.id, label: `${c.code} ${c.name}` })),
+  ];
+  const amount = lines.reduce((sum, l) => sum + (parseFloat(l.quantity) || 0) * (parseFloat(l.unitPrice) || 0), 0);
+  const cost = lines.reduce((sum, l) => {
+    const unit = l.unitCost === '' ? parseFloat(l.unitPrice) : parseFloat(l.unitCost);
+    return sum + (parseFloat(l.quantity) || 0) * (unit || 0);
+  }, 0);
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Save the form, returning the change order's id
+  const save = async (): Promise<string | undefined> => {
+    const input = {
+      estimateId,
+      title: title.trim(),
+      description: description.trim() || null,
+      scheduleImpactDays: parseInt(scheduleImpactDays) || 0,
+      lines: lines.filter((l) => l.description.trim()).map(toInput),
+    };
+    if (changeOrder) {
+      await updateMutation.mutateAsync({ id: changeOrder.id, data: input });
+      return changeOrder.id;
+    }
+    const response = await createMutation.mutateAsync({ projectId, ...input });
+    return response.data?.id;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await save();
+      toast.success('Saved', 'Change order saved');
+      onClose();
+    } catch (err) {
+      console.error('Failed to save change order:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save change order');
+    }
+  };
+
+  const handleSubmitForApproval = async () => {
+    try {
+      const id = await save();
+      if (id) {
+        await submitMutation.mutateAsync(id);
+      }
+      toast.success('Sent for approval', 'The change order is awaiting approval');
+      onClose();
+    } catch (err) {
+      console.error('Failed to send change order for approval:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to send change order for approval');
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!changeOrder) return;
+    try {
+      await approveMutation.mutateAsync(changeOrder.id);
+      toast.success('Approved', `${changeOrder.changeOrderNumber} was approved and added to the contract`);
+      onClose();
+    } catch (err) {
+      console.error('Failed to approve change order:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to approve change order');
+    }
+  };
+
+  const handleReject = async () => {
+    if (!changeOrder) return;
+    try {
+      await rejectMutation.mutateAsync({ id: changeOrder.id, reason: reason.trim() });
+      toast.success('Rejected', `${changeOrder.changeOrderNumber} was rejected`);
+      onClose();
+    } catch (err) {
+      console.error('Failed to reject change order:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to reject change order');
+    }
+  };
+
+  const handleInvoice = async () => {
+    if (!changeOrder) return;
+    try {
+      const response = await invoiceMutation.mutateAsync({ id: changeOrder.id });
+      toast.success('Invoice drafted', response.data?.message ?? 'The change order was invoiced');
+      onClose();
+      if (response.data) {
+        navigate(`/invoices?search=${encodeURIComponent(response.data.invoiceNumber)}`);
+      }
+    } catch (err) {
+      console.error('Failed to invoice change order:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to invoice change order');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!changeOrder) return;
+    try {
+      await deleteMutation.mutateAsync(changeOrder.id);
+      toast.success('Deleted', `${changeOrder.changeOrderNumber} was deleted`);
+      onClose();
+    } catch (err) {
+      console.error('Failed to delete change order:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to delete change order');
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending || submitMutation.isPending;
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      size="xl"
+      title={changeOrder ? `${changeOrder.changeOrderNumber} · ${changeOrder.title}` : 'New Change Order'}
+    >
+      <form onSubmit={handleSave} className="space-y-4">
+        {changeOrder && (
+          <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+            <span className={clsx('inline-flex px-2 py-0.5 rounded-full text-xs font-medium', CHANGE_ORDER_STATUS_COLORS[status])}>
+              {CHANGE_ORDER_STATUS_LABELS[status]}
+            </span>
+            {changeOrder.decidedByName && (
+              <span>{status === 'approved' ? 'Approved' : 'Rejected'} by {changeOrder.decidedByName}</span>
+            )}
+            {changeOrder.invoiceNumber && (
+              <button
+                type="button"
+                className="text-brand-600 dark:text-brand-400 hover:underline"
+                onClick={() => navigate(`/invoices?search=${encodeURIComponent(changeOrder.invoiceNumber!)}`)}
+              >
+                Invoiced on {changeOrder.invoiceNumber}
+              </button>
+            )}
+            {changeOrder.onScheduleOfValues && (
+              <span>Billed on the pay applications for {changeOrder.estimateNumber}</span>
+            )}
+          </div>
+        )}
+
+        {status === 'rejected' && changeOrder?.rejectionReason && (
+          <p className="text-sm text-danger-700 dark:text-danger-400">Rejected: {changeOrder.rejectionReason}</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input label="Title *" value={title} onChange={(e) => setTitle(e.target.value)} disabled={!isEditable} required />
+          <Select
+            label="Changes estimate *"
+            value={estimateId}
+            onChange={(e) => setEstimateId(e.target.value)}
+            options={estimateOptions}
+            placeholder="Select an approved estimate"
+            disabled={!isEditable}
+            required
+          />
+        </div>
+        <Textarea
+          label="Description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+          disabled={!isEditable}
+        />
+
+        <table className="w-full">
+          <thead className="bg-slate-50 dark:bg-slate-800/50">
+            <tr>
+              <th className={clsx(thClass, 'text-left')}>Description</th>
+              <th className={clsx(thClass, 'text-right w-20')}>Qty</th>
+              <th className={clsx(thClass, 'text-right w-28')}>Unit price</th>
+              {canViewCosts && <th className={clsx(thClass, 'text-right w-28')}>Unit cost</th>}
+              {canViewCosts && <th className={clsx(thClass, 'text-left w-44')}>Cost code</th>}
+              <th className={clsx(thClass, 'text-center w-16')}>Tax</th>
+              {isEditable && <th className="w-10" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {lines.map((line, index) => (
+              <tr key={index}>
+                <td className="px-1 py-1">
+                  <Input
+                    value={line.description}
+                    onChange={(e) => updateLine(index, { description: e.target.value })}
+                    disabled={!isEditable}
+                  />
+                </td>
+                <td className="px-1 py-1">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    disabled={!isEditable}
+                  />
+                </td>
+                <td className="px-1 py-1">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={line.unitPrice}
+                    onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                    disabled={!isEditable}
+                  />
+                </td>
+                {canViewCosts && (
+                  <td className="px-1 py-1">
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={line.unitCost}
+                      onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                      placeholder="Price"
+                      disabled={!isEditable}
+                    />
+                  </td>
+                )}
+                {canViewCosts && (
+                  <td className="px-1 py-1">
+                    <Select
+                      value={line.costCodeId}
+                      onChange={(e) => updateLine(index, { costCodeId: e.target.value })}
+                      options={costCodeOptions}
+                      disabled={!isEditable}
+                    />
+                  </td>
+                )}
+                <td className="px-1 py-1 text-center">
+                  <input
+                    type="checkbox"
+                    checked={line.taxable}
+                    onChange={(e) => updateLine(index, { taxable: e.target.checked })}
+                    disabled={!isEditable}
+                  />
+                </td>
+                {isEditable && (
+                  <td className="px-1 py-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                      aria-label="Remove line"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {isEditable && (
+          <Button type="button" variant="ghost" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setLines([...lines, { ...EMPTY_LINE }])}>
+            Add Line
+          </Button>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <Input
+            label="Schedule impact (days)"
+            type="number"
+            step="1"
+            value={scheduleImpactDays}
+            onChange={(e) => setScheduleImpactDays(e.target.value)}
+            hint="Negative if it shortens the schedule"
+            disabled={!isEditable}
+          />
+          <div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Price</p>
+            <p className="mt-1 text-lg font-semibold text-slate-900 dark:text-white">{formatMoney(amount)}</p>
+          </div>
+          {canViewCosts && (
+            <div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Cost</p>
+              <p className="mt-1 text-lg font-semibold text-slate-900 dark:text-white">{formatMoney(cost)}</p>
+            </div>
+          )}
+        </div>
+
+        {isEditable ? (
+          <div className="flex items-center justify-between pt-2">
+            <div>
+              {changeOrder && (
+                <Button type="button" variant="ghost" leftIcon={<Trash2 className="w-4 h-4" />} onClick={() => setIsDeleting(true)}>
+                  Delete
+                </Button>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <Button type="button" variant="secondary" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="secondary" disabled={isSaving}>
+                Save Draft
+              </Button>
+              <Button
+                type="button"
+                variant="primary"
+                leftIcon={<Send className="w-4 h-4" />}
+                onClick={handleSubmitForApproval}
+                disabled={isSaving || !title.trim() || !estimateId}
+              >
+                Send for Approval
+              </Button>
+            </div>
+          </div>
+        ) : status === 'pending' && canApprove ? (
+          isRejecting ? (
+            <div className="space-y-3">
+              <Textarea
+                label="Reason *"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why is the change order being rejected?"
+                rows={3}
+              />
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="secondary" onClick={() => setIsRejecting(false)}>
+                  Back
+                </Button>
+                <Button type="button" variant="danger" onClick={handleReject} disabled={rejectMutation.isPending || !reason.trim()}>
+                  {rejectMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Reject Change Order'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="secondary" leftIcon={<XCircle className="w-4 h-4" />} onClick={() => setIsRejecting(true)}>
+                Reject
+              </Button>
+              <Button
+                type="button"
+                variant="primary"
+                leftIcon={<CheckCircle2 className="w-4 h-4" />}
+                onClick={handleApprove}
+                disabled={approveMutation.isPending}
+              >
+                Approve
+              </Button>
+            </div>
+          )
+        ) : (
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Close
+            </Button>
+            {status === 'approved' && canInvoice && changeOrder && !changeOrder.onScheduleOfValues
+              && !changeOrder.invoiceId && changeOrder.amount > 0 && (
+              <Button
+                type="button"
+                variant="primary"
+                leftIcon={<Receipt className="w-4 h-4" />}
+                onClick={handleInvoice}
+                disabled={invoiceMutation.isPending}
+              >
+                Draft Invoice
+              </Button>
+            )}
+          </div>
+        )}
+      </form>
+
+      <ConfirmModal
+        isOpen={isDeleting}
+        onClose={() => setIsDeleting(false)}
+        onConfirm={handleDelete}
+        title="Delete Change Order"
+        message={`Delete ${changeOrder?.changeOrderNumber}? This cannot be undone.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Modal>
+  );
+}
+
+function ChangeOrderModal({ projectId, changeOrderId, onClose }: { projectId: string; changeOrderId: string | null; onClose: () => void }) {
+  const { data, isLoading } = useChangeOrder(changeOrderId ?? '');
+
+  if (changeOrderId && (isLoading || !data?.data)) {
+    return (
+      <Modal isOpen onClose={onClose} size="xl" title="Change Order">
+        <div className="flex justify-center py-12"><Loader2 className="w-8 h-8 animate-spin text-brand-600" /></div>
+      </Modal>
+    );
+  }
+  return <ChangeOrderForm projectId={projectId} changeOrder={changeOrderId ? data!.data! : null} onClose={onClose} />;
+}
+
+// ============================================================================
+// Section
+// ============================================================================
+
+export function ChangeOrdersSection({ projectId }: { projectId: string }) {
+  const canEdit = usePermission('projects:edit');
+  const { data, isLoading } = useProjectChangeOrders(projectId);
+  const [openId, setOpenId] = useState<string | 'new' | null>(null);
+  const changeOrders = data?.data ?? [];
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      <SectionHeader
+        title="Change Orders"
+        icon={FileDiff}
+        action={
+          canEdit && (
+            <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setOpenId('new')}>
+              New Change Order
+            </Button>
+          )
+        }
+      />
+      <div className="bg-white dark:bg-slate-900">
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="w-5 h-5 animate-spin text-brand-600" /></div>
+        ) : changeOrders.length === 0 ? (
+          <p className="px-4 py-4 text-sm text-slate-500 dark:text-slate-400">No change orders for this project.</p>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-slate-50 dark:bg-slate-800/50">
+              <tr>
+                <th className={clsx(thClass, 'text-left')}>Number</th>
+                <th className={clsx(thClass, 'text-left')}>Title</th>
+                <th className={clsx(thClass, 'text-left')}>Estimate</th>
+                <th className={clsx(thClass, 'text-left')}>Status</th>
+                <th className={clsx(thClass, 'text-right')}>Schedule</th>
+                <th className={clsx(thClass, 'text-right')}>Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {changeOrders.map((co) => (
+                <tr
+                  key={co.id}
+                  onClick={() => setOpenId(co.id)}
+                  className="cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800"
+                >
+                  <td className={clsx(tdClass, 'font-medium text-brand-600 dark:text-brand-400')}>{co.changeOrderNumber}</td>
+                  <td className={tdClass}>{co.title}</td>
+                  <td className={tdClass}>{co.estimateNumber}</td>
+                  <td className={tdClass}>
+                    <span className={clsx('inline-flex px-2 py-0.5 rounded-full text-xs font-medium', CHANGE_ORDER_STATUS_COLORS[co.status])}>
+                      {CHANGE_ORDER_STATUS_LABELS[co.status]}
+                    </span>
+                  </td>
+                  <td className={clsx(tdClass, 'text-right')}>{co.scheduleImpactDays ? formatDays(co.scheduleImpactDays) : '–'}</td>
+                  <td className={clsx(tdClass, 'text-right')}>{formatMoney(co.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {openId && (
+        <ChangeOrderModal
+          key={openId}
+          projectId={projectId}
+          changeOrderId={openId === 'new' ? null : openId}
+          onClose={() => setOpenId(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+// ============================================================================
+// CostCodesPage Component
+// Location: src/components/panels/projects/CostCodesPage.tsx
+//
+// The cost codes project budgets, commitments and costs are booked to. Each
+// code has a usual cost type; when a budget is seeded from an estimate, lines
+// of that type land on the first code of the type.
+// ============================================================================
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Plus, Hash, Edit, Trash2, RotateCcw, Loader2 } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Input, Modal, ConfirmModal, Select, DataTable, type DataTableColumn } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useCostCodes,
+  useCreateCostCode,
+  useUpdateCostCode,
+  useDeleteCostCode,
+  JOB_COST_TYPE_LABELS,
+  type CostCode,
+  type CostCodeInput,
+  type JobCostType,
+} from '@/services/api';
+import { useDocumentTitle, usePermission } from '@/hooks';
+
+const COST_TYPE_OPTIONS = (Object.keys(JOB_COST_TYPE_LABELS) as JobCostType[]).map((type) => ({
+  value: type,
+  label: JOB_COST_TYPE_LABELS[type],
+}));
+
+const emptyForm: CostCodeInput = { code: '', name: '', costType: 'other' };
+
+export function CostCodesPage() {
+  useDocumentTitle('Cost Codes');
+  const canEdit = usePermission('projects:costs');
+  const toast = useToast();
+
+  const [showInactive, setShowInactive] = useState(false);
+  const [editing, setEditing] = useState<CostCode | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<CostCodeInput>(emptyForm);
+  const [toDelete, setToDelete] = useState<CostCode | null>(null);
+
+  const { data, isLoading } = useCostCodes(showInactive);
+  const createMutation = useCreateCostCode();
+  const updateMutation = useUpdateCostCode();
+  const deleteMutation = useDeleteCostCode();
+
+  const codes = data?.data ?? [];
+
+  const openModal = (code: CostCode | null) => {
+    setEditing(code);
+    setFormData(code ? { code: code.code, name: code.name, costType: code.costType } : emptyForm);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditing(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: CostCodeInput = {
+      code: formData.code.trim(),
+      name: formData.name.trim(),
+      costType: formData.costType,
+    };
+
+    try {
+      if (editing) {
+        await updateMutation.mutateAsync({ id: editing.id, data: input });
+        toast.success('Updated', `${input.code} has been updated`);
+      } else {
+        await createMutation.mutateAsync(input);
+        toast.success('Created', `${input.code} was added`);
+      }
+      closeModal();
+    } catch (err) {
+      console.error('Failed to save cost code:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save cost code');
+    }
+  };
+
+  const handleRestore = async (code: CostCode) => {
+    try {
+      await updateMutation.mutateAsync({ id: code.id, data: { isActive: true } });
+      toast.success('Restored', `${code.code} is active again`);
+    } catch (err) {
+      console.error('Failed to restore cost code:', err);
+      toast.error('Error', 'Failed to restore cost code');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!toDelete) return;
+    try {
+      const response = await deleteMutation.mutateAsync(toDelete.id);
+      toast.success(
+        response.data?.archived ? 'Deactivated' : 'Deleted',
+        response.data?.archived
+          ? `${toDelete.code} has budgets or costs booked to it, so it was deactivated`
+          : `${toDelete.code} was removed`
+      );
+    } catch (err) {
+      console.error('Failed to delete cost code:', err);
+      toast.error('Error', 'Failed to delete cost code');
+    }
+    setToDelete(null);
+  };
+
+  const columns: DataTableColumn<CostCode>[] = [
+    {
+      key: 'code',
+      header: 'Code',
+      sortable: true,
+      sortValue: (c) => c.code,
+      render: (c) => (
+        <span className={clsx('font-mono text-sm font-medium text-slate-900 dark:text-white', !c.isActive && 'opacity-50')}>
+          {c.code}
+        </span>
+      ),
+    },
+    {
+      key: 'name',
+      header: 'Name',
+      sortable: true,
+      sortValue: (c) => c.name,
+      render: (c) => (
+        <span className={clsx('text-sm text-slate-700 dark:text-slate-300', !c.isActive && 'opacity-50')}>
+          {c.name}
+          {!c.isActive && <span className="ml-2 text-xs text-slate-500">Inactive</span>}
+        </span>
+      ),
+    },
+    {
+      key: 'costType',
+      header: 'Cost Type',
+      render: (c) => <span className="text-sm text-slate-600 dark:text-slate-300">{JOB_COST_TYPE_LABELS[c.costType]}</span>,
+    },
+    ...(canEdit ? [{
+      key: 'actions',
+      header: '',
+      align: 'right' as const,
+      render: (c: CostCode) => (
+        <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+          {c.isActive ? (
+            <>
+              <button
+                onClick={() => openModal(c)}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                title="Edit"
+              >
+                <Edit className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setToDelete(c)}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-danger-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => handleRestore(c)}
+              className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+              title="Restore"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ),
+    }] : []),
+  ];
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Page
+      title="Cost Codes"
+      description="The codes job budgets, commitments and costs are tracked by."
+      actions={
+        canEdit && (
+          <Button variant="primary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => openModal(null)}>
+            New Cost Code
+          </Button>
+        )
+      }
+    >
+      <div className="mb-4 flex items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+          Show inactive
+        </label>
+      </div>
+
+      <DataTable
+        data={codes}
+        columns={columns}
+        rowKey={(c) => c.id}
+        onRowClick={canEdit ? (c) => c.isActive && openModal(c) : undefined}
+        loading={isLoading}
+        emptyState={
+          <div className="text-center py-12">
+            <Hash className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">No cost codes</h3>
+            <p className="text-slate-500 dark:text-slate-400">Add one before budgeting or recording job costs.</p>
+          </div>
+        }
+      />
+
+      <Modal isOpen={isModalOpen} onClose={closeModal} title={editing ? 'Edit Cost Code' : 'New Cost Code'}>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <Input
+              label="Code *"
+              value={formData.code}
+              onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+              placeholder="e.g. 03-300"
+              maxLength={20}
+              required
+            />
+            <div className="col-span-2">
+              <Input
+                label="Name *"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Cast-in-place concrete"
+                required
+              />
+            </div>
+          </div>
+          <Select
+            label="Cost type"
+            value={formData.costType}
+            onChange={(e) => setFormData({ ...formData, costType: e.target.value as JobCostType })}
+            options={COST_TYPE_OPTIONS}
+          />
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="secondary" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : editing ? 'Save' : 'Add Cost Code'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <ConfirmModal
+        isOpen={!!toDelete}
+        onClose={() => setToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Cost Code"
+        message={`Delete ${toDelete?.code ?? 'this cost code'}? If anything is booked to it, it is deactivated instead.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Page>
+  );
+}
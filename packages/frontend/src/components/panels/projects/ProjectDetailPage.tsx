@@ -0,0 +1,853 @@
+// ============================================================================
+// ProjectDetailPage Component
+// Location: src/components/panels/projects/ProjectDetailPage.tsx
+//
+// One project: its contract value revised by change orders, its schedule of
+// phases and milestones on a Gantt timeline, its subcontractors, the hours
+// logged to it, and the estimates, invoices and tasks linked to it. The
+// schedule's finish is compared with the project's planned end date.
+// ============================================================================
+
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { clsx } from 'clsx';
+import {
+  ArrowLeft,
+  Plus,
+  Diamond,
+  Calculator,
+  CalendarRange,
+  FileText,
+  Receipt,
+  Trash2,
+  X,
+  Loader2,
+  AlertCircle,
+  Clock,
+} from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Input, Modal, ConfirmModal, Select, SectionHeader, EntityTasksSection } from '@/components/common';
+import { TaskDetailPanel } from '@/components/panels/TasksPage';
+import { useToast, useUsersStore } from '@/contexts';
+import { useTaskStore, type Task, type TaskInput } from '@/contexts/taskStore';
+import {
+  useProject,
+  useProjectSchedule,
+  useCreatePhase,
+  useUpdatePhase,
+  useDeletePhase,
+  useAddPhaseDependency,
+  useRemovePhaseDependency,
+  useEstimates,
+  useInvoices,
+  useProjectTime,
+  useInvoiceProjectHours,
+  type ProjectPhase,
+  type ProjectSchedule,
+} from '@/services/api';
+import { useDocumentTitle, usePermission } from '@/hooks';
+import { addDays, formatDate, getTodayISO } from '@/utils/dateUtils';
+import { ProjectGantt, type GanttZoom } from './ProjectGantt';
+import { PROJECT_STATUS_COLORS, PROJECT_STATUS_LABELS } from './projectStatus';
+import { formatHours } from './TimesheetPage';
+import { ChangeOrdersSection } from './ChangeOrdersSection';
+import { SubcontractorsSection } from './SubcontractorsSection';
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+}
+
+// Draft, partially_paid → Draft, Partially paid
+function statusLabel(status: string): string {
+  const text = status.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+const ZOOM_OPTIONS: { value: GanttZoom; label: string }[] = [
+  { value: 'day', label: 'Days' },
+  { value: 'week', label: 'Weeks' },
+  { value: 'month', label: 'Months' },
+];
+
+const thClass = 'px-3 py-2 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider';
+const tdClass = 'px-3 py-2 text-sm text-slate-700 dark:text-slate-300';
+
+// ============================================================================
+// Phase editor
+// ============================================================================
+
+interface PhaseModalProps {
+  projectId: string;
+  schedule: ProjectSchedule;
+  // null for a new phase; isMilestone then picks what is being added
+  phase: ProjectPhase | null;
+  isMilestone: boolean;
+  onClose: () => void;
+}
+
+function PhaseModal({ projectId, schedule, phase, isMilestone: newMilestone, onClose }: PhaseModalProps) {
+  const toast = useToast();
+  const createMutation = useCreatePhase(projectId);
+  const updateMutation = useUpdatePhase(projectId);
+  const deleteMutation = useDeletePhase(projectId);
+  const addDependency = useAddPhaseDependency(projectId);
+  const removeDependency = useRemovePhaseDependency(projectId);
+
+  const isMilestone = phase?.isMilestone ?? newMilestone;
+  const defaultStart = schedule.finishDate ?? getTodayISO();
+  const [name, setName] = useState(phase?.name ?? '');
+  const [startDate, setStartDate] = useState(phase?.startDate ?? defaultStart);
+  const [endDate, setEndDate] = useState(phase?.endDate ?? defaultStart);
+  const [percentComplete, setPercentComplete] = useState(String(phase?.percentComplete ?? 0));
+  // New phases can be made to follow one other phase straight away
+  const [startsAfter, setStartsAfter] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const others = schedule.phases.filter((p) => p.id !== phase?.id);
+  const predecessors = phase ? others.filter((p) => phase.predecessorIds.includes(p.id)) : [];
+  const candidates = others.filter((p) => !phase?.predecessorIds.includes(p.id));
+  const noun = isMilestone ? 'milestone' : 'phase';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = {
+      name: name.trim(),
+      startDate,
+      endDate: isMilestone ? startDate : endDate,
+      percentComplete: parseInt(percentComplete) || 0,
+    };
+    try {
+      if (phase) {
+        const response = await updateMutation.mutateAsync({ id: phase.id, data: input });
+        toast.success('Saved', response.data?.message ?? `The ${noun} was updated`);
+      } else {
+        const response = await createMutation.mutateAsync({ ...input, isMilestone });
+        if (startsAfter && response.data) {
+          await addDependency.mutateAsync({ predecessorId: startsAfter, successorId: response.data.id });
+        }
+        toast.success('Added', `${input.name} was added to the schedule`);
+      }
+      onClose();
+    } catch (err) {
+      console.error(`Failed to save ${noun}:`, err);
+      toast.error('Error', err instanceof Error ? err.message : `Failed to save ${noun}`);
+    }
+  };
+
+  const handleAddPredecessor = async (predecessorId: string) => {
+    if (!phase || !predecessorId) return;
+    try {
+      const response = await addDependency.mutateAsync({ predecessorId, successorId: phase.id });
+      toast.success('Dependency added', response.data?.message ?? 'Dependency added');
+      onClose();
+    } catch (err) {
+      console.error('Failed to add dependency:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to add dependency');
+    }
+  };
+
+  const handleRemovePredecessor = async (predecessorId: string) => {
+    if (!phase) return;
+    try {
+      await removeDependency.mutateAsync({ predecessorId, successorId: phase.id });
+      onClose();
+    } catch (err) {
+      console.error('Failed to remove dependency:', err);
+      toast.error('Error', 'Failed to remove dependency');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!phase) return;
+    try {
+      await deleteMutation.mutateAsync(phase.id);
+      toast.success('Deleted', `${phase.name} was removed from the schedule`);
+      onClose();
+    } catch (err) {
+      console.error(`Failed to delete ${noun}:`, err);
+      toast.error('Error', `Failed to delete ${noun}`);
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending || addDependency.isPending;
+
+  return (
+    <Modal isOpen onClose={onClose} title={`${phase ? 'Edit' : 'New'} ${isMilestone ? 'Milestone' : 'Phase'}`}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          label="Name *"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={isMilestone ? 'e.g. Substantial completion' : 'e.g. Framing'}
+          required
+        />
+        {isMilestone ? (
+          <Input label="Date *" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} required />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label="Start *"
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  // Keep the duration when the start moves
+                  setEndDate((end) => (end >= startDate ? addDays(e.target.value, daysBetween(startDate, end)) : e.target.value));
+                  setStartDate(e.target.value);
+                }}
+                required
+              />
+              <Input label="End *" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} required />
+            </div>
+            <Input
+              label="Complete"
+              type="number"
+              min="0"
+              max="100"
+              rightAddon="%"
+              value={percentComplete}
+              onChange={(e) => setPercentComplete(e.target.value)}
+            />
+          </>
+        )}
+
+        {/* Dependencies */}
+        {phase ? (
+          <div>
+            <p className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Waits for</p>
+            {predecessors.length === 0 && (
+              <p className="text-sm text-slate-500 dark:text-slate-400 mb-2">Nothing; it can start any time.</p>
+            )}
+            <div className="space-y-1 mb-2">
+              {predecessors.map((p) => (
+                <div key={p.id} className="flex items-center justify-between px-3 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-800 text-sm">
+                  <span className="text-slate-700 dark:text-slate-300">{p.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePredecessor(p.id)}
+                    className="text-slate-400 hover:text-danger-600"
+                    title="Remove dependency"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {candidates.length > 0 && (
+              <Select
+                value=""
+                onChange={(e) => handleAddPredecessor(e.target.value)}
+                options={[{ value: '', label: 'Add a phase it waits for…' }, ...candidates.map((p) => ({ value: p.id, label: p.name }))]}
+                hint="It is moved to start after that phase finishes if it doesn't already"
+              />
+            )}
+          </div>
+        ) : others.length > 0 && (
+          <Select
+            label="Starts after"
+            value={startsAfter}
+            onChange={(e) => setStartsAfter(e.target.value)}
+            options={[{ value: '', label: 'Nothing' }, ...others.map((p) => ({ value: p.id, label: p.name }))]}
+          />
+        )}
+
+        <div className="flex items-center gap-3 pt-2">
+          {phase && (
+            <Button type="button" variant="secondary" leftIcon={<Trash2 className="w-4 h-4" />} onClick={() => setConfirmDelete(true)}>
+              Delete
+            </Button>
+          )}
+          <div className="flex-1" />
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+          </Button>
+        </div>
+      </form>
+
+      <ConfirmModal
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        title={`Delete ${isMilestone ? 'Milestone' : 'Phase'}`}
+        message={`Remove ${phase?.name ?? `this ${noun}`} and its dependencies from the schedule?`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+function ScheduleSection({
+  projectId,
+  plannedStart,
+  plannedEnd,
+  canEdit,
+}: {
+  projectId: string;
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  canEdit: boolean;
+}) {
+  const toast = useToast();
+  const { data, isLoading } = useProjectSchedule(projectId);
+  const updateMutation = useUpdatePhase(projectId);
+  const [zoom, setZoom] = useState<GanttZoom>('week');
+  const [editing, setEditing] = useState<{ phase: ProjectPhase | null; isMilestone: boolean } | null>(null);
+
+  const schedule = data?.data;
+
+  const handleReschedule = async (phase: ProjectPhase, startDate: string, endDate: string) => {
+    try {
+      const response = await updateMutation.mutateAsync({ id: phase.id, data: { startDate, endDate } });
+      const moved = response.data?.moved ?? [];
+      toast.success('Rescheduled', moved.length > 0 ? `${phase.name} moved. ${response.data?.message}` : `${phase.name} moved`);
+    } catch (err) {
+      console.error('Failed to reschedule phase:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to reschedule phase');
+    }
+  };
+
+  const daysLate = schedule?.finishDate && plannedEnd ? daysBetween(plannedEnd, schedule.finishDate) : 0;
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      <SectionHeader
+        title="Schedule"
+        icon={CalendarRange}
+        action={
+          <div className="flex items-center gap-2">
+            <select
+              value={zoom}
+              onChange={(e) => setZoom(e.target.value as GanttZoom)}
+              className="px-2 py-1 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white"
+            >
+              {ZOOM_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+            {canEdit && schedule && (
+              <>
+                <Button size="sm" variant="secondary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setEditing({ phase: null, isMilestone: false })}>
+                  Phase
+                </Button>
+                <Button size="sm" variant="secondary" leftIcon={<Diamond className="w-4 h-4" />} onClick={() => setEditing({ phase: null, isMilestone: true })}>
+                  Milestone
+                </Button>
+              </>
+            )}
+          </div>
+        }
+      />
+      <div className="p-4 bg-white dark:bg-slate-900 space-y-3">
+        {isLoading || !schedule ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-brand-600" />
+          </div>
+        ) : (
+          <>
+            {schedule.finishDate && (
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="text-slate-600 dark:text-slate-300">
+                  Scheduled {formatDate(schedule.startDate ?? schedule.finishDate)} – {formatDate(schedule.finishDate)}
+                </span>
+                {daysLate > 0 && (
+                  <span className="flex items-center gap-1 text-danger-600 dark:text-danger-400 font-medium">
+                    <AlertCircle className="w-4 h-4" />
+                    {daysLate} {daysLate === 1 ? 'day' : 'days'} past the planned finish
+                  </span>
+                )}
+                <span className="flex items-center gap-1.5 text-slate-500 dark:text-slate-400">
+                  <span className="w-3 h-3 rounded-sm bg-danger-500" /> Critical path
+                </span>
+                {canEdit && (
+                  <span className="text-slate-500 dark:text-slate-400">
+                    Drag a bar to move it, or its right edge to change the end date.
+                  </span>
+                )}
+              </div>
+            )}
+            <ProjectGantt
+              schedule={schedule}
+              zoom={zoom}
+              plannedStart={plannedStart}
+              plannedEnd={plannedEnd}
+              onReschedule={canEdit ? handleReschedule : undefined}
+              onSelect={canEdit ? (phase) => setEditing({ phase, isMilestone: phase.isMilestone }) : undefined}
+            />
+          </>
+        )}
+      </div>
+
+      {editing && schedule && (
+        <PhaseModal
+          key={editing.phase?.id ?? (editing.isMilestone ? 'new-milestone' : 'new-phase')}
+          projectId={projectId}
+          schedule={schedule}
+          phase={editing.phase}
+          isMilestone={editing.isMilestone}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Time
+// ============================================================================
+
+interface InvoiceHoursModalProps {
+  projectId: string;
+  unbilled: { userId: string; userName: string; hours: number }[];
+  onClose: () => void;
+}
+
+// Bill approved hours on a new draft invoice, at one rate or per person
+function InvoiceHoursModal({ projectId, unbilled, onClose }: InvoiceHoursModalProps) {
+  const navigate = useNavigate();
+  const toast = useToast();
+  const invoiceMutation = useInvoiceProjectHours(projectId);
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [rates, setRates] = useState<Record<string, string>>({});
+  const [taxable, setTaxable] = useState(false);
+
+  const rateFor = (userId: string) => parseFloat(rates[userId] || hourlyRate) || 0;
+  const total = unbilled.reduce((sum, person) => sum + person.hours * rateFor(person.userId), 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const personRates = Object.fromEntries(
+      Object.entries(rates).filter(([, rate]) => rate !== '').map(([userId, rate]) => [userId, parseFloat(rate) || 0])
+    );
+    try {
+      const response = await invoiceMutation.mutateAsync({
+        hourlyRate: parseFloat(hourlyRate) || 0,
+        rates: personRates,
+        taxable,
+      });
+      toast.success('Invoice drafted', response.data?.message ?? 'The hours were invoiced');
+      onClose();
+      if (response.data) {
+        navigate(`/invoices?search=${encodeURIComponent(response.data.invoiceNumber)}`);
+      }
+    } catch (err) {
+      console.error('Failed to invoice hours:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to invoice hours');
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="Invoice Approved Hours">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          label="Hourly rate *"
+          type="number"
+          min="0"
+          step="0.01"
+          value={hourlyRate}
+          onChange={(e) => setHourlyRate(e.target.value)}
+          leftAddon="$"
+          hint="Used for anyone without their own rate below"
+          required
+        />
+        <table className="w-full">
+          <thead>
+            <tr>
+              <th className={clsx(thClass, 'text-left')}>Person</th>
+              <th className={clsx(thClass, 'text-right')}>Hours</th>
+              <th className={clsx(thClass, 'text-right')}>Rate</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {unbilled.map((person) => (
+              <tr key={person.userId}>
+                <td className={tdClass}>{person.userName}</td>
+                <td className={clsx(tdClass, 'text-right')}>{formatHours(person.hours)}</td>
+                <td className={clsx(tdClass, 'w-32')}>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={rates[person.userId] ?? ''}
+                    onChange={(e) => setRates({ ...rates, [person.userId]: e.target.value })}
+                    placeholder={hourlyRate || '0.00'}
+                    leftAddon="$"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <input type="checkbox" checked={taxable} onChange={(e) => setTaxable(e.target.checked)} />
+          Labor is taxable
+        </label>
+        <div className="flex items-center justify-between pt-2">
+          <span className="text-sm text-slate-600 dark:text-slate-300">
+            Subtotal <span className="font-semibold text-slate-900 dark:text-white">{formatMoney(total)}</span>
+          </span>
+          <div className="flex gap-3">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={invoiceMutation.isPending}>
+              {invoiceMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Draft Invoice'}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+function TimeSection({ projectId }: { projectId: string }) {
+  const canInvoice = usePermission('accounting:edit');
+  const { data, isLoading } = useProjectTime(projectId);
+  const [isInvoicing, setIsInvoicing] = useState(false);
+  const summary = data?.data;
+  const unbilled = summary?.unbilled ?? [];
+
+  const totals = summary
+    ? [
+        { label: 'Logged', hours: summary.totalHours },
+        { label: 'Approved', hours: summary.approvedHours },
+        { label: 'Approved billable', hours: summary.billableHours },
+        { label: 'Invoiced', hours: summary.invoicedHours },
+      ]
+    : [];
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      <SectionHeader
+        title="Time"
+        icon={Clock}
+        action={
+          canInvoice && unbilled.length > 0 && (
+            <Button variant="secondary" size="sm" leftIcon={<Receipt className="w-4 h-4" />} onClick={() => setIsInvoicing(true)}>
+              Invoice Hours
+            </Button>
+          )
+        }
+      />
+      <div className="bg-white dark:bg-slate-900">
+        {isLoading || !summary ? (
+          <div className="flex justify-center py-6"><Loader2 className="w-5 h-5 animate-spin text-brand-600" /></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4">
+              {totals.map((total) => (
+                <div key={total.label}>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{total.label}</p>
+                  <p className="mt-1 text-lg font-semibold text-slate-900 dark:text-white">{formatHours(total.hours)}</p>
+                </div>
+              ))}
+            </div>
+            {unbilled.length > 0 && (
+              <table className="w-full border-t border-slate-200 dark:border-slate-700">
+                <thead className="bg-slate-50 dark:bg-slate-800/50">
+                  <tr>
+                    <th className={clsx(thClass, 'text-left')}>Not yet invoiced</th>
+                    <th className={clsx(thClass, 'text-right')}>Entries</th>
+                    <th className={clsx(thClass, 'text-right')}>Hours</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                  {unbilled.map((person) => (
+                    <tr key={person.userId}>
+                      <td className={tdClass}>{person.userName}</td>
+                      <td className={clsx(tdClass, 'text-right')}>{person.entryCount}</td>
+                      <td className={clsx(tdClass, 'text-right')}>{formatHours(person.hours)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </div>
+
+      {isInvoicing && (
+        <InvoiceHoursModal projectId={projectId} unbilled={unbilled} onClose={() => setIsInvoicing(false)} />
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Linked estimates and invoices
+// ============================================================================
+
+function LinkedEstimates({ projectId }: { projectId: string }) {
+  const navigate = useNavigate();
+  const { data, isLoading } = useEstimates({ projectId, limit: 50 });
+  const estimates = data?.data?.estimates ?? [];
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      <SectionHeader title="Estimates" icon={FileText} action={<span className="text-sm text-slate-500">{estimates.length}</span>} />
+      <div className="bg-white dark:bg-slate-900">
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="w-5 h-5 animate-spin text-brand-600" /></div>
+        ) : estimates.length === 0 ? (
+          <p className="px-4 py-4 text-sm text-slate-500 dark:text-slate-400">No estimates for this project.</p>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-slate-50 dark:bg-slate-800/50">
+              <tr>
+                <th className={clsx(thClass, 'text-left')}>Number</th>
+                <th className={clsx(thClass, 'text-left')}>Status</th>
+                <th className={clsx(thClass, 'text-right')}>Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {estimates.map((estimate) => (
+                <tr
+                  key={estimate.id}
+                  onClick={() => navigate(`/estimates?search=${encodeURIComponent(estimate.estimateNumber)}`)}
+                  className="cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800"
+                >
+                  <td className={clsx(tdClass, 'font-medium text-brand-600 dark:text-brand-400')}>{estimate.estimateNumber}</td>
+                  <td className={tdClass}>{statusLabel(estimate.status)}</td>
+                  <td className={clsx(tdClass, 'text-right')}>{formatMoney(estimate.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function LinkedInvoices({ projectId }: { projectId: string }) {
+  const navigate = useNavigate();
+  const { data, isLoading } = useInvoices({ projectId, limit: 50 });
+  const invoices = data?.data?.invoices ?? [];
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      <SectionHeader title="Invoices" icon={Receipt} action={<span className="text-sm text-slate-500">{invoices.length}</span>} />
+      <div className="bg-white dark:bg-slate-900">
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="w-5 h-5 animate-spin text-brand-600" /></div>
+        ) : invoices.length === 0 ? (
+          <p className="px-4 py-4 text-sm text-slate-500 dark:text-slate-400">No invoices for this project.</p>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-slate-50 dark:bg-slate-800/50">
+              <tr>
+                <th className={clsx(thClass, 'text-left')}>Number</th>
+                <th className={clsx(thClass, 'text-left')}>Status</th>
+                <th className={clsx(thClass, 'text-right')}>Total</th>
+                <th className={clsx(thClass, 'text-right')}>Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {invoices.map((invoice) => (
+                <tr
+                  key={invoice.id}
+                  onClick={() => navigate(`/invoices?search=${encodeURIComponent(invoice.invoiceNumber)}`)}
+                  className="cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800"
+                >
+                  <td className={clsx(tdClass, 'font-medium text-brand-600 dark:text-brand-400')}>{invoice.invoiceNumber}</td>
+                  <td className={tdClass}>{statusLabel(invoice.status)}</td>
+                  <td className={clsx(tdClass, 'text-right')}>{formatMoney(invoice.total)}</td>
+                  <td className={clsx(tdClass, 'text-right')}>{formatMoney(invoice.balanceDue)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+export function ProjectDetailPage() {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+  const canEdit = usePermission('projects:edit');
+  const canViewCosts = usePermission('projects:costs');
+  const canViewEstimates = usePermission('estimating:view');
+  const canViewInvoices = usePermission('accounting:view');
+  const { data, isLoading, error } = useProject(id);
+  const { users } = useUsersStore();
+  const { createTask, updateTask, deleteTask } = useTaskStore();
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [isTaskPanelOpen, setIsTaskPanelOpen] = useState(false);
+
+  const project = data?.data;
+  useDocumentTitle(project?.name ?? 'Project');
+
+  if (isLoading || !project) {
+    return (
+      <Page title="Project">
+        {error ? (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-danger-50 dark:bg-danger-900/20 text-sm text-danger-700 dark:text-danger-400">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error instanceof Error ? error.message : 'Failed to load project'}
+          </div>
+        ) : (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-brand-600" />
+          </div>
+        )}
+      </Page>
+    );
+  }
+
+  const plannedStart = project.startDate?.split('T')[0] ?? null;
+  const plannedEnd = project.endDate?.split('T')[0] ?? null;
+
+  const stats = [
+    { label: 'Status', value: (
+      <span className={clsx('inline-flex px-2 py-0.5 rounded-full text-xs font-medium', PROJECT_STATUS_COLORS[project.status])}>
+        {PROJECT_STATUS_LABELS[project.status]}
+      </span>
+    ) },
+    { label: 'Planned', value: (
+      <>
+        {plannedStart || plannedEnd
+          ? `${plannedStart ? formatDate(plannedStart) : '?'} – ${plannedEnd ? formatDate(plannedEnd) : '?'}`
+          : 'Not set'}
+        {project.scheduleImpactDays !== 0 && (
+          <p className="text-xs font-normal text-slate-500 dark:text-slate-400">
+            {project.scheduleImpactDays > 0 ? '+' : ''}{project.scheduleImpactDays} days by change orders
+          </p>
+        )}
+      </>
+    ) },
+    { label: 'Contract', value: (
+      <>
+        {formatMoney(project.revisedContractValue)}
+        {project.approvedChangeOrders !== 0 && (
+          <p className="text-xs font-normal text-slate-500 dark:text-slate-400">
+            {formatMoney(project.originalContractValue)} original, {formatMoney(project.approvedChangeOrders)} in change orders
+          </p>
+        )}
+      </>
+    ) },
+    { label: 'Budget', value: project.budget ? formatMoney(project.budget) : 'Not set' },
+    { label: 'Spent', value: formatMoney(project.spent) },
+  ];
+
+  return (
+    <Page
+      title={project.name}
+      description={[project.clientName, project.managerName && `Managed by ${project.managerName}`].filter(Boolean).join(' · ')}
+      actions={
+        <div className="flex gap-2">
+          <Button variant="secondary" leftIcon={<ArrowLeft className="w-4 h-4" />} onClick={() => navigate('/projects')}>
+            Back
+          </Button>
+          {canViewCosts && (
+            <Button variant="secondary" leftIcon={<Calculator className="w-4 h-4" />} onClick={() => navigate(`/projects/${project.id}/costs`)}>
+              Job Cost
+            </Button>
+          )}
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {stats.map((stat) => (
+            <div key={stat.label} className="border border-slate-200 dark:border-slate-700 rounded-lg p-4 bg-white dark:bg-slate-900">
+              <p className="text-xs text-slate-500 dark:text-slate-400">{stat.label}</p>
+              <div className="mt-1 text-lg font-semibold text-slate-900 dark:text-white">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {project.description && (
+          <p className="text-sm text-slate-600 dark:text-slate-300 whitespace-pre-wrap">{project.description}</p>
+        )}
+
+        <ChangeOrdersSection projectId={project.id} />
+
+        <ScheduleSection projectId={project.id} plannedStart={plannedStart} plannedEnd={plannedEnd} canEdit={canEdit} />
+
+        <SubcontractorsSection projectId={project.id} />
+
+        <TimeSection projectId={project.id} />
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {canViewEstimates && <LinkedEstimates projectId={project.id} />}
+          {canViewInvoices && <LinkedInvoices projectId={project.id} />}
+        </div>
+
+        <EntityTasksSection
+          entityType="project"
+          entityId={project.id}
+          entityName={project.name}
+          onAddTask={() => {
+            setSelectedTask(null);
+            setIsTaskPanelOpen(true);
+          }}
+          onTaskClick={(task) => {
+            setSelectedTask(task);
+            setIsTaskPanelOpen(true);
+          }}
+        />
+      </div>
+
+      <TaskDetailPanel
+        task={selectedTask}
+        isOpen={isTaskPanelOpen}
+        onClose={() => {
+          setIsTaskPanelOpen(false);
+          setSelectedTask(null);
+        }}
+        onSave={async (data, markDone) => {
+          const user = users.find(u => u.id === data.assignedUserId);
+          const taskData = { ...data, assignedUserName: user?.name || '' };
+
+          if (selectedTask) {
+            if (markDone && selectedTask.status !== 'completed') {
+              await updateTask(selectedTask.id, { ...taskData, status: 'completed' } as TaskInput);
+              toast.success('Task Completed', 'Task has been marked as done');
+            } else if (!markDone && selectedTask.status === 'completed') {
+              await updateTask(selectedTask.id, { ...taskData, status: 'todo' } as TaskInput);
+              toast.success('Task Updated', 'Task has been reopened');
+            } else {
+              await updateTask(selectedTask.id, taskData);
+              toast.success('Task Updated', 'Your changes have been saved');
+            }
+          } else {
+            await createTask(taskData);
+            toast.success('Task Created', 'New task has been added');
+          }
+          setIsTaskPanelOpen(false);
+          setSelectedTask(null);
+        }}
+        onDelete={async (taskId) => {
+          await deleteTask(taskId);
+          toast.success('Task Deleted', 'The task has been removed');
+        }}
+        defaultLinkedItem={{
+          type: 'project',
+          id: project.id,
+          name: project.name,
+        }}
+      />
+    </Page>
+  );
+}
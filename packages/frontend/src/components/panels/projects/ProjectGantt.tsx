@@ -0,0 +1,322 @@
+// ============================================================================
+// ProjectGantt Component
+// Location: src/components/panels/projects/ProjectGantt.tsx
+//
+// Timeline of a project's phases and milestones. Phases on the critical path
+// are drawn in red and arrows show what waits on what. Where the schedule is
+// editable, dragging a bar moves the phase and dragging its right edge moves
+// its end; the server then pushes back anything that depends on it.
+// ============================================================================
+
+import { useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import type { ProjectPhase, ProjectSchedule } from '@/services/api';
+import { addDays, formatDate, getTodayISO } from '@/utils/dateUtils';
+
+export type GanttZoom = 'day' | 'week' | 'month';
+
+const DAY_WIDTH: Record<GanttZoom, number> = { day: 32, week: 14, month: 5 };
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const HEADER_HEIGHT = 32;
+const MILESTONE_SIZE = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days since the epoch, so dates can be placed and subtracted
+function dayNumber(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+}
+
+function dateOf(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Grid lines and labels along the top: every day, every Monday or every 1st
+function ticks(start: number, end: number, zoom: GanttZoom): { day: number; label: string }[] {
+  const result: { day: number; label: string }[] = [];
+  for (let day = start; day <= end; day++) {
+    const date = new Date(day * DAY_MS);
+    if (zoom === 'day') {
+      result.push({ day, label: String(date.getUTCDate()) });
+    } else if (zoom === 'week' && date.getUTCDay() === 1) {
+      result.push({ day, label: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }) });
+    } else if (zoom === 'month' && date.getUTCDate() === 1) {
+      result.push({ day, label: date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' }) });
+    }
+  }
+  return result;
+}
+
+interface DragState {
+  phaseId: string;
+  mode: 'move' | 'resize';
+  originX: number;
+  days: number;
+}
+
+interface ProjectGanttProps {
+  schedule: ProjectSchedule;
+  zoom: GanttZoom;
+  // The project's own start and end dates, marked on the timeline
+  plannedStart?: string | null;
+  plannedEnd?: string | null;
+  // Both omitted when the schedule is read-only
+  onReschedule?: (phase: ProjectPhase, startDate: string, endDate: string) => void;
+  onSelect?: (phase: ProjectPhase) => void;
+}
+
+export function ProjectGantt({ schedule, zoom, plannedStart, plannedEnd, onReschedule, onSelect }: ProjectGanttProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dayWidth = DAY_WIDTH[zoom];
+  const { phases, dependencies } = schedule;
+  const today = getTodayISO();
+
+  const range = useMemo(() => {
+    const days = [
+      ...phases.flatMap((p) => [dayNumber(p.startDate), dayNumber(p.endDate)]),
+      ...[plannedStart, plannedEnd].flatMap((d) => (d ? [dayNumber(d)] : [])),
+    ];
+    if (days.length === 0) days.push(dayNumber(today));
+    return { start: Math.min(...days) - 3, end: Math.max(...days) + 10 };
+  }, [phases, plannedStart, plannedEnd, today]);
+
+  const width = (range.end - range.start + 1) * dayWidth;
+  const height = HEADER_HEIGHT + Math.max(phases.length, 1) * ROW_HEIGHT;
+  const rowOf = new Map(phases.map((p, i) => [p.id, i]));
+  const x = (day: number) => (day - range.start) * dayWidth;
+  const rowCenter = (row: number) => HEADER_HEIGHT + row * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  // Where a phase is drawn, following the bar being dragged
+  const span = (phase: ProjectPhase) => {
+    let start = dayNumber(phase.startDate);
+    let end = dayNumber(phase.endDate);
+    if (drag?.phaseId === phase.id) {
+      if (drag.mode === 'move') start += drag.days;
+      end += drag.days;
+    }
+    return { start, end };
+  };
+
+  const startDrag = (e: React.PointerEvent, phase: ProjectPhase, mode: DragState['mode']) => {
+    if (!onReschedule) return;
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setDrag({ phaseId: phase.id, mode, originX: e.clientX, days: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    let days = Math.round((e.clientX - drag.originX) / dayWidth);
+    if (drag.mode === 'resize') {
+      const phase = phases.find((p) => p.id === drag.phaseId);
+      // Down to a single day, no further
+      if (phase) days = Math.max(days, dayNumber(phase.startDate) - dayNumber(phase.endDate));
+    }
+    if (days !== drag.days) setDrag({ ...drag, days });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const phase = phases.find((p) => p.id === drag.phaseId);
+    setDrag(null);
+    if (!phase) return;
+
+    if (drag.days === 0) {
+      onSelect?.(phase);
+    } else if (drag.mode === 'move') {
+      onReschedule?.(phase, addDays(phase.startDate, drag.days), addDays(phase.endDate, drag.days));
+    } else {
+      onReschedule?.(phase, phase.startDate, addDays(phase.endDate, drag.days));
+    }
+  };
+
+  const markers = [
+    { date: plannedStart, label: 'Planned start', className: 'border-slate-400' },
+    { date: plannedEnd, label: 'Planned finish', className: 'border-warning-500' },
+    { date: today, label: 'Today', className: 'border-brand-500' },
+  ].filter((m): m is { date: string; label: string; className: string } =>
+    !!m.date && dayNumber(m.date) >= range.start && dayNumber(m.date) <= range.end
+  );
+
+  return (
+    <div className="flex border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden bg-white dark:bg-slate-900">
+      {/* Phase names */}
+      <div className="w-56 flex-shrink-0 border-r border-slate-200 dark:border-slate-700">
+        <div
+          className="px-3 flex items-center text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider border-b border-slate-200 dark:border-slate-700"
+          style={{ height: HEADER_HEIGHT }}
+        >
+          Phase
+        </div>
+        {phases.map((phase) => (
+          <button
+            key={phase.id}
+            type="button"
+            onClick={() => onSelect?.(phase)}
+            disabled={!onSelect}
+            className="w-full px-3 text-left flex flex-col justify-center border-b border-slate-100 dark:border-slate-800 enabled:hover:bg-slate-50 dark:enabled:hover:bg-slate-800"
+            style={{ height: ROW_HEIGHT }}
+          >
+            <span className={clsx(
+              'text-sm truncate',
+              phase.critical ? 'font-medium text-danger-700 dark:text-danger-400' : 'text-slate-900 dark:text-white'
+            )}>
+              {phase.name}
+            </span>
+            <span className="text-xs text-slate-500 dark:text-slate-400 truncate">
+              {phase.isMilestone
+                ? formatDate(phase.startDate)
+                : `${formatDate(phase.startDate)} – ${formatDate(phase.endDate)} · ${phase.percentComplete}%`}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* Timeline */}
+      <div className="flex-1 overflow-x-auto">
+        <div
+          className="relative select-none"
+          style={{ width, height }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+        >
+          {/* Header and grid */}
+          <div className="absolute inset-x-0 top-0 border-b border-slate-200 dark:border-slate-700" style={{ height: HEADER_HEIGHT }} />
+          {ticks(range.start, range.end, zoom).map((tick) => (
+            <div key={tick.day} className="absolute top-0 bottom-0 border-l border-slate-100 dark:border-slate-800" style={{ left: x(tick.day) }}>
+              <span className="absolute top-2 left-1 text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                {tick.label}
+              </span>
+            </div>
+          ))}
+          {phases.map((phase, row) => (
+            <div
+              key={phase.id}
+              className="absolute inset-x-0 border-b border-slate-100 dark:border-slate-800"
+              style={{ top: HEADER_HEIGHT + row * ROW_HEIGHT, height: ROW_HEIGHT }}
+            />
+          ))}
+          {markers.map((marker) => (
+            <div
+              key={marker.label}
+              className={clsx('absolute bottom-0 border-l-2 border-dashed', marker.className)}
+              style={{ left: x(dayNumber(marker.date)), top: HEADER_HEIGHT }}
+              title={`${marker.label}: ${formatDate(marker.date)}`}
+            />
+          ))}
+
+          {/* Dependency arrows, from the end of one phase to the start of the next */}
+          <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+            <defs>
+              <marker id="gantt-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L6,3 L0,6 z" className="fill-slate-400" />
+              </marker>
+              <marker id="gantt-arrow-critical" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L6,3 L0,6 z" className="fill-danger-500" />
+              </marker>
+            </defs>
+            {dependencies.map((dep) => {
+              const predecessor = phases.find((p) => p.id === dep.predecessorId);
+              const successor = phases.find((p) => p.id === dep.successorId);
+              if (!predecessor || !successor) return null;
+              const from = span(predecessor);
+              const to = span(successor);
+              const x1 = x(from.end + 1) - (predecessor.isMilestone ? dayWidth / 2 : 0);
+              const x2 = x(to.start) + (successor.isMilestone ? dayWidth / 2 - MILESTONE_SIZE / 2 : 0);
+              const y1 = rowCenter(rowOf.get(predecessor.id) ?? 0);
+              const y2 = rowCenter(rowOf.get(successor.id) ?? 0);
+              // Step down between the rows when the successor starts too close to turn
+              const path = x2 - x1 >= 12
+                ? `M${x1},${y1} H${x1 + 6} V${y2} H${x2}`
+                : `M${x1},${y1} H${x1 + 6} V${(y1 + y2) / 2} H${x2 - 6} V${y2} H${x2}`;
+              const critical = predecessor.critical && successor.critical;
+              return (
+                <path
+                  key={`${dep.predecessorId}-${dep.successorId}`}
+                  d={path}
+                  fill="none"
+                  strokeWidth={1.5}
+                  className={critical ? 'stroke-danger-500' : 'stroke-slate-400'}
+                  markerEnd={`url(#${critical ? 'gantt-arrow-critical' : 'gantt-arrow'})`}
+                />
+              );
+            })}
+          </svg>
+
+          {/* Bars */}
+          {phases.map((phase, row) => {
+            const { start, end } = span(phase);
+            const top = HEADER_HEIGHT + row * ROW_HEIGHT;
+            const dragging = drag?.phaseId === phase.id;
+            const title = phase.isMilestone
+              ? `${phase.name}: ${formatDate(dateOf(start))}`
+              : `${phase.name}: ${formatDate(dateOf(start))} – ${formatDate(dateOf(end))}` +
+                (phase.critical ? ' (critical)' : ` (${phase.float} days float)`);
+
+            if (phase.isMilestone) {
+              return (
+                <div
+                  key={phase.id}
+                  title={title}
+                  onPointerDown={(e) => startDrag(e, phase, 'move')}
+                  className={clsx(
+                    'absolute rotate-45 border-2',
+                    phase.critical ? 'bg-danger-500 border-danger-600' : 'bg-brand-500 border-brand-600',
+                    onReschedule && 'cursor-grab',
+                    dragging && 'cursor-grabbing ring-2 ring-brand-300'
+                  )}
+                  style={{
+                    left: x(start) + dayWidth / 2 - MILESTONE_SIZE / 2,
+                    top: top + (ROW_HEIGHT - MILESTONE_SIZE) / 2,
+                    width: MILESTONE_SIZE,
+                    height: MILESTONE_SIZE,
+                  }}
+                />
+              );
+            }
+
+            return (
+              <div
+                key={phase.id}
+                title={title}
+                onPointerDown={(e) => startDrag(e, phase, 'move')}
+                className={clsx(
+                  'absolute rounded overflow-hidden',
+                  phase.critical ? 'bg-danger-200 dark:bg-danger-900/50' : 'bg-brand-200 dark:bg-brand-900/50',
+                  onReschedule && 'cursor-grab',
+                  dragging && 'cursor-grabbing ring-2 ring-brand-300'
+                )}
+                style={{
+                  left: x(start),
+                  top: top + (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                  width: Math.max((end - start + 1) * dayWidth, 4),
+                  height: BAR_HEIGHT,
+                }}
+              >
+                {/* Progress */}
+                <div
+                  className={clsx('h-full', phase.critical ? 'bg-danger-500' : 'bg-brand-500')}
+                  style={{ width: `${phase.percentComplete}%` }}
+                />
+                {onReschedule && (
+                  <div
+                    onPointerDown={(e) => startDrag(e, phase, 'resize')}
+                    className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-black/10"
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          {phases.length === 0 && (
+            <p className="absolute left-4 text-sm text-slate-500 dark:text-slate-400" style={{ top: HEADER_HEIGHT + 10 }}>
+              No phases or milestones yet.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,928 @@
+// ============================================================================
+// ProjectJobCostPage Component
+// Location: src/components/panels/projects/ProjectJobCostPage.tsx
+//
+// A project's job cost: the budget, commitments and actual costs by cost
+// code, against what has been billed. Below the report are the budget lines
+// (seeded from the approved estimate or entered by hand), the subcontracts
+// and POs issued, and the costs recorded.
+// ============================================================================
+
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { clsx } from 'clsx';
+import { ArrowLeft, Plus, Edit, Trash2, FileDown, Download, Loader2, AlertCircle } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Input, Modal, ConfirmModal, Select } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useProject,
+  useClients,
+  useCostCodes,
+  useJobCostReport,
+  useProjectBudget,
+  useCommitments,
+  useCostEntries,
+  useSeedBudget,
+  useCreateBudgetLine,
+  useUpdateBudgetLine,
+  useDeleteBudgetLine,
+  useCreateCommitment,
+  useUpdateCommitment,
+  useDeleteCommitment,
+  useCreateCostEntry,
+  useUpdateCostEntry,
+  useDeleteCostEntry,
+  fetchJobCostReportCsv,
+  JOB_COST_TYPE_LABELS,
+  type BudgetLine,
+  type Commitment,
+  type CommitmentStatus,
+  type CommitmentType,
+  type CostEntry,
+  type JobCostType,
+  type JobCostTotals,
+} from '@/services/api';
+import { useDocumentTitle, usePermission } from '@/hooks';
+import { formatDate, getTodayISO } from '@/utils/dateUtils';
+import { downloadTextFile } from '@/utils/routeExport';
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+}
+
+const COST_TYPE_OPTIONS = (Object.keys(JOB_COST_TYPE_LABELS) as JobCostType[]).map((type) => ({
+  value: type,
+  label: JOB_COST_TYPE_LABELS[type],
+}));
+
+const COMMITMENT_TYPE_LABELS: Record<CommitmentType, string> = {
+  subcontract: 'Subcontract',
+  purchase_order: 'Purchase Order',
+};
+
+const COMMITMENT_STATUS_LABELS: Record<CommitmentStatus, string> = {
+  open: 'Open',
+  closed: 'Closed',
+  void: 'Void',
+};
+
+const thClass = 'px-3 py-2 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider';
+const tdClass = 'px-3 py-2 text-sm text-slate-700 dark:text-slate-300';
+
+function iconButton(title: string, icon: React.ReactNode, onClick: () => void, danger = false) {
+  return (
+    <button
+      onClick={onClick}
+      className={clsx(
+        'p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700',
+        danger ? 'hover:text-danger-600' : 'hover:text-brand-600'
+      )}
+      title={title}
+    >
+      {icon}
+    </button>
+  );
+}
+
+function Section({ title, action, children }: { title: string; action?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+        <h3 className="font-semibold text-slate-900 dark:text-white">{title}</h3>
+        {action}
+      </div>
+      <div className="overflow-x-auto">{children}</div>
+    </div>
+  );
+}
+
+// Cost code options for the forms; a code that was since deactivated stays
+// selectable on the lines already booked to it
+function useCostCodeOptions(currentId?: string) {
+  const { data } = useCostCodes(true);
+  const codes = data?.data ?? [];
+  return codes
+    .filter((c) => c.isActive || c.id === currentId)
+    .map((c) => ({ value: c.id, label: `${c.code} ${c.name}` }));
+}
+
+function useVendorOptions() {
+  const { data } = useClients({ limit: 100, active: true });
+  return [
+    { value: '', label: 'No vendor' },
+    ...(data?.data ?? []).map((c) => ({ value: c.id, label: c.name })),
+  ];
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+const REPORT_COLUMNS: { label: string; key: keyof JobCostTotals }[] = [
+  { label: 'Budget', key: 'budget' },
+  { label: 'Committed', key: 'committed' },
+  { label: 'Actual', key: 'actual' },
+  { label: 'Open Commitments', key: 'uncommitted' },
+  { label: 'Projected', key: 'projected' },
+  { label: 'Variance', key: 'variance' },
+  { label: 'Billed', key: 'billed' },
+];
+
+function reportCell(key: keyof JobCostTotals, amount: number) {
+  return (
+    <span className={clsx(key === 'variance' && amount < 0 && 'text-danger-600 dark:text-danger-400 font-medium')}>
+      {formatMoney(amount)}
+    </span>
+  );
+}
+
+function JobCostReportTable({ projectId }: { projectId: string }) {
+  const { data, isLoading } = useJobCostReport(projectId);
+  const report = data?.data;
+
+  if (isLoading || !report) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-brand-600" />
+      </div>
+    );
+  }
+
+  if (report.rows.length === 0) {
+    return (
+      <p className="px-4 py-6 text-sm text-slate-500 dark:text-slate-400">
+        Nothing budgeted, committed, spent or billed yet.
+      </p>
+    );
+  }
+
+  return (
+    <table className="w-full">
+      <thead className="bg-slate-50 dark:bg-slate-800/50">
+        <tr>
+          <th className={clsx(thClass, 'text-left')}>Cost Code</th>
+          {REPORT_COLUMNS.map((col) => (
+            <th key={col.key} className={clsx(thClass, 'text-right')}>{col.label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+        {report.rows.map((row) => (
+          <tr key={row.costCodeId ?? 'uncoded'}>
+            <td className={tdClass}>
+              {row.code && <span className="font-mono mr-2">{row.code}</span>}
+              <span className={clsx(!row.code && 'italic text-slate-500')}>{row.name}</span>
+            </td>
+            {REPORT_COLUMNS.map((col) => (
+              <td key={col.key} className={clsx(tdClass, 'text-right')}>{reportCell(col.key, row[col.key])}</td>
+            ))}
+          </tr>
+        ))}
+        <tr className="bg-slate-50 dark:bg-slate-800/50 font-semibold">
+          <td className={clsx(tdClass, 'text-slate-900 dark:text-white')}>Total</td>
+          {REPORT_COLUMNS.map((col) => (
+            <td key={col.key} className={clsx(tdClass, 'text-right text-slate-900 dark:text-white')}>
+              {reportCell(col.key, report.totals[col.key])}
+            </td>
+          ))}
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+// ============================================================================
+// Budget
+// ============================================================================
+
+function BudgetLineModal({ projectId, line, onClose }: { projectId: string; line: BudgetLine | null; onClose: () => void }) {
+  const toast = useToast();
+  const createMutation = useCreateBudgetLine(projectId);
+  const updateMutation = useUpdateBudgetLine(projectId);
+  const costCodeOptions = useCostCodeOptions(line?.costCodeId);
+  const [costCodeId, setCostCodeId] = useState(line?.costCodeId ?? '');
+  const [description, setDescription] = useState(line?.description ?? '');
+  const [amount, setAmount] = useState(line ? String(line.amount) : '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = { costCodeId, description: description.trim(), amount: parseFloat(amount) || 0 };
+    try {
+      if (line) {
+        await updateMutation.mutateAsync({ id: line.id, data: input });
+      } else {
+        await createMutation.mutateAsync(input);
+      }
+      toast.success('Saved', 'Budget line saved');
+      onClose();
+    } catch (err) {
+      console.error('Failed to save budget line:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save budget line');
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Modal isOpen onClose={onClose} title={line ? 'Edit Budget Line' : 'New Budget Line'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Select
+          label="Cost code *"
+          value={costCodeId}
+          onChange={(e) => setCostCodeId(e.target.value)}
+          options={[{ value: '', label: 'Select a cost code' }, ...costCodeOptions]}
+          required
+        />
+        <Input label="Description *" value={description} onChange={(e) => setDescription(e.target.value)} required />
+        <Input
+          label="Amount *"
+          type="number"
+          step="0.01"
+          leftAddon="$"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          required
+        />
+        <div className="flex justify-end gap-3 pt-2">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+function BudgetSection({ projectId, canEdit }: { projectId: string; canEdit: boolean }) {
+  const toast = useToast();
+  const { data } = useProjectBudget(projectId);
+  const seedMutation = useSeedBudget(projectId);
+  const deleteMutation = useDeleteBudgetLine(projectId);
+  const [editing, setEditing] = useState<BudgetLine | 'new' | null>(null);
+  const [toDelete, setToDelete] = useState<BudgetLine | null>(null);
+  const [confirmSeed, setConfirmSeed] = useState(false);
+
+  const lines = data?.data ?? [];
+
+  const handleSeed = async () => {
+    try {
+      const response = await seedMutation.mutateAsync({ replace: lines.length > 0 });
+      toast.success('Budget seeded', response.data?.message ?? 'Budget seeded from the approved estimate');
+    } catch (err) {
+      console.error('Failed to seed budget:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to seed budget');
+    }
+    setConfirmSeed(false);
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteMutation.mutateAsync(toDelete.id);
+      toast.success('Deleted', 'Budget line removed');
+    } catch (err) {
+      console.error('Failed to delete budget line:', err);
+      toast.error('Error', 'Failed to delete budget line');
+    }
+    setToDelete(null);
+  };
+
+  return (
+    <Section
+      title="Budget"
+      action={canEdit && (
+        <div className="flex gap-2">
+          <Button size="sm" variant="secondary" leftIcon={<Download className="w-4 h-4" />} onClick={() => setConfirmSeed(true)}>
+            Seed from Estimate
+          </Button>
+          <Button size="sm" variant="secondary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setEditing('new')}>
+            Add Line
+          </Button>
+        </div>
+      )}
+    >
+      {lines.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-slate-500 dark:text-slate-400">
+          No budget yet. Seed it from the project's approved estimate or add lines by hand.
+        </p>
+      ) : (
+        <table className="w-full">
+          <thead className="bg-slate-50 dark:bg-slate-800/50">
+            <tr>
+              <th className={clsx(thClass, 'text-left')}>Cost Code</th>
+              <th className={clsx(thClass, 'text-left')}>Description</th>
+              <th className={clsx(thClass, 'text-left')}>Source</th>
+              <th className={clsx(thClass, 'text-right')}>Amount</th>
+              {canEdit && <th className={thClass} />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {lines.map((line) => (
+              <tr key={line.id}>
+                <td className={clsx(tdClass, 'font-mono')}>{line.costCode}</td>
+                <td className={tdClass}>{line.description}</td>
+                <td className={clsx(tdClass, 'text-slate-500')}>{line.estimateNumber ?? 'Manual'}</td>
+                <td className={clsx(tdClass, 'text-right')}>{formatMoney(line.amount)}</td>
+                {canEdit && (
+                  <td className={clsx(tdClass, 'text-right whitespace-nowrap')}>
+                    {iconButton('Edit', <Edit className="w-4 h-4" />, () => setEditing(line))}
+                    {iconButton('Delete', <Trash2 className="w-4 h-4" />, () => setToDelete(line), true)}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {editing && (
+        <BudgetLineModal
+          key={editing === 'new' ? 'new' : editing.id}
+          projectId={projectId}
+          line={editing === 'new' ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={confirmSeed}
+        onClose={() => setConfirmSeed(false)}
+        onConfirm={handleSeed}
+        title="Seed Budget from Estimate"
+        message={lines.length > 0
+          ? 'Replace the budget with the line items of the project\'s approved estimate? Lines entered by hand are removed.'
+          : 'Budget the line items of the project\'s approved estimate at cost?'}
+        confirmText={lines.length > 0 ? 'Replace Budget' : 'Seed Budget'}
+        variant={lines.length > 0 ? 'danger' : 'primary'}
+        isLoading={seedMutation.isPending}
+      />
+
+      <ConfirmModal
+        isOpen={!!toDelete}
+        onClose={() => setToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Budget Line"
+        message={`Delete "${toDelete?.description ?? ''}" from the budget?`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Section>
+  );
+}
+
+// ============================================================================
+// Commitments
+// ============================================================================
+
+function CommitmentModal({ projectId, commitment, onClose }: { projectId: string; commitment: Commitment | null; onClose: () => void }) {
+  const toast = useToast();
+  const createMutation = useCreateCommitment(projectId);
+  const updateMutation = useUpdateCommitment(projectId);
+  const costCodeOptions = useCostCodeOptions(commitment?.costCodeId);
+  const vendorOptions = useVendorOptions();
+  const [form, setForm] = useState({
+    costCodeId: commitment?.costCodeId ?? '',
+    commitmentType: commitment?.commitmentType ?? ('subcontract' as CommitmentType),
+    reference: commitment?.reference ?? '',
+    vendorId: commitment?.vendorId ?? '',
+    description: commitment?.description ?? '',
+    amount: commitment ? String(commitment.amount) : '',
+    issuedDate: commitment?.issuedDate ?? getTodayISO(),
+    status: commitment?.status ?? ('open' as CommitmentStatus),
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = {
+      costCodeId: form.costCodeId,
+      commitmentType: form.commitmentType,
+      reference: form.reference.trim() || null,
+      vendorId: form.vendorId || null,
+      description: form.description.trim(),
+      amount: parseFloat(form.amount) || 0,
+      issuedDate: form.issuedDate,
+    };
+    try {
+      if (commitment) {
+        await updateMutation.mutateAsync({ id: commitment.id, data: { ...input, status: form.status } });
+      } else {
+        await createMutation.mutateAsync(input);
+      }
+      toast.success('Saved', `${COMMITMENT_TYPE_LABELS[form.commitmentType]} saved`);
+      onClose();
+    } catch (err) {
+      console.error('Failed to save commitment:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save commitment');
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Modal isOpen onClose={onClose} title={commitment ? 'Edit Commitment' : 'New Commitment'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <Select
+            label="Type"
+            value={form.commitmentType}
+            onChange={(e) => setForm({ ...form, commitmentType: e.target.value as CommitmentType })}
+            options={Object.entries(COMMITMENT_TYPE_LABELS).map(([value, label]) => ({ value, label }))}
+          />
+          <Input
+            label="Number"
+            value={form.reference}
+            onChange={(e) => setForm({ ...form, reference: e.target.value })}
+            placeholder="e.g. PO-1042"
+            maxLength={50}
+          />
+        </div>
+        <Select
+          label="Cost code *"
+          value={form.costCodeId}
+          onChange={(e) => setForm({ ...form, costCodeId: e.target.value })}
+          options={[{ value: '', label: 'Select a cost code' }, ...costCodeOptions]}
+          required
+        />
+        <Select
+          label="Vendor"
+          value={form.vendorId}
+          onChange={(e) => setForm({ ...form, vendorId: e.target.value })}
+          options={vendorOptions}
+        />
+        <Input
+          label="Description *"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          required
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="Amount *"
+            type="number"
+            min="0"
+            step="0.01"
+            leftAddon="$"
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            required
+          />
+          <Input
+            label="Issued"
+            type="date"
+            value={form.issuedDate}
+            onChange={(e) => setForm({ ...form, issuedDate: e.target.value })}
+            required
+          />
+        </div>
+        {commitment && (
+          <Select
+            label="Status"
+            value={form.status}
+            onChange={(e) => setForm({ ...form, status: e.target.value as CommitmentStatus })}
+            options={Object.entries(COMMITMENT_STATUS_LABELS).map(([value, label]) => ({ value, label }))}
+            hint="Close it when the work is done; only what was spent then counts as committed"
+          />
+        )}
+        <div className="flex justify-end gap-3 pt-2">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+function CommitmentsSection({ projectId, canEdit }: { projectId: string; canEdit: boolean }) {
+  const toast = useToast();
+  const { data } = useCommitments(projectId);
+  const deleteMutation = useDeleteCommitment(projectId);
+  const [editing, setEditing] = useState<Commitment | 'new' | null>(null);
+  const [toDelete, setToDelete] = useState<Commitment | null>(null);
+
+  const commitments = data?.data ?? [];
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteMutation.mutateAsync(toDelete.id);
+      toast.success('Deleted', 'Commitment removed');
+    } catch (err) {
+      console.error('Failed to delete commitment:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to delete commitment');
+    }
+    setToDelete(null);
+  };
+
+  return (
+    <Section
+      title="Commitments"
+      action={canEdit && (
+        <Button size="sm" variant="secondary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setEditing('new')}>
+          Add Commitment
+        </Button>
+      )}
+    >
+      {commitments.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-slate-500 dark:text-slate-400">No subcontracts or purchase orders issued.</p>
+      ) : (
+        <table className="w-full">
+          <thead className="bg-slate-50 dark:bg-slate-800/50">
+            <tr>
+              <th className={clsx(thClass, 'text-left')}>Number</th>
+              <th className={clsx(thClass, 'text-left')}>Vendor</th>
+              <th className={clsx(thClass, 'text-left')}>Cost Code</th>
+              <th className={clsx(thClass, 'text-left')}>Description</th>
+              <th className={clsx(thClass, 'text-left')}>Status</th>
+              <th className={clsx(thClass, 'text-right')}>Amount</th>
+              <th className={clsx(thClass, 'text-right')}>Spent</th>
+              {canEdit && <th className={thClass} />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {commitments.map((c) => (
+              <tr key={c.id} className={clsx(c.status === 'void' && 'opacity-50')}>
+                <td className={tdClass}>
+                  <p>{c.reference ?? '—'}</p>
+                  <p className="text-xs text-slate-500">{COMMITMENT_TYPE_LABELS[c.commitmentType]} · {formatDate(c.issuedDate)}</p>
+                </td>
+                <td className={tdClass}>{c.vendorName ?? '—'}</td>
+                <td className={clsx(tdClass, 'font-mono')}>{c.costCode}</td>
+                <td className={tdClass}>{c.description}</td>
+                <td className={tdClass}>{COMMITMENT_STATUS_LABELS[c.status]}</td>
+                <td className={clsx(tdClass, 'text-right')}>{formatMoney(c.amount)}</td>
+                <td className={clsx(tdClass, 'text-right', c.spent > c.amount && 'text-danger-600 dark:text-danger-400')}>
+                  {formatMoney(c.spent)}
+                </td>
+                {canEdit && (
+                  <td className={clsx(tdClass, 'text-right whitespace-nowrap')}>
+                    {iconButton('Edit', <Edit className="w-4 h-4" />, () => setEditing(c))}
+                    {iconButton('Delete', <Trash2 className="w-4 h-4" />, () => setToDelete(c), true)}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {editing && (
+        <CommitmentModal
+          key={editing === 'new' ? 'new' : editing.id}
+          projectId={projectId}
+          commitment={editing === 'new' ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!toDelete}
+        onClose={() => setToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Commitment"
+        message={`Delete ${toDelete?.reference ?? 'this commitment'}? Costs recorded against it are kept but no longer linked to it.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Section>
+  );
+}
+
+// ============================================================================
+// Cost entries
+// ============================================================================
+
+function CostEntryModal({
+  projectId,
+  entry,
+  commitments,
+  onClose,
+}: {
+  projectId: string;
+  entry: CostEntry | null;
+  commitments: Commitment[];
+  onClose: () => void;
+}) {
+  const toast = useToast();
+  const createMutation = useCreateCostEntry(projectId);
+  const updateMutation = useUpdateCostEntry(projectId);
+  const costCodeOptions = useCostCodeOptions(entry?.costCodeId);
+  const vendorOptions = useVendorOptions();
+  const [form, setForm] = useState({
+    costCodeId: entry?.costCodeId ?? '',
+    costType: entry?.costType ?? ('material' as JobCostType),
+    entryDate: entry?.entryDate ?? getTodayISO(),
+    description: entry?.description ?? '',
+    amount: entry ? String(entry.amount) : '',
+    vendorId: entry?.vendorId ?? '',
+    commitmentId: entry?.commitmentId ?? '',
+    reference: entry?.reference ?? '',
+  });
+
+  // Picking a commitment fills in its cost code and vendor
+  const selectCommitment = (commitmentId: string) => {
+    const commitment = commitments.find((c) => c.id === commitmentId);
+    setForm({
+      ...form,
+      commitmentId,
+      ...(commitment && {
+        costCodeId: commitment.costCodeId,
+        vendorId: commitment.vendorId ?? '',
+        costType: commitment.commitmentType === 'subcontract' ? 'subcontractor' : form.costType,
+      }),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = {
+      costCodeId: form.costCodeId,
+      costType: form.costType,
+      entryDate: form.entryDate,
+      description: form.description.trim(),
+      amount: parseFloat(form.amount) || 0,
+      vendorId: form.vendorId || null,
+      commitmentId: form.commitmentId || null,
+      reference: form.reference.trim() || null,
+    };
+    try {
+      if (entry) {
+        await updateMutation.mutateAsync({ id: entry.id, data: input });
+      } else {
+        await createMutation.mutateAsync(input);
+      }
+      toast.success('Saved', 'Cost recorded');
+      onClose();
+    } catch (err) {
+      console.error('Failed to save cost:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save cost');
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+  const commitmentOptions = commitments
+    .filter((c) => c.status !== 'void' || c.id === entry?.commitmentId)
+    .map((c) => ({ value: c.id, label: [c.reference, c.vendorName, c.description].filter(Boolean).join(' · ') }));
+
+  return (
+    <Modal isOpen onClose={onClose} title={entry ? 'Edit Cost' : 'Record Cost'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {commitmentOptions.length > 0 && (
+          <Select
+            label="Against commitment"
+            value={form.commitmentId}
+            onChange={(e) => selectCommitment(e.target.value)}
+            options={[{ value: '', label: 'None' }, ...commitmentOptions]}
+          />
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          <Select
+            label="Cost code *"
+            value={form.costCodeId}
+            onChange={(e) => setForm({ ...form, costCodeId: e.target.value })}
+            options={[{ value: '', label: 'Select a cost code' }, ...costCodeOptions]}
+            required
+          />
+          <Select
+            label="Cost type"
+            value={form.costType}
+            onChange={(e) => setForm({ ...form, costType: e.target.value as JobCostType })}
+            options={COST_TYPE_OPTIONS}
+          />
+        </div>
+        <Input
+          label="Description *"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          required
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="Amount *"
+            type="number"
+            step="0.01"
+            leftAddon="$"
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            hint="Negative for credits and returns"
+            required
+          />
+          <Input
+            label="Date"
+            type="date"
+            value={form.entryDate}
+            onChange={(e) => setForm({ ...form, entryDate: e.target.value })}
+            required
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <Select
+            label="Vendor"
+            value={form.vendorId}
+            onChange={(e) => setForm({ ...form, vendorId: e.target.value })}
+            options={vendorOptions}
+          />
+          <Input
+            label="Reference"
+            value={form.reference}
+            onChange={(e) => setForm({ ...form, reference: e.target.value })}
+            placeholder="Bill or timesheet number"
+            maxLength={100}
+          />
+        </div>
+        <div className="flex justify-end gap-3 pt-2">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+function CostEntriesSection({ projectId, canEdit }: { projectId: string; canEdit: boolean }) {
+  const toast = useToast();
+  const { data } = useCostEntries(projectId);
+  const { data: commitmentsData } = useCommitments(projectId);
+  const deleteMutation = useDeleteCostEntry(projectId);
+  const [editing, setEditing] = useState<CostEntry | 'new' | null>(null);
+  const [toDelete, setToDelete] = useState<CostEntry | null>(null);
+
+  const entries = data?.data ?? [];
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteMutation.mutateAsync(toDelete.id);
+      toast.success('Deleted', 'Cost removed');
+    } catch (err) {
+      console.error('Failed to delete cost:', err);
+      toast.error('Error', 'Failed to delete cost');
+    }
+    setToDelete(null);
+  };
+
+  return (
+    <Section
+      title="Costs"
+      action={canEdit && (
+        <Button size="sm" variant="secondary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setEditing('new')}>
+          Record Cost
+        </Button>
+      )}
+    >
+      {entries.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-slate-500 dark:text-slate-400">No costs recorded.</p>
+      ) : (
+        <table className="w-full">
+          <thead className="bg-slate-50 dark:bg-slate-800/50">
+            <tr>
+              <th className={clsx(thClass, 'text-left')}>Date</th>
+              <th className={clsx(thClass, 'text-left')}>Cost Code</th>
+              <th className={clsx(thClass, 'text-left')}>Type</th>
+              <th className={clsx(thClass, 'text-left')}>Description</th>
+              <th className={clsx(thClass, 'text-left')}>Vendor</th>
+              <th className={clsx(thClass, 'text-right')}>Amount</th>
+              {canEdit && <th className={thClass} />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {entries.map((entry) => (
+              <tr key={entry.id}>
+                <td className={clsx(tdClass, 'whitespace-nowrap')}>{formatDate(entry.entryDate)}</td>
+                <td className={clsx(tdClass, 'font-mono')}>{entry.costCode}</td>
+                <td className={tdClass}>{JOB_COST_TYPE_LABELS[entry.costType]}</td>
+                <td className={tdClass}>
+                  <p>{entry.description}</p>
+                  {(entry.reference || entry.commitmentReference) && (
+                    <p className="text-xs text-slate-500">
+                      {[entry.reference, entry.commitmentReference && `against ${entry.commitmentReference}`].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </td>
+                <td className={tdClass}>{entry.vendorName ?? '—'}</td>
+                <td className={clsx(tdClass, 'text-right')}>{formatMoney(entry.amount)}</td>
+                {canEdit && (
+                  <td className={clsx(tdClass, 'text-right whitespace-nowrap')}>
+                    {iconButton('Edit', <Edit className="w-4 h-4" />, () => setEditing(entry))}
+                    {iconButton('Delete', <Trash2 className="w-4 h-4" />, () => setToDelete(entry), true)}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {editing && (
+        <CostEntryModal
+          key={editing === 'new' ? 'new' : editing.id}
+          projectId={projectId}
+          entry={editing === 'new' ? null : editing}
+          commitments={commitmentsData?.data ?? []}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!toDelete}
+        onClose={() => setToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Cost"
+        message={`Delete "${toDelete?.description ?? ''}"?`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Section>
+  );
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+export function ProjectJobCostPage() {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+  const canEdit = usePermission('projects:costs');
+  const { data, isLoading, error } = useProject(id);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const project = data?.data;
+  useDocumentTitle(project ? `${project.name} Job Cost` : 'Job Cost');
+
+  if (isLoading || !project) {
+    return (
+      <Page title="Job Cost">
+        {error ? (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-danger-50 dark:bg-danger-900/20 text-sm text-danger-700 dark:text-danger-400">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error instanceof Error ? error.message : 'Failed to load project'}
+          </div>
+        ) : (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-brand-600" />
+          </div>
+        )}
+      </Page>
+    );
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await fetchJobCostReportCsv(project.id);
+      downloadTextFile(`job-cost-${project.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.csv`, await blob.text(), 'text/csv');
+    } catch (err) {
+      console.error('Failed to export job cost report:', err);
+      toast.error('Error', 'Failed to export job cost report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Page
+      title={`${project.name} Job Cost`}
+      description={project.clientName}
+      actions={
+        <div className="flex gap-2">
+          <Button variant="secondary" leftIcon={<ArrowLeft className="w-4 h-4" />} onClick={() => navigate(`/projects/${project.id}`)}>
+            Back
+          </Button>
+          <Button
+            variant="secondary"
+            leftIcon={isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+            onClick={handleExport}
+            disabled={isExporting}
+          >
+            Export CSV
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <Section title="Budget vs. Actual">
+          <JobCostReportTable projectId={project.id} />
+        </Section>
+        <BudgetSection projectId={project.id} canEdit={canEdit} />
+        <CommitmentsSection projectId={project.id} canEdit={canEdit} />
+        <CostEntriesSection projectId={project.id} canEdit={canEdit} />
+      </div>
+    </Page>
+  );
+}
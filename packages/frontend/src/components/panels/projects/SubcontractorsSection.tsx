@@ -0,0 +1,251 @@
+// ============================================================================
+// SubcontractorsSection Component
+// Location: src/components/panels/projects/SubcontractorsSection.tsx
+//
+// The subcontractors working on a project, the trade and scope each was
+// brought on for, and whether their insurance and prequalification are in
+// order. Subs are picked with the same company search as customers, so a
+// new one goes through duplicate detection before it is created.
+// ============================================================================
+
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { clsx } from 'clsx';
+import { HardHat, Plus, Trash2, Loader2 } from 'lucide-react';
+import { Button, Modal, ConfirmModal, Select, SectionHeader, Textarea, CompanySearchField } from '@/components/common';
+import { ComplianceStatusBadge } from '@/components/panels/customers';
+import { useClientsStore, useFieldsStore, useToast } from '@/contexts';
+import {
+  useProjectSubcontractors,
+  useAddProjectSubcontractor,
+  useUpdateProjectSubcontractor,
+  useRemoveProjectSubcontractor,
+  type ProjectSubcontractor,
+} from '@/services/api';
+import { getCompanyUrl, usePermission } from '@/hooks';
+
+const thClass = 'px-3 py-2 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider';
+const tdClass = 'px-3 py-2 text-sm text-slate-700 dark:text-slate-300';
+
+interface SubcontractorModalProps {
+  projectId: string;
+  // null to assign a new one
+  subcontractor: ProjectSubcontractor | null;
+  onClose: () => void;
+}
+
+function SubcontractorModal({ projectId, subcontractor, onClose }: SubcontractorModalProps) {
+  const toast = useToast();
+  const { companies } = useClientsStore();
+  const { trades } = useFieldsStore();
+  const addMutation = useAddProjectSubcontractor(projectId);
+  const updateMutation = useUpdateProjectSubcontractor(projectId);
+
+  const [companyId, setCompanyId] = useState(subcontractor?.companyId ?? '');
+  const [trade, setTrade] = useState(subcontractor?.trade ?? '');
+  const [scope, setScope] = useState(subcontractor?.scope ?? '');
+
+  // The company's own trades first, then the rest of the list
+  const tradeOptions = useMemo(() => {
+    const companyTrades = companies.find((c) => c.id === companyId)?.trades ?? [];
+    const ordered = [...companyTrades, ...trades.filter((t) => !companyTrades.includes(t))];
+    if (trade && !ordered.includes(trade)) ordered.push(trade);
+    return [{ value: '', label: 'No trade' }, ...ordered.map((t) => ({ value: t, label: t }))];
+  }, [companies, companyId, trades, trade]);
+
+  const handleCompanyChange = (id: string) => {
+    setCompanyId(id);
+    // Default to the sub's trade when it only has one
+    const companyTrades = companies.find((c) => c.id === id)?.trades ?? [];
+    if (!trade && companyTrades.length === 1) {
+      setTrade(companyTrades[0]!);
+    }
+  };
+
+  // Not a form: the company search's own buttons and add-company modal would submit it
+  const handleSave = async () => {
+    const data = { trade: trade || null, scope: scope.trim() || null };
+
+    try {
+      if (subcontractor) {
+        await updateMutation.mutateAsync({ id: subcontractor.id, data });
+        toast.success('Updated', `${subcontractor.companyName} updated`);
+      } else {
+        if (!companyId) {
+          toast.error('Error', 'Choose the subcontractor');
+          return;
+        }
+        await addMutation.mutateAsync({ companyId, ...data });
+        toast.success('Assigned', 'Subcontractor added to the project');
+      }
+      onClose();
+    } catch (err) {
+      console.error('Failed to save subcontractor:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save subcontractor');
+    }
+  };
+
+  const isSaving = addMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={subcontractor ? subcontractor.companyName : 'Add Subcontractor'}
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : subcontractor ? 'Save' : 'Add'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        {!subcontractor && (
+          <CompanySearchField
+            label="Subcontractor *"
+            value={companyId}
+            onSave={handleCompanyChange}
+            placeholder="Click to choose a subcontractor..."
+            companyType="subcontractor"
+          />
+        )}
+        <Select label="Trade" value={trade} onChange={(e) => setTrade(e.target.value)} options={tradeOptions} />
+        <Textarea
+          label="Scope of work"
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          rows={3}
+          placeholder="e.g. Rough and finish electrical, floors 1-3"
+        />
+      </div>
+    </Modal>
+  );
+}
+
+export function SubcontractorsSection({ projectId }: { projectId: string }) {
+  const canEdit = usePermission('projects:edit');
+  const navigate = useNavigate();
+  const toast = useToast();
+  const { companies } = useClientsStore();
+  const { data, isLoading } = useProjectSubcontractors(projectId);
+  const removeMutation = useRemoveProjectSubcontractor(projectId);
+
+  const [openId, setOpenId] = useState<string | 'new' | null>(null);
+  const [toRemove, setToRemove] = useState<ProjectSubcontractor | null>(null);
+  const subcontractors = data?.data ?? [];
+
+  const openCompany = (sub: ProjectSubcontractor) => {
+    const company = companies.find((c) => c.id === sub.companyId);
+    if (company) navigate(getCompanyUrl(company));
+  };
+
+  const confirmRemove = async () => {
+    if (!toRemove) return;
+    try {
+      await removeMutation.mutateAsync(toRemove.id);
+      toast.success('Removed', `${toRemove.companyName} removed from the project`);
+    } catch (err) {
+      console.error('Failed to remove subcontractor:', err);
+      toast.error('Error', 'Failed to remove subcontractor');
+    }
+    setToRemove(null);
+  };
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      <SectionHeader
+        title="Subcontractors"
+        icon={HardHat}
+        action={
+          canEdit && (
+            <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setOpenId('new')}>
+              Add Subcontractor
+            </Button>
+          )
+        }
+      />
+      <div className="bg-white dark:bg-slate-900">
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="w-5 h-5 animate-spin text-brand-600" /></div>
+        ) : subcontractors.length === 0 ? (
+          <p className="px-4 py-4 text-sm text-slate-500 dark:text-slate-400">No subcontractors on this project.</p>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-slate-50 dark:bg-slate-800/50">
+              <tr>
+                <th className={clsx(thClass, 'text-left')}>Company</th>
+                <th className={clsx(thClass, 'text-left')}>Trade</th>
+                <th className={clsx(thClass, 'text-left')}>Scope</th>
+                <th className={clsx(thClass, 'text-left')}>Compliance</th>
+                {canEdit && <th className={thClass} />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {subcontractors.map((sub) => (
+                <tr
+                  key={sub.id}
+                  onClick={() => canEdit && setOpenId(sub.id)}
+                  className={clsx(canEdit && 'cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800')}
+                >
+                  <td className={tdClass}>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        openCompany(sub);
+                      }}
+                      className="font-medium text-brand-600 dark:text-brand-400 hover:underline"
+                    >
+                      {sub.companyName}
+                    </button>
+                    {sub.phone && <div className="text-xs text-slate-500">{sub.phone}</div>}
+                  </td>
+                  <td className={tdClass}>{sub.trade ?? '–'}</td>
+                  <td className={clsx(tdClass, 'max-w-xs truncate')} title={sub.scope ?? undefined}>{sub.scope ?? '–'}</td>
+                  <td className={tdClass}>{sub.compliance && <ComplianceStatusBadge summary={sub.compliance} />}</td>
+                  {canEdit && (
+                    <td className={clsx(tdClass, 'text-right')}>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setToRemove(sub);
+                        }}
+                        className="p-1 text-slate-300 hover:text-danger-600 rounded"
+                        title="Remove from project"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {openId && (
+        <SubcontractorModal
+          key={openId}
+          projectId={projectId}
+          subcontractor={openId === 'new' ? null : subcontractors.find((s) => s.id === openId) ?? null}
+          onClose={() => setOpenId(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!toRemove}
+        onClose={() => setToRemove(null)}
+        onConfirm={confirmRemove}
+        title="Remove Subcontractor"
+        message={`Take ${toRemove?.companyName ?? 'this subcontractor'} off the project? The company and its records are kept.`}
+        confirmText="Remove"
+        variant="danger"
+        isLoading={removeMutation.isPending}
+      />
+    </div>
+  );
+}
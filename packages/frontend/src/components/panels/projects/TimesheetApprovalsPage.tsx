@@ -0,0 +1,237 @@
+// ============================================================================
+// TimesheetApprovalsPage Component
+// Location: src/components/panels/projects/TimesheetApprovalsPage.tsx
+//
+// Weekly timesheets submitted by the people who report to the signed-in
+// user (everyone's, for administrators). A reviewer opens a week to see its
+// hours by project and day, then approves it or sends it back with a reason.
+// ============================================================================
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { CheckCircle2, XCircle, ClipboardCheck, Loader2 } from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Modal, Select, Textarea, DataTable, type DataTableColumn } from '@/components/common';
+import { useToast } from '@/contexts';
+import {
+  useTimesheetApprovals,
+  useTimesheet,
+  useApproveTimesheet,
+  useRejectTimesheet,
+  TIMESHEET_STATUS_LABELS,
+  type Timesheet,
+  type TimesheetStatus,
+} from '@/services/api';
+import { useDocumentTitle } from '@/hooks';
+import { formatDate } from '@/utils/dateUtils';
+import { TIMESHEET_STATUS_COLORS, WeekGrid, formatHours } from './TimesheetPage';
+
+type ReviewStatus = Exclude<TimesheetStatus, 'open'>;
+
+const STATUS_OPTIONS: { value: ReviewStatus; label: string }[] = [
+  { value: 'submitted', label: 'Awaiting approval' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+function ReviewModal({ timesheetId, onClose }: { timesheetId: string; onClose: () => void }) {
+  const toast = useToast();
+  const { data, isLoading } = useTimesheet(timesheetId);
+  const approveMutation = useApproveTimesheet();
+  const rejectMutation = useRejectTimesheet();
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const timesheet = data?.data?.timesheet;
+  const entries = data?.data?.entries ?? [];
+
+  const handleApprove = async () => {
+    if (!timesheet) return;
+    try {
+      await approveMutation.mutateAsync(timesheet.id);
+      toast.success('Approved', `${timesheet.userName}'s week of ${formatDate(timesheet.weekStart)} was approved`);
+      onClose();
+    } catch (err) {
+      console.error('Failed to approve timesheet:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to approve timesheet');
+    }
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!timesheet) return;
+    try {
+      await rejectMutation.mutateAsync({ id: timesheet.id, reason: reason.trim() });
+      toast.success('Rejected', `${timesheet.userName}'s week was sent back`);
+      onClose();
+    } catch (err) {
+      console.error('Failed to reject timesheet:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to reject timesheet');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      size="xl"
+      title={timesheet ? `${timesheet.userName} · Week of ${formatDate(timesheet.weekStart)}` : 'Timesheet'}
+    >
+      {isLoading || !timesheet ? (
+        <div className="flex justify-center py-12"><Loader2 className="w-8 h-8 animate-spin text-brand-600" /></div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+            <span className={clsx('inline-flex px-2 py-0.5 rounded-full text-xs font-medium', TIMESHEET_STATUS_COLORS[timesheet.status])}>
+              {TIMESHEET_STATUS_LABELS[timesheet.status]}
+            </span>
+            <span>{formatHours(timesheet.totalHours)} hours</span>
+            <span>{formatHours(timesheet.billableHours)} billable</span>
+          </div>
+
+          <WeekGrid weekStart={timesheet.weekStart} entries={entries} />
+
+          {entries.some((e) => e.description) && (
+            <ul className="space-y-1 text-sm text-slate-600 dark:text-slate-300">
+              {entries.filter((e) => e.description).map((entry) => (
+                <li key={entry.id}>
+                  <span className="text-slate-500">{formatDate(entry.entryDate)} · {entry.projectName}:</span> {entry.description}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {timesheet.status === 'rejected' && timesheet.rejectionReason && (
+            <p className="text-sm text-danger-700 dark:text-danger-400">
+              Rejected by {timesheet.decidedByName}: {timesheet.rejectionReason}
+            </p>
+          )}
+
+          {timesheet.status === 'submitted' && (
+            isRejecting ? (
+              <form onSubmit={handleReject} className="space-y-3">
+                <Textarea
+                  label="Reason *"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="What needs to change before you can approve it?"
+                  rows={3}
+                  required
+                />
+                <div className="flex justify-end gap-3">
+                  <Button type="button" variant="secondary" onClick={() => setIsRejecting(false)}>
+                    Back
+                  </Button>
+                  <Button type="submit" variant="danger" disabled={rejectMutation.isPending || !reason.trim()}>
+                    {rejectMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Reject Week'}
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex justify-end gap-3 pt-2">
+                <Button variant="secondary" leftIcon={<XCircle className="w-4 h-4" />} onClick={() => setIsRejecting(true)}>
+                  Reject
+                </Button>
+                <Button
+                  variant="primary"
+                  leftIcon={<CheckCircle2 className="w-4 h-4" />}
+                  onClick={handleApprove}
+                  disabled={approveMutation.isPending}
+                >
+                  Approve
+                </Button>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+export function TimesheetApprovalsPage() {
+  useDocumentTitle('Timesheet Approvals');
+  const [status, setStatus] = useState<ReviewStatus>('submitted');
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const { data, isLoading } = useTimesheetApprovals(status);
+  const timesheets = data?.data ?? [];
+
+  const columns: DataTableColumn<Timesheet>[] = [
+    {
+      key: 'userName',
+      header: 'Person',
+      sortable: true,
+      sortValue: (t) => t.userName,
+      render: (t) => <span className="text-sm font-medium text-slate-900 dark:text-white">{t.userName}</span>,
+    },
+    {
+      key: 'weekStart',
+      header: 'Week',
+      sortable: true,
+      sortValue: (t) => t.weekStart,
+      render: (t) => (
+        <span className="text-sm text-slate-700 dark:text-slate-300">
+          {formatDate(t.weekStart)} – {formatDate(t.weekEnd)}
+        </span>
+      ),
+    },
+    {
+      key: 'totalHours',
+      header: 'Hours',
+      align: 'right',
+      sortable: true,
+      sortValue: (t) => t.totalHours,
+      render: (t) => <span className="text-sm text-slate-700 dark:text-slate-300">{formatHours(t.totalHours)}</span>,
+    },
+    {
+      key: 'billableHours',
+      header: 'Billable',
+      align: 'right',
+      render: (t) => <span className="text-sm text-slate-700 dark:text-slate-300">{formatHours(t.billableHours)}</span>,
+    },
+    {
+      key: 'decided',
+      header: status === 'submitted' ? 'Submitted' : 'Decided by',
+      render: (t) => (
+        <span className="text-sm text-slate-600 dark:text-slate-300">
+          {status === 'submitted'
+            ? t.submittedAt && formatDate(t.submittedAt.slice(0, 10))
+            : t.decidedByName}
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <Page title="Timesheet Approvals" description="Review the weekly timesheets of the people who report to you.">
+      <div className="mb-4 w-56">
+        <Select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ReviewStatus)}
+          options={STATUS_OPTIONS}
+        />
+      </div>
+
+      <DataTable
+        data={timesheets}
+        columns={columns}
+        rowKey={(t) => t.id}
+        onRowClick={(t) => setReviewingId(t.id)}
+        loading={isLoading}
+        emptyState={
+          <div className="text-center py-12">
+            <ClipboardCheck className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">
+              {status === 'submitted' ? 'Nothing to approve' : 'No timesheets'}
+            </h3>
+            <p className="text-slate-500 dark:text-slate-400">
+              Timesheets your direct reports submit show up here.
+            </p>
+          </div>
+        }
+      />
+
+      {reviewingId && <ReviewModal key={reviewingId} timesheetId={reviewingId} onClose={() => setReviewingId(null)} />}
+    </Page>
+  );
+}
@@ -0,0 +1,625 @@
+// ============================================================================
+// TimesheetPage Component
+// Location: src/components/panels/projects/TimesheetPage.tsx
+//
+// The signed-in user's time: a timer to clock time against a project (and
+// optionally one of its tasks), and their week as a grid of hours per
+// project and day with the entries below it. A week is submitted to the
+// user's supervisors - from their position's reporting line and any
+// additional supervisor in Admin > Users - and locks until it is rejected.
+// ============================================================================
+
+import { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import {
+  Plus,
+  Play,
+  Square,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Send,
+  Edit,
+  Trash2,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  Timer,
+} from 'lucide-react';
+import { Page } from '@/components/layout';
+import { Button, Input, Modal, ConfirmModal, Select, SectionHeader } from '@/components/common';
+import { useToast, useUsersStore } from '@/contexts';
+import { useTaskStore } from '@/contexts/taskStore';
+import {
+  useProjects,
+  useTimesheetWeek,
+  useRunningTimer,
+  useStartTimer,
+  useStopTimer,
+  useCreateTimeEntry,
+  useUpdateTimeEntry,
+  useDeleteTimeEntry,
+  useSubmitTimesheet,
+  TIMESHEET_STATUS_LABELS,
+  type TimeEntry,
+  type TimesheetStatus,
+} from '@/services/api';
+import { useDocumentTitle } from '@/hooks';
+import { addDays, formatDate, getTodayISO, parseLocalDate } from '@/utils/dateUtils';
+
+export const TIMESHEET_STATUS_COLORS: Record<TimesheetStatus, string> = {
+  open: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  submitted: 'bg-warning-100 text-warning-700 dark:bg-warning-900/30 dark:text-warning-400',
+  approved: 'bg-success-100 text-success-700 dark:bg-success-900/30 dark:text-success-400',
+  rejected: 'bg-danger-100 text-danger-700 dark:bg-danger-900/30 dark:text-danger-400',
+};
+
+export function formatHours(hours: number): string {
+  return hours.toFixed(2);
+}
+
+// Monday of the week a YYYY-MM-DD date falls in
+function mondayOf(date: string): string {
+  return addDays(date, -((parseLocalDate(date).getDay() + 6) % 7));
+}
+
+// 1:05:09 since the timer started
+function formatElapsed(startedAt: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
+const thClass = 'px-3 py-2 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider';
+const tdClass = 'px-3 py-2 text-sm text-slate-700 dark:text-slate-300';
+
+// Projects time can be booked to, keeping the current one even if it has closed
+function useProjectOptions(currentId?: string) {
+  const { data } = useProjects({ limit: 100 });
+  return (data?.data?.projects ?? [])
+    .filter((p) => (p.status !== 'completed' && p.status !== 'cancelled') || p.id === currentId)
+    .map((p) => ({ value: p.id, label: p.name }));
+}
+
+// Open tasks linked to the project
+function useTaskOptions(projectId: string, currentId?: string | null) {
+  const { tasks } = useTaskStore();
+  return [
+    { value: '', label: 'No task' },
+    ...tasks
+      .filter((t) => t.linkedItem?.type === 'project' && t.linkedItem.id === projectId)
+      .filter((t) => (t.status !== 'completed' && t.status !== 'cancelled') || t.id === currentId)
+      .map((t) => ({ value: t.id, label: t.title })),
+  ];
+}
+
+// ============================================================================
+// Timer
+// ============================================================================
+
+function TimerBar() {
+  const toast = useToast();
+  const { data } = useRunningTimer();
+  const startMutation = useStartTimer();
+  const stopMutation = useStopTimer();
+  const running = data?.data ?? null;
+
+  const projectOptions = useProjectOptions();
+  const [projectId, setProjectId] = useState('');
+  const [taskId, setTaskId] = useState('');
+  const [description, setDescription] = useState('');
+  const [billable, setBillable] = useState(true);
+  const taskOptions = useTaskOptions(projectId);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const handleStart = async () => {
+    if (!projectId) {
+      toast.error('Pick a project', 'Choose the project to clock time against');
+      return;
+    }
+    try {
+      const response = await startMutation.mutateAsync({
+        projectId,
+        taskId: taskId || null,
+        entryDate: getTodayISO(),
+        description: description.trim() || null,
+        billable,
+      });
+      const stopped = response.data?.stopped;
+      if (stopped) {
+        toast.info('Timer switched', `${formatHours(stopped.hours ?? 0)} hours were booked to ${stopped.projectName}`);
+      }
+      setDescription('');
+    } catch (err) {
+      console.error('Failed to start timer:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to start timer');
+    }
+  };
+
+  const handleStop = async () => {
+    try {
+      const response = await stopMutation.mutateAsync();
+      toast.success('Timer stopped', `${formatHours(response.data?.hours ?? 0)} hours were booked`);
+    } catch (err) {
+      console.error('Failed to stop timer:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to stop timer');
+    }
+  };
+
+  if (running) {
+    return (
+      <div className="flex flex-wrap items-center gap-4 p-4 border border-brand-200 dark:border-brand-800 rounded-lg bg-brand-50 dark:bg-brand-900/20">
+        <Timer className="w-5 h-5 text-brand-600 animate-pulse" />
+        <span className="font-mono text-2xl font-semibold text-slate-900 dark:text-white">
+          {running.startedAt ? formatElapsed(running.startedAt, now) : '0:00:00'}
+        </span>
+        <div className="flex-1 min-w-0 text-sm">
+          <p className="font-medium text-slate-900 dark:text-white truncate">
+            {running.projectName}
+            {running.taskTitle && <span className="text-slate-500"> · {running.taskTitle}</span>}
+          </p>
+          {running.description && <p className="text-slate-500 dark:text-slate-400 truncate">{running.description}</p>}
+        </div>
+        <Button variant="danger" leftIcon={<Square className="w-4 h-4" />} onClick={handleStop} disabled={stopMutation.isPending}>
+          Stop
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1.5fr_auto_auto] items-end gap-3 p-4 border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900">
+      <Select
+        label="Project"
+        value={projectId}
+        onChange={(e) => {
+          setProjectId(e.target.value);
+          setTaskId('');
+        }}
+        options={projectOptions}
+        placeholder="Select a project"
+      />
+      <Select label="Task" value={taskId} onChange={(e) => setTaskId(e.target.value)} options={taskOptions} disabled={!projectId} />
+      <Input label="What are you working on?" value={description} onChange={(e) => setDescription(e.target.value)} />
+      <label className="flex items-center gap-2 pb-2.5 text-sm text-slate-600 dark:text-slate-300">
+        <input type="checkbox" checked={billable} onChange={(e) => setBillable(e.target.checked)} />
+        Billable
+      </label>
+      <Button variant="primary" leftIcon={<Play className="w-4 h-4" />} onClick={handleStart} disabled={startMutation.isPending}>
+        Start
+      </Button>
+    </div>
+  );
+}
+
+// ============================================================================
+// Entry editor
+// ============================================================================
+
+interface EntryModalProps {
+  // null for a new entry on defaultDate
+  entry: TimeEntry | null;
+  defaultDate: string;
+  onClose: () => void;
+}
+
+function EntryModal({ entry, defaultDate, onClose }: EntryModalProps) {
+  const toast = useToast();
+  const createMutation = useCreateTimeEntry();
+  const updateMutation = useUpdateTimeEntry();
+  const projectOptions = useProjectOptions(entry?.projectId);
+  const [form, setForm] = useState({
+    projectId: entry?.projectId ?? '',
+    taskId: entry?.taskId ?? '',
+    entryDate: entry?.entryDate ?? defaultDate,
+    hours: entry?.hours != null ? String(entry.hours) : '',
+    description: entry?.description ?? '',
+    billable: entry?.billable ?? true,
+  });
+  const taskOptions = useTaskOptions(form.projectId, entry?.taskId);
+  const isRunning = !!entry && entry.hours === null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = {
+      projectId: form.projectId,
+      taskId: form.taskId || null,
+      entryDate: form.entryDate,
+      description: form.description.trim() || null,
+      billable: form.billable,
+    };
+    try {
+      if (entry) {
+        await updateMutation.mutateAsync({
+          id: entry.id,
+          data: isRunning ? input : { ...input, hours: parseFloat(form.hours) || 0 },
+        });
+      } else {
+        await createMutation.mutateAsync({ ...input, hours: parseFloat(form.hours) || 0 });
+      }
+      onClose();
+    } catch (err) {
+      console.error('Failed to save time entry:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to save time entry');
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Modal isOpen onClose={onClose} title={entry ? 'Edit Time' : 'Add Time'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Select
+          label="Project *"
+          value={form.projectId}
+          onChange={(e) => setForm({ ...form, projectId: e.target.value, taskId: '' })}
+          options={projectOptions}
+          placeholder="Select a project"
+          required
+        />
+        <Select
+          label="Task"
+          value={form.taskId}
+          onChange={(e) => setForm({ ...form, taskId: e.target.value })}
+          options={taskOptions}
+          disabled={!form.projectId}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="Date *"
+            type="date"
+            value={form.entryDate}
+            onChange={(e) => setForm({ ...form, entryDate: e.target.value })}
+            required
+          />
+          <Input
+            label="Hours *"
+            type="number"
+            min="0.01"
+            max="24"
+            step="0.25"
+            value={form.hours}
+            onChange={(e) => setForm({ ...form, hours: e.target.value })}
+            hint={isRunning ? 'The timer is still running' : undefined}
+            disabled={isRunning}
+            required={!isRunning}
+          />
+        </div>
+        <Input
+          label="Description"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+        />
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <input type="checkbox" checked={form.billable} onChange={(e) => setForm({ ...form, billable: e.target.checked })} />
+          Billable to the client
+        </label>
+        <div className="flex justify-end gap-3 pt-2">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving || !form.projectId}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : entry ? 'Save' : 'Add Time'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Week grid
+// ============================================================================
+
+export function WeekGrid({ weekStart, entries }: { weekStart: string; entries: TimeEntry[] }) {
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  // One row per project and task
+  const rows = new Map<string, { label: string; hours: number[] }>();
+  for (const entry of entries) {
+    const key = `${entry.projectId}:${entry.taskId ?? ''}`;
+    const row = rows.get(key) ?? {
+      label: entry.taskTitle ? `${entry.projectName} · ${entry.taskTitle}` : entry.projectName,
+      hours: days.map(() => 0),
+    };
+    const day = days.indexOf(entry.entryDate);
+    if (day >= 0) row.hours[day] = (row.hours[day] ?? 0) + (entry.hours ?? 0);
+    rows.set(key, row);
+  }
+  const dayTotals = days.map((_, i) => Array.from(rows.values()).reduce((sum, row) => sum + (row.hours[i] ?? 0), 0));
+  const total = dayTotals.reduce((sum, hours) => sum + hours, 0);
+
+  return (
+    <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+      <table className="w-full bg-white dark:bg-slate-900">
+        <thead className="bg-slate-50 dark:bg-slate-800/50">
+          <tr>
+            <th className={clsx(thClass, 'text-left')}>Project / Task</th>
+            {days.map((day) => (
+              <th key={day} className={clsx(thClass, 'text-right', day === getTodayISO() && 'text-brand-600 dark:text-brand-400')}>
+                {parseLocalDate(day).toLocaleDateString('en-US', { weekday: 'short' })}
+                <span className="block font-normal normal-case">{parseLocalDate(day).getDate()}</span>
+              </th>
+            ))}
+            <th className={clsx(thClass, 'text-right')}>Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+          {rows.size === 0 ? (
+            <tr>
+              <td colSpan={9} className="px-3 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                No time recorded this week.
+              </td>
+            </tr>
+          ) : (
+            Array.from(rows.entries()).map(([key, row]) => (
+              <tr key={key}>
+                <td className={clsx(tdClass, 'font-medium text-slate-900 dark:text-white')}>{row.label}</td>
+                {row.hours.map((hours, i) => (
+                  <td key={i} className={clsx(tdClass, 'text-right', hours === 0 && 'text-slate-300 dark:text-slate-600')}>
+                    {formatHours(hours)}
+                  </td>
+                ))}
+                <td className={clsx(tdClass, 'text-right font-medium')}>
+                  {formatHours(row.hours.reduce((sum, hours) => sum + hours, 0))}
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+        <tfoot className="bg-slate-50 dark:bg-slate-800/50 border-t border-slate-200 dark:border-slate-700">
+          <tr>
+            <td className={clsx(tdClass, 'font-semibold')}>Total</td>
+            {dayTotals.map((hours, i) => (
+              <td key={i} className={clsx(tdClass, 'text-right font-semibold')}>{formatHours(hours)}</td>
+            ))}
+            <td className={clsx(tdClass, 'text-right font-semibold')}>{formatHours(total)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+export function TimesheetPage() {
+  useDocumentTitle('My Time');
+  const toast = useToast();
+  const { getUserById } = useUsersStore();
+  const [weekStart, setWeekStart] = useState(() => mondayOf(getTodayISO()));
+  const [editing, setEditing] = useState<TimeEntry | null>(null);
+  const [isEntryModalOpen, setIsEntryModalOpen] = useState(false);
+  const [toDelete, setToDelete] = useState<TimeEntry | null>(null);
+  const [confirmSubmit, setConfirmSubmit] = useState(false);
+
+  const { data, isLoading } = useTimesheetWeek(weekStart);
+  const deleteMutation = useDeleteTimeEntry();
+  const submitMutation = useSubmitTimesheet();
+
+  const week = data?.data;
+  const entries = week?.entries ?? [];
+  const timesheet = week?.timesheet ?? null;
+  const status: TimesheetStatus = timesheet?.status ?? 'open';
+  const canChange = status === 'open' || status === 'rejected';
+  const approverNames = (week?.approverIds ?? []).map((id) => getUserById(id)?.name).filter(Boolean).join(', ');
+  const isCurrentWeek = weekStart === mondayOf(getTodayISO());
+
+  const openEntry = (entry: TimeEntry | null) => {
+    setEditing(entry);
+    setIsEntryModalOpen(true);
+  };
+
+  const confirmDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteMutation.mutateAsync(toDelete.id);
+      toast.success('Deleted', 'The time entry was removed');
+    } catch (err) {
+      console.error('Failed to delete time entry:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to delete time entry');
+    }
+    setToDelete(null);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      await submitMutation.mutateAsync(weekStart);
+      toast.success('Submitted', approverNames ? `Sent to ${approverNames} for approval` : 'The week was sent for approval');
+    } catch (err) {
+      console.error('Failed to submit timesheet:', err);
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to submit timesheet');
+    }
+    setConfirmSubmit(false);
+  };
+
+  return (
+    <Page
+      title="My Time"
+      description="Clock time against projects and submit your week for approval."
+      actions={
+        canChange && (
+          <Button variant="secondary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => openEntry(null)}>
+            Add Time
+          </Button>
+        )
+      }
+    >
+      <div className="space-y-6">
+        <TimerBar />
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setWeekStart(addDays(weekStart, -7))}
+              className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+              title="Previous week"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span className="text-sm font-medium text-slate-900 dark:text-white">
+              {formatDate(weekStart)} – {formatDate(addDays(weekStart, 6))}
+            </span>
+            <button
+              onClick={() => setWeekStart(addDays(weekStart, 7))}
+              className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+              title="Next week"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            {!isCurrentWeek && (
+              <Button variant="ghost" size="sm" onClick={() => setWeekStart(mondayOf(getTodayISO()))}>
+                This week
+              </Button>
+            )}
+          </div>
+          <span className={clsx('inline-flex px-2 py-0.5 rounded-full text-xs font-medium', TIMESHEET_STATUS_COLORS[status])}>
+            {TIMESHEET_STATUS_LABELS[status]}
+          </span>
+          <div className="flex-1" />
+          {canChange && entries.length > 0 && (
+            <Button variant="primary" leftIcon={<Send className="w-4 h-4" />} onClick={() => setConfirmSubmit(true)}>
+              {status === 'rejected' ? 'Resubmit Week' : 'Submit Week'}
+            </Button>
+          )}
+        </div>
+
+        {status === 'rejected' && timesheet?.rejectionReason && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-danger-50 dark:bg-danger-900/20 text-sm text-danger-700 dark:text-danger-400">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Rejected by {timesheet.decidedByName ?? 'your supervisor'}: {timesheet.rejectionReason}
+            </span>
+          </div>
+        )}
+        {status === 'submitted' && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-warning-50 dark:bg-warning-900/20 text-sm text-warning-700 dark:text-warning-400">
+            <Clock className="w-4 h-4 flex-shrink-0" />
+            Waiting for approval{approverNames ? ` from ${approverNames}` : ''}. Entries are locked until it is decided.
+          </div>
+        )}
+        {status === 'approved' && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-success-50 dark:bg-success-900/20 text-sm text-success-700 dark:text-success-400">
+            <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+            Approved{timesheet?.decidedByName ? ` by ${timesheet.decidedByName}` : ''}.
+          </div>
+        )}
+        {canChange && entries.length > 0 && !approverNames && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            You have no supervisor set up in Admin &gt; Users, so only an administrator can approve this week.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-12"><Loader2 className="w-8 h-8 animate-spin text-brand-600" /></div>
+        ) : (
+          <>
+            <WeekGrid weekStart={weekStart} entries={entries} />
+
+            <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+              <SectionHeader title="Entries" icon={Clock} action={<span className="text-sm text-slate-500">{entries.length}</span>} />
+              {entries.length === 0 ? (
+                <p className="px-4 py-4 text-sm text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-900">
+                  Start the timer or add time to fill in this week.
+                </p>
+              ) : (
+                <table className="w-full bg-white dark:bg-slate-900">
+                  <thead className="bg-slate-50 dark:bg-slate-800/50">
+                    <tr>
+                      <th className={clsx(thClass, 'text-left')}>Date</th>
+                      <th className={clsx(thClass, 'text-left')}>Project / Task</th>
+                      <th className={clsx(thClass, 'text-left')}>Description</th>
+                      <th className={clsx(thClass, 'text-right')}>Hours</th>
+                      <th className={clsx(thClass, 'text-left')}>Billing</th>
+                      <th className={thClass} />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                    {entries.map((entry) => (
+                      <tr key={entry.id}>
+                        <td className={tdClass}>{formatDate(entry.entryDate)}</td>
+                        <td className={clsx(tdClass, 'font-medium text-slate-900 dark:text-white')}>
+                          {entry.projectName}
+                          {entry.taskTitle && <span className="font-normal text-slate-500"> · {entry.taskTitle}</span>}
+                        </td>
+                        <td className={tdClass}>{entry.description}</td>
+                        <td className={clsx(tdClass, 'text-right')}>
+                          {entry.hours === null ? <span className="text-brand-600">Running</span> : formatHours(entry.hours)}
+                        </td>
+                        <td className={tdClass}>
+                          {entry.invoiceNumber ? `Invoiced (${entry.invoiceNumber})` : entry.billable ? 'Billable' : 'Non-billable'}
+                        </td>
+                        <td className={clsx(tdClass, 'text-right')}>
+                          {canChange && (
+                            <div className="flex justify-end gap-1">
+                              <button
+                                onClick={() => openEntry(entry)}
+                                className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                                title="Edit"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => setToDelete(entry)}
+                                className="p-1.5 rounded-lg text-slate-400 hover:text-danger-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                                title="Delete"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {isEntryModalOpen && (
+        <EntryModal
+          key={editing?.id ?? 'new'}
+          entry={editing}
+          defaultDate={isCurrentWeek ? getTodayISO() : weekStart}
+          onClose={() => {
+            setIsEntryModalOpen(false);
+            setEditing(null);
+          }}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!toDelete}
+        onClose={() => setToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Time Entry"
+        message={`Delete ${toDelete?.hours != null ? `${formatHours(toDelete.hours)} hours` : 'this entry'} on ${toDelete?.projectName ?? 'the project'}?`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+
+      <ConfirmModal
+        isOpen={confirmSubmit}
+        onClose={() => setConfirmSubmit(false)}
+        onConfirm={handleSubmit}
+        title="Submit Week"
+        message={`Submit ${formatHours(timesheet?.totalHours ?? 0)} hours for the week of ${formatDate(weekStart)}${approverNames ? ` to ${approverNames}` : ''}? You can't change the week while it waits for approval.`}
+        confirmText="Submit"
+        variant="primary"
+        isLoading={submitMutation.isPending}
+      />
+    </Page>
+  );
+}
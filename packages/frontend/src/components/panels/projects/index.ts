@@ -0,0 +1,10 @@
+// Projects Panel Sub-Pages
+export { ProjectDetailPage } from './ProjectDetailPage';
+export { ProjectGantt, type GanttZoom } from './ProjectGantt';
+export { ChangeOrdersSection } from './ChangeOrdersSection';
+export { SubcontractorsSection } from './SubcontractorsSection';
+export { CostCodesPage } from './CostCodesPage';
+export { ProjectJobCostPage } from './ProjectJobCostPage';
+export { TimesheetPage } from './TimesheetPage';
+export { TimesheetApprovalsPage } from './TimesheetApprovalsPage';
+export { PROJECT_STATUS_COLORS, PROJECT_STATUS_LABELS } from './projectStatus';
@@ -0,0 +1,18 @@
+import type { ProjectStatus } from '@/services/api';
+
+// Shared by the project list and the project detail page
+export const PROJECT_STATUS_COLORS: Record<ProjectStatus, string> = {
+  planning: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  in_progress: 'bg-brand-100 text-brand-700 dark:bg-brand-900/30 dark:text-brand-400',
+  on_hold: 'bg-warning-100 text-warning-700 dark:bg-warning-900/30 dark:text-warning-400',
+  completed: 'bg-success-100 text-success-700 dark:bg-success-900/30 dark:text-success-400',
+  cancelled: 'bg-danger-100 text-danger-700 dark:bg-danger-900/30 dark:text-danger-400',
+};
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  planning: 'Planning',
+  in_progress: 'In Progress',
+  on_hold: 'On Hold',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
@@ -0,0 +1,649 @@
+// ============================================================================
+// ActivitiesPage - Sales Activities Across Leads and Deals
+// Location: src/components/panels/sales/ActivitiesPage.tsx
+//
+// AUDIT COMPLIANCE:
+// - Uses common components: FilterBar, FilterToggle, FilterCount, QuickFilters,
+//   SelectFilter, SearchInput, DataTable, Button, TaskTypeIcon
+// - Uses hooks: useDocumentTitle
+// - Uses contexts: useTaskStore, useTaskTypesStore, useSalesStore, useUsersStore, useToast
+//
+// Every task linked to a lead or deal, grouped by rep or by pipeline entity.
+// Group headers show follow-up discipline (overdue / due today / open / done
+// this week) so reps and managers can spot slipping follow-ups at a glance.
+// ============================================================================
+
+import { useState, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { clsx } from 'clsx';
+import {
+  Activity,
+  Clock,
+  List,
+  Check,
+  Phone,
+  Users,
+  Target,
+  TrendingUp,
+  User,
+  AlertCircle,
+  CalendarCheck,
+} from 'lucide-react';
+import { Page } from '@/components/layout';
+import {
+  Button,
+  SearchInput,
+  SelectFilter,
+  FilterBar,
+  FilterCount,
+  FilterToggle,
+  FilterDivider,
+  QuickFilters,
+  DataTable,
+  TaskTypeIcon,
+  type DataTableColumn,
+  type QuickFilterOption,
+} from '@/components/common';
+import { LogActivityModal } from './LogActivityModal';
+import {
+  useTaskStore,
+  useTaskTypesStore,
+  useSalesStore,
+  useToast,
+  type Task,
+  type LinkedEntity,
+} from '@/contexts';
+import { useDocumentTitle } from '@/hooks';
+import { parseLocalDate, getTodayISO, formatDate } from '@/utils/dateUtils';
+
+// ============================================================================
+// Types & Helpers
+// ============================================================================
+
+type ViewMode = 'timeline' | 'table';
+type GroupBy = 'rep' | 'entity';
+type Bucket = 'all' | 'overdue' | 'today' | 'upcoming' | 'completed';
+
+const isOpen = (task: Task) => task.status !== 'completed' && task.status !== 'cancelled';
+
+// Which bucket a task falls into, relative to today (YYYY-MM-DD)
+function getBucket(task: Task, today: string): Exclude<Bucket, 'all'> | null {
+  if (task.status === 'completed') return 'completed';
+  if (task.status === 'cancelled') return null;
+  if (!task.dueDate || task.dueDate > today) return 'upcoming';
+  return task.dueDate < today ? 'overdue' : 'today';
+}
+
+// The lead or deal a task is linked to (as its contact or its item)
+function getPipelineEntity(task: Task): LinkedEntity | null {
+  const isPipeline = (entity: LinkedEntity | null) => entity?.type === 'lead' || entity?.type === 'deal';
+  if (isPipeline(task.linkedItem)) return task.linkedItem;
+  if (isPipeline(task.linkedContact)) return task.linkedContact;
+  return null;
+}
+
+// "Today", "Tomorrow", "3 days overdue", "Mar 4"
+function formatDue(task: Task, today: string): string {
+  if (!task.dueDate) return 'No date';
+  if (task.dueDate === today) return task.dueTime ? `Today ${task.dueTime}` : 'Today';
+
+  const days = Math.round(
+    (parseLocalDate(task.dueDate).getTime() - parseLocalDate(today).getTime()) / (1000 * 60 * 60 * 24)
+  );
+  if (days === 1) return 'Tomorrow';
+  if (days < 0 && isOpen(task)) return `${-days} day${days === -1 ? '' : 's'} overdue`;
+  return parseLocalDate(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// Open tasks by due date (undated last), then completed tasks newest first
+function compareTasks(a: Task, b: Task): number {
+  const aOpen = isOpen(a);
+  const bOpen = isOpen(b);
+  if (aOpen !== bOpen) return aOpen ? -1 : 1;
+  if (!aOpen) return (b.completedAt || '').localeCompare(a.completedAt || '');
+  if (!a.dueDate && !b.dueDate) return 0;
+  if (!a.dueDate) return 1;
+  if (!b.dueDate) return -1;
+  return `${a.dueDate} ${a.dueTime || ''}`.localeCompare(`${b.dueDate} ${b.dueTime || ''}`);
+}
+
+interface DisciplineStats {
+  overdue: number;
+  today: number;
+  open: number;
+  doneThisWeek: number;
+}
+
+interface ActivityGroup {
+  key: string;
+  title: string;
+  // Set when grouped by entity
+  entity?: LinkedEntity;
+  tasks: Task[];
+  stats: DisciplineStats;
+}
+
+function getStats(tasks: Task[], today: string): DisciplineStats {
+  const weekAgo = new Date(parseLocalDate(today).getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  return {
+    overdue: tasks.filter(t => getBucket(t, today) === 'overdue').length,
+    today: tasks.filter(t => getBucket(t, today) === 'today').length,
+    open: tasks.filter(isOpen).length,
+    doneThisWeek: tasks.filter(t => t.status === 'completed' && (t.completedAt || '') >= weekAgo).length,
+  };
+}
+
+// ============================================================================
+// Group Header
+// ============================================================================
+
+function GroupHeader({
+  group,
+  groupBy,
+  onEntityClick,
+}: {
+  group: ActivityGroup;
+  groupBy: GroupBy;
+  onEntityClick: (entity: LinkedEntity) => void;
+}) {
+  const EntityIcon = group.entity?.type === 'deal' ? TrendingUp : Target;
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+      <div className="flex items-center gap-2 min-w-0">
+        {groupBy === 'rep' ? (
+          <div className="w-7 h-7 rounded-full bg-brand-100 dark:bg-brand-900/30 flex items-center justify-center flex-shrink-0">
+            <span className="text-xs font-medium text-brand-600 dark:text-brand-400">
+              {group.title.charAt(0).toUpperCase()}
+            </span>
+          </div>
+        ) : (
+          <EntityIcon className="w-4 h-4 text-slate-400 flex-shrink-0" />
+        )}
+        {group.entity ? (
+          <button
+            onClick={() => onEntityClick(group.entity!)}
+            className="font-medium text-slate-900 dark:text-white hover:text-brand-600 dark:hover:text-brand-400 truncate"
+          >
+            {group.title}
+          </button>
+        ) : (
+          <span className="font-medium text-slate-900 dark:text-white truncate">{group.title}</span>
+        )}
+        {group.entity && (
+          <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400 capitalize">
+            {group.entity.type}
+          </span>
+        )}
+      </div>
+
+      {/* Follow-up discipline */}
+      <div className="flex items-center gap-3 text-xs flex-shrink-0">
+        <span className={clsx(
+          'flex items-center gap-1',
+          group.stats.overdue > 0 ? 'text-danger-600 dark:text-danger-400 font-medium' : 'text-slate-400'
+        )}>
+          <AlertCircle className="w-3.5 h-3.5" />
+          {group.stats.overdue} overdue
+        </span>
+        <span className={clsx(
+          'flex items-center gap-1',
+          group.stats.today > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-slate-400'
+        )}>
+          <Clock className="w-3.5 h-3.5" />
+          {group.stats.today} today
+        </span>
+        <span className="text-slate-500 dark:text-slate-400">{group.stats.open} open</span>
+        <span className="flex items-center gap-1 text-green-600 dark:text-green-400">
+          <CalendarCheck className="w-3.5 h-3.5" />
+          {group.stats.doneThisWeek} done this week
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function ActivitiesPage() {
+  useDocumentTitle('Activities');
+  const navigate = useNavigate();
+  const toast = useToast();
+
+  // Stores
+  const { tasks, completeTask, reopenTask, getTasksByEntityType } = useTaskStore();
+  const { taskTypes } = useTaskTypesStore();
+  const { leads, deals } = useSalesStore();
+
+  // View state
+  const [viewMode, setViewMode] = useState<ViewMode>('timeline');
+  const [groupBy, setGroupBy] = useState<GroupBy>('rep');
+  const [bucket, setBucket] = useState<Bucket>('all');
+  const [search, setSearch] = useState('');
+  const [repFilter, setRepFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState('');
+
+  // Quick entry
+  const [logType, setLogType] = useState<string | null>(null);
+
+  const today = getTodayISO();
+
+  // Check if any filters are active
+  const hasActiveFilters = search || repFilter || typeFilter || bucket !== 'all';
+
+  // Clear all filters
+  const clearFilters = useCallback(() => {
+    setSearch('');
+    setRepFilter('');
+    setTypeFilter('');
+    setBucket('all');
+  }, []);
+
+  // ============================================================================
+  // Filtering
+  // ============================================================================
+
+  // Every task linked to a lead or deal; getTasksByEntityType reads from tasks
+  const pipelineTasks = useMemo(
+    () => getTasksByEntityType(['lead', 'deal']).filter(t => t.status !== 'cancelled'),
+    [tasks, getTasksByEntityType]
+  );
+
+  // Everything except the bucket - bucket counts are computed from this
+  const tasksMatchingFilters = useMemo(() => {
+    const searchLower = search.toLowerCase();
+    return pipelineTasks.filter(task => {
+      const matchesSearch = !search ||
+        task.title.toLowerCase().includes(searchLower) ||
+        getPipelineEntity(task)?.name.toLowerCase().includes(searchLower) ||
+        task.linkedContact?.name.toLowerCase().includes(searchLower);
+      const matchesRep = !repFilter || task.assignedUserId === repFilter;
+      const matchesType = !typeFilter || task.type === typeFilter;
+      return matchesSearch && matchesRep && matchesType;
+    });
+  }, [pipelineTasks, search, repFilter, typeFilter]);
+
+  const filteredTasks = useMemo(
+    () => tasksMatchingFilters
+      .filter(task => bucket === 'all' || getBucket(task, today) === bucket)
+      .sort(compareTasks),
+    [tasksMatchingFilters, bucket, today]
+  );
+
+  const bucketOptions: QuickFilterOption<Bucket>[] = useMemo(() => {
+    const count = (b: Bucket) => tasksMatchingFilters.filter(t => getBucket(t, today) === b).length;
+    return [
+      { value: 'all', label: 'All' },
+      { value: 'overdue', label: 'Overdue', count: count('overdue'), isWarning: true },
+      { value: 'today', label: 'Today', count: count('today') },
+      { value: 'upcoming', label: 'Upcoming' },
+      { value: 'completed', label: 'Completed' },
+    ];
+  }, [tasksMatchingFilters, today]);
+
+  // Reps with pipeline tasks
+  const repOptions = useMemo(() => {
+    const reps: Record<string, { label: string; count: number }> = {};
+    pipelineTasks.forEach(task => {
+      const rep = reps[task.assignedUserId] ??= { label: task.assignedUserName || 'Unassigned', count: 0 };
+      rep.count++;
+    });
+    return Object.entries(reps)
+      .map(([value, { label, count }]) => ({ value, label, count }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [pipelineTasks]);
+
+  const typeOptions = useMemo(() =>
+    taskTypes
+      .map(t => ({
+        value: t.value,
+        label: t.label,
+        count: pipelineTasks.filter(task => task.type === t.value).length,
+      }))
+      .filter(option => option.count > 0),
+  [taskTypes, pipelineTasks]);
+
+  // ============================================================================
+  // Grouping
+  // ============================================================================
+
+  // Groups with the most overdue follow-ups first
+  const groups: ActivityGroup[] = useMemo(() => {
+    const byKey = new Map<string, ActivityGroup>();
+
+    filteredTasks.forEach(task => {
+      const entity = getPipelineEntity(task);
+      const key = groupBy === 'rep' ? task.assignedUserId : `${entity?.type}:${entity?.id}`;
+      let group = byKey.get(key);
+      if (!group) {
+        group = groupBy === 'rep'
+          ? { key, title: task.assignedUserName || 'Unassigned', tasks: [], stats: getStats([], today) }
+          : { key, title: entity?.name || 'Unknown', entity: entity ?? undefined, tasks: [], stats: getStats([], today) };
+        byKey.set(key, group);
+      }
+      group.tasks.push(task);
+    });
+
+    return Array.from(byKey.values())
+      .map(group => ({ ...group, stats: getStats(group.tasks, today) }))
+      .sort((a, b) => b.stats.overdue - a.stats.overdue || a.title.localeCompare(b.title));
+  }, [filteredTasks, groupBy, today]);
+
+  // ============================================================================
+  // Handlers
+  // ============================================================================
+
+  const handleEntityClick = useCallback((entity: LinkedEntity) => {
+    if (entity.type === 'deal') {
+      const deal = deals.find(d => d.id === entity.id);
+      navigate(`/sales/deals/${deal?.slug || entity.id}`);
+    } else {
+      const lead = leads.find(l => l.id === entity.id);
+      navigate(`/sales/leads/${lead?.slug || entity.id}`);
+    }
+  }, [deals, leads, navigate]);
+
+  const handleToggleComplete = useCallback(async (task: Task) => {
+    try {
+      if (isOpen(task)) {
+        await completeTask(task.id);
+        toast.success('Task Completed', task.title);
+      } else {
+        await reopenTask(task.id);
+        toast.info('Task Reopened', task.title);
+      }
+    } catch (err) {
+      toast.error('Error', 'Failed to update task');
+    }
+  }, [completeTask, reopenTask, toast]);
+
+  const getTypeConfig = useCallback(
+    (type?: string) => taskTypes.find(t => t.value === type),
+    [taskTypes]
+  );
+
+  // ============================================================================
+  // Shared cell renderers
+  // ============================================================================
+
+  const renderCompleteButton = (task: Task) => (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        handleToggleComplete(task);
+      }}
+      title={isOpen(task) ? 'Mark complete' : 'Reopen'}
+      className={clsx(
+        'w-5 h-5 rounded-full border-2 flex items-center justify-center flex-shrink-0 transition-colors',
+        isOpen(task)
+          ? 'border-slate-300 dark:border-slate-600 hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20'
+          : 'border-green-500 bg-green-500 text-white'
+      )}
+    >
+      {!isOpen(task) && <Check className="w-3 h-3" />}
+    </button>
+  );
+
+  const renderDue = (task: Task) => {
+    const taskBucket = getBucket(task, today);
+    return (
+      <span className={clsx(
+        'text-sm whitespace-nowrap',
+        taskBucket === 'overdue' && 'text-danger-600 dark:text-danger-400 font-medium',
+        taskBucket === 'today' && 'text-amber-600 dark:text-amber-400 font-medium',
+        (taskBucket === 'upcoming' || taskBucket === 'completed') && 'text-slate-500 dark:text-slate-400'
+      )}>
+        {task.status === 'completed' && task.completedAt
+          ? `Done ${formatDate(task.completedAt.slice(0, 10))}`
+          : formatDue(task, today)}
+      </span>
+    );
+  };
+
+  // Whichever dimension isn't the grouping: the entity under a rep, the rep under an entity
+  const renderContext = (task: Task) => {
+    if (groupBy === 'entity') {
+      return (
+        <span className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+          <User className="w-3 h-3" />
+          {task.assignedUserName || 'Unassigned'}
+        </span>
+      );
+    }
+    const entity = getPipelineEntity(task);
+    if (!entity) return null;
+    const EntityIcon = entity.type === 'deal' ? TrendingUp : Target;
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          handleEntityClick(entity);
+        }}
+        className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 hover:text-brand-600 dark:hover:text-brand-400 truncate"
+      >
+        <EntityIcon className="w-3 h-3 flex-shrink-0" />
+        <span className="truncate">{entity.name}</span>
+      </button>
+    );
+  };
+
+  // ============================================================================
+  // Table Columns
+  // ============================================================================
+
+  const columns: DataTableColumn<Task>[] = [
+    {
+      key: 'complete',
+      header: '',
+      width: 48,
+      resizable: false,
+      render: renderCompleteButton,
+    },
+    {
+      key: 'title',
+      header: 'Activity',
+      render: (task) => {
+        const typeConfig = getTypeConfig(task.type);
+        return (
+          <div className="flex items-center gap-2 min-w-0">
+            {typeConfig && <TaskTypeIcon icon={typeConfig.icon} className="w-4 h-4 text-slate-400 flex-shrink-0" />}
+            <span className={clsx(
+              'truncate',
+              isOpen(task) ? 'text-slate-900 dark:text-white' : 'text-slate-400 line-through'
+            )}>
+              {task.title}
+            </span>
+          </div>
+        );
+      },
+    },
+    {
+      key: 'context',
+      header: groupBy === 'rep' ? 'Lead / Deal' : 'Rep',
+      render: renderContext,
+      hideOnMobile: true,
+    },
+    {
+      key: 'contact',
+      header: 'Contact',
+      render: (task) => (
+        <span className="text-sm text-slate-600 dark:text-slate-400">
+          {task.linkedContact?.type === 'contact' ? task.linkedContact.name : '—'}
+        </span>
+      ),
+      hideOnMobile: true,
+    },
+    {
+      key: 'due',
+      header: 'Due',
+      render: renderDue,
+    },
+  ];
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  const emptyState = (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 text-center py-12">
+      <Activity className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+      <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">No activities</h3>
+      <p className="text-slate-500 dark:text-slate-400">
+        {hasActiveFilters
+          ? 'No activities match your filters.'
+          : 'Tasks linked to leads and deals will appear here.'}
+      </p>
+    </div>
+  );
+
+  return (
+    <Page
+      title="Activities"
+      description="Follow-ups across your leads and deals"
+      actions={
+        <div className="flex items-center gap-2">
+          <Button variant="secondary" onClick={() => setLogType('call')}>
+            <Phone className="w-4 h-4 mr-1.5" />
+            Log Call
+          </Button>
+          <Button variant="primary" onClick={() => setLogType('meeting')}>
+            <Users className="w-4 h-4 mr-1.5" />
+            Log Meeting
+          </Button>
+        </div>
+      }
+    >
+      {/* Filter Bar */}
+      <FilterBar
+        rightContent={
+          <div className="flex items-center gap-3">
+            <FilterCount count={filteredTasks.length} singular="activity" plural="activities" />
+            <FilterToggle
+              options={[
+                { value: 'rep', label: 'By rep', icon: <User className="w-4 h-4" /> },
+                { value: 'entity', label: 'By lead/deal', icon: <Target className="w-4 h-4" /> },
+              ]}
+              value={groupBy}
+              onChange={setGroupBy}
+            />
+            <FilterToggle
+              options={[
+                { value: 'timeline', label: 'Timeline', icon: <Clock className="w-4 h-4" /> },
+                { value: 'table', label: 'Table', icon: <List className="w-4 h-4" /> },
+              ]}
+              value={viewMode}
+              onChange={setViewMode}
+            />
+          </div>
+        }
+      >
+        <SearchInput
+          value={search}
+          onChange={setSearch}
+          placeholder="Search activities..."
+          className="w-48 [&_input]:h-[34px] [&_input]:text-sm"
+        />
+        <QuickFilters options={bucketOptions} value={bucket} onChange={setBucket} />
+        <FilterDivider />
+        <SelectFilter
+          label="Rep"
+          value={repFilter}
+          onChange={setRepFilter}
+          options={repOptions}
+          icon={User}
+          size="sm"
+          className="w-36"
+        />
+        <SelectFilter
+          label="Type"
+          value={typeFilter}
+          onChange={setTypeFilter}
+          options={typeOptions}
+          icon={Activity}
+          size="sm"
+          className="w-36"
+        />
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            Clear filters
+          </Button>
+        )}
+      </FilterBar>
+
+      {/* Content */}
+      {groups.length === 0 ? emptyState : (
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div
+              key={group.key}
+              className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden"
+            >
+              <GroupHeader group={group} groupBy={groupBy} onEntityClick={handleEntityClick} />
+
+              {viewMode === 'timeline' ? (
+                <ol className="relative px-4 py-3">
+                  {group.tasks.map((task, index) => {
+                    const typeConfig = getTypeConfig(task.type);
+                    return (
+                      <li key={task.id} className="relative flex gap-3 pb-4 last:pb-0">
+                        {/* Timeline rail */}
+                        {index < group.tasks.length - 1 && (
+                          <span className="absolute left-[9px] top-6 bottom-0 w-px bg-slate-200 dark:bg-slate-700" />
+                        )}
+                        {renderCompleteButton(task)}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between gap-3">
+                            <div className="flex items-center gap-2 min-w-0">
+                              {typeConfig && (
+                                <TaskTypeIcon icon={typeConfig.icon} className="w-3.5 h-3.5 text-slate-400 flex-shrink-0" />
+                              )}
+                              <span className={clsx(
+                                'text-sm truncate',
+                                isOpen(task) ? 'text-slate-900 dark:text-white' : 'text-slate-400 line-through'
+                              )}>
+                                {task.title}
+                              </span>
+                            </div>
+                            {renderDue(task)}
+                          </div>
+                          <div className="mt-0.5 flex items-center gap-3 min-w-0">
+                            {renderContext(task)}
+                            {task.linkedContact?.type === 'contact' && (
+                              <span className="text-xs text-slate-400 truncate">{task.linkedContact.name}</span>
+                            )}
+                          </div>
+                          {task.notes && (
+                            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400 line-clamp-2">{task.notes}</p>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              ) : (
+                <DataTable
+                  data={group.tasks}
+                  columns={columns}
+                  rowKey={(task) => task.id}
+                  className="border-0 rounded-none"
+                  resizable={false}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Log a call / meeting */}
+      <LogActivityModal
+        isOpen={logType !== null}
+        onClose={() => setLogType(null)}
+        defaultType={logType ?? undefined}
+      />
+    </Page>
+  );
+}
+
+export default ActivitiesPage;
@@ -0,0 +1,721 @@
+// ============================================================================
+// DealDetailPanel Component
+// Location: src/components/panels/sales/DealDetailPanel.tsx
+// 
+// Slide-over panel for creating and editing deals.
+// Follows LeadDetailPanel, adding commission/units and won/lost/reopen actions.
+// ============================================================================
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { clsx } from 'clsx';
+import {
+  X,
+  TrendingUp,
+  Building2,
+  User,
+  MapPin,
+  DollarSign,
+  Percent,
+  Hash,
+  Trash2,
+  Trophy,
+  XCircle,
+  RotateCcw,
+} from 'lucide-react';
+import {
+  Button,
+  Input,
+  Textarea,
+  SelectFilter,
+  UnsavedChangesModal,
+  EntitySearchDropdown,
+  type EntitySearchItem,
+} from '@/components/common';
+import {
+  useClientsStore,
+  useUsersStore,
+  useFieldsStore,
+  useToast,
+  DELETED_DEAL_RETENTION_DAYS,
+  type Deal,
+  type DealInput,
+  type JobsiteAddress,
+} from '@/contexts';
+import { formatDate } from '@/utils/dateUtils';
+import { LostReasonModal } from './LostReasonModal';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface DealDetailPanelProps {
+  /** Deal to edit (null for new deal) */
+  deal: Deal | null;
+  /** Whether panel is open */
+  isOpen: boolean;
+  /** Close handler */
+  onClose: () => void;
+  /** Save handler */
+  onSave: (data: DealInput) => Promise<void>;
+  /** Delete handler (moves the deal to Recently deleted) */
+  onDelete?: (dealId: string) => Promise<void>;
+  /** Mark won handler */
+  onMarkWon?: (dealId: string) => void;
+  /** Mark lost handler - called with the required reason */
+  onMarkLost?: (dealId: string, reason: string) => void;
+  /** Reopen a won/lost deal */
+  onReopen?: (dealId: string) => void;
+  /** Default stage for new deals */
+  defaultStage?: string;
+  /** Pre-selected company */
+  defaultCompanyId?: string;
+  /** Pre-selected contact */
+  defaultContactId?: string;
+}
+
+interface FormData {
+  name: string;
+  companyId: string;
+  companyName: string;
+  contactId: string;
+  contactName: string;
+  stage: string;
+  label: string;
+  source: string;
+  ownerId: string;
+  ownerName: string;
+  value: string;
+  commission: string;
+  units: string;
+  notes: string;
+  jobsiteStreet: string;
+  jobsiteSuite: string;
+  jobsiteCity: string;
+  jobsiteState: string;
+  jobsiteZip: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function DealDetailPanel({
+  deal,
+  isOpen,
+  onClose,
+  onSave,
+  onDelete,
+  onMarkWon,
+  onMarkLost,
+  onReopen,
+  defaultStage,
+  defaultCompanyId,
+  defaultContactId,
+}: DealDetailPanelProps) {
+  const { companies, contacts } = useClientsStore();
+  const { users } = useUsersStore();
+  // Deals share labels and sources with leads
+  const { dealStages, leadLabels, leadSources } = useFieldsStore();
+  const toast = useToast();
+
+  // Form state
+  const [formData, setFormData] = useState<FormData>({
+    name: '',
+    companyId: '',
+    companyName: '',
+    contactId: '',
+    contactName: '',
+    stage: defaultStage || dealStages[0]?.name || '',
+    label: '',
+    source: '',
+    ownerId: '',
+    ownerName: '',
+    value: '',
+    commission: '',
+    units: '',
+    notes: '',
+    jobsiteStreet: '',
+    jobsiteSuite: '',
+    jobsiteCity: '',
+    jobsiteState: '',
+    jobsiteZip: '',
+  });
+
+  const [hasChanges, setHasChanges] = useState(false);
+  const [showUnsavedModal, setShowUnsavedModal] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showLostModal, setShowLostModal] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Initialize form when deal changes or panel opens
+  useEffect(() => {
+    if (isOpen) {
+      if (deal) {
+        setFormData({
+          name: deal.name,
+          companyId: deal.companyId || '',
+          companyName: deal.companyName || '',
+          contactId: deal.contactId || '',
+          contactName: deal.contactName || '',
+          stage: deal.stage,
+          label: deal.label || '',
+          source: deal.source || '',
+          ownerId: deal.ownerId,
+          ownerName: deal.ownerName,
+          value: deal.value?.toString() || '',
+          commission: deal.commission?.toString() || '',
+          units: deal.units?.toString() || '',
+          notes: deal.notes || '',
+          jobsiteStreet: deal.jobsiteAddress?.street || '',
+          jobsiteSuite: deal.jobsiteAddress?.suite || '',
+          jobsiteCity: deal.jobsiteAddress?.city || '',
+          jobsiteState: deal.jobsiteAddress?.state || '',
+          jobsiteZip: deal.jobsiteAddress?.zip || '',
+        });
+      } else {
+        // New deal - set defaults
+        const defaultCompany = defaultCompanyId ? companies.find(c => c.id === defaultCompanyId) : null;
+        const defaultContact = defaultContactId ? contacts.find(c => c.id === defaultContactId) : null;
+        
+        setFormData({
+          name: '',
+          companyId: defaultCompanyId || '',
+          companyName: defaultCompany?.name || '',
+          contactId: defaultContactId || '',
+          contactName: defaultContact ? `${defaultContact.firstName} ${defaultContact.lastName}` : '',
+          stage: defaultStage || dealStages[0]?.name || '',
+          label: '',
+          source: '',
+          ownerId: '',
+          ownerName: '',
+          value: '',
+          commission: '',
+          units: '',
+          notes: '',
+          jobsiteStreet: '',
+          jobsiteSuite: '',
+          jobsiteCity: '',
+          jobsiteState: '',
+          jobsiteZip: '',
+        });
+      }
+      setHasChanges(false);
+    }
+  }, [isOpen, deal, defaultStage, defaultCompanyId, defaultContactId, companies, contacts, dealStages]);
+
+  // Track changes
+  const updateField = useCallback(<K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setHasChanges(true);
+  }, []);
+
+  // Company items for dropdown
+  const companyItems: EntitySearchItem[] = useMemo(() =>
+    companies.map(c => ({ id: c.id, name: c.name })),
+    [companies]
+  );
+
+  // Contact items filtered by selected company
+  const contactItems: EntitySearchItem[] = useMemo(() => {
+    let filtered = contacts;
+    if (formData.companyId) {
+      filtered = contacts.filter(c => c.companyId === formData.companyId);
+    }
+    return filtered.map(c => ({
+      id: c.id,
+      name: `${c.firstName} ${c.lastName}`,
+      subtitle: c.role || undefined,
+    }));
+  }, [contacts, formData.companyId]);
+
+  // User items for owner dropdown - SelectFilter format
+  const userOptions = useMemo(() => 
+    users
+      .filter(u => u.isActive)
+      .map(u => ({ value: u.id, label: u.name })),
+  [users]);
+
+  // Stage options - SelectFilter format
+  const stageOptions = useMemo(() => 
+    dealStages.map(s => ({ value: s.name, label: s.name })),
+  [dealStages]);
+
+  // Label options - SelectFilter format
+  const labelOptions = useMemo(() => 
+    leadLabels.map(l => ({ value: l.name, label: l.name })),
+  [leadLabels]);
+
+  // Source options - SelectFilter format
+  const sourceOptions = useMemo(() => 
+    leadSources.map(s => ({ value: s.name, label: s.name })),
+  [leadSources]);
+
+  // Handle company selection
+  const handleCompanyChange = useCallback((item: EntitySearchItem | null) => {
+    if (item) {
+      updateField('companyId', item.id);
+      updateField('companyName', item.name);
+      // Clear contact if it doesn't belong to the new company
+      const contact = contacts.find(c => c.id === formData.contactId);
+      if (contact && contact.companyId !== item.id) {
+        updateField('contactId', '');
+        updateField('contactName', '');
+      }
+    } else {
+      updateField('companyId', '');
+      updateField('companyName', '');
+    }
+  }, [contacts, formData.contactId, updateField]);
+
+  // Handle contact selection
+  const handleContactChange = useCallback((item: EntitySearchItem | null) => {
+    if (item) {
+      updateField('contactId', item.id);
+      updateField('contactName', item.name);
+      // Auto-select company if contact has one
+      const contact = contacts.find(c => c.id === item.id);
+      if (contact?.companyId && !formData.companyId) {
+        const company = companies.find(c => c.id === contact.companyId);
+        if (company) {
+          updateField('companyId', company.id);
+          updateField('companyName', company.name);
+        }
+      }
+    } else {
+      updateField('contactId', '');
+      updateField('contactName', '');
+    }
+  }, [contacts, companies, formData.companyId, updateField]);
+
+  // Handle owner change
+  const handleOwnerChange = useCallback((userId: string) => {
+    const user = users.find(u => u.id === userId);
+    updateField('ownerId', userId);
+    updateField('ownerName', user?.name || '');
+  }, [users, updateField]);
+
+  // Handle close with unsaved changes check
+  const handleClose = useCallback(() => {
+    if (hasChanges) {
+      setShowUnsavedModal(true);
+    } else {
+      onClose();
+    }
+  }, [hasChanges, onClose]);
+
+  // Handle save
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Error', 'Deal name is required');
+      return;
+    }
+    if (!formData.stage) {
+      toast.error('Error', 'Stage is required');
+      return;
+    }
+    if (!formData.ownerId) {
+      toast.error('Error', 'Owner is required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const jobsiteAddress: JobsiteAddress | undefined = formData.jobsiteStreet ? {
+        street: formData.jobsiteStreet,
+        suite: formData.jobsiteSuite || undefined,
+        city: formData.jobsiteCity,
+        state: formData.jobsiteState,
+        zip: formData.jobsiteZip,
+      } : undefined;
+
+      const input: DealInput = {
+        name: formData.name.trim(),
+        companyId: formData.companyId || undefined,
+        companyName: formData.companyName || undefined,
+        contactId: formData.contactId || undefined,
+        contactName: formData.contactName || undefined,
+        stage: formData.stage,
+        label: formData.label || undefined,
+        source: formData.source || undefined,
+        ownerId: formData.ownerId,
+        ownerName: formData.ownerName,
+        value: formData.value ? parseFloat(formData.value) : undefined,
+        commission: formData.commission ? parseFloat(formData.commission) : undefined,
+        units: formData.units ? parseInt(formData.units, 10) : undefined,
+        notes: formData.notes || undefined,
+        jobsiteAddress,
+      };
+      await onSave(input);
+      setHasChanges(false);
+      onClose();
+    } catch (err) {
+      toast.error('Error', 'Failed to save deal');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Handle delete
+  const handleDelete = async () => {
+    if (!deal || !onDelete) return;
+    try {
+      await onDelete(deal.id);
+      setShowDeleteConfirm(false);
+      onClose();
+    } catch (err) {
+      toast.error('Error', 'Failed to delete deal');
+    }
+  };
+
+  // Handle lost - the reason comes from LostReasonModal
+  const handleMarkLost = (reason: string) => {
+    if (!deal || !onMarkLost) return;
+    onMarkLost(deal.id, reason);
+    setShowLostModal(false);
+  };
+
+  // Don't render if not open
+  if (!isOpen) return null;
+
+  const isEditing = !!deal;
+  const isClosed = deal?.status === 'won' || deal?.status === 'lost';
+
+  return createPortal(
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/20 dark:bg-black/40 z-40"
+        onClick={handleClose}
+      />
+
+      {/* Panel */}
+      <div
+        className={clsx(
+          'fixed top-0 right-0 h-full w-full max-w-lg',
+          'bg-white dark:bg-slate-800',
+          'border-l border-slate-200 dark:border-slate-700',
+          'shadow-xl z-50',
+          'flex flex-col',
+          'animate-slide-in-right'
+        )}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-accent-100 dark:bg-accent-900/30 flex items-center justify-center">
+              <TrendingUp className="w-4 h-4 text-accent-600 dark:text-accent-400" />
+            </div>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+              {isEditing ? 'Edit Deal' : 'New Deal'}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Won/Lost status */}
+          {deal?.status === 'won' && (
+            <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-success-50 dark:bg-success-900/20 text-success-700 dark:text-success-400 text-sm">
+              <Trophy className="w-4 h-4 flex-shrink-0" />
+              <span>Won{deal.wonAt ? ` on ${formatDate(deal.wonAt)}` : ''}</span>
+            </div>
+          )}
+          {deal?.status === 'lost' && (
+            <div className="px-3 py-2 rounded-lg bg-danger-50 dark:bg-danger-900/20 text-danger-700 dark:text-danger-400 text-sm">
+              <div className="flex items-center gap-2">
+                <XCircle className="w-4 h-4 flex-shrink-0" />
+                <span>Lost{deal.lostAt ? ` on ${formatDate(deal.lostAt)}` : ''}</span>
+              </div>
+              {deal.lostReason && (
+                <p className="mt-1 ml-6 text-danger-600 dark:text-danger-400/80">{deal.lostReason}</p>
+              )}
+            </div>
+          )}
+
+          {/* Deal Name */}
+          <Input
+            label="Deal Name *"
+            value={formData.name}
+            onChange={(e) => updateField('name', e.target.value)}
+            placeholder="e.g., ABC Construction - Main Street Project"
+            leftIcon={<TrendingUp className="w-4 h-4" />}
+          />
+
+          {/* Stage and Label Row */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">
+                Stage <span className="text-danger-500">*</span>
+              </label>
+              <SelectFilter
+                label="Select stage"
+                value={formData.stage}
+                onChange={(value) => updateField('stage', value)}
+                options={stageOptions}
+                showAllOption={false}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">
+                Label
+              </label>
+              <SelectFilter
+                label="Select label"
+                value={formData.label}
+                onChange={(value) => updateField('label', value)}
+                options={labelOptions}
+                allLabel="No label"
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {/* Company and Contact */}
+          <EntitySearchDropdown
+            label="Company"
+            value={formData.companyId ? { id: formData.companyId, name: formData.companyName } : null}
+            onChange={handleCompanyChange}
+            items={companyItems}
+            placeholder="Search companies..."
+            icon={Building2}
+          />
+
+          <EntitySearchDropdown
+            label="Contact"
+            value={formData.contactId ? { id: formData.contactId, name: formData.contactName } : null}
+            onChange={handleContactChange}
+            items={contactItems}
+            placeholder="Search contacts..."
+            icon={User}
+            labelSuffix={formData.companyId ? '(filtered by company)' : undefined}
+          />
+
+          {/* Owner and Source Row */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">
+                Owner <span className="text-danger-500">*</span>
+              </label>
+              <SelectFilter
+                label="Select owner"
+                value={formData.ownerId}
+                onChange={(value) => handleOwnerChange(value)}
+                options={userOptions}
+                showAllOption={false}
+                icon={User}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">
+                Source
+              </label>
+              <SelectFilter
+                label="Select source"
+                value={formData.source}
+                onChange={(value) => updateField('source', value)}
+                options={sourceOptions}
+                allLabel="No source"
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {/* Value, Commission and Units */}
+          <Input
+            label="Value"
+            type="number"
+            value={formData.value}
+            onChange={(e) => updateField('value', e.target.value)}
+            placeholder="0.00"
+            leftIcon={<DollarSign className="w-4 h-4" />}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Input
+                label="Commission"
+                type="number"
+                value={formData.commission}
+                onChange={(e) => updateField('commission', e.target.value)}
+                placeholder="0.00"
+                leftIcon={<DollarSign className="w-4 h-4" />}
+              />
+              {formData.commission && parseFloat(formData.value) > 0 && (
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+                  <Percent className="w-3 h-3" />
+                  {((parseFloat(formData.commission) / parseFloat(formData.value)) * 100).toFixed(1)}% of value
+                </p>
+              )}
+            </div>
+            <Input
+              label="Units"
+              type="number"
+              min={0}
+              step={1}
+              value={formData.units}
+              onChange={(e) => updateField('units', e.target.value)}
+              placeholder="0"
+              leftIcon={<Hash className="w-4 h-4" />}
+            />
+          </div>
+
+          {/* Jobsite Address - Simple fields */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2">
+              <MapPin className="w-4 h-4" />
+              Jobsite Address
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              <div className="col-span-3">
+                <Input
+                  placeholder="Street address"
+                  value={formData.jobsiteStreet}
+                  onChange={(e) => updateField('jobsiteStreet', e.target.value)}
+                />
+              </div>
+              <Input
+                placeholder="Suite"
+                value={formData.jobsiteSuite}
+                onChange={(e) => updateField('jobsiteSuite', e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                placeholder="City"
+                value={formData.jobsiteCity}
+                onChange={(e) => updateField('jobsiteCity', e.target.value)}
+              />
+              <Input
+                placeholder="State"
+                value={formData.jobsiteState}
+                onChange={(e) => updateField('jobsiteState', e.target.value)}
+              />
+              <Input
+                placeholder="ZIP"
+                value={formData.jobsiteZip}
+                onChange={(e) => updateField('jobsiteZip', e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Notes */}
+          <Textarea
+            label="Notes"
+            value={formData.notes}
+            onChange={(e) => updateField('notes', e.target.value)}
+            placeholder="Add notes about this deal..."
+            rows={3}
+          />
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              {isEditing && onDelete && (
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={() => setShowDeleteConfirm(true)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+              {isEditing && !isClosed && onMarkWon && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => onMarkWon(deal!.id)}
+                >
+                  <Trophy className="w-4 h-4 mr-1" />
+                  Won
+                </Button>
+              )}
+              {isEditing && !isClosed && onMarkLost && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setShowLostModal(true)}
+                >
+                  <XCircle className="w-4 h-4 mr-1" />
+                  Lost
+                </Button>
+              )}
+              {isEditing && isClosed && onReopen && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => onReopen(deal!.id)}
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Reopen
+                </Button>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="secondary" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button variant="primary" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Deal'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Unsaved Changes Modal */}
+      <UnsavedChangesModal
+        isOpen={showUnsavedModal}
+        onCancel={() => setShowUnsavedModal(false)}
+        onDiscard={() => {
+          setShowUnsavedModal(false);
+          setHasChanges(false);
+          onClose();
+        }}
+        onSave={handleSave}
+      />
+
+      {/* Lost Reason Modal */}
+      <LostReasonModal
+        isOpen={showLostModal}
+        dealName={deal?.name}
+        onClose={() => setShowLostModal(false)}
+        onConfirm={handleMarkLost}
+      />
+
+      {/* Delete Confirmation Modal */}
+      {showDeleteConfirm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60]">
+          <div className="bg-white dark:bg-slate-800 rounded-xl p-6 max-w-sm mx-4 shadow-xl">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">
+              Delete Deal?
+            </h3>
+            <p className="text-slate-600 dark:text-slate-400 mb-4">
+              "{deal?.name}" will be moved to Recently deleted and permanently removed after {DELETED_DEAL_RETENTION_DAYS} days.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => setShowDeleteConfirm(false)}>
+                Cancel
+              </Button>
+              <Button variant="danger" onClick={handleDelete}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>,
+    document.body
+  );
+}
+
+export default DealDetailPanel;
\ No newline at end of file
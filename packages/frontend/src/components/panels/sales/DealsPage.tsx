@@ -0,0 +1,982 @@
+// ============================================================================
+// DealsPage - Deal Pipeline with Kanban, List and Recently Deleted Views
+// Location: src/components/panels/sales/DealsPage.tsx
+//
+// AUDIT COMPLIANCE:
+// - Uses common components: FilterBar, FilterToggle, FilterCount, SelectFilter,
+//   SearchInput, DataTable, Button, KanbanBoard, ConfirmModal
+// - Uses hooks: useDocumentTitle
+// - Uses contexts: useSalesStore, useFieldsStore, useUsersStore, useToast
+//
+// The Kanban board has a column per deal stage plus Won and Lost lanes.
+// Dropping a card on Lost asks for the (required) reason; dragging a closed
+// deal back onto a stage reopens it. /sales/deals/:id opens the detail panel.
+// ============================================================================
+
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { clsx } from 'clsx';
+import {
+  Plus,
+  TrendingUp,
+  LayoutGrid,
+  List,
+  Trash2,
+  Building2,
+  User,
+  Tag,
+  Trophy,
+  XCircle,
+  RotateCcw,
+  Clock,
+  Activity,
+} from 'lucide-react';
+import { Page } from '@/components/layout';
+import {
+  Button,
+  SearchInput,
+  SelectFilter,
+  FilterBar,
+  FilterCount,
+  FilterScope,
+  FilterToggle,
+  DataTable,
+  ConfirmModal,
+  type DataTableColumn,
+} from '@/components/common';
+import { KanbanBoard, type KanbanColumn, type KanbanCardProps } from '@/components/common/KanbanBoard';
+import { DealDetailPanel } from './DealDetailPanel';
+import { LostReasonModal } from './LostReasonModal';
+import {
+  useSalesStore,
+  useFieldsStore,
+  useUsersStore,
+  useToast,
+  DELETED_DEAL_RETENTION_DAYS,
+  type Deal,
+  type DealInput,
+  type DealStatus,
+} from '@/contexts';
+import { useDocumentTitle, usePermission, useRecordScope } from '@/hooks';
+import { formatDate } from '@/utils/dateUtils';
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+type ViewMode = 'kanban' | 'list' | 'deleted';
+type SortField = 'name' | 'company' | 'value' | 'commission' | 'units' | 'owner' | 'createdAt';
+type SortDirection = 'asc' | 'desc';
+
+// Won/Lost lanes sit after the stage columns on the Kanban board
+const WON_COLUMN_ID = 'deal-status-won';
+const LOST_COLUMN_ID = 'deal-status-lost';
+const WON_COLOR = '#22c55e';
+const LOST_COLOR = '#ef4444';
+
+const STATUS_OPTIONS: { value: DealStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'won', label: 'Won' },
+  { value: 'lost', label: 'Lost' },
+];
+
+const formatCurrency = (value: number) => `$${value.toLocaleString()}`;
+
+// Whole days left before a deleted deal is purged (0 = purged at the next cleanup)
+function daysUntilPurge(deletedAt: string): number {
+  const purgeAt = new Date(deletedAt).getTime() + DELETED_DEAL_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+const labelColor = (label: string) =>
+  label === 'Hot'
+    ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+    : label === 'Warm'
+      ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+      : 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400';
+
+// ============================================================================
+// Deal Card for Kanban
+// ============================================================================
+
+interface DealCardData {
+  id: string;
+  title: string;
+  value?: number;
+  commission?: number;
+  units?: number;
+  status: DealStatus;
+  label?: { text: string; color: string };
+  owner?: { name: string };
+  companyName?: string;
+  contactName?: string;
+  lostReason?: string;
+}
+
+function DealCard({
+  item,
+  onClick,
+  onDragStart,
+  isDragging,
+}: KanbanCardProps<DealCardData>) {
+  return (
+    <div
+      draggable
+      onDragStart={(e) => onDragStart(e, item)}
+      onClick={() => onClick(item)}
+      className={clsx(
+        'bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700',
+        'p-3 cursor-pointer transition-all duration-150',
+        'hover:shadow-md hover:border-slate-300 dark:hover:border-slate-600',
+        'group',
+        isDragging && 'opacity-50 shadow-lg scale-105'
+      )}
+    >
+      {/* Title Row */}
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <h4 className="font-medium text-slate-900 dark:text-white text-sm line-clamp-2">
+          {item.title}
+        </h4>
+        {item.label && (
+          <span className={clsx('px-1.5 py-0.5 rounded text-xs font-medium flex-shrink-0', item.label.color)}>
+            {item.label.text}
+          </span>
+        )}
+      </div>
+
+      {/* Company/Contact */}
+      {(item.companyName || item.contactName) && (
+        <div className="text-xs text-slate-500 dark:text-slate-400 mb-2 space-y-0.5">
+          {item.companyName && (
+            <div className="flex items-center gap-1">
+              <Building2 className="w-3 h-3" />
+              <span className="truncate">{item.companyName}</span>
+            </div>
+          )}
+          {item.contactName && (
+            <div className="flex items-center gap-1">
+              <User className="w-3 h-3" />
+              <span className="truncate">{item.contactName}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Lost reason */}
+      {item.status === 'lost' && item.lostReason && (
+        <p className="text-xs text-danger-600 dark:text-danger-400 mb-2 line-clamp-2">
+          {item.lostReason}
+        </p>
+      )}
+
+      {/* Value and Owner Row */}
+      <div className="flex items-center justify-between pt-2 border-t border-slate-100 dark:border-slate-700">
+        {item.value !== undefined && item.value > 0 ? (
+          <span className="text-sm font-semibold text-green-600 dark:text-green-400">
+            {formatCurrency(item.value)}
+          </span>
+        ) : (
+          <span className="text-xs text-slate-400">No value</span>
+        )}
+
+        {item.owner && (
+          <div className="flex items-center gap-1.5">
+            <div className="w-5 h-5 rounded-full bg-brand-100 dark:bg-brand-900/30 flex items-center justify-center">
+              <span className="text-xs font-medium text-brand-600 dark:text-brand-400">
+                {item.owner.name.charAt(0).toUpperCase()}
+              </span>
+            </div>
+            <span className="text-xs text-slate-500 dark:text-slate-400 truncate max-w-[80px]">
+              {item.owner.name}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Commission / Units */}
+      {!!(item.commission || item.units) && (
+        <div className="mt-2 flex items-center gap-3 text-xs text-slate-400 dark:text-slate-500">
+          {item.commission ? <span>Comm. {formatCurrency(item.commission)}</span> : null}
+          {item.units ? <span>{item.units} units</span> : null}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function DealsPage() {
+  useDocumentTitle('Deals');
+  const canCreate = usePermission('sales:create');
+  const canDelete = usePermission('sales:delete');
+  const { isRepVisible } = useRecordScope();
+  const navigate = useNavigate();
+  const { id: routeDealId } = useParams<{ id: string }>();
+  const toast = useToast();
+
+  // Stores
+  const {
+    deals,
+    createDeal,
+    updateDeal,
+    deleteDeal,
+    restoreDeal,
+    permanentlyDeleteDeal,
+    markDealWon,
+    markDealLost,
+    reopenDeal,
+    getDeletedDeals,
+    cleanupDeletedDeals,
+  } = useSalesStore();
+  const { dealStages, leadLabels } = useFieldsStore();
+  const { users } = useUsersStore();
+
+  // View state
+  const [viewMode, setViewMode] = useState<ViewMode>('kanban');
+  const [search, setSearch] = useState('');
+  const [stageFilter, setStageFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [labelFilter, setLabelFilter] = useState('');
+  const [ownerFilter, setOwnerFilter] = useState('');
+
+  // Sort state (for list view)
+  const [sortField, setSortField] = useState<SortField>('createdAt');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+
+  // Panel / dialog state
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [defaultStage, setDefaultStage] = useState<string | undefined>();
+  const [lostDealId, setLostDealId] = useState<string | null>(null);
+  const [purgeDealId, setPurgeDealId] = useState<string | null>(null);
+
+  // Drop deals the server has already purged from the cache
+  useEffect(() => {
+    cleanupDeletedDeals();
+  }, [cleanupDeletedDeals]);
+
+  // Deal opened via /sales/deals/:id (slug or id)
+  const selectedDeal = useMemo(
+    () => routeDealId ? deals.find(d => d.slug === routeDealId || d.id === routeDealId) ?? null : null,
+    [deals, routeDealId]
+  );
+
+  const lostDeal = useMemo(() => deals.find(d => d.id === lostDealId), [deals, lostDealId]);
+  const purgeDeal = useMemo(() => deals.find(d => d.id === purgeDealId), [deals, purgeDealId]);
+
+  // Check if any filters are active
+  const hasActiveFilters = search || stageFilter || statusFilter || labelFilter || ownerFilter;
+
+  // Clear all filters
+  const clearFilters = useCallback(() => {
+    setSearch('');
+    setStageFilter('');
+    setStatusFilter('');
+    setLabelFilter('');
+    setOwnerFilter('');
+  }, []);
+
+  // ============================================================================
+  // Filtering
+  // ============================================================================
+
+  const matchesSearch = useCallback((deal: Deal) => {
+    const searchLower = search.toLowerCase();
+    return !search ||
+      deal.name.toLowerCase().includes(searchLower) ||
+      deal.companyName?.toLowerCase().includes(searchLower) ||
+      deal.contactName?.toLowerCase().includes(searchLower);
+  }, [search]);
+
+  // Helper: Get deals that match all OTHER filters (excluding the one we're building options for)
+  const getDealsMatchingOtherFilters = useCallback((excludeFilter?: 'stage' | 'status' | 'label' | 'owner') => {
+    return deals.filter(deal => {
+      if (deal.deletedAt) return false;
+
+      const matchesStage = excludeFilter === 'stage' || !stageFilter || deal.stage === stageFilter;
+      const matchesStatus = excludeFilter === 'status' || !statusFilter || deal.status === statusFilter;
+      const matchesLabel = excludeFilter === 'label' || !labelFilter || deal.label === labelFilter;
+      const matchesOwner = excludeFilter === 'owner' || !ownerFilter || deal.ownerId === ownerFilter;
+
+      return matchesSearch(deal) && matchesStage && matchesStatus && matchesLabel && matchesOwner;
+    });
+  }, [deals, matchesSearch, stageFilter, statusFilter, labelFilter, ownerFilter]);
+
+  const filteredDeals = useMemo(() => {
+    let result = getDealsMatchingOtherFilters();
+
+    // Sort (for list view)
+    if (viewMode === 'list') {
+      result = [...result].sort((a, b) => {
+        let aVal: string | number = '';
+        let bVal: string | number = '';
+
+        switch (sortField) {
+          case 'name':
+            aVal = a.name.toLowerCase();
+            bVal = b.name.toLowerCase();
+            break;
+          case 'company':
+            aVal = (a.companyName || '').toLowerCase();
+            bVal = (b.companyName || '').toLowerCase();
+            break;
+          case 'value':
+            aVal = a.value || 0;
+            bVal = b.value || 0;
+            break;
+          case 'commission':
+            aVal = a.commission || 0;
+            bVal = b.commission || 0;
+            break;
+          case 'units':
+            aVal = a.units || 0;
+            bVal = b.units || 0;
+            break;
+          case 'owner':
+            aVal = a.ownerName.toLowerCase();
+            bVal = b.ownerName.toLowerCase();
+            break;
+          case 'createdAt':
+            aVal = a.createdAt;
+            bVal = b.createdAt;
+            break;
+        }
+
+        if (aVal < bVal) return sortDirection === 'asc' ? -1 : 1;
+        if (aVal > bVal) return sortDirection === 'asc' ? 1 : -1;
+        return 0;
+      });
+    }
+
+    return result;
+  }, [getDealsMatchingOtherFilters, viewMode, sortField, sortDirection]);
+
+  // Recently deleted - newest first, search only
+  const deletedDeals = useMemo(
+    () => getDeletedDeals()
+      .filter(matchesSearch)
+      .sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || '')),
+    // getDeletedDeals reads from deals - recompute when they change
+    [deals, getDeletedDeals, matchesSearch]
+  );
+
+  // ============================================================================
+  // Filter Options with Counts and Cross-Filter Logic
+  // ============================================================================
+
+  // Stage options with counts - only show stages that have deals
+  const stageOptions = useMemo(() => {
+    const matchingDeals = getDealsMatchingOtherFilters('stage');
+
+    return dealStages
+      .map(stage => ({
+        value: stage.name,
+        label: stage.name,
+        count: matchingDeals.filter(d => d.stage === stage.name).length,
+      }))
+      .filter(option => option.count > 0);
+  }, [dealStages, getDealsMatchingOtherFilters]);
+
+  const statusOptions = useMemo(() => {
+    const matchingDeals = getDealsMatchingOtherFilters('status');
+
+    return STATUS_OPTIONS
+      .map(option => ({
+        ...option,
+        count: matchingDeals.filter(d => d.status === option.value).length,
+      }))
+      .filter(option => option.count > 0);
+  }, [getDealsMatchingOtherFilters]);
+
+  // Label options with counts - only show labels that have deals
+  const labelOptions = useMemo(() => {
+    const matchingDeals = getDealsMatchingOtherFilters('label');
+
+    return leadLabels
+      .map(label => ({
+        value: label.name,
+        label: label.name,
+        count: matchingDeals.filter(d => d.label === label.name).length,
+      }))
+      .filter(option => option.count > 0);
+  }, [leadLabels, getDealsMatchingOtherFilters]);
+
+  // Owner options with counts - only show owners that have deals
+  const ownerOptions = useMemo(() => {
+    const matchingDeals = getDealsMatchingOtherFilters('owner');
+    // Owners outside the user's record scope have no visible deals
+    const activeUsers = users.filter(u => u.isActive && isRepVisible(u.id));
+
+    return activeUsers
+      .map(user => ({
+        value: user.id,
+        label: user.name,
+        count: matchingDeals.filter(d => d.ownerId === user.id).length,
+      }))
+      .filter(option => option.count > 0)
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [users, getDealsMatchingOtherFilters, isRepVisible]);
+
+  // ============================================================================
+  // Kanban Data
+  // ============================================================================
+
+  const kanbanColumns: KanbanColumn<DealCardData>[] = useMemo(() => {
+    const toCard = (deal: Deal): DealCardData => ({
+      id: deal.id,
+      title: deal.name,
+      companyName: deal.companyName,
+      contactName: deal.contactName,
+      value: deal.value,
+      commission: deal.commission,
+      units: deal.units,
+      status: deal.status,
+      lostReason: deal.lostReason,
+      label: deal.label ? { text: deal.label, color: labelColor(deal.label) } : undefined,
+      owner: deal.ownerName ? { name: deal.ownerName } : undefined,
+    });
+
+    const stageColumns = dealStages.map(stage => ({
+      id: stage.id,
+      title: stage.name,
+      color: stage.color,
+      items: filteredDeals
+        .filter(deal => deal.status === 'active' && deal.stage === stage.name)
+        .map(toCard),
+    }));
+
+    return [
+      ...stageColumns,
+      {
+        id: WON_COLUMN_ID,
+        title: 'Won',
+        color: WON_COLOR,
+        items: filteredDeals.filter(deal => deal.status === 'won').map(toCard),
+      },
+      {
+        id: LOST_COLUMN_ID,
+        title: 'Lost',
+        color: LOST_COLOR,
+        items: filteredDeals.filter(deal => deal.status === 'lost').map(toCard),
+      },
+    ];
+  }, [dealStages, filteredDeals]);
+
+  // ============================================================================
+  // Handlers
+  // ============================================================================
+
+  const handleSort = useCallback((field: string) => {
+    if (sortField === field) {
+      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field as SortField);
+      setSortDirection('asc');
+    }
+  }, [sortField]);
+
+  const handleAddDeal = useCallback((columnId?: string) => {
+    const stage = dealStages.find(s => s.id === columnId);
+    setDefaultStage(stage?.name);
+    setIsCreateOpen(true);
+  }, [dealStages]);
+
+  const handleViewDeal = useCallback((dealOrCard: Deal | DealCardData) => {
+    const deal = deals.find(d => d.id === dealOrCard.id);
+    if (deal) {
+      navigate(`/sales/deals/${deal.slug || deal.id}`);
+    }
+  }, [deals, navigate]);
+
+  const handleClosePanel = useCallback(() => {
+    if (selectedDeal) {
+      navigate('/sales/deals');
+    }
+    setIsCreateOpen(false);
+    setDefaultStage(undefined);
+  }, [selectedDeal, navigate]);
+
+  const handleSaveDeal = useCallback(async (data: DealInput) => {
+    if (selectedDeal) {
+      updateDeal(selectedDeal.id, data);
+      toast.success('Deal Updated', `"${data.name}" has been saved`);
+    } else {
+      createDeal(data);
+      toast.success('Deal Created', `"${data.name}" has been created`);
+    }
+  }, [selectedDeal, createDeal, updateDeal, toast]);
+
+  const handleDeleteDeal = useCallback(async (dealId: string) => {
+    const deal = deals.find(d => d.id === dealId);
+    deleteDeal(dealId);
+    toast.info('Deal Deleted', `"${deal?.name}" moved to Recently deleted`);
+  }, [deals, deleteDeal, toast]);
+
+  const handleMarkWon = useCallback((dealId: string) => {
+    const deal = deals.find(d => d.id === dealId);
+    markDealWon(dealId);
+    toast.success('Deal Won', `"${deal?.name}" marked as won`);
+  }, [deals, markDealWon, toast]);
+
+  const handleMarkLost = useCallback((dealId: string, reason: string) => {
+    const deal = deals.find(d => d.id === dealId);
+    markDealLost(dealId, reason);
+    toast.info('Deal Lost', `"${deal?.name}" marked as lost`);
+  }, [deals, markDealLost, toast]);
+
+  const handleReopen = useCallback((dealId: string) => {
+    const deal = deals.find(d => d.id === dealId);
+    reopenDeal(dealId);
+    toast.success('Deal Reopened', `"${deal?.name}" is back in the pipeline`);
+  }, [deals, reopenDeal, toast]);
+
+  const handleRestore = useCallback((deal: Deal) => {
+    restoreDeal(deal.id);
+    toast.success('Deal Restored', `"${deal.name}" has been restored`);
+  }, [restoreDeal, toast]);
+
+  const handlePermanentDelete = useCallback(() => {
+    if (!purgeDeal) return;
+    permanentlyDeleteDeal(purgeDeal.id);
+    toast.success('Deal Deleted', `"${purgeDeal.name}" has been permanently deleted`);
+    setPurgeDealId(null);
+  }, [purgeDeal, permanentlyDeleteDeal, toast]);
+
+  const handleKanbanMove = useCallback((itemId: string, fromColumnId: string, toColumnId: string) => {
+    if (toColumnId === WON_COLUMN_ID) {
+      handleMarkWon(itemId);
+      return;
+    }
+    if (toColumnId === LOST_COLUMN_ID) {
+      // Lost needs a reason - the move happens when the dialog is confirmed
+      setLostDealId(itemId);
+      return;
+    }
+
+    const stage = dealStages.find(s => s.id === toColumnId);
+    if (!stage) return;
+
+    // Dragging a closed deal back onto a stage reopens it
+    if (fromColumnId === WON_COLUMN_ID || fromColumnId === LOST_COLUMN_ID) {
+      reopenDeal(itemId);
+    }
+    updateDeal(itemId, { stage: stage.name });
+    toast.success('Deal Moved', `Moved to ${stage.name}`);
+  }, [dealStages, handleMarkWon, reopenDeal, updateDeal, toast]);
+
+  // ============================================================================
+  // Table Columns
+  // ============================================================================
+
+  const columns: DataTableColumn<Deal>[] = useMemo(() => [
+    {
+      key: 'name',
+      header: 'Deal Name',
+      sortable: true,
+      render: (deal) => (
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-accent-100 dark:bg-accent-900/30 flex items-center justify-center flex-shrink-0">
+            <TrendingUp className="w-4 h-4 text-accent-600 dark:text-accent-400" />
+          </div>
+          <div>
+            <span className="font-medium text-slate-900 dark:text-white">
+              {deal.name}
+            </span>
+            {deal.label && (
+              <span className={clsx('ml-2 px-1.5 py-0.5 rounded text-xs font-medium', labelColor(deal.label))}>
+                {deal.label}
+              </span>
+            )}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'stage',
+      header: 'Stage',
+      render: (deal) => {
+        if (deal.status !== 'active') {
+          return (
+            <span className={clsx(
+              'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium',
+              deal.status === 'won'
+                ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+            )}>
+              {deal.status === 'won' ? <Trophy className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+              {deal.status === 'won' ? 'Won' : 'Lost'}
+            </span>
+          );
+        }
+        const stageConfig = dealStages.find(s => s.name === deal.stage);
+        return (
+          <div className="flex items-center gap-2">
+            <div
+              className="w-2.5 h-2.5 rounded-full"
+              style={{ backgroundColor: stageConfig?.color || '#64748b' }}
+            />
+            <span className="text-slate-600 dark:text-slate-400">{deal.stage}</span>
+          </div>
+        );
+      },
+    },
+    {
+      key: 'company',
+      header: 'Company',
+      sortable: true,
+      render: (deal) => (
+        <span className="text-slate-600 dark:text-slate-400">
+          {deal.companyName || '—'}
+        </span>
+      ),
+      hideOnMobile: true,
+    },
+    {
+      key: 'value',
+      header: 'Value',
+      sortable: true,
+      align: 'right',
+      render: (deal) => (
+        <span className={clsx(
+          'font-medium',
+          deal.value && deal.value > 0
+            ? 'text-green-600 dark:text-green-400'
+            : 'text-slate-400'
+        )}>
+          {deal.value ? formatCurrency(deal.value) : '—'}
+        </span>
+      ),
+      hideOnMobile: true,
+    },
+    {
+      key: 'commission',
+      header: 'Commission',
+      sortable: true,
+      align: 'right',
+      render: (deal) => (
+        <span className="text-slate-600 dark:text-slate-400">
+          {deal.commission ? formatCurrency(deal.commission) : '—'}
+        </span>
+      ),
+      hideOnMobile: true,
+    },
+    {
+      key: 'units',
+      header: 'Units',
+      sortable: true,
+      align: 'right',
+      render: (deal) => (
+        <span className="text-slate-600 dark:text-slate-400">
+          {deal.units ?? '—'}
+        </span>
+      ),
+      hideOnMobile: true,
+    },
+    {
+      key: 'owner',
+      header: 'Owner',
+      sortable: true,
+      render: (deal) => (
+        <span className="text-slate-600 dark:text-slate-400">
+          {deal.ownerName || '—'}
+        </span>
+      ),
+      hideOnMobile: true,
+    },
+    {
+      key: 'createdAt',
+      header: 'Created',
+      sortable: true,
+      render: (deal) => (
+        <span className="text-slate-500 dark:text-slate-400 text-sm">
+          {formatDate(deal.createdAt)}
+        </span>
+      ),
+      hideOnMobile: true,
+    },
+  ], [dealStages]);
+
+  const deletedColumns: DataTableColumn<Deal>[] = useMemo(() => [
+    {
+      key: 'name',
+      header: 'Deal Name',
+      render: (deal) => (
+        <div>
+          <span className="font-medium text-slate-900 dark:text-white">{deal.name}</span>
+          {deal.companyName && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">{deal.companyName}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'value',
+      header: 'Value',
+      align: 'right',
+      render: (deal) => (
+        <span className="text-slate-600 dark:text-slate-400">
+          {deal.value ? formatCurrency(deal.value) : '—'}
+        </span>
+      ),
+      hideOnMobile: true,
+    },
+    {
+      key: 'deletedAt',
+      header: 'Deleted',
+      render: (deal) => (
+        <span className="text-slate-500 dark:text-slate-400 text-sm">
+          {deal.deletedAt ? formatDate(deal.deletedAt) : '—'}
+        </span>
+      ),
+      hideOnMobile: true,
+    },
+    {
+      key: 'purge',
+      header: 'Permanently deleted in',
+      render: (deal) => {
+        const days = deal.deletedAt ? daysUntilPurge(deal.deletedAt) : 0;
+        return (
+          <span className={clsx(
+            'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium',
+            days <= 7
+              ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+              : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300'
+          )}>
+            <Clock className="w-3 h-3" />
+            {days === 0 ? 'Today' : `${days} day${days === 1 ? '' : 's'}`}
+          </span>
+        );
+      },
+    },
+    {
+      key: 'actions',
+      header: '',
+      align: 'right',
+      resizable: false,
+      render: (deal) => (
+        <div className="flex items-center justify-end gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleRestore(deal);
+            }}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Restore
+          </Button>
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                setPurgeDealId(deal.id);
+              }}
+            >
+              <Trash2 className="w-4 h-4 text-danger-500" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ], [handleRestore, canDelete]);
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  const isDeletedView = viewMode === 'deleted';
+
+  return (
+    <Page
+      title="Deals"
+      description="Track deals through your sales pipeline"
+      actions={
+        canCreate ? (
+          <Button variant="primary" onClick={() => handleAddDeal()}>
+            <Plus className="w-4 h-4 mr-1.5" />
+            New Deal
+          </Button>
+        ) : undefined
+      }
+    >
+      {/* Filter Bar */}
+      <FilterBar
+        rightContent={
+          <div className="flex items-center gap-3">
+            <FilterScope />
+            <FilterCount
+              count={isDeletedView ? deletedDeals.length : filteredDeals.length}
+              singular={isDeletedView ? 'deleted deal' : 'deal'}
+            />
+            <FilterToggle
+              options={[
+                { value: 'kanban', label: 'Kanban', icon: <LayoutGrid className="w-4 h-4" /> },
+                { value: 'list', label: 'List', icon: <List className="w-4 h-4" /> },
+                { value: 'deleted', label: 'Recently deleted', icon: <Trash2 className="w-4 h-4" /> },
+              ]}
+              value={viewMode}
+              onChange={setViewMode}
+            />
+          </div>
+        }
+      >
+        <SearchInput
+          value={search}
+          onChange={setSearch}
+          placeholder="Search deals..."
+          className="w-48 [&_input]:h-[34px] [&_input]:text-sm"
+        />
+        {!isDeletedView && (
+          <>
+            {/* Stage and status are columns on the Kanban board - filter them in List view only */}
+            {viewMode === 'list' && (
+              <>
+                <SelectFilter
+                  label="Stage"
+                  value={stageFilter}
+                  onChange={setStageFilter}
+                  options={stageOptions}
+                  icon={TrendingUp}
+                  size="sm"
+                  className="w-36"
+                />
+                <SelectFilter
+                  label="Status"
+                  value={statusFilter}
+                  onChange={setStatusFilter}
+                  options={statusOptions}
+                  icon={Activity}
+                  size="sm"
+                  className="w-36"
+                />
+              </>
+            )}
+            <SelectFilter
+              label="Label"
+              value={labelFilter}
+              onChange={setLabelFilter}
+              options={labelOptions}
+              icon={Tag}
+              size="sm"
+              className="w-36"
+            />
+            <SelectFilter
+              label="Owner"
+              value={ownerFilter}
+              onChange={setOwnerFilter}
+              options={ownerOptions}
+              icon={User}
+              size="sm"
+              className="w-36"
+            />
+          </>
+        )}
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            Clear filters
+          </Button>
+        )}
+      </FilterBar>
+
+      {/* Content */}
+      {viewMode === 'kanban' && (
+        <KanbanBoard
+          columns={kanbanColumns}
+          renderCard={(props) => <DealCard {...props} />}
+          getItemId={(item) => item.id}
+          getItemValue={(item) => item.value || 0}
+          formatValue={formatCurrency}
+          onItemMove={handleKanbanMove}
+          onCardClick={handleViewDeal}
+          onAddClick={handleAddDeal}
+          showTotals
+        />
+      )}
+
+      {viewMode === 'list' && (
+        <DataTable
+          data={filteredDeals}
+          columns={columns}
+          rowKey={(deal) => deal.id}
+          onRowClick={handleViewDeal}
+          onSort={handleSort}
+          sortField={sortField}
+          sortDirection={sortDirection}
+          emptyState={
+            <div className="text-center py-12">
+              <TrendingUp className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">No deals yet</h3>
+              <p className="text-slate-500 dark:text-slate-400 mb-4">Create a deal or convert a lead to start tracking your pipeline.</p>
+              <Button variant="primary" onClick={() => handleAddDeal()}>
+                <Plus className="w-4 h-4 mr-1.5" />
+                New Deal
+              </Button>
+            </div>
+          }
+        />
+      )}
+
+      {isDeletedView && (
+        <>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">
+            Deleted deals are kept for {DELETED_DEAL_RETENTION_DAYS} days and then permanently removed.
+          </p>
+          <DataTable
+            data={deletedDeals}
+            columns={deletedColumns}
+            rowKey={(deal) => deal.id}
+            emptyState={
+              <div className="text-center py-12">
+                <Trash2 className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">Nothing here</h3>
+                <p className="text-slate-500 dark:text-slate-400">Deals you delete will appear here until they are purged.</p>
+              </div>
+            }
+          />
+        </>
+      )}
+
+      {/* Deal Detail Panel - create, or edit the deal in the URL */}
+      <DealDetailPanel
+        deal={selectedDeal}
+        isOpen={isCreateOpen || !!selectedDeal}
+        onClose={handleClosePanel}
+        onSave={handleSaveDeal}
+        onDelete={canDelete ? handleDeleteDeal : undefined}
+        onMarkWon={handleMarkWon}
+        onMarkLost={handleMarkLost}
+        onReopen={handleReopen}
+        defaultStage={defaultStage}
+      />
+
+      {/* Lost reason for deals dropped on the Lost lane */}
+      <LostReasonModal
+        isOpen={!!lostDeal}
+        dealName={lostDeal?.name}
+        onClose={() => setLostDealId(null)}
+        onConfirm={(reason) => {
+          if (lostDeal) handleMarkLost(lostDeal.id, reason);
+          setLostDealId(null);
+        }}
+      />
+
+      {/* Permanent delete confirmation */}
+      <ConfirmModal
+        isOpen={!!purgeDeal}
+        onClose={() => setPurgeDealId(null)}
+        onConfirm={handlePermanentDelete}
+        title="Delete Permanently?"
+        message={`"${purgeDeal?.name}" will be deleted permanently. This action cannot be undone.`}
+        confirmText="Delete Permanently"
+        variant="danger"
+      />
+    </Page>
+  );
+}
+
+export default DealsPage;
@@ -0,0 +1,626 @@
+// ============================================================================
+// InboxPage - Sales Inbox
+// Location: src/components/panels/sales/InboxPage.tsx
+//
+// AUDIT COMPLIANCE:
+// - Uses common components: FilterBar, QuickFilters, SearchInput, Button, Modal,
+//   Textarea, Input, DatePicker, Toggle, EntitySearchDropdown
+// - Uses hooks: useDocumentTitle
+// - Uses contexts: useSalesStore, useTaskStore, useUsersStore, useAuthStore, useToast
+// - Uses API: useMailStatus, useMailThreads, useMailThread, useReplyToThread,
+//   useLinkThread, useMarkThreadRead, useSyncMailbox
+//
+// The shared sales mailbox, synced over IMAP by the server. Threads are linked
+// to contacts and open leads/deals automatically by email address; reps can
+// reply, turn a message into a task, or attach a thread to a deal by hand.
+// ============================================================================
+
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { clsx } from 'clsx';
+import {
+  Inbox,
+  RefreshCw,
+  Reply,
+  Send,
+  Link2,
+  ListPlus,
+  User,
+  Target,
+  TrendingUp,
+  AlertCircle,
+  ArrowUpRight,
+} from 'lucide-react';
+import { Page } from '@/components/layout';
+import {
+  Button,
+  Modal,
+  Input,
+  Textarea,
+  DatePicker,
+  Toggle,
+  SearchInput,
+  FilterBar,
+  FilterCount,
+  QuickFilters,
+  EntitySearchDropdown,
+  type EntitySearchItem,
+  type QuickFilterOption,
+} from '@/components/common';
+import {
+  useMailStatus,
+  useMailThreads,
+  useMailThread,
+  useReplyToThread,
+  useLinkThread,
+  useMarkThreadRead,
+  useSyncMailbox,
+  type MailThread,
+  type MailMessage,
+  type MailThreadFilter,
+} from '@/services/api';
+import {
+  useSalesStore,
+  useTaskStore,
+  useUsersStore,
+  useAuthStore,
+  useToast,
+  type LinkedEntity,
+} from '@/contexts';
+import { useDocumentTitle } from '@/hooks';
+import { getTodayISO } from '@/utils/dateUtils';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// "3:42 PM" today, "Mar 4" this year, "Mar 4, 2025" otherwise
+function formatMailDate(value: string): string {
+  const date = new Date(value);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  }
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(date.getFullYear() !== now.getFullYear() && { year: 'numeric' }),
+  });
+}
+
+const senderLabel = (message: MailMessage) =>
+  message.direction === 'outbound'
+    ? message.sentByName || 'You'
+    : message.fromName || message.fromAddress;
+
+// ============================================================================
+// Attach Thread Modal
+// ============================================================================
+
+function AttachThreadModal({
+  thread,
+  onClose,
+}: {
+  thread: MailThread | null;
+  onClose: () => void;
+}) {
+  const { leads, deals } = useSalesStore();
+  const linkThread = useLinkThread();
+  const toast = useToast();
+  const [selected, setSelected] = useState<EntitySearchItem | null>(null);
+
+  useEffect(() => {
+    if (thread) setSelected(null);
+  }, [thread]);
+
+  // Active deals first - that's what threads are usually attached to
+  const items: EntitySearchItem[] = useMemo(() => [
+    ...deals
+      .filter(deal => deal.status === 'active' && !deal.deletedAt)
+      .map(deal => ({
+        id: deal.id,
+        name: deal.name,
+        subtitle: ['Deal', deal.companyName].filter(Boolean).join(' · '),
+        metadata: { type: 'deal' },
+      })),
+    ...leads
+      .filter(lead => !lead.convertedToDealId)
+      .map(lead => ({
+        id: lead.id,
+        name: lead.name,
+        subtitle: ['Lead', lead.companyName].filter(Boolean).join(' · '),
+        metadata: { type: 'lead' },
+      })),
+  ], [leads, deals]);
+
+  const handleAttach = async () => {
+    if (!thread || !selected) return;
+    const isDeal = items.find(item => item.id === selected.id)?.metadata?.type === 'deal';
+    try {
+      await linkThread.mutateAsync({
+        id: thread.id,
+        data: isDeal ? { dealId: selected.id, leadId: null } : { leadId: selected.id, dealId: null },
+      });
+      toast.success('Thread Attached', `Attached to ${selected.name}`);
+      onClose();
+    } catch (err) {
+      toast.error('Error', 'Failed to attach thread');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!thread}
+      onClose={onClose}
+      title="Attach to Deal or Lead"
+      description={thread?.subject}
+      size="md"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleAttach} disabled={!selected || linkThread.isPending}>
+            <Link2 className="w-4 h-4 mr-1.5" />
+            Attach
+          </Button>
+        </>
+      }
+    >
+      <EntitySearchDropdown
+        label="Deal or Lead"
+        value={selected}
+        onChange={setSelected}
+        items={items}
+        placeholder="Search deals and leads..."
+        icon={TrendingUp}
+      />
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Task From Message Modal
+// ============================================================================
+
+function MessageTaskModal({
+  thread,
+  message,
+  onClose,
+}: {
+  thread: MailThread;
+  message: MailMessage | null;
+  onClose: () => void;
+}) {
+  const { leads, deals } = useSalesStore();
+  const { createTask } = useTaskStore();
+  const { users } = useUsersStore();
+  const { user: currentUser } = useAuthStore();
+  const toast = useToast();
+
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (message) {
+      setTitle(`Follow up: ${thread.subject || '(no subject)'}`);
+      setDueDate(getTodayISO());
+      setNotes(`${senderLabel(message)} wrote:\n${message.text.trim().slice(0, 1000)}`);
+    }
+  }, [message, thread.subject]);
+
+  const handleSave = async () => {
+    if (!message || !title.trim()) return;
+
+    const deal = thread.dealId ? deals.find(d => d.id === thread.dealId) : undefined;
+    const lead = thread.leadId ? leads.find(l => l.id === thread.leadId) : undefined;
+    const record = deal || lead;
+
+    // The record owner follows up; otherwise whoever is reading the inbox
+    const me = users.find(u => u.email === currentUser?.email);
+    const assignee = record
+      ? { id: record.ownerId, name: record.ownerName }
+      : { id: me?.id || currentUser?.id || '', name: me?.name || currentUser?.displayName || '' };
+
+    const linkedItem: LinkedEntity | null = deal
+      ? { type: 'deal', id: deal.id, name: deal.name }
+      : lead ? { type: 'lead', id: lead.id, name: lead.name } : null;
+    const linkedContact: LinkedEntity | null = thread.contactId
+      ? { type: 'contact', id: thread.contactId, name: thread.contactName || '' }
+      : null;
+
+    setIsSaving(true);
+    try {
+      await createTask({
+        title: title.trim(),
+        type: 'follow_up',
+        dueDate: dueDate || undefined,
+        assignedUserId: assignee.id,
+        assignedUserName: assignee.name,
+        linkedContact,
+        linkedItem,
+        notes: notes.trim() || undefined,
+      });
+      toast.success('Task Created', title.trim());
+      onClose();
+    } catch (err) {
+      toast.error('Error', 'Failed to create task');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!message}
+      onClose={onClose}
+      title="Create Task from Email"
+      size="md"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={!title.trim() || isSaving}>
+            {isSaving ? 'Saving...' : 'Create Task'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <Input
+          label="Title *"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <DatePicker label="Due date" value={dueDate} onChange={setDueDate} />
+        <Textarea
+          label="Notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={5}
+        />
+        {(thread.dealName || thread.leadName || thread.contactName) && (
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Linked to {[thread.dealName || thread.leadName, thread.contactName].filter(Boolean).join(' · ')}
+          </p>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Thread View
+// ============================================================================
+
+function ThreadView({
+  threadId,
+  canSend,
+  onAttach,
+}: {
+  threadId: string;
+  canSend: boolean;
+  onAttach: (thread: MailThread) => void;
+}) {
+  const navigate = useNavigate();
+  const toast = useToast();
+  const { leads, deals } = useSalesStore();
+  const { data, isLoading } = useMailThread(threadId);
+  const replyToThread = useReplyToThread();
+  const markRead = useMarkThreadRead();
+
+  const [replyText, setReplyText] = useState('');
+  const [replyAll, setReplyAll] = useState(false);
+  const [taskMessage, setTaskMessage] = useState<MailMessage | null>(null);
+
+  const thread = data?.data;
+
+  // Opening a thread marks it read
+  useEffect(() => {
+    if (thread && thread.unreadCount > 0 && !markRead.isPending) {
+      markRead.mutate(thread.id);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [thread?.id, thread?.unreadCount]);
+
+  useEffect(() => {
+    setReplyText('');
+    setReplyAll(false);
+  }, [threadId]);
+
+  const handleReply = async () => {
+    if (!thread || !replyText.trim()) return;
+    try {
+      await replyToThread.mutateAsync({ id: thread.id, data: { text: replyText.trim(), replyAll } });
+      setReplyText('');
+      toast.success('Reply Sent', thread.subject);
+    } catch (err) {
+      toast.error('Error', err instanceof Error ? err.message : 'Failed to send reply');
+    }
+  };
+
+  if (isLoading || !thread) {
+    return (
+      <div className="flex items-center justify-center h-64 text-slate-400">
+        {isLoading ? 'Loading...' : 'Thread not found'}
+      </div>
+    );
+  }
+
+  const deal = thread.dealId ? deals.find(d => d.id === thread.dealId) : undefined;
+  const lead = thread.leadId ? leads.find(l => l.id === thread.leadId) : undefined;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-700">
+        <div className="flex items-start justify-between gap-3">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+            {thread.subject || '(no subject)'}
+          </h2>
+          <Button variant="secondary" size="sm" onClick={() => onAttach(thread)}>
+            <Link2 className="w-4 h-4 mr-1.5" />
+            {thread.dealId || thread.leadId ? 'Change link' : 'Attach to deal'}
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+          {thread.contactName && (
+            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
+              <User className="w-3 h-3" />
+              {thread.contactName}
+            </span>
+          )}
+          {thread.dealId && (
+            <button
+              onClick={() => navigate(`/sales/deals/${deal?.slug || thread.dealId}`)}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-brand-50 text-brand-700 hover:bg-brand-100 dark:bg-brand-900/30 dark:text-brand-300"
+            >
+              <TrendingUp className="w-3 h-3" />
+              {thread.dealName}
+              <ArrowUpRight className="w-3 h-3" />
+            </button>
+          )}
+          {thread.leadId && (
+            <button
+              onClick={() => navigate(`/sales/leads/${lead?.slug || thread.leadId}`)}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-accent-50 text-accent-700 hover:bg-accent-100 dark:bg-accent-900/30 dark:text-accent-300"
+            >
+              <Target className="w-3 h-3" />
+              {thread.leadName}
+              <ArrowUpRight className="w-3 h-3" />
+            </button>
+          )}
+          {!thread.linkedManually && (thread.dealId || thread.leadId) && (
+            <span className="text-slate-400">Linked automatically</span>
+          )}
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+        {thread.messages.map(message => (
+          <div
+            key={message.id}
+            className={clsx(
+              'rounded-lg border p-4',
+              message.direction === 'outbound'
+                ? 'border-brand-200 bg-brand-50/50 dark:border-brand-800 dark:bg-brand-900/10 ml-8'
+                : 'border-slate-200 dark:border-slate-700 mr-8'
+            )}
+          >
+            <div className="flex items-start justify-between gap-3 mb-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-900 dark:text-white truncate">
+                  {senderLabel(message)}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                  to {[...message.to, ...message.cc].join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className="text-xs text-slate-400">{formatMailDate(message.sentAt)}</span>
+                <button
+                  onClick={() => setTaskMessage(message)}
+                  title="Create task"
+                  className="p-1 rounded text-slate-400 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                >
+                  <ListPlus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap break-words">
+              {message.text}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Reply */}
+      <div className="px-5 py-4 border-t border-slate-200 dark:border-slate-700">
+        {canSend ? (
+          <>
+            <Textarea
+              value={replyText}
+              onChange={(e) => setReplyText(e.target.value)}
+              placeholder="Write a reply..."
+              rows={4}
+            />
+            <div className="flex items-center justify-between mt-3">
+              <Toggle checked={replyAll} onChange={setReplyAll} label="Reply all" size="sm" />
+              <Button
+                variant="primary"
+                onClick={handleReply}
+                disabled={!replyText.trim() || replyToThread.isPending}
+              >
+                {replyAll ? <Reply className="w-4 h-4 mr-1.5" /> : <Send className="w-4 h-4 mr-1.5" />}
+                {replyToThread.isPending ? 'Sending...' : 'Send Reply'}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Replies are unavailable until outgoing mail (SMTP) is configured.
+          </p>
+        )}
+      </div>
+
+      <MessageTaskModal thread={thread} message={taskMessage} onClose={() => setTaskMessage(null)} />
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function InboxPage() {
+  useDocumentTitle('Sales Inbox');
+  const navigate = useNavigate();
+  const { id: threadId } = useParams<{ id: string }>();
+  const toast = useToast();
+
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<MailThreadFilter>('all');
+  const [attachThread, setAttachThread] = useState<MailThread | null>(null);
+
+  const { data: statusData } = useMailStatus();
+  const { data, isLoading } = useMailThreads({ search, filter, limit: 100 });
+  const syncMailbox = useSyncMailbox();
+
+  const status = statusData?.data;
+  const threads = data?.data || [];
+  const total = data?.meta?.total ?? threads.length;
+
+  const filterOptions: QuickFilterOption<MailThreadFilter>[] = [
+    { value: 'all', label: 'All' },
+    { value: 'unread', label: 'Unread' },
+    { value: 'linked', label: 'Linked' },
+    { value: 'unlinked', label: 'Unlinked', isWarning: true },
+  ];
+
+  const handleSync = useCallback(async () => {
+    try {
+      const response = await syncMailbox.mutateAsync();
+      const imported = response.data?.imported ?? 0;
+      toast.success('Inbox Synced', imported ? `${imported} new message${imported === 1 ? '' : 's'}` : 'No new messages');
+    } catch (err) {
+      toast.error('Sync Failed', err instanceof Error ? err.message : 'Could not reach the mailbox');
+    }
+  }, [syncMailbox, toast]);
+
+  return (
+    <Page
+      title="Sales Inbox"
+      description={status?.address ? `Shared mailbox ${status.address}` : 'Shared sales mailbox'}
+      actions={
+        <Button
+          variant="secondary"
+          onClick={handleSync}
+          disabled={!status?.canReceive || syncMailbox.isPending}
+        >
+          <RefreshCw className={clsx('w-4 h-4 mr-1.5', syncMailbox.isPending && 'animate-spin')} />
+          Sync
+        </Button>
+      }
+    >
+      {status && !status.canReceive && (
+        <div className="flex items-start gap-2 p-3 mb-4 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-700 dark:text-amber-400">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            The shared mailbox isn't connected. Set IMAP_HOST, IMAP_USER and IMAP_PASS on the server to start syncing.
+          </span>
+        </div>
+      )}
+
+      <FilterBar rightContent={<FilterCount count={total} singular="thread" />}>
+        <SearchInput
+          value={search}
+          onChange={setSearch}
+          placeholder="Search mail..."
+          className="w-56 [&_input]:h-[34px] [&_input]:text-sm"
+        />
+        <QuickFilters options={filterOptions} value={filter} onChange={setFilter} />
+      </FilterBar>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-4 min-h-[600px]">
+        {/* Thread list */}
+        <div className="lg:col-span-2 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+          {isLoading ? (
+            <div className="py-12 text-center text-slate-400">Loading...</div>
+          ) : threads.length === 0 ? (
+            <div className="text-center py-12 px-4">
+              <Inbox className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">No mail</h3>
+              <p className="text-slate-500 dark:text-slate-400">
+                {search || filter !== 'all' ? 'No threads match your filters.' : 'Synced email threads will appear here.'}
+              </p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100 dark:divide-slate-700/50 max-h-[75vh] overflow-y-auto">
+              {threads.map(thread => {
+                const isUnread = thread.unreadCount > 0;
+                const linkName = thread.dealName || thread.leadName;
+                return (
+                  <li key={thread.id}>
+                    <button
+                      onClick={() => navigate(`/sales/inbox/${thread.id}`)}
+                      className={clsx(
+                        'w-full text-left px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-700/30',
+                        thread.id === threadId && 'bg-brand-50 dark:bg-brand-900/20'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className={clsx(
+                          'text-sm truncate',
+                          isUnread ? 'font-semibold text-slate-900 dark:text-white' : 'text-slate-700 dark:text-slate-300'
+                        )}>
+                          {thread.contactName || thread.participants[0] || '(unknown)'}
+                          {thread.messageCount > 1 && (
+                            <span className="ml-1 text-xs font-normal text-slate-400">{thread.messageCount}</span>
+                          )}
+                        </span>
+                        <span className="text-xs text-slate-400 flex-shrink-0">{formatMailDate(thread.lastMessageAt)}</span>
+                      </div>
+                      <p className={clsx(
+                        'text-sm truncate',
+                        isUnread ? 'font-medium text-slate-900 dark:text-white' : 'text-slate-600 dark:text-slate-400'
+                      )}>
+                        {thread.subject || '(no subject)'}
+                      </p>
+                      <p className="text-xs text-slate-400 truncate">{thread.snippet}</p>
+                      {linkName && (
+                        <span className="inline-flex items-center gap-1 mt-1 text-xs text-brand-600 dark:text-brand-400">
+                          {thread.dealId ? <TrendingUp className="w-3 h-3" /> : <Target className="w-3 h-3" />}
+                          {linkName}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Thread */}
+        <div className="lg:col-span-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+          {threadId ? (
+            <ThreadView threadId={threadId} canSend={!!status?.canSend} onAttach={setAttachThread} />
+          ) : (
+            <div className="flex flex-col items-center justify-center h-full py-12 text-slate-400">
+              <Inbox className="w-10 h-10 mb-3" />
+              Select a thread to read it
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AttachThreadModal thread={attachThread} onClose={() => setAttachThread(null)} />
+    </Page>
+  );
+}
+
+export default InboxPage;
@@ -29,6 +29,7 @@ import {
   SelectFilter,
   FilterBar,
   FilterCount,
+  FilterScope,
   FilterToggle,
   DataTable,
   type DataTableColumn,
@@ -43,7 +44,7 @@ import {
   type Lead,
   type LeadInput,
 } from '@/contexts';
-import { useDocumentTitle } from '@/hooks';
+import { useDocumentTitle, usePermission, useRecordScope } from '@/hooks';
 import { formatDate } from '@/utils/dateUtils';
 
 // ============================================================================
@@ -160,6 +161,8 @@ function LeadCard({
 
 export function LeadsPage() {
   useDocumentTitle('Leads');
+  const canCreate = usePermission('sales:create');
+  const { isRepVisible } = useRecordScope();
   const navigate = useNavigate();
   const toast = useToast();
 
@@ -313,7 +316,8 @@ export function LeadsPage() {
   // Owner options with counts - only show owners that have leads
   const ownerOptions = useMemo(() => {
     const matchingLeads = getLeadsMatchingOtherFilters('owner');
-    const activeUsers = users.filter(u => u.isActive);
+    // Owners outside the user's record scope have no visible leads
+    const activeUsers = users.filter(u => u.isActive && isRepVisible(u.id));
     
     return activeUsers
       .map(user => ({
@@ -323,7 +327,7 @@ export function LeadsPage() {
       }))
       .filter(option => option.count > 0)
       .sort((a, b) => a.label.localeCompare(b.label));
-  }, [users, getLeadsMatchingOtherFilters]);
+  }, [users, getLeadsMatchingOtherFilters, isRepVisible]);
 
   // Source options with counts - only show sources that have leads
   const sourceOptions = useMemo(() => {
@@ -533,16 +537,19 @@ export function LeadsPage() {
       title="Leads"
       description="Manage your sales leads and prospects"
       actions={
-        <Button variant="primary" onClick={() => handleAddLead()}>
-          <Plus className="w-4 h-4 mr-1.5" />
-          New Lead
-        </Button>
+        canCreate ? (
+          <Button variant="primary" onClick={() => handleAddLead()}>
+            <Plus className="w-4 h-4 mr-1.5" />
+            New Lead
+          </Button>
+        ) : undefined
       }
     >
       {/* Filter Bar */}
       <FilterBar
         rightContent={
           <div className="flex items-center gap-3">
+            <FilterScope />
             <FilterCount count={filteredLeads.length} singular="lead" />
             <FilterToggle
               options={[
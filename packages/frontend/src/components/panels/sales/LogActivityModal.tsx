@@ -0,0 +1,226 @@
+// ============================================================================
+// LogActivityModal Component
+// Location: src/components/panels/sales/LogActivityModal.tsx
+//
+// Quick entry for sales activities (log a call, log a meeting, ...).
+// Creates a task linked to a lead or deal using a type from taskTypesStore.
+// Logged activities are completed straight away; unchecking "Already done"
+// schedules a follow-up instead.
+// ============================================================================
+
+import { useState, useEffect, useMemo } from 'react';
+import { Target, TrendingUp } from 'lucide-react';
+import {
+  Modal,
+  Button,
+  Input,
+  Textarea,
+  SelectFilter,
+  DatePicker,
+  TimePicker,
+  Toggle,
+  EntitySearchDropdown,
+  TaskTypeIcon,
+  type EntitySearchItem,
+} from '@/components/common';
+import {
+  useSalesStore,
+  useTaskStore,
+  useTaskTypesStore,
+  useToast,
+  type Lead,
+  type Deal,
+  type LinkedEntity,
+} from '@/contexts';
+import { getTodayISO } from '@/utils/dateUtils';
+
+interface LogActivityModalProps {
+  /** Whether modal is open */
+  isOpen: boolean;
+  /** Close handler */
+  onClose: () => void;
+  /** Task type value to preselect (e.g. 'call', 'meeting') */
+  defaultType?: string;
+}
+
+export function LogActivityModal({ isOpen, onClose, defaultType }: LogActivityModalProps) {
+  const { leads, deals } = useSalesStore();
+  const { createTask, completeTask } = useTaskStore();
+  const { getActiveTaskTypes } = useTaskTypesStore();
+  const toast = useToast();
+
+  const [type, setType] = useState('');
+  const [entity, setEntity] = useState<EntitySearchItem | null>(null);
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [dueTime, setDueTime] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isDone, setIsDone] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const taskTypes = getActiveTaskTypes();
+
+  // Reset each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setType(defaultType || '');
+      setEntity(null);
+      setTitle('');
+      setDueDate(getTodayISO());
+      setDueTime('');
+      setNotes('');
+      setIsDone(true);
+    }
+  }, [isOpen, defaultType]);
+
+  const typeOptions = useMemo(() =>
+    taskTypes.map(t => ({ value: t.value, label: t.label })),
+  [taskTypes]);
+
+  // Open leads and active deals - metadata carries what the task needs to link them
+  const entityItems: EntitySearchItem[] = useMemo(() => [
+    ...leads.map(lead => ({
+      id: lead.id,
+      name: lead.name,
+      subtitle: ['Lead', lead.companyName].filter(Boolean).join(' · '),
+      metadata: { type: 'lead' as const, record: lead },
+    })),
+    ...deals
+      .filter(deal => deal.status === 'active' && !deal.deletedAt)
+      .map(deal => ({
+        id: deal.id,
+        name: deal.name,
+        subtitle: ['Deal', deal.companyName].filter(Boolean).join(' · '),
+        metadata: { type: 'deal' as const, record: deal },
+      })),
+  ], [leads, deals]);
+
+  const selectedType = taskTypes.find(t => t.value === type);
+  const selected = entity ? entityItems.find(item => item.id === entity.id) : undefined;
+  const record = selected?.metadata?.record as Lead | Deal | undefined;
+
+  // "Call with Jane Smith" - used when no title is typed
+  const suggestedTitle = selectedType && record
+    ? `${selectedType.label} with ${record.contactName || record.companyName || record.name}`
+    : '';
+
+  const handleSave = async () => {
+    if (!selectedType || !selected || !record) return;
+
+    const linkedItem: LinkedEntity = {
+      type: selected.metadata!.type as 'lead' | 'deal',
+      id: record.id,
+      name: record.name,
+    };
+    const linkedContact: LinkedEntity | null = record.contactId
+      ? { type: 'contact', id: record.contactId, name: record.contactName || '' }
+      : null;
+
+    setIsSaving(true);
+    try {
+      // Assigned to the lead/deal owner so it counts toward their follow-ups
+      const task = await createTask({
+        title: title.trim() || suggestedTitle,
+        type: selectedType.value,
+        dueDate: dueDate || undefined,
+        dueTime: dueTime || undefined,
+        assignedUserId: record.ownerId,
+        assignedUserName: record.ownerName,
+        linkedContact,
+        linkedItem,
+        notes: notes.trim() || undefined,
+      });
+      if (isDone) {
+        await completeTask(task.id);
+      }
+      toast.success(isDone ? 'Activity Logged' : 'Activity Scheduled', task.title);
+      onClose();
+    } catch (err) {
+      toast.error('Error', 'Failed to save activity');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={selectedType ? `Log ${selectedType.label}` : 'Log Activity'}
+      size="md"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={!selectedType || !selected || isSaving}>
+            {isSaving ? 'Saving...' : isDone ? 'Log Activity' : 'Schedule'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">
+            Type <span className="text-danger-500">*</span>
+          </label>
+          <SelectFilter
+            label="Select type"
+            value={type}
+            onChange={setType}
+            options={typeOptions}
+            showAllOption={false}
+            icon={selectedType ? <TaskTypeIcon icon={selectedType.icon} /> : undefined}
+            className="w-full"
+          />
+        </div>
+
+        <EntitySearchDropdown
+          label="Lead or Deal *"
+          value={entity}
+          onChange={setEntity}
+          items={entityItems}
+          placeholder="Search leads and deals..."
+          icon={selected?.metadata?.type === 'deal' ? TrendingUp : Target}
+        />
+
+        <Input
+          label="Title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={suggestedTitle || 'What happened?'}
+        />
+
+        <div className="grid grid-cols-2 gap-3">
+          <DatePicker
+            label={isDone ? 'Date' : 'Due date'}
+            value={dueDate}
+            onChange={setDueDate}
+          />
+          <TimePicker
+            label="Time"
+            value={dueTime}
+            onChange={setDueTime}
+          />
+        </div>
+
+        <Textarea
+          label="Notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Outcome, next steps..."
+          rows={3}
+        />
+
+        <Toggle
+          checked={isDone}
+          onChange={setIsDone}
+          label="Already done"
+          size="sm"
+        />
+      </div>
+    </Modal>
+  );
+}
+
+export default LogActivityModal;
@@ -0,0 +1,99 @@
+// ============================================================================
+// LostReasonModal Component
+// Location: src/components/panels/sales/LostReasonModal.tsx
+//
+// Asks for the reason a deal was lost before marking it lost.
+// A reason is required - the confirm button stays disabled until one is given.
+// ============================================================================
+
+import { useState, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { XCircle } from 'lucide-react';
+import { Modal, Button, Textarea } from '@/components/common';
+
+// Common reasons offered as one-click chips; anything else can be typed
+const COMMON_LOST_REASONS = [
+  'Price too high',
+  'Lost to competitor',
+  'Project cancelled',
+  'Timing / schedule',
+  'No response',
+];
+
+interface LostReasonModalProps {
+  /** Whether modal is open */
+  isOpen: boolean;
+  /** Name of the deal being marked lost */
+  dealName?: string;
+  /** Close handler */
+  onClose: () => void;
+  /** Called with the trimmed reason */
+  onConfirm: (reason: string) => void;
+}
+
+export function LostReasonModal({ isOpen, dealName, onClose, onConfirm }: LostReasonModalProps) {
+  const [reason, setReason] = useState('');
+
+  // Reset each time the modal opens
+  useEffect(() => {
+    if (isOpen) setReason('');
+  }, [isOpen]);
+
+  const trimmed = reason.trim();
+
+  const handleConfirm = () => {
+    if (!trimmed) return;
+    onConfirm(trimmed);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Mark Deal as Lost"
+      description={dealName ? `Why was "${dealName}" lost?` : 'Why was this deal lost?'}
+      size="md"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleConfirm} disabled={!trimmed}>
+            <XCircle className="w-4 h-4 mr-1.5" />
+            Mark as Lost
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {COMMON_LOST_REASONS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setReason(option)}
+              className={clsx(
+                'px-2.5 py-1 rounded-full text-xs font-medium transition-colors',
+                reason === option
+                  ? 'bg-danger-100 text-danger-700 dark:bg-danger-900/30 dark:text-danger-400'
+                  : 'bg-slate-100 text-slate-600 hover:bg-slate-200 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <Textarea
+          label="Reason *"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Describe why the deal was lost..."
+          rows={3}
+          autoFocus
+        />
+      </div>
+    </Modal>
+  );
+}
+
+export default LostReasonModal;
@@ -0,0 +1,133 @@
+// ============================================================================
+// RouteMap Component
+// Location: src/components/panels/sales/RouteMap.tsx
+//
+// Draws a planned route as numbered stops joined by straight legs.
+// Pure SVG over the stops' own bounding box - no map tiles, so it renders
+// offline and without any map API key.
+// ============================================================================
+
+import { useMemo } from 'react';
+import { clsx } from 'clsx';
+import type { GeoPoint } from '@/utils/geocoding';
+
+interface RouteMapProps {
+  /** Stops in visiting order */
+  stops: { id: string; name: string; point: GeoPoint }[];
+  /** Optional fixed start (drawn as a square) */
+  start?: { name: string; point: GeoPoint };
+  /** Draw the leg from the last stop back to the start */
+  returnToStart?: boolean;
+  /** Highlighted stop */
+  activeStopId?: string | null;
+  /** Stop click handler */
+  onStopClick?: (id: string) => void;
+  className?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 360;
+const PADDING = 28;
+
+export function RouteMap({ stops, start, returnToStart, activeStopId, onStopClick, className }: RouteMapProps) {
+  // Equirectangular projection, longitude scaled by cos(latitude) so
+  // distances look right at US latitudes
+  const project = useMemo(() => {
+    const points = [...(start ? [start.point] : []), ...stops.map(s => s.point)];
+    if (points.length === 0) return () => ({ x: WIDTH / 2, y: HEIGHT / 2 });
+
+    const lats = points.map(p => p.lat);
+    const lngs = points.map(p => p.lng);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    const minLng = Math.min(...lngs);
+    const maxLng = Math.max(...lngs);
+    const lngScale = Math.cos(((minLat + maxLat) / 2) * (Math.PI / 180));
+
+    const spanX = Math.max((maxLng - minLng) * lngScale, 1e-6);
+    const spanY = Math.max(maxLat - minLat, 1e-6);
+    const scale = Math.min((WIDTH - PADDING * 2) / spanX, (HEIGHT - PADDING * 2) / spanY);
+    const offsetX = (WIDTH - spanX * scale) / 2;
+    const offsetY = (HEIGHT - spanY * scale) / 2;
+
+    return (p: GeoPoint) => ({
+      x: offsetX + (p.lng - minLng) * lngScale * scale,
+      y: HEIGHT - (offsetY + (p.lat - minLat) * scale),
+    });
+  }, [stops, start]);
+
+  const startXY = start ? project(start.point) : null;
+  const stopXY = stops.map(s => project(s.point));
+  const pathPoints = [
+    ...(startXY ? [startXY] : []),
+    ...stopXY,
+    ...(returnToStart && stopXY[0] ? [startXY ?? stopXY[0]] : []),
+  ];
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={clsx('w-full h-auto bg-slate-50 dark:bg-slate-900/40 rounded-lg', className)}
+      role="img"
+      aria-label="Route map"
+    >
+      {/* Legs */}
+      {pathPoints.length > 1 && (
+        <polyline
+          points={pathPoints.map(p => `${p.x},${p.y}`).join(' ')}
+          fill="none"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          className="stroke-brand-400 dark:stroke-brand-500"
+        />
+      )}
+
+      {/* Start */}
+      {start && startXY && (
+        <g>
+          <title>{start.name}</title>
+          <rect
+            x={startXY.x - 8}
+            y={startXY.y - 8}
+            width={16}
+            height={16}
+            rx={3}
+            className="fill-slate-700 dark:fill-slate-300"
+          />
+        </g>
+      )}
+
+      {/* Stops */}
+      {stops.map((stop, index) => {
+        const { x, y } = stopXY[index]!;
+        const isActive = stop.id === activeStopId;
+        return (
+          <g
+            key={stop.id}
+            onClick={() => onStopClick?.(stop.id)}
+            className={onStopClick ? 'cursor-pointer' : undefined}
+          >
+            <title>{`${index + 1}. ${stop.name}`}</title>
+            <circle
+              cx={x}
+              cy={y}
+              r={isActive ? 13 : 11}
+              className={isActive ? 'fill-accent-500' : 'fill-brand-600'}
+            />
+            <text
+              x={x}
+              y={y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              className="fill-white text-[11px] font-semibold select-none"
+            >
+              {index + 1}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default RouteMap;
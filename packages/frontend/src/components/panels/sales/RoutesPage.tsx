@@ -0,0 +1,579 @@
+// ============================================================================
+// RoutesPage - Sales Route Planning
+// Location: src/components/panels/sales/RoutesPage.tsx
+//
+// AUDIT COMPLIANCE:
+// - Uses common components: SelectFilter, DatePicker, TimePicker, Toggle, Button
+// - Uses hooks: useDocumentTitle
+// - Uses contexts: useClientsStore, useSalesStore, useUsersStore, useCompanyStore,
+//   useAuthStore, useToast
+//
+// Builds a rep's route for a day from the company locations they're assigned
+// to (CompanyAddress.salesRepIds) and the jobsites of their open leads.
+// Picked stops are geocoded, ordered with nearest-neighbor + 2-opt, and can be
+// exported as a list, GPX (navigation apps) or ICS (calendar). Without a
+// geocoding provider the page says so and planning stays off.
+// ============================================================================
+
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { clsx } from 'clsx';
+import {
+  Route as RouteIcon,
+  MapPin,
+  Building2,
+  Target,
+  User,
+  Check,
+  Copy,
+  Download,
+  CalendarPlus,
+  AlertCircle,
+  Navigation,
+  Clock,
+} from 'lucide-react';
+import { Page } from '@/components/layout';
+import {
+  Button,
+  SelectFilter,
+  DatePicker,
+  TimePicker,
+  Toggle,
+} from '@/components/common';
+import { RouteMap } from './RouteMap';
+import {
+  useClientsStore,
+  useSalesStore,
+  useUsersStore,
+  useCompanyStore,
+  useAuthStore,
+  useToast,
+  type Company,
+} from '@/contexts';
+import { useDocumentTitle } from '@/hooks';
+import { getTodayISO, formatDate } from '@/utils/dateUtils';
+import { geocodeAddress, getGeocodingProvider, type GeoPoint } from '@/utils/geocoding';
+import { optimizeRoute, scheduleRoute, estimateDriveMinutes } from '@/utils/routeOptimizer';
+import { routeToText, routeToGPX, routeToICS, downloadTextFile, type ExportedStop } from '@/utils/routeExport';
+
+// ============================================================================
+// Types & Helpers
+// ============================================================================
+
+interface Address {
+  street: string;
+  suite?: string;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+// A place the rep could visit
+interface RouteCandidate {
+  id: string;
+  kind: 'location' | 'jobsite';
+  name: string;
+  subtitle: string;
+  address: string;
+  link: string;
+}
+
+interface PlannedStop extends RouteCandidate {
+  point: GeoPoint;
+}
+
+interface RoutePlan {
+  stops: PlannedStop[];
+  legMiles: number[];
+  totalMiles: number;
+  start?: { name: string; point: GeoPoint };
+  // Picked stops the geocoder couldn't place
+  unlocated: RouteCandidate[];
+}
+
+const VISIT_OPTIONS = [15, 30, 45, 60, 90].map(minutes => ({
+  value: String(minutes),
+  label: `${minutes} min visit`,
+}));
+
+const formatAddress = (address: Address) =>
+  [[address.street, address.suite].filter(Boolean).join(' '), address.city, `${address.state} ${address.zip}`.trim()]
+    .filter(Boolean)
+    .join(', ');
+
+const hasAddress = (address?: Address): address is Address =>
+  !!address && !!address.street && !!(address.city || address.zip);
+
+// Locations of a company the rep covers - per-location assignments, plus the
+// main office when the rep is assigned to the whole company
+function getRepLocations(company: Company, repId: string): RouteCandidate[] {
+  const link = `/clients/companies/${company.slug || company.id}`;
+  const locations: RouteCandidate[] = [];
+
+  const companyLevel = !company.salesRepsByLocation &&
+    ((company.salesRepIds || []).includes(repId) || company.salesRepId === repId);
+  const main = company.address;
+  if (hasAddress(main) && (companyLevel || (main.salesRepIds || []).includes(repId) || main.salesRepId === repId)) {
+    locations.push({
+      id: `company:${company.id}:main`,
+      kind: 'location',
+      name: company.name,
+      subtitle: 'Main Office',
+      address: formatAddress(main),
+      link,
+    });
+  }
+
+  (company.addresses || []).forEach(location => {
+    if (!hasAddress(location)) return;
+    if (!(location.salesRepIds || []).includes(repId) && location.salesRepId !== repId) return;
+    locations.push({
+      id: `company:${company.id}:${location.id}`,
+      kind: 'location',
+      name: company.name,
+      subtitle: location.label || 'Location',
+      address: formatAddress(location),
+      link,
+    });
+  });
+
+  return locations;
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function RoutesPage() {
+  useDocumentTitle('Route Planning');
+  const navigate = useNavigate();
+  const toast = useToast();
+  const geocoder = getGeocodingProvider();
+
+  // Stores
+  const { companies } = useClientsStore();
+  const { leads } = useSalesStore();
+  const { users } = useUsersStore();
+  const { company } = useCompanyStore();
+  const { user: currentUser } = useAuthStore();
+
+  // Route settings
+  const [repId, setRepId] = useState(() => users.find(u => u.email === currentUser?.email)?.id || '');
+  const [date, setDate] = useState(getTodayISO());
+  const [startOfficeId, setStartOfficeId] = useState('');
+  const [startTime, setStartTime] = useState('08:00');
+  const [visitMinutes, setVisitMinutes] = useState('30');
+  const [returnToStart, setReturnToStart] = useState(true);
+
+  // Stop selection & result
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [plan, setPlan] = useState<RoutePlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [activeStopId, setActiveStopId] = useState<string | null>(null);
+
+  const offices = useMemo(() => company.offices || [], [company.offices]);
+  const rep = users.find(u => u.id === repId);
+
+  // Default the start to the rep's office (or the main office)
+  useEffect(() => {
+    const office = offices.find(o => o.id === rep?.officeId) || offices.find(o => o.isMain) || offices[0];
+    setStartOfficeId(office?.id || '');
+  }, [rep?.officeId, offices]);
+
+  // A different rep means a different set of stops
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setPlan(null);
+  }, [repId]);
+
+  // ============================================================================
+  // Candidates
+  // ============================================================================
+
+  const repOptions = useMemo(() =>
+    users
+      .filter(u => u.isActive)
+      .map(u => ({ value: u.id, label: u.name }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+  [users]);
+
+  const officeOptions = useMemo(() =>
+    offices.map(o => ({ value: o.id, label: o.label })),
+  [offices]);
+
+  const locationCandidates = useMemo(() =>
+    repId ? companies.flatMap(c => getRepLocations(c, repId)) : [],
+  [companies, repId]);
+
+  // Open leads (not yet converted) owned by the rep with a jobsite
+  const jobsiteCandidates: RouteCandidate[] = useMemo(() =>
+    leads
+      .filter(lead => lead.ownerId === repId && !lead.convertedToDealId && hasAddress(lead.jobsiteAddress))
+      .map(lead => ({
+        id: `lead:${lead.id}`,
+        kind: 'jobsite' as const,
+        name: lead.name,
+        subtitle: ['Jobsite', lead.companyName].filter(Boolean).join(' · '),
+        address: formatAddress(lead.jobsiteAddress!),
+        link: `/sales/leads/${lead.slug || lead.id}`,
+      })),
+  [leads, repId]);
+
+  const candidates = useMemo(
+    () => [...locationCandidates, ...jobsiteCandidates],
+    [locationCandidates, jobsiteCandidates]
+  );
+
+  const toggleStop = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const toggleAll = useCallback((group: RouteCandidate[]) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const allSelected = group.every(c => next.has(c.id));
+      group.forEach(c => (allSelected ? next.delete(c.id) : next.add(c.id)));
+      return next;
+    });
+  }, []);
+
+  // ============================================================================
+  // Planning
+  // ============================================================================
+
+  const handlePlan = useCallback(async () => {
+    const picked = candidates.filter(c => selectedIds.has(c.id));
+    if (picked.length === 0 || !geocoder) return;
+
+    setIsPlanning(true);
+    try {
+      const office = offices.find(o => o.id === startOfficeId);
+      const startPoint = office ? await geocodeAddress(formatAddress(office)) : null;
+      if (office && !startPoint) {
+        toast.warning('Start Not Found', `Couldn't locate ${office.label}; the route starts at the first stop.`);
+      }
+
+      // Sequential - keeps provider rate limits happy for a day's worth of stops
+      const located: PlannedStop[] = [];
+      const unlocated: RouteCandidate[] = [];
+      for (const candidate of picked) {
+        const point = await geocodeAddress(candidate.address);
+        if (point) located.push({ ...candidate, point });
+        else unlocated.push(candidate);
+      }
+
+      const start = office && startPoint ? { name: office.label, point: startPoint } : undefined;
+      const optimized = optimizeRoute(located, { start: start?.point, returnToStart });
+      setPlan({ ...optimized, start, unlocated });
+      setActiveStopId(null);
+    } finally {
+      setIsPlanning(false);
+    }
+  }, [candidates, selectedIds, offices, startOfficeId, returnToStart, toast, geocoder]);
+
+  // Times depend on settings that don't need a re-plan
+  const timedStops = useMemo(() => {
+    if (!plan) return [];
+    const times = scheduleRoute(plan.legMiles, startTime || '08:00', Number(visitMinutes));
+    return plan.stops.map((stop, index) => ({
+      ...stop,
+      ...times[index]!,
+      legMiles: plan.legMiles[index] ?? 0,
+    }));
+  }, [plan, startTime, visitMinutes]);
+
+  const exportedStops: ExportedStop[] = useMemo(() =>
+    timedStops.map(stop => ({
+      name: stop.name,
+      address: stop.address,
+      point: stop.point,
+      arrival: stop.arrival,
+      departure: stop.departure,
+      notes: stop.subtitle,
+    })),
+  [timedStops]);
+
+  const finishTime = timedStops[timedStops.length - 1]?.departure;
+
+  const routeTitle = `${rep?.name || 'Sales'} route - ${formatDate(date)}`;
+  const fileBase = `route-${(rep?.name || 'sales').toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${date}`;
+
+  // ============================================================================
+  // Export
+  // ============================================================================
+
+  const handleCopyList = useCallback(async () => {
+    await navigator.clipboard.writeText(routeToText(routeTitle, exportedStops));
+    toast.success('Copied', 'Route copied to clipboard');
+  }, [routeTitle, exportedStops, toast]);
+
+  const handleDownloadGPX = useCallback(() => {
+    downloadTextFile(`${fileBase}.gpx`, routeToGPX(routeTitle, exportedStops), 'application/gpx+xml');
+  }, [fileBase, routeTitle, exportedStops]);
+
+  const handleDownloadICS = useCallback(() => {
+    downloadTextFile(`${fileBase}.ics`, routeToICS(routeTitle, date, exportedStops), 'text/calendar');
+  }, [fileBase, routeTitle, date, exportedStops]);
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  const renderCandidateGroup = (title: string, icon: React.ReactNode, group: RouteCandidate[]) => (
+    <div>
+      <div className="flex items-center justify-between px-4 py-2 bg-slate-50 dark:bg-slate-900/40 border-b border-slate-200 dark:border-slate-700">
+        <span className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          {icon}
+          {title} ({group.length})
+        </span>
+        {group.length > 0 && (
+          <button
+            onClick={() => toggleAll(group)}
+            className="text-xs text-brand-600 dark:text-brand-400 hover:underline"
+          >
+            {group.every(c => selectedIds.has(c.id)) ? 'Clear' : 'Select all'}
+          </button>
+        )}
+      </div>
+      {group.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-slate-400">None</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700/50">
+          {group.map(candidate => {
+            const isSelected = selectedIds.has(candidate.id);
+            return (
+              <li key={candidate.id}>
+                <button
+                  onClick={() => toggleStop(candidate.id)}
+                  className="w-full flex items-start gap-3 px-4 py-2.5 text-left hover:bg-slate-50 dark:hover:bg-slate-700/30"
+                >
+                  <span className={clsx(
+                    'mt-0.5 w-4 h-4 rounded border flex items-center justify-center flex-shrink-0',
+                    isSelected
+                      ? 'bg-brand-600 border-brand-600 text-white'
+                      : 'border-slate-300 dark:border-slate-600'
+                  )}>
+                    {isSelected && <Check className="w-3 h-3" />}
+                  </span>
+                  <span className="min-w-0">
+                    <span className="block text-sm font-medium text-slate-900 dark:text-white truncate">
+                      {candidate.name}
+                    </span>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400 truncate">
+                      {candidate.subtitle} · {candidate.address}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Page
+      title="Route Planning"
+      description="Plan a day of visits to assigned locations and open jobsites"
+    >
+      {/* Settings */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-4 mb-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">Rep</label>
+            <SelectFilter
+              label="Select rep"
+              value={repId}
+              onChange={setRepId}
+              options={repOptions}
+              showAllOption={false}
+              icon={User}
+              className="w-full"
+            />
+          </div>
+          <DatePicker label="Date" value={date} onChange={setDate} />
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">Start from</label>
+            <SelectFilter
+              label="Start from"
+              value={startOfficeId}
+              onChange={setStartOfficeId}
+              options={officeOptions}
+              allLabel="First stop"
+              icon={Building2}
+              className="w-full"
+            />
+          </div>
+          <TimePicker label="Leave at" value={startTime} onChange={setStartTime} />
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">Time per stop</label>
+            <SelectFilter
+              label="Time per stop"
+              value={visitMinutes}
+              onChange={setVisitMinutes}
+              options={VISIT_OPTIONS}
+              showAllOption={false}
+              icon={Clock}
+              className="w-full"
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between mt-4">
+          <Toggle
+            checked={returnToStart}
+            onChange={setReturnToStart}
+            label="Return to start"
+            size="sm"
+          />
+          <Button
+            variant="primary"
+            onClick={handlePlan}
+            disabled={selectedIds.size === 0 || isPlanning || !geocoder}
+          >
+            <Navigation className="w-4 h-4 mr-1.5" />
+            {isPlanning ? 'Planning...' : `Plan Route (${selectedIds.size})`}
+          </Button>
+        </div>
+        {!geocoder && (
+          <div className="flex items-start gap-2 mt-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-700 dark:text-amber-400">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Geocoding not configured, so routes can't be planned. Add VITE_RADAR_PUBLISHABLE_KEY to enable.
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+        {/* Candidate stops */}
+        <div className="lg:col-span-2 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden self-start">
+          {!repId ? (
+            <div className="text-center py-12 px-4">
+              <User className="w-10 h-10 text-slate-300 dark:text-slate-600 mx-auto mb-3" />
+              <p className="text-slate-500 dark:text-slate-400">Select a rep to see their stops.</p>
+            </div>
+          ) : (
+            <>
+              {renderCandidateGroup('Assigned locations', <Building2 className="w-3.5 h-3.5" />, locationCandidates)}
+              {renderCandidateGroup('Open lead jobsites', <Target className="w-3.5 h-3.5" />, jobsiteCandidates)}
+            </>
+          )}
+        </div>
+
+        {/* Planned route */}
+        <div className="lg:col-span-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-4 self-start">
+          {!plan ? (
+            <div className="text-center py-12">
+              <RouteIcon className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">No route yet</h3>
+              <p className="text-slate-500 dark:text-slate-400">
+                Pick stops on the left, then plan the route.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {/* Summary & export */}
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <h3 className="font-semibold text-slate-900 dark:text-white">{routeTitle}</h3>
+                  <p className="text-sm text-slate-500 dark:text-slate-400">
+                    {plan.stops.length} stop{plan.stops.length === 1 ? '' : 's'} · {plan.totalMiles.toFixed(1)} mi
+                    · ~{estimateDriveMinutes(plan.totalMiles)} min driving
+                    {finishTime && ` · done by ${finishTime}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="secondary" size="sm" onClick={handleCopyList} disabled={plan.stops.length === 0}>
+                    <Copy className="w-4 h-4 mr-1.5" />
+                    List
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={handleDownloadGPX} disabled={plan.stops.length === 0}>
+                    <Download className="w-4 h-4 mr-1.5" />
+                    GPX
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={handleDownloadICS} disabled={plan.stops.length === 0}>
+                    <CalendarPlus className="w-4 h-4 mr-1.5" />
+                    ICS
+                  </Button>
+                </div>
+              </div>
+
+              {plan.unlocated.length > 0 && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-700 dark:text-amber-400">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    Couldn't locate {plan.unlocated.map(c => `${c.name} (${c.address})`).join(', ')} - left off the route.
+                  </span>
+                </div>
+              )}
+
+              {plan.stops.length > 0 && (
+                <RouteMap
+                  stops={plan.stops}
+                  start={plan.start}
+                  returnToStart={returnToStart}
+                  activeStopId={activeStopId}
+                  onStopClick={setActiveStopId}
+                />
+              )}
+
+              {/* Ordered stops */}
+              <ol className="divide-y divide-slate-100 dark:divide-slate-700/50">
+                {plan.start && (
+                  <li className="flex items-center gap-3 py-2 text-sm text-slate-500 dark:text-slate-400">
+                    <span className="w-6 h-6 rounded bg-slate-700 dark:bg-slate-300 flex-shrink-0" />
+                    Leave {plan.start.name} at {startTime}
+                  </li>
+                )}
+                {timedStops.map((stop, index) => (
+                  <li
+                    key={stop.id}
+                    onMouseEnter={() => setActiveStopId(stop.id)}
+                    className={clsx(
+                      'flex items-start gap-3 py-2.5',
+                      stop.id === activeStopId && 'bg-slate-50 dark:bg-slate-700/30'
+                    )}
+                  >
+                    <span className="w-6 h-6 rounded-full bg-brand-600 text-white text-xs font-semibold flex items-center justify-center flex-shrink-0">
+                      {index + 1}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <button
+                        onClick={() => navigate(stop.link)}
+                        className="text-sm font-medium text-slate-900 dark:text-white hover:text-brand-600 dark:hover:text-brand-400 truncate"
+                      >
+                        {stop.name}
+                      </button>
+                      <p className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 truncate">
+                        {stop.kind === 'jobsite' ? <Target className="w-3 h-3" /> : <MapPin className="w-3 h-3" />}
+                        {stop.subtitle} · {stop.address}
+                      </p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <p className="text-sm font-medium text-slate-900 dark:text-white">{stop.arrival}</p>
+                      {stop.legMiles > 0 && (
+                        <p className="text-xs text-slate-400">{stop.legMiles.toFixed(1)} mi</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+
+              <p className="text-xs text-slate-400">
+                Straight-line distances via {geocoder?.name} geocoding; drive times are estimates.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </Page>
+  );
+}
+
+export default RoutesPage;
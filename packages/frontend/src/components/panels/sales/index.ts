@@ -1,12 +1,14 @@
 // Sales Panel Sub-Pages
 export { LeadsPage } from './LeadsPage';
 export { LeadDetailPanel } from './LeadDetailPanel';
+export { DealsPage } from './DealsPage';
+export { DealDetailPanel } from './DealDetailPanel';
+export { LostReasonModal } from './LostReasonModal';
+export { ActivitiesPage } from './ActivitiesPage';
+export { LogActivityModal } from './LogActivityModal';
+export { RoutesPage } from './RoutesPage';
+export { RouteMap } from './RouteMap';
+export { InboxPage } from './InboxPage';
 
 // Future exports:
 // export { LeadDetailPage } from './LeadDetailPage';
-// export { DealsPage } from './DealsPage';
-// export { DealDetailPage } from './DealDetailPage';
-// export { DealDetailPanel } from './DealDetailPanel';
-// export { ActivitiesPage } from './ActivitiesPage';
-// export { RoutesPage } from './RoutesPage';
-// export { InboxPage } from './InboxPage';
\ No newline at end of file
@@ -16,6 +16,7 @@ import {
   Users,
   DollarSign,
   Briefcase,
+  Target,
   type LucideIcon,
 } from 'lucide-react';
 
@@ -51,6 +52,10 @@ export const MODULE_ICONS: Record<string, LucideIcon> = {
   users: Users,
   user: Users,
   
+  // Leads
+  leads: Target,
+  lead: Target,
+  
   // Deals
   deals: Briefcase,
   deal: Briefcase,
@@ -78,6 +83,7 @@ export const ENTITY_ICONS = {
   project: FolderKanban,
   estimate: FileText,
   invoice: Receipt,
+  lead: Target,
   deal: Briefcase,
 } as const;
 
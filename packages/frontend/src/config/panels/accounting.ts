@@ -1,5 +1,6 @@
-import { Receipt } from 'lucide-react';
+import { Receipt, FileText, Hourglass, Banknote, BarChart3, Percent, MapPin, FileDown, ClipboardList } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
+import type { Permission } from '@sg-portal/shared';
 
 export interface PanelTile {
   id: string;
@@ -7,6 +8,7 @@ export interface PanelTile {
   path: string;
   icon: LucideIcon;
   description?: string;
+  requiredPermission?: Permission; // Hidden from users without it
 }
 
 export const ACCOUNTING_PANEL = {
@@ -14,7 +16,63 @@ export const ACCOUNTING_PANEL = {
   name: 'Accounting',
   basePath: '/accounting',
   icon: Receipt,
+  requiredPermission: 'accounting:view' as Permission,
   tiles: [
-    // Add tiles here - they'll automatically appear in SideRibbon AND header dropdown
+    {
+      id: 'invoices',
+      name: 'Invoices',
+      path: '/invoices',
+      icon: FileText,
+      description: 'Bill clients and record payments',
+    },
+    {
+      id: 'progress-billing',
+      name: 'Progress Billing',
+      path: '/accounting/progress-billing',
+      icon: ClipboardList,
+      description: 'Pay applications against a schedule of values',
+    },
+    {
+      id: 'ar-aging',
+      name: 'AR Aging',
+      path: '/accounting/ar-aging',
+      icon: Hourglass,
+      description: 'Open balances by client and age',
+    },
+    {
+      id: 'cash-receipts',
+      name: 'Cash Receipts',
+      path: '/accounting/cash-receipts',
+      icon: Banknote,
+      description: 'Payments received by date',
+    },
+    {
+      id: 'revenue',
+      name: 'Revenue',
+      path: '/accounting/revenue',
+      icon: BarChart3,
+      description: 'Revenue by month, client or project',
+    },
+    {
+      id: 'tax',
+      name: 'Tax Collected',
+      path: '/accounting/tax',
+      icon: Percent,
+      description: 'Sales tax billed and collected',
+    },
+    {
+      id: 'tax-jurisdictions',
+      name: 'Tax Jurisdictions',
+      path: '/accounting/tax-jurisdictions',
+      icon: MapPin,
+      description: 'Sales tax rates by state and ZIP code',
+    },
+    {
+      id: 'export',
+      name: 'Export to Books',
+      path: '/accounting/export',
+      icon: FileDown,
+      description: 'QuickBooks IIF and journal CSV exports',
+    },
   ] as PanelTile[],
-};
\ No newline at end of file
+};
@@ -5,6 +5,7 @@ import {
   Shield,
   SlidersHorizontal,
 } from 'lucide-react';
+import type { Permission } from '@sg-portal/shared';
 import type { PanelTile } from './accounting';
 
 export const ADMIN_PANEL = {
@@ -12,10 +13,11 @@ export const ADMIN_PANEL = {
   name: 'Admin',
   basePath: '/admin',
   icon: Settings,
+  requiredPermission: 'admin:view' as Permission,
   tiles: [
-    { id: 'users', name: 'Manage Users', path: '/admin/users', icon: Users, description: 'Manage user accounts' },
-    { id: 'fields', name: 'Field Settings', path: '/admin/fields', icon: SlidersHorizontal, description: 'Departments, positions & dropdowns' },
-    { id: 'permissions', name: 'Permissions', path: '/admin/permissions', icon: Shield, description: 'Panel access control' },
-    { id: 'company', name: 'Company Settings', path: '/admin/company', icon: Building2, description: 'Company information' },
+    { id: 'users', name: 'Manage Users', path: '/admin/users', icon: Users, description: 'Manage user accounts', requiredPermission: 'admin:users' },
+    { id: 'fields', name: 'Field Settings', path: '/admin/fields', icon: SlidersHorizontal, description: 'Departments, positions & dropdowns', requiredPermission: 'admin:departments' },
+    { id: 'permissions', name: 'Permissions', path: '/admin/permissions', icon: Shield, description: 'Roles & permission overrides', requiredPermission: 'admin:roles' },
+    { id: 'company', name: 'Company Settings', path: '/admin/company', icon: Building2, description: 'Company information', requiredPermission: 'admin:company' },
   ] as PanelTile[],
 };
\ No newline at end of file
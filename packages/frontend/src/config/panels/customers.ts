@@ -1,4 +1,5 @@
 import { Users, Building2, Contact } from 'lucide-react';
+import type { Permission } from '@sg-portal/shared';
 import type { PanelTile } from './accounting';
 
 export const CUSTOMERS_PANEL = {
@@ -6,6 +7,7 @@ export const CUSTOMERS_PANEL = {
   name: 'Customers',
   basePath: '/clients',
   icon: Users,
+  requiredPermission: 'customers:view' as Permission,
   tiles: [
     {
       id: 'companies',
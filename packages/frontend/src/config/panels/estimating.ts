@@ -1,4 +1,5 @@
-import { Calculator } from 'lucide-react';
+import { Calculator, FileText, Package, Layers } from 'lucide-react';
+import type { Permission } from '@sg-portal/shared';
 import type { PanelTile } from './accounting';
 
 export const ESTIMATING_PANEL = {
@@ -6,5 +7,28 @@ export const ESTIMATING_PANEL = {
   name: 'Estimating',
   basePath: '/estimates',
   icon: Calculator,
-  tiles: [] as PanelTile[],
-};
\ No newline at end of file
+  requiredPermission: 'estimating:view' as Permission,
+  tiles: [
+    {
+      id: 'estimates',
+      name: 'Estimates',
+      path: '/estimates',
+      icon: FileText,
+      description: 'Quote work and send it for approval',
+    },
+    {
+      id: 'catalog',
+      name: 'Catalog',
+      path: '/estimates/catalog',
+      icon: Package,
+      description: 'Products and services with default prices',
+    },
+    {
+      id: 'templates',
+      name: 'Templates',
+      path: '/estimates/templates',
+      icon: Layers,
+      description: 'Saved bundles of catalog items',
+    },
+  ] as PanelTile[],
+};
@@ -1,4 +1,5 @@
 import type { LucideIcon } from 'lucide-react';
+import type { Permission } from '@sg-portal/shared';
 
 export type { PanelTile } from './accounting';
 
@@ -24,6 +25,7 @@ export interface PanelConfig {
   name: string;
   basePath: string;
   icon: LucideIcon;
+  requiredPermission?: Permission; // Tasks has none - every user can open it
   tiles: import('./accounting').PanelTile[];
 }
 
@@ -1,4 +1,5 @@
-import { FolderKanban } from 'lucide-react';
+import { FolderKanban, Hash, Clock, ClipboardCheck } from 'lucide-react';
+import type { Permission } from '@sg-portal/shared';
 import type { PanelTile } from './accounting';
 
 export const PROJECTS_PANEL = {
@@ -6,5 +7,38 @@ export const PROJECTS_PANEL = {
   name: 'Projects',
   basePath: '/projects',
   icon: FolderKanban,
-  tiles: [] as PanelTile[],
-};
\ No newline at end of file
+  requiredPermission: 'projects:view' as Permission,
+  tiles: [
+    {
+      id: 'projects',
+      name: 'Projects',
+      path: '/projects',
+      icon: FolderKanban,
+      description: 'Active and completed jobs',
+    },
+    {
+      id: 'cost-codes',
+      name: 'Cost Codes',
+      path: '/projects/cost-codes',
+      icon: Hash,
+      description: 'Codes for job budgets and costs',
+      requiredPermission: 'projects:costs',
+    },
+    {
+      id: 'time',
+      name: 'My Time',
+      path: '/projects/time',
+      icon: Clock,
+      description: 'Timer and weekly timesheet',
+      requiredPermission: 'projects:time',
+    },
+    {
+      id: 'timesheet-approvals',
+      name: 'Timesheet Approvals',
+      path: '/projects/time/approvals',
+      icon: ClipboardCheck,
+      description: 'Approve your team\'s hours',
+      requiredPermission: 'projects:timesheets',
+    },
+  ] as PanelTile[],
+};
@@ -6,6 +6,7 @@ import {
   Map,
   Inbox,
 } from 'lucide-react';
+import type { Permission } from '@sg-portal/shared';
 import type { PanelTile } from './accounting';
 
 export const SALES_PANEL = {
@@ -13,6 +14,7 @@ export const SALES_PANEL = {
   name: 'Sales',
   basePath: '/sales',
   icon: Handshake,
+  requiredPermission: 'sales:view' as Permission,
   tiles: [
     {
       id: 'leads',
@@ -1,9 +1,14 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import type { User } from '@sg-portal/shared';
+import { api } from '@/services/api/client';
+import { authService } from '@/services/auth';
 
 interface AuthState {
   user: User | null;
+  // Portal JWT from POST /auth/login, sent as the bearer token on API calls.
+  // Null for the built-in development admin, who has no API session.
+  token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
@@ -13,6 +18,7 @@ interface AuthStore extends AuthState {
   // Actions
   login: () => Promise<void>;
   logout: () => Promise<void>;
+  refreshPermissions: () => Promise<void>;
   setUser: (user: User | null) => void;
   setLoading: (isLoading: boolean) => void;
   setError: (error: string | null) => void;
@@ -30,8 +36,10 @@ const devAdminUser: User = {
   permissions: [
     'dashboard:view',
     'customers:view', 'customers:create', 'customers:edit', 'customers:delete',
-    'projects:view', 'projects:create', 'projects:edit', 'projects:delete',
-    'estimating:view', 'estimating:create', 'estimating:edit', 'estimating:delete', 'estimating:approve',
+    'sales:view', 'sales:create', 'sales:edit', 'sales:delete',
+    'projects:view', 'projects:create', 'projects:edit', 'projects:delete', 'projects:costs', 'projects:time', 'projects:timesheets', 'projects:change_orders',
+    'tasks:view', 'tasks:create', 'tasks:edit', 'tasks:delete',
+    'estimating:view', 'estimating:create', 'estimating:edit', 'estimating:delete', 'estimating:approve', 'estimating:costs',
     'accounting:view', 'accounting:create', 'accounting:edit', 'accounting:delete', 'accounting:payments',
     'admin:view', 'admin:users', 'admin:roles', 'admin:departments', 'admin:company',
     'developer:view',
@@ -40,28 +48,78 @@ const devAdminUser: User = {
   updatedAt: new Date().toISOString(),
 };
 
+// User as returned by POST /auth/login
+interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  avatarUrl?: string;
+  role: User['role'];
+  permissions: User['permissions'];
+}
+
+function toUser(user: SessionUser): User {
+  const [firstName = '', ...rest] = (user.name || '').split(' ');
+  const now = new Date().toISOString();
+  return {
+    id: user.id,
+    email: user.email,
+    displayName: user.name,
+    firstName,
+    lastName: rest.join(' '),
+    avatarUrl: user.avatarUrl,
+    role: user.role,
+    permissions: user.permissions,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
 export const useAuthStore = create<AuthStore>()(
   devtools(
     persist(
-      (set) => ({
+      (set, get) => ({
         // Initial state
         user: null,
+        token: null,
         isAuthenticated: false,
         isLoading: false,
         error: null,
 
         // Actions
+        // Azure AD accounts sign in to the API: the account's ID token is exchanged
+        // for the portal JWT. Development without an Azure AD account signs in as
+        // the built-in admin, locally only.
         login: async () => {
           set({ isLoading: true, error: null });
-          
-          // Simulate a small delay for realism
-          await new Promise((resolve) => setTimeout(resolve, 500));
-          
-          set({
-            user: devAdminUser,
-            isAuthenticated: true,
-            isLoading: false,
-          });
+
+          try {
+            const account = authService.getActiveAccount() ?? (import.meta.env.DEV ? null : await authService.login());
+            if (!account) {
+              if (import.meta.env.DEV) {
+                set({ user: devAdminUser, token: null, isAuthenticated: true, isLoading: false });
+              } else {
+                // Redirecting to the Azure AD sign-in page
+                set({ isLoading: false });
+              }
+              return;
+            }
+
+            set({ token: await authService.getIdToken() });
+            const response = await api.post<{ user: SessionUser; token: string }>('/auth/login');
+            if (!response.data) {
+              throw new Error('Sign in failed');
+            }
+            set({
+              user: toUser(response.data.user),
+              token: response.data.token,
+              isAuthenticated: true,
+              isLoading: false,
+            });
+          } catch (error) {
+            set({ token: null, isLoading: false, error: (error as Error).message });
+            throw error;
+          }
         },
 
         logout: async () => {
@@ -72,17 +130,36 @@ export const useAuthStore = create<AuthStore>()(
           
           set({
             user: null,
+            token: null,
             isAuthenticated: false,
             isLoading: false,
             error: null,
           });
         },
 
+        // Reload the user's permissions (roles + overrides) and record visibility
+        // from the server so role changes apply without signing in again. Keeps
+        // the current values if the server can't be reached.
+        refreshPermissions: async () => {
+          if (!get().user || !get().token) return;
+          try {
+            const response = await api.get<Pick<User, 'permissions' | 'recordScope' | 'visibleRepIds'>>('/auth/me');
+            const user = get().user;
+            if (user && response.data) {
+              const { permissions, recordScope, visibleRepIds } = response.data;
+              set({ user: { ...user, permissions, recordScope, visibleRepIds } });
+            }
+          } catch {
+            // Offline or not yet linked to a server account
+          }
+        },
+
         setUser: (user) => set({ user, isAuthenticated: !!user }),
         setLoading: (isLoading) => set({ isLoading }),
         setError: (error) => set({ error }),
         clearAuth: () => set({
           user: null,
+          token: null,
           isAuthenticated: false,
           error: null,
         }),
@@ -91,6 +168,7 @@ export const useAuthStore = create<AuthStore>()(
         name: 'sg-portal-auth',
         partialize: (state) => ({
           user: state.user,
+          token: state.token,
           isAuthenticated: state.isAuthenticated,
         }),
       }
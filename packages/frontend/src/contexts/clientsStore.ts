@@ -1,6 +1,15 @@
 import { create } from 'zustand';
-import { devtools, persist } from 'zustand/middleware';
+import { devtools } from 'zustand/middleware';
 import { registerUserDependency } from './userDependencyRegistry';
+import { remapLegacySalesLinks } from './salesStore';
+import { remapLegacyTaskLinks } from './taskStore';
+import { api, type ApiResponse } from '@/services/api/client';
+import {
+  FETCH_ALL_LIMIT,
+  enqueueWrite,
+  errorMessage,
+  readLegacyState,
+} from '@/services/api/sync';
 import { generateCompanySlug, generateContactSlug } from '@/utils/slugUtils';
 
 // Contact Role options
@@ -55,10 +64,40 @@ export interface Company {
   salesRepId?: string;
   // Explicit flag: when true, sales reps are assigned per-location instead of company-level
   salesRepsByLocation?: boolean;
+  // What the company is to us; any mix. Companies from before these flags are customers.
+  isCustomer?: boolean;
+  isSubcontractor?: boolean;
+  isSupplier?: boolean;
+  // Trades the company works in, from the trade list in Field Settings
+  trades?: string[];
   createdAt: string;
   updatedAt: string;
 }
 
+export type CompanyType = 'customer' | 'subcontractor' | 'supplier';
+
+export const COMPANY_TYPE_LABELS: Record<CompanyType, string> = {
+  customer: 'Customer',
+  subcontractor: 'Subcontractor',
+  supplier: 'Supplier',
+};
+
+// The Company flag that marks each type
+export const COMPANY_TYPE_FLAGS: Record<CompanyType, 'isCustomer' | 'isSubcontractor' | 'isSupplier'> = {
+  customer: 'isCustomer',
+  subcontractor: 'isSubcontractor',
+  supplier: 'isSupplier',
+};
+
+export function isCompanyOfType(company: Company, type: CompanyType): boolean {
+  if (type === 'customer') return company.isCustomer !== false;
+  return !!company[COMPANY_TYPE_FLAGS[type]];
+}
+
+export function getCompanyTypes(company: Company): CompanyType[] {
+  return (Object.keys(COMPANY_TYPE_LABELS) as CompanyType[]).filter((type) => isCompanyOfType(company, type));
+}
+
 // Helper to get all sales rep IDs for a company (both company-level and location-level)
 export function getCompanySalesRepIds(company: Company): string[] {
   const allReps: string[] = [];
@@ -170,9 +209,17 @@ export interface Contact {
 interface ClientsState {
   companies: Company[];
   contacts: Contact[];
+  isLoading: boolean;
+  // True once the first fetch from the server has completed
+  isSynced: boolean;
+  error: string | null;
 }
 
 interface ClientsStore extends ClientsState {
+  // Server sync
+  fetchAll: () => Promise<void>;
+  syncWithServer: () => Promise<void>;
+
   // Company actions
   addCompany: (company: Omit<Company, 'id' | 'slug' | 'createdAt' | 'updatedAt'>) => Company;
   updateCompany: (id: string, data: Partial<Company>) => void;
@@ -196,18 +243,153 @@ interface ClientsStore extends ClientsState {
   addContactMethod: (contactId: string, method: Omit<AdditionalContact, 'id'>) => void;
   updateContactMethod: (contactId: string, methodId: string, data: Partial<AdditionalContact>) => void;
   deleteContactMethod: (contactId: string, methodId: string) => void;
-  
-  // Migration helper - generate slugs for existing records without slugs
-  migrateExistingSlugs: () => void;
 }
 
+// ============================================================================
+// Server sync helpers
+// ============================================================================
+
+// Key the store used when companies/contacts lived only in localStorage
+const LEGACY_STORAGE_KEY = 'sg-portal-clients';
+
+interface ImportResult {
+  companiesCreated: number;
+  contactsCreated: number;
+  idMap: {
+    companies: Record<string, string>;
+    addresses: Record<string, string>;
+    contacts: Record<string, string>;
+    contactMethods: Record<string, string>;
+  };
+}
+
+// Collapse legacy single salesRepId fields into salesRepIds for the API
+function repIds(ids?: string[], legacyId?: string): string[] {
+  if (ids && ids.length > 0) return ids;
+  return legacyId ? [legacyId] : [];
+}
+
+function toAddressPayload(address: Omit<CompanyAddress, 'id' | 'label'> & { id?: string; label?: string }) {
+  return {
+    id: address.id,
+    label: address.label,
+    street: address.street ?? '',
+    suite: address.suite || undefined,
+    city: address.city ?? '',
+    state: address.state ?? '',
+    zip: address.zip ?? '',
+    salesRepIds: repIds(address.salesRepIds, address.salesRepId),
+  };
+}
+
+// Build a PATCH/POST body from the fields present in `data`.
+// Fields explicitly set to undefined are sent as '' so the server clears them.
+function toCompanyPayload(data: Partial<Company>) {
+  const payload: Record<string, unknown> = {};
+  for (const key of ['name', 'slug', 'phone', 'website', 'notes'] as const) {
+    if (key in data) payload[key] = data[key] ?? '';
+  }
+  if ('salesRepIds' in data || 'salesRepId' in data) {
+    payload.salesRepIds = repIds(data.salesRepIds, data.salesRepId);
+  }
+  if ('salesRepsByLocation' in data) payload.salesRepsByLocation = !!data.salesRepsByLocation;
+  for (const key of ['isCustomer', 'isSubcontractor', 'isSupplier'] as const) {
+    if (key in data && data[key] !== undefined) payload[key] = data[key];
+  }
+  if ('trades' in data) payload.trades = data.trades || [];
+  if ('address' in data) payload.address = data.address ? toAddressPayload(data.address) : null;
+  if ('addresses' in data) payload.addresses = (data.addresses || []).map(toAddressPayload);
+  return payload;
+}
+
+function toContactPayload(data: Partial<Contact>) {
+  const payload: Record<string, unknown> = {};
+  for (const key of ['companyId', 'slug', 'firstName', 'lastName', 'email', 'phoneOffice', 'phoneMobile', 'role', 'notes'] as const) {
+    if (key in data) payload[key] = data[key] ?? '';
+  }
+  if ('officeAddressId' in data) payload.officeAddressId = data.officeAddressId || null;
+  return payload;
+}
+
+// Point leads, deals and tasks created against localStorage ids at the new server ids.
+// They are still in their own legacy localStorage entries at this point; the sales
+// and task stores import them after this sync.
+function remapLinkedRecords(idMap: ImportResult['idMap']) {
+  remapLegacySalesLinks(idMap.companies, idMap.contacts);
+  remapLegacyTaskLinks({ company: idMap.companies, contact: idMap.contacts });
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
 export const useClientsStore = create<ClientsStore>()(
   devtools(
-    persist(
-      (set, get) => ({
-        // Empty by default - no phantom data
+    (set, get) => {
+      // Send a write to the server in the background. The local change has already
+      // been applied; on failure we surface the error and reload the server's copy.
+      const persistChange = <T,>(request: () => Promise<ApiResponse<T>>, onSuccess?: (data: T) => void) =>
+        enqueueWrite(request, onSuccess, (message) => {
+          set({ error: message });
+          return get().fetchAll();
+        });
+
+      const replaceCompany = (company: Company) =>
+        set((state) => ({
+          companies: state.companies.map((c) => (c.id === company.id ? company : c)),
+        }));
+
+      const replaceContact = (contact: Contact) =>
+        set((state) => ({
+          contacts: state.contacts.map((c) => (c.id === contact.id ? contact : c)),
+        }));
+
+      return {
         companies: [],
         contacts: [],
+        isLoading: false,
+        isSynced: false,
+        error: null,
+
+        fetchAll: async () => {
+          set({ isLoading: true, error: null });
+          try {
+            const [companies, contacts] = await Promise.all([
+              api.get<Company[]>('/companies', { limit: FETCH_ALL_LIMIT }),
+              api.get<Contact[]>('/contacts', { limit: FETCH_ALL_LIMIT }),
+            ]);
+            set({
+              companies: companies.data || [],
+              contacts: contacts.data || [],
+              isLoading: false,
+              isSynced: true,
+            });
+          } catch (error) {
+            set({ isLoading: false, error: errorMessage(error) });
+          }
+        },
+
+        // Import anything left in localStorage from before server persistence, then load.
+        // The legacy key is only removed once the server has accepted the import.
+        syncWithServer: async () => {
+          const legacy = readLegacyState<ClientsState>(LEGACY_STORAGE_KEY);
+          if (legacy) {
+            try {
+              const companies = legacy.companies || [];
+              const contacts = legacy.contacts || [];
+
+              if (companies.length > 0 || contacts.length > 0) {
+                const result = await api.post<ImportResult>('/companies/import', { companies, contacts });
+                if (result.data) remapLinkedRecords(result.data.idMap);
+              }
+              localStorage.removeItem(LEGACY_STORAGE_KEY);
+            } catch (error) {
+              set({ error: errorMessage(error) });
+            }
+          }
+
+          await get().fetchAll();
+        },
 
         // Company actions
         addCompany: (companyData) => {
@@ -219,33 +401,52 @@ export const useClientsStore = create<ClientsStore>()(
           
           const newCompany: Company = {
             ...companyData,
-            id: `company-${Date.now()}`,
+            id: crypto.randomUUID(),
             slug,
+            addresses: companyData.addresses?.map((addr) => ({
+              ...addr,
+              id: addr.id || crypto.randomUUID(),
+            })),
             createdAt: now,
             updatedAt: now,
           };
           set((state) => ({ companies: [...state.companies, newCompany] }));
+
+          persistChange(
+            () => api.post<Company>('/companies', { id: newCompany.id, ...toCompanyPayload(newCompany) }),
+            replaceCompany
+          );
           return newCompany;
         },
 
         updateCompany: (id, data) => {
-          set((state) => {
-            let updatedData = { ...data };
-            
-            // If name is being updated, regenerate the slug
-            if (data.name !== undefined) {
-              const otherCompanies = state.companies.filter(c => c.id !== id);
-              updatedData.slug = generateCompanySlug(data.name, otherCompanies);
-            }
-            
-            return {
-              companies: state.companies.map((company) =>
-                company.id === id
-                  ? { ...company, ...updatedData, updatedAt: new Date().toISOString() }
-                  : company
-              ),
-            };
-          });
+          let updatedData = { ...data };
+
+          // If name is being updated, regenerate the slug
+          if (data.name !== undefined) {
+            const otherCompanies = get().companies.filter(c => c.id !== id);
+            updatedData.slug = generateCompanySlug(data.name, otherCompanies);
+          }
+
+          if (updatedData.addresses) {
+            updatedData.addresses = updatedData.addresses.map((addr) => ({
+              ...addr,
+              id: addr.id || crypto.randomUUID(),
+            }));
+          }
+
+          set((state) => ({
+            companies: state.companies.map((company) =>
+              company.id === id
+                ? { ...company, ...updatedData, updatedAt: new Date().toISOString() }
+                : company
+            ),
+          }));
+
+          persistChange(
+            () => api.patch<Company>(`/companies/${id}`, toCompanyPayload(updatedData)),
+            replaceCompany
+          );
         },
 
         deleteCompany: (id) => {
@@ -254,6 +455,8 @@ export const useClientsStore = create<ClientsStore>()(
             // Also delete associated contacts
             contacts: state.contacts.filter((contact) => contact.companyId !== id),
           }));
+
+          persistChange(() => api.delete(`/companies/${id}`));
         },
 
         getCompanyById: (id) => {
@@ -268,7 +471,7 @@ export const useClientsStore = create<ClientsStore>()(
         addCompanyAddress: (companyId, addressData) => {
           const newAddress: CompanyAddress = {
             ...addressData,
-            id: `addr-${Date.now()}`,
+            id: crypto.randomUUID(),
           };
           set((state) => ({
             companies: state.companies.map((company) =>
@@ -281,6 +484,10 @@ export const useClientsStore = create<ClientsStore>()(
                 : company
             ),
           }));
+
+          persistChange(() =>
+            api.post(`/companies/${companyId}/addresses`, toAddressPayload(newAddress))
+          );
         },
 
         updateCompanyAddress: (companyId, addressId, data) => {
@@ -297,6 +504,12 @@ export const useClientsStore = create<ClientsStore>()(
                 : company
             ),
           }));
+
+          const updated = get().getCompanyById(companyId)?.addresses?.find((a) => a.id === addressId);
+          if (updated) {
+            const { id: _id, ...payload } = toAddressPayload(updated);
+            persistChange(() => api.patch(`/companies/${companyId}/addresses/${addressId}`, payload));
+          }
         },
 
         deleteCompanyAddress: (companyId, addressId) => {
@@ -313,6 +526,8 @@ export const useClientsStore = create<ClientsStore>()(
                 : company
             ),
           }));
+
+          persistChange(() => api.delete(`/companies/${companyId}/addresses/${addressId}`));
         },
 
         // Contact actions
@@ -329,44 +544,63 @@ export const useClientsStore = create<ClientsStore>()(
           
           const newContact: Contact = {
             ...contactData,
-            id: `contact-${Date.now()}`,
+            id: crypto.randomUUID(),
             slug,
+            additionalContacts: contactData.additionalContacts?.map((method) => ({
+              ...method,
+              id: crypto.randomUUID(),
+            })),
             createdAt: now,
             updatedAt: now,
           };
           set((state) => ({ contacts: [...state.contacts, newContact] }));
+
+          persistChange(
+            () =>
+              api.post<Contact>('/contacts', {
+                id: newContact.id,
+                ...toContactPayload(newContact),
+                additionalContacts: newContact.additionalContacts,
+              }),
+            replaceContact
+          );
           return newContact;
         },
 
         updateContact: (id, data) => {
-          set((state) => {
-            let updatedData = { ...data };
-            
-            // If name is being updated, regenerate the slug
-            if (data.firstName !== undefined || data.lastName !== undefined) {
-              const currentContact = state.contacts.find(c => c.id === id);
-              if (currentContact) {
-                const firstName = data.firstName ?? currentContact.firstName;
-                const lastName = data.lastName ?? currentContact.lastName;
-                const otherContacts = state.contacts.filter(c => c.id !== id);
-                updatedData.slug = generateContactSlug(firstName, lastName, otherContacts, id);
-              }
+          let updatedData = { ...data };
+
+          // If name is being updated, regenerate the slug
+          if (data.firstName !== undefined || data.lastName !== undefined) {
+            const currentContact = get().contacts.find(c => c.id === id);
+            if (currentContact) {
+              const firstName = data.firstName ?? currentContact.firstName;
+              const lastName = data.lastName ?? currentContact.lastName;
+              const otherContacts = get().contacts.filter(c => c.id !== id);
+              updatedData.slug = generateContactSlug(firstName, lastName, otherContacts, id);
             }
-            
-            return {
-              contacts: state.contacts.map((contact) =>
-                contact.id === id
-                  ? { ...contact, ...updatedData, updatedAt: new Date().toISOString() }
-                  : contact
-              ),
-            };
-          });
+          }
+
+          set((state) => ({
+            contacts: state.contacts.map((contact) =>
+              contact.id === id
+                ? { ...contact, ...updatedData, updatedAt: new Date().toISOString() }
+                : contact
+            ),
+          }));
+
+          persistChange(
+            () => api.patch<Contact>(`/contacts/${id}`, toContactPayload(updatedData)),
+            replaceContact
+          );
         },
 
         deleteContact: (id) => {
           set((state) => ({
             contacts: state.contacts.filter((contact) => contact.id !== id),
           }));
+
+          persistChange(() => api.delete(`/contacts/${id}`));
         },
 
         getContactsByCompany: (companyId) => {
@@ -381,7 +615,7 @@ export const useClientsStore = create<ClientsStore>()(
         addContactMethod: (contactId, methodData) => {
           const newMethod: AdditionalContact = {
             ...methodData,
-            id: `method-${Date.now()}`,
+            id: crypto.randomUUID(),
           };
           set((state) => ({
             contacts: state.contacts.map((contact) =>
@@ -394,6 +628,8 @@ export const useClientsStore = create<ClientsStore>()(
                 : contact
             ),
           }));
+
+          persistChange(() => api.post(`/contacts/${contactId}/methods`, newMethod));
         },
 
         updateContactMethod: (contactId, methodId, data) => {
@@ -410,6 +646,9 @@ export const useClientsStore = create<ClientsStore>()(
                 : contact
             ),
           }));
+
+          const { id: _id, ...payload } = data;
+          persistChange(() => api.patch(`/contacts/${contactId}/methods/${methodId}`, payload));
         },
 
         deleteContactMethod: (contactId, methodId) => {
@@ -426,56 +665,11 @@ export const useClientsStore = create<ClientsStore>()(
                 : contact
             ),
           }));
+
+          persistChange(() => api.delete(`/contacts/${contactId}/methods/${methodId}`));
         },
-        
-        // Migration helper - generate slugs for existing records without slugs
-        migrateExistingSlugs: () => {
-          set((state) => {
-            // Migrate companies
-            const migratedCompanies = state.companies.map((company, index) => {
-              if (company.slug) return company;
-              
-              // Get slugs of companies processed so far
-              const existingSlugs = state.companies
-                .slice(0, index)
-                .filter(c => c.slug)
-                .map(c => c.slug!);
-              
-              const slug = generateCompanySlug(company.name, 
-                existingSlugs.map(s => ({ id: '', slug: s }))
-              );
-              
-              return { ...company, slug };
-            });
-            
-            // Migrate contacts
-            const migratedContacts = state.contacts.map((contact, index) => {
-              if (contact.slug) return contact;
-              
-              // Get slugs of contacts processed so far
-              const existingSlugs = state.contacts
-                .slice(0, index)
-                .filter(c => c.slug)
-                .map(c => c.slug!);
-              
-              const slug = generateContactSlug(
-                contact.firstName,
-                contact.lastName,
-                existingSlugs.map(s => ({ id: '', slug: s }))
-              );
-              
-              return { ...contact, slug };
-            });
-            
-            return {
-              companies: migratedCompanies,
-              contacts: migratedContacts,
-            };
-          });
-        },
-      }),
-      { name: 'sg-portal-clients' }
-    ),
+      };
+    },
     { name: 'ClientsStore' }
   )
 );
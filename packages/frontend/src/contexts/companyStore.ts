@@ -1,5 +1,18 @@
+// ============================================================================
+// Company Store - Company profile, offices and letterhead templates
+// Location: src/contexts/companyStore.ts
+//
+// - Backed by /api/settings/company (estimate and invoice PDFs are rendered on
+//   the server from it); this store is a cache, also kept in localStorage so
+//   the name and logo show before the first fetch
+// - A profile edited before server persistence is imported once, the first
+//   time the server has none
+// ============================================================================
+
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { api, type ApiResponse } from '@/services/api/client';
+import { enqueueWrite, errorMessage } from '@/services/api/sync';
 
 // Office location for your company (similar to CompanyAddress in clientsStore)
 export interface CompanyOffice {
@@ -41,10 +54,15 @@ export interface CompanySettings {
   letterhead: string | null;
   // Multiple letterhead templates
   letterheads: LetterheadTemplate[];
+  // Used for estimates and invoices that don't choose a letterhead
+  defaultLetterheadId: string | null;
 }
 
 interface CompanyStore {
   company: CompanySettings;
+  error: string | null;
+  // Server sync
+  syncWithServer: () => Promise<void>;
   setCompany: (company: Partial<CompanySettings>) => void;
   setLogo: (logo: string | null) => void;
   // Legacy letterhead methods (kept for backwards compatibility)
@@ -60,6 +78,7 @@ interface CompanyStore {
   addLetterhead: (name: string, data: string) => void;
   updateLetterhead: (id: string, data: Partial<LetterheadTemplate>) => void;
   deleteLetterhead: (id: string) => void;
+  setDefaultLetterhead: (id: string | null) => void;
   getLetterheads: () => LetterheadTemplate[];
   resetCompany: () => void;
 }
@@ -80,164 +99,207 @@ const defaultCompany: CompanySettings = {
   logo: null,
   letterhead: null,
   letterheads: [],
+  defaultLetterheadId: null,
 };
 
+// What PUT /settings/company stores; letterheads have their own endpoints
+function profileOf(company: CompanySettings) {
+  const { letterheads: _letterheads, letterhead: _letterhead, ...profile } = company;
+  return profile;
+}
+
+// Whether this browser holds a profile worth importing
+function hasLocalProfile(company: CompanySettings): boolean {
+  return (
+    company.name !== defaultCompany.name ||
+    !!company.logo ||
+    (company.offices || []).length > 0 ||
+    (company.letterheads || []).length > 0
+  );
+}
+
 export const useCompanyStore = create<CompanyStore>()(
   persist(
-    (set, get) => ({
-      company: defaultCompany,
-      
-      setCompany: (updates) =>
-        set((state) => ({
-          company: { ...state.company, ...updates },
-        })),
-      
-      setLogo: (logo) =>
-        set((state) => ({
-          company: { ...state.company, logo },
-        })),
-      
-      setLetterhead: (letterhead) =>
-        set((state) => ({
-          company: { ...state.company, letterhead },
-        })),
-
-      addOffice: (officeData) => {
-        const newOffice: CompanyOffice = {
-          ...officeData,
-          id: `office-${Date.now()}`,
-        };
-        
-        set((state) => {
-          const currentOffices = state.company.offices || [];
-          const offices = [...currentOffices, newOffice];
-          
-          // If this is the first office or marked as main, set it as main
-          if (offices.length === 1 || officeData.isMain) {
-            return {
-              company: {
-                ...state.company,
+    (set, get) => {
+      // On failure, surface the error and reload the server's copy
+      const persistChange = <T,>(request: () => Promise<ApiResponse<T>>) =>
+        enqueueWrite(request, undefined, (message) => {
+          set({ error: message });
+          return get().syncWithServer();
+        });
+
+      const saveProfile = () =>
+        persistChange(() => api.put('/settings/company', profileOf(get().company)));
+
+      // Apply a change to the profile and save it
+      const updateCompany = (update: (company: CompanySettings) => Partial<CompanySettings>) => {
+        set((state) => ({ company: { ...state.company, ...update(state.company) } }));
+        saveProfile();
+      };
+
+      return {
+        company: defaultCompany,
+        error: null,
+
+        syncWithServer: async () => {
+          try {
+            const response = await api.get<Partial<CompanySettings>>('/settings/company');
+            const server = response.data || {};
+
+            // `offices` is only absent until the profile is first saved from the portal
+            const local = get().company;
+            if (server.offices === undefined && hasLocalProfile(local)) {
+              await api.put('/settings/company', profileOf(local));
+              for (const letterhead of local.letterheads || []) {
+                if (!server.letterheads?.some((l) => l.id === letterhead.id)) {
+                  await api.post('/settings/letterheads', letterhead);
+                }
+              }
+              return;
+            }
+
+            set({ company: { ...defaultCompany, ...server }, error: null });
+          } catch (error) {
+            set({ error: errorMessage(error) });
+          }
+        },
+
+        setCompany: (updates) => updateCompany(() => updates),
+
+        setLogo: (logo) => updateCompany(() => ({ logo })),
+
+        // Local only; superseded by letterhead templates
+        setLetterhead: (letterhead) =>
+          set((state) => ({
+            company: { ...state.company, letterhead },
+          })),
+
+        addOffice: (officeData) => {
+          const newOffice: CompanyOffice = {
+            ...officeData,
+            id: `office-${Date.now()}`,
+          };
+
+          updateCompany((company) => {
+            const offices = [...(company.offices || []), newOffice];
+
+            // If this is the first office or marked as main, set it as main
+            if (offices.length === 1 || officeData.isMain) {
+              return {
                 offices: offices.map(o => ({
                   ...o,
                   isMain: o.id === newOffice.id,
                 })),
-              },
-            };
-          }
-          
-          return {
-            company: {
-              ...state.company,
-              offices,
-            },
-          };
-        });
-      },
+              };
+            }
+
+            return { offices };
+          });
+        },
 
-      updateOffice: (id, data) => {
-        set((state) => ({
-          company: {
-            ...state.company,
-            offices: (state.company.offices || []).map((office) =>
+        updateOffice: (id, data) => {
+          updateCompany((company) => ({
+            offices: (company.offices || []).map((office) =>
               office.id === id ? { ...office, ...data } : office
             ),
-          },
-        }));
-      },
-
-      deleteOffice: (id) => {
-        set((state) => {
-          const currentOffices = state.company.offices || [];
-          const remainingOffices = currentOffices.filter((o) => o.id !== id);
-          
-          // If we deleted the main office, make the first remaining office the main
-          const deletedOffice = currentOffices.find((o) => o.id === id);
-          const firstOffice = remainingOffices[0];
-          if (deletedOffice?.isMain && firstOffice) {
-            return {
-              company: {
-                ...state.company,
-                offices: remainingOffices.map((o, i) => 
+          }));
+        },
+
+        deleteOffice: (id) => {
+          updateCompany((company) => {
+            const currentOffices = company.offices || [];
+            const remainingOffices = currentOffices.filter((o) => o.id !== id);
+
+            // If we deleted the main office, make the first remaining office the main
+            const deletedOffice = currentOffices.find((o) => o.id === id);
+            const firstOffice = remainingOffices[0];
+            if (deletedOffice?.isMain && firstOffice) {
+              return {
+                offices: remainingOffices.map((o, i) =>
                   i === 0 ? { ...o, isMain: true } : o
                 ),
-              },
-            };
+              };
+            }
+
+            return { offices: remainingOffices };
+          });
+        },
+
+        setMainOffice: (id) => {
+          updateCompany((company) => ({
+            offices: (company.offices || []).map((office) => ({
+              ...office,
+              isMain: office.id === id,
+            })),
+          }));
+        },
+
+        getOffices: () => {
+          return get().company.offices || [];
+        },
+
+        getMainOffice: () => {
+          return (get().company.offices || []).find((o) => o.isMain);
+        },
+
+        // Letterhead management
+        addLetterhead: (name, data) => {
+          const newLetterhead: LetterheadTemplate = {
+            id: `letterhead-${Date.now()}`,
+            name,
+            data,
+            createdAt: new Date().toISOString(),
+          };
+
+          set((state) => ({
+            company: {
+              ...state.company,
+              letterheads: [...(state.company.letterheads || []), newLetterhead],
+            },
+          }));
+          persistChange(() => api.post('/settings/letterheads', newLetterhead));
+        },
+
+        // Only the name can change; upload a new template to replace the file
+        updateLetterhead: (id, data) => {
+          set((state) => ({
+            company: {
+              ...state.company,
+              letterheads: (state.company.letterheads || []).map((lh) =>
+                lh.id === id ? { ...lh, ...data } : lh
+              ),
+            },
+          }));
+          if (data.name) {
+            persistChange(() => api.patch(`/settings/letterheads/${id}`, { name: data.name }));
           }
-          
-          return {
+        },
+
+        // The server also clears it as the default
+        deleteLetterhead: (id) => {
+          set((state) => ({
             company: {
               ...state.company,
-              offices: remainingOffices,
+              letterheads: (state.company.letterheads || []).filter((lh) => lh.id !== id),
+              defaultLetterheadId:
+                state.company.defaultLetterheadId === id ? null : state.company.defaultLetterheadId,
             },
-          };
-        });
-      },
+          }));
+          persistChange(() => api.delete(`/settings/letterheads/${id}`));
+        },
 
-      setMainOffice: (id) => {
-        set((state) => ({
-          company: {
-            ...state.company,
-            offices: (state.company.offices || []).map((office) => ({
-              ...office,
-              isMain: office.id === id,
-            })),
-          },
-        }));
-      },
-
-      getOffices: () => {
-        return get().company.offices || [];
-      },
-
-      getMainOffice: () => {
-        return (get().company.offices || []).find((o) => o.isMain);
-      },
-
-      // Letterhead management
-      addLetterhead: (name, data) => {
-        const newLetterhead: LetterheadTemplate = {
-          id: `letterhead-${Date.now()}`,
-          name,
-          data,
-          createdAt: new Date().toISOString(),
-        };
-        
-        set((state) => ({
-          company: {
-            ...state.company,
-            letterheads: [...(state.company.letterheads || []), newLetterhead],
-          },
-        }));
-      },
-
-      updateLetterhead: (id, data) => {
-        set((state) => ({
-          company: {
-            ...state.company,
-            letterheads: (state.company.letterheads || []).map((lh) =>
-              lh.id === id ? { ...lh, ...data } : lh
-            ),
-          },
-        }));
-      },
-
-      deleteLetterhead: (id) => {
-        set((state) => ({
-          company: {
-            ...state.company,
-            letterheads: (state.company.letterheads || []).filter((lh) => lh.id !== id),
-          },
-        }));
-      },
-
-      getLetterheads: () => {
-        return get().company.letterheads || [];
-      },
-
-      resetCompany: () => set({ company: defaultCompany }),
-    }),
+        setDefaultLetterhead: (id) => updateCompany(() => ({ defaultLetterheadId: id })),
+
+        getLetterheads: () => {
+          return get().company.letterheads || [];
+        },
+
+        resetCompany: () => updateCompany(() => ({ ...defaultCompany, letterheads: get().company.letterheads })),
+      };
+    },
     {
       name: 'sg-portal-company',
+      partialize: (state) => ({ company: state.company }),
     }
   )
-);
\ No newline at end of file
+);
@@ -54,6 +54,8 @@ export interface SalesSource {
 interface FieldsState {
   departments: Department[];
   contactRoles: string[];
+  // Trade classifications for subcontractors and suppliers
+  trades: string[];
   // Sales fields
   leadStages: SalesStage[];
   dealStages: SalesStage[];
@@ -83,6 +85,11 @@ interface FieldsStore extends FieldsState {
   deleteContactRole: (role: string) => void;
   reorderContactRoles: (roles: string[]) => void;
   
+  // Trade actions
+  addTrade: (trade: string) => void;
+  updateTrade: (oldTrade: string, newTrade: string) => void;
+  deleteTrade: (trade: string) => void;
+  
   // Lead stage actions
   addLeadStage: (name: string, color?: string) => void;
   updateLeadStage: (id: string, data: Partial<Pick<SalesStage, 'name' | 'color'>>) => void;
@@ -155,6 +162,25 @@ const defaultContactRoles: string[] = [
   'Accounts Payable',
 ];
 
+// Default trades
+const defaultTrades: string[] = [
+  'Sitework & Excavation',
+  'Concrete',
+  'Masonry',
+  'Structural Steel',
+  'Framing & Carpentry',
+  'Roofing',
+  'Glass & Glazing',
+  'Drywall',
+  'Painting',
+  'Flooring',
+  'Plumbing',
+  'HVAC',
+  'Electrical',
+  'Fire Protection',
+  'Landscaping',
+];
+
 // Default lead stages
 const defaultLeadStages: SalesStage[] = [
   { id: 'lead-stage-1', name: 'Job Site Lead', color: '#64748b', order: 0 },
@@ -277,6 +303,7 @@ export const useFieldsStore = create<FieldsStore>()(
     (set, get) => ({
       departments: defaultDepartments,
       contactRoles: defaultContactRoles,
+      trades: defaultTrades,
       leadStages: defaultLeadStages,
       dealStages: defaultDealStages,
       leadLabels: defaultLeadLabels,
@@ -479,6 +506,38 @@ export const useFieldsStore = create<FieldsStore>()(
         set({ contactRoles: roles });
       },
 
+      // ============ TRADE ACTIONS ============
+
+      addTrade: (trade) => {
+        const trimmedTrade = trade.trim();
+        if (!trimmedTrade) return;
+
+        set((state) => {
+          if (state.trades.some(t => t.toLowerCase() === trimmedTrade.toLowerCase())) {
+            return state;
+          }
+          return {
+            trades: [...state.trades, trimmedTrade],
+          };
+        });
+      },
+
+      // Companies keep the old name until they are edited
+      updateTrade: (oldTrade, newTrade) => {
+        const trimmedNew = newTrade.trim();
+        if (!trimmedNew) return;
+
+        set((state) => ({
+          trades: state.trades.map((t) => (t === oldTrade ? trimmedNew : t)),
+        }));
+      },
+
+      deleteTrade: (trade) => {
+        set((state) => ({
+          trades: state.trades.filter((t) => t !== trade),
+        }));
+      },
+
       // ============ LEAD STAGE ACTIONS ============
 
       addLeadStage: (name, color = '#64748b') => {
@@ -737,6 +796,7 @@ export const useFieldsStore = create<FieldsStore>()(
         set({
           departments: defaultDepartments,
           contactRoles: defaultContactRoles,
+          trades: defaultTrades,
           leadStages: defaultLeadStages,
           dealStages: defaultDealStages,
           leadLabels: defaultLeadLabels,
@@ -748,7 +808,7 @@ export const useFieldsStore = create<FieldsStore>()(
       name: 'sg-portal-fields',
       version: 3, // Bumped version for sales fields migration
       migrate: (persistedState: unknown, version: number) => {
-        const state = persistedState as FieldsState & { departments?: Department[]; contactRoles?: string[] };
+        const state = persistedState as FieldsState & { departments?: Department[]; contactRoles?: string[]; trades?: string[] };
         
         // Migration from version 1 to 2: add reportsToPositionId
         if (version < 2 && state.departments) {
@@ -797,6 +857,10 @@ export const useFieldsStore = create<FieldsStore>()(
         if (!state.contactRoles) {
           state.contactRoles = defaultContactRoles;
         }
+
+        if (!state.trades) {
+          state.trades = defaultTrades;
+        }
         
         return state as FieldsState;
       },
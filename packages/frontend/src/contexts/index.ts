@@ -14,7 +14,19 @@ export {
   type SalesLabel,
   type SalesSource,
 } from './fieldsStore';
-export { useRolesStore, type Role, type Permission } from './rolesStore';
+export {
+  useRolesStore,
+  DEFAULT_ROLE_ID,
+  RECORD_SCOPE_OPTIONS,
+  type Role,
+  type Permission,
+  type UserAccess,
+  type OrgPlacement,
+  type OrgRoles,
+  type OrgUnitType,
+  type RoleSource,
+  type EffectivePermission,
+} from './rolesStore';
 export { useNavigationGuardStore } from './navigationGuardStore';
 export { useUsersStore, type User } from './usersStore';
 export { 
@@ -25,11 +37,16 @@ export {
   type AdditionalContact,
   type ContactMethodType,
   type CompanyAddress,
+  type CompanyType,
   // REMOVED: CONTACT_ROLES - now in fieldsStore
   CONTACT_METHOD_TYPES,
+  COMPANY_TYPE_LABELS,
+  COMPANY_TYPE_FLAGS,
   isDuplicateAddress,
   getCompanySalesRepIds,
   isCompanyAssignedToRep,
+  isCompanyOfType,
+  getCompanyTypes,
 } from './clientsStore';
 export {
   useTaskStore,
@@ -50,6 +67,7 @@ export {
 // Sales store
 export {
   useSalesStore,
+  DELETED_DEAL_RETENTION_DAYS,
   type Lead,
   type Deal,
   type LeadInput,
@@ -1,5 +1,22 @@
+// ============================================================================
+// Roles Store - Role-based access control
+// Location: src/contexts/rolesStore.ts
+//
+// - Roles: named sets of permission ids, edited in the permission matrix
+// - Per-user role assignments and permission overrides, keyed by email
+// - Roles attached to departments and positions (Admin > Fields ids); users
+//   get the union of their assigned, position and department roles
+// - Backed by /api/roles; this store is a cache. Only admins can read it, so
+//   the admin pages load it on demand (syncWithServer) rather than at startup.
+// ============================================================================
+
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { devtools } from 'zustand/middleware';
+import { api, type ApiResponse } from '@/services/api/client';
+import { enqueueWrite, errorMessage, readLegacyState } from '@/services/api/sync';
+import { useFieldsStore } from './fieldsStore';
+import type { User } from './usersStore';
+import type { RecordScope } from '@sg-portal/shared';
 
 export interface Permission {
   id: string;
@@ -13,24 +30,141 @@ export interface Role {
   name: string;
   description: string;
   permissions: string[]; // Array of permission IDs
+  recordScope?: RecordScope; // Which customer/sales records holders can see (default 'all')
   isSystem?: boolean; // System roles can't be deleted
+  userCount?: number; // Users assigned to the role (from the server)
+  unitCount?: number; // Departments and positions using the role (from the server)
+}
+
+// Where a user sits in the org chart (fieldsStore ids), plus what the server
+// needs to work out whose records they can see
+export interface OrgPlacement {
+  departmentId: string | null;
+  positionId: string | null;
+  userId: string | null; // usersStore id - the sales rep / owner id on records
+  officeId: string | null;
+  reportsToPositionId: string | null; // Null when the default supervisor is disabled
+  supervisorIds: string[];
+}
+
+export const RECORD_SCOPE_OPTIONS: { value: RecordScope; label: string; description: string }[] = [
+  { value: 'own', label: 'Own records', description: 'Companies they are a sales rep on and leads/deals they own' },
+  { value: 'team', label: 'Own + direct reports', description: 'Their records and their direct reports\' records' },
+  { value: 'office', label: 'Office', description: 'Records of everyone in their office' },
+  { value: 'all', label: 'All records', description: 'Every company, contact, lead and deal' },
+];
+
+const EMPTY_PLACEMENT: OrgPlacement = {
+  departmentId: null,
+  positionId: null,
+  userId: null,
+  officeId: null,
+  reportsToPositionId: null,
+  supervisorIds: [],
+};
+
+// Placement of a usersStore user, resolving their position's supervisor position
+function placementFor(user: User): OrgPlacement {
+  const position = user.positionId ? useFieldsStore.getState().getPositionById(user.positionId) : null;
+  const supervisorIds: string[] = (user as User & { supervisorIds?: string[] }).supervisorIds
+    || (user.supervisorId ? [user.supervisorId] : []);
+  return {
+    departmentId: user.departmentId || null,
+    positionId: user.positionId || null,
+    userId: user.id,
+    officeId: user.officeId || null,
+    reportsToPositionId: user.defaultSupervisorDisabled ? null : position?.reportsToPositionId || null,
+    supervisorIds,
+  };
+}
+
+const samePlacement = (a: OrgPlacement, b: OrgPlacement) =>
+  a.departmentId === b.departmentId &&
+  a.positionId === b.positionId &&
+  a.userId === b.userId &&
+  a.officeId === b.officeId &&
+  a.reportsToPositionId === b.reportsToPositionId &&
+  a.supervisorIds.join() === b.supervisorIds.join();
+
+// A user's role assignment, placement and overrides; users with no role from
+// any of them get the server's default for their account type
+export interface UserAccess {
+  email: string;
+  roleId: string | null;
+  placement: OrgPlacement;
+  overrides: Record<string, boolean>; // permission id -> granted (true) / revoked (false)
+}
+
+export type OrgUnitType = 'department' | 'position';
+
+// Role ids attached to departments and positions, by unit id
+export interface OrgRoles {
+  departments: Record<string, string>;
+  positions: Record<string, string>;
 }
 
-interface RolesStore {
+// A role contributing to a user's permissions and why they hold it (matches the server)
+export interface RoleSource {
+  source: 'assigned' | 'position' | 'department' | 'default';
+  roleId: string;
+  unitId?: string;
+}
+
+// One permission in a user's effective permissions explainer
+export interface EffectivePermission {
+  permission: Permission;
+  granted: boolean;
+  // Roles granting it, before overrides
+  sources: RoleSource[];
+  override: boolean | null;
+}
+
+interface RolesState {
   roles: Role[];
   permissions: Permission[];
-  addRole: (name: string, description: string) => void;
-  updateRole: (id: string, updates: Partial<Omit<Role, 'id' | 'isSystem'>>) => void;
+  userAccess: Record<string, UserAccess>; // By lower-cased email
+  orgRoles: OrgRoles;
+  isLoading: boolean;
+  // True once the first fetch from the server has completed
+  isSynced: boolean;
+  error: string | null;
+}
+
+interface RolesStore extends RolesState {
+  fetchAll: () => Promise<void>;
+  syncWithServer: () => Promise<void>;
+  addRole: (name: string, description: string) => Role;
+  updateRole: (id: string, updates: Partial<Omit<Role, 'id' | 'isSystem' | 'userCount' | 'unitCount'>>) => void;
   deleteRole: (id: string) => void;
   setRolePermissions: (roleId: string, permissionIds: string[]) => void;
   toggleRolePermission: (roleId: string, permissionId: string) => void;
   getRolePermissions: (roleId: string) => Permission[];
   hasPermission: (roleId: string, permissionId: string) => boolean;
   resetToDefaults: () => void;
+
+  // Per-user access
+  getUserAccess: (email: string) => UserAccess;
+  setUserRole: (email: string, roleId: string | null) => void;
+  setUserOverride: (email: string, permissionId: string, granted: boolean | null) => void;
+  syncPlacements: (users: User[]) => void;
+  getUserRoleSources: (email: string, fallbackRoleId?: string) => RoleSource[];
+  explainUserPermissions: (email: string, fallbackRoleId?: string) => EffectivePermission[];
+  getUserPermissions: (email: string, fallbackRoleId?: string) => string[];
+
+  // Department and position roles
+  setUnitRole: (unitType: OrgUnitType, unitId: string, roleId: string | null) => void;
 }
 
+// Roles edited before server persistence (zustand persist key)
+const LEGACY_STORAGE_KEY = 'sg-portal-roles';
+
+// Role of users with no assignment and no admin account (matches the server)
+export const DEFAULT_ROLE_ID = 'role-viewer';
+
 const generateId = () => Math.random().toString(36).substring(2, 11);
 
+const userPath = (email: string) => `/roles/users/${encodeURIComponent(email.toLowerCase())}`;
+
 // Default permissions organized by category
 const defaultPermissions: Permission[] = [
   // Dashboard
@@ -42,11 +176,27 @@ const defaultPermissions: Permission[] = [
   { id: 'customers:edit', name: 'Edit Customers', description: 'Modify customer information', category: 'Customers' },
   { id: 'customers:delete', name: 'Delete Customers', description: 'Remove customers', category: 'Customers' },
   
+  // Sales
+  { id: 'sales:view', name: 'View Sales', description: 'View leads and deals', category: 'Sales' },
+  { id: 'sales:create', name: 'Create Leads & Deals', description: 'Add new leads and deals', category: 'Sales' },
+  { id: 'sales:edit', name: 'Edit Leads & Deals', description: 'Modify, convert and close leads and deals', category: 'Sales' },
+  { id: 'sales:delete', name: 'Delete Leads & Deals', description: 'Remove leads and deals', category: 'Sales' },
+  
   // Projects
   { id: 'projects:view', name: 'View Projects', description: 'View project list and details', category: 'Projects' },
   { id: 'projects:create', name: 'Create Projects', description: 'Create new projects', category: 'Projects' },
   { id: 'projects:edit', name: 'Edit Projects', description: 'Modify project information', category: 'Projects' },
   { id: 'projects:delete', name: 'Delete Projects', description: 'Remove projects', category: 'Projects' },
+  { id: 'projects:costs', name: 'Job Costing', description: 'View and record budgets, commitments and costs on projects', category: 'Projects' },
+  { id: 'projects:time', name: 'Track Time', description: 'Record hours against projects and submit weekly timesheets', category: 'Projects' },
+  { id: 'projects:timesheets', name: 'Approve Timesheets', description: 'Approve or reject the timesheets of people who report to them', category: 'Projects' },
+  { id: 'projects:change_orders', name: 'Approve Change Orders', description: 'Approve or reject project change orders', category: 'Projects' },
+  
+  // Tasks
+  { id: 'tasks:view', name: 'View Tasks', description: 'View tasks and the task calendar', category: 'Tasks' },
+  { id: 'tasks:create', name: 'Create Tasks', description: 'Add new tasks', category: 'Tasks' },
+  { id: 'tasks:edit', name: 'Edit Tasks', description: 'Modify, complete and reassign tasks', category: 'Tasks' },
+  { id: 'tasks:delete', name: 'Delete Tasks', description: 'Remove tasks', category: 'Tasks' },
   
   // Estimating
   { id: 'estimating:view', name: 'View Estimates', description: 'View estimate list and details', category: 'Estimating' },
@@ -54,6 +204,7 @@ const defaultPermissions: Permission[] = [
   { id: 'estimating:edit', name: 'Edit Estimates', description: 'Modify estimates', category: 'Estimating' },
   { id: 'estimating:delete', name: 'Delete Estimates', description: 'Remove estimates', category: 'Estimating' },
   { id: 'estimating:approve', name: 'Approve Estimates', description: 'Approve or reject estimates', category: 'Estimating' },
+  { id: 'estimating:costs', name: 'View Costs & Margins', description: 'See unit costs, markup and margin on estimates', category: 'Estimating' },
   
   // Accounting
   { id: 'accounting:view', name: 'View Accounting', description: 'View invoices and financial data', category: 'Accounting' },
@@ -89,8 +240,10 @@ const defaultRoles: Role[] = [
     permissions: [
       'dashboard:view',
       'customers:view', 'customers:create', 'customers:edit',
-      'projects:view', 'projects:create', 'projects:edit',
-      'estimating:view', 'estimating:create', 'estimating:edit', 'estimating:approve',
+      'sales:view', 'sales:create', 'sales:edit', 'sales:delete',
+      'projects:view', 'projects:create', 'projects:edit', 'projects:costs', 'projects:time', 'projects:timesheets', 'projects:change_orders',
+      'tasks:view', 'tasks:create', 'tasks:edit', 'tasks:delete',
+      'estimating:view', 'estimating:create', 'estimating:edit', 'estimating:approve', 'estimating:costs',
       'accounting:view',
     ],
     isSystem: true,
@@ -102,7 +255,9 @@ const defaultRoles: Role[] = [
     permissions: [
       'dashboard:view',
       'customers:view',
-      'projects:view', 'projects:create', 'projects:edit',
+      'sales:view', 'sales:create', 'sales:edit',
+      'projects:view', 'projects:create', 'projects:edit', 'projects:time',
+      'tasks:view', 'tasks:create', 'tasks:edit',
       'estimating:view', 'estimating:create', 'estimating:edit',
     ],
     isSystem: false,
@@ -114,7 +269,9 @@ const defaultRoles: Role[] = [
     permissions: [
       'dashboard:view',
       'customers:view',
+      'sales:view',
       'projects:view',
+      'tasks:view',
       'estimating:view',
       'accounting:view',
     ],
@@ -123,80 +280,264 @@ const defaultRoles: Role[] = [
 ];
 
 export const useRolesStore = create<RolesStore>()(
-  persist(
-    (set, get) => ({
-      roles: defaultRoles,
-      permissions: defaultPermissions,
-
-      addRole: (name, description) => {
-        const newRole: Role = {
-          id: `role-${generateId()}`,
-          name,
-          description,
-          permissions: [],
-          isSystem: false,
-        };
-        set((state) => ({
-          roles: [...state.roles, newRole],
-        }));
-      },
+  devtools(
+    (set, get) => {
+      // On failure, surface the error and reload the server's copy
+      const persistChange = <T,>(request: () => Promise<ApiResponse<T>>, onSuccess?: (data: T) => void) =>
+        enqueueWrite(request, onSuccess, (message) => {
+          set({ error: message });
+          return get().fetchAll();
+        });
 
-      updateRole: (id, updates) => {
+      const replaceRole = (role: Role) =>
         set((state) => ({
-          roles: state.roles.map((role) =>
-            role.id === id ? { ...role, ...updates } : role
-          ),
+          roles: state.roles.map((r) => (r.id === role.id ? role : r)),
         }));
-      },
 
-      deleteRole: (id) => {
-        const role = get().roles.find((r) => r.id === id);
-        if (role?.isSystem) return; // Can't delete system roles
+      const patchUserAccess = (email: string, update: (access: UserAccess) => UserAccess) => {
+        const key = email.toLowerCase();
         set((state) => ({
-          roles: state.roles.filter((role) => role.id !== id),
+          userAccess: { ...state.userAccess, [key]: update(get().getUserAccess(key)) },
         }));
-      },
+      };
 
-      setRolePermissions: (roleId, permissionIds) => {
-        set((state) => ({
-          roles: state.roles.map((role) =>
-            role.id === roleId ? { ...role, permissions: permissionIds } : role
-          ),
-        }));
-      },
+      return {
+        // Seeded with the defaults (the server seeds the same roles) until fetched
+        roles: defaultRoles,
+        permissions: defaultPermissions,
+        userAccess: {},
+        orgRoles: { departments: {}, positions: {} },
+        isLoading: false,
+        isSynced: false,
+        error: null,
 
-      toggleRolePermission: (roleId, permissionId) => {
-        set((state) => ({
-          roles: state.roles.map((role) => {
-            if (role.id !== roleId) return role;
-            const hasPermission = role.permissions.includes(permissionId);
+        // ==================== SERVER SYNC ====================
+
+        fetchAll: async () => {
+          set({ isLoading: true, error: null });
+          try {
+            const [roles, access, orgRoles] = await Promise.all([
+              api.get<Role[]>('/roles'),
+              api.get<UserAccess[]>('/roles/users'),
+              api.get<OrgRoles>('/roles/org'),
+            ]);
+            set({
+              roles: roles.data || [],
+              userAccess: Object.fromEntries((access.data || []).map((a) => [a.email, a])),
+              orgRoles: orgRoles.data || { departments: {}, positions: {} },
+              isLoading: false,
+              isSynced: true,
+            });
+          } catch (error) {
+            set({ isLoading: false, error: errorMessage(error) });
+          }
+        },
+
+        // Import roles edited in localStorage before server persistence, then load
+        syncWithServer: async () => {
+          const legacy = readLegacyState<RolesState>(LEGACY_STORAGE_KEY);
+          if (legacy?.roles) {
+            try {
+              const server = await api.get<Role[]>('/roles');
+              const serverIds = new Set((server.data || []).map((r) => r.id));
+              for (const role of legacy.roles) {
+                const { name, description, permissions } = role;
+                if (serverIds.has(role.id)) {
+                  await api.patch(`/roles/${role.id}`, { name, description, permissions });
+                } else {
+                  await api.post('/roles', { id: role.id, name, description, permissions });
+                }
+              }
+              localStorage.removeItem(LEGACY_STORAGE_KEY);
+            } catch (error) {
+              set({ error: errorMessage(error) });
+            }
+          }
+
+          await get().fetchAll();
+        },
+
+        // ==================== ROLE ACTIONS ====================
+
+        addRole: (name, description) => {
+          const newRole: Role = {
+            id: `role-${generateId()}`,
+            name,
+            description,
+            permissions: [],
+            recordScope: 'all',
+            isSystem: false,
+            userCount: 0,
+          };
+          set((state) => ({
+            roles: [...state.roles, newRole],
+          }));
+          persistChange(() => api.post<Role>('/roles', { id: newRole.id, name, description }), replaceRole);
+          return newRole;
+        },
+
+        updateRole: (id, updates) => {
+          set((state) => ({
+            roles: state.roles.map((role) =>
+              role.id === id ? { ...role, ...updates } : role
+            ),
+          }));
+          persistChange(() => api.patch<Role>(`/roles/${id}`, updates), replaceRole);
+        },
+
+        deleteRole: (id) => {
+          const role = get().roles.find((r) => r.id === id);
+          if (role?.isSystem) return; // Can't delete system roles
+          set((state) => ({
+            roles: state.roles.filter((role) => role.id !== id),
+          }));
+          persistChange(() => api.delete(`/roles/${id}`));
+        },
+
+        setRolePermissions: (roleId, permissionIds) => {
+          get().updateRole(roleId, { permissions: permissionIds });
+        },
+
+        toggleRolePermission: (roleId, permissionId) => {
+          const role = get().roles.find((r) => r.id === roleId);
+          if (!role) return;
+          const hasPermission = role.permissions.includes(permissionId);
+          get().setRolePermissions(
+            roleId,
+            hasPermission
+              ? role.permissions.filter((p) => p !== permissionId)
+              : [...role.permissions, permissionId]
+          );
+        },
+
+        getRolePermissions: (roleId) => {
+          const role = get().roles.find((r) => r.id === roleId);
+          if (!role) return [];
+          return get().permissions.filter((p) => role.permissions.includes(p.id));
+        },
+
+        hasPermission: (roleId, permissionId) => {
+          const role = get().roles.find((r) => r.id === roleId);
+          return role?.permissions.includes(permissionId) || false;
+        },
+
+        // Restore the default roles' permissions (custom roles are left alone)
+        resetToDefaults: () => {
+          defaultRoles.forEach((role) => {
+            if (get().roles.some((r) => r.id === role.id)) {
+              get().updateRole(role.id, { name: role.name, description: role.description, permissions: role.permissions });
+            }
+          });
+        },
+
+        // ==================== USER ACCESS ====================
+
+        getUserAccess: (email) => {
+          const key = email.toLowerCase();
+          return get().userAccess[key] || {
+            email: key,
+            roleId: null,
+            placement: EMPTY_PLACEMENT,
+            overrides: {},
+          };
+        },
+
+        setUserRole: (email, roleId) => {
+          patchUserAccess(email, (access) => ({ ...access, roleId }));
+          persistChange(() => api.put(userPath(email), { roleId }));
+        },
+
+        setUserOverride: (email, permissionId, granted) => {
+          patchUserAccess(email, (access) => {
+            const overrides = { ...access.overrides };
+            if (granted === null) {
+              delete overrides[permissionId];
+            } else {
+              overrides[permissionId] = granted;
+            }
+            return { ...access, overrides };
+          });
+          persistChange(() => api.put(userPath(email), { overrides: { [permissionId]: granted } }));
+        },
+
+        // Push placement changes made in the users and fields stores; only users
+        // whose placement differs from the server's are sent
+        syncPlacements: (users) => {
+          users.forEach((user) => {
+            if (!user.email) return;
+            const placement = placementFor(user);
+            if (samePlacement(get().getUserAccess(user.email).placement, placement)) return;
+            patchUserAccess(user.email, (access) => ({ ...access, placement }));
+            persistChange(() => api.put(userPath(user.email), { placement }));
+          });
+        },
+
+        // Roles the user holds, in the server's order: assignment, position,
+        // department, else the fallback
+        getUserRoleSources: (email, fallbackRoleId = DEFAULT_ROLE_ID) => {
+          const { roleId, placement } = get().getUserAccess(email);
+          const { departments, positions } = get().orgRoles;
+          const sources: RoleSource[] = [];
+          if (roleId) {
+            sources.push({ source: 'assigned', roleId });
+          }
+          const positionRoleId = placement.positionId ? positions[placement.positionId] : undefined;
+          if (positionRoleId && placement.positionId) {
+            sources.push({ source: 'position', roleId: positionRoleId, unitId: placement.positionId });
+          }
+          const departmentRoleId = placement.departmentId ? departments[placement.departmentId] : undefined;
+          if (departmentRoleId && placement.departmentId) {
+            sources.push({ source: 'department', roleId: departmentRoleId, unitId: placement.departmentId });
+          }
+          if (sources.length === 0) {
+            sources.push({ source: 'default', roleId: fallbackRoleId });
+          }
+          return sources;
+        },
+
+        // Every permission with the roles granting it and any override
+        explainUserPermissions: (email, fallbackRoleId) => {
+          const { overrides } = get().getUserAccess(email);
+          const sources = get().getUserRoleSources(email, fallbackRoleId);
+          const roles = get().roles;
+          return get().permissions.map((permission) => {
+            const granting = sources.filter((source) =>
+              roles.find((r) => r.id === source.roleId)?.permissions.includes(permission.id)
+            );
+            const override = overrides[permission.id] ?? null;
             return {
-              ...role,
-              permissions: hasPermission
-                ? role.permissions.filter((p) => p !== permissionId)
-                : [...role.permissions, permissionId],
+              permission,
+              granted: override ?? granting.length > 0,
+              sources: granting,
+              override,
             };
-          }),
-        }));
-      },
-
-      getRolePermissions: (roleId) => {
-        const role = get().roles.find((r) => r.id === roleId);
-        if (!role) return [];
-        return get().permissions.filter((p) => role.permissions.includes(p.id));
-      },
-
-      hasPermission: (roleId, permissionId) => {
-        const role = get().roles.find((r) => r.id === roleId);
-        return role?.permissions.includes(permissionId) || false;
-      },
-
-      resetToDefaults: () => {
-        set({ roles: defaultRoles, permissions: defaultPermissions });
-      },
-    }),
-    {
-      name: 'sg-portal-roles',
-    }
+          });
+        },
+
+        // Union of the user's roles with their overrides applied (same rule as the server)
+        getUserPermissions: (email, fallbackRoleId) =>
+          get()
+            .explainUserPermissions(email, fallbackRoleId)
+            .filter((p) => p.granted)
+            .map((p) => p.permission.id),
+
+        // ==================== ORG ROLES ====================
+
+        setUnitRole: (unitType, unitId, roleId) => {
+          const key = unitType === 'department' ? 'departments' : 'positions';
+          set((state) => {
+            const units = { ...state.orgRoles[key] };
+            if (roleId) {
+              units[unitId] = roleId;
+            } else {
+              delete units[unitId];
+            }
+            return { orgRoles: { ...state.orgRoles, [key]: units } };
+          });
+          persistChange(() => api.put(`/roles/org/${unitType}/${encodeURIComponent(unitId)}`, { roleId }));
+        },
+      };
+    },
+    { name: 'RolesStore' }
   )
-);
\ No newline at end of file
+);
@@ -5,14 +5,25 @@
 // Manages the sales pipeline with:
 // - Leads: Initial sales opportunities (Job Site Lead, Company Lead)
 // - Deals: Qualified opportunities with value tracking
-// - Soft delete with 30-day retention
+// - Soft delete with 30-day retention (purged server-side)
 // - Lead → Deal conversion
 // - Won/Lost deal tracking
+// - Backed by /api/leads and /api/deals; this store is a cache
 // ============================================================================
 
 import { create } from 'zustand';
-import { devtools, persist } from 'zustand/middleware';
+import { devtools } from 'zustand/middleware';
 import { registerUserDependency } from './userDependencyRegistry';
+import { remapLegacyTaskLinks } from './taskStore';
+import { api, type ApiResponse } from '@/services/api/client';
+import {
+  FETCH_ALL_LIMIT,
+  enqueueWrite,
+  errorMessage,
+  readLegacyState,
+  updateLegacyState,
+  remapId,
+} from '@/services/api/sync';
 
 // ============================================================================
 // Types
@@ -114,8 +125,6 @@ export interface DealInput {
 // Helper Functions
 // ============================================================================
 
-const generateId = () => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
 const generateSlug = (name: string, existingItems: { slug?: string }[]): string => {
   const baseSlug = name
     .toLowerCase()
@@ -135,14 +144,60 @@ const generateSlug = (name: string, existingItems: { slug?: string }[]): string
   return `${baseSlug}-${counter}`;
 };
 
+// Days a soft-deleted deal is kept before the server purges it
+export const DELETED_DEAL_RETENTION_DAYS = 30;
+
 // Check if a deleted item should be permanently removed (30 days)
 const shouldPermanentlyDelete = (deletedAt: string): boolean => {
   const deletedDate = new Date(deletedAt);
   const now = new Date();
   const daysDiff = (now.getTime() - deletedDate.getTime()) / (1000 * 60 * 60 * 24);
-  return daysDiff >= 30;
+  return daysDiff >= DELETED_DEAL_RETENTION_DAYS;
+};
+
+// Build a PATCH body from the fields present in `input`.
+// Fields explicitly set to undefined are sent as null so the server clears them.
+const toUpdatePayload = (input: object): Record<string, unknown> => {
+  const payload: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    payload[key] = value === undefined ? null : value;
+  }
+  return payload;
 };
 
+// ============================================================================
+// Legacy localStorage import
+// ============================================================================
+
+// Key the store used when leads/deals lived only in localStorage
+const LEGACY_STORAGE_KEY = 'sg-portal-sales';
+
+interface ImportResult {
+  idMap: Record<string, string>;
+}
+
+/**
+ * Point legacy leads/deals at the server ids of their companies/contacts.
+ * Called by the clients store after it imports its own localStorage data,
+ * before this store imports leads and deals.
+ */
+export function remapLegacySalesLinks(
+  companyIds: Record<string, string>,
+  contactIds: Record<string, string>
+): void {
+  const remapLinks = <T extends SalesEntityBase>(item: T): T => ({
+    ...item,
+    companyId: remapId(item.companyId, companyIds),
+    contactId: remapId(item.contactId, contactIds),
+  });
+
+  updateLegacyState<SalesState>(LEGACY_STORAGE_KEY, (state) => ({
+    ...state,
+    leads: state.leads?.map(remapLinks),
+    deals: state.deals?.map(remapLinks),
+  }));
+}
+
 // ============================================================================
 // Store State & Actions
 // ============================================================================
@@ -150,9 +205,17 @@ const shouldPermanentlyDelete = (deletedAt: string): boolean => {
 interface SalesState {
   leads: Lead[];
   deals: Deal[];
+  isLoading: boolean;
+  // True once the first fetch from the server has completed
+  isSynced: boolean;
+  error: string | null;
 }
 
 interface SalesActions {
+  // Server sync
+  fetchAll: () => Promise<void>;
+  syncWithServer: () => Promise<void>;
+
   // Lead actions
   createLead: (input: LeadInput) => Lead;
   updateLead: (id: string, input: Partial<LeadInput>) => void;
@@ -188,7 +251,7 @@ interface SalesActions {
   convertLeadToDeal: (leadId: string, dealInput: Partial<DealInput>) => Deal;
   
   // Cleanup
-  cleanupDeletedDeals: () => void; // Remove deals deleted > 30 days ago
+  cleanupDeletedDeals: () => void; // Drop cached deals the server has purged (deleted > 30 days ago)
   
   // Bulk operations
   reassignLeadsByOwner: (oldOwnerId: string, newOwnerId: string, newOwnerName: string) => void;
@@ -201,13 +264,93 @@ export type SalesStore = SalesState & SalesActions;
 // Store Implementation
 // ============================================================================
 
+// Leads and deals live on the server (/api/leads, /api/deals). This store is a
+// cache: actions update it optimistically and send the change in the background.
 export const useSalesStore = create<SalesStore>()(
   devtools(
-    persist(
-      (set, get) => ({
-        // Initial state - empty
+    (set, get) => {
+      // On failure, surface the error and reload the server's copy
+      const persistChange = <T,>(request: () => Promise<ApiResponse<T>>, onSuccess?: (data: T) => void) =>
+        enqueueWrite(request, onSuccess, (message) => {
+          set({ error: message });
+          return get().fetchAll();
+        });
+
+      const replaceLead = (lead: Lead) =>
+        set((state) => ({
+          leads: state.leads.map((l) => (l.id === lead.id ? lead : l)),
+        }));
+
+      const replaceDeal = (deal: Deal) =>
+        set((state) => ({
+          deals: state.deals.map((d) => (d.id === deal.id ? deal : d)),
+        }));
+
+      const patchDeal = (id: string, changes: Partial<Deal>) =>
+        set((state) => ({
+          deals: state.deals.map((deal) =>
+            deal.id === id
+              ? { ...deal, ...changes, updatedAt: new Date().toISOString() }
+              : deal
+          ),
+        }));
+
+      return {
+        // Initial state - empty until fetched
         leads: [],
         deals: [],
+        isLoading: false,
+        isSynced: false,
+        error: null,
+
+        // ==================== SERVER SYNC ====================
+
+        fetchAll: async () => {
+          set({ isLoading: true, error: null });
+          try {
+            const [leads, deals] = await Promise.all([
+              api.get<Lead[]>('/leads', { limit: FETCH_ALL_LIMIT }),
+              api.get<Deal[]>('/deals', { limit: FETCH_ALL_LIMIT, deleted: 'include' }),
+            ]);
+            set({
+              leads: leads.data || [],
+              deals: deals.data || [],
+              isLoading: false,
+              isSynced: true,
+            });
+          } catch (error) {
+            set({ isLoading: false, error: errorMessage(error) });
+          }
+        },
+
+        // Import anything left in localStorage from before server persistence, then load.
+        // Run after the clients store sync so company/contact ids are already remapped.
+        syncWithServer: async () => {
+          const legacy = readLegacyState<SalesState>(LEGACY_STORAGE_KEY);
+          if (legacy) {
+            try {
+              const leads = legacy.leads || [];
+              const deals = legacy.deals || [];
+              let leadIds: Record<string, string> = {};
+              let dealIds: Record<string, string> = {};
+
+              if (leads.length > 0) {
+                const result = await api.post<ImportResult>('/leads/import', { leads });
+                leadIds = result.data?.idMap || {};
+              }
+              if (deals.length > 0) {
+                const result = await api.post<ImportResult>('/deals/import', { deals });
+                dealIds = result.data?.idMap || {};
+              }
+              remapLegacyTaskLinks({ lead: leadIds, deal: dealIds });
+              localStorage.removeItem(LEGACY_STORAGE_KEY);
+            } catch (error) {
+              set({ error: errorMessage(error) });
+            }
+          }
+
+          await get().fetchAll();
+        },
 
         // ==================== LEAD ACTIONS ====================
 
@@ -216,7 +359,7 @@ export const useSalesStore = create<SalesStore>()(
           const now = new Date().toISOString();
           
           const newLead: Lead = {
-            id: `lead-${generateId()}`,
+            id: crypto.randomUUID(),
             slug: generateSlug(input.name, state.leads),
             name: input.name,
             companyId: input.companyId,
@@ -239,6 +382,7 @@ export const useSalesStore = create<SalesStore>()(
             leads: [...state.leads, newLead],
           }));
 
+          persistChange(() => api.post<Lead>('/leads', { id: newLead.id, ...input }), replaceLead);
           return newLead;
         },
 
@@ -258,12 +402,16 @@ export const useSalesStore = create<SalesStore>()(
                 : lead
             ),
           }));
+
+          persistChange(() => api.patch<Lead>(`/leads/${id}`, toUpdatePayload(input)), replaceLead);
         },
 
         deleteLead: (id) => {
           set((state) => ({
             leads: state.leads.filter((lead) => lead.id !== id),
           }));
+
+          persistChange(() => api.delete(`/leads/${id}`));
         },
 
         getLeadById: (id) => {
@@ -293,7 +441,7 @@ export const useSalesStore = create<SalesStore>()(
           const now = new Date().toISOString();
 
           const newDeal: Deal = {
-            id: `deal-${generateId()}`,
+            id: crypto.randomUUID(),
             slug: generateSlug(input.name, state.deals),
             name: input.name,
             companyId: input.companyId,
@@ -319,6 +467,7 @@ export const useSalesStore = create<SalesStore>()(
             deals: [...state.deals, newDeal],
           }));
 
+          persistChange(() => api.post<Deal>('/deals', { id: newDeal.id, ...input }), replaceDeal);
           return newDeal;
         },
 
@@ -338,41 +487,27 @@ export const useSalesStore = create<SalesStore>()(
                 : deal
             ),
           }));
+
+          persistChange(() => api.patch<Deal>(`/deals/${id}`, toUpdatePayload(input)), replaceDeal);
         },
 
         deleteDeal: (id) => {
           // Soft delete - set deletedAt timestamp
-          set((state) => ({
-            deals: state.deals.map((deal) =>
-              deal.id === id
-                ? {
-                    ...deal,
-                    deletedAt: new Date().toISOString(),
-                    updatedAt: new Date().toISOString(),
-                  }
-                : deal
-            ),
-          }));
+          patchDeal(id, { deletedAt: new Date().toISOString() });
+          persistChange(() => api.delete<Deal>(`/deals/${id}`), replaceDeal);
         },
 
         permanentlyDeleteDeal: (id) => {
           set((state) => ({
             deals: state.deals.filter((deal) => deal.id !== id),
           }));
+
+          persistChange(() => api.delete(`/deals/${id}/permanent`));
         },
 
         restoreDeal: (id) => {
-          set((state) => ({
-            deals: state.deals.map((deal) =>
-              deal.id === id
-                ? {
-                    ...deal,
-                    deletedAt: undefined,
-                    updatedAt: new Date().toISOString(),
-                  }
-                : deal
-            ),
-          }));
+          patchDeal(id, { deletedAt: undefined });
+          persistChange(() => api.post<Deal>(`/deals/${id}/restore`), replaceDeal);
         },
 
         getDealById: (id) => {
@@ -414,51 +549,33 @@ export const useSalesStore = create<SalesStore>()(
         // ==================== DEAL STATUS ACTIONS ====================
 
         markDealWon: (id) => {
-          set((state) => ({
-            deals: state.deals.map((deal) =>
-              deal.id === id
-                ? {
-                    ...deal,
-                    status: 'won' as DealStatus,
-                    wonAt: new Date().toISOString(),
-                    updatedAt: new Date().toISOString(),
-                  }
-                : deal
-            ),
-          }));
+          patchDeal(id, {
+            status: 'won',
+            wonAt: new Date().toISOString(),
+            lostAt: undefined,
+            lostReason: undefined,
+          });
+          persistChange(() => api.post<Deal>(`/deals/${id}/won`), replaceDeal);
         },
 
         markDealLost: (id, reason) => {
-          set((state) => ({
-            deals: state.deals.map((deal) =>
-              deal.id === id
-                ? {
-                    ...deal,
-                    status: 'lost' as DealStatus,
-                    lostAt: new Date().toISOString(),
-                    lostReason: reason,
-                    updatedAt: new Date().toISOString(),
-                  }
-                : deal
-            ),
-          }));
+          patchDeal(id, {
+            status: 'lost',
+            lostAt: new Date().toISOString(),
+            lostReason: reason,
+            wonAt: undefined,
+          });
+          persistChange(() => api.post<Deal>(`/deals/${id}/lost`, { reason }), replaceDeal);
         },
 
         reopenDeal: (id) => {
-          set((state) => ({
-            deals: state.deals.map((deal) =>
-              deal.id === id
-                ? {
-                    ...deal,
-                    status: 'active' as DealStatus,
-                    wonAt: undefined,
-                    lostAt: undefined,
-                    lostReason: undefined,
-                    updatedAt: new Date().toISOString(),
-                  }
-                : deal
-            ),
-          }));
+          patchDeal(id, {
+            status: 'active',
+            wonAt: undefined,
+            lostAt: undefined,
+            lostReason: undefined,
+          });
+          persistChange(() => api.post<Deal>(`/deals/${id}/reopen`), replaceDeal);
         },
 
         // ==================== CONVERSION ====================
@@ -475,7 +592,7 @@ export const useSalesStore = create<SalesStore>()(
 
           // Create deal from lead data
           const newDeal: Deal = {
-            id: `deal-${generateId()}`,
+            id: crypto.randomUUID(),
             slug: generateSlug(lead.name, state.deals),
             name: dealInput.name || lead.name,
             companyId: dealInput.companyId ?? lead.companyId,
@@ -498,17 +615,26 @@ export const useSalesStore = create<SalesStore>()(
             updatedAt: now,
           };
 
-          // Update lead as converted and delete it
+          // Converted leads drop out of the pipeline (the server keeps them for history)
           set((state) => ({
-            leads: state.leads.filter((l) => l.id !== leadId), // Delete lead
+            leads: state.leads.filter((l) => l.id !== leadId),
             deals: [...state.deals, newDeal],
           }));
 
+          persistChange(
+            () =>
+              api.post<{ lead: Lead; deal: Deal }>(`/leads/${leadId}/convert`, {
+                ...dealInput,
+                dealId: newDeal.id,
+              }),
+            (result) => replaceDeal(result.deal)
+          );
           return newDeal;
         },
 
         // ==================== CLEANUP ====================
 
+        // The server purges expired deals on a schedule; this drops them from the cache
         cleanupDeletedDeals: () => {
           set((state) => ({
             deals: state.deals.filter((deal) => {
@@ -533,12 +659,20 @@ export const useSalesStore = create<SalesStore>()(
                 : lead
             ),
           }));
+
+          persistChange(() =>
+            api.post('/leads/reassign', {
+              fromOwnerId: oldOwnerId,
+              toOwnerId: newOwnerId,
+              toOwnerName: newOwnerName,
+            })
+          );
         },
 
         reassignDealsByOwner: (oldOwnerId, newOwnerId, newOwnerName) => {
           set((state) => ({
             deals: state.deals.map((deal) =>
-              deal.ownerId === oldOwnerId
+              deal.ownerId === oldOwnerId && !deal.deletedAt
                 ? {
                     ...deal,
                     ownerId: newOwnerId,
@@ -548,13 +682,17 @@ export const useSalesStore = create<SalesStore>()(
                 : deal
             ),
           }));
+
+          persistChange(() =>
+            api.post('/deals/reassign', {
+              fromOwnerId: oldOwnerId,
+              toOwnerId: newOwnerId,
+              toOwnerName: newOwnerName,
+            })
+          );
         },
-      }),
-      {
-        name: 'sg-portal-sales',
-        version: 1,
-      }
-    ),
+      };
+    },
     { name: 'SalesStore' }
   )
 );
@@ -1,5 +1,13 @@
 import { create } from 'zustand';
-import { devtools, persist } from 'zustand/middleware';
+import { devtools } from 'zustand/middleware';
+import { api } from '@/services/api/client';
+import {
+  FETCH_ALL_LIMIT,
+  errorMessage,
+  readLegacyState,
+  updateLegacyState,
+  remapId,
+} from '@/services/api/sync';
 
 // Task Types - now managed by taskTypesStore, but we keep string type for flexibility
 export type TaskType = string;
@@ -71,6 +79,7 @@ interface TaskState {
 
 interface TaskActions {
   fetchTasks: () => Promise<void>;
+  syncWithServer: () => Promise<void>;
   createTask: (input: TaskInput) => Promise<Task>;
   updateTask: (id: string, input: Partial<TaskInput>) => Promise<Task>;
   deleteTask: (id: string) => Promise<void>;
@@ -81,10 +90,47 @@ interface TaskActions {
   getTasksByEntityType: (entityTypes: LinkedEntityType[]) => Task[];
 }
 
+// Key the store used when tasks lived only in localStorage
+const LEGACY_STORAGE_KEY = 'task-storage';
+
+/**
+ * Point legacy tasks at the server ids of the records they link to.
+ * Called by the clients and sales stores after importing their own localStorage
+ * data, before this store imports tasks.
+ */
+export function remapLegacyTaskLinks(idMaps: Partial<Record<LinkedEntityType, Record<string, string>>>): void {
+  const remapEntity = (entity: LinkedEntity | null): LinkedEntity | null => {
+    const map = entity && idMaps[entity.type];
+    return entity && map ? { ...entity, id: remapId(entity.id, map)! } : entity;
+  };
+
+  updateLegacyState<TaskState>(LEGACY_STORAGE_KEY, (state) => ({
+    ...state,
+    tasks: state.tasks?.map((task) => ({
+      ...task,
+      linkedContact: remapEntity(task.linkedContact),
+      linkedItem: remapEntity(task.linkedItem),
+    })),
+  }));
+}
+
+// Tasks live on the server (/api/tasks). Actions wait for the server and then
+// update the cached list with the returned task.
 export const useTaskStore = create<TaskState & TaskActions>()(
   devtools(
-    persist(
-      (set, get) => ({
+    (set, get) => {
+      const replaceTask = (task: Task) =>
+        set(state => ({
+          tasks: state.tasks.map(t => t.id === task.id ? task : t),
+        }));
+
+      // Record the error for the UI and pass it on to the caller
+      const fail = (error: unknown): never => {
+        set({ error: errorMessage(error) });
+        throw error;
+      };
+
+      return {
         tasks: [],
         isLoading: false,
         error: null,
@@ -92,44 +138,41 @@ export const useTaskStore = create<TaskState & TaskActions>()(
         fetchTasks: async () => {
           set({ isLoading: true, error: null });
           try {
-            // TODO: Replace with API call
-            // const response = await api.get('/tasks');
-            // set({ tasks: response.data, isLoading: false });
-            set({ isLoading: false });
+            const response = await api.get<Task[]>('/tasks', { limit: FETCH_ALL_LIMIT });
+            set({ tasks: response.data || [], isLoading: false });
           } catch (error) {
             set({ error: 'Failed to fetch tasks', isLoading: false });
           }
         },
 
+        // Import anything left in localStorage from before server persistence, then load.
+        // Run after the clients and sales syncs so linked ids are already remapped.
+        syncWithServer: async () => {
+          const legacy = readLegacyState<TaskState>(LEGACY_STORAGE_KEY);
+          if (legacy) {
+            try {
+              if (legacy.tasks && legacy.tasks.length > 0) {
+                await api.post('/tasks/import', { tasks: legacy.tasks });
+              }
+              localStorage.removeItem(LEGACY_STORAGE_KEY);
+            } catch (error) {
+              set({ error: errorMessage(error) });
+            }
+          }
+
+          await get().fetchTasks();
+        },
+
+        // The server records the signed-in user as the creator
         createTask: async (input: TaskInput) => {
-          // Determine primary entity (prefer contact over item for display)
-          const primaryEntity = input.linkedContact || input.linkedItem;
-          
-          const newTask: Task = {
-            id: `task-${Date.now()}`,
-            title: input.title,
-            description: input.description,
-            type: input.type,
-            status: 'todo',
-            priority: input.priority,
-            dueDate: input.dueDate,
-            dueTime: input.dueTime,
-            assignedUserId: input.assignedUserId,
-            assignedUserName: input.assignedUserName || '',
-            createdById: input.assignedUserId, // TODO: Use actual current user
-            createdByName: input.assignedUserName || '',
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-            linkedContact: input.linkedContact || null,
-            linkedItem: input.linkedItem || null,
-            primaryEntityType: primaryEntity?.type,
-            primaryEntityId: primaryEntity?.id,
-            primaryEntityName: primaryEntity?.name,
-            notes: input.notes,
-          };
-
-          set(state => ({ tasks: [...state.tasks, newTask] }));
-          return newTask;
+          try {
+            const response = await api.post<Task>('/tasks', input);
+            const newTask = response.data!;
+            set(state => ({ tasks: [...state.tasks, newTask] }));
+            return newTask;
+          } catch (error) {
+            return fail(error);
+          }
         },
 
         updateTask: async (id: string, input: Partial<TaskInput>) => {
@@ -137,57 +180,64 @@ export const useTaskStore = create<TaskState & TaskActions>()(
           const existingTask = tasks.find(t => t.id === id);
           if (!existingTask) throw new Error('Task not found');
 
-          // Recalculate primary entity if links changed
-          const linkedContact = input.linkedContact !== undefined ? input.linkedContact : existingTask.linkedContact;
-          const linkedItem = input.linkedItem !== undefined ? input.linkedItem : existingTask.linkedItem;
-          const primaryEntity = linkedContact || linkedItem;
-
-          const updatedTask: Task = {
-            ...existingTask,
-            ...input,
-            linkedContact,
-            linkedItem,
-            primaryEntityType: primaryEntity?.type,
-            primaryEntityId: primaryEntity?.id,
-            primaryEntityName: primaryEntity?.name,
-            updatedAt: new Date().toISOString(),
-          };
-
-          set(state => ({
-            tasks: state.tasks.map(t => t.id === id ? updatedTask : t),
-          }));
+          // Fields explicitly set to undefined are sent as null so the server clears them
+          const payload: Record<string, unknown> = {};
+          for (const [key, value] of Object.entries(input)) {
+            payload[key] = value === undefined ? null : value;
+          }
 
-          return updatedTask;
+          try {
+            const response = await api.patch<Task>(`/tasks/${id}`, payload);
+            const updatedTask = response.data!;
+            replaceTask(updatedTask);
+            return updatedTask;
+          } catch (error) {
+            return fail(error);
+          }
         },
 
         deleteTask: async (id: string) => {
-          set(state => ({
-            tasks: state.tasks.filter(t => t.id !== id),
-          }));
+          try {
+            await api.delete(`/tasks/${id}`);
+            set(state => ({
+              tasks: state.tasks.filter(t => t.id !== id),
+            }));
+          } catch (error) {
+            fail(error);
+          }
         },
 
         completeTask: async (id: string) => {
-          set(state => ({
-            tasks: state.tasks.map(t =>
-              t.id === id
-                ? { ...t, status: 'completed' as TaskStatus, completedAt: new Date().toISOString(), updatedAt: new Date().toISOString() }
-                : t
-            ),
-          }));
+          try {
+            const response = await api.post<Task>(`/tasks/${id}/complete`);
+            replaceTask(response.data!);
+          } catch (error) {
+            fail(error);
+          }
         },
 
         reopenTask: async (id: string) => {
-          set(state => ({
-            tasks: state.tasks.map(t =>
-              t.id === id
-                ? { ...t, status: 'todo' as TaskStatus, completedAt: undefined, updatedAt: new Date().toISOString() }
-                : t
-            ),
-          }));
+          try {
+            const response = await api.post<Task>(`/tasks/${id}/reopen`);
+            replaceTask(response.data!);
+          } catch (error) {
+            fail(error);
+          }
         },
 
         // When a contact/company is reassigned to a new user, reassign all their tasks too
         reassignTasksByEntity: async (entityType: LinkedEntityType, entityId: string, newUserId: string, newUserName: string) => {
+          try {
+            await api.post('/tasks/reassign', {
+              entityType,
+              entityId,
+              toUserId: newUserId,
+              toUserName: newUserName,
+            });
+          } catch (error) {
+            fail(error);
+          }
+
           set(state => ({
             tasks: state.tasks.map(task => {
               // Check if this task is linked to the entity being reassigned
@@ -219,11 +269,9 @@ export const useTaskStore = create<TaskState & TaskActions>()(
             );
           });
         },
-      }),
-      {
-        name: 'task-storage',
-      }
-    )
+      };
+    },
+    { name: 'TaskStore' }
   )
 );
 
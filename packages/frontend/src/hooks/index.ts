@@ -3,6 +3,8 @@ export { useNavigationGuard } from './useNavigationGuard';
 export { useSafeNavigate } from './useSafeNavigate';
 export { useDropdownKeyboard } from './useDropdownKeyboard';
 export { useDocumentTitle } from './useDocumentTitle';
+export { usePermission, useHasPermission, userHasPermission } from './usePermission';
+export { useRecordScope } from './useRecordScope';
 export { 
   useUserDependencies, 
   useReassignUserItems, 
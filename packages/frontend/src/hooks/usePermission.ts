@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useAuthStore } from '@/contexts/authStore';
+import type { Permission, User } from '@sg-portal/shared';
+
+/**
+ * Whether a user holds a permission. Same rules as the backend's
+ * requirePermission: admins hold everything, and `category:*` covers the category.
+ */
+export function userHasPermission(user: User | null, permission: Permission): boolean {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+  const permissions = user.permissions as string[];
+  return permissions.includes(permission) || permissions.includes(`${permission.split(':')[0]}:*`);
+}
+
+// Whether the signed-in user holds a permission
+export function usePermission(permission: Permission): boolean {
+  const user = useAuthStore((state) => state.user);
+  return userHasPermission(user, permission);
+}
+
+// Checker for the signed-in user, for filtering lists of permission-gated items
+export function useHasPermission(): (permission: Permission | undefined) => boolean {
+  const user = useAuthStore((state) => state.user);
+  return useCallback(
+    (permission) => !permission || userHasPermission(user, permission),
+    [user]
+  );
+}
@@ -0,0 +1,32 @@
+import { useCallback } from 'react';
+import { useAuthStore } from '@/contexts/authStore';
+import type { RecordScope } from '@sg-portal/shared';
+
+const SCOPE_LABELS: Record<Exclude<RecordScope, 'all'>, string> = {
+  own: 'Your records',
+  team: 'You + direct reports',
+  office: 'Your office',
+};
+
+/**
+ * The signed-in user's record visibility. The server already limits which
+ * companies, contacts, leads and deals are loaded; this narrows rep/owner
+ * filter options to match and labels the scope. `label` is null when unrestricted.
+ */
+export function useRecordScope() {
+  const user = useAuthStore((state) => state.user);
+  const scope: RecordScope = user?.role === 'admin' ? 'all' : user?.recordScope ?? 'all';
+  const visibleRepIds = scope === 'all' ? null : user?.visibleRepIds ?? null;
+
+  const isRepVisible = useCallback(
+    (repId: string) => !visibleRepIds || visibleRepIds.includes(repId),
+    [visibleRepIds]
+  );
+
+  return {
+    scope,
+    visibleRepIds,
+    isRepVisible,
+    label: scope === 'all' ? null : SCOPE_LABELS[scope],
+  };
+}
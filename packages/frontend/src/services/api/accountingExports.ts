@@ -0,0 +1,121 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from './client';
+
+// Accounting export (/api/accounting/exports): invoices and payments as
+// journal entries for QuickBooks (IIF) or any package that imports a journal
+// CSV. Each export is a batch; nothing is exported twice unless its batch is
+// voided.
+
+export type ExportFormat = 'iif' | 'csv';
+
+// Names must match the chart of accounts in the bookkeeping package
+export interface AccountMapping {
+  accountsReceivable: string;
+  undepositedFunds: string;
+  salesTaxPayable: string;
+  clientCredits: string;
+  defaultRevenue: string;
+  revenueByCategory: { category: string; account: string }[];
+}
+
+export interface ExportPreview {
+  invoiceCount: number;
+  paymentCount: number;
+  creditCount: number;
+  totalAmount: number;
+}
+
+export interface ExportBatch {
+  id: string;
+  format: ExportFormat;
+  from: string;
+  to: string;
+  invoiceCount: number;
+  // Payments and credit applications
+  paymentCount: number;
+  totalAmount: number;
+  filename: string;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: string;
+  voidedAt: string | null;
+  voidedByName: string | null;
+}
+
+export interface CreateExportInput {
+  from: string;
+  to: string;
+  format: ExportFormat;
+}
+
+export const accountingExportKeys = {
+  all: ['accounting-exports'] as const,
+  batches: () => [...accountingExportKeys.all, 'batches'] as const,
+  preview: (from: string, to: string) => [...accountingExportKeys.all, 'preview', from, to] as const,
+  mapping: () => [...accountingExportKeys.all, 'mapping'] as const,
+};
+
+export function useExportBatches() {
+  return useQuery({
+    queryKey: accountingExportKeys.batches(),
+    queryFn: () => api.get<ExportBatch[]>('/accounting/exports'),
+    staleTime: 30 * 1000,
+  });
+}
+
+// What exporting the range would pick up
+export function useExportPreview(from: string, to: string) {
+  return useQuery({
+    queryKey: accountingExportKeys.preview(from, to),
+    queryFn: () => api.get<ExportPreview>('/accounting/exports/preview', { from, to }),
+    enabled: !!from && !!to && from <= to,
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useCreateExport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateExportInput) => api.post<ExportBatch>('/accounting/exports', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: accountingExportKeys.all });
+    },
+  });
+}
+
+// Voiding releases the batch's invoices and payments for the next export
+export function useVoidExport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.post<ExportBatch>(`/accounting/exports/${id}/void`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: accountingExportKeys.all });
+    },
+  });
+}
+
+export function fetchExportFile(id: string): Promise<Blob> {
+  return api.getBlob(`/accounting/exports/${id}/download`);
+}
+
+export function useAccountMapping() {
+  return useQuery({
+    queryKey: accountingExportKeys.mapping(),
+    queryFn: () => api.get<AccountMapping>('/settings/accounting-export'),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useUpdateAccountMapping() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: AccountMapping) => api.put<AccountMapping>('/settings/accounting-export', data),
+    onSuccess: (response) => {
+      queryClient.setQueryData(accountingExportKeys.mapping(), response);
+      queryClient.invalidateQueries({ queryKey: [...accountingExportKeys.all, 'preview'] });
+    },
+  });
+}
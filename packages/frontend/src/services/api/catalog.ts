@@ -0,0 +1,191 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from './client';
+
+// Line item catalog and estimate templates (/api/catalog). Picking an item
+// copies its description, unit and price onto the estimate line, so catalog
+// price changes only affect lines added afterwards.
+
+export interface CatalogItem {
+  id: string;
+  sku: string | null;
+  name: string;
+  description: string | null;
+  // Unit of measure, e.g. ea, hr, sq ft
+  unit: string;
+  unitPrice: number;
+  unitCost: number | null;
+  category: string | null;
+  // Archived items stay on templates but aren't offered for new lines
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CatalogItemInput {
+  sku?: string | null;
+  name: string;
+  description?: string | null;
+  unit: string;
+  unitPrice: number;
+  unitCost?: number | null;
+  category?: string | null;
+}
+
+export interface CatalogItemsParams {
+  search?: string;
+  category?: string;
+  includeArchived?: boolean;
+  limit?: number;
+}
+
+export interface EstimateTemplateSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  itemCount: number;
+  // At today's catalog prices
+  total: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EstimateTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  items: { catalogItem: CatalogItem; quantity: number }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EstimateTemplateInput {
+  name: string;
+  description?: string | null;
+  items: { catalogItemId: string; quantity: number }[];
+}
+
+export const catalogKeys = {
+  all: ['catalog'] as const,
+  items: (params: CatalogItemsParams) => [...catalogKeys.all, 'items', params] as const,
+  categories: () => [...catalogKeys.all, 'categories'] as const,
+  templates: () => [...catalogKeys.all, 'templates'] as const,
+  template: (id: string) => [...catalogKeys.templates(), id] as const,
+};
+
+function itemsQueryParams(params: CatalogItemsParams): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (params.search) query.search = params.search;
+  if (params.category) query.category = params.category;
+  if (params.includeArchived) query.includeArchived = 'true';
+  if (params.limit) query.limit = String(params.limit);
+  return query;
+}
+
+export function useCatalogItems(params: CatalogItemsParams = {}, enabled = true) {
+  return useQuery({
+    queryKey: catalogKeys.items(params),
+    queryFn: () => api.get<CatalogItem[]>('/catalog/items', itemsQueryParams(params)),
+    enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCatalogCategories() {
+  return useQuery({
+    queryKey: catalogKeys.categories(),
+    queryFn: () => api.get<string[]>('/catalog/categories'),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateCatalogItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CatalogItemInput) => api.post<CatalogItem>('/catalog/items', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: catalogKeys.all });
+    },
+  });
+}
+
+export function useUpdateCatalogItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CatalogItemInput> & { isActive?: boolean } }) =>
+      api.patch<CatalogItem>(`/catalog/items/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: catalogKeys.all });
+    },
+  });
+}
+
+// Items used by a template are archived rather than deleted
+export function useDeleteCatalogItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete<{ archived: boolean; message: string }>(`/catalog/items/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: catalogKeys.all });
+    },
+  });
+}
+
+export function useEstimateTemplates() {
+  return useQuery({
+    queryKey: catalogKeys.templates(),
+    queryFn: () => api.get<EstimateTemplateSummary[]>('/catalog/templates'),
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useEstimateTemplate(id: string | null) {
+  return useQuery({
+    queryKey: catalogKeys.template(id ?? ''),
+    queryFn: () => api.get<EstimateTemplate>(`/catalog/templates/${id}`),
+    enabled: !!id,
+    staleTime: 60 * 1000,
+  });
+}
+
+// For inserting a template's items into an estimate at current prices
+export async function fetchEstimateTemplate(id: string): Promise<EstimateTemplate> {
+  const response = await api.get<EstimateTemplate>(`/catalog/templates/${id}`);
+  return response.data!;
+}
+
+export function useCreateEstimateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: EstimateTemplateInput) => api.post<EstimateTemplate>('/catalog/templates', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: catalogKeys.templates() });
+    },
+  });
+}
+
+export function useUpdateEstimateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<EstimateTemplateInput> }) =>
+      api.patch<EstimateTemplate>(`/catalog/templates/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: catalogKeys.templates() });
+    },
+  });
+}
+
+export function useDeleteEstimateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/catalog/templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: catalogKeys.templates() });
+    },
+  });
+}
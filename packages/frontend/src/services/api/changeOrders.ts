@@ -0,0 +1,190 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from './client';
+import { projectKeys } from './projects';
+import { jobCostingKeys } from './jobCosting';
+import { invoiceKeys } from './invoices';
+import { progressBillingKeys } from './progressBilling';
+
+// Change orders (/api/change-orders): priced amendments to a project's
+// contract, numbered per project (CO-001) and tied to the approved estimate
+// they change. Approving one adds its cost to the project budget and its
+// price to the revised contract value; it is billed on the estimate's pay
+// applications when there are any, otherwise on an invoice of its own.
+
+export type ChangeOrderStatus = 'draft' | 'pending' | 'approved' | 'rejected';
+
+export const CHANGE_ORDER_STATUS_LABELS: Record<ChangeOrderStatus, string> = {
+  draft: 'Draft',
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export interface ChangeOrderLine {
+  id: string;
+  description: string;
+  quantity: number;
+  // Negative for work taken out of the contract
+  unitPrice: number;
+  unitCost: number | null;
+  costCodeId: string | null;
+  taxable: boolean;
+  total: number;
+}
+
+export interface ChangeOrder {
+  id: string;
+  projectId: string;
+  projectName: string;
+  estimateId: string;
+  estimateNumber: string;
+  number: number;
+  // CO-001
+  changeOrderNumber: string;
+  title: string;
+  description: string | null;
+  status: ChangeOrderStatus;
+  amount: number;
+  costImpact: number;
+  scheduleImpactDays: number;
+  decidedBy: string | null;
+  decidedByName: string | null;
+  decidedAt: string | null;
+  rejectionReason: string | null;
+  // Billed on the estimate's pay applications rather than its own invoice
+  onScheduleOfValues: boolean;
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChangeOrderWithLines extends ChangeOrder {
+  lines: ChangeOrderLine[];
+}
+
+export interface ChangeOrderLineInput {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  unitCost?: number | null;
+  costCodeId?: string | null;
+  taxable?: boolean;
+}
+
+export interface CreateChangeOrderInput {
+  projectId: string;
+  estimateId: string;
+  title: string;
+  description?: string | null;
+  scheduleImpactDays?: number;
+  lines: ChangeOrderLineInput[];
+}
+
+export type UpdateChangeOrderInput = Partial<Omit<CreateChangeOrderInput, 'projectId'>>;
+
+export const changeOrderKeys = {
+  all: ['changeOrders'] as const,
+  project: (projectId: string) => [...changeOrderKeys.all, 'project', projectId] as const,
+  detail: (id: string) => [...changeOrderKeys.all, 'detail', id] as const,
+};
+
+export function useProjectChangeOrders(projectId: string) {
+  return useQuery({
+    queryKey: changeOrderKeys.project(projectId),
+    queryFn: () => api.get<ChangeOrder[]>('/change-orders', { projectId }),
+    enabled: !!projectId,
+  });
+}
+
+export function useChangeOrder(id: string) {
+  return useQuery({
+    queryKey: changeOrderKeys.detail(id),
+    queryFn: () => api.get<ChangeOrderWithLines>(`/change-orders/${id}`),
+    enabled: !!id,
+  });
+}
+
+// Change orders move the project's contract value, and approval its budget
+// and schedule of values
+function useInvalidateChangeOrders() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: changeOrderKeys.all });
+    queryClient.invalidateQueries({ queryKey: projectKeys.all });
+    queryClient.invalidateQueries({ queryKey: jobCostingKeys.all });
+    queryClient.invalidateQueries({ queryKey: progressBillingKeys.all });
+  };
+}
+
+export function useCreateChangeOrder() {
+  const invalidate = useInvalidateChangeOrders();
+
+  return useMutation({
+    mutationFn: (data: CreateChangeOrderInput) => api.post<ChangeOrderWithLines>('/change-orders', data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateChangeOrder() {
+  const invalidate = useInvalidateChangeOrders();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateChangeOrderInput }) =>
+      api.patch<ChangeOrderWithLines>(`/change-orders/${id}`, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteChangeOrder() {
+  const invalidate = useInvalidateChangeOrders();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/change-orders/${id}`),
+    onSuccess: invalidate,
+  });
+}
+
+export function useSubmitChangeOrder() {
+  const invalidate = useInvalidateChangeOrders();
+
+  return useMutation({
+    mutationFn: (id: string) => api.post<ChangeOrderWithLines>(`/change-orders/${id}/submit`),
+    onSuccess: invalidate,
+  });
+}
+
+export function useApproveChangeOrder() {
+  const invalidate = useInvalidateChangeOrders();
+
+  return useMutation({
+    mutationFn: (id: string) => api.post<ChangeOrderWithLines>(`/change-orders/${id}/approve`),
+    onSuccess: invalidate,
+  });
+}
+
+export function useRejectChangeOrder() {
+  const invalidate = useInvalidateChangeOrders();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      api.post<ChangeOrderWithLines>(`/change-orders/${id}/reject`, { reason }),
+    onSuccess: invalidate,
+  });
+}
+
+export function useInvoiceChangeOrder() {
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidateChangeOrders();
+
+  return useMutation({
+    mutationFn: ({ id, dueDate }: { id: string; dueDate?: string }) =>
+      api.post<{ invoiceId: string; invoiceNumber: string; message: string }>(`/change-orders/${id}/invoice`, { dueDate }),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.all });
+    },
+  });
+}
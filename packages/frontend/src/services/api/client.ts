@@ -25,23 +25,30 @@ class ApiClient {
     this.baseUrl = baseUrl;
   }
 
-  private async getHeaders(): Promise<HeadersInit> {
-    const headers: HeadersInit = {
+  private async getHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
 
-    // Get token from auth store
-    const { token, azureToken } = useAuthStore.getState();
-    
-    // Prefer internal token, fall back to Azure token
-    const authToken = token || azureToken;
-    if (authToken) {
-      headers['Authorization'] = `Bearer ${authToken}`;
+    // Portal JWT (or, while signing in, the Azure AD ID token) from the auth store
+    const { token } = useAuthStore.getState();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
     }
 
     return headers;
   }
 
+  // A rejected session signs the user out. Requests made without a session
+  // just fail, and the login page is never reloaded onto itself.
+  private handleUnauthorized(headers: Record<string, string>): void {
+    if (!headers.Authorization) return;
+    useAuthStore.getState().clearAuth();
+    if (window.location.pathname !== '/login') {
+      window.location.href = '/login';
+    }
+  }
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
@@ -63,10 +70,9 @@ class ApiClient {
       if (!response.ok) {
         // Handle token expiration
         if (response.status === 401) {
-          useAuthStore.getState().clearAuth();
-          window.location.href = '/login';
+          this.handleUnauthorized(headers);
         }
-        
+
         throw new Error(data.error?.message || 'Request failed');
       }
 
@@ -84,6 +90,25 @@ class ApiClient {
     return this.request<T>(url, { method: 'GET' });
   }
 
+  // Binary responses such as generated PDFs; errors still arrive as JSON
+  async getBlob(endpoint: string, params?: Record<string, string>): Promise<Blob> {
+    const url = params
+      ? `${this.baseUrl}${endpoint}?${new URLSearchParams(params)}`
+      : `${this.baseUrl}${endpoint}`;
+    const headers = await this.getHeaders();
+    const response = await fetch(url, { headers });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        this.handleUnauthorized(headers);
+      }
+      const data: ApiResponse<never> = await response.json().catch(() => ({ success: false }));
+      throw new Error(data.error?.message || 'Request failed');
+    }
+
+    return response.blob();
+  }
+
   async post<T>(endpoint: string, body?: unknown): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, {
       method: 'POST',
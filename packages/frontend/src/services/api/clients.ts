@@ -1,58 +1,52 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from './client';
 
+// Clients are companies on the server (see /api/companies). The Customers panel
+// works with the full model through useClientsStore; these hooks cover the
+// lightweight pickers used by projects, estimates and invoices.
+export interface ClientAddress {
+  street: string;
+  suite?: string;
+  city: string;
+  state: string;
+  zip: string;
+  salesRepIds: string[];
+}
+
 export interface Client {
   id: string;
-  companyName: string;
-  contactName: string | null;
-  email: string;
+  slug?: string;
+  name: string;
   phone: string | null;
   website: string | null;
-  addressLine1: string | null;
-  addressLine2: string | null;
-  city: string | null;
-  state: string | null;
-  postalCode: string | null;
-  country: string;
+  address?: ClientAddress;
+  addresses: (ClientAddress & { id: string; label: string })[];
   notes: string | null;
+  salesRepIds: string[];
+  salesRepsByLocation: boolean;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
 export interface ClientWithStats extends Client {
-  projectCount: number;
-  estimateCount: number;
-  invoiceCount: number;
-  totalPaid: number;
-}
-
-export interface ClientsResponse {
-  clients: Client[];
-  total: number;
-  page: number;
-  limit: number;
-  totalPages: number;
+  stats: {
+    projectCount: number;
+    estimateCount: number;
+    invoiceCount: number;
+    totalPaid: number;
+  };
 }
 
 export interface CreateClientInput {
-  companyName: string;
-  contactName?: string;
-  email: string;
+  name: string;
   phone?: string;
   website?: string;
-  addressLine1?: string;
-  addressLine2?: string;
-  city?: string;
-  state?: string;
-  postalCode?: string;
-  country?: string;
   notes?: string;
+  address?: Omit<ClientAddress, 'salesRepIds'> & { salesRepIds?: string[] };
 }
 
-export interface UpdateClientInput extends Partial<CreateClientInput> {
-  isActive?: boolean;
-}
+export type UpdateClientInput = Partial<CreateClientInput>;
 
 export interface ClientsParams {
   page?: number;
@@ -76,14 +70,14 @@ export function useClients(params: ClientsParams = {}) {
   if (params.page) queryParams.set('page', String(params.page));
   if (params.limit) queryParams.set('limit', String(params.limit));
   if (params.search) queryParams.set('search', params.search);
-  if (params.active !== undefined) queryParams.set('active', String(params.active));
+  if (params.active !== undefined) queryParams.set('isActive', String(params.active));
 
   const queryString = queryParams.toString();
-  const url = `/clients${queryString ? `?${queryString}` : ''}`;
+  const url = `/companies${queryString ? `?${queryString}` : ''}`;
 
   return useQuery({
     queryKey: clientKeys.list(params),
-    queryFn: () => api.get<ClientsResponse>(url),
+    queryFn: () => api.get<Client[]>(url),
     staleTime: 30 * 1000, // 30 seconds
   });
 }
@@ -92,7 +86,7 @@ export function useClients(params: ClientsParams = {}) {
 export function useClient(id: string) {
   return useQuery({
     queryKey: clientKeys.detail(id),
-    queryFn: () => api.get<ClientWithStats>(`/clients/${id}`),
+    queryFn: () => api.get<ClientWithStats>(`/companies/${id}`),
     enabled: !!id,
     staleTime: 30 * 1000,
   });
@@ -104,7 +98,7 @@ export function useCreateClient() {
 
   return useMutation({
     mutationFn: (data: CreateClientInput) =>
-      api.post<Client>('/clients', data),
+      api.post<Client>('/companies', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: clientKeys.lists() });
     },
@@ -117,7 +111,7 @@ export function useUpdateClient() {
 
   return useMutation({
     mutationFn: ({ id, data }: { id: string; data: UpdateClientInput }) =>
-      api.patch<Client>(`/clients/${id}`, data),
+      api.patch<Client>(`/companies/${id}`, data),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: clientKeys.lists() });
       queryClient.invalidateQueries({ queryKey: clientKeys.detail(variables.id) });
@@ -130,7 +124,7 @@ export function useDeleteClient() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (id: string) => api.delete(`/clients/${id}`),
+    mutationFn: (id: string) => api.delete(`/companies/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: clientKeys.lists() });
     },
@@ -23,6 +23,13 @@ export interface DashboardStats {
     overdue: number;
     collected: number;
   };
+  // Contract values of projects that are not cancelled
+  contracts: {
+    original: number;
+    approvedChangeOrders: number;
+    pendingChangeOrders: number;
+    revised: number;
+  };
 }
 
 export interface Activity {
@@ -85,6 +92,7 @@ export function useDashboardActivity(limit = 20) {
   });
 }
 
+// Open tasks assigned to the signed-in user, soonest due first
 export function useDashboardTasks(limit = 10) {
   return useQuery({
     queryKey: ['dashboard', 'tasks', limit],
@@ -1,8 +1,29 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from './client';
+import type { DocumentTax, TaxBreakdownLine } from './tax';
 
 export type EstimateStatus = 'draft' | 'sent' | 'approved' | 'rejected' | 'expired';
 
+export type CostType = 'labor' | 'material';
+
+// Cost and margin figures are null for users without estimating:costs
+export interface LineMargin {
+  cost: number;
+  margin: number;
+  marginPercent: number | null;
+}
+
+export interface EstimateMargin {
+  // Price of the lines that have a unit cost; uncosted lines are left out
+  costedSubtotal: number;
+  cost: number;
+  laborCost: number;
+  materialCost: number;
+  margin: number;
+  marginPercent: number | null;
+  uncostedLines: number;
+}
+
 export interface EstimateLineItem {
   id: string;
   estimateId: string;
@@ -11,9 +32,19 @@ export interface EstimateLineItem {
   unitPrice: number;
   amount: number;
   sortOrder: number;
+  // Set when the line was picked from the catalog
+  catalogItemId?: string | null;
+  sku?: string | null;
+  unit?: string | null;
+  // Left out of the taxable subtotal when false
+  taxable: boolean;
+  costType?: CostType | null;
+  unitCost?: number | null;
+  markupPercent?: number | null;
+  margin?: LineMargin | null;
 }
 
-export interface Estimate {
+export interface Estimate extends DocumentTax {
   id: string;
   estimateNumber: string;
   clientId: string;
@@ -27,6 +58,9 @@ export interface Estimate {
   total: number;
   notes: string | null;
   terms: string | null;
+  letterheadId: string | null;
+  // Set when the estimate is billed by pay application instead of one invoice
+  scheduleOfValuesId?: string | null;
   createdById: string;
   createdAt: string;
   updatedAt: string;
@@ -40,6 +74,7 @@ export interface Estimate {
 
 export interface EstimateWithLineItems extends Estimate {
   lineItems: EstimateLineItem[];
+  margin?: EstimateMargin | null;
 }
 
 export interface EstimatesResponse {
@@ -55,14 +90,27 @@ export interface CreateEstimateInput {
   projectId?: string;
   issueDate?: string;
   expiryDate?: string;
+  // Left out, found from the jobsite or client address; null uses taxRate
+  taxJurisdictionId?: string | null;
   taxRate?: number;
   notes?: string;
   terms?: string;
+  // null uses the company default letterhead
+  letterheadId?: string | null;
   lineItems: {
+    id?: string;
     description: string;
     quantity: number;
     unitPrice: number;
     sortOrder?: number;
+    catalogItemId?: string | null;
+    sku?: string | null;
+    unit?: string | null;
+    taxable?: boolean;
+    // Ignored without estimating:costs; the saved line keeps its cost
+    unitCost?: number | null;
+    markupPercent?: number | null;
+    costType?: CostType | null;
   }[];
 }
 
@@ -72,24 +120,154 @@ export interface UpdateEstimateInput {
   status?: EstimateStatus;
   issueDate?: string;
   expiryDate?: string;
+  taxJurisdictionId?: string | null;
   taxRate?: number;
   notes?: string;
   terms?: string;
+  letterheadId?: string | null;
   lineItems?: {
     id?: string;
     description: string;
     quantity: number;
     unitPrice: number;
     sortOrder?: number;
+    catalogItemId?: string | null;
+    sku?: string | null;
+    unit?: string | null;
+    taxable?: boolean;
+    // Ignored without estimating:costs; the saved line keeps its cost
+    unitCost?: number | null;
+    markupPercent?: number | null;
+    costType?: CostType | null;
   }[];
 }
 
+// ---------------------------------------------------------------------------
+// Revisions and client approval
+// Sending an estimate snapshots it as the next revision (rev A, B, ...), which
+// never changes afterwards. The client approves or rejects that revision
+// through a public link; editing a sent estimate takes it back to draft.
+// ---------------------------------------------------------------------------
+
+export interface RevisionLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  taxable: boolean;
+}
+
+export interface EstimateRevision {
+  id: string;
+  revision: number;
+  label: string;
+  title: string;
+  description: string | null;
+  subtotal: number;
+  taxRate: number | null;
+  taxAmount: number;
+  taxBreakdown: TaxBreakdownLine[];
+  total: number;
+  validUntil: string | null;
+  terms: string | null;
+  letterheadId: string | null;
+  lineItems: RevisionLineItem[];
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export type ApprovalLinkStatus = 'open' | 'approved' | 'rejected' | 'revoked';
+
+export interface ApprovalLink {
+  id: string;
+  revisionId: string;
+  revisionLabel: string | null;
+  status: ApprovalLinkStatus;
+  expiresAt: string;
+  firstViewedAt: string | null;
+  signatureName: string | null;
+  decisionNote: string | null;
+  decidedAt: string | null;
+  decidedIp: string | null;
+  createdAt: string;
+}
+
+export interface EstimateRevisionHistory {
+  sentRevisionId: string | null;
+  approvedRevisionId: string | null;
+  revisions: EstimateRevision[];
+  approvalLinks: ApprovalLink[];
+}
+
+export interface LineItemChange {
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before: RevisionLineItem | null;
+  after: RevisionLineItem | null;
+}
+
+interface DiffTotals {
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+}
+
+export interface RevisionDiff {
+  from: string;
+  to: string;
+  lineItems: LineItemChange[];
+  totals: { before: DiffTotals; after: DiffTotals };
+}
+
+export interface SendEstimateResult {
+  estimateId: string;
+  status: EstimateStatus;
+  revision: EstimateRevision;
+  // False when nothing changed since the last revision sent
+  newRevision: boolean;
+  linkId: string;
+  // Only ever returned here
+  token: string;
+  expiresAt: string;
+}
+
+// What the client sees at /approve/:token
+export interface PublicEstimateApproval {
+  estimateNumber: string;
+  revisionLabel: string;
+  clientName: string | null;
+  projectName: string | null;
+  title: string;
+  description: string | null;
+  subtotal: number;
+  taxRate: number | null;
+  taxAmount: number;
+  taxBreakdown: TaxBreakdownLine[];
+  total: number;
+  validUntil: string | null;
+  terms: string | null;
+  lineItems: RevisionLineItem[];
+  sentAt: string;
+  status: ApprovalLinkStatus;
+  expiresAt: string;
+  expired: boolean;
+  signatureName: string | null;
+  decidedAt: string | null;
+}
+
+export interface ApprovalDecisionInput {
+  decision: 'approve' | 'reject';
+  signatureName: string;
+  note?: string;
+}
+
 export interface EstimatesParams {
   page?: number;
   limit?: number;
   search?: string;
   status?: EstimateStatus;
   clientId?: string;
+  projectId?: string;
 }
 
 // Query keys
@@ -99,6 +277,9 @@ export const estimateKeys = {
   list: (params: EstimatesParams) => [...estimateKeys.lists(), params] as const,
   details: () => [...estimateKeys.all, 'detail'] as const,
   detail: (id: string) => [...estimateKeys.details(), id] as const,
+  revisions: (id: string) => [...estimateKeys.detail(id), 'revisions'] as const,
+  diff: (id: string, from: string, to: string) => [...estimateKeys.revisions(id), 'diff', from, to] as const,
+  approval: (token: string) => [...estimateKeys.all, 'approval', token] as const,
 };
 
 // Get all estimates with pagination and filtering
@@ -109,6 +290,7 @@ export function useEstimates(params: EstimatesParams = {}) {
   if (params.search) queryParams.set('search', params.search);
   if (params.status) queryParams.set('status', params.status);
   if (params.clientId) queryParams.set('clientId', params.clientId);
+  if (params.projectId) queryParams.set('projectId', params.projectId);
 
   const queryString = queryParams.toString();
   const url = `/estimates${queryString ? `?${queryString}` : ''}`;
@@ -183,3 +365,88 @@ export function useConvertEstimateToInvoice() {
     },
   });
 }
+
+// Rendered PDF. `letterheadId` previews another template ('none' for plain
+// paper) without changing the estimate's own choice.
+export function fetchEstimatePdf(id: string, letterheadId?: string): Promise<Blob> {
+  return api.getBlob(`/estimates/${id}/pdf`, letterheadId ? { letterheadId } : undefined);
+}
+
+export function useEstimateRevisions(id: string | null) {
+  return useQuery({
+    queryKey: estimateKeys.revisions(id ?? ''),
+    queryFn: () => api.get<EstimateRevisionHistory>(`/estimates/${id}/revisions`),
+    enabled: !!id,
+    staleTime: 30 * 1000,
+  });
+}
+
+// `from` and `to` are revision letters, or 'current' for the unsent working copy
+export function useEstimateRevisionDiff(id: string | null, from: string, to: string) {
+  return useQuery({
+    queryKey: estimateKeys.diff(id ?? '', from, to),
+    queryFn: () => api.get<RevisionDiff>(`/estimates/${id}/revisions/diff`, { from, to }),
+    enabled: !!id && !!from && !!to && from !== to,
+    staleTime: 30 * 1000,
+  });
+}
+
+export function fetchEstimateRevisionPdf(id: string, label: string): Promise<Blob> {
+  return api.getBlob(`/estimates/${id}/revisions/${label}/pdf`);
+}
+
+// Snapshot the estimate and issue a new approval link (earlier links stop working)
+export function useSendEstimate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.post<SendEstimateResult>(`/estimates/${id}/send`),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: estimateKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: estimateKeys.detail(id) });
+    },
+  });
+}
+
+export function useRevokeApprovalLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, linkId }: { id: string; linkId: string }) =>
+      api.post(`/estimates/${id}/approval-links/${linkId}/revoke`),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: estimateKeys.revisions(variables.id) });
+    },
+  });
+}
+
+export function approvalLinkUrl(token: string): string {
+  return `${window.location.origin}/approve/${token}`;
+}
+
+// Public approval page - no sign-in, the token is the credential
+
+export function usePublicEstimateApproval(token: string) {
+  return useQuery({
+    queryKey: estimateKeys.approval(token),
+    queryFn: () => api.get<PublicEstimateApproval>(`/public/estimates/${token}`),
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+export function usePublicEstimateDecision(token: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ApprovalDecisionInput) =>
+      api.post<PublicEstimateApproval>(`/public/estimates/${token}/decision`, data),
+    onSuccess: (response) => {
+      queryClient.setQueryData(estimateKeys.approval(token), response);
+    },
+  });
+}
+
+export function fetchPublicEstimatePdf(token: string): Promise<Blob> {
+  return api.getBlob(`/public/estimates/${token}/pdf`);
+}
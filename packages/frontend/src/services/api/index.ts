@@ -8,19 +8,39 @@ export {
   type ProjectsResponse, 
   type CreateProjectInput, 
   type UpdateProjectInput, 
+  type ProjectJobsiteAddress,
   type ProjectsParams,
   type ProjectStatus,
   type ProjectPriority,
+  type ProjectPhase,
+  type ProjectSchedule,
+  type ProjectPhaseInput,
   projectKeys,
   useProjects,
   useProject,
   useCreateProject,
   useUpdateProject,
   useDeleteProject,
+  useProjectSchedule,
+  useCreatePhase,
+  useUpdatePhase,
+  useDeletePhase,
+  useAddPhaseDependency,
+  useRemovePhaseDependency,
   taskKeys,
   useCreateTask,
   useUpdateTask,
 } from './projects';
+export * from './jobCosting';
+export * from './timeTracking';
+export * from './changeOrders';
+export * from './vendors';
 export * from './estimates';
+export * from './catalog';
 export * from './invoices';
+export * from './tax';
+export * from './progressBilling';
 export * from './ai';
+export * from './mail';
+export * from './reports';
+export * from './accountingExports';
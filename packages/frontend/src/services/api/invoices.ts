@@ -1,7 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from './client';
+import type { DocumentTax } from './tax';
 
-export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'cancelled';
+
+// 'credit' payments are drawn from the client's credit balance
+export type PaymentMethod = 'check' | 'ach' | 'card' | 'cash' | 'other' | 'credit';
 
 export interface InvoiceLineItem {
   id: string;
@@ -11,9 +15,15 @@ export interface InvoiceLineItem {
   unitPrice: number;
   amount: number;
   sortOrder: number;
+  // Maps to a revenue account in accounting exports
+  category?: string | null;
+  // Left out of the taxable subtotal when false
+  taxable: boolean;
+  // Job costing compares billing with cost per cost code
+  costCodeId?: string | null;
 }
 
-export interface Invoice {
+export interface Invoice extends DocumentTax {
   id: string;
   invoiceNumber: string;
   clientId: string;
@@ -27,8 +37,12 @@ export interface Invoice {
   taxAmount: number;
   total: number;
   amountPaid: number;
+  balanceDue: number;
   notes: string | null;
   terms: string | null;
+  letterheadId: string | null;
+  // Dunning reminders are not queued while paused
+  remindersPaused: boolean;
   paidAt: string | null;
   createdById: string;
   createdAt: string;
@@ -54,6 +68,67 @@ export interface InvoiceWithLineItems extends Invoice {
   };
 }
 
+export interface Payment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  // Received beyond the balance due and credited to the client
+  overpayment: number;
+  method: PaymentMethod;
+  reference: string | null;
+  paymentDate: string;
+  notes: string | null;
+  recordedBy: string | null;
+  recordedByName?: string;
+  createdAt: string;
+}
+
+export interface InvoicePayments {
+  payments: Payment[];
+  status: InvoiceStatus;
+  total: number;
+  amountPaid: number;
+  balanceDue: number;
+  availableCredit: number;
+}
+
+export interface RecordPaymentInput {
+  amount: number;
+  method: Exclude<PaymentMethod, 'credit'>;
+  reference?: string;
+  paymentDate?: string;
+  notes?: string;
+}
+
+export type ReminderLevel = 'gentle' | 'firm' | 'final';
+
+export interface InvoiceReminder {
+  id: string;
+  // Cadence step: days after the due date
+  stepDays: number;
+  level: ReminderLevel;
+  status: 'queued' | 'sent' | 'skipped' | 'cancelled';
+  recipient: string | null;
+  subject: string;
+  body: string;
+  error: string | null;
+  sentAt: string | null;
+  sentByName?: string;
+  createdAt: string;
+}
+
+export interface InvoiceReminders {
+  paused: boolean;
+  reminders: InvoiceReminder[];
+}
+
+// Admin > Dunning; each step queues one reminder that many days past due
+export interface DunningSettings {
+  enabled: boolean;
+  autoSend: boolean;
+  steps: { days: number; level: ReminderLevel }[];
+}
+
 export interface InvoicesResponse {
   invoices: Invoice[];
   total: number;
@@ -67,32 +142,44 @@ export interface CreateInvoiceInput {
   projectId?: string;
   issueDate?: string;
   dueDate: string;
+  // Left out, found from the jobsite or client address; null uses taxRate
+  taxJurisdictionId?: string | null;
   taxRate?: number;
   notes?: string;
   terms?: string;
+  // null uses the company default letterhead
+  letterheadId?: string | null;
   lineItems: {
     description: string;
     quantity: number;
     unitPrice: number;
     sortOrder?: number;
+    category?: string;
+    taxable?: boolean;
+    costCodeId?: string | null;
   }[];
 }
 
 export interface UpdateInvoiceInput {
   clientId?: string;
   projectId?: string;
-  status?: InvoiceStatus;
+  status?: Exclude<InvoiceStatus, 'partially_paid' | 'paid'>;
   issueDate?: string;
   dueDate?: string;
+  taxJurisdictionId?: string | null;
   taxRate?: number;
   notes?: string;
   terms?: string;
+  letterheadId?: string | null;
   lineItems?: {
     id?: string;
     description: string;
     quantity: number;
     unitPrice: number;
     sortOrder?: number;
+    category?: string;
+    taxable?: boolean;
+    costCodeId?: string | null;
   }[];
 }
 
@@ -102,6 +189,7 @@ export interface InvoicesParams {
   search?: string;
   status?: InvoiceStatus;
   clientId?: string;
+  projectId?: string;
 }
 
 // Query keys
@@ -111,6 +199,9 @@ export const invoiceKeys = {
   list: (params: InvoicesParams) => [...invoiceKeys.lists(), params] as const,
   details: () => [...invoiceKeys.all, 'detail'] as const,
   detail: (id: string) => [...invoiceKeys.details(), id] as const,
+  payments: (id: string) => [...invoiceKeys.detail(id), 'payments'] as const,
+  reminders: (id: string) => [...invoiceKeys.detail(id), 'reminders'] as const,
+  dunning: () => [...invoiceKeys.all, 'dunning'] as const,
 };
 
 // Get all invoices with pagination and filtering
@@ -121,6 +212,7 @@ export function useInvoices(params: InvoicesParams = {}) {
   if (params.search) queryParams.set('search', params.search);
   if (params.status) queryParams.set('status', params.status);
   if (params.clientId) queryParams.set('clientId', params.clientId);
+  if (params.projectId) queryParams.set('projectId', params.projectId);
 
   const queryString = queryParams.toString();
   const url = `/invoices${queryString ? `?${queryString}` : ''}`;
@@ -181,17 +273,125 @@ export function useDeleteInvoice() {
   });
 }
 
-// Mark invoice as paid
+// Payments change the invoice's balance and status, and settling one updates its project
+function invalidateAfterPayment(queryClient: ReturnType<typeof useQueryClient>, id: string) {
+  queryClient.invalidateQueries({ queryKey: invoiceKeys.lists() });
+  queryClient.invalidateQueries({ queryKey: invoiceKeys.detail(id) });
+  queryClient.invalidateQueries({ queryKey: ['projects'] });
+}
+
+// Mark invoice as paid (records a payment for the balance due)
 export function useMarkInvoicePaid() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, amountPaid }: { id: string; amountPaid?: number }) =>
-      api.post<Invoice>(`/invoices/${id}/mark-paid`, { amountPaid }),
+    mutationFn: ({ id, ...data }: { id: string; paidDate?: string; method?: RecordPaymentInput['method']; reference?: string }) =>
+      api.post<Invoice>(`/invoices/${id}/mark-paid`, data),
+    onSuccess: (_, variables) => invalidateAfterPayment(queryClient, variables.id),
+  });
+}
+
+// Payment history, with the client's available credit
+export function useInvoicePayments(id: string | null) {
+  return useQuery({
+    queryKey: invoiceKeys.payments(id || ''),
+    queryFn: () => api.get<InvoicePayments>(`/invoices/${id}/payments`),
+    enabled: !!id,
+    staleTime: 30 * 1000,
+  });
+}
+
+// Record a payment; an overpayment is credited to the client
+export function useRecordPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: RecordPaymentInput }) =>
+      api.post<{ payment: Payment; status: InvoiceStatus }>(`/invoices/${id}/payments`, data),
+    onSuccess: (_, variables) => invalidateAfterPayment(queryClient, variables.id),
+  });
+}
+
+// Pay from the client's credit (as much as covers the balance when no amount is given)
+export function useApplyCredit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, amount }: { id: string; amount?: number }) =>
+      api.post<{ payment: Payment; status: InvoiceStatus }>(`/invoices/${id}/apply-credit`, { amount }),
+    onSuccess: (_, variables) => invalidateAfterPayment(queryClient, variables.id),
+  });
+}
+
+// Void a payment
+export function useVoidPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, paymentId }: { id: string; paymentId: string }) =>
+      api.delete(`/invoices/${id}/payments/${paymentId}`),
+    onSuccess: (_, variables) => invalidateAfterPayment(queryClient, variables.id),
+  });
+}
+
+// Dunning reminders for an invoice
+export function useInvoiceReminders(id: string | null) {
+  return useQuery({
+    queryKey: invoiceKeys.reminders(id || ''),
+    queryFn: () => api.get<InvoiceReminders>(`/invoices/${id}/reminders`),
+    enabled: !!id,
+    staleTime: 30 * 1000,
+  });
+}
+
+// Pause or resume reminders (pausing cancels queued ones)
+export function usePauseReminders() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, paused }: { id: string; paused: boolean }) =>
+      api.put<{ paused: boolean }>(`/invoices/${id}/reminders`, { paused }),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: invoiceKeys.lists() });
-      queryClient.invalidateQueries({ queryKey: invoiceKeys.detail(variables.id) });
-      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.reminders(variables.id) });
+    },
+  });
+}
+
+// Email a queued reminder now
+export function useSendReminder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reminderId }: { id: string; reminderId: string }) =>
+      api.post(`/invoices/${id}/reminders/${reminderId}/send`),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.reminders(variables.id) });
+    },
+  });
+}
+
+export function useDunningSettings() {
+  return useQuery({
+    queryKey: invoiceKeys.dunning(),
+    queryFn: () => api.get<DunningSettings>('/settings/dunning'),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useUpdateDunningSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: DunningSettings) => api.put<DunningSettings>('/settings/dunning', data),
+    onSuccess: (response) => {
+      queryClient.setQueryData(invoiceKeys.dunning(), response);
     },
   });
 }
+
+// Rendered PDF. `letterheadId` previews another template ('none' for plain
+// paper) without changing the invoice's own choice.
+export function fetchInvoicePdf(id: string, letterheadId?: string): Promise<Blob> {
+  return api.getBlob(`/invoices/${id}/pdf`, letterheadId ? { letterheadId } : undefined);
+}
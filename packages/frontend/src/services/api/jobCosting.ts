@@ -0,0 +1,347 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from './client';
+import { projectKeys } from './projects';
+
+// Job costing (/api/job-costing): cost codes, and per project the budget,
+// commitments (subcontracts and POs) and actual costs, reported against
+// what has been billed. A project's spent total is the sum of its costs.
+
+export type JobCostType = 'labor' | 'material' | 'equipment' | 'subcontractor' | 'other';
+export type CommitmentType = 'subcontract' | 'purchase_order';
+export type CommitmentStatus = 'open' | 'closed' | 'void';
+
+export const JOB_COST_TYPE_LABELS: Record<JobCostType, string> = {
+  labor: 'Labor',
+  material: 'Material',
+  equipment: 'Equipment',
+  subcontractor: 'Subcontractor',
+  other: 'Other',
+};
+
+export interface CostCode {
+  id: string;
+  code: string;
+  name: string;
+  // Estimate lines of this type are budgeted to the code
+  costType: JobCostType;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CostCodeInput {
+  code: string;
+  name: string;
+  costType: JobCostType;
+}
+
+export interface BudgetLine {
+  id: string;
+  costCodeId: string;
+  costCode: string;
+  costCodeName: string;
+  description: string;
+  amount: number;
+  // Set when seeded from an estimate
+  estimateId: string | null;
+  estimateNumber: string | null;
+  // Set when added by an approved change order
+  changeOrderId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BudgetLineInput {
+  costCodeId: string;
+  description: string;
+  amount: number;
+}
+
+export interface Commitment {
+  id: string;
+  costCodeId: string;
+  costCode: string;
+  costCodeName: string;
+  commitmentType: CommitmentType;
+  reference: string | null;
+  vendorId: string | null;
+  vendorName: string | null;
+  description: string;
+  amount: number;
+  // Actual cost entered against it so far
+  spent: number;
+  status: CommitmentStatus;
+  issuedDate: string;
+  createdByName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommitmentInput {
+  costCodeId: string;
+  commitmentType: CommitmentType;
+  reference?: string | null;
+  vendorId?: string | null;
+  description: string;
+  amount: number;
+  issuedDate?: string;
+}
+
+export interface CostEntry {
+  id: string;
+  costCodeId: string;
+  costCode: string;
+  costCodeName: string;
+  costType: JobCostType;
+  entryDate: string;
+  description: string;
+  // Negative for credits and returns
+  amount: number;
+  vendorId: string | null;
+  vendorName: string | null;
+  commitmentId: string | null;
+  commitmentReference: string | null;
+  reference: string | null;
+  createdByName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CostEntryInput {
+  costCodeId: string;
+  costType: JobCostType;
+  entryDate?: string;
+  description: string;
+  amount: number;
+  vendorId?: string | null;
+  commitmentId?: string | null;
+  reference?: string | null;
+}
+
+export interface JobCostTotals {
+  budget: number;
+  committed: number;
+  actual: number;
+  // Open commitments not yet spent against
+  uncommitted: number;
+  // Actual plus open commitments
+  projected: number;
+  // Budget less projected; negative is over budget
+  variance: number;
+  billed: number;
+}
+
+export interface JobCostRow extends JobCostTotals {
+  // null for billing not coded to a cost code
+  costCodeId: string | null;
+  code: string | null;
+  name: string;
+}
+
+export interface JobCostReport {
+  rows: JobCostRow[];
+  totals: JobCostTotals;
+}
+
+export const jobCostingKeys = {
+  all: ['job-costing'] as const,
+  costCodes: (includeInactive: boolean) => [...jobCostingKeys.all, 'cost-codes', { includeInactive }] as const,
+  project: (projectId: string) => [...jobCostingKeys.all, 'project', projectId] as const,
+  report: (projectId: string) => [...jobCostingKeys.project(projectId), 'report'] as const,
+  budget: (projectId: string) => [...jobCostingKeys.project(projectId), 'budget'] as const,
+  commitments: (projectId: string) => [...jobCostingKeys.project(projectId), 'commitments'] as const,
+  costs: (projectId: string) => [...jobCostingKeys.project(projectId), 'costs'] as const,
+};
+
+// ============================================================================
+// Cost codes
+// ============================================================================
+
+export function useCostCodes(includeInactive = false) {
+  return useQuery({
+    queryKey: jobCostingKeys.costCodes(includeInactive),
+    queryFn: () => api.get<CostCode[]>('/job-costing/cost-codes', includeInactive ? { includeInactive: 'true' } : undefined),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateCostCode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CostCodeInput) => api.post<CostCode>('/job-costing/cost-codes', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...jobCostingKeys.all, 'cost-codes'] });
+    },
+  });
+}
+
+export function useUpdateCostCode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CostCodeInput> & { isActive?: boolean } }) =>
+      api.patch<CostCode>(`/job-costing/cost-codes/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: jobCostingKeys.all });
+    },
+  });
+}
+
+// Codes in use are deactivated instead
+export function useDeleteCostCode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete<{ archived: boolean; message: string }>(`/job-costing/cost-codes/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...jobCostingKeys.all, 'cost-codes'] });
+    },
+  });
+}
+
+// ============================================================================
+// Project job cost
+// ============================================================================
+
+export function useJobCostReport(projectId: string) {
+  return useQuery({
+    queryKey: jobCostingKeys.report(projectId),
+    queryFn: () => api.get<JobCostReport>(`/job-costing/projects/${projectId}/report`),
+    enabled: !!projectId,
+  });
+}
+
+export function useProjectBudget(projectId: string) {
+  return useQuery({
+    queryKey: jobCostingKeys.budget(projectId),
+    queryFn: () => api.get<BudgetLine[]>(`/job-costing/projects/${projectId}/budget`),
+    enabled: !!projectId,
+  });
+}
+
+export function useCommitments(projectId: string) {
+  return useQuery({
+    queryKey: jobCostingKeys.commitments(projectId),
+    queryFn: () => api.get<Commitment[]>(`/job-costing/projects/${projectId}/commitments`),
+    enabled: !!projectId,
+  });
+}
+
+export function useCostEntries(projectId: string) {
+  return useQuery({
+    queryKey: jobCostingKeys.costs(projectId),
+    queryFn: () => api.get<CostEntry[]>(`/job-costing/projects/${projectId}/costs`),
+    enabled: !!projectId,
+  });
+}
+
+// Every change moves the report; costs also move the project's spent total
+function useInvalidateProject(projectId: string) {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: jobCostingKeys.project(projectId) });
+    queryClient.invalidateQueries({ queryKey: projectKeys.all });
+  };
+}
+
+export function useSeedBudget(projectId: string) {
+  const invalidate = useInvalidateProject(projectId);
+
+  return useMutation({
+    mutationFn: (data: { estimateId?: string; replace?: boolean }) =>
+      api.post<{ estimateNumber: string; lineCount: number; total: number; message: string }>(
+        `/job-costing/projects/${projectId}/budget/seed`,
+        data
+      ),
+    onSuccess: invalidate,
+  });
+}
+
+export function useCreateBudgetLine(projectId: string) {
+  const invalidate = useInvalidateProject(projectId);
+
+  return useMutation({
+    mutationFn: (data: BudgetLineInput) => api.post<BudgetLine>(`/job-costing/projects/${projectId}/budget`, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateBudgetLine(projectId: string) {
+  const invalidate = useInvalidateProject(projectId);
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<BudgetLineInput> }) =>
+      api.patch<BudgetLine>(`/job-costing/budget/${id}`, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteBudgetLine(projectId: string) {
+  const invalidate = useInvalidateProject(projectId);
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/job-costing/budget/${id}`),
+    onSuccess: invalidate,
+  });
+}
+
+export function useCreateCommitment(projectId: string) {
+  const invalidate = useInvalidateProject(projectId);
+
+  return useMutation({
+    mutationFn: (data: CommitmentInput) => api.post<Commitment>(`/job-costing/projects/${projectId}/commitments`, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateCommitment(projectId: string) {
+  const invalidate = useInvalidateProject(projectId);
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CommitmentInput> & { status?: CommitmentStatus } }) =>
+      api.patch<Commitment>(`/job-costing/commitments/${id}`, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteCommitment(projectId: string) {
+  const invalidate = useInvalidateProject(projectId);
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/job-costing/commitments/${id}`),
+    onSuccess: invalidate,
+  });
+}
+
+export function useCreateCostEntry(projectId: string) {
+  const invalidate = useInvalidateProject(projectId);
+
+  return useMutation({
+    mutationFn: (data: CostEntryInput) => api.post<CostEntry>(`/job-costing/projects/${projectId}/costs`, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateCostEntry(projectId: string) {
+  const invalidate = useInvalidateProject(projectId);
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CostEntryInput> }) =>
+      api.patch<CostEntry>(`/job-costing/costs/${id}`, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteCostEntry(projectId: string) {
+  const invalidate = useInvalidateProject(projectId);
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/job-costing/costs/${id}`),
+    onSuccess: invalidate,
+  });
+}
+
+export function fetchJobCostReportCsv(projectId: string): Promise<Blob> {
+  return api.getBlob(`/job-costing/projects/${projectId}/report`, { format: 'csv' });
+}
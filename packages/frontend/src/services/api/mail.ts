@@ -0,0 +1,197 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from './client';
+
+export interface MailStatus {
+  address: string;
+  canReceive: boolean;
+  canSend: boolean;
+  lastSyncedAt: string | null;
+}
+
+export interface MailThread {
+  id: string;
+  subject: string;
+  snippet: string;
+  participants: string[];
+  messageCount: number;
+  unreadCount: number;
+  lastMessageAt: string;
+  contactId?: string;
+  contactName?: string;
+  leadId?: string;
+  leadName?: string;
+  dealId?: string;
+  dealName?: string;
+  linkedManually: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MailMessage {
+  id: string;
+  threadId: string;
+  messageId: string;
+  direction: 'inbound' | 'outbound';
+  fromAddress: string;
+  fromName?: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  text: string;
+  sentAt: string;
+  isRead: boolean;
+  sentById?: string;
+  sentByName?: string;
+}
+
+export interface MailThreadWithMessages extends MailThread {
+  messages: MailMessage[];
+}
+
+export type MailThreadFilter = 'all' | 'unread' | 'linked' | 'unlinked';
+
+export interface MailThreadsParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  filter?: MailThreadFilter;
+  contactId?: string;
+  leadId?: string;
+  dealId?: string;
+}
+
+export interface ReplyInput {
+  text: string;
+  replyAll?: boolean;
+  cc?: string[];
+}
+
+export interface SendMailInput {
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  contactId?: string;
+  leadId?: string;
+  dealId?: string;
+}
+
+// null detaches; omitted fields are left as they are
+export interface LinkThreadInput {
+  contactId?: string | null;
+  leadId?: string | null;
+  dealId?: string | null;
+}
+
+// Query keys
+export const mailKeys = {
+  all: ['mail'] as const,
+  status: () => [...mailKeys.all, 'status'] as const,
+  threads: () => [...mailKeys.all, 'threads'] as const,
+  threadList: (params: MailThreadsParams) => [...mailKeys.threads(), 'list', params] as const,
+  thread: (id: string) => [...mailKeys.threads(), 'detail', id] as const,
+};
+
+// Mailbox connection status
+export function useMailStatus() {
+  return useQuery({
+    queryKey: mailKeys.status(),
+    queryFn: () => api.get<MailStatus>('/mail/status'),
+    staleTime: 60 * 1000,
+  });
+}
+
+// Get threads with pagination and filtering
+export function useMailThreads(params: MailThreadsParams = {}) {
+  const queryParams = new URLSearchParams();
+  if (params.page) queryParams.set('page', String(params.page));
+  if (params.limit) queryParams.set('limit', String(params.limit));
+  if (params.search) queryParams.set('search', params.search);
+  if (params.filter && params.filter !== 'all') queryParams.set('filter', params.filter);
+  if (params.contactId) queryParams.set('contactId', params.contactId);
+  if (params.leadId) queryParams.set('leadId', params.leadId);
+  if (params.dealId) queryParams.set('dealId', params.dealId);
+
+  const queryString = queryParams.toString();
+  const url = `/mail/threads${queryString ? `?${queryString}` : ''}`;
+
+  return useQuery({
+    queryKey: mailKeys.threadList(params),
+    queryFn: () => api.get<MailThread[]>(url),
+    staleTime: 30 * 1000,
+    // New mail arrives through the server's scheduled sync
+    refetchInterval: 60 * 1000,
+  });
+}
+
+// Get single thread with messages
+export function useMailThread(id: string) {
+  return useQuery({
+    queryKey: mailKeys.thread(id),
+    queryFn: () => api.get<MailThreadWithMessages>(`/mail/threads/${id}`),
+    enabled: !!id,
+    staleTime: 30 * 1000,
+  });
+}
+
+// Sync the mailbox now
+export function useSyncMailbox() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => api.post<{ imported: number }>('/mail/sync', {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mailKeys.all });
+    },
+  });
+}
+
+// Mark thread read
+export function useMarkThreadRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.post<MailThread>(`/mail/threads/${id}/read`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mailKeys.threads() });
+    },
+  });
+}
+
+// Reply to thread
+export function useReplyToThread() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ReplyInput }) =>
+      api.post<MailThread>(`/mail/threads/${id}/reply`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mailKeys.threads() });
+    },
+  });
+}
+
+// Send a new message
+export function useSendMail() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SendMailInput) => api.post<MailThread>('/mail/send', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mailKeys.threads() });
+    },
+  });
+}
+
+// Attach thread to a contact / lead / deal
+export function useLinkThread() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: LinkThreadInput }) =>
+      api.patch<MailThread>(`/mail/threads/${id}/link`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mailKeys.threads() });
+    },
+  });
+}
@@ -0,0 +1,255 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from './client';
+import { estimateKeys } from './estimates';
+import { invoiceKeys } from './invoices';
+
+// Progress billing (/api/progress-billing). An approved estimate's schedule of
+// values splits the contract into lines; monthly pay applications record the
+// work done on each line and the materials stored, hold back retainage, and
+// are invoiced for the payment due that period (AIA G702/G703 style).
+
+export type PayApplicationStatus = 'draft' | 'invoiced';
+
+export interface ScheduleOfValuesSummary {
+  id: string;
+  estimateId: string;
+  estimateNumber: string;
+  estimateTitle: string;
+  clientName: string | null;
+  projectName: string | null;
+  originalContractSum: number;
+  contractSumToDate: number;
+  // Sum of the payments due on invoiced applications
+  certifiedToDate: number;
+  retainagePercent: number;
+  applicationCount: number;
+  draftApplicationNumber: number | null;
+  createdAt: string;
+}
+
+export interface ScheduleOfValuesLine {
+  id: string;
+  itemNumber: string;
+  description: string;
+  scheduledValue: number;
+  taxable: boolean;
+  // Set for lines added by an approved change order
+  changeOrderId: string | null;
+  // Completed and stored as of the latest application
+  completedToDate: number;
+}
+
+// G702 lines 1 to 9
+export interface PayApplicationSummary {
+  originalContractSum: number;
+  netChangeByChangeOrders: number;
+  contractSumToDate: number;
+  totalCompletedAndStored: number;
+  retainageOnCompletedWork: number;
+  retainageOnStoredMaterials: number;
+  totalRetainage: number;
+  totalEarnedLessRetainage: number;
+  lessPreviousCertificates: number;
+  currentPaymentDue: number;
+  balanceToFinishIncludingRetainage: number;
+  retainageThisPeriod: number;
+}
+
+export interface PayApplication {
+  id: string;
+  applicationNumber: number;
+  applicationDate: string;
+  periodTo: string;
+  retainagePercent: number;
+  status: PayApplicationStatus;
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  // Payment due, recorded when invoiced
+  amountDue: number | null;
+  notes: string | null;
+  invoicedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  summary: PayApplicationSummary;
+}
+
+// G703 continuation sheet row
+export interface ContinuationRow {
+  lineId: string;
+  itemNumber: string;
+  description: string;
+  taxable: boolean;
+  scheduledValue: number;
+  previousWork: number;
+  workThisPeriod: number;
+  storedMaterials: number;
+  completedAndStored: number;
+  // Fraction, e.g. 0.45
+  percentComplete: number;
+  balanceToFinish: number;
+  retainage: number;
+  billedThisPeriod: number;
+}
+
+export interface PayApplicationWithRows extends PayApplication {
+  rows: ContinuationRow[];
+}
+
+export interface ScheduleOfValues extends Omit<ScheduleOfValuesSummary, 'contractSumToDate' | 'certifiedToDate' | 'applicationCount' | 'draftApplicationNumber'> {
+  clientId: string | null;
+  projectId: string | null;
+  lines: ScheduleOfValuesLine[];
+  applications: PayApplication[];
+  updatedAt: string;
+}
+
+export interface PayApplicationInput {
+  applicationDate?: string;
+  periodTo: string;
+  retainagePercent?: number;
+  notes?: string | null;
+}
+
+// Per line, the work this period or the percent complete to date
+export interface PayApplicationLineInput {
+  lineId: string;
+  workThisPeriod?: number;
+  percentComplete?: number;
+  storedMaterials?: number;
+}
+
+export interface UpdatePayApplicationInput extends Partial<PayApplicationInput> {
+  lines?: PayApplicationLineInput[];
+}
+
+export const progressBillingKeys = {
+  all: ['progress-billing'] as const,
+  lists: () => [...progressBillingKeys.all, 'list'] as const,
+  list: (params: { estimateId?: string; projectId?: string }) => [...progressBillingKeys.lists(), params] as const,
+  detail: (id: string) => [...progressBillingKeys.all, 'detail', id] as const,
+  application: (scheduleId: string, applicationId: string) =>
+    [...progressBillingKeys.detail(scheduleId), 'application', applicationId] as const,
+};
+
+export function useSchedulesOfValues(params: { estimateId?: string; projectId?: string } = {}) {
+  return useQuery({
+    queryKey: progressBillingKeys.list(params),
+    queryFn: () => api.get<ScheduleOfValuesSummary[]>('/progress-billing', params as Record<string, string>),
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useScheduleOfValues(id: string) {
+  return useQuery({
+    queryKey: progressBillingKeys.detail(id),
+    queryFn: () => api.get<ScheduleOfValues>(`/progress-billing/${id}`),
+    enabled: !!id,
+  });
+}
+
+export function usePayApplication(scheduleId: string, applicationId: string) {
+  return useQuery({
+    queryKey: progressBillingKeys.application(scheduleId, applicationId),
+    queryFn: () => api.get<PayApplicationWithRows>(`/progress-billing/${scheduleId}/applications/${applicationId}`),
+    enabled: !!scheduleId && !!applicationId,
+  });
+}
+
+// Set up progress billing for an approved estimate
+export function useCreateScheduleOfValues() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { estimateId: string; retainagePercent: number }) =>
+      api.post<ScheduleOfValues>('/progress-billing', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: progressBillingKeys.all });
+      queryClient.invalidateQueries({ queryKey: estimateKeys.all });
+    },
+  });
+}
+
+export function useUpdateScheduleOfValues(id: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { retainagePercent: number }) => api.patch<ScheduleOfValues>(`/progress-billing/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: progressBillingKeys.all });
+    },
+  });
+}
+
+export function useDeleteScheduleOfValues() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/progress-billing/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: progressBillingKeys.all });
+      queryClient.invalidateQueries({ queryKey: estimateKeys.all });
+    },
+  });
+}
+
+export function useCreatePayApplication(scheduleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: PayApplicationInput) =>
+      api.post<PayApplicationWithRows>(`/progress-billing/${scheduleId}/applications`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: progressBillingKeys.all });
+    },
+  });
+}
+
+export function useUpdatePayApplication(scheduleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdatePayApplicationInput }) =>
+      api.patch<PayApplicationWithRows>(`/progress-billing/${scheduleId}/applications/${id}`, data),
+    onSuccess: (response, { id }) => {
+      queryClient.setQueryData(progressBillingKeys.application(scheduleId, id), response);
+      queryClient.invalidateQueries({ queryKey: progressBillingKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: progressBillingKeys.detail(scheduleId), exact: true });
+    },
+  });
+}
+
+export function useDeletePayApplication(scheduleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/progress-billing/${scheduleId}/applications/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: progressBillingKeys.all });
+    },
+  });
+}
+
+// Invoices the payment due and fixes the application
+export function useInvoicePayApplication(scheduleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      api.post<{ invoiceId: string; invoiceNumber: string; message: string }>(
+        `/progress-billing/${scheduleId}/applications/${id}/invoice`
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: progressBillingKeys.all });
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.all });
+    },
+  });
+}
+
+// G702 certificate and G703 continuation sheet
+export function fetchPayApplicationPdf(scheduleId: string, applicationId: string): Promise<Blob> {
+  return api.getBlob(`/progress-billing/${scheduleId}/applications/${applicationId}/pdf`);
+}
+
+export function fetchPayApplicationCsv(scheduleId: string, applicationId: string): Promise<Blob> {
+  return api.getBlob(`/progress-billing/${scheduleId}/applications/${applicationId}/csv`);
+}
@@ -4,6 +4,15 @@ import { api } from './client';
 export type ProjectStatus = 'planning' | 'in_progress' | 'on_hold' | 'completed' | 'cancelled';
 export type ProjectPriority = 'low' | 'medium' | 'high' | 'urgent';
 
+// Where the work happens; sales tax follows it
+export interface ProjectJobsiteAddress {
+  street: string;
+  suite?: string;
+  city: string;
+  state: string;
+  zip: string;
+}
+
 export interface Project {
   id: string;
   clientId: string;
@@ -15,7 +24,15 @@ export interface Project {
   endDate: string | null;
   budget: number | null;
   spent: number;
+  // Approved estimates (before tax), revised by approved change orders
+  originalContractValue: number;
+  approvedChangeOrders: number;
+  pendingChangeOrders: number;
+  revisedContractValue: number;
+  // Days approved change orders add to the schedule
+  scheduleImpactDays: number;
   managerId: string | null;
+  jobsiteAddress?: ProjectJobsiteAddress | null;
   createdAt: string;
   updatedAt: string;
   // Joined fields
@@ -73,10 +90,43 @@ export interface CreateProjectInput {
   endDate?: string;
   budget?: number;
   managerId?: string;
+  jobsiteAddress?: ProjectJobsiteAddress;
+}
+
+export interface UpdateProjectInput extends Partial<Omit<CreateProjectInput, 'jobsiteAddress'>> {
+  // null clears it, so tax follows the client's address
+  jobsiteAddress?: ProjectJobsiteAddress | null;
 }
 
-export interface UpdateProjectInput extends Partial<CreateProjectInput> {
-  spent?: number;
+export interface ProjectPhase {
+  id: string;
+  name: string;
+  // A single-day marker rather than a span of work
+  isMilestone: boolean;
+  startDate: string;
+  endDate: string;
+  percentComplete: number;
+  sortOrder: number;
+  // Phases that must finish before this one starts
+  predecessorIds: string[];
+  // Days it can slip without moving the finish date
+  float: number;
+  critical: boolean;
+}
+
+export interface ProjectSchedule {
+  phases: ProjectPhase[];
+  dependencies: { predecessorId: string; successorId: string }[];
+  startDate: string | null;
+  finishDate: string | null;
+}
+
+export interface ProjectPhaseInput {
+  name: string;
+  isMilestone?: boolean;
+  startDate: string;
+  endDate?: string;
+  percentComplete?: number;
 }
 
 export interface ProjectsParams {
@@ -96,6 +146,7 @@ export const projectKeys = {
   list: (params: ProjectsParams) => [...projectKeys.lists(), params] as const,
   details: () => [...projectKeys.all, 'detail'] as const,
   detail: (id: string) => [...projectKeys.details(), id] as const,
+  schedule: (id: string) => [...projectKeys.detail(id), 'schedule'] as const,
 };
 
 // Get all projects with pagination and filtering
@@ -168,6 +219,75 @@ export function useDeleteProject() {
   });
 }
 
+// Project schedule
+export function useProjectSchedule(projectId: string) {
+  return useQuery({
+    queryKey: projectKeys.schedule(projectId),
+    queryFn: () => api.get<ProjectSchedule>(`/projects/${projectId}/schedule`),
+    enabled: !!projectId,
+  });
+}
+
+export function useCreatePhase(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ProjectPhaseInput) => api.post<{ id: string }>(`/projects/${projectId}/phases`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.detail(projectId) });
+    },
+  });
+}
+
+// Successors that would start too early are moved back; their names come
+// back in moved
+export function useUpdatePhase(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<ProjectPhaseInput> }) =>
+      api.patch<ProjectPhase & { moved: string[]; message: string }>(`/projects/${projectId}/phases/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.schedule(projectId) });
+    },
+  });
+}
+
+export function useDeletePhase(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/projects/${projectId}/phases/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.detail(projectId) });
+    },
+  });
+}
+
+export function useAddPhaseDependency(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { predecessorId: string; successorId: string }) =>
+      api.post<{ moved: string[]; message: string }>(`/projects/${projectId}/dependencies`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.schedule(projectId) });
+    },
+  });
+}
+
+export function useRemovePhaseDependency(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ predecessorId, successorId }: { predecessorId: string; successorId: string }) =>
+      api.delete(`/projects/${projectId}/dependencies/${predecessorId}/${successorId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.schedule(projectId) });
+    },
+  });
+}
+
 // Task mutations
 export const taskKeys = {
   all: ['tasks'] as const,
@@ -0,0 +1,53 @@
+import { useQuery } from '@tanstack/react-query';
+import { api } from './client';
+
+// Accounting reports (/api/reports). Every report comes back with its own
+// column definitions, so one table renders them all.
+
+export type ReportId = 'ar-aging' | 'cash-receipts' | 'revenue' | 'tax';
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  type: 'text' | 'date' | 'money' | 'number';
+}
+
+export interface ReportResult {
+  from?: string;
+  to: string;
+  groupBy?: string;
+  columns: ReportColumn[];
+  rows: Record<string, string | number | null>[];
+  totals: Record<string, number>;
+}
+
+export interface ReportParams {
+  from?: string;
+  to?: string;
+  groupBy?: string;
+}
+
+// Only the parameters that are set
+function toQuery(params: ReportParams): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params).filter((entry): entry is [string, string] => !!entry[1])
+  );
+}
+
+export const reportKeys = {
+  all: ['reports'] as const,
+  report: (id: ReportId, params: ReportParams) => [...reportKeys.all, id, params] as const,
+};
+
+export function useReport(id: ReportId, params: ReportParams) {
+  return useQuery({
+    queryKey: reportKeys.report(id, params),
+    queryFn: () => api.get<ReportResult>(`/reports/${id}`, toQuery(params)),
+    staleTime: 60 * 1000,
+  });
+}
+
+// The same report as CSV
+export function fetchReportCsv(id: ReportId, params: ReportParams): Promise<Blob> {
+  return api.getBlob(`/reports/${id}`, { ...toQuery(params), format: 'csv' });
+}
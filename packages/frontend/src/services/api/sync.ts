@@ -0,0 +1,71 @@
+// ============================================================================
+// Server Sync Helpers
+// Location: src/services/api/sync.ts
+//
+// Shared plumbing for zustand stores that cache server data:
+// - Optimistic writes sent in the background, in the order they were made
+// - One-time import of records saved in localStorage before server persistence
+// ============================================================================
+
+import type { ApiResponse } from './client';
+
+// Large enough to load every record; pages filter client-side
+export const FETCH_ALL_LIMIT = '10000';
+
+// A single queue for all stores so dependent writes (company → contact → lead)
+// reach the server in the order the user made them
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Request failed';
+}
+
+/**
+ * Queue a background write. The caller has already applied the change locally;
+ * `onError` typically records the message and reloads the server's copy.
+ */
+export function enqueueWrite<T>(
+  request: () => Promise<ApiResponse<T>>,
+  onSuccess: ((data: T) => void) | undefined,
+  onError: (message: string) => void | Promise<void>
+): void {
+  writeQueue = writeQueue
+    .then(request)
+    .then((response) => {
+      if (response.data !== undefined) onSuccess?.(response.data);
+    })
+    .catch((error) => onError(errorMessage(error)));
+}
+
+// Wait for all queued writes (e.g. before a full refetch)
+export function flushWrites(): Promise<unknown> {
+  return writeQueue;
+}
+
+/** Read the `state` of a legacy zustand-persist localStorage entry */
+export function readLegacyState<T>(key: string): Partial<T> | undefined {
+  const raw = localStorage.getItem(key);
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw)?.state as Partial<T> | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Rewrite the `state` of a legacy localStorage entry in place (no-op if absent) */
+export function updateLegacyState<T>(key: string, update: (state: Partial<T>) => Partial<T>): void {
+  const raw = localStorage.getItem(key);
+  if (!raw) return;
+  try {
+    const parsed = JSON.parse(raw);
+    localStorage.setItem(key, JSON.stringify({ ...parsed, state: update(parsed.state || {}) }));
+  } catch {
+    // Corrupt entry - leave it for the owning store to discard
+  }
+}
+
+/** Replace an id using an old → new map, leaving unmapped ids untouched */
+export function remapId(id: string | undefined, map: Record<string, string>): string | undefined {
+  return id && map[id] ? map[id] : id;
+}
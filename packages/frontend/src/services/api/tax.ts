@@ -0,0 +1,238 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from './client';
+
+// Sales tax (/api/tax and /api/companies/:id/tax-exemptions). A jurisdiction
+// is a set of named rates that apply together; estimates and invoices take
+// the jurisdiction of the jobsite or client address unless one is picked,
+// tax only their taxable lines, and are not taxed for a client holding a
+// current exemption certificate.
+
+export interface TaxRateComponent {
+  name: string;
+  // Fraction, e.g. 0.04 for 4%
+  rate: number;
+}
+
+// One row of a document's tax
+export interface TaxBreakdownLine extends TaxRateComponent {
+  taxableAmount: number;
+  amount: number;
+}
+
+// Tax fields on estimates and invoices
+export interface DocumentTax {
+  // null when taxed at a custom rate
+  taxJurisdictionId: string | null;
+  taxJurisdictionName: string | null;
+  taxableSubtotal: number;
+  taxBreakdown: TaxBreakdownLine[];
+  // Certificate the document was not taxed under
+  taxExemption: { id: string; certificateType: string | null; certificateNumber: string | null } | null;
+}
+
+export interface TaxJurisdiction {
+  id: string;
+  name: string;
+  state: string;
+  // None covers the rest of the state
+  zipCodes: string[];
+  isActive: boolean;
+  rates: (TaxRateComponent & { id: string })[];
+  totalRate: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaxJurisdictionInput {
+  name: string;
+  state: string;
+  zipCodes: string[];
+  rates: TaxRateComponent[];
+}
+
+export interface ResolvedTax {
+  jurisdiction: { id: string; name: string } | null;
+  rates: TaxRateComponent[];
+  exemption: { id: string; certificateType: string; certificateNumber: string | null } | null;
+}
+
+export interface TaxExemption {
+  id: string;
+  companyId: string;
+  certificateType: string;
+  certificateNumber: string | null;
+  // null covers every jurisdiction
+  jurisdictionId: string | null;
+  jurisdictionName: string | null;
+  effectiveDate: string;
+  expiresOn: string | null;
+  notes: string | null;
+  // In force today
+  isCurrent: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaxExemptionInput {
+  certificateType: string;
+  certificateNumber?: string | null;
+  jurisdictionId?: string | null;
+  effectiveDate?: string;
+  expiresOn?: string | null;
+  notes?: string | null;
+}
+
+export interface ResolveTaxParams {
+  clientId?: string;
+  projectId?: string;
+  // Left out, found from the jobsite or client address; 'none' for a custom rate
+  jurisdictionId?: string;
+}
+
+export interface TaxPreview {
+  subtotal: number;
+  taxableSubtotal: number;
+  taxAmount: number;
+  total: number;
+  taxBreakdown: TaxBreakdownLine[];
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Totals as the server will work them out, for showing while editing: each
+ * rate applies to the taxable lines and is rounded to the cent on its own.
+ */
+export function previewTax(
+  lines: { quantity: number; unitPrice: number; taxable?: boolean }[],
+  rates: TaxRateComponent[],
+  exempt = false
+): TaxPreview {
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0));
+  const taxableSubtotal = round2(
+    lines.filter((line) => line.taxable !== false).reduce((sum, line) => sum + line.quantity * line.unitPrice, 0)
+  );
+  const taxBreakdown = (exempt ? [] : rates.filter((rate) => rate.rate > 0)).map((rate) => ({
+    ...rate,
+    taxableAmount: taxableSubtotal,
+    amount: round2(taxableSubtotal * rate.rate),
+  }));
+  const taxAmount = round2(taxBreakdown.reduce((sum, line) => sum + line.amount, 0));
+  return { subtotal, taxableSubtotal, taxAmount, total: round2(subtotal + taxAmount), taxBreakdown };
+}
+
+// e.g. 8.875%
+export function formatTaxRate(rate: number): string {
+  return `${parseFloat((rate * 100).toFixed(4))}%`;
+}
+
+export const taxKeys = {
+  all: ['tax'] as const,
+  jurisdictions: (includeInactive: boolean) => [...taxKeys.all, 'jurisdictions', includeInactive] as const,
+  resolve: (params: ResolveTaxParams) => [...taxKeys.all, 'resolve', params] as const,
+  exemptions: (companyId: string) => [...taxKeys.all, 'exemptions', companyId] as const,
+};
+
+export function useTaxJurisdictions(includeInactive = false) {
+  return useQuery({
+    queryKey: taxKeys.jurisdictions(includeInactive),
+    queryFn: () =>
+      api.get<TaxJurisdiction[]>('/tax/jurisdictions', includeInactive ? { includeInactive: 'true' } : undefined),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// The jurisdiction, rates and exemption a document for this client/project gets
+export function useResolvedTax(params: ResolveTaxParams, enabled = true) {
+  const query: Record<string, string> = {};
+  if (params.clientId) query.clientId = params.clientId;
+  if (params.projectId) query.projectId = params.projectId;
+  if (params.jurisdictionId) query.jurisdictionId = params.jurisdictionId;
+
+  return useQuery({
+    queryKey: taxKeys.resolve(params),
+    queryFn: () => api.get<ResolvedTax>('/tax/resolve', query),
+    enabled: enabled && !!params.clientId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCreateTaxJurisdiction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: TaxJurisdictionInput) => api.post<TaxJurisdiction>('/tax/jurisdictions', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxKeys.all });
+    },
+  });
+}
+
+export function useUpdateTaxJurisdiction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<TaxJurisdictionInput> & { isActive?: boolean } }) =>
+      api.patch<TaxJurisdiction>(`/tax/jurisdictions/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxKeys.all });
+    },
+  });
+}
+
+// Jurisdictions documents were taxed under are deactivated rather than deleted
+export function useDeleteTaxJurisdiction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete<{ archived: boolean; message: string }>(`/tax/jurisdictions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxKeys.all });
+    },
+  });
+}
+
+export function useTaxExemptions(companyId: string) {
+  return useQuery({
+    queryKey: taxKeys.exemptions(companyId),
+    queryFn: () => api.get<TaxExemption[]>(`/companies/${companyId}/tax-exemptions`),
+    enabled: !!companyId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCreateTaxExemption(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: TaxExemptionInput) => api.post<TaxExemption>(`/companies/${companyId}/tax-exemptions`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxKeys.all });
+    },
+  });
+}
+
+export function useUpdateTaxExemption(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<TaxExemptionInput> }) =>
+      api.patch<TaxExemption>(`/companies/${companyId}/tax-exemptions/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxKeys.all });
+    },
+  });
+}
+
+export function useDeleteTaxExemption(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/companies/${companyId}/tax-exemptions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxKeys.all });
+    },
+  });
+}
@@ -0,0 +1,256 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from './client';
+import { invoiceKeys } from './invoices';
+
+// Time tracking (/api/time): timers and manual entries against projects and
+// their tasks, grouped into weekly timesheets (Monday to Sunday) that are
+// submitted to a supervisor for approval. Approved billable hours can be
+// drafted onto an invoice.
+
+export type TimesheetStatus = 'open' | 'submitted' | 'approved' | 'rejected';
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  open: 'Open',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export interface TimeEntry {
+  id: string;
+  timesheetId: string;
+  projectId: string;
+  projectName: string;
+  taskId: string | null;
+  taskTitle: string | null;
+  entryDate: string;
+  // Set for timed entries
+  startedAt: string | null;
+  endedAt: string | null;
+  // null while the timer is running
+  hours: number | null;
+  description: string | null;
+  billable: boolean;
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TimeEntryInput {
+  projectId: string;
+  taskId?: string | null;
+  entryDate: string;
+  hours: number;
+  description?: string | null;
+  billable?: boolean;
+}
+
+export interface StartTimerInput {
+  projectId: string;
+  taskId?: string | null;
+  // The local date the time is booked to
+  entryDate: string;
+  description?: string | null;
+  billable?: boolean;
+}
+
+export interface Timesheet {
+  id: string;
+  userId: string;
+  userName: string;
+  weekStart: string;
+  weekEnd: string;
+  status: TimesheetStatus;
+  submittedAt: string | null;
+  decidedBy: string | null;
+  decidedByName: string | null;
+  decidedAt: string | null;
+  rejectionReason: string | null;
+  totalHours: number;
+  billableHours: number;
+}
+
+export interface TimesheetWeek {
+  weekStart: string;
+  weekEnd: string;
+  // null until the first entry of the week
+  timesheet: Timesheet | null;
+  entries: TimeEntry[];
+  // usersStore ids of the supervisors who approve the week
+  approverIds: string[];
+}
+
+export interface ProjectTimeSummary {
+  totalHours: number;
+  approvedHours: number;
+  billableHours: number;
+  invoicedHours: number;
+  // Approved billable hours not yet invoiced, by person
+  unbilled: { userId: string; userName: string; hours: number; entryCount: number }[];
+}
+
+export interface InvoiceHoursInput {
+  hourlyRate: number;
+  // Per-person rates by user id
+  rates?: Record<string, number>;
+  taxable?: boolean;
+  dueDate?: string;
+}
+
+export const timeKeys = {
+  all: ['time'] as const,
+  week: (weekStart: string) => [...timeKeys.all, 'week', weekStart] as const,
+  timer: () => [...timeKeys.all, 'timer'] as const,
+  approvals: (status: string) => [...timeKeys.all, 'approvals', status] as const,
+  timesheet: (id: string) => [...timeKeys.all, 'timesheet', id] as const,
+  project: (projectId: string) => [...timeKeys.all, 'project', projectId] as const,
+};
+
+// ============================================================================
+// Own time
+// ============================================================================
+
+export function useTimesheetWeek(weekStart: string) {
+  return useQuery({
+    queryKey: timeKeys.week(weekStart),
+    queryFn: () => api.get<TimesheetWeek>('/time/week', { weekStart }),
+  });
+}
+
+export function useRunningTimer() {
+  return useQuery({
+    queryKey: timeKeys.timer(),
+    queryFn: () => api.get<TimeEntry | null>('/time/timer'),
+  });
+}
+
+// Entries move week totals, the running timer and project summaries
+function useInvalidateTime() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: timeKeys.all });
+  };
+}
+
+export function useStartTimer() {
+  const invalidate = useInvalidateTime();
+
+  return useMutation({
+    mutationFn: (data: StartTimerInput) =>
+      api.post<{ timer: TimeEntry; stopped: TimeEntry | null }>('/time/timer/start', data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useStopTimer() {
+  const invalidate = useInvalidateTime();
+
+  return useMutation({
+    mutationFn: () => api.post<TimeEntry>('/time/timer/stop'),
+    onSuccess: invalidate,
+  });
+}
+
+export function useCreateTimeEntry() {
+  const invalidate = useInvalidateTime();
+
+  return useMutation({
+    mutationFn: (data: TimeEntryInput) => api.post<TimeEntry>('/time/entries', data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateTimeEntry() {
+  const invalidate = useInvalidateTime();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<TimeEntryInput> }) =>
+      api.patch<TimeEntry>(`/time/entries/${id}`, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteTimeEntry() {
+  const invalidate = useInvalidateTime();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/time/entries/${id}`),
+    onSuccess: invalidate,
+  });
+}
+
+export function useSubmitTimesheet() {
+  const invalidate = useInvalidateTime();
+
+  return useMutation({
+    mutationFn: (weekStart: string) => api.post<TimesheetWeek>('/time/week/submit', { weekStart }),
+    onSuccess: invalidate,
+  });
+}
+
+// ============================================================================
+// Approvals
+// ============================================================================
+
+export function useTimesheetApprovals(status: Exclude<TimesheetStatus, 'open'> = 'submitted') {
+  return useQuery({
+    queryKey: timeKeys.approvals(status),
+    queryFn: () => api.get<Timesheet[]>('/time/approvals', { status }),
+  });
+}
+
+export function useTimesheet(id: string) {
+  return useQuery({
+    queryKey: timeKeys.timesheet(id),
+    queryFn: () => api.get<{ timesheet: Timesheet; entries: TimeEntry[] }>(`/time/timesheets/${id}`),
+    enabled: !!id,
+  });
+}
+
+export function useApproveTimesheet() {
+  const invalidate = useInvalidateTime();
+
+  return useMutation({
+    mutationFn: (id: string) => api.post<Timesheet>(`/time/timesheets/${id}/approve`),
+    onSuccess: invalidate,
+  });
+}
+
+export function useRejectTimesheet() {
+  const invalidate = useInvalidateTime();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      api.post<Timesheet>(`/time/timesheets/${id}/reject`, { reason }),
+    onSuccess: invalidate,
+  });
+}
+
+// ============================================================================
+// Project time
+// ============================================================================
+
+export function useProjectTime(projectId: string) {
+  return useQuery({
+    queryKey: timeKeys.project(projectId),
+    queryFn: () => api.get<ProjectTimeSummary>(`/time/projects/${projectId}`),
+    enabled: !!projectId,
+  });
+}
+
+export function useInvoiceProjectHours(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: InvoiceHoursInput) =>
+      api.post<{ invoiceId: string; invoiceNumber: string; hours: number; message: string }>(
+        `/time/projects/${projectId}/invoice`,
+        data
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: timeKeys.project(projectId) });
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.all });
+    },
+  });
+}
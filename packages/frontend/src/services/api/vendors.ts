@@ -0,0 +1,263 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from './client';
+import { projectKeys } from './projects';
+
+// Subcontractor and supplier compliance (/api/companies/:id/compliance...):
+// W-9s and certificates of insurance on file, the prequalification
+// checklist, and the alerts for subs whose paperwork is missing or about to
+// lapse. Subcontractors are assigned to projects under
+// /api/projects/:id/subcontractors.
+
+export type ComplianceDocumentType = 'w9' | 'coi';
+
+export type CoverageType = 'general_liability' | 'workers_comp' | 'auto' | 'umbrella' | 'professional';
+
+export const COVERAGE_LABELS: Record<CoverageType, string> = {
+  general_liability: 'General liability',
+  workers_comp: "Workers' compensation",
+  auto: 'Commercial auto',
+  umbrella: 'Umbrella',
+  professional: 'Professional liability',
+};
+
+export type PrequalificationItem =
+  | 'license_verified'
+  | 'safety_program_reviewed'
+  | 'emr_reviewed'
+  | 'references_checked'
+  | 'subcontract_signed';
+
+export const PREQUALIFICATION_LABELS: Record<PrequalificationItem, string> = {
+  license_verified: 'Contractor license verified',
+  safety_program_reviewed: 'Safety program reviewed',
+  emr_reviewed: 'Experience modification rate (EMR) reviewed',
+  references_checked: 'References checked',
+  subcontract_signed: 'Master subcontract agreement signed',
+};
+
+export interface ComplianceDocument {
+  id: string;
+  companyId: string;
+  documentType: ComplianceDocumentType;
+  coverageType: CoverageType | null;
+  carrier: string | null;
+  policyNumber: string | null;
+  coverageAmount: number | null;
+  effectiveDate: string;
+  expiryDate: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ComplianceDocumentInput {
+  documentType: ComplianceDocumentType;
+  coverageType?: CoverageType | null;
+  carrier?: string | null;
+  policyNumber?: string | null;
+  coverageAmount?: number | null;
+  effectiveDate?: string;
+  expiryDate?: string | null;
+  notes?: string | null;
+}
+
+export type CoverageState = 'current' | 'expiring' | 'expired' | 'missing';
+
+export interface ComplianceSummary {
+  w9OnFile: boolean;
+  // One per required coverage (general liability, workers' comp)
+  coverages: {
+    coverageType: CoverageType;
+    expiryDate: string | null;
+    daysLeft: number | null;
+    status: CoverageState;
+  }[];
+  checklistComplete: number;
+  checklistTotal: number;
+  status: 'compliant' | 'expiring' | 'non_compliant';
+  prequalified: boolean;
+}
+
+export interface PrequalificationChecklistItem {
+  item: PrequalificationItem;
+  completed: boolean;
+  completedAt: string | null;
+  completedBy: string | null;
+  completedByName: string | null;
+  notes: string | null;
+}
+
+export interface CompanyCompliance {
+  summary: ComplianceSummary;
+  documents: ComplianceDocument[];
+  checklist: PrequalificationChecklistItem[];
+}
+
+export type ComplianceAlertKind = 'w9_missing' | 'coi_missing' | 'coi_expired' | 'coi_expiring';
+
+export interface ComplianceAlert {
+  companyId: string;
+  companyName: string;
+  companySlug: string | null;
+  kind: ComplianceAlertKind;
+  coverageType: CoverageType | null;
+  expiryDate: string | null;
+  daysLeft: number | null;
+}
+
+export interface ProjectSubcontractor {
+  id: string;
+  projectId: string;
+  companyId: string;
+  companyName: string;
+  companySlug: string | null;
+  phone: string | null;
+  trade: string | null;
+  scope: string | null;
+  compliance: ComplianceSummary | null;
+  createdAt: string;
+}
+
+export interface ProjectSubcontractorInput {
+  companyId: string;
+  trade?: string | null;
+  scope?: string | null;
+}
+
+export const vendorKeys = {
+  all: ['vendors'] as const,
+  alerts: () => [...vendorKeys.all, 'alerts'] as const,
+  compliance: (companyId: string) => [...vendorKeys.all, 'compliance', companyId] as const,
+  projectSubcontractors: (projectId: string) => [...projectKeys.detail(projectId), 'subcontractors'] as const,
+};
+
+// One line describing an alert, e.g. "General liability expires in 12 days"
+export function describeComplianceAlert(alert: ComplianceAlert): string {
+  const coverage = alert.coverageType ? COVERAGE_LABELS[alert.coverageType] : 'Insurance';
+  switch (alert.kind) {
+    case 'w9_missing':
+      return 'No W-9 on file';
+    case 'coi_missing':
+      return `No ${coverage.toLowerCase()} certificate on file`;
+    case 'coi_expired':
+      return `${coverage} lapsed on ${alert.expiryDate}`;
+    case 'coi_expiring':
+      return alert.daysLeft === 0
+        ? `${coverage} expires today`
+        : `${coverage} expires in ${alert.daysLeft} day${alert.daysLeft === 1 ? '' : 's'}`;
+  }
+}
+
+export function useComplianceAlerts(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: vendorKeys.alerts(),
+    queryFn: () => api.get<ComplianceAlert[]>('/companies/compliance-alerts'),
+    enabled: options.enabled ?? true,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCompanyCompliance(companyId: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: vendorKeys.compliance(companyId),
+    queryFn: () => api.get<CompanyCompliance>(`/companies/${companyId}/compliance`),
+    enabled: !!companyId && (options.enabled ?? true),
+  });
+}
+
+// Compliance shows on the company, in the header alerts and on every
+// project the company works on
+function useInvalidateCompliance() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: vendorKeys.all });
+    queryClient.invalidateQueries({ queryKey: projectKeys.all });
+  };
+}
+
+export function useCreateComplianceDocument(companyId: string) {
+  const invalidate = useInvalidateCompliance();
+
+  return useMutation({
+    mutationFn: (data: ComplianceDocumentInput) =>
+      api.post<ComplianceDocument>(`/companies/${companyId}/compliance-documents`, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateComplianceDocument(companyId: string) {
+  const invalidate = useInvalidateCompliance();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Omit<ComplianceDocumentInput, 'documentType'>> }) =>
+      api.patch<ComplianceDocument>(`/companies/${companyId}/compliance-documents/${id}`, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteComplianceDocument(companyId: string) {
+  const invalidate = useInvalidateCompliance();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/companies/${companyId}/compliance-documents/${id}`),
+    onSuccess: invalidate,
+  });
+}
+
+export function useSetPrequalificationItem(companyId: string) {
+  const invalidate = useInvalidateCompliance();
+
+  return useMutation({
+    mutationFn: ({ item, completed, notes }: { item: PrequalificationItem; completed: boolean; notes?: string | null }) =>
+      api.put<{ item: PrequalificationItem; completed: boolean; summary: ComplianceSummary }>(
+        `/companies/${companyId}/prequalification/${item}`,
+        { completed, notes }
+      ),
+    onSuccess: invalidate,
+  });
+}
+
+export function useProjectSubcontractors(projectId: string) {
+  return useQuery({
+    queryKey: vendorKeys.projectSubcontractors(projectId),
+    queryFn: () => api.get<ProjectSubcontractor[]>(`/projects/${projectId}/subcontractors`),
+    enabled: !!projectId,
+  });
+}
+
+export function useAddProjectSubcontractor(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ProjectSubcontractorInput) =>
+      api.post<{ id: string }>(`/projects/${projectId}/subcontractors`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: vendorKeys.projectSubcontractors(projectId) });
+      // The company may have just become a subcontractor
+      queryClient.invalidateQueries({ queryKey: vendorKeys.alerts() });
+    },
+  });
+}
+
+export function useUpdateProjectSubcontractor(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Omit<ProjectSubcontractorInput, 'companyId'> }) =>
+      api.patch<{ id: string }>(`/projects/${projectId}/subcontractors/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: vendorKeys.projectSubcontractors(projectId) });
+    },
+  });
+}
+
+export function useRemoveProjectSubcontractor(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/projects/${projectId}/subcontractors/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: vendorKeys.projectSubcontractors(projectId) });
+    },
+  });
+}
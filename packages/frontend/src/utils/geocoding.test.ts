@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { GeocodingProvider } from './geocoding';
+import { optimizeRoute } from './routeOptimizer';
+
+// Minimal in-memory localStorage - the tests run in Node
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  clear() {
+    this.items.clear();
+  }
+}
+
+const CACHE_KEY = 'sg-geocode-cache-v2';
+
+// Fresh module per test so the provider is picked from the environment again
+const loadGeocoding = async () => {
+  vi.resetModules();
+  return import('./geocoding');
+};
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  vi.stubEnv('VITE_RADAR_PUBLISHABLE_KEY', '');
+  vi.stubEnv('VITE_LOCAL_GEOCODER', '');
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('provider selection', () => {
+  it('has no provider when Radar is not configured', async () => {
+    const { getGeocodingProvider, isGeocodingConfigured, geocodeAddress } = await loadGeocoding();
+
+    expect(getGeocodingProvider()).toBeNull();
+    expect(isGeocodingConfigured()).toBe(false);
+    expect(await geocodeAddress('1600 Broadway, Denver, CO 80202')).toBeNull();
+  });
+
+  it('uses Radar when a key is set', async () => {
+    vi.stubEnv('VITE_RADAR_PUBLISHABLE_KEY', 'prj_test_key');
+    const { getGeocodingProvider, radarGeocoder } = await loadGeocoding();
+
+    expect(getGeocodingProvider()).toBe(radarGeocoder);
+  });
+
+  it('uses the local stub in development only when asked to', async () => {
+    vi.stubEnv('VITE_LOCAL_GEOCODER', 'true');
+    const { getGeocodingProvider } = await loadGeocoding();
+
+    expect(getGeocodingProvider()?.cacheable).toBe(false);
+  });
+
+  it('drops coordinates cached by earlier builds', async () => {
+    storage.setItem('sg-geocode-cache', JSON.stringify({ 'somewhere': { lat: 1, lng: 2 } }));
+    await loadGeocoding();
+
+    expect(storage.getItem('sg-geocode-cache')).toBeNull();
+  });
+
+  it('goes back to the configured default when the provider is reset', async () => {
+    const { setGeocodingProvider, createLocalGeocoder, getGeocodingProvider } = await loadGeocoding();
+
+    setGeocodingProvider(createLocalGeocoder());
+    expect(getGeocodingProvider()).not.toBeNull();
+    setGeocodingProvider(null);
+    expect(getGeocodingProvider()).toBeNull();
+  });
+});
+
+describe('local stub', () => {
+  it('returns fixtures regardless of case and punctuation', async () => {
+    const { setGeocodingProvider, createLocalGeocoder, geocodeAddress } = await loadGeocoding();
+    setGeocodingProvider(createLocalGeocoder({ '100 Main St, Denver, CO': { lat: 39.75, lng: -105 } }));
+
+    expect(await geocodeAddress('100 MAIN ST.  Denver CO')).toEqual({ lat: 39.75, lng: -105 });
+  });
+
+  it('places unknown addresses at a stable point near the center', async () => {
+    const { createLocalGeocoder } = await loadGeocoding();
+    const stub = createLocalGeocoder({}, { lat: 40, lng: -100 });
+
+    const first = await stub.geocode('42 Elm St, Springfield');
+    const again = await stub.geocode('42 elm st springfield');
+    const other = await stub.geocode('43 Elm St, Springfield');
+
+    expect(first).toEqual(again);
+    expect(other).not.toEqual(first);
+    expect(Math.abs(first!.lat - 40)).toBeLessThanOrEqual(0.35);
+    expect(Math.abs(first!.lng + 100)).toBeLessThanOrEqual(0.45);
+  });
+
+  it('returns null for a blank address', async () => {
+    const { createLocalGeocoder } = await loadGeocoding();
+
+    expect(await createLocalGeocoder().geocode(' , ')).toBeNull();
+  });
+
+  it('never caches its invented coordinates', async () => {
+    const { setGeocodingProvider, createLocalGeocoder, geocodeAddress } = await loadGeocoding();
+    setGeocodingProvider(createLocalGeocoder());
+
+    await geocodeAddress('1 Invented Way, Nowhere');
+    expect(storage.getItem(CACHE_KEY)).toBeNull();
+  });
+
+  it('orders stops for the route optimizer', async () => {
+    const { setGeocodingProvider, createLocalGeocoder, geocodeAddress } = await loadGeocoding();
+    setGeocodingProvider(
+      createLocalGeocoder({
+        'Office': { lat: 39.7, lng: -105.0 },
+        'Far': { lat: 39.7, lng: -104.7 },
+        'Near': { lat: 39.7, lng: -104.9 },
+        'Middle': { lat: 39.7, lng: -104.8 },
+      })
+    );
+
+    const start = (await geocodeAddress('Office'))!;
+    const stops = await Promise.all(
+      ['Far', 'Near', 'Middle'].map(async (name) => ({ name, point: (await geocodeAddress(name))! }))
+    );
+    const route = optimizeRoute(stops, { start });
+
+    expect(route.stops.map((s) => s.name)).toEqual(['Near', 'Middle', 'Far']);
+  });
+});
+
+describe('caching', () => {
+  const fakeProvider = (geocode: GeocodingProvider['geocode']): GeocodingProvider => ({
+    name: 'Fake',
+    cacheable: true,
+    geocode: vi.fn(geocode),
+  });
+
+  it('caches results of real providers and reuses them', async () => {
+    const { setGeocodingProvider, geocodeAddress } = await loadGeocoding();
+    const provider = fakeProvider(async () => ({ lat: 1, lng: 2 }));
+    setGeocodingProvider(provider);
+
+    expect(await geocodeAddress('5 Oak Ave, Boulder, CO')).toEqual({ lat: 1, lng: 2 });
+    expect(await geocodeAddress('5 oak ave boulder co')).toEqual({ lat: 1, lng: 2 });
+    expect(provider.geocode).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(storage.getItem(CACHE_KEY)!)).toEqual({ '5 oak ave boulder co': { lat: 1, lng: 2 } });
+  });
+
+  it('clears the cache when the provider changes', async () => {
+    const { setGeocodingProvider, geocodeAddress } = await loadGeocoding();
+    setGeocodingProvider(fakeProvider(async () => ({ lat: 1, lng: 2 })));
+    await geocodeAddress('5 Oak Ave');
+
+    setGeocodingProvider(fakeProvider(async () => ({ lat: 3, lng: 4 })));
+    expect(await geocodeAddress('5 Oak Ave')).toEqual({ lat: 3, lng: 4 });
+  });
+
+  it('resolves provider failures to null', async () => {
+    const { setGeocodingProvider, geocodeAddress } = await loadGeocoding();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setGeocodingProvider(fakeProvider(async () => {
+      throw new Error('offline');
+    }));
+
+    expect(await geocodeAddress('5 Oak Ave')).toBeNull();
+    expect(storage.getItem(CACHE_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+// ============================================================================
+// Geocoding Utilities
+// Location: src/utils/geocoding.ts
+//
+// Turns street addresses into coordinates for route planning.
+// Lookups go through a GeocodingProvider so the backing service can be swapped:
+// - Radar.io forward geocoding when VITE_RADAR_PUBLISHABLE_KEY is set
+// - A local stub (deterministic, no network) only when a test calls
+//   setGeocodingProvider, or a dev build sets VITE_LOCAL_GEOCODER=true
+// - Nothing otherwise: route planning shows that geocoding isn't configured
+//
+// Real results are cached in localStorage, so routes built once keep working
+// offline. Stub coordinates are made up and never cached.
+// ============================================================================
+
+// Same key the address autocomplete uses
+const RADAR_API_KEY = import.meta.env.VITE_RADAR_PUBLISHABLE_KEY as string || '';
+
+const CACHE_KEY = 'sg-geocode-cache-v2';
+
+// Earlier builds fell back to the stub and cached its invented points here
+const LEGACY_CACHE_KEY = 'sg-geocode-cache';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface GeocodingProvider {
+  /** Shown in the UI so users know where coordinates came from */
+  name: string;
+  /** Whether results are real locations worth keeping in the offline cache */
+  cacheable: boolean;
+  /** Resolve a single-line address; null when it can't be located */
+  geocode: (address: string) => Promise<GeoPoint | null>;
+}
+
+// Radar.io forward geocoding response (fields we use)
+interface RadarGeocodeResponse {
+  meta: {
+    code: number;
+  };
+  addresses: { latitude?: number; longitude?: number }[];
+}
+
+/**
+ * Radar.io forward geocoding provider
+ */
+export const radarGeocoder: GeocodingProvider = {
+  name: 'Radar',
+  cacheable: true,
+  geocode: async (address) => {
+    const params = new URLSearchParams({ query: address, country: 'US' });
+    const response = await fetch(`https://api.radar.io/v1/geocode/forward?${params}`, {
+      headers: {
+        'Authorization': RADAR_API_KEY,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Radar API error: ${response.status}`);
+    }
+
+    const data: RadarGeocodeResponse = await response.json();
+    const match = data.addresses[0];
+    if (data.meta.code !== 200 || match?.latitude == null || match.longitude == null) {
+      return null;
+    }
+    return { lat: match.latitude, lng: match.longitude };
+  },
+};
+
+/**
+ * Local stub provider for tests and development - no network.
+ * Known addresses come from `fixtures`; anything else is placed at a stable
+ * pseudo-random point (hashed from the address) within ~25 miles of `center`.
+ * Those points are invented, so never make this the default.
+ *
+ * @param fixtures - Exact coordinates keyed by address (case/space-insensitive)
+ * @param center - Where unknown addresses are scattered around
+ */
+export const createLocalGeocoder = (
+  fixtures: Record<string, GeoPoint> = {},
+  center: GeoPoint = { lat: 39.7392, lng: -104.9903 }
+): GeocodingProvider => {
+  const known = new Map(Object.entries(fixtures).map(([address, point]) => [normalizeAddress(address), point]));
+
+  return {
+    name: 'Local (test)',
+    cacheable: false,
+    geocode: async (address) => {
+      const key = normalizeAddress(address);
+      if (!key) return null;
+
+      const fixture = known.get(key);
+      if (fixture) return fixture;
+
+      // FNV-1a - two independent 16-bit halves give the lat/lng offsets
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+      }
+      const latOffset = ((hash & 0xffff) / 0xffff - 0.5) * 0.7;
+      const lngOffset = ((hash >>> 16) / 0xffff - 0.5) * 0.9;
+      return { lat: center.lat + latOffset, lng: center.lng + lngOffset };
+    },
+  };
+};
+
+function defaultProvider(): GeocodingProvider | null {
+  if (RADAR_API_KEY) return radarGeocoder;
+  if (import.meta.env.DEV && import.meta.env.VITE_LOCAL_GEOCODER === 'true') return createLocalGeocoder();
+  return null;
+}
+
+// Active provider - null when geocoding isn't configured
+let activeProvider: GeocodingProvider | null = defaultProvider();
+
+if (typeof localStorage !== 'undefined') {
+  localStorage.removeItem(LEGACY_CACHE_KEY);
+}
+
+/**
+ * Get the provider used by geocodeAddress, or null when none is configured
+ */
+export const getGeocodingProvider = (): GeocodingProvider | null => activeProvider;
+
+/**
+ * Whether addresses can be geocoded (route optimization needs it)
+ */
+export const isGeocodingConfigured = (): boolean => activeProvider !== null;
+
+/**
+ * Replace the provider (e.g. a local stub with fixtures in tests), or pass
+ * null to go back to the configured default.
+ * Clears the cache so stale coordinates from the previous provider aren't reused.
+ */
+export const setGeocodingProvider = (provider: GeocodingProvider | null): void => {
+  activeProvider = provider ?? defaultProvider();
+  localStorage.removeItem(CACHE_KEY);
+};
+
+function normalizeAddress(address: string): string {
+  return address.toLowerCase().replace(/[.,#]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function readCache(): Record<string, GeoPoint> {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Geocode an address with the active provider. Cacheable providers check the
+ * localStorage cache first. Provider failures (offline, quota) resolve to null
+ * rather than throwing.
+ *
+ * @param address - Single-line address ("123 Main St, Denver, CO 80202")
+ * @returns Coordinates, or null when the address couldn't be located or no
+ *   provider is configured
+ */
+export const geocodeAddress = async (address: string): Promise<GeoPoint | null> => {
+  const provider = activeProvider;
+  const key = normalizeAddress(address);
+  if (!provider || !key) return null;
+
+  if (provider.cacheable) {
+    const cached = readCache()[key];
+    if (cached) return cached;
+  }
+
+  try {
+    const point = await provider.geocode(address);
+    if (point && provider.cacheable) {
+      localStorage.setItem(CACHE_KEY, JSON.stringify({ ...readCache(), [key]: point }));
+    }
+    return point;
+  } catch (error) {
+    console.error('Error geocoding address:', error);
+    return null;
+  }
+};
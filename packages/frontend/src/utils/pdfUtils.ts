@@ -0,0 +1,20 @@
+/**
+ * Open a generated PDF in a new tab. The tab is opened before the request so
+ * popup blockers treat it as part of the click; it is closed again on failure.
+ */
+export async function openPdfInNewTab(load: () => Promise<Blob>): Promise<void> {
+  const tab = window.open('', '_blank');
+  try {
+    const url = URL.createObjectURL(await load());
+    if (tab) {
+      tab.location.href = url;
+    } else {
+      window.location.href = url;
+    }
+    // Long enough for the viewer to load it
+    setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+}
@@ -0,0 +1,116 @@
+// ============================================================================
+// Route Export
+// Location: src/utils/routeExport.ts
+//
+// Serializes a planned sales route for use outside the portal:
+// - Plain ordered list (clipboard / email)
+// - GPX route for GPS units and navigation apps
+// - ICS calendar with one event per stop
+// ============================================================================
+
+import type { GeoPoint } from './geocoding';
+
+export interface ExportedStop {
+  name: string;
+  address: string;
+  point: GeoPoint;
+  /** HH:MM */
+  arrival: string;
+  /** HH:MM */
+  departure: string;
+  notes?: string;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const escapeIcs = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// 2026-03-04 + 09:30 -> 20260304T093000 (floating local time)
+const toIcsDateTime = (date: string, time: string) =>
+  `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+/**
+ * Numbered plain-text list of stops with times
+ */
+export function routeToText(title: string, stops: ExportedStop[]): string {
+  const lines = stops.map((stop, index) =>
+    `${index + 1}. ${stop.arrival} - ${stop.name}\n   ${stop.address}`
+  );
+  return [title, '', ...lines].join('\n');
+}
+
+/**
+ * GPX 1.1 document with the stops as an ordered route
+ */
+export function routeToGPX(title: string, stops: ExportedStop[]): string {
+  const points = stops.map(stop => [
+    `    <rtept lat="${stop.point.lat.toFixed(6)}" lon="${stop.point.lng.toFixed(6)}">`,
+    `      <name>${escapeXml(stop.name)}</name>`,
+    `      <desc>${escapeXml(stop.address)}</desc>`,
+    `    </rtept>`,
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="SG Portal" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <rte>',
+    `    <name>${escapeXml(title)}</name>`,
+    ...points,
+    '  </rte>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * iCalendar document with one event per stop on `date` (YYYY-MM-DD).
+ * Times are floating so the calendar shows them in the rep's own time zone.
+ */
+export function routeToICS(title: string, date: string, stops: ExportedStop[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const events = stops.flatMap((stop, index) => [
+    'BEGIN:VEVENT',
+    `UID:${date}-${index + 1}-${stamp}@sg-portal`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${toIcsDateTime(date, stop.arrival)}`,
+    `DTEND:${toIcsDateTime(date, stop.departure)}`,
+    `SUMMARY:${escapeIcs(`${index + 1}. ${stop.name}`)}`,
+    `LOCATION:${escapeIcs(stop.address)}`,
+    `GEO:${stop.point.lat.toFixed(6)};${stop.point.lng.toFixed(6)}`,
+    ...(stop.notes ? [`DESCRIPTION:${escapeIcs(stop.notes)}`] : []),
+    'END:VEVENT',
+  ]);
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SG Portal//Sales Routes//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcs(title)}`,
+    ...events,
+    'END:VCALENDAR',
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Save text content as a file download
+ */
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
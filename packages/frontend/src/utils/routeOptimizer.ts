@@ -0,0 +1,153 @@
+// ============================================================================
+// Route Optimizer
+// Location: src/utils/routeOptimizer.ts
+//
+// Orders route stops to keep driving short: a nearest-neighbor tour as the
+// starting point, then 2-opt passes that reverse segments while that shortens
+// the route. Distances are straight-line (haversine) miles - good enough to
+// order a day's stops without a routing service.
+// ============================================================================
+
+import type { GeoPoint } from './geocoding';
+
+// Average driving speed used to turn straight-line miles into drive time
+const AVERAGE_SPEED_MPH = 30;
+
+// Safety cap - 2-opt converges long before this for a day's worth of stops
+const MAX_TWO_OPT_PASSES = 50;
+
+/**
+ * Straight-line distance between two points in miles
+ */
+export function haversineMiles(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 3958.8 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Estimated drive time in whole minutes for a straight-line distance
+ */
+export function estimateDriveMinutes(miles: number): number {
+  return Math.round((miles / AVERAGE_SPEED_MPH) * 60);
+}
+
+export interface OptimizeRouteOptions {
+  /** Fixed starting point (e.g. the office); otherwise the route may begin at any stop */
+  start?: GeoPoint;
+  /** Count the drive back to the start in the total and optimize for it */
+  returnToStart?: boolean;
+}
+
+export interface OptimizedRoute<T> {
+  /** Stops in visiting order */
+  stops: T[];
+  /** Miles driven to reach each stop from the previous stop (or the start) */
+  legMiles: number[];
+  /** Total miles, including the drive back when returnToStart is set */
+  totalMiles: number;
+}
+
+/**
+ * Order stops with nearest-neighbor followed by 2-opt improvement.
+ *
+ * @param stops - Anything with coordinates
+ * @param options - Optional fixed start / round trip
+ * @returns Stops in visiting order with leg and total distances
+ */
+export function optimizeRoute<T extends { point: GeoPoint }>(
+  stops: T[],
+  options: OptimizeRouteOptions = {}
+): OptimizedRoute<T> {
+  const { start, returnToStart = false } = options;
+  if (stops.length === 0) return { stops: [], legMiles: [], totalMiles: 0 };
+
+  // Node 0 is the fixed start when there is one; stops follow
+  const points = start ? [start, ...stops.map(s => s.point)] : stops.map(s => s.point);
+  const offset = start ? 1 : 0;
+  const n = points.length;
+  const matrix = points.map(p => points.map(q => haversineMiles(p, q)));
+  const dist = (a: number, b: number): number => matrix[a]![b]!;
+
+  // Nearest neighbor from node 0
+  const path = [0];
+  const visited = new Set(path);
+  while (path.length < n) {
+    const last = path[path.length - 1]!;
+    let nearest = -1;
+    for (let j = 0; j < n; j++) {
+      if (!visited.has(j) && (nearest === -1 || dist(last, j) < dist(last, nearest))) nearest = j;
+    }
+    path.push(nearest);
+    visited.add(nearest);
+  }
+  const at = (position: number): number => path[position]!;
+
+  // Distance from a node to whatever follows path position `position`; the last
+  // position leads back to path[0] on a round trip and nowhere otherwise
+  const distToNext = (node: number, position: number): number => {
+    if (position + 1 < n) return dist(node, at(position + 1));
+    return returnToStart ? dist(node, at(0)) : 0;
+  };
+
+  // 2-opt: reverse path[i..k] whenever that shortens the route.
+  // Position 0 stays put with a fixed start, and on a round trip (where
+  // rotating the loop changes nothing) so the first stop given stays first.
+  const firstMovable = start || returnToStart ? 1 : 0;
+  for (let pass = 0, improved = true; improved && pass < MAX_TWO_OPT_PASSES; pass++) {
+    improved = false;
+    for (let i = firstMovable; i < n - 1; i++) {
+      for (let k = i + 1; k < n; k++) {
+        const before = (i > 0 ? dist(at(i - 1), at(i)) : 0) + distToNext(at(k), k);
+        const after = (i > 0 ? dist(at(i - 1), at(k)) : 0) + distToNext(at(i), k);
+        if (after < before - 1e-9) {
+          path.splice(i, k - i + 1, ...path.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+
+  const ordered = path.slice(offset);
+  const legMiles = ordered.map((node, index) => {
+    if (index > 0) return dist(ordered[index - 1]!, node);
+    return start ? dist(0, node) : 0;
+  });
+  const returnMiles = returnToStart ? dist(ordered[ordered.length - 1]!, at(0)) : 0;
+
+  return {
+    stops: ordered.map(node => stops[node - offset]!),
+    legMiles,
+    totalMiles: legMiles.reduce((sum, miles) => sum + miles, 0) + returnMiles,
+  };
+}
+
+export interface StopTimes {
+  /** HH:MM */
+  arrival: string;
+  /** HH:MM */
+  departure: string;
+}
+
+/**
+ * Arrival/departure times for each stop of an ordered route.
+ *
+ * @param legMiles - Miles driven to each stop (from optimizeRoute)
+ * @param startTime - Departure time from the start, HH:MM
+ * @param visitMinutes - Time spent at each stop
+ */
+export function scheduleRoute(legMiles: number[], startTime: string, visitMinutes: number): StopTimes[] {
+  const [hours, minutes] = startTime.split(':').map(Number);
+  let clock = (hours || 0) * 60 + (minutes || 0);
+  const format = (total: number) =>
+    `${String(Math.floor(total / 60) % 24).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+
+  return legMiles.map(miles => {
+    clock += estimateDriveMinutes(miles);
+    const arrival = format(clock);
+    clock += visitMinutes;
+    return { arrival, departure: format(clock) };
+  });
+}
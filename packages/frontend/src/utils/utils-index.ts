@@ -3,5 +3,9 @@
 
 export * from './validation';
 export * from './addressAutocomplete';
+export * from './geocoding';
+export * from './routeOptimizer';
+export * from './routeExport';
 export * from './slugUtils';
-export * from './dateUtils';
\ No newline at end of file
+export * from './dateUtils';
+export * from './pdfUtils';
\ No newline at end of file
@@ -11,6 +11,10 @@ export interface User {
   avatarUrl?: string;
   role: UserRole;
   permissions: Permission[];
+  // Customer and sales record visibility, from the user's roles
+  recordScope?: RecordScope;
+  // Portal user ids whose records the user can see; null when unrestricted
+  visibleRepIds?: string[] | null;
   department?: string;
   jobTitle?: string;
   createdAt: string;
@@ -27,6 +31,10 @@ export type UserRole =
   | 'developer'
   | 'viewer';
 
+// Which companies, contacts, leads and deals a user can see: their own, their
+// own plus their direct reports', their office's, or everything
+export type RecordScope = 'own' | 'team' | 'office' | 'all';
+
 export type Permission =
   // Dashboard
   | 'dashboard:view'
@@ -36,17 +44,32 @@ export type Permission =
   | 'customers:create'
   | 'customers:edit'
   | 'customers:delete'
+  // Sales
+  | 'sales:view'
+  | 'sales:create'
+  | 'sales:edit'
+  | 'sales:delete'
   // Projects
   | 'projects:view'
   | 'projects:create'
   | 'projects:edit'
   | 'projects:delete'
+  | 'projects:costs'
+  | 'projects:time'
+  | 'projects:timesheets'
+  | 'projects:change_orders'
+  // Tasks
+  | 'tasks:view'
+  | 'tasks:create'
+  | 'tasks:edit'
+  | 'tasks:delete'
   // Estimating
   | 'estimating:view'
   | 'estimating:create'
   | 'estimating:edit'
   | 'estimating:delete'
   | 'estimating:approve'
+  | 'estimating:costs'
   // Accounting
   | 'accounting:view'
   | 'accounting:create'